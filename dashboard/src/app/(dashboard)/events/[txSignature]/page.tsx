@@ -5,7 +5,7 @@ import { useQuery } from '@tanstack/react-query';
 import Link from 'next/link';
 import { ArrowLeft, ExternalLink, Copy, Check, Search } from 'lucide-react';
 import { useState } from 'react';
-import { getPrograms, getEventByTx, getTxLogs } from '@/lib/api';
+import { getTransaction } from '@/lib/api';
 import { PageContainer } from '@/components/layout/page-container';
 import { Card } from '@/components/ui/card';
 import { Badge, EventTag } from '@/components/ui/badge';
@@ -48,34 +48,22 @@ export default function EventDetailPage() {
   const qsProgram = searchParams.get('program') || '';
   const qsEvent = searchParams.get('event') || '';
 
-  const { data: programsData } = useQuery({
-    queryKey: ['programs'],
-    queryFn: getPrograms,
-    retry: 1,
-  });
-
-  const userPrograms = programsData?.data || [];
-  const programName = qsProgram || userPrograms[0]?.name;
-  const matchedProgram = userPrograms.find(p => p.name === programName);
-  const eventName = qsEvent || matchedProgram?.events?.find(e => e.enabled)?.name;
-
-  const { data: eventData, isLoading, error } = useQuery({
-    queryKey: ['event-detail', programName, eventName, txSignature],
-    queryFn: () => getEventByTx(programName!, eventName!, txSignature),
-    enabled: !!programName && !!eventName && !!txSignature,
-    retry: 1,
-  });
-
-  const { data: txLogsData } = useQuery({
-    queryKey: ['tx-logs', txSignature],
-    queryFn: () => getTxLogs(txSignature),
+  const { data: txData, isLoading, error } = useQuery({
+    queryKey: ['transaction', txSignature],
+    queryFn: () => getTransaction(txSignature),
     enabled: !!txSignature,
     retry: 1,
   });
 
-  const events = eventData?.data || [];
-  const mainEvent = events[0];
-  const txLogs = txLogsData?.data?.log_messages || [];
+  const tx = txData?.data;
+  const entries = tx?.entries || [];
+  const mainEntry =
+    entries.find(e => e.kind === 'event' && (!qsProgram || e.program === qsProgram) && (!qsEvent || e.name === qsEvent)) ||
+    entries.find(e => e.kind === 'event') ||
+    entries[0];
+  const mainEvent = mainEntry?.data;
+  const otherEntries = entries.filter(e => e !== mainEntry);
+  const txLogs = tx?.logs || [];
 
   return (
     <PageContainer
@@ -107,9 +95,9 @@ export default function EventDetailPage() {
             <div className="flex items-center justify-between mb-4">
               <div className="flex items-center gap-3">
                 <EventTag className="text-sm px-3 py-1">
-                  {String(mainEvent.eventType || mainEvent.event_type || eventName || 'Event')}
+                  {mainEntry.name}
                 </EventTag>
-                <Badge variant="success" dot>Confirmed</Badge>
+                <Badge variant="success" dot>{tx?.commitment === 'finalized' ? 'Finalized' : 'Confirmed'}</Badge>
               </div>
               <div className="flex items-center gap-2">
                 <Button variant="ghost" size="sm" onClick={() => copyToClipboard(window.location.href)}>
@@ -186,15 +174,17 @@ export default function EventDetailPage() {
             <JsonViewer data={mainEvent} />
           </div>
 
-          {events.length > 1 && (
+          {otherEntries.length > 0 && (
             <Card>
               <h3 className="text-[15px] font-semibold leading-5 text-[#EDEDEF] mb-3">
-                Other events in this transaction ({events.length - 1})
+                Other entries in this transaction ({otherEntries.length})
               </h3>
               <div className="flex flex-wrap gap-2">
-                {events.slice(1).map((evt, i) => (
+                {otherEntries.map((entry, i) => (
                   <EventTag key={i}>
-                    {String(evt.eventType || evt.event_type || 'Event')}
+                    {entry.kind === 'token_transfer'
+                      ? `${entry.name} ${String(entry.data.ui_amount ?? entry.data.amount)}`
+                      : `${entry.program}.${entry.name}`}
                   </EventTag>
                 ))}
               </div>
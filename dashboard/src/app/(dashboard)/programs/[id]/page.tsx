@@ -155,7 +155,7 @@ export default function ProgramDetailPage() {
                 <Button variant="secondary" size="sm" onClick={() => pauseMut.mutate()} loading={pauseMut.isPending}>
                   <Pause className="w-3.5 h-3.5" /> Pause
                 </Button>
-              ) : program.status === 'paused' ? (
+              ) : program.status === 'paused' && program.pauseReason !== 'quota' ? (
                 <Button variant="secondary" size="sm" onClick={() => resumeMut.mutate()} loading={resumeMut.isPending}>
                   <Play className="w-3.5 h-3.5" /> Resume
                 </Button>
@@ -184,6 +184,18 @@ export default function ProgramDetailPage() {
           </Card>
         )}
 
+        {program.pauseReason === 'quota' && (
+          <Card className="border-yellow-500/20">
+            <div className="flex items-start gap-3">
+              <span className="text-yellow-400 text-sm font-medium whitespace-nowrap">Quota reached:</span>
+              <span className="text-xs text-[#A0A0AB]">
+                {program.error}{' '}
+                <Link href="/settings" className="text-[#22D3EE] hover:underline">View usage</Link>
+              </span>
+            </div>
+          </Card>
+        )}
+
         {/* Backfill Progress */}
         {program.backfill && (
           <Card className={
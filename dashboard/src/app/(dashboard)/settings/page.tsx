@@ -56,7 +56,7 @@ export default function SettingsPage() {
             {activeTab === 'usage' && profile && (
               <Card>
                 <h3 className="text-[15px] font-semibold text-[#EDEDEF] mb-1">Usage & Limits</h3>
-                <p className="text-xs text-[#63637A] mb-6">Your current usage against free tier limits</p>
+                <p className="text-xs text-[#63637A] mb-6">Your current usage against your plan limits</p>
                 <UsageDisplay profile={profile} />
               </Card>
             )}
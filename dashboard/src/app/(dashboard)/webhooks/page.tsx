@@ -5,10 +5,10 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useRouter } from 'next/navigation';
 import {
   Webhook, Plus, Trash2, Copy, Check, MoreVertical,
-  Power, PowerOff, AlertCircle, ExternalLink,
+  Power, PowerOff, AlertCircle, ExternalLink, Send,
 } from 'lucide-react';
 import { toast } from 'sonner';
-import { getWebhooks, deleteWebhook, updateWebhook, getPrograms } from '@/lib/api';
+import { getWebhooks, deleteWebhook, updateWebhook, getPrograms, testWebhook } from '@/lib/api';
 import { PageContainer } from '@/components/layout/page-container';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -20,7 +20,7 @@ import { Tabs } from '@/components/ui/tabs';
 import { Spinner } from '@/components/ui/spinner';
 import { WebhookForm } from '@/components/webhooks/webhook-form';
 import { WebhookDeliveryLog } from '@/components/webhooks/webhook-delivery-log';
-import { truncateAddress, formatRelativeTime, copyToClipboard } from '@/lib/utils';
+import { truncateAddress, formatRelativeTime, copyToClipboard, webhookTarget } from '@/lib/utils';
 import type { WebhookInfo } from '@/lib/types';
 
 export default function WebhooksPage() {
@@ -61,6 +61,16 @@ export default function WebhooksPage() {
     onError: (err) => toast.error(err instanceof Error ? err.message : 'Failed'),
   });
 
+  const testMutation = useMutation({
+    mutationFn: (id: string) => testWebhook(id),
+    onSuccess: (result) => {
+      const detail = result.responseStatus ? `HTTP ${result.responseStatus}` : result.responseBody;
+      if (result.success) toast.success(`Test event delivered${detail ? ` (${detail})` : ''}.`);
+      else toast.error(`Test event failed${detail ? `: ${detail}` : ''}`);
+    },
+    onError: (err) => toast.error(err instanceof Error ? err.message : 'Failed'),
+  });
+
   const webhooks = webhookData?.data || [];
   const programs = programsData?.data || [];
 
@@ -110,7 +120,7 @@ export default function WebhooksPage() {
                       <div className="flex-1 min-w-0">
                         <div className="flex items-center gap-3 mb-1">
                           <span className="font-mono text-sm text-[#67E8F9] truncate max-w-[400px]">
-                            {wh.url}
+                            {webhookTarget(wh)}
                           </span>
                           <Badge
                             variant={wh.active ? 'success' : 'default'}
@@ -119,6 +129,9 @@ export default function WebhooksPage() {
                           >
                             {wh.active ? 'Active' : 'Disabled'}
                           </Badge>
+                          {wh.payloadFormat !== 'default' && (
+                            <Badge>{wh.payloadFormat}</Badge>
+                          )}
                           {wh.failureCount > 0 && (
                             <Badge variant="error">
                               {wh.failureCount} failures
@@ -154,6 +167,7 @@ export default function WebhooksPage() {
                             </Button>
                           }
                           items={[
+                            { label: 'Send test event', icon: <Send className="w-4 h-4" />, onClick: () => testMutation.mutate(wh.id) },
                             wh.active
                               ? { label: 'Disable', icon: <PowerOff className="w-4 h-4" />, onClick: () => toggleMutation.mutate({ id: wh.id, active: false }) }
                               : { label: 'Enable', icon: <Power className="w-4 h-4" />, onClick: () => toggleMutation.mutate({ id: wh.id, active: true }) },
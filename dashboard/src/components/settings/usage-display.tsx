@@ -1,12 +1,47 @@
 'use client';
 
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+  CartesianGrid,
+} from 'recharts';
+import { Download } from 'lucide-react';
+import { toast } from 'sonner';
+import { PillTabs } from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Spinner } from '@/components/ui/spinner';
+import { getUsageHistory, downloadUsageHistoryCsv } from '@/lib/api';
 import { formatNumber } from '@/lib/utils';
-import type { UserProfile } from '@/lib/types';
+import type { UserProfile, UsageHistoryPoint, UsageMetric } from '@/lib/types';
 
 interface UsageDisplayProps {
   profile: UserProfile;
 }
 
+const metricOptions = [
+  { value: 'event_indexed', label: 'Events' },
+  { value: 'api_call', label: 'API Calls' },
+];
+
+const rangeOptions = [
+  { value: '7', label: '7d' },
+  { value: '30', label: '30d' },
+  { value: '90', label: '90d' },
+];
+
+/** Series colors, assigned to programs in order */
+const programColors = ['#22D3EE', '#A78BFA', '#34D399', '#FBBF24', '#F472B6', '#60A5FA', '#FB923C'];
+
+/** Chart key of usage not tied to a program */
+const OTHER_KEY = '__other';
+
 function UsageBar({ current, limit, label }: { current: number; limit: number; label: string }) {
   const pct = limit > 0 ? Math.min((current / limit) * 100, 100) : 0;
   const isWarning = pct >= 80;
@@ -32,19 +67,145 @@ function UsageBar({ current, limit, label }: { current: number; limit: number; l
   );
 }
 
+/** Pivots history points into one row per day with a column per program */
+function toChartData(points: UsageHistoryPoint[]) {
+  const series = new Map<string, string>();
+  const rows = new Map<string, Record<string, string | number>>();
+
+  for (const point of points) {
+    const key = point.programId ?? OTHER_KEY;
+    series.set(key, point.programName ?? (point.programId ? point.programId.slice(0, 8) : 'Other'));
+
+    const day = point.period.slice(0, 10);
+    const row = rows.get(day) ?? { day };
+    row[key] = ((row[key] as number | undefined) ?? 0) + point.count;
+    rows.set(day, row);
+  }
+
+  return { rows: Array.from(rows.values()), series: Array.from(series.entries()) };
+}
+
+function UsageHistoryChart() {
+  const [metric, setMetric] = useState<UsageMetric>('event_indexed');
+  const [range, setRange] = useState('30');
+  const [downloading, setDownloading] = useState(false);
+
+  const from = new Date(Date.now() - Number(range) * 24 * 60 * 60 * 1000);
+  from.setUTCHours(0, 0, 0, 0);
+  const params = { metric, granularity: 'day' as const, from: from.toISOString() };
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['usage-history', metric, range],
+    queryFn: () => getUsageHistory(params),
+    retry: 1,
+  });
+
+  const { rows, series } = toChartData(data?.data ?? []);
+
+  const handleDownload = async () => {
+    setDownloading(true);
+    try {
+      await downloadUsageHistoryCsv({ granularity: 'day', from: params.from });
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Download failed');
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <span className="text-sm font-medium text-[#EDEDEF]">Usage by Program</span>
+          <p className="text-xs text-[#63637A] mt-0.5">Daily, UTC</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <PillTabs options={metricOptions} value={metric} onChange={(v) => setMetric(v as UsageMetric)} />
+          <PillTabs options={rangeOptions} value={range} onChange={setRange} />
+          <Button variant="secondary" size="sm" onClick={handleDownload} loading={downloading}>
+            <Download className="w-3.5 h-3.5" /> CSV
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="h-[220px] flex items-center justify-center">
+          <Spinner />
+        </div>
+      ) : rows.length === 0 ? (
+        <div className="h-[220px] flex items-center justify-center">
+          <p className="text-sm text-[#63637A]">No usage in this period</p>
+        </div>
+      ) : (
+        <div className="h-[220px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={rows} margin={{ top: 10, right: 10, left: -20, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#1E1E26" vertical={false} />
+              <XAxis
+                dataKey="day"
+                axisLine={false}
+                tickLine={false}
+                tick={{ fill: '#63637A', fontSize: 10 }}
+                tickFormatter={(v: string) => v.slice(5)}
+                interval="preserveStartEnd"
+                minTickGap={30}
+              />
+              <YAxis
+                axisLine={false}
+                tickLine={false}
+                tick={{ fill: '#63637A', fontSize: 10, fontFamily: 'JetBrains Mono' }}
+                width={50}
+                tickFormatter={(v: number) => v >= 1000 ? `${(v / 1000).toFixed(1)}k` : String(v)}
+              />
+              <Tooltip
+                cursor={{ fill: '#1E1E26' }}
+                contentStyle={{ background: '#16161A', border: '1px solid #2A2A35', borderRadius: 8, fontSize: 12 }}
+                labelStyle={{ color: '#63637A' }}
+              />
+              <Legend wrapperStyle={{ fontSize: 11, color: '#A0A0AB' }} />
+              {series.map(([key, name], i) => (
+                <Bar
+                  key={key}
+                  dataKey={key}
+                  name={name}
+                  stackId="usage"
+                  fill={programColors[i % programColors.length]}
+                />
+              ))}
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+    </div>
+  );
+}
+
 export function UsageDisplay({ profile }: UsageDisplayProps) {
   return (
     <div className="space-y-5">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium text-[#EDEDEF]">Plan</span>
+        <span className="font-mono text-xs text-[#A0A0AB]">{profile.usage.plan.name}</span>
+      </div>
       <UsageBar
         label="Programs"
         current={profile.usage.programs}
         limit={profile.usage.programLimit}
       />
+      <UsageBar
+        label="Events Indexed"
+        current={profile.usage.eventsIndexed}
+        limit={profile.usage.eventLimit}
+      />
       <UsageBar
         label="API Calls (this month)"
         current={profile.usage.apiCalls}
         limit={profile.usage.apiCallLimit}
       />
+      <div className="pt-5 border-t border-[#1E1E26]">
+        <UsageHistoryChart />
+      </div>
     </div>
   );
 }
@@ -1,29 +1,67 @@
 'use client';
 
-import { useState, useMemo } from 'react';
+import { Fragment, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import {
-  CheckCircle2, XCircle, Clock, ChevronDown, ChevronRight,
-  Inbox,
+  CheckCircle2, XCircle, Clock, ChevronDown, ChevronRight, ChevronLeft,
+  Inbox, RotateCw,
 } from 'lucide-react';
-import { Badge, EventTag } from '@/components/ui/badge';
+import { toast } from 'sonner';
+import { EventTag } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
 import { EmptyState } from '@/components/ui/empty-state';
-import { cn, formatRelativeTime, truncateAddress } from '@/lib/utils';
-import type { WebhookInfo, WebhookDelivery } from '@/lib/types';
+import { PillTabs } from '@/components/ui/select';
+import { Spinner } from '@/components/ui/spinner';
+import { getWebhookDeliveries, redeliverWebhookDelivery } from '@/lib/api';
+import { cn, formatNumber, formatRelativeTime, truncateAddress, webhookTarget } from '@/lib/utils';
+import type { WebhookInfo } from '@/lib/types';
 
 interface WebhookDeliveryLogProps {
   webhooks: WebhookInfo[];
 }
 
-// Note: In a real implementation, deliveries would be fetched from
-// GET /api/v1/webhooks/:id/deliveries. For now, we show a placeholder
-// that can be wired up once the backend endpoint exists.
+const PAGE_SIZE = 25;
+
+const statusOptions = [
+  { value: 'all', label: 'All' },
+  { value: 'failed', label: 'Failed' },
+];
 
 export function WebhookDeliveryLog({ webhooks }: WebhookDeliveryLogProps) {
+  const queryClient = useQueryClient();
   const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [status, setStatus] = useState('all');
+  const [page, setPage] = useState(0);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['webhook-deliveries', status, page],
+    queryFn: () =>
+      getWebhookDeliveries({
+        success: status === 'failed' ? false : undefined,
+        limit: PAGE_SIZE,
+        offset: page * PAGE_SIZE,
+      }),
+    enabled: webhooks.length > 0,
+    refetchInterval: 10000,
+  });
+
+  const redeliverMutation = useMutation({
+    mutationFn: redeliverWebhookDelivery,
+    onSuccess: ({ enqueued }) => {
+      queryClient.invalidateQueries({ queryKey: ['webhook-deliveries'] });
+      toast.success(`Queued ${enqueued} event${enqueued === 1 ? '' : 's'} for redelivery.`);
+    },
+    onError: (err) => toast.error(err instanceof Error ? err.message : 'Failed'),
+  });
+
+  const deliveries = data?.data || [];
+  const total = data?.pagination?.total || 0;
+  const totalPages = Math.ceil(total / PAGE_SIZE);
 
-  // Placeholder: in real usage, fetch deliveries from API
-  // For now, show an informative empty state
-  const deliveries: WebhookDelivery[] = [];
+  const handleStatusChange = (value: string) => {
+    setStatus(value);
+    setPage(0);
+  };
 
   if (webhooks.length === 0) {
     return (
@@ -35,140 +73,210 @@ export function WebhookDeliveryLog({ webhooks }: WebhookDeliveryLogProps) {
     );
   }
 
+  const filters = (
+    <div className="flex justify-end">
+      <PillTabs options={statusOptions} value={status} onChange={handleStatusChange} />
+    </div>
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Spinner size="lg" />
+      </div>
+    );
+  }
+
   if (deliveries.length === 0) {
     return (
-      <EmptyState
-        icon={<Clock className="w-6 h-6" />}
-        title="No deliveries yet"
-        description="Webhook deliveries will appear here once events are triggered. Deliveries are logged with status codes and response data."
-      />
+      <div className="space-y-4">
+        {filters}
+        <EmptyState
+          icon={<Clock className="w-6 h-6" />}
+          title={status === 'failed' ? 'No failed deliveries' : 'No deliveries yet'}
+          description="Webhook deliveries will appear here once events are triggered. Deliveries are logged with status codes and response data."
+        />
+      </div>
     );
   }
 
   return (
-    <div className="rounded-xl border border-[#1E1E26] overflow-hidden">
-      <div className="overflow-x-auto">
-        <table className="w-full">
-          <thead>
-            <tr className="border-b border-[#1E1E26] bg-[#0F0F12]">
-              <th className="px-4 py-3 text-left text-[11px] font-semibold tracking-widest uppercase text-[#63637A] w-8" />
-              <th className="px-4 py-3 text-left text-[11px] font-semibold tracking-widest uppercase text-[#63637A]">
-                Status
-              </th>
-              <th className="px-4 py-3 text-left text-[11px] font-semibold tracking-widest uppercase text-[#63637A]">
-                Event
-              </th>
-              <th className="px-4 py-3 text-left text-[11px] font-semibold tracking-widest uppercase text-[#63637A]">
-                Webhook
-              </th>
-              <th className="px-4 py-3 text-left text-[11px] font-semibold tracking-widest uppercase text-[#63637A]">
-                Response
-              </th>
-              <th className="px-4 py-3 text-left text-[11px] font-semibold tracking-widest uppercase text-[#63637A]">
-                Attempt
-              </th>
-              <th className="px-4 py-3 text-left text-[11px] font-semibold tracking-widest uppercase text-[#63637A]">
-                Time
-              </th>
-            </tr>
-          </thead>
-          <tbody>
-            {deliveries.map((delivery) => {
-              const isExpanded = expandedId === delivery.id;
-              const webhookUrl = webhooks.find((w) => w.id === delivery.webhookId)?.url || '—';
-
-              return (
-                <>
-                  <tr
-                    key={delivery.id}
-                    onClick={() => setExpandedId(isExpanded ? null : delivery.id)}
-                    className="border-b border-[#1E1E26] hover:bg-[#1C1C22] transition-colors duration-100 cursor-pointer"
-                  >
-                    <td className="px-4 py-3">
-                      {isExpanded ? (
-                        <ChevronDown className="w-3.5 h-3.5 text-[#63637A]" />
-                      ) : (
-                        <ChevronRight className="w-3.5 h-3.5 text-[#63637A]" />
-                      )}
-                    </td>
-                    <td className="px-4 py-3">
-                      {delivery.success ? (
-                        <div className="flex items-center gap-1.5">
-                          <CheckCircle2 className="w-4 h-4 text-emerald-400" />
-                          <span className="text-xs text-emerald-400">Success</span>
-                        </div>
-                      ) : (
-                        <div className="flex items-center gap-1.5">
-                          <XCircle className="w-4 h-4 text-red-400" />
-                          <span className="text-xs text-red-400">Failed</span>
-                        </div>
-                      )}
-                    </td>
-                    <td className="px-4 py-3">
-                      <EventTag>{delivery.eventType}</EventTag>
-                    </td>
-                    <td className="px-4 py-3">
-                      <span className="font-mono text-xs text-[#A0A0AB] truncate max-w-[200px] block">
-                        {truncateAddress(webhookUrl, 12)}
-                      </span>
-                    </td>
-                    <td className="px-4 py-3">
-                      <span className={cn(
-                        'font-mono text-xs',
-                        delivery.responseStatus && delivery.responseStatus >= 200 && delivery.responseStatus < 300
-                          ? 'text-emerald-400'
-                          : delivery.responseStatus
-                            ? 'text-red-400'
-                            : 'text-[#63637A]'
-                      )}>
-                        {delivery.responseStatus || 'Timeout'}
-                      </span>
-                    </td>
-                    <td className="px-4 py-3">
-                      <span className="font-mono text-xs text-[#A0A0AB]">
-                        #{delivery.attempt}
-                      </span>
-                    </td>
-                    <td className="px-4 py-3">
-                      <span className="text-xs text-[#63637A]">
-                        {formatRelativeTime(delivery.deliveredAt)}
-                      </span>
-                    </td>
-                  </tr>
-
-                  {isExpanded && (
-                    <tr key={`${delivery.id}-detail`} className="border-b border-[#1E1E26]">
-                      <td colSpan={7} className="p-4 bg-[#09090B]">
-                        <div className="grid grid-cols-2 gap-4">
-                          <div>
-                            <h4 className="text-xs font-medium text-[#63637A] mb-2 uppercase tracking-wide">
-                              Payload
-                            </h4>
-                            <pre className="rounded-lg bg-[#0F0F12] border border-[#1E1E26] p-3 overflow-x-auto">
-                              <code className="font-mono text-[11px] text-[#A0A0AB] leading-relaxed">
-                                {JSON.stringify(delivery.payload, null, 2)}
-                              </code>
-                            </pre>
+    <div className="space-y-4">
+      {filters}
+      <div className="rounded-xl border border-[#1E1E26] overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-[#1E1E26] bg-[#0F0F12]">
+                <th className="px-4 py-3 text-left text-[11px] font-semibold tracking-widest uppercase text-[#63637A] w-8" />
+                <th className="px-4 py-3 text-left text-[11px] font-semibold tracking-widest uppercase text-[#63637A]">
+                  Status
+                </th>
+                <th className="px-4 py-3 text-left text-[11px] font-semibold tracking-widest uppercase text-[#63637A]">
+                  Event
+                </th>
+                <th className="px-4 py-3 text-left text-[11px] font-semibold tracking-widest uppercase text-[#63637A]">
+                  Webhook
+                </th>
+                <th className="px-4 py-3 text-left text-[11px] font-semibold tracking-widest uppercase text-[#63637A]">
+                  Response
+                </th>
+                <th className="px-4 py-3 text-left text-[11px] font-semibold tracking-widest uppercase text-[#63637A]">
+                  Attempt
+                </th>
+                <th className="px-4 py-3 text-left text-[11px] font-semibold tracking-widest uppercase text-[#63637A]">
+                  Time
+                </th>
+                <th className="px-4 py-3 w-8" />
+              </tr>
+            </thead>
+            <tbody>
+              {deliveries.map((delivery) => {
+                const isExpanded = expandedId === delivery.id;
+                const webhook = webhooks.find((w) => w.id === delivery.webhookId);
+                const webhookUrl = webhook ? webhookTarget(webhook) : '—';
+
+                return (
+                  <Fragment key={delivery.id}>
+                    <tr
+                      onClick={() => setExpandedId(isExpanded ? null : delivery.id)}
+                      className="border-b border-[#1E1E26] hover:bg-[#1C1C22] transition-colors duration-100 cursor-pointer"
+                    >
+                      <td className="px-4 py-3">
+                        {isExpanded ? (
+                          <ChevronDown className="w-3.5 h-3.5 text-[#63637A]" />
+                        ) : (
+                          <ChevronRight className="w-3.5 h-3.5 text-[#63637A]" />
+                        )}
+                      </td>
+                      <td className="px-4 py-3">
+                        {delivery.success ? (
+                          <div className="flex items-center gap-1.5">
+                            <CheckCircle2 className="w-4 h-4 text-emerald-400" />
+                            <span className="text-xs text-emerald-400">Success</span>
                           </div>
-                          <div>
-                            <h4 className="text-xs font-medium text-[#63637A] mb-2 uppercase tracking-wide">
-                              Response Body
-                            </h4>
-                            <pre className="rounded-lg bg-[#0F0F12] border border-[#1E1E26] p-3 overflow-x-auto max-h-[200px]">
-                              <code className="font-mono text-[11px] text-[#A0A0AB] leading-relaxed">
-                                {delivery.responseBody || '(empty)'}
-                              </code>
-                            </pre>
+                        ) : (
+                          <div className="flex items-center gap-1.5">
+                            <XCircle className="w-4 h-4 text-red-400" />
+                            <span className="text-xs text-red-400">Failed</span>
                           </div>
-                        </div>
+                        )}
+                      </td>
+                      <td className="px-4 py-3">
+                        <EventTag>
+                          {delivery.eventType === 'batch' && Array.isArray(delivery.payload.events)
+                            ? `batch (${delivery.payload.events.length})`
+                            : delivery.eventType}
+                        </EventTag>
+                      </td>
+                      <td className="px-4 py-3">
+                        <span className="font-mono text-xs text-[#A0A0AB] truncate max-w-[200px] block">
+                          {truncateAddress(webhookUrl, 12)}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3">
+                        <span className={cn(
+                          'font-mono text-xs',
+                          delivery.success
+                            ? 'text-emerald-400'
+                            : delivery.responseStatus !== 0
+                              ? 'text-red-400'
+                              : 'text-[#63637A]'
+                        )}>
+                          {/* Broker sinks have no status code */}
+                          {delivery.responseStatus === null
+                            ? (delivery.success ? 'Sent' : 'Failed')
+                            : delivery.responseStatus || 'Timeout'}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3">
+                        <span className="font-mono text-xs text-[#A0A0AB]">
+                          #{delivery.attempt}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3">
+                        <span className="text-xs text-[#63637A]">
+                          {formatRelativeTime(delivery.deliveredAt)}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3">
+                        <Button
+                          variant="secondary"
+                          size="sm"
+                          title="Redeliver"
+                          loading={redeliverMutation.isPending && redeliverMutation.variables === delivery.id}
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            redeliverMutation.mutate(delivery.id);
+                          }}
+                        >
+                          <RotateCw className="w-3.5 h-3.5" /> Redeliver
+                        </Button>
                       </td>
                     </tr>
-                  )}
-                </>
-              );
-            })}
-          </tbody>
-        </table>
+
+                    {isExpanded && (
+                      <tr className="border-b border-[#1E1E26]">
+                        <td colSpan={8} className="p-4 bg-[#09090B]">
+                          <div className="grid grid-cols-2 gap-4">
+                            <div>
+                              <h4 className="text-xs font-medium text-[#63637A] mb-2 uppercase tracking-wide">
+                                Payload
+                              </h4>
+                              <pre className="rounded-lg bg-[#0F0F12] border border-[#1E1E26] p-3 overflow-x-auto">
+                                <code className="font-mono text-[11px] text-[#A0A0AB] leading-relaxed">
+                                  {JSON.stringify(delivery.payload, null, 2)}
+                                </code>
+                              </pre>
+                            </div>
+                            <div>
+                              <h4 className="text-xs font-medium text-[#63637A] mb-2 uppercase tracking-wide">
+                                Response Body
+                              </h4>
+                              <pre className="rounded-lg bg-[#0F0F12] border border-[#1E1E26] p-3 overflow-x-auto max-h-[200px]">
+                                <code className="font-mono text-[11px] text-[#A0A0AB] leading-relaxed">
+                                  {delivery.responseBody || '(empty)'}
+                                </code>
+                              </pre>
+                            </div>
+                          </div>
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Pagination */}
+        {totalPages > 1 && (
+          <div className="flex items-center justify-between px-4 py-3 border-t border-[#1E1E26] bg-[#0F0F12]">
+            <span className="text-xs leading-4 text-[#63637A]">
+              Showing {page * PAGE_SIZE + 1}–{Math.min((page + 1) * PAGE_SIZE, total)} of {formatNumber(total)}
+            </span>
+            <div className="flex items-center gap-1">
+              <button
+                onClick={() => setPage((p) => Math.max(0, p - 1))}
+                disabled={page === 0}
+                className="rounded-full w-8 h-8 flex items-center justify-center text-[#63637A] hover:text-[#EDEDEF] hover:bg-[#1C1C22] disabled:text-[#3A3A48] transition-colors cursor-pointer"
+              >
+                <ChevronLeft className="w-4 h-4" />
+              </button>
+              <span className="text-xs text-[#A0A0AB] px-2">
+                Page {page + 1} of {totalPages}
+              </span>
+              <button
+                onClick={() => setPage((p) => Math.min(totalPages - 1, p + 1))}
+                disabled={page >= totalPages - 1}
+                className="rounded-full w-8 h-8 flex items-center justify-center text-[#63637A] hover:text-[#EDEDEF] hover:bg-[#1C1C22] disabled:text-[#3A3A48] transition-colors cursor-pointer"
+              >
+                <ChevronRight className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        )}
       </div>
     </div>
   );
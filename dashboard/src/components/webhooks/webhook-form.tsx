@@ -8,8 +8,48 @@ import { createWebhook, getProgram } from '@/lib/api';
 import { Button } from '@/components/ui/button';
 import { Badge, EventTag } from '@/components/ui/badge';
 import { Select } from '@/components/ui/select';
-import { copyToClipboard } from '@/lib/utils';
-import type { ProgramInfo, WebhookCreated } from '@/lib/types';
+import { copyToClipboard, webhookTarget } from '@/lib/utils';
+import type { ProgramInfo, WebhookCreated, WebhookPayloadFormat, WebhookSink, WebhookSinkType } from '@/lib/types';
+
+const SINK_OPTIONS: { value: WebhookSinkType; label: string }[] = [
+  { value: 'http', label: 'HTTPS endpoint' },
+  { value: 'kafka', label: 'Kafka topic' },
+  { value: 'nats', label: 'NATS subject' },
+  { value: 'redis-stream', label: 'Redis stream' },
+  { value: 'sqs', label: 'SQS queue' },
+];
+
+const FORMAT_OPTIONS: { value: WebhookPayloadFormat; label: string }[] = [
+  { value: 'default', label: 'Standard event JSON' },
+  { value: 'template', label: 'Custom JSON template' },
+  { value: 'discord', label: 'Discord message' },
+  { value: 'slack', label: 'Slack message' },
+];
+
+const TEMPLATE_PLACEHOLDER = '{\n  "text": "{{ event }} at slot {{ slot }}",\n  "amount": "{{ data.amount }}"\n}';
+
+/** Inputs of each broker sink: [field, label, placeholder, required] */
+const SINK_FIELDS: Record<Exclude<WebhookSinkType, 'http'>, [string, string, string, boolean][]> = {
+  kafka: [
+    ['brokers', 'Brokers (comma-separated)', 'broker-1:9092,broker-2:9092', true],
+    ['topic', 'Topic', 'uho.events', true],
+  ],
+  nats: [
+    ['servers', 'Servers (comma-separated)', 'nats://nats.internal:4222', true],
+    ['subject', 'Subject', 'uho.events', true],
+  ],
+  'redis-stream': [
+    ['url', 'Redis URL', 'rediss://:password@redis.internal:6379', true],
+    ['stream', 'Stream', 'uho:events', true],
+  ],
+  sqs: [
+    ['queueUrl', 'Queue URL', 'https://sqs.us-east-1.amazonaws.com/123456789012/uho-events', true],
+    ['region', 'Region', 'us-east-1', true],
+    ['endpoint', 'Endpoint (SQS-compatible services)', 'http://localhost:9324', false],
+  ],
+};
+
+const inputClassName = 'w-full rounded-full bg-[#23232B] border border-[#2A2A35] px-4 py-2.5 font-mono text-sm text-[#EDEDEF] placeholder:text-[#63637A] hover:border-[#3A3A48] focus:border-[#22D3EE] focus:ring-1 focus:ring-[#22D3EE]/50 focus:outline-none transition-colors duration-150';
 
 interface WebhookFormProps {
   programs: ProgramInfo[];
@@ -20,7 +60,15 @@ interface WebhookFormProps {
 export function WebhookForm({ programs, onSuccess, onCancel }: WebhookFormProps) {
   const [selectedProgramId, setSelectedProgramId] = useState(programs[0]?.id || '');
   const [url, setUrl] = useState('');
+  const [sinkType, setSinkType] = useState<WebhookSinkType>('http');
+  const [sinkFields, setSinkFields] = useState<Record<string, string>>({});
+  const [jetstream, setJetstream] = useState(false);
   const [selectedEvents, setSelectedEvents] = useState<string[]>([]);
+  const [filter, setFilter] = useState('');
+  const [batchMaxEvents, setBatchMaxEvents] = useState('1');
+  const [batchMaxWaitMs, setBatchMaxWaitMs] = useState('0');
+  const [payloadFormat, setPayloadFormat] = useState<WebhookPayloadFormat>('default');
+  const [payloadTemplate, setPayloadTemplate] = useState('');
   const [createdWebhook, setCreatedWebhook] = useState<WebhookCreated | null>(null);
   const [copiedSecret, setCopiedSecret] = useState(false);
 
@@ -45,13 +93,46 @@ export function WebhookForm({ programs, onSuccess, onCancel }: WebhookFormProps)
   };
 
   const isValidUrl = url.startsWith('http://') || url.startsWith('https://');
+  const isValidTarget = sinkType === 'http'
+    ? isValidUrl
+    : SINK_FIELDS[sinkType].every(([field, , , required]) => !required || sinkFields[field]?.trim());
+
+  const parsedTemplate = useMemo(() => {
+    if (payloadFormat !== 'template') return undefined;
+    try {
+      return JSON.parse(payloadTemplate) as unknown;
+    } catch {
+      return undefined;
+    }
+  }, [payloadFormat, payloadTemplate]);
+  const isValidPayload = payloadFormat !== 'template' || (typeof parsedTemplate === 'object' && parsedTemplate !== null);
+
+  const buildSink = (): WebhookSink | undefined => {
+    if (sinkType === 'http') return undefined;
+    const sink: WebhookSink = { type: sinkType };
+    for (const [field] of SINK_FIELDS[sinkType]) {
+      const value = sinkFields[field]?.trim();
+      if (!value) continue;
+      sink[field] = field === 'brokers' || field === 'servers'
+        ? value.split(',').map((v) => v.trim()).filter(Boolean)
+        : value;
+    }
+    if (sinkType === 'nats' && jetstream) sink.jetstream = true;
+    return sink;
+  };
 
   const createMutation = useMutation({
     mutationFn: () =>
       createWebhook({
         userProgramId: selectedProgramId,
-        url,
+        url: sinkType === 'http' ? url : undefined,
+        sink: buildSink(),
         events: selectedEvents.length > 0 ? selectedEvents : undefined,
+        filters: filter.trim() || undefined,
+        batchMaxEvents: Number(batchMaxEvents) || 1,
+        batchMaxWaitMs: Number(batchMaxWaitMs) || 0,
+        payloadFormat,
+        payloadTemplate: parsedTemplate,
       }),
     onSuccess: (result) => {
       setCreatedWebhook(result);
@@ -80,8 +161,8 @@ export function WebhookForm({ programs, onSuccess, onCancel }: WebhookFormProps)
         </div>
 
         <div>
-          <label className="text-xs font-medium text-[#63637A] block mb-1">Webhook URL</label>
-          <p className="font-mono text-sm text-[#67E8F9] break-all">{createdWebhook.url}</p>
+          <label className="text-xs font-medium text-[#63637A] block mb-1">Destination</label>
+          <p className="font-mono text-sm text-[#67E8F9] break-all">{webhookTarget(createdWebhook)}</p>
         </div>
 
         <div>
@@ -132,23 +213,61 @@ export function WebhookForm({ programs, onSuccess, onCancel }: WebhookFormProps)
         )}
       </div>
 
-      {/* URL */}
+      {/* Destination */}
       <div>
-        <label className="text-sm font-medium text-[#EDEDEF] block mb-1.5">Webhook URL</label>
-        <input
-          type="url"
-          value={url}
-          onChange={(e) => setUrl(e.target.value)}
-          placeholder="https://your-server.com/webhooks/uho"
-          className="w-full rounded-full bg-[#23232B] border border-[#2A2A35] px-4 py-2.5 font-mono text-sm text-[#EDEDEF] placeholder:text-[#63637A] hover:border-[#3A3A48] focus:border-[#22D3EE] focus:ring-1 focus:ring-[#22D3EE]/50 focus:outline-none transition-colors duration-150"
+        <label className="text-sm font-medium text-[#EDEDEF] block mb-1.5">Deliver to</label>
+        <Select
+          options={SINK_OPTIONS}
+          value={sinkType}
+          onChange={(v) => { setSinkType(v as WebhookSinkType); setSinkFields({}); }}
+          className="w-full"
         />
-        {url && !isValidUrl && (
-          <p className="text-xs text-red-400 mt-1 flex items-center gap-1">
-            <AlertCircle className="w-3 h-3" /> URL must start with http:// or https://
-          </p>
-        )}
       </div>
 
+      {sinkType === 'http' ? (
+        <div>
+          <label className="text-sm font-medium text-[#EDEDEF] block mb-1.5">Webhook URL</label>
+          <input
+            type="url"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            placeholder="https://your-server.com/webhooks/uho"
+            className={inputClassName}
+          />
+          {url && !isValidUrl && (
+            <p className="text-xs text-red-400 mt-1 flex items-center gap-1">
+              <AlertCircle className="w-3 h-3" /> URL must start with http:// or https://
+            </p>
+          )}
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {SINK_FIELDS[sinkType].map(([field, label, placeholder, required]) => (
+            <div key={field}>
+              <span className="text-xs text-[#63637A] block mb-1">
+                {label}{!required && ' (optional)'}
+              </span>
+              <input
+                type="text"
+                value={sinkFields[field] ?? ''}
+                onChange={(e) => setSinkFields((prev) => ({ ...prev, [field]: e.target.value }))}
+                placeholder={placeholder}
+                className={inputClassName}
+              />
+            </div>
+          ))}
+          {sinkType === 'nats' && (
+            <label className="flex items-center gap-2 text-xs text-[#A0A0AB] cursor-pointer">
+              <input type="checkbox" checked={jetstream} onChange={(e) => setJetstream(e.target.checked)} />
+              Publish through JetStream (acknowledged, deduplicated)
+            </label>
+          )}
+          <p className="text-xs text-[#63637A]">
+            Broker credentials (SASL, tokens, access keys) can be set through the API.
+          </p>
+        </div>
+      )}
+
       {/* Event filter */}
       <div>
         <label className="text-sm font-medium text-[#EDEDEF] block mb-1.5">
@@ -175,12 +294,93 @@ export function WebhookForm({ programs, onSuccess, onCancel }: WebhookFormProps)
         </div>
       </div>
 
+      {/* Field filter */}
+      <div>
+        <label className="text-sm font-medium text-[#EDEDEF] block mb-1.5">
+          Filter <span className="text-[#63637A] font-normal">(optional)</span>
+        </label>
+        <input
+          type="text"
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          placeholder={'amount_in > 1000000 and side = "buy"'}
+          className="w-full rounded-full bg-[#23232B] border border-[#2A2A35] px-4 py-2.5 font-mono text-sm text-[#EDEDEF] placeholder:text-[#63637A] hover:border-[#3A3A48] focus:border-[#22D3EE] focus:ring-1 focus:ring-[#22D3EE]/50 focus:outline-none transition-colors duration-150"
+        />
+        <p className="text-xs text-[#63637A] mt-1">
+          Compare event fields with = != &gt; &gt;= &lt; &lt;=, in (...), prefix and is null; combine with and, or, not.
+        </p>
+      </div>
+
+      {/* Payload format */}
+      <div>
+        <label className="text-sm font-medium text-[#EDEDEF] block mb-1.5">Payload format</label>
+        <Select
+          options={FORMAT_OPTIONS}
+          value={payloadFormat}
+          onChange={(v) => setPayloadFormat(v as WebhookPayloadFormat)}
+          className="w-full"
+        />
+        {payloadFormat === 'template' && (
+          <>
+            <textarea
+              value={payloadTemplate}
+              onChange={(e) => setPayloadTemplate(e.target.value)}
+              placeholder={TEMPLATE_PLACEHOLDER}
+              rows={5}
+              className="mt-3 w-full rounded-xl bg-[#23232B] border border-[#2A2A35] px-4 py-2.5 font-mono text-sm text-[#EDEDEF] placeholder:text-[#63637A] hover:border-[#3A3A48] focus:border-[#22D3EE] focus:ring-1 focus:ring-[#22D3EE]/50 focus:outline-none transition-colors duration-150"
+            />
+            {payloadTemplate && !isValidPayload ? (
+              <p className="text-xs text-red-400 mt-1 flex items-center gap-1">
+                <AlertCircle className="w-3 h-3" /> Template must be a JSON object or array
+              </p>
+            ) : (
+              <p className="text-xs text-[#63637A] mt-1">
+                {'{{ path }}'} is replaced by the event&apos;s value: id, event, slot, txSignature, timestamp or data.field.
+              </p>
+            )}
+          </>
+        )}
+      </div>
+
+      {/* Batching */}
+      <div>
+        <label className="text-sm font-medium text-[#EDEDEF] block mb-1.5">
+          Batching <span className="text-[#63637A] font-normal">(1 event = one request per event)</span>
+        </label>
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <span className="text-xs text-[#63637A] block mb-1">Max events per request</span>
+            <input
+              type="number"
+              min={1}
+              max={1000}
+              value={batchMaxEvents}
+              onChange={(e) => setBatchMaxEvents(e.target.value)}
+              className="w-full rounded-full bg-[#23232B] border border-[#2A2A35] px-4 py-2.5 font-mono text-sm text-[#EDEDEF] hover:border-[#3A3A48] focus:border-[#22D3EE] focus:ring-1 focus:ring-[#22D3EE]/50 focus:outline-none transition-colors duration-150"
+            />
+          </div>
+          <div>
+            <span className="text-xs text-[#63637A] block mb-1">Max wait (ms)</span>
+            <input
+              type="number"
+              min={0}
+              max={300000}
+              step={100}
+              value={batchMaxWaitMs}
+              onChange={(e) => setBatchMaxWaitMs(e.target.value)}
+              disabled={Number(batchMaxEvents) <= 1}
+              className="w-full rounded-full bg-[#23232B] border border-[#2A2A35] px-4 py-2.5 font-mono text-sm text-[#EDEDEF] hover:border-[#3A3A48] focus:border-[#22D3EE] focus:ring-1 focus:ring-[#22D3EE]/50 focus:outline-none disabled:opacity-50 transition-colors duration-150"
+            />
+          </div>
+        </div>
+      </div>
+
       {/* Actions */}
       <div className="flex justify-end gap-3 pt-2">
         <Button variant="ghost" onClick={onCancel}>Cancel</Button>
         <Button
           onClick={() => createMutation.mutate()}
-          disabled={!selectedProgramId || !isValidUrl}
+          disabled={!selectedProgramId || !isValidTarget || !isValidPayload}
           loading={createMutation.isPending}
         >
           Create Webhook
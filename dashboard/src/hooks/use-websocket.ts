@@ -16,7 +16,8 @@ const WS_URL = process.env.NEXT_PUBLIC_WS_URL || (() => {
 export interface WsSubscription {
   programs?: string[];
   events?: string[];
-  filters?: Record<string, unknown>;
+  /** Filter expression, e.g. `amount_in > 1000000 and side = "buy"` */
+  filters?: string | Record<string, unknown>;
 }
 
 export interface WsEvent {
@@ -24,7 +24,14 @@ import type {
   ViewInfo,
   WebhookInfo,
   WebhookCreated,
+  WebhookDeliveryListResponse,
+  WebhookSink,
+  WebhookPayloadFormat,
+  WebhookTestResult,
   LoginResponse,
+  TransactionDocument,
+  UsageHistoryParams,
+  UsageHistoryResponse,
 } from './types';
 
 const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3010';
@@ -43,6 +50,12 @@ export class ApiError extends Error {
 
 // ─── Core fetch with auth + auto-refresh ──────────────────────
 async function fetchApi<T>(path: string, options?: RequestInit): Promise<T> {
+  const res = await fetchWithAuth(path, options);
+  return res.json();
+}
+
+/** Authenticated fetch returning the raw response (for non-JSON bodies) */
+async function fetchWithAuth(path: string, options?: RequestInit): Promise<Response> {
   const token = getAccessToken();
   const headers: Record<string, string> = {
     ...(options?.headers as Record<string, string> | undefined),
@@ -87,7 +100,7 @@ async function fetchApi<T>(path: string, options?: RequestInit): Promise<T> {
     );
   }
 
-  return res.json();
+  return res;
 }
 
 /** Fetch without auth (for public endpoints) */
@@ -190,6 +203,31 @@ export async function updateMe(
   });
 }
 
+function usageHistoryQuery(params: UsageHistoryParams): URLSearchParams {
+  const query = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value) query.set(key, value);
+  }
+  return query;
+}
+
+export async function getUsageHistory(params: UsageHistoryParams = {}): Promise<UsageHistoryResponse> {
+  return fetchApi<UsageHistoryResponse>(`/api/v1/user/usage/history?${usageHistoryQuery(params)}`);
+}
+
+/** Downloads usage history as a CSV file */
+export async function downloadUsageHistoryCsv(params: UsageHistoryParams = {}): Promise<void> {
+  const query = usageHistoryQuery(params);
+  query.set('format', 'csv');
+  const res = await fetchWithAuth(`/api/v1/user/usage/history?${query}`);
+  const url = URL.createObjectURL(await res.blob());
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = 'usage-history.csv';
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
 export async function getApiKeys(): Promise<{ data: ApiKeyInfo[] }> {
   return fetchApi('/api/v1/user/api-keys');
 }
@@ -327,6 +365,12 @@ export async function getEventByTx(
   return fetchApi(`/api/v1/data/${program}/${event}/${txSignature}`);
 }
 
+export async function getTransaction(
+  txSignature: string,
+): Promise<{ data: TransactionDocument }> {
+  return fetchApi(`/api/v1/tx/${txSignature}`);
+}
+
 export async function getTxLogs(
   txSignature: string,
 ): Promise<{ data: { tx_signature: string; slot: number; log_messages: string[]; indexed_at: string } | null }> {
@@ -384,9 +428,16 @@ export async function getWebhooks(): Promise<{ data: WebhookInfo[] }> {
 
 export async function createWebhook(input: {
   userProgramId: string;
-  url: string;
+  url?: string;
+  sink?: WebhookSink;
   events?: string[];
-  filters?: Record<string, unknown>;
+  filters?: string | Record<string, unknown> | null;
+  batchMaxEvents?: number;
+  batchMaxWaitMs?: number;
+  payloadFormat?: WebhookPayloadFormat;
+  payloadTemplate?: unknown;
+  payloadFields?: string[] | null;
+  customHeaders?: Record<string, string> | null;
 }): Promise<WebhookCreated> {
   return fetchApi('/api/v1/webhooks', {
     method: 'POST',
@@ -398,9 +449,16 @@ export async function updateWebhook(
   id: string,
   updates: {
     url?: string;
+    sink?: WebhookSink;
     events?: string[];
-    filters?: Record<string, unknown>;
+    filters?: string | Record<string, unknown> | null;
     active?: boolean;
+    batchMaxEvents?: number;
+    batchMaxWaitMs?: number;
+    payloadFormat?: WebhookPayloadFormat;
+    payloadTemplate?: unknown;
+    payloadFields?: string[] | null;
+    customHeaders?: Record<string, string> | null;
   },
 ): Promise<WebhookInfo> {
   return fetchApi(`/api/v1/webhooks/${id}`, {
@@ -413,6 +471,43 @@ export async function deleteWebhook(id: string): Promise<void> {
   await fetchApi(`/api/v1/webhooks/${id}`, { method: 'DELETE' });
 }
 
+export async function getWebhookDeliveries(params: {
+  webhookId?: string;
+  success?: boolean;
+  limit?: number;
+  offset?: number;
+} = {}): Promise<WebhookDeliveryListResponse> {
+  const searchParams = new URLSearchParams();
+  if (params.webhookId) searchParams.set('webhookId', params.webhookId);
+  if (params.success !== undefined) searchParams.set('success', String(params.success));
+  if (params.limit) searchParams.set('limit', String(params.limit));
+  if (params.offset) searchParams.set('offset', String(params.offset));
+  const qs = searchParams.toString();
+  return fetchApi(`/api/v1/webhooks/deliveries${qs ? `?${qs}` : ''}`);
+}
+
+export async function redeliverWebhookDelivery(id: string): Promise<{ enqueued: number }> {
+  return fetchApi(`/api/v1/webhooks/deliveries/${id}/redeliver`, { method: 'POST' });
+}
+
+export async function testWebhook(
+  id: string,
+  input: { eventName?: string; data?: Record<string, unknown> } = {},
+): Promise<WebhookTestResult> {
+  return fetchApi(`/api/v1/webhooks/${id}/test`, {
+    method: 'POST',
+    body: JSON.stringify(input),
+  });
+}
+
+export async function replayWebhook(
+  id: string,
+  range: { fromSlot: number; toSlot: number },
+): Promise<{ replayId: string; enqueued: number }> {
+  const qs = new URLSearchParams({ fromSlot: String(range.fromSlot), toSlot: String(range.toSlot) });
+  return fetchApi(`/api/v1/webhooks/${id}/replay?${qs}`, { method: 'POST' });
+}
+
 // ─── Metrics ──────────────────────────────────────────────────────────
 export interface ThroughputResponse {
   data: Array<{ time: string; value: number }>;
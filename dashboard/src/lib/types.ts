@@ -67,6 +67,24 @@ export interface EventQueryParams {
   [key: string]: string | number | undefined;
 }
 
+export interface TransactionEntry {
+  kind: 'instruction' | 'event' | 'token_transfer';
+  program: string | null;
+  name: string;
+  ixIndex: number;
+  innerIxIndex: number | null;
+  data: Record<string, unknown>;
+}
+
+export interface TransactionDocument {
+  signature: string;
+  slot: string | null;
+  blockTime: string | null;
+  commitment: 'confirmed' | 'finalized' | null;
+  entries: TransactionEntry[];
+  logs: string[] | null;
+}
+
 export type LogLevel = 'info' | 'warn' | 'error';
 
 export interface LogEntry {
@@ -102,6 +120,7 @@ export interface UserProfile {
   verified: boolean;
   createdAt: string;
   usage: {
+    plan: { id: string; name: string };
     programs: number;
     programLimit: number;
     eventsIndexed: number;
@@ -111,6 +130,31 @@ export interface UserProfile {
   };
 }
 
+export type UsageMetric = 'api_call' | 'event_indexed' | 'ws_message' | 'webhook_delivery';
+
+export interface UsageHistoryPoint {
+  period: string;
+  metric: UsageMetric;
+  programId: string | null;
+  programName: string | null;
+  count: number;
+}
+
+export interface UsageHistoryParams {
+  metric?: UsageMetric;
+  granularity?: 'hour' | 'day' | 'month';
+  from?: string;
+  to?: string;
+}
+
+export interface UsageHistoryResponse {
+  metric: UsageMetric | null;
+  granularity: 'hour' | 'day' | 'month';
+  from: string;
+  to: string;
+  data: UsageHistoryPoint[];
+}
+
 export interface ApiKeyInfo {
   id: string;
   keyPrefix: string;
@@ -145,6 +189,9 @@ export interface ProgramInfo {
   name: string;
   chain: string;
   status: ProgramStatusValue;
+  /** Set while the program is paused because the events quota ran out */
+  pauseReason?: 'quota' | null;
+  error?: string | null;
   events: ProgramEventInfo[];
   eventsIndexed?: number;
   lastSlot?: number;
@@ -217,15 +264,33 @@ export interface ViewDefinition {
 
 // ─── Webhook Types ────────────────────────────────────────────
 
+export type WebhookSinkType = 'http' | 'kafka' | 'nats' | 'redis-stream' | 'sqs';
+
+/** Where a webhook delivers; credentials come back masked */
+export type WebhookSink = { type: WebhookSinkType } & Record<string, unknown>;
+
+export type WebhookPayloadFormat = 'default' | 'template' | 'discord' | 'slack';
+
 export interface WebhookInfo {
   id: string;
   userProgramId: string;
-  url: string;
+  /** Endpoint of an HTTP sink; null for broker sinks */
+  url: string | null;
+  sink: WebhookSink;
   events: string[];
-  filters: Record<string, unknown>;
+  /** Filter expression tree; null receives every event */
+  filters: Record<string, unknown> | null;
   active: boolean;
   lastTriggered: string | null;
   failureCount: number;
+  batchMaxEvents: number;
+  batchMaxWaitMs: number;
+  payloadFormat: WebhookPayloadFormat;
+  payloadTemplate: unknown;
+  /** Data fields sent; null sends all of them */
+  payloadFields: string[] | null;
+  /** Secret-looking header values come back masked */
+  customHeaders: Record<string, string>;
   createdAt: string;
   updatedAt?: string;
 }
@@ -234,6 +299,14 @@ export interface WebhookCreated extends WebhookInfo {
   secret: string;
 }
 
+export interface WebhookTestResult {
+  success: boolean;
+  responseStatus: number | null;
+  responseBody: string | null;
+  /** The payload as sent */
+  payload: unknown;
+}
+
 export interface WebhookDelivery {
   id: string;
   webhookId: string;
@@ -245,3 +318,8 @@ export interface WebhookDelivery {
   success: boolean;
   deliveredAt: string;
 }
+
+export interface WebhookDeliveryListResponse {
+  data: WebhookDelivery[];
+  pagination: PaginationInfo;
+}
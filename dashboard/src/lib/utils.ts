@@ -1,4 +1,5 @@
 import { formatDistanceToNowStrict, format } from 'date-fns';
+import type { WebhookInfo } from './types';
 
 export function truncateAddress(address: string, chars = 4): string {
   if (!address) return '';
@@ -58,3 +59,20 @@ export function isValidPublicKey(str: string): boolean {
 export function copyToClipboard(text: string): Promise<void> {
   return navigator.clipboard.writeText(text);
 }
+
+/** Where a webhook delivers, for display: its URL, or its broker destination */
+export function webhookTarget(webhook: Pick<WebhookInfo, 'url' | 'sink'>): string {
+  const { sink } = webhook;
+  switch (sink?.type) {
+    case 'kafka':
+      return `kafka://${(sink.brokers as string[])[0]}/${sink.topic}`;
+    case 'nats':
+      return `nats://${(sink.servers as string[])[0].replace(/^nats:\/\//, '')}/${sink.subject}`;
+    case 'redis-stream':
+      return `${sink.url}#${sink.stream}`;
+    case 'sqs':
+      return sink.queueUrl as string;
+    default:
+      return webhook.url ?? '';
+  }
+}
@@ -12,7 +12,20 @@ import type {
   StatusResponse,
   QueryResponse,
   QueryParams,
+  QueryParamValue,
+  FilterGroup,
+  IndexedRow,
   CountResponse,
+  AggregateParams,
+  AllEventsParams,
+  AllEventsRow,
+  KeysetPagination,
+  AggregateResponse,
+  TransactionDocument,
+  ActivityEntry,
+  ActivityParams,
+  CreateExportParams,
+  ExportJob,
   EventSchema,
   ProgramSchema,
   ViewDefinition,
@@ -68,14 +81,16 @@ export class UhoClient {
   private async request<T>(
     method: string,
     path: string,
-    options?: { body?: unknown; params?: Record<string, string | number | boolean | undefined> }
+    options?: { body?: unknown; params?: Record<string, QueryParamValue | string[]> }
   ): Promise<T> {
     const url = new URL(`${this.baseUrl}${path}`);
 
-    // Add query parameters
+    // Add query parameters (arrays repeat the key)
     if (options?.params) {
       for (const [key, value] of Object.entries(options.params)) {
-        if (value !== undefined && value !== null) {
+        if (Array.isArray(value)) {
+          for (const item of value) url.searchParams.append(key, item);
+        } else if (value !== undefined && value !== null) {
           url.searchParams.set(key, String(value));
         }
       }
@@ -133,7 +148,7 @@ export class UhoClient {
     }
   }
 
-  private get<T>(path: string, params?: Record<string, string | number | boolean | undefined>): Promise<T> {
+  private get<T>(path: string, params?: Record<string, QueryParamValue | string[]>): Promise<T> {
     return this.request<T>('GET', path, { params });
   }
 
@@ -192,15 +207,69 @@ export class UhoClient {
    *   sol_amount_gte: 1_000_000_000,  // >= 1 SOL
    *   sol_amount_lte: 10_000_000_000, // <= 10 SOL
    * });
+   *
+   * // Lists, prefixes and OR groups
+   * const mine = await uho.query('pump_fun', 'trade_event', {
+   *   mint_in: [mintA, mintB],
+   *   or: { user: wallet, creator: wallet },
+   * });
    * ```
    */
-  async query<T = Record<string, unknown>>(
+  async query<T = IndexedRow>(
     program: string,
     event: string,
     params?: QueryParams
   ): Promise<QueryResponse<T>> {
-    const queryParams = params as Record<string, string | number | boolean | undefined> | undefined;
-    return this.get(`/api/v1/data/${encodeURIComponent(program)}/${encodeURIComponent(event)}`, queryParams);
+    return this.get(`/api/v1/data/${encodeURIComponent(program)}/${encodeURIComponent(event)}`, encodeFilters(params));
+  }
+
+  /**
+   * Iterate over every event matching the filters, fetching pages with
+   * keyset cursors as the loop advances.
+   *
+   * @example
+   * ```ts
+   * for await (const trade of uho.paginate('pump_fun', 'trade_event', { is_buy: true, limit: 1000 })) {
+   *   console.log(trade.tx_signature);
+   * }
+   * ```
+   */
+  async *paginate<T = IndexedRow>(
+    program: string,
+    event: string,
+    params?: Omit<QueryParams, 'offset' | 'after_id' | 'cursor'>
+  ): AsyncGenerator<T, void, undefined> {
+    yield* this.walkPages<T>((cursor) => this.query<T>(program, event, { ...params, cursor }));
+  }
+
+  /**
+   * Query events across all programs, newest first by default.
+   */
+  async queryAll(params?: AllEventsParams): Promise<QueryResponse<AllEventsRow>> {
+    return this.get('/api/v1/data/all', encodeFilters(params));
+  }
+
+  /**
+   * Iterate over the combined feed of all programs' events with keyset cursors.
+   */
+  async *paginateAll(
+    params?: Omit<AllEventsParams, 'offset' | 'cursor'>
+  ): AsyncGenerator<AllEventsRow, void, undefined> {
+    yield* this.walkPages<AllEventsRow>((cursor) => this.queryAll({ ...params, cursor }));
+  }
+
+  /**
+   * Yields the rows of consecutive keyset pages until the last one.
+   */
+  private async *walkPages<T>(
+    fetchPage: (cursor: string) => Promise<QueryResponse<T>>
+  ): AsyncGenerator<T, void, undefined> {
+    let cursor: string | null = '';
+    while (cursor !== null) {
+      const page = await fetchPage(cursor);
+      yield* page.data;
+      cursor = (page.pagination as KeysetPagination).next_cursor;
+    }
   }
 
   /**
@@ -211,18 +280,68 @@ export class UhoClient {
     event: string,
     params?: Omit<QueryParams, 'limit' | 'offset' | 'after_id' | 'order_by' | 'order'>
   ): Promise<number> {
-    const queryParams = params as Record<string, string | number | boolean | undefined> | undefined;
     const result = await this.get<CountResponse>(
       `/api/v1/data/${encodeURIComponent(program)}/${encodeURIComponent(event)}/count`,
-      queryParams
+      encodeFilters(params)
     );
     return result.count;
   }
 
+  /**
+   * Aggregate events into time buckets, optionally grouped by fields.
+   *
+   * @example
+   * ```ts
+   * // Hourly volume per mint over the last day
+   * const { data } = await uho.aggregate('pump_fun', 'trade_event', {
+   *   bucket: '1h',
+   *   group_by: ['mint'],
+   *   sum: ['sol_amount'],
+   *   from: new Date(Date.now() - 86_400_000).toISOString(),
+   * });
+   * ```
+   */
+  async aggregate(
+    program: string,
+    event: string,
+    params?: AggregateParams
+  ): Promise<AggregateResponse> {
+    return this.get(
+      `/api/v1/data/${encodeURIComponent(program)}/${encodeURIComponent(event)}/aggregate`,
+      encodeFilters(params)
+    );
+  }
+
+  /**
+   * Get everything indexed for a transaction: decoded instructions and
+   * events across all programs, token transfers and the raw logs.
+   */
+  async getTransaction(txSignature: string): Promise<{ data: TransactionDocument }> {
+    return this.get(`/api/v1/tx/${encodeURIComponent(txSignature)}`);
+  }
+
+  /**
+   * Get the events, instructions and token transfers involving an address
+   * across all programs, newest first by default.
+   */
+  async getActivity(address: string, params?: ActivityParams): Promise<QueryResponse<ActivityEntry>> {
+    return this.get(`/api/v1/accounts/${encodeURIComponent(address)}/activity`, encodeFilters(params as QueryParams));
+  }
+
+  /**
+   * Iterate over an address's whole activity feed.
+   */
+  async *paginateActivity(
+    address: string,
+    params?: Omit<ActivityParams, 'cursor'>
+  ): AsyncGenerator<ActivityEntry, void, undefined> {
+    yield* this.walkPages<ActivityEntry>((cursor) => this.getActivity(address, { ...params, cursor }));
+  }
+
   /**
    * Get events by transaction signature.
    */
-  async getByTransaction<T = Record<string, unknown>>(
+  async getByTransaction<T = IndexedRow>(
     program: string,
     event: string,
     txSignature: string
@@ -271,7 +390,7 @@ export class UhoClient {
     viewName: string,
     params?: { limit?: number; offset?: number; order?: 'asc' | 'desc' }
   ): Promise<QueryResponse<T>> {
-    const queryParams = params as Record<string, string | number | boolean | undefined> | undefined;
+    const queryParams = params as Record<string, QueryParamValue> | undefined;
     return this.get(`/api/v1/data/${encodeURIComponent(program)}/views/${encodeURIComponent(viewName)}`, queryParams);
   }
 
@@ -279,4 +398,73 @@ export class UhoClient {
   async deleteView(viewId: string): Promise<{ message: string }> {
     return this.del(`/api/v1/views/${encodeURIComponent(viewId)}`);
   }
+
+  // ===========================================================================
+  // Exports
+  // ===========================================================================
+
+  /**
+   * Start a bulk export of a filtered table. Poll getExport() until its
+   * status is `completed`, then fetch its `downloadUrl`.
+   *
+   * @example
+   * ```ts
+   * const job = await uho.createExport({
+   *   program: 'pump_fun',
+   *   event: 'trade_event',
+   *   format: 'csv',
+   *   filters: { from: '2026-01-01T00:00:00Z', is_buy: 'true' },
+   * });
+   * ```
+   */
+  async createExport(params: CreateExportParams): Promise<ExportJob> {
+    return this.post('/api/v1/exports', params);
+  }
+
+  /** Get an export's status and progress */
+  async getExport(exportId: string): Promise<ExportJob> {
+    return this.get(`/api/v1/exports/${encodeURIComponent(exportId)}`);
+  }
+
+  /** List recent exports */
+  async listExports(): Promise<{ data: ExportJob[] }> {
+    return this.get('/api/v1/exports');
+  }
+
+  /** Cancel a running export or delete a finished one */
+  async deleteExport(exportId: string): Promise<{ message: string }> {
+    return this.del(`/api/v1/exports/${encodeURIComponent(exportId)}`);
+  }
+}
+
+// =============================================================================
+// Filter Encoding
+// =============================================================================
+
+/**
+ * Encodes query params in the API's filter grammar: arrays become
+ * comma-separated lists and each OR group one `or=field=value;...` param.
+ */
+function encodeFilters(params?: QueryParams): Record<string, QueryParamValue | string[]> | undefined {
+  if (!params) return undefined;
+
+  const encoded: Record<string, QueryParamValue | string[]> = {};
+  for (const [key, value] of Object.entries(params)) {
+    if (key === 'or' && value !== undefined) {
+      const groups = (Array.isArray(value) ? value : [value]) as FilterGroup[];
+      encoded.or = groups.map(encodeGroup);
+    } else if (Array.isArray(value)) {
+      encoded[key] = value.join(',');
+    } else {
+      encoded[key] = value as QueryParamValue;
+    }
+  }
+  return encoded;
+}
+
+function encodeGroup(group: FilterGroup): string {
+  return Object.entries(group)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}=${Array.isArray(value) ? value.join(',') : String(value)}`)
+    .join(';');
 }
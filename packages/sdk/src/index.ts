@@ -38,11 +38,30 @@ export type {
   HealthResponse,
   StatusResponse,
   ProgramStatus,
+  IngestionGap,
   QueryResponse,
   QueryParams,
+  QueryParamValue,
+  FilterValue,
+  FilterGroup,
+  IndexedRow,
+  BigIntString,
   CountResponse,
+  AggregateParams,
+  AggregateRow,
+  AggregateResponse,
+  TransactionEntry,
+  TransactionDocument,
+  ActivityEntry,
+  ActivityParams,
+  ExportFormat,
+  CreateExportParams,
+  ExportJob,
   OffsetPagination,
   CursorPagination,
+  KeysetPagination,
+  AllEventsRow,
+  AllEventsParams,
   FieldSchema,
   EventSchema,
   ProgramSchema,
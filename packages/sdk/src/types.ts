@@ -51,6 +51,18 @@ export interface ProgramStatus {
   eventCounts: Record<string, number>;
   eventsIndexed: number;
   lastSlot: number;
+  /** Ranges the live poller skipped that have not been backfilled yet */
+  gaps?: IngestionGap[];
+}
+
+/** A slot range missed by the live poller, pending automatic backfill */
+export interface IngestionGap {
+  fromSlot: number | null;
+  toSlot: number;
+  status: 'open' | 'filling' | 'failed';
+  attempts: number;
+  error: string | null;
+  detectedAt: string;
 }
 
 /** Full status response */
@@ -81,10 +93,53 @@ export interface CursorPagination {
   has_more: boolean;
 }
 
+/** Keyset pagination info; pass a cursor back as `cursor` to fetch that page */
+export interface KeysetPagination {
+  limit: number;
+  has_more: boolean;
+  /** Cursor to the following page, or null on the last one */
+  next_cursor: string | null;
+  /** Cursor to the preceding page, or null on the first one */
+  prev_cursor: string | null;
+}
+
+/**
+ * A 64/128-bit integer (u64, i64, u128, i128, slots) as a decimal string.
+ * The API never returns these as JSON numbers, which would lose precision
+ * above 2^53; parse with `BigInt(value)` when arithmetic is needed.
+ */
+export type BigIntString = string;
+
+/** Metadata columns shared by indexed event and instruction rows */
+export interface IndexedRow {
+  id: number;
+  slot: BigIntString;
+  block_time: string | null;
+  tx_signature: string;
+  ix_index: number;
+  inner_ix_index?: number | null;
+  commitment: 'confirmed' | 'finalized';
+  indexed_at: string | null;
+  /** IDL fields — integers wider than 32 bits are BigIntStrings */
+  [field: string]: unknown;
+}
+
 /** Paginated query response */
-export interface QueryResponse<T = Record<string, unknown>> {
+export interface QueryResponse<T = IndexedRow> {
   data: T[];
-  pagination: OffsetPagination | CursorPagination;
+  pagination: OffsetPagination | CursorPagination | KeysetPagination;
+}
+
+/** A row of the combined all-events feed */
+export interface AllEventsRow {
+  id: BigIntString;
+  slot: BigIntString;
+  tx_signature: string;
+  ix_index: number;
+  block_time: string | null;
+  program_name: string;
+  /** Event or instruction name */
+  event_type: string;
 }
 
 /** Count response */
@@ -96,6 +151,19 @@ export interface CountResponse {
 // Query Parameters
 // =============================================================================
 
+/** A query string value; bigints are sent in full as decimal strings */
+export type QueryParamValue = string | number | bigint | boolean | undefined;
+
+/** A filter value; arrays are sent as comma-separated lists (for `_in` / `_not_in`) */
+export type FilterValue = QueryParamValue | Array<string | number | bigint>;
+
+/**
+ * Filter conditions matched if any of them holds, e.g.
+ * `{ trader: addr, counterparty: addr }`. Keys use the same operator
+ * suffixes as top-level filters.
+ */
+export type FilterGroup = Record<string, FilterValue>;
+
 /** Parameters for querying event data */
 export interface QueryParams {
   /** Results per page (1–1000, default: 50) */
@@ -104,6 +172,11 @@ export interface QueryParams {
   offset?: number;
   /** Cursor for cursor-based pagination (overrides offset) */
   after_id?: number;
+  /**
+   * Keyset cursor from a previous page's `next_cursor` / `prev_cursor`.
+   * Pass `''` for the first page. Works with any `order_by`; no total is counted.
+   */
+  cursor?: string;
   /** Sort column (default: "slot") */
   order_by?: string;
   /** Sort direction (default: "desc") */
@@ -116,8 +189,155 @@ export interface QueryParams {
   slotFrom?: number;
   /** Filter: slot <= value */
   slotTo?: number;
-  /** Additional field-level filters (exact match and range operators) */
-  [key: string]: string | number | boolean | undefined;
+  /** OR group(s) of filter conditions; multiple groups must all match */
+  or?: FilterGroup | FilterGroup[];
+  /**
+   * Additional field-level filters: `field` (exact match), `field_ne`,
+   * `field_in` / `field_not_in` (arrays), `field_prefix`, `field_is_null`
+   * and the numeric `field_gte` / `_lte` / `_gt` / `_lt`
+   */
+  [key: string]: FilterValue | FilterGroup | FilterGroup[];
+}
+
+/** Parameters for the combined all-events feed */
+export interface AllEventsParams extends Omit<QueryParams, 'after_id' | 'order_by'> {
+  /** Only this program's events */
+  program?: string;
+  /** Only this event or instruction */
+  event?: string;
+  /** Sort column (default: "slot") */
+  order_by?: 'slot' | 'block_time';
+}
+
+/** Parameters for time-bucketed aggregation; also accepts any filters */
+export interface AggregateParams extends Omit<QueryParams, 'limit' | 'offset' | 'after_id' | 'order_by' | 'order'> {
+  /** Bucket size: `1m`, `15m`, `1h`, `1d`, `1w`… (default: "1h") */
+  bucket?: string;
+  /** Up to 3 fields to group by */
+  group_by?: string[];
+  /** Numeric fields to sum */
+  sum?: string[];
+  /** Numeric fields to average */
+  avg?: string[];
+  /** Numeric fields to take the minimum of */
+  min?: string[];
+  /** Numeric fields to take the maximum of */
+  max?: string[];
+}
+
+/** One bucket (and group) of an aggregation */
+export interface AggregateRow {
+  /** Bucket start (ISO 8601) */
+  bucket: string;
+  count: number;
+  /** Group-by columns and `{fn}_{field}` aggregates */
+  [column: string]: unknown;
+}
+
+/** Aggregation response */
+export interface AggregateResponse {
+  bucket: string;
+  from: string;
+  to: string;
+  groupBy: string[];
+  data: AggregateRow[];
+  /** More result rows exist than were returned */
+  truncated: boolean;
+}
+
+// =============================================================================
+// Transactions
+// =============================================================================
+
+/** One decoded item of a transaction */
+export interface TransactionEntry {
+  kind: 'instruction' | 'event' | 'token_transfer';
+  /** Program name; null for token transfers */
+  program: string | null;
+  /** Event or instruction name, or the token instruction type */
+  name: string;
+  ixIndex: number;
+  innerIxIndex: number | null;
+  /** The indexed row; token transfers add `decimals` and `ui_amount` */
+  data: IndexedRow;
+}
+
+/** Everything indexed for one transaction, ordered by instruction position */
+export interface TransactionDocument {
+  signature: string;
+  slot: BigIntString | null;
+  blockTime: string | null;
+  commitment: 'confirmed' | 'finalized' | null;
+  entries: TransactionEntry[];
+  logs: string[] | null;
+}
+
+/** One item of an address's activity feed */
+export interface ActivityEntry {
+  kind: 'instruction' | 'event' | 'token_transfer';
+  /** Program name; null for token transfers */
+  program: string | null;
+  /** Event or instruction name, or the token instruction type */
+  name: string;
+  /** Columns of the row that held the address */
+  roles: string[];
+  slot: BigIntString;
+  blockTime: string | null;
+  txSignature: string;
+  ixIndex: number;
+  data: IndexedRow;
+}
+
+/** Parameters for an address's activity feed */
+export interface ActivityParams {
+  /** Only these kinds (default: all) */
+  kind?: Array<ActivityEntry['kind']>;
+  /** Only this program's events and instructions */
+  program?: string;
+  /** Results per page (1–200, default: 50) */
+  limit?: number;
+  /** Keyset cursor from a previous page's `next_cursor` / `prev_cursor` */
+  cursor?: string;
+  /** Sort direction by slot (default: "desc") */
+  order?: 'asc' | 'desc';
+}
+
+// =============================================================================
+// Exports
+// =============================================================================
+
+/** Bulk export file formats */
+export type ExportFormat = 'csv' | 'ndjson' | 'parquet';
+
+/** Parameters for starting a bulk export */
+export interface CreateExportParams {
+  program: string;
+  event: string;
+  format: ExportFormat;
+  /** Filters in the query endpoints' syntax (lists for repeated params like `or`) */
+  filters?: Record<string, string | string[]>;
+}
+
+/** A bulk export job */
+export interface ExportJob {
+  id: string;
+  program: string;
+  event: string;
+  format: ExportFormat;
+  filters: Record<string, string | string[]>;
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'expired';
+  /** Fraction of matching rows written (0–1) */
+  progress: number;
+  rowsExported: number;
+  totalRows: number | null;
+  sizeBytes: number | null;
+  error: string | null;
+  /** Set once completed, until expiresAt */
+  downloadUrl: string | null;
+  expiresAt: string | null;
+  createdAt: string;
+  startedAt: string | null;
+  completedAt: string | null;
 }
 
 // =============================================================================
@@ -132,6 +352,8 @@ export interface FieldSchema {
   nullable: boolean;
   description: string;
   source: 'metadata' | 'idl';
+  /** Set on pubkey fields and instruction accounts, which the activity feed indexes */
+  address?: boolean;
 }
 
 /** Event schema with all fields */
@@ -158,6 +380,12 @@ export interface ProgramSchema {
     args: Array<Omit<FieldSchema, 'source'>>;
     accounts: string[];
   }>;
+  accounts?: Array<{
+    name: string;
+    originalName: string;
+    type: 'account';
+    fields: FieldSchema[];
+  }>;
 }
 
 // =============================================================================
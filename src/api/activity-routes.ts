@@ -0,0 +1,198 @@
+/**
+ * Uho — Address Activity Routes (Platform Mode)
+ *
+ * GET /api/v1/accounts/:pubkey/activity lists the events, instructions and
+ * token transfers involving an address across every program the user
+ * indexes, newest first. Entries come from the _address_activity index the
+ * writer maintains (see generateAddressActivityTable); each is returned with
+ * its full row from the source table. Paginated with keyset cursors.
+ */
+
+import type { FastifyInstance } from 'fastify';
+import type pg from 'pg';
+import { authMiddleware } from '../middleware/auth.js';
+import { schemaMiddleware } from '../middleware/schema.js';
+import { AppError, ValidationError } from '../core/errors.js';
+import { quoteIdent } from '../core/schema-generator.js';
+import { serializeRow } from '../core/serialize.js';
+import { decodeCursor, keysetQuery, keysetPage, type KeysetOrder } from './cursors.js';
+import { enabledTables, type TxEntryKind } from './tx-routes.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** One item of an address's activity feed */
+export interface ActivityEntry {
+  kind: TxEntryKind;
+  /** User program name; null for token transfers */
+  program: string | null;
+  /** Event or instruction name, or the token instruction type */
+  name: string;
+  /** Columns of the row that held the address */
+  roles: string[];
+  slot: string;
+  blockTime: string | null;
+  txSignature: string;
+  ixIndex: number;
+  data: Record<string, unknown>;
+}
+
+/** Base58 Solana address */
+const ADDRESS_REGEX = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
+
+const ACTIVITY_KINDS: TxEntryKind[] = ['event', 'instruction', 'token_transfer'];
+
+/** Activity is ordered by slot, then by index row id */
+const ACTIVITY_TIE_BREAKERS = ['slot', 'id'];
+
+// =============================================================================
+// Route Registration
+// =============================================================================
+
+/**
+ * Registers the address activity route.
+ */
+export function registerActivityRoutes(app: FastifyInstance, pool: pg.Pool): void {
+  const preHandlers = [authMiddleware, schemaMiddleware];
+
+  // -----------------------------------------------------------------------
+  // GET /api/v1/accounts/:pubkey/activity — Everything involving an address
+  //
+  // ?kind= (comma-separated event, instruction, token_transfer) and
+  // ?program= narrow the feed; ?order=asc walks oldest first; ?cursor=
+  // continues from a previous page's next_cursor or prev_cursor.
+  // -----------------------------------------------------------------------
+  app.get('/api/v1/accounts/:pubkey/activity', { preHandler: preHandlers }, async (request, reply) => {
+    const auth = request.authPayload!;
+    const client = request.schemaClient!;
+    const { pubkey } = request.params as { pubkey: string };
+    const query = request.query as Record<string, string>;
+
+    const limit = Math.min(Math.max(parseInt(query.limit || '50', 10), 1), 200);
+    const emptyPage = { data: [], pagination: { limit, has_more: false, next_cursor: null, prev_cursor: null } };
+
+    try {
+      if (!ADDRESS_REGEX.test(pubkey)) {
+        throw new ValidationError(`Invalid address '${pubkey}'`);
+      }
+      const kinds = parseKinds(query.kind);
+
+      // Only entries from tables the user still indexes are listed
+      const sources = new Map<string, { kind: TxEntryKind; program: string | null; name: string | null }>();
+      for (const table of await enabledTables(pool, auth.userId)) {
+        if (query.program && table.program !== query.program) continue;
+        sources.set(table.table, { kind: table.kind, program: table.program, name: table.name });
+      }
+      if (!query.program) {
+        sources.set('_token_transfers', { kind: 'token_transfer', program: null, name: null });
+      }
+      for (const [table, source] of sources) {
+        if (!kinds.has(source.kind)) sources.delete(table);
+      }
+      if (sources.size === 0) return emptyPage;
+
+      const params: unknown[] = [pubkey, [...sources.keys()]];
+      const bind = (value: unknown) => {
+        params.push(value);
+        return `$${params.length}`;
+      };
+
+      const cursor = query.cursor ? decodeCursor(query.cursor) : null;
+      const keysetOrder: KeysetOrder = {
+        orderBy: 'slot',
+        order: cursor?.order ?? (query.order === 'asc' ? 'ASC' : 'DESC'),
+        tieBreakers: ACTIVITY_TIE_BREAKERS,
+      };
+      if (cursor && cursor.orderBy !== 'slot') throw new ValidationError('Invalid cursor');
+
+      const keyset = keysetQuery(keysetOrder, cursor, bind);
+      const whereClauses = ['"address" = $1', '"source_table" = ANY($2)'];
+      if (keyset.where) whereClauses.push(keyset.where);
+
+      // Keyset pages fetch one extra row to tell whether more follow
+      const result = await client.query(
+        `SELECT id, roles, kind, name, source_table, source_id, slot, block_time, tx_signature, ix_index
+         FROM _address_activity
+         WHERE ${whereClauses.join(' AND ')}
+         ORDER BY ${keyset.orderBy}
+         LIMIT ${bind(limit + 1)}`,
+        params
+      );
+      const page = keysetPage(result.rows, limit, keysetOrder, cursor);
+
+      const rows = await loadSourceRows(client, page.data);
+      const data: ActivityEntry[] = [];
+      for (const entry of page.data) {
+        const row = rows.get(`${entry.source_table}:${entry.source_id}`);
+        if (!row) continue;
+        const source = sources.get(entry.source_table as string)!;
+        data.push({
+          kind: source.kind,
+          program: source.program,
+          name: source.name ?? (entry.name as string),
+          roles: entry.roles as string[],
+          slot: String(entry.slot),
+          blockTime: entry.block_time instanceof Date ? entry.block_time.toISOString() : null,
+          txSignature: entry.tx_signature as string,
+          ixIndex: Number(entry.ix_index),
+          data: serializeRow(row),
+        });
+      }
+
+      return { data, pagination: page.pagination };
+    } catch (err) {
+      if (err instanceof AppError) {
+        return reply.status(err.statusCode).send(err.toResponse());
+      }
+      // Schemas provisioned before activity tracking have no index yet
+      if ((err as { code?: string })?.code === '42P01') {
+        return emptyPage;
+      }
+      throw err;
+    }
+  });
+}
+
+/**
+ * Parses the `kind` filter; every kind when absent.
+ */
+export function parseKinds(raw: string | undefined): Set<TxEntryKind> {
+  if (!raw) return new Set(ACTIVITY_KINDS);
+
+  const kinds = new Set<TxEntryKind>();
+  for (const value of raw.split(',').map((v) => v.trim()).filter((v) => v !== '')) {
+    if (!ACTIVITY_KINDS.includes(value as TxEntryKind)) {
+      throw new ValidationError(`Invalid kind '${value}' — expected ${ACTIVITY_KINDS.join(', ')}`);
+    }
+    kinds.add(value as TxEntryKind);
+  }
+  return kinds;
+}
+
+/**
+ * Loads the source rows of activity entries, one query per table, keyed by
+ * `table:id`. Rows whose table is gone are simply missing.
+ */
+async function loadSourceRows(
+  client: pg.PoolClient,
+  entries: Array<Record<string, unknown>>
+): Promise<Map<string, Record<string, unknown>>> {
+  const idsByTable = new Map<string, unknown[]>();
+  for (const entry of entries) {
+    const table = entry.source_table as string;
+    if (!idsByTable.has(table)) idsByTable.set(table, []);
+    idsByTable.get(table)!.push(entry.source_id);
+  }
+
+  const rows = new Map<string, Record<string, unknown>>();
+  for (const [table, ids] of idsByTable) {
+    try {
+      const result = await client.query(`SELECT * FROM ${quoteIdent(table)} WHERE id = ANY($1)`, [ids]);
+      for (const row of result.rows) rows.set(`${table}:${row.id}`, row);
+    } catch (err) {
+      if ((err as { code?: string })?.code !== '42P01') throw err;
+    }
+  }
+  return rows;
+}
@@ -0,0 +1,162 @@
+/**
+ * Uho — Admin Routes
+ *
+ * Plan management for operators under /api/v1/admin/*: define plans and
+ * their limits, and move users between plans with per-user overrides.
+ * Every route requires a JWT from a user flagged `is_admin`.
+ */
+
+import type { FastifyInstance } from 'fastify';
+import type { PlanService } from '../services/plan-service.js';
+import type { UsageService } from '../services/usage-service.js';
+import type { PlanLimits, PlanRecord, UserPlan } from '../core/types.js';
+import { adminMiddleware } from '../middleware/auth.js';
+import { AppError, ValidationError } from '../core/errors.js';
+
+// =============================================================================
+// Route Registration
+// =============================================================================
+
+/**
+ * Registers the admin plan management routes.
+ */
+export function registerAdminRoutes(
+  app: FastifyInstance,
+  planService: PlanService,
+  usageService: UsageService
+): void {
+  // -----------------------------------------------------------------------
+  // GET /api/v1/admin/plans — List plans
+  // -----------------------------------------------------------------------
+  app.get('/api/v1/admin/plans', { preHandler: adminMiddleware }, async () => {
+    const plans = await planService.listPlans();
+    return { data: plans.map(formatPlan) };
+  });
+
+  // -----------------------------------------------------------------------
+  // POST /api/v1/admin/plans — Create a plan
+  // -----------------------------------------------------------------------
+  app.post('/api/v1/admin/plans', { preHandler: adminMiddleware }, async (request, reply) => {
+    const body = request.body as {
+      id?: string;
+      name?: string;
+      limits?: PlanLimits;
+      isDefault?: boolean;
+    } | null;
+
+    try {
+      if (!body?.id || !body?.name || !body?.limits) {
+        throw new ValidationError('id, name and limits are required');
+      }
+      const plan = await planService.createPlan({
+        id: body.id,
+        name: body.name,
+        limits: body.limits,
+        isDefault: body.isDefault,
+      });
+      return reply.status(201).send(formatPlan(plan));
+    } catch (err) {
+      if (err instanceof AppError) {
+        return reply.status(err.statusCode).send(err.toResponse());
+      }
+      throw err;
+    }
+  });
+
+  // -----------------------------------------------------------------------
+  // PATCH /api/v1/admin/plans/:id — Update a plan's name, limits or default
+  // -----------------------------------------------------------------------
+  app.patch('/api/v1/admin/plans/:id', { preHandler: adminMiddleware }, async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const body = request.body as {
+      name?: string;
+      limits?: Partial<PlanLimits>;
+      isDefault?: boolean;
+    } | null;
+
+    try {
+      const plan = await planService.updatePlan(id, {
+        name: body?.name,
+        limits: body?.limits,
+        isDefault: body?.isDefault,
+      });
+      return formatPlan(plan);
+    } catch (err) {
+      if (err instanceof AppError) {
+        return reply.status(err.statusCode).send(err.toResponse());
+      }
+      throw err;
+    }
+  });
+
+  // -----------------------------------------------------------------------
+  // GET /api/v1/admin/users/:userId/plan — A user's plan, limits and usage
+  // -----------------------------------------------------------------------
+  app.get('/api/v1/admin/users/:userId/plan', { preHandler: adminMiddleware }, async (request, reply) => {
+    const { userId } = request.params as { userId: string };
+
+    try {
+      const userPlan = await planService.getUserPlan(userId);
+      const usage = await usageService.getUsage(userId);
+      return { ...formatUserPlan(userPlan), usage };
+    } catch (err) {
+      if (err instanceof AppError) {
+        return reply.status(err.statusCode).send(err.toResponse());
+      }
+      throw err;
+    }
+  });
+
+  // -----------------------------------------------------------------------
+  // PUT /api/v1/admin/users/:userId/plan — Assign a plan and overrides
+  // -----------------------------------------------------------------------
+  app.put('/api/v1/admin/users/:userId/plan', { preHandler: adminMiddleware }, async (request, reply) => {
+    const auth = request.authPayload!;
+    const { userId } = request.params as { userId: string };
+    const body = request.body as { planId?: string; overrides?: unknown } | null;
+
+    try {
+      if (!body?.planId) {
+        throw new ValidationError('planId is required');
+      }
+      const userPlan = await planService.assignPlan(userId, body.planId, body.overrides, auth.userId);
+      return formatUserPlan(userPlan);
+    } catch (err) {
+      if (err instanceof AppError) {
+        return reply.status(err.statusCode).send(err.toResponse());
+      }
+      throw err;
+    }
+  });
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Formats a plan for API response.
+ */
+function formatPlan(plan: PlanRecord): Record<string, unknown> {
+  return {
+    id: plan.id,
+    name: plan.name,
+    limits: plan.limits,
+    isDefault: plan.isDefault,
+    createdAt: plan.createdAt.toISOString(),
+    updatedAt: plan.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Formats a user's plan assignment for API response.
+ */
+function formatUserPlan(userPlan: UserPlan): Record<string, unknown> {
+  return {
+    userId: userPlan.userId,
+    plan: formatPlan(userPlan.plan),
+    overrides: userPlan.overrides,
+    limits: userPlan.limits,
+    assignedAt: userPlan.assignedAt.toISOString(),
+  };
+}
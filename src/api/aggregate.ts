@@ -0,0 +1,188 @@
+/**
+ * Uho — Aggregation Queries
+ *
+ * Builds the time-bucketed aggregate query behind
+ * `GET /api/v1/data/:program/:event/aggregate`: rows in a `block_time` window
+ * grouped into fixed buckets (`date_trunc`, or epoch arithmetic for multi-unit
+ * buckets like `5m`), optionally by up to three columns, with COUNT plus SUM,
+ * AVG, MIN and MAX of numeric fields. Every column is validated against the
+ * table's fields; the window is capped at MAX_BUCKETS buckets.
+ */
+
+import { quoteIdent } from '../core/schema-generator.js';
+import { ValidationError } from '../core/errors.js';
+import { buildFilterClauses, type FilterFields, type FilterQuery } from '../core/filters.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type AggregateFunction = 'sum' | 'avg' | 'min' | 'max';
+
+/** A validated aggregation request */
+export interface AggregateRequest {
+  bucket: string;
+  bucketSeconds: number;
+  from: Date;
+  to: Date;
+  groupBy: string[];
+  aggregates: Array<{ fn: AggregateFunction; field: string }>;
+}
+
+/** Buckets a window may span at most */
+export const MAX_BUCKETS = 2000;
+
+/** Buckets covered when no `from` is given */
+const DEFAULT_BUCKETS = 100;
+
+/** Columns a request may group by at most */
+const MAX_GROUP_BY = 3;
+
+/** Aggregation params, never field filters */
+export const AGGREGATE_PARAMS = new Set(['bucket', 'group_by', 'groupBy', 'sum', 'avg', 'min', 'max']);
+
+const AGGREGATE_FUNCTIONS: AggregateFunction[] = ['sum', 'avg', 'min', 'max'];
+
+/** Bucket units: seconds and the date_trunc field for single-unit buckets */
+const BUCKET_UNITS: Record<string, { seconds: number; trunc: string }> = {
+  m: { seconds: 60, trunc: 'minute' },
+  h: { seconds: 3600, trunc: 'hour' },
+  d: { seconds: 86400, trunc: 'day' },
+  w: { seconds: 604800, trunc: 'week' },
+};
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+/**
+ * Validates the aggregation params of a request against the table's fields.
+ *
+ * @param now - Window end when `to` is absent
+ */
+export function parseAggregateRequest(
+  query: Record<string, string>,
+  fields: FilterFields,
+  now: Date = new Date()
+): AggregateRequest {
+  const bucket = query.bucket || '1h';
+  const bucketSeconds = parseBucket(bucket);
+
+  const to = query.to ? parseTime(query.to, 'to') : now;
+  const from = query.from ? parseTime(query.from, 'from') : new Date(to.getTime() - DEFAULT_BUCKETS * bucketSeconds * 1000);
+  if (from >= to) throw new ValidationError('from must be before to');
+
+  const buckets = Math.ceil((to.getTime() - from.getTime()) / (bucketSeconds * 1000));
+  if (buckets > MAX_BUCKETS) {
+    throw new ValidationError(
+      `Window spans ${buckets} buckets of ${bucket}; the maximum is ${MAX_BUCKETS} — use a larger bucket or a shorter range`,
+      { buckets, maxBuckets: MAX_BUCKETS }
+    );
+  }
+
+  const groupBy = listParam(query.group_by ?? query.groupBy);
+  if (groupBy.length > MAX_GROUP_BY) {
+    throw new ValidationError(`group_by accepts at most ${MAX_GROUP_BY} fields`);
+  }
+  for (const field of groupBy) {
+    if (!fields.known.has(field)) throw new ValidationError(`Unknown group_by field '${field}'`);
+  }
+
+  const aggregates: AggregateRequest['aggregates'] = [];
+  for (const fn of AGGREGATE_FUNCTIONS) {
+    for (const field of listParam(query[fn])) {
+      if (!fields.numeric.has(field)) {
+        throw new ValidationError(`${fn} requires a numeric field; '${field}' is unknown or not numeric`);
+      }
+      aggregates.push({ fn, field });
+    }
+  }
+
+  return { bucket, bucketSeconds, from, to, groupBy, aggregates };
+}
+
+/**
+ * Parses a bucket size like `1m`, `15m`, `1h`, `1d` or `1w` into seconds.
+ */
+function parseBucket(bucket: string): number {
+  const match = bucket.match(/^(\d{1,3})([mhdw])$/);
+  const count = match ? parseInt(match[1], 10) : 0;
+  if (!match || count < 1) {
+    throw new ValidationError(`Invalid bucket '${bucket}' — expected e.g. 1m, 15m, 1h, 1d or 1w`);
+  }
+  return count * BUCKET_UNITS[match[2]].seconds;
+}
+
+function parseTime(value: string, name: string): Date {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) throw new ValidationError(`${name} must be an ISO 8601 timestamp`);
+  return date;
+}
+
+function listParam(value: string | undefined): string[] {
+  return (value ?? '').split(',').map((v) => v.trim()).filter((v) => v !== '');
+}
+
+// =============================================================================
+// Query Building
+// =============================================================================
+
+/**
+ * SQL expression truncating block_time to the request's bucket.
+ */
+export function bucketExpression(request: AggregateRequest): string {
+  const unit = Object.values(BUCKET_UNITS).find((u) => u.seconds === request.bucketSeconds);
+  if (unit) return `date_trunc('${unit.trunc}', "block_time")`;
+  return `to_timestamp(floor(extract(epoch FROM "block_time") / ${request.bucketSeconds}) * ${request.bucketSeconds})`;
+}
+
+/**
+ * Builds the WHERE clauses shared by the aggregate query and its scan
+ * estimate: the request's window plus any field filters.
+ */
+export function aggregateFilters(
+  query: Record<string, string>,
+  fields: FilterFields,
+  request: AggregateRequest
+): { whereClauses: string[]; params: unknown[] } {
+  const filterQuery: FilterQuery = { ...query, from: request.from.toISOString(), to: undefined };
+  const { whereClauses, params } = buildFilterClauses(filterQuery, fields, { reserved: AGGREGATE_PARAMS });
+
+  // The window end is exclusive so adjacent windows don't share rows
+  params.push(request.to.toISOString());
+  whereClauses.push(`"block_time" < $${params.length}`);
+  return { whereClauses, params };
+}
+
+/**
+ * Builds the aggregate query. Result rows are `bucket`, the group-by
+ * columns, `count` and one `{fn}_{field}` column per aggregate, ordered by
+ * bucket then count.
+ *
+ * @param limit - Maximum result rows to return
+ */
+export function buildAggregateQuery(
+  tableName: string,
+  request: AggregateRequest,
+  filters: { whereClauses: string[]; params: unknown[] },
+  limit: number
+): { sql: string; params: unknown[] } {
+  const groupColumns = request.groupBy.map(quoteIdent);
+  const select = [
+    `${bucketExpression(request)} AS "bucket"`,
+    ...groupColumns,
+    'COUNT(*)::int AS "count"',
+    ...request.aggregates.map(({ fn, field }) => `${fn.toUpperCase()}(${quoteIdent(field)}) AS ${quoteIdent(`${fn}_${field}`)}`),
+  ];
+  const params = [...filters.params, limit];
+
+  const sql = `
+    SELECT ${select.join(', ')}
+    FROM ${tableName}
+    WHERE ${filters.whereClauses.join(' AND ')}
+    GROUP BY ${['1', ...groupColumns].join(', ')}
+    ORDER BY 1 ASC, "count" DESC
+    LIMIT $${params.length}
+  `;
+  return { sql, params };
+}
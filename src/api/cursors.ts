@@ -0,0 +1,187 @@
+/**
+ * Uho — Keyset Cursors
+ *
+ * Opaque cursors for keyset pagination on the data routes. A cursor holds
+ * the sort key of the row a page ended (or started) at: the `order_by`
+ * column's value, then the tie-breaker columns `(slot, tx_signature,
+ * ix_index)` and the row id, which together order rows totally. The next
+ * page is the rows strictly after that key, so deep pages cost the same as
+ * the first and rows inserted meanwhile never shift or repeat a page.
+ *
+ * Cursors also record the ordering they were issued for and the direction
+ * to travel: `next_cursor` continues forwards, `prev_cursor` walks back.
+ * NULLs in the `order_by` column sort last in either order.
+ */
+
+import { quoteIdent } from '../core/schema-generator.js';
+import { ValidationError } from '../core/errors.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** How a table is ordered for keyset pagination */
+export interface KeysetOrder {
+  orderBy: string;
+  order: 'ASC' | 'DESC';
+  /** NOT NULL columns that break ties, most significant first */
+  tieBreakers: string[];
+}
+
+/** A decoded cursor */
+export interface Cursor {
+  orderBy: string;
+  order: 'ASC' | 'DESC';
+  direction: 'next' | 'prev';
+  /** Sort key of the boundary row, in keyColumns() order */
+  values: unknown[];
+}
+
+/** Binds a value as the next query parameter, returning its placeholder */
+type Bind = (value: unknown) => string;
+
+/** Tie-breakers for event and instruction tables */
+export const EVENT_TIE_BREAKERS = ['slot', 'tx_signature', 'ix_index', 'id'];
+
+/** Tie-breakers for account state tables, which have no instruction */
+export const ACCOUNT_TIE_BREAKERS = ['slot', 'id'];
+
+// =============================================================================
+// Encoding
+// =============================================================================
+
+/**
+ * Encodes a cursor as an opaque URL-safe string.
+ */
+export function encodeCursor(cursor: Cursor): string {
+  const payload = { o: cursor.orderBy, r: cursor.order, d: cursor.direction, v: cursor.values };
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+/**
+ * Decodes a cursor from a request, rejecting anything malformed.
+ */
+export function decodeCursor(raw: string): Cursor {
+  let payload: { o?: unknown; r?: unknown; d?: unknown; v?: unknown };
+  try {
+    payload = JSON.parse(Buffer.from(raw, 'base64url').toString('utf-8'));
+  } catch {
+    throw new ValidationError('Invalid cursor');
+  }
+
+  if (
+    typeof payload?.o !== 'string' ||
+    (payload.r !== 'ASC' && payload.r !== 'DESC') ||
+    (payload.d !== 'next' && payload.d !== 'prev') ||
+    !Array.isArray(payload.v)
+  ) {
+    throw new ValidationError('Invalid cursor');
+  }
+  return { orderBy: payload.o, order: payload.r, direction: payload.d, values: payload.v };
+}
+
+// =============================================================================
+// Query Building
+// =============================================================================
+
+/**
+ * Columns of the sort key: the order_by column, unless the tie-breakers
+ * already lead with it, followed by the tie-breakers.
+ */
+export function keyColumns(order: KeysetOrder): string[] {
+  return order.orderBy === order.tieBreakers[0] ? order.tieBreakers : [order.orderBy, ...order.tieBreakers];
+}
+
+/**
+ * Builds the ORDER BY for a page and, after a cursor, the WHERE condition
+ * selecting rows past it. Pages walking back (`prev`) are fetched in reverse
+ * order; keysetPage() flips them back.
+ */
+export function keysetQuery(
+  order: KeysetOrder,
+  cursor: Cursor | null,
+  bind: Bind
+): { where: string | null; orderBy: string } {
+  const backward = cursor?.direction === 'prev';
+  const descending = (order.order === 'DESC') !== backward;
+  const dir = descending ? 'DESC' : 'ASC';
+
+  const columns = keyColumns(order);
+  const hasLead = columns.length > order.tieBreakers.length;
+  const lead = quoteIdent(order.orderBy);
+  const ties = order.tieBreakers.map(quoteIdent);
+
+  const orderBy = [
+    ...(hasLead ? [`${lead} ${dir} NULLS ${backward ? 'FIRST' : 'LAST'}`] : []),
+    ...ties.map((col) => `${col} ${dir}`),
+  ].join(', ');
+
+  if (!cursor) return { where: null, orderBy };
+  if (cursor.values.length !== columns.length) {
+    throw new ValidationError('Invalid cursor');
+  }
+
+  const cmp = descending ? '<' : '>';
+  const tieValues = cursor.values.slice(hasLead ? 1 : 0);
+  const tie = `(${ties.join(', ')}) ${cmp} (${tieValues.map((v) => bind(v)).join(', ')})`;
+  if (!hasLead) return { where: tie, orderBy };
+
+  // The order_by column may be NULL; NULLs come after every value
+  const leadValue = cursor.values[0];
+  let where: string;
+  if (leadValue === null) {
+    where = backward
+      ? `(${lead} IS NOT NULL OR (${lead} IS NULL AND ${tie}))`
+      : `(${lead} IS NULL AND ${tie})`;
+  } else {
+    const value = bind(leadValue);
+    where = backward
+      ? `(${lead} ${cmp} ${value} OR (${lead} = ${value} AND ${tie}))`
+      : `(${lead} ${cmp} ${value} OR ${lead} IS NULL OR (${lead} = ${value} AND ${tie}))`;
+  }
+  return { where, orderBy };
+}
+
+// =============================================================================
+// Pages
+// =============================================================================
+
+/** Keyset pagination metadata */
+export interface KeysetPagination {
+  limit: number;
+  has_more: boolean;
+  next_cursor: string | null;
+  prev_cursor: string | null;
+}
+
+/**
+ * Turns the rows of a keyset query (fetched with LIMIT limit + 1) into a
+ * page with cursors to the pages after and before it.
+ */
+export function keysetPage<T extends Record<string, unknown>>(
+  rows: T[],
+  limit: number,
+  order: KeysetOrder,
+  cursor: Cursor | null
+): { data: T[]; pagination: KeysetPagination } {
+  const backward = cursor?.direction === 'prev';
+  const extra = rows.length > limit;
+  const data = rows.slice(0, limit);
+  if (backward) data.reverse();
+
+  const columns = keyColumns(order);
+  const cursorAt = (row: T | undefined, direction: Cursor['direction']) =>
+    row
+      ? encodeCursor({ orderBy: order.orderBy, order: order.order, direction, values: columns.map((c) => row[c] ?? null) })
+      : null;
+
+  // Walking forwards, more rows follow only if the query found one extra;
+  // walking back, the page we came from always follows
+  const nextCursor = backward || extra ? cursorAt(data[data.length - 1], 'next') : null;
+  const prevCursor = cursor && (!backward || extra) ? cursorAt(data[0], 'prev') : null;
+
+  return {
+    data,
+    pagination: { limit, has_more: nextCursor !== null, next_cursor: nextCursor, prev_cursor: prevCursor },
+  };
+}
@@ -6,7 +6,7 @@
  * Routes are under /api/v1/data/{program}/{event}.
  *
  * Features:
- * - S1.2: Field-level filtering with range operators (_gte, _lte, _gt, _lt)
+ * - S1.2: Field-level filtering — see filters.ts for the grammar
  * - S1.5: order_by parameter (validated against known columns)
  * - S2.4: Cursor-based pagination (after_id + limit)
  */
@@ -15,17 +15,43 @@ import type { FastifyInstance } from 'fastify';
 import type pg from 'pg';
 import { authMiddleware } from '../middleware/auth.js';
 import { schemaMiddleware } from '../middleware/schema.js';
-import { toSnakeCase, parseIDL } from '../core/idl-parser.js';
-import { eventTableName, instructionTableName, quoteIdent } from '../core/schema-generator.js';
-import type { AnchorIDL, ParsedEvent, ParsedInstruction, ParsedField } from '../core/types.js';
+import { buildFilterClauses, type FilterQuery } from '../core/filters.js';
+import { parseAggregateRequest, aggregateFilters, buildAggregateQuery } from './aggregate.js';
+import {
+  decodeCursor,
+  keysetQuery,
+  keysetPage,
+  EVENT_TIE_BREAKERS,
+  ACCOUNT_TIE_BREAKERS,
+  type Cursor,
+  type KeysetOrder,
+} from './cursors.js';
+import { quoteIdent } from '../core/schema-generator.js';
+import type { ParsedEvent, ParsedInstruction } from '../core/types.js';
 import { NotFoundError, ValidationError, AppError } from '../core/errors.js';
+import { resolveTable } from '../core/table-resolver.js';
+import { serializeRow } from '../core/serialize.js';
 
-/** Reserved query params that are not field filters */
-const RESERVED_PARAMS = new Set([
-  'limit', 'offset', 'order_by', 'orderBy', 'order',
-  'from', 'to', 'slotFrom', 'slotTo',
-  'after_id', 'afterId',
-]);
+/** Rows an aggregation may scan, by the planner's estimate */
+const MAX_AGGREGATE_SCAN_ROWS = 5_000_000;
+
+/** Result rows an aggregation returns at most (buckets × groups) */
+const MAX_AGGREGATE_RESULT_ROWS = 10_000;
+
+/** Hard limit on an aggregation's run time, in case the estimate is off */
+const AGGREGATE_TIMEOUT_MS = 15_000;
+
+/** Columns of the combined /data/all rows */
+const ALL_EVENTS_FIELDS = {
+  known: new Set(['slot', 'block_time', 'tx_signature', 'program_name', 'event_type']),
+  numeric: new Set(['slot']),
+};
+
+/** Columns /data/all can be ordered by */
+const ALL_EVENTS_ORDER_COLUMNS = new Set(['slot', 'block_time']);
+
+/** Tie-breakers for /data/all — (program_name, event_type) identify the table an id is from */
+const ALL_EVENTS_TIE_BREAKERS = ['slot', 'tx_signature', 'ix_index', 'program_name', 'event_type', 'id'];
 
 // =============================================================================
 // Route Registration
@@ -41,8 +67,11 @@ export function registerDataRoutes(app: FastifyInstance, pool: pg.Pool): void {
   // -----------------------------------------------------------------------
   // GET /api/v1/data/all — List all events across all programs (paginated)
   //
-  // Supports optional ?program=name filter and ?event=name filter.
+  // Supports optional ?program=name filter and ?event=name filter, plus the
+  // filter grammar on slot, block_time, tx_signature, program_name and event_type.
   // Returns a unified view with event_type and program_name columns.
+  // ?cursor= (empty for the first page) paginates by keyset without counting
+  // the total, which is much cheaper across many tables than OFFSET.
   // -----------------------------------------------------------------------
   app.get('/api/v1/data/all', { preHandler: preHandlers }, async (request, reply) => {
     const auth = request.authPayload!;
@@ -52,6 +81,12 @@ export function registerDataRoutes(app: FastifyInstance, pool: pg.Pool): void {
     const limit = Math.min(Math.max(parseInt(query.limit || '50', 10), 1), 1000);
     const offset = Math.max(parseInt(query.offset || '0', 10), 0);
     const order = query.order === 'asc' ? 'ASC' : 'DESC';
+    const rawOrderBy = query.order_by || query.orderBy || '';
+    const orderBy = ALL_EVENTS_ORDER_COLUMNS.has(rawOrderBy) ? rawOrderBy : 'slot';
+    const useKeyset = query.cursor !== undefined;
+    const emptyPage = useKeyset
+      ? { data: [], pagination: { limit, has_more: false, next_cursor: null, prev_cursor: null } }
+      : { data: [], pagination: { limit, offset, total: 0 } };
     const filterProgram = query.program || '';
     const filterEvent = query.event || '';
 
@@ -63,7 +98,7 @@ export function registerDataRoutes(app: FastifyInstance, pool: pg.Pool): void {
       );
 
       if (programsResult.rows.length === 0) {
-        return { data: [], pagination: { limit, offset, total: 0 } };
+        return emptyPage;
       }
 
       const { parseIDL } = await import('../core/idl-parser.js');
@@ -92,24 +127,51 @@ export function registerDataRoutes(app: FastifyInstance, pool: pg.Pool): void {
             : eventTableName(idlProgramName, evt.event_name);
           unionParams.push(row.name, evt.event_name);
           unions.push(
-            `SELECT slot, tx_signature, block_time, $${paramIdx}::text as program_name, $${paramIdx + 1}::text as event_type FROM ${tableName}`
+            `SELECT id, slot, tx_signature, ix_index, block_time, $${paramIdx}::text as program_name, $${paramIdx + 1}::text as event_type FROM ${tableName}`
           );
           paramIdx += 2;
         }
       }
 
       if (unions.length === 0) {
-        return { data: [], pagination: { limit, offset, total: 0 } };
+        return emptyPage;
       }
 
       const unionSql = unions.join(' UNION ALL ');
-      unionParams.push(limit, offset);
-      const dataSql = `SELECT * FROM (${unionSql}) combined ORDER BY slot ${order} LIMIT $${paramIdx} OFFSET $${paramIdx + 1}`;
+
+      // Filter params are numbered after the union's own
+      const filters = buildFilterClauses(query as FilterQuery, ALL_EVENTS_FIELDS, { paramOffset: paramIdx - 1 });
+      unionParams.push(...filters.params);
+      const bind = (value: unknown) => {
+        unionParams.push(value);
+        return `$${unionParams.length}`;
+      };
+
+      const cursor = useKeyset && query.cursor ? decodeCursor(query.cursor) : null;
+      const keysetOrder: KeysetOrder = {
+        orderBy: cursor?.orderBy ?? orderBy,
+        order: cursor?.order ?? order,
+        tieBreakers: ALL_EVENTS_TIE_BREAKERS,
+      };
+      if (cursor) checkCursorOrder(cursor, query, ALL_EVENTS_ORDER_COLUMNS);
+
+      const keyset = keysetQuery(keysetOrder, cursor, bind);
+      const whereClauses = keyset.where ? [...filters.whereClauses, keyset.where] : filters.whereClauses;
+      const whereStr = whereClauses.length > 0 ? 'WHERE ' + whereClauses.join(' AND ') : '';
+
+      if (useKeyset) {
+        // Keyset pages fetch one extra row to tell whether more follow
+        const dataSql = `SELECT * FROM (${unionSql}) combined ${whereStr} ORDER BY ${keyset.orderBy} LIMIT ${bind(limit + 1)}`;
+        const dataResult = await client.query(dataSql, unionParams);
+        return keysetPage(dataResult.rows.map(serializeRow), limit, keysetOrder, cursor);
+      }
+
+      const countParams = [...unionParams];
+      const dataSql = `SELECT * FROM (${unionSql}) combined ${whereStr} ORDER BY ${keyset.orderBy} LIMIT ${bind(limit)} OFFSET ${bind(offset)}`;
       const dataResult = await client.query(dataSql, unionParams);
 
       // Count total (uses same params minus limit/offset)
-      const countParams = unionParams.slice(0, -2);
-      const countSql = `SELECT COUNT(*)::int as count FROM (${unionSql}) combined`;
+      const countSql = `SELECT COUNT(*)::int as count FROM (${unionSql}) combined ${whereStr}`;
       const countResult = await client.query(countSql, countParams);
       const total = countResult.rows[0]?.count ?? 0;
 
@@ -118,6 +180,9 @@ export function registerDataRoutes(app: FastifyInstance, pool: pg.Pool): void {
         pagination: { limit, offset, total },
       };
     } catch (err) {
+      if (err instanceof AppError) {
+        return reply.status(err.statusCode).send(err.toResponse());
+      }
       console.error('[Data/all] Error:', (err as Error).message);
       return reply.status(500).send({
         error: { code: 'INTERNAL_ERROR', message: 'Failed to query events' },
@@ -128,9 +193,10 @@ export function registerDataRoutes(app: FastifyInstance, pool: pg.Pool): void {
   // -----------------------------------------------------------------------
   // GET /api/v1/data/:program/:event — List events (paginated, filterable)
   //
-  // S1.2: Field-level filtering — ?field=value, ?field_gte=N, ?field_lte=N
+  // S1.2: Field-level filtering — ?field=value, ?field_gte=N, ?field_in=a,b, ?or=...
   // S1.5: order_by parameter — ?order_by=block_time&order=desc
   // S2.4: Cursor-based pagination — ?after_id=123&limit=50
+  // Keyset pagination on any order_by — ?cursor= (empty for the first page)
   // -----------------------------------------------------------------------
   app.get('/api/v1/data/:program/:event', { preHandler: preHandlers }, async (request, reply) => {
     const auth = request.authPayload!;
@@ -144,18 +210,38 @@ export function registerDataRoutes(app: FastifyInstance, pool: pg.Pool): void {
     // S2.4 — Cursor-based pagination: after_id takes priority over offset
     const afterId = query.after_id || query.afterId;
     const useCursor = afterId !== undefined;
+    const useKeyset = query.cursor !== undefined;
 
     try {
-      const { tableName, knownFields, validOrderColumns, numericFields } = await resolveTable(
+      const { tableName, knownFields, validOrderColumns, numericFields, kind } = await resolveTable(
         pool, auth.userId, program, event
       );
+      if (useCursor && useKeyset) {
+        throw new ValidationError('Use either cursor or after_id, not both');
+      }
 
       // S1.5 — Validate order_by against known columns
       const rawOrderBy = query.order_by || query.orderBy || '';
       const orderBy = validOrderColumns.has(rawOrderBy) ? rawOrderBy : 'slot';
       const order = query.order === 'asc' ? 'ASC' : 'DESC';
 
-      const { whereClauses, params } = buildWhereClause(query, knownFields, numericFields);
+      const { whereClauses, params } = buildFilterClauses(query, { known: knownFields, numeric: numericFields });
+      const bind = (value: unknown) => {
+        params.push(value);
+        return `$${params.length}`;
+      };
+
+      // Keyset order: order_by, then (slot, tx_signature, ix_index) and id
+      const cursor = useKeyset && query.cursor ? decodeCursor(query.cursor) : null;
+      const keysetOrder: KeysetOrder = {
+        orderBy: cursor?.orderBy ?? orderBy,
+        order: cursor?.order ?? order,
+        tieBreakers: kind === 'account' ? ACCOUNT_TIE_BREAKERS : EVENT_TIE_BREAKERS,
+      };
+      if (cursor) checkCursorOrder(cursor, query, validOrderColumns);
+
+      const keyset = keysetQuery(keysetOrder, cursor, bind);
+      if (keyset.where) whereClauses.push(keyset.where);
 
       // S2.4 — Cursor: add id > or id < after_id condition based on order direction
       // When order=desc (default), we want id < after_id to get older records
@@ -166,30 +252,35 @@ export function registerDataRoutes(app: FastifyInstance, pool: pg.Pool): void {
         if (isNaN(parsedAfterId)) {
           throw new ValidationError('after_id must be a valid integer');
         }
-        params.push(parsedAfterId);
-        whereClauses.push(`"id" ${cursorDirection} $${params.length}`);
+        whereClauses.push(`"id" ${cursorDirection} ${bind(parsedAfterId)}`);
       }
 
       const whereStr = whereClauses.length > 0 ? 'WHERE ' + whereClauses.join(' AND ') : '';
       const paramOffset = params.length;
 
-      // For cursor pagination, order by id in the requested direction
-      const effectiveOrderBy = useCursor ? '"id"' : quoteIdent(orderBy);
-      const effectiveOrder = useCursor ? order : order;
+      // after_id pages are ordered by id; everything else by the full sort key
+      // so ties on order_by always come back in the same order
+      const orderSql = useCursor ? `"id" ${order}` : keyset.orderBy;
 
+      // Keyset pages fetch one extra row to tell whether more follow
       const dataSql = `
         SELECT * FROM ${tableName}
         ${whereStr}
-        ORDER BY ${effectiveOrderBy} ${effectiveOrder}
-        LIMIT $${paramOffset + 1}${useCursor ? '' : ` OFFSET $${paramOffset + 2}`}
+        ORDER BY ${orderSql}
+        LIMIT $${paramOffset + 1}${useCursor || useKeyset ? '' : ` OFFSET $${paramOffset + 2}`}
       `;
 
-      const dataParams = useCursor
-        ? [...params, limit]
-        : [...params, limit, offset];
+      const dataParams = useKeyset
+        ? [...params, limit + 1]
+        : useCursor ? [...params, limit] : [...params, limit, offset];
 
       const dataResult = await client.query(dataSql, dataParams);
 
+      if (useKeyset) {
+        // Keyset pagination response — no total count
+        return keysetPage(dataResult.rows.map(serializeRow), limit, keysetOrder, cursor);
+      }
+
       // Build pagination response
       const rows = dataResult.rows.map(serializeRow);
       const lastRow = rows[rows.length - 1];
@@ -226,7 +317,9 @@ export function registerDataRoutes(app: FastifyInstance, pool: pg.Pool): void {
       }
       // Handle missing table (event not enabled) gracefully
       if ((err as { code?: string })?.code === '42P01') {
-        return { data: [], pagination: { limit, offset, total: 0 } };
+        return useKeyset
+          ? { data: [], pagination: { limit, has_more: false, next_cursor: null, prev_cursor: null } }
+          : { data: [], pagination: { limit, offset, total: 0 } };
       }
       throw err;
     }
@@ -243,7 +336,7 @@ export function registerDataRoutes(app: FastifyInstance, pool: pg.Pool): void {
 
     try {
       const { tableName, knownFields, numericFields } = await resolveTable(pool, auth.userId, program, event);
-      const { whereClauses, params } = buildWhereClause(query, knownFields, numericFields);
+      const { whereClauses, params } = buildFilterClauses(query, { known: knownFields, numeric: numericFields });
 
       const sql = `
         SELECT COUNT(*) as total FROM ${tableName}
@@ -263,6 +356,77 @@ export function registerDataRoutes(app: FastifyInstance, pool: pg.Pool): void {
     }
   });
 
+  // -----------------------------------------------------------------------
+  // GET /api/v1/data/:program/:event/aggregate — Time-bucketed aggregates
+  //
+  // ?bucket=1h&group_by=mint&sum=amount&avg=price&from=&to= plus any filters.
+  // Guarded by a window of at most MAX_BUCKETS buckets, the planner's row
+  // estimate and a statement timeout.
+  // -----------------------------------------------------------------------
+  app.get('/api/v1/data/:program/:event/aggregate', { preHandler: preHandlers }, async (request, reply) => {
+    const auth = request.authPayload!;
+    const client = request.schemaClient!;
+    const { program, event } = request.params as { program: string; event: string };
+    const query = request.query as Record<string, string>;
+
+    try {
+      const { tableName, knownFields, numericFields, kind } = await resolveTable(pool, auth.userId, program, event);
+      if (kind === 'account') {
+        throw new ValidationError('Aggregation is only supported on event and instruction tables');
+      }
+
+      const fields = { known: knownFields, numeric: numericFields };
+      const aggregate = parseAggregateRequest(query, fields);
+      const filters = aggregateFilters(query, fields, aggregate);
+
+      // Reject scans the planner expects to be too large before running them
+      const explain = await client.query(
+        `EXPLAIN (FORMAT JSON) SELECT 1 FROM ${tableName} WHERE ${filters.whereClauses.join(' AND ')}`,
+        filters.params
+      );
+      const estimatedRows = Number(explain.rows[0]['QUERY PLAN'][0].Plan['Plan Rows']);
+      if (estimatedRows > MAX_AGGREGATE_SCAN_ROWS) {
+        throw new ValidationError(
+          `Aggregation would scan about ${estimatedRows} rows; the maximum is ${MAX_AGGREGATE_SCAN_ROWS} — narrow the time range or add filters`,
+          { estimatedRows, maxScanRows: MAX_AGGREGATE_SCAN_ROWS }
+        );
+      }
+
+      const { sql, params } = buildAggregateQuery(tableName, aggregate, filters, MAX_AGGREGATE_RESULT_ROWS + 1);
+      let rows: Record<string, unknown>[];
+      await client.query('BEGIN');
+      try {
+        await client.query(`SET LOCAL statement_timeout = ${AGGREGATE_TIMEOUT_MS}`);
+        rows = (await client.query(sql, params)).rows;
+        await client.query('COMMIT');
+      } catch (err) {
+        await client.query('ROLLBACK');
+        if ((err as { code?: string })?.code === '57014') {
+          throw new ValidationError('Aggregation timed out — narrow the time range or add filters');
+        }
+        throw err;
+      }
+
+      return {
+        bucket: aggregate.bucket,
+        from: aggregate.from.toISOString(),
+        to: aggregate.to.toISOString(),
+        groupBy: aggregate.groupBy,
+        data: rows.slice(0, MAX_AGGREGATE_RESULT_ROWS).map(serializeRow),
+        truncated: rows.length > MAX_AGGREGATE_RESULT_ROWS,
+      };
+    } catch (err) {
+      if (err instanceof AppError) {
+        return reply.status(err.statusCode).send(err.toResponse());
+      }
+      // Handle missing table (event not enabled) gracefully
+      if ((err as { code?: string })?.code === '42P01') {
+        return { data: [], truncated: false };
+      }
+      throw err;
+    }
+  });
+
   // -----------------------------------------------------------------------
   // GET /api/v1/data/:program/:event/:txSignature — Events by transaction
   // -----------------------------------------------------------------------
@@ -274,11 +438,14 @@ export function registerDataRoutes(app: FastifyInstance, pool: pg.Pool): void {
     };
 
     try {
-      const { tableName } = await resolveTable(pool, auth.userId, program, event);
-      const result = await client.query(
-        `SELECT * FROM ${tableName} WHERE tx_signature = $1 ORDER BY ix_index`,
-        [txSignature]
-      );
+      const { tableName, kind } = await resolveTable(pool, auth.userId, program, event);
+      // Account state tables are keyed by pubkey rather than by transaction
+      const sql = kind === 'account'
+        ? `SELECT * FROM ${tableName} WHERE pubkey = $1 ORDER BY slot DESC`
+        : kind === 'event'
+          ? `SELECT * FROM ${tableName} WHERE tx_signature = $1 ORDER BY ix_index, inner_ix_index NULLS FIRST, event_index`
+          : `SELECT * FROM ${tableName} WHERE tx_signature = $1 ORDER BY ix_index`;
+      const result = await client.query(sql, [txSignature]);
       return { data: result.rows.map(serializeRow) };
     } catch (err) {
       if (err instanceof AppError) {
@@ -374,222 +541,17 @@ export function registerDataRoutes(app: FastifyInstance, pool: pg.Pool): void {
 // Helpers
 // =============================================================================
 
-/** Metadata about a resolved table's fields */
-export interface ResolvedTable {
-  tableName: string;
-  knownFields: Set<string>;
-  validOrderColumns: Set<string>;
-  /** Set of field names that are numeric (support range operators) */
-  numericFields: Set<string>;
-  /** Full parsed field details for schema introspection */
-  fieldDetails: ParsedField[];
-}
-
-/**
- * Resolves a program + event name to a table name and field metadata.
- * Looks up the user's program in the DB and parses the stored IDL.
- */
-export async function resolveTable(
-  pool: pg.Pool,
-  userId: string,
-  programName: string,
-  eventName: string
-): Promise<ResolvedTable> {
-  // Find the user's program by name
-  const result = await pool.query(
-    `SELECT idl, name FROM user_programs WHERE user_id = $1 AND name = $2 AND status != 'archived'`,
-    [userId, programName]
-  );
-
-  if (result.rows.length === 0) {
-    throw new NotFoundError(`Program '${programName}' not found`);
-  }
-
-  const storedIdl = result.rows[0].idl as Record<string, unknown>;
-
-  // Check if this is an instruction (ends with _ix)
-  const isInstruction = eventName.endsWith('_ix');
-  const actualEventName = isInstruction ? eventName.slice(0, -3) : eventName;
-
-  // Parse the IDL to get field info — use the IDL's program name for table names
-  // because provisionTables() creates tables using parsedIdl.programName (from IDL metadata)
-  const parsedIdl = parseIDL(storedIdl as unknown as AnchorIDL);
-  const idlProgramName = parsedIdl.programName;
-
-  let tableName: string;
-  let fields: string[];
-  let fieldDetails: ParsedField[];
-
-  if (isInstruction) {
-    // Accept both snake_case and original names
-    const instruction = parsedIdl.instructions.find(
-      (ix) => toSnakeCase(ix.name) === actualEventName || ix.name === actualEventName
-    );
-    if (!instruction) {
-      throw new NotFoundError(`Instruction '${eventName}' not found in program '${programName}'`);
-    }
-    tableName = instructionTableName(idlProgramName, instruction.name);
-    fields = [
-      ...instruction.args.map((f) => f.name),
-      ...instruction.accounts.map((a) => toSnakeCase(a)),
-    ];
-    fieldDetails = instruction.args;
-  } else {
-    // Accept both snake_case and original names — try events first, then instructions
-    const event = parsedIdl.events.find(
-      (e) => toSnakeCase(e.name) === eventName || e.name === eventName
-    );
-    if (event) {
-      tableName = eventTableName(idlProgramName, event.name);
-      fields = event.fields.map((f) => f.name);
-      fieldDetails = event.fields;
-    } else {
-      // Fall back to instruction lookup (frontend may omit _ix suffix)
-      const instruction = parsedIdl.instructions.find(
-        (ix) => toSnakeCase(ix.name) === eventName || ix.name === eventName
-      );
-      if (!instruction) {
-        throw new NotFoundError(`Event '${eventName}' not found in program '${programName}'`);
-      }
-      tableName = instructionTableName(idlProgramName, instruction.name);
-      fields = [
-        ...instruction.args.map((f) => f.name),
-        ...instruction.accounts.map((a) => toSnakeCase(a)),
-      ];
-      fieldDetails = instruction.args;
-    }
-  }
-
-  const knownFields = new Set([
-    'slot', 'block_time', 'tx_signature', 'ix_index', 'inner_ix_index',
-    ...fields,
-  ]);
-
-  const validOrderColumns = new Set([
-    'id', 'slot', 'block_time', 'tx_signature', 'indexed_at',
-    ...fields,
-  ]);
-
-  // Determine which fields are numeric (support range operators _gte, _lte, _gt, _lt)
-  const NUMERIC_SQL_TYPES = new Set(['INTEGER', 'BIGINT', 'NUMERIC(39,0)', 'DOUBLE PRECISION']);
-  const numericFields = new Set<string>([
-    'id', 'slot', 'ix_index', 'inner_ix_index', // Built-in numeric metadata fields
-    ...fieldDetails
-      .filter((f) => NUMERIC_SQL_TYPES.has(f.sqlType))
-      .map((f) => f.name),
-  ]);
-
-  return { tableName, knownFields, validOrderColumns, numericFields, fieldDetails };
-}
-
-/** Range operator suffixes for numeric fields (S1.2) */
-const RANGE_SUFFIXES = ['_gte', '_lte', '_gt', '_lt'] as const;
-const RANGE_OPERATORS: Record<string, string> = {
-  '_gte': '>=',
-  '_lte': '<=',
-  '_gt': '>',
-  '_lt': '<',
-};
-
 /**
- * Builds parameterized WHERE clauses from query parameters.
- *
- * S1.2: Supports field-level filtering:
- * - Exact match: ?field=value (strings, booleans, pubkeys)
- * - Range operators: ?field_gte=N, ?field_lte=N, ?field_gt=N, ?field_lt=N (numeric fields)
- *
- * All field names are validated against the known fields whitelist to prevent SQL injection.
+ * Rejects a cursor whose ordering isn't orderable here or differs from an
+ * explicitly requested order_by / order.
  */
-function buildWhereClause(
-  query: Record<string, string>,
-  knownFields: Set<string>,
-  numericFields: Set<string> = new Set()
-): { whereClauses: string[]; params: unknown[] } {
-  const whereClauses: string[] = [];
-  const params: unknown[] = [];
-  let paramIdx = 1;
-
-  // Built-in time range filters
-  if (query.from) {
-    whereClauses.push(`"block_time" >= $${paramIdx++}`);
-    params.push(query.from);
-  }
-  if (query.to) {
-    whereClauses.push(`"block_time" <= $${paramIdx++}`);
-    params.push(query.to);
-  }
-  if (query.slotFrom) {
-    whereClauses.push(`"slot" >= $${paramIdx++}`);
-    params.push(parseInt(query.slotFrom, 10));
-  }
-  if (query.slotTo) {
-    whereClauses.push(`"slot" <= $${paramIdx++}`);
-    params.push(parseInt(query.slotTo, 10));
-  }
-
-  // S1.2 — Field-level filtering (exact match + range operators)
-  for (const [key, value] of Object.entries(query)) {
-    if (RESERVED_PARAMS.has(key)) continue;
-    // Skip built-in time range params
-    if (['from', 'to', 'slotFrom', 'slotTo'].includes(key)) continue;
-
-    // Check for range operator suffix (e.g., sol_amount_gte)
-    let matchedRange = false;
-    for (const suffix of RANGE_SUFFIXES) {
-      if (key.endsWith(suffix)) {
-        const baseKey = key.slice(0, -suffix.length);
-        const snakeKey = toSnakeCase(baseKey);
-        if (knownFields.has(snakeKey) && numericFields.has(snakeKey)) {
-          const op = RANGE_OPERATORS[suffix];
-          whereClauses.push(`${quoteIdent(snakeKey)} ${op} $${paramIdx++}`);
-          params.push(parseNumericValue(value));
-          matchedRange = true;
-        }
-        break;
-      }
-    }
-    if (matchedRange) continue;
-
-    // Exact match filter
-    const snakeKey = toSnakeCase(key);
-    if (knownFields.has(snakeKey)) {
-      // Parse boolean values
-      if (value === 'true' || value === 'false') {
-        whereClauses.push(`${quoteIdent(snakeKey)} = $${paramIdx++}`);
-        params.push(value === 'true');
-      } else {
-        whereClauses.push(`${quoteIdent(snakeKey)} = $${paramIdx++}`);
-        params.push(value);
-      }
-    }
+function checkCursorOrder(cursor: Cursor, query: Record<string, string>, validOrderColumns: Set<string>): void {
+  const requestedOrderBy = query.order_by || query.orderBy;
+  const requestedOrder = query.order ? (query.order === 'asc' ? 'ASC' : 'DESC') : undefined;
+  if (!validOrderColumns.has(cursor.orderBy)) {
+    throw new ValidationError('Invalid cursor');
   }
-
-  return { whereClauses, params };
-}
-
-/**
- * Parses a numeric value from a query string, handling both integers and decimals.
- */
-function parseNumericValue(value: string): number | string {
-  // For very large numbers (u64, u128), keep as string for Postgres NUMERIC/BIGINT
-  if (value.length > 15) return value;
-  const num = Number(value);
-  return isNaN(num) ? value : num;
-}
-
-/**
- * Serializes a database row for JSON response.
- */
-function serializeRow(row: Record<string, unknown>): Record<string, unknown> {
-  const serialized: Record<string, unknown> = {};
-  for (const [key, value] of Object.entries(row)) {
-    if (typeof value === 'bigint') {
-      serialized[key] = value.toString();
-    } else if (value instanceof Date) {
-      serialized[key] = value.toISOString();
-    } else {
-      serialized[key] = value;
-    }
+  if ((requestedOrderBy && requestedOrderBy !== cursor.orderBy) || (requestedOrder && requestedOrder !== cursor.order)) {
+    throw new ValidationError('cursor was issued for a different order_by or order — drop them or start over');
   }
-  return serialized;
 }
@@ -0,0 +1,160 @@
+/**
+ * Uho — Export Routes
+ *
+ * Bulk data exports under /api/v1/exports/*: start an export job, poll its
+ * progress and download the file once it completes.
+ */
+
+import type { FastifyInstance } from 'fastify';
+import type { ExportService } from '../services/export-service.js';
+import type { ExportRecord } from '../core/types.js';
+import { authMiddleware } from '../middleware/auth.js';
+import { AppError } from '../core/errors.js';
+
+// =============================================================================
+// Route Registration
+// =============================================================================
+
+/**
+ * Registers the export routes.
+ *
+ * @param baseUrl - Public API URL download links are built on
+ */
+export function registerExportRoutes(
+  app: FastifyInstance,
+  exportService: ExportService,
+  baseUrl: string
+): void {
+  // -----------------------------------------------------------------------
+  // POST /api/v1/exports — Start an export
+  // -----------------------------------------------------------------------
+  app.post('/api/v1/exports', { preHandler: authMiddleware }, async (request, reply) => {
+    const auth = request.authPayload!;
+    const body = request.body as {
+      program?: string;
+      event?: string;
+      format?: string;
+      filters?: unknown;
+    } | null;
+
+    if (!body?.program || !body?.event || !body?.format) {
+      return reply.status(422).send({
+        error: { code: 'VALIDATION_ERROR', message: 'program, event and format are required' },
+      });
+    }
+
+    try {
+      const record = await exportService.create(auth.userId, auth.schemaName, {
+        program: body.program,
+        event: body.event,
+        format: body.format,
+        filters: body.filters,
+      });
+      return reply.status(202).send(formatExport(record, baseUrl));
+    } catch (err) {
+      if (err instanceof AppError) {
+        return reply.status(err.statusCode).send(err.toResponse());
+      }
+      throw err;
+    }
+  });
+
+  // -----------------------------------------------------------------------
+  // GET /api/v1/exports — List recent exports
+  // -----------------------------------------------------------------------
+  app.get('/api/v1/exports', { preHandler: authMiddleware }, async (request) => {
+    const auth = request.authPayload!;
+    const exports = await exportService.list(auth.userId);
+    return { data: exports.map((e) => formatExport(e, baseUrl)) };
+  });
+
+  // -----------------------------------------------------------------------
+  // GET /api/v1/exports/:id — Export status and progress
+  // -----------------------------------------------------------------------
+  app.get('/api/v1/exports/:id', { preHandler: authMiddleware }, async (request, reply) => {
+    const auth = request.authPayload!;
+    const { id } = request.params as { id: string };
+
+    try {
+      return formatExport(await exportService.get(auth.userId, id), baseUrl);
+    } catch (err) {
+      if (err instanceof AppError) {
+        return reply.status(err.statusCode).send(err.toResponse());
+      }
+      throw err;
+    }
+  });
+
+  // -----------------------------------------------------------------------
+  // GET /api/v1/exports/:id/download — Download a completed export
+  // Streams local files; redirects to a presigned URL for S3 stores.
+  // -----------------------------------------------------------------------
+  app.get('/api/v1/exports/:id/download', { preHandler: authMiddleware }, async (request, reply) => {
+    const auth = request.authPayload!;
+    const { id } = request.params as { id: string };
+
+    try {
+      const download = await exportService.download(auth.userId, id);
+      if ('url' in download) {
+        return reply.redirect(download.url);
+      }
+      return reply
+        .header('Content-Type', download.contentType)
+        .header('Content-Disposition', `attachment; filename="${download.filename}"`)
+        .send(download.stream);
+    } catch (err) {
+      if (err instanceof AppError) {
+        return reply.status(err.statusCode).send(err.toResponse());
+      }
+      throw err;
+    }
+  });
+
+  // -----------------------------------------------------------------------
+  // DELETE /api/v1/exports/:id — Cancel or delete an export
+  // -----------------------------------------------------------------------
+  app.delete('/api/v1/exports/:id', { preHandler: authMiddleware }, async (request, reply) => {
+    const auth = request.authPayload!;
+    const { id } = request.params as { id: string };
+
+    try {
+      await exportService.delete(auth.userId, id);
+      return { message: 'Export deleted' };
+    } catch (err) {
+      if (err instanceof AppError) {
+        return reply.status(err.statusCode).send(err.toResponse());
+      }
+      throw err;
+    }
+  });
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Formats an export for API responses, with progress and a download link.
+ */
+function formatExport(record: ExportRecord, baseUrl: string) {
+  return {
+    id: record.id,
+    program: record.programName,
+    event: record.eventName,
+    format: record.format,
+    filters: record.filters,
+    status: record.status,
+    progress: record.status === 'completed'
+      ? 1
+      : record.totalRows ? Math.min(record.rowsExported / record.totalRows, 1) : 0,
+    rowsExported: record.rowsExported,
+    totalRows: record.totalRows,
+    sizeBytes: record.sizeBytes,
+    error: record.error,
+    downloadUrl: record.status === 'completed' ? `${baseUrl}/api/v1/exports/${record.id}/download` : null,
+    expiresAt: record.expiresAt ? record.expiresAt.toISOString() : null,
+    createdAt: record.createdAt.toISOString(),
+    startedAt: record.startedAt ? record.startedAt.toISOString() : null,
+    completedAt: record.completedAt ? record.completedAt.toISOString() : null,
+  };
+}
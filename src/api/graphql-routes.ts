@@ -0,0 +1,194 @@
+/**
+ * Uho — GraphQL Routes (Platform Mode)
+ *
+ * Serves /api/v1/graphql. The schema is generated per user from their
+ * programs' IDLs (see graphql-schema.ts) and cached until a program or its
+ * enabled events change. Queries run against the user's schema through the
+ * schema middleware's client.
+ */
+
+import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import type pg from 'pg';
+import {
+  parse,
+  validate,
+  execute,
+  specifiedRules,
+  GraphQLError,
+  type GraphQLSchema,
+  type DocumentNode,
+} from 'graphql';
+import { authMiddleware } from '../middleware/auth.js';
+import { schemaMiddleware } from '../middleware/schema.js';
+import { parseIDL } from '../core/idl-parser.js';
+import { applyColumnLayout } from '../core/structured-columns.js';
+import type { AnchorIDL } from '../core/types.js';
+import {
+  buildGraphqlSchema,
+  describeGraphqlTables,
+  depthLimit,
+  MAX_QUERY_DEPTH,
+  TxRowLoader,
+  type GraphqlProgram,
+} from './graphql-schema.js';
+
+/** Cached schemas, by user */
+const schemaCache = new Map<string, { fingerprint: string; schema: GraphQLSchema | null }>();
+const MAX_CACHED_SCHEMAS = 500;
+
+// =============================================================================
+// Route Registration
+// =============================================================================
+
+/**
+ * Registers the GraphQL endpoint. Accepts POST with a JSON body
+ * `{ query, variables?, operationName? }` and GET with the same as query params.
+ */
+export function registerGraphqlRoutes(app: FastifyInstance, pool: pg.Pool): void {
+  const preHandlers = [authMiddleware, schemaMiddleware];
+
+  const handler = async (request: FastifyRequest, reply: FastifyReply) => {
+    const params = request.method === 'GET'
+      ? parseGetParams(request.query as Record<string, string>)
+      : (request.body ?? {}) as GraphqlParams;
+
+    if (typeof params.query !== 'string' || params.query.trim() === '') {
+      return reply.status(400).send({ errors: [{ message: 'Missing query' }] });
+    }
+    if (params.variables instanceof Error) {
+      return reply.status(400).send({ errors: [{ message: 'variables must be a JSON object' }] });
+    }
+
+    const schema = await getUserSchema(pool, request.authPayload!.userId);
+    if (!schema) {
+      return reply.status(400).send({
+        errors: [{ message: 'No enabled events or instructions to query — add a program first' }],
+      });
+    }
+
+    let document: DocumentNode;
+    try {
+      document = parse(params.query);
+    } catch (err) {
+      return reply.status(400).send({ errors: [(err as GraphQLError).toJSON()] });
+    }
+
+    const validationErrors = validate(schema, document, [...specifiedRules, depthLimit(MAX_QUERY_DEPTH)]);
+    if (validationErrors.length > 0) {
+      return reply.status(400).send({ errors: validationErrors.map((e) => e.toJSON()) });
+    }
+
+    const client = request.schemaClient!;
+    const result = await execute({
+      schema,
+      document,
+      variableValues: params.variables ?? undefined,
+      operationName: params.operationName ?? undefined,
+      contextValue: { client, loader: new TxRowLoader(client) },
+    });
+
+    if (result.errors) {
+      for (const error of result.errors) {
+        if (!error.originalError || error.originalError instanceof GraphQLError) continue;
+        console.error('[GraphQL] Resolver error:', error.originalError.message);
+      }
+    }
+
+    return {
+      ...(result.errors ? { errors: result.errors.map(formatError) } : {}),
+      data: result.data ?? null,
+    };
+  };
+
+  app.post('/api/v1/graphql', { preHandler: preHandlers }, handler);
+  app.get('/api/v1/graphql', { preHandler: preHandlers }, handler);
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+interface GraphqlParams {
+  query?: unknown;
+  variables?: Record<string, unknown> | Error | null;
+  operationName?: string | null;
+}
+
+/**
+ * Reads GraphQL params from a GET query string (`variables` is JSON).
+ */
+function parseGetParams(query: Record<string, string>): GraphqlParams {
+  let variables: GraphqlParams['variables'] = null;
+  if (query.variables) {
+    try {
+      variables = JSON.parse(query.variables) as Record<string, unknown>;
+    } catch {
+      variables = new Error('invalid variables');
+    }
+  }
+  return { query: query.query, variables, operationName: query.operationName ?? null };
+}
+
+/**
+ * Hides internal (database) error messages from clients.
+ */
+function formatError(error: GraphQLError) {
+  const json = error.toJSON();
+  if (error.originalError && !(error.originalError instanceof GraphQLError)) {
+    return { ...json, message: 'Internal error resolving this field' };
+  }
+  return json;
+}
+
+/**
+ * Returns the user's GraphQL schema, rebuilding it when their programs or
+ * enabled events changed since it was cached. Null when there is nothing to
+ * query.
+ */
+async function getUserSchema(pool: pg.Pool, userId: string): Promise<GraphQLSchema | null> {
+  const programs = await pool.query(
+    `SELECT up.id, up.updated_at, up.config,
+            COALESCE((
+              SELECT jsonb_agg(jsonb_build_object('name', upe.event_name, 'type', upe.event_type)
+                               ORDER BY upe.event_type, upe.event_name)
+              FROM user_program_events upe
+              WHERE upe.user_program_id = up.id AND upe.enabled = true
+            ), '[]'::jsonb) AS enabled
+     FROM user_programs up
+     WHERE up.user_id = $1 AND up.status != 'archived'
+     ORDER BY up.name`,
+    [userId]
+  );
+
+  const fingerprint = JSON.stringify(programs.rows.map((r) => [r.id, r.updated_at, r.config, r.enabled]));
+  const cached = schemaCache.get(userId);
+  if (cached && cached.fingerprint === fingerprint) return cached.schema;
+
+  const idls = await pool.query(
+    `SELECT id, name, idl FROM user_programs WHERE user_id = $1 AND status != 'archived'`,
+    [userId]
+  );
+  const idlById = new Map(idls.rows.map((r) => [r.id as string, r]));
+
+  const graphqlPrograms: GraphqlProgram[] = [];
+  for (const row of programs.rows) {
+    const idlRow = idlById.get(row.id as string);
+    if (!idlRow) continue;
+    graphqlPrograms.push({
+      name: idlRow.name as string,
+      parsedIdl: applyColumnLayout(parseIDL(idlRow.idl as AnchorIDL), row.config),
+      enabled: row.enabled as GraphqlProgram['enabled'],
+    });
+  }
+  const tokenTransfers = programs.rows.some((r) => r.config?.tokenTransfers === true);
+
+  const schema = buildGraphqlSchema(describeGraphqlTables(graphqlPrograms, tokenTransfers));
+
+  // Evict the oldest entry once full (Map iterates in insertion order)
+  schemaCache.delete(userId);
+  if (schemaCache.size >= MAX_CACHED_SCHEMAS) {
+    schemaCache.delete(schemaCache.keys().next().value!);
+  }
+  schemaCache.set(userId, { fingerprint, schema });
+  return schema;
+}
@@ -0,0 +1,598 @@
+/**
+ * Uho — GraphQL Schema
+ *
+ * Builds a per-user GraphQL schema from the user's program IDLs. Every enabled
+ * event and instruction table, plus `_token_transfers`, becomes an object type
+ * with:
+ * - a root connection field (`{program}_{event}`, `{program}_{instruction}_ix`,
+ *   `token_transfers`) paginated by cursor over `id`
+ * - a `{Type}Filter` input with exact-match fields and the `_gte/_lte/_gt/_lt`
+ *   range operators of the REST data routes
+ * - a list field per table returning that table's rows from the same
+ *   transaction (joined by `tx_signature`)
+ *
+ * Resolvers query through the request's schema-scoped client.
+ */
+
+import {
+  GraphQLSchema,
+  GraphQLObjectType,
+  GraphQLInputObjectType,
+  GraphQLEnumType,
+  GraphQLScalarType,
+  GraphQLList,
+  GraphQLNonNull,
+  GraphQLString,
+  GraphQLInt,
+  GraphQLFloat,
+  GraphQLBoolean,
+  GraphQLID,
+  GraphQLError,
+  Kind,
+  type GraphQLFieldConfigMap,
+  type GraphQLInputFieldConfigMap,
+  type GraphQLOutputType,
+  type ValidationContext,
+  type ASTVisitor,
+  type SelectionSetNode,
+  type ValueNode,
+} from 'graphql';
+import type pg from 'pg';
+import { toSnakeCase } from '../core/idl-parser.js';
+import {
+  eventTableName,
+  instructionTableName,
+  quoteIdent,
+} from '../core/schema-generator.js';
+import type { ParsedIDL, ParsedField } from '../core/types.js';
+import { serializeRow } from '../core/serialize.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** A user program as seen by the GraphQL schema */
+export interface GraphqlProgram {
+  /** User-facing program name (as in /api/v1/data/{program}) */
+  name: string;
+  parsedIdl: ParsedIDL;
+  /** Enabled event and instruction names */
+  enabled: Array<{ name: string; type: string }>;
+}
+
+/** A column exposed on a GraphQL type */
+interface GraphqlColumn {
+  name: string;
+  sqlType: string;
+  nullable: boolean;
+}
+
+/** A queryable table and the GraphQL names it is exposed under */
+export interface GraphqlTable {
+  /** Root and relation field name */
+  fieldName: string;
+  typeName: string;
+  /** Schema-relative, quoted table name */
+  tableName: string;
+  columns: GraphqlColumn[];
+}
+
+/** Per-request execution context */
+export interface GraphqlContext {
+  client: pg.PoolClient;
+  loader: TxRowLoader;
+}
+
+/** Default and maximum page size of root connections */
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 1000;
+
+/** Maximum selection depth — relations can otherwise nest without bound */
+export const MAX_QUERY_DEPTH = 8;
+
+/** SQL column types that support range operators */
+const RANGE_SQL_TYPES = new Set([
+  'INTEGER', 'BIGINT', 'BIGSERIAL', 'NUMERIC(20,0)', 'NUMERIC(39,0)', 'DOUBLE PRECISION', 'TIMESTAMPTZ',
+]);
+
+/** Range operator suffixes, as in the REST data routes */
+const RANGE_OPERATORS: Record<string, string> = {
+  '_gte': '>=',
+  '_lte': '<=',
+  '_gt': '>',
+  '_lt': '<',
+};
+
+/** Valid GraphQL names (leading `__` is reserved for introspection) */
+const NAME_RE = /^[A-Za-z][_0-9A-Za-z]*$/;
+
+// =============================================================================
+// Tables
+// =============================================================================
+
+/** Metadata columns of event tables, before the IDL fields */
+const EVENT_METADATA_COLUMNS: GraphqlColumn[] = [
+  { name: 'id', sqlType: 'BIGSERIAL', nullable: false },
+  { name: 'slot', sqlType: 'BIGINT', nullable: false },
+  { name: 'block_time', sqlType: 'TIMESTAMPTZ', nullable: true },
+  { name: 'tx_signature', sqlType: 'TEXT', nullable: false },
+  { name: 'ix_index', sqlType: 'INTEGER', nullable: false },
+  { name: 'inner_ix_index', sqlType: 'INTEGER', nullable: true },
+  { name: 'event_index', sqlType: 'INTEGER', nullable: false },
+  { name: 'invoking_program', sqlType: 'TEXT', nullable: true },
+  { name: 'cpi_path', sqlType: 'TEXT[]', nullable: true },
+];
+
+/** Metadata columns of instruction tables, before the args and accounts */
+const INSTRUCTION_METADATA_COLUMNS: GraphqlColumn[] = [
+  { name: 'id', sqlType: 'BIGSERIAL', nullable: false },
+  { name: 'slot', sqlType: 'BIGINT', nullable: false },
+  { name: 'block_time', sqlType: 'TIMESTAMPTZ', nullable: true },
+  { name: 'tx_signature', sqlType: 'TEXT', nullable: false },
+  { name: 'ix_index', sqlType: 'INTEGER', nullable: false },
+];
+
+/** Trailing metadata columns of every table */
+const TRAILING_COLUMNS: GraphqlColumn[] = [
+  { name: 'commitment', sqlType: 'TEXT', nullable: false },
+  { name: 'indexed_at', sqlType: 'TIMESTAMPTZ', nullable: true },
+];
+
+const TOKEN_TRANSFERS_TABLE: GraphqlTable = {
+  fieldName: 'token_transfers',
+  typeName: 'TokenTransfer',
+  tableName: '_token_transfers',
+  columns: [
+    { name: 'id', sqlType: 'BIGSERIAL', nullable: false },
+    { name: 'program_id', sqlType: 'TEXT', nullable: false },
+    { name: 'instruction_type', sqlType: 'TEXT', nullable: false },
+    { name: 'source', sqlType: 'TEXT', nullable: false },
+    { name: 'destination', sqlType: 'TEXT', nullable: false },
+    { name: 'authority', sqlType: 'TEXT', nullable: false },
+    { name: 'mint', sqlType: 'TEXT', nullable: true },
+    { name: 'amount', sqlType: 'NUMERIC(39,0)', nullable: false },
+    { name: 'decimals', sqlType: 'INTEGER', nullable: true },
+    { name: 'slot', sqlType: 'BIGINT', nullable: false },
+    { name: 'block_time', sqlType: 'TIMESTAMPTZ', nullable: true },
+    { name: 'tx_signature', sqlType: 'TEXT', nullable: false },
+    { name: 'ix_index', sqlType: 'INTEGER', nullable: false },
+    { name: 'inner_ix_index', sqlType: 'INTEGER', nullable: true },
+    ...TRAILING_COLUMNS,
+  ],
+};
+
+/**
+ * Lists the tables a user's GraphQL schema exposes: each program's enabled
+ * events and instructions, and `_token_transfers` when tracked.
+ */
+export function describeGraphqlTables(programs: GraphqlProgram[], tokenTransfers: boolean): GraphqlTable[] {
+  const tables: GraphqlTable[] = [];
+  const fieldNames = new Set<string>();
+  const typeNames = new Set(['Query', 'PageInfo', 'OrderDirection', 'JSON']);
+
+  // Skips tables whose field or generated type names are invalid or taken
+  const add = (table: GraphqlTable) => {
+    const types = ['', 'Connection', 'Edge', 'Filter'].map((suffix) => `${table.typeName}${suffix}`);
+    if (!NAME_RE.test(table.fieldName) || fieldNames.has(table.fieldName)) return;
+    if (types.some((t) => typeNames.has(t))) return;
+    fieldNames.add(table.fieldName);
+    for (const t of types) typeNames.add(t);
+    tables.push(table);
+  };
+
+  if (tokenTransfers) add(TOKEN_TRANSFERS_TABLE);
+
+  for (const program of programs) {
+    const { parsedIdl } = program;
+    const enabled = (type: string, name: string) =>
+      program.enabled.some((e) => e.type === type && e.name === name);
+
+    for (const event of parsedIdl.events) {
+      if (!enabled('event', event.name)) continue;
+      const fieldName = `${program.name}_${toSnakeCase(event.name)}`;
+      add({
+        fieldName,
+        typeName: typeNameFor(fieldName),
+        tableName: eventTableName(parsedIdl.programName, event.name),
+        columns: withColumns(EVENT_METADATA_COLUMNS, event.fields.map((f) => ({ ...f, nullable: true }))),
+      });
+    }
+
+    for (const ix of parsedIdl.instructions) {
+      if (!enabled('instruction', ix.name)) continue;
+      const fieldName = `${program.name}_${toSnakeCase(ix.name)}_ix`;
+      add({
+        fieldName,
+        typeName: typeNameFor(fieldName),
+        tableName: instructionTableName(parsedIdl.programName, ix.name),
+        columns: withColumns(INSTRUCTION_METADATA_COLUMNS, [
+          ...ix.args,
+          ...ix.accounts.map((a) => ({ name: a, type: 'pubkey', sqlType: 'TEXT', nullable: false })),
+        ]),
+      });
+    }
+  }
+
+  return tables;
+}
+
+/**
+ * Appends IDL fields to metadata columns, skipping names already taken and
+ * names GraphQL can't represent.
+ */
+function withColumns(metadata: GraphqlColumn[], fields: ParsedField[]): GraphqlColumn[] {
+  const columns = [...metadata];
+  const names = new Set([...metadata, ...TRAILING_COLUMNS].map((c) => c.name));
+  for (const field of fields) {
+    const name = toSnakeCase(field.name);
+    if (names.has(name) || !NAME_RE.test(name)) continue;
+    names.add(name);
+    columns.push({ name, sqlType: field.sqlType, nullable: field.nullable });
+  }
+  return [...columns, ...TRAILING_COLUMNS];
+}
+
+/** `pump_fun_trade_event` → `PumpFunTradeEvent` */
+function typeNameFor(fieldName: string): string {
+  return fieldName
+    .split('_')
+    .filter(Boolean)
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join('');
+}
+
+// =============================================================================
+// Scalars
+// =============================================================================
+
+/** Arbitrary JSON, for JSONB columns */
+export const GraphQLJSON = new GraphQLScalarType({
+  name: 'JSON',
+  description: 'Arbitrary JSON value (JSONB columns)',
+  serialize: (value) => value,
+  parseValue: (value) => value,
+  parseLiteral: function parseLiteral(ast: ValueNode): unknown {
+    switch (ast.kind) {
+      case Kind.STRING:
+      case Kind.BOOLEAN:
+        return ast.value;
+      case Kind.INT:
+      case Kind.FLOAT:
+        return Number(ast.value);
+      case Kind.LIST:
+        return ast.values.map(parseLiteral);
+      case Kind.OBJECT:
+        return Object.fromEntries(ast.fields.map((f) => [f.name.value, parseLiteral(f.value)]));
+      default:
+        return null;
+    }
+  },
+});
+
+/**
+ * GraphQL type of a column. 64-bit and larger integers are strings, as in
+ * the REST API.
+ */
+function scalarFor(sqlType: string): GraphQLScalarType {
+  switch (sqlType) {
+    case 'BIGSERIAL':
+      return GraphQLID;
+    case 'INTEGER':
+      return GraphQLInt;
+    case 'DOUBLE PRECISION':
+      return GraphQLFloat;
+    case 'BOOLEAN':
+      return GraphQLBoolean;
+    case 'JSONB':
+      return GraphQLJSON;
+    default:
+      return GraphQLString;
+  }
+}
+
+function outputTypeFor(column: GraphqlColumn): GraphQLOutputType {
+  const base = column.sqlType === 'TEXT[]' ? new GraphQLList(new GraphQLNonNull(GraphQLString)) : scalarFor(column.sqlType);
+  return column.nullable ? base : new GraphQLNonNull(base);
+}
+
+/** Whether a column can be filtered on (JSON and array columns can't) */
+function isFilterable(column: GraphqlColumn): boolean {
+  return column.sqlType !== 'JSONB' && column.sqlType !== 'TEXT[]';
+}
+
+// =============================================================================
+// Schema
+// =============================================================================
+
+const OrderDirection = new GraphQLEnumType({
+  name: 'OrderDirection',
+  values: { ASC: { value: 'ASC' }, DESC: { value: 'DESC' } },
+});
+
+const PageInfo = new GraphQLObjectType({
+  name: 'PageInfo',
+  fields: {
+    hasNextPage: { type: new GraphQLNonNull(GraphQLBoolean) },
+    endCursor: { type: GraphQLString },
+  },
+});
+
+/**
+ * Builds the GraphQL schema for a set of tables. Returns null when there are
+ * no tables (a schema needs at least one query field).
+ */
+export function buildGraphqlSchema(tables: GraphqlTable[]): GraphQLSchema | null {
+  if (tables.length === 0) return null;
+
+  const objectTypes = new Map<string, GraphQLObjectType>();
+
+  for (const table of tables) {
+    objectTypes.set(table.fieldName, new GraphQLObjectType<Record<string, unknown>, GraphqlContext>({
+      name: table.typeName,
+      fields: () => {
+        const fields: GraphQLFieldConfigMap<Record<string, unknown>, GraphqlContext> = {};
+        for (const column of table.columns) {
+          fields[column.name] = { type: outputTypeFor(column) };
+        }
+        // Relations: rows of every table from the same transaction
+        for (const related of tables) {
+          if (fields[related.fieldName]) continue;
+          fields[related.fieldName] = {
+            type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(objectTypes.get(related.fieldName)!))),
+            description: `${related.typeName} rows from the same transaction`,
+            resolve: (row, _args, ctx) => ctx.loader.load(related.tableName, row.tx_signature as string),
+          };
+        }
+        return fields;
+      },
+    }));
+  }
+
+  const queryFields: GraphQLFieldConfigMap<unknown, GraphqlContext> = {};
+
+  for (const table of tables) {
+    const node = objectTypes.get(table.fieldName)!;
+
+    const connection = new GraphQLObjectType({
+      name: `${table.typeName}Connection`,
+      fields: {
+        edges: {
+          type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(new GraphQLObjectType({
+            name: `${table.typeName}Edge`,
+            fields: {
+              cursor: { type: new GraphQLNonNull(GraphQLString) },
+              node: { type: new GraphQLNonNull(node) },
+            },
+          })))),
+        },
+        nodes: { type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(node))) },
+        pageInfo: { type: new GraphQLNonNull(PageInfo) },
+      },
+    });
+
+    const filterFields: GraphQLInputFieldConfigMap = {};
+    for (const column of table.columns.filter(isFilterable)) {
+      const type = scalarFor(column.sqlType);
+      filterFields[column.name] = { type };
+      if (RANGE_SQL_TYPES.has(column.sqlType)) {
+        for (const suffix of Object.keys(RANGE_OPERATORS)) {
+          filterFields[`${column.name}${suffix}`] = { type };
+        }
+      }
+    }
+    const filter = new GraphQLInputObjectType({ name: `${table.typeName}Filter`, fields: filterFields });
+
+    queryFields[table.fieldName] = {
+      type: new GraphQLNonNull(connection),
+      args: {
+        where: { type: filter },
+        first: { type: GraphQLInt, defaultValue: DEFAULT_PAGE_SIZE },
+        after: { type: GraphQLString, description: 'Cursor (row id) to continue after' },
+        order: { type: OrderDirection, defaultValue: 'DESC' },
+      },
+      resolve: (_source, args, ctx) => resolveConnection(ctx.client, table, args),
+    };
+  }
+
+  return new GraphQLSchema({
+    query: new GraphQLObjectType({ name: 'Query', fields: queryFields }),
+  });
+}
+
+// =============================================================================
+// Resolvers
+// =============================================================================
+
+interface ConnectionArgs {
+  where?: Record<string, unknown> | null;
+  first?: number | null;
+  after?: string | null;
+  order?: 'ASC' | 'DESC';
+}
+
+/**
+ * Resolves a root connection: one page of rows ordered by id, fetching one
+ * extra row to tell whether there is a next page.
+ */
+async function resolveConnection(client: pg.PoolClient, table: GraphqlTable, args: ConnectionArgs) {
+  const first = Math.min(Math.max(args.first ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+  const order = args.order === 'ASC' ? 'ASC' : 'DESC';
+  const { whereClauses, params } = buildFilter(table, args.where ?? {});
+
+  if (args.after !== undefined && args.after !== null) {
+    if (!/^\d+$/.test(args.after)) throw new GraphQLError('after must be a cursor returned by this field');
+    params.push(args.after);
+    whereClauses.push(`"id" ${order === 'ASC' ? '>' : '<'} $${params.length}`);
+  }
+  params.push(first + 1);
+
+  const sql = `
+    SELECT * FROM ${table.tableName}
+    ${whereClauses.length > 0 ? 'WHERE ' + whereClauses.join(' AND ') : ''}
+    ORDER BY "id" ${order}
+    LIMIT $${params.length}
+  `;
+
+  const rows = await queryRows(client, sql, params);
+  const page = rows.slice(0, first);
+  const endCursor = page.length > 0 ? String(page[page.length - 1].id) : null;
+
+  return {
+    edges: page.map((row) => ({ cursor: String(row.id), node: row })),
+    nodes: page,
+    pageInfo: { hasNextPage: rows.length > first, endCursor },
+  };
+}
+
+/**
+ * Builds parameterized WHERE clauses from a filter input. Keys come from the
+ * generated input type, so they are known columns or column + range suffix.
+ */
+export function buildFilter(
+  table: GraphqlTable,
+  where: Record<string, unknown>
+): { whereClauses: string[]; params: unknown[] } {
+  const whereClauses: string[] = [];
+  const params: unknown[] = [];
+  const columns = new Set(table.columns.map((c) => c.name));
+
+  for (const [key, value] of Object.entries(where)) {
+    if (value === undefined) continue;
+
+    const suffix = Object.keys(RANGE_OPERATORS).find((s) => key.endsWith(s) && columns.has(key.slice(0, -s.length)));
+    const column = suffix ? key.slice(0, -suffix.length) : key;
+    if (!columns.has(column)) continue;
+
+    if (value === null) {
+      if (!suffix) whereClauses.push(`${quoteIdent(column)} IS NULL`);
+      continue;
+    }
+    params.push(value);
+    whereClauses.push(`${quoteIdent(column)} ${suffix ? RANGE_OPERATORS[suffix] : '='} $${params.length}`);
+  }
+
+  return { whereClauses, params };
+}
+
+/**
+ * Runs a query and serializes its rows. Tables of definitions enabled after
+ * the last provisioning may not exist yet; they read as empty.
+ */
+async function queryRows(
+  client: pg.PoolClient,
+  sql: string,
+  params: unknown[]
+): Promise<Array<Record<string, unknown>>> {
+  try {
+    const result = await client.query(sql, params);
+    return result.rows.map(serializeRow);
+  } catch (err) {
+    if ((err as { code?: string })?.code === '42P01') return [];
+    throw err;
+  }
+}
+
+// =============================================================================
+// Relation Loader
+// =============================================================================
+
+/**
+ * Batches relation lookups: every `tx_signature` requested from a table while
+ * a level of the query resolves is fetched with one query.
+ */
+export class TxRowLoader {
+  private pending = new Map<string, PendingLoad[]>();
+  private scheduled = false;
+
+  constructor(private client: pg.PoolClient) {}
+
+  /**
+   * Loads a table's rows for a transaction, ordered by id.
+   */
+  load(tableName: string, txSignature: string): Promise<Array<Record<string, unknown>>> {
+    return new Promise((resolve, reject) => {
+      const loads = this.pending.get(tableName) ?? [];
+      loads.push({ txSignature, resolve, reject });
+      this.pending.set(tableName, loads);
+
+      if (!this.scheduled) {
+        this.scheduled = true;
+        setImmediate(() => this.flush());
+      }
+    });
+  }
+
+  private flush(): void {
+    const batches = this.pending;
+    this.pending = new Map();
+    this.scheduled = false;
+
+    for (const [tableName, loads] of batches) {
+      const signatures = [...new Set(loads.map((l) => l.txSignature))];
+      queryRows(
+        this.client,
+        `SELECT * FROM ${tableName} WHERE "tx_signature" = ANY($1) ORDER BY "id"`,
+        [signatures]
+      ).then(
+        (rows) => {
+          for (const load of loads) load.resolve(rows.filter((r) => r.tx_signature === load.txSignature));
+        },
+        (err) => {
+          for (const load of loads) load.reject(err);
+        }
+      );
+    }
+  }
+}
+
+interface PendingLoad {
+  txSignature: string;
+  resolve: (rows: Array<Record<string, unknown>>) => void;
+  reject: (err: unknown) => void;
+}
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+/**
+ * Validation rule rejecting operations nested deeper than `maxDepth` fields.
+ */
+export function depthLimit(maxDepth: number) {
+  return (context: ValidationContext): ASTVisitor => {
+    const fragments = new Map(
+      context.getDocument().definitions
+        .filter((d) => d.kind === Kind.FRAGMENT_DEFINITION)
+        .map((d) => [d.name.value, d.selectionSet])
+    );
+
+    const depthOf = (selectionSet: SelectionSetNode, visited: Set<string>): number => {
+      let max = 0;
+      for (const selection of selectionSet.selections) {
+        if (selection.kind === Kind.FIELD) {
+          max = Math.max(max, 1 + (selection.selectionSet ? depthOf(selection.selectionSet, visited) : 0));
+        } else if (selection.kind === Kind.INLINE_FRAGMENT) {
+          max = Math.max(max, depthOf(selection.selectionSet, visited));
+        } else {
+          const name = selection.name.value;
+          const fragment = fragments.get(name);
+          if (!fragment || visited.has(name)) continue;
+          max = Math.max(max, depthOf(fragment, new Set([...visited, name])));
+        }
+      }
+      return max;
+    };
+
+    return {
+      OperationDefinition(node) {
+        const depth = depthOf(node.selectionSet, new Set());
+        if (depth > maxDepth) {
+          context.reportError(new GraphQLError(
+            `Query depth ${depth} exceeds the maximum of ${maxDepth}`,
+            { nodes: [node] }
+          ));
+        }
+      },
+    };
+  };
+}
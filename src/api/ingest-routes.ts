@@ -0,0 +1,165 @@
+/**
+ * Uho — Push Ingestion Routes
+ *
+ * Lets an RPC provider push transactions instead of Uho polling for them.
+ * POST /api/v1/ingest/:programId accepts raw, parsed or Helius enhanced
+ * transaction payloads, authenticated with the program's own ingest secret in
+ * the Authorization header, and runs them through the same decode → fanout
+ * pipeline as the indexer orchestrator. A secret only reaches the tables of
+ * the user program it was issued for.
+ */
+
+import type { FastifyInstance } from 'fastify';
+import type { Connection } from '@solana/web3.js';
+import type pg from 'pg';
+import { AppError, NotFoundError, UnauthorizedError, ValidationError } from '../core/errors.js';
+import { ingestRateLimit } from '../middleware/rate-limit.js';
+import { ProgramPipeline, loadSubscribers } from '../ingestion/pipeline.js';
+import type { EventQuota } from '../ingestion/event-quota.js';
+import { involvesProgram, parseIngestPayload } from '../ingestion/ingest-payload.js';
+import { hashApiKey } from '../auth/api-keys.js';
+
+/** Providers batch many transactions per delivery */
+const INGEST_BODY_LIMIT = 10 * 1024 * 1024;
+
+// =============================================================================
+// Route Registration
+// =============================================================================
+
+/**
+ * Registers the push ingestion route, and drops the pipelines of programs
+ * that stop running.
+ *
+ * @param connection - RPC connection used to refresh touched account state
+ * @param quota - Enforces subscribers' events quota during fan-out
+ */
+export async function registerIngestRoutes(
+  app: FastifyInstance,
+  pool: pg.Pool,
+  connection: Connection,
+  quota?: EventQuota
+): Promise<void> {
+  /** Pipelines by user and program ID, reused across deliveries */
+  const pipelines = new Map<string, ProgramPipeline>();
+
+  // Paused, archived and deleted programs take no deliveries; free their pipelines
+  const listenerClient = await pool.connect();
+  await listenerClient.query('LISTEN uho_program_changes');
+
+  listenerClient.on('notification', (msg) => {
+    if (msg.channel !== 'uho_program_changes' || !msg.payload) return;
+
+    try {
+      const change = JSON.parse(msg.payload) as Record<string, string>;
+      if (change.action === 'DELETE' || change.status !== 'running') {
+        pipelines.delete(pipelineKey(change.user_id, change.program_id));
+      }
+    } catch (err) {
+      console.error(`[Ingest] Error handling program change: ${(err as Error).message}`);
+    }
+  });
+
+  listenerClient.on('error', (err) => {
+    console.error(`[Ingest] Listener connection error: ${err.message}`);
+  });
+
+  app.addHook('onClose', async () => {
+    try {
+      await listenerClient.query('UNLISTEN uho_program_changes');
+      listenerClient.release();
+    } catch {
+      // Ignore
+    }
+  });
+
+  // -----------------------------------------------------------------------
+  // POST /api/v1/ingest/:programId — Push transactions for a program
+  // -----------------------------------------------------------------------
+  app.post(
+    '/api/v1/ingest/:programId',
+    { bodyLimit: INGEST_BODY_LIMIT, config: ingestRateLimit },
+    async (request, reply) => {
+      const { programId } = request.params as { programId: string };
+
+      try {
+        const userId = await authorizedUser(pool, programId, request.headers.authorization);
+        if (!userId) {
+          throw new UnauthorizedError('Invalid ingest credentials');
+        }
+
+        const payload = parseIngestPayload(request.body);
+        if (!payload) {
+          throw new ValidationError('Body must be a transaction or an array of transactions');
+        }
+        if (payload.transactions.length === 0 && payload.invalid > 0) {
+          throw new ValidationError('No recognizable transactions in payload', { invalid: payload.invalid });
+        }
+
+        // Only the secret owner's tables; other subscribers push with their own secrets
+        const subscribers = (await loadSubscribers(pool, programId)).filter((s) => s.userId === userId);
+        const key = pipelineKey(userId, programId);
+        if (subscribers.length === 0) {
+          pipelines.delete(key);
+          throw new NotFoundError(`Program ${programId} is not being indexed`);
+        }
+
+        let pipeline = pipelines.get(key);
+        if (pipeline) {
+          pipeline.updateSubscribers(subscribers);
+        } else {
+          pipeline = new ProgramPipeline(pool, connection, programId, subscribers, quota);
+          pipelines.set(key, pipeline);
+        }
+
+        // Failed transactions and ones that never touch the program are dropped
+        const transactions = payload.transactions.filter(
+          (tx) => !tx.meta?.err && involvesProgram(tx, programId)
+        );
+        const result = await pipeline.ingest(transactions);
+
+        return {
+          received: payload.transactions.length + payload.invalid,
+          skipped: payload.transactions.length - transactions.length,
+          invalid: payload.invalid,
+          ...result,
+        };
+      } catch (err) {
+        if (err instanceof AppError) {
+          return reply.status(err.statusCode).send(err.toResponse());
+        }
+        throw err;
+      }
+    }
+  );
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/** Pipelines are per user program, each fanning out to its owner's tables only */
+function pipelineKey(userId: string, programId: string): string {
+  return `${userId}:${programId}`;
+}
+
+/**
+ * Resolves the user whose running program the Authorization header's ingest
+ * secret was issued for, accepting the bare value (as Helius sends it) or a
+ * Bearer token. Secrets are looked up by hash, so lookups leak no timing
+ * about stored values.
+ */
+async function authorizedUser(
+  pool: pg.Pool,
+  programId: string,
+  header: string | undefined
+): Promise<string | null> {
+  if (!header) return null;
+  const presented = header.startsWith('Bearer ') ? header.slice(7) : header;
+
+  const result = await pool.query(
+    `SELECT user_id FROM user_programs
+     WHERE program_id = $1 AND ingest_secret_hash = $2 AND status = 'running'`,
+    [programId, hashApiKey(presented)]
+  );
+  return (result.rows[0]?.user_id as string | undefined) ?? null;
+}
@@ -8,10 +8,11 @@
 import type { FastifyInstance } from 'fastify';
 import type { ProgramService } from '../services/program-service.js';
 import type { IdlDiscoveryService } from '../services/idl-discovery.js';
-import { type BackfillManager, DEMO_BACKFILL_SLOT_LIMIT } from '../ingestion/backfill-manager.js';
+import type { BackfillManager } from '../ingestion/backfill-manager.js';
 import { authMiddleware, jwtOnlyMiddleware } from '../middleware/auth.js';
 import { AppError, ValidationError } from '../core/errors.js';
 import { IDL_NAME_REGEX } from '../core/schema-generator.js';
+import { applyColumnLayout } from '../core/structured-columns.js';
 
 // =============================================================================
 // Route Registration
@@ -48,8 +49,8 @@ export function registerProgramRoutes(
       name?: string;
       idl?: Record<string, unknown>;
       chain?: string;
-      events?: Array<{ name: string; type: 'event' | 'instruction'; enabled: boolean }>;
-      config?: { pollIntervalMs?: number; batchSize?: number; startSlot?: number };
+      events?: Array<{ name: string; type: 'event' | 'instruction' | 'account'; enabled: boolean }>;
+      config?: { pollIntervalMs?: number; batchSize?: number; startSlot?: number; accountHistory?: boolean; structuredColumns?: boolean; source?: 'rpc' | 'geyser' | 'webhook' };
       includeHistoricalData?: boolean;
       startFromSlot?: number;
     } | null;
@@ -84,6 +85,13 @@ export function registerProgramRoutes(
           });
         }
       }
+      for (const account of parsedIdl.accounts) {
+        if (!IDL_NAME_REGEX.test(account.name)) {
+          return reply.status(422).send({
+            error: { code: 'VALIDATION_ERROR', message: `Invalid account name in IDL: '${account.name}'. Must match /^[a-zA-Z][a-zA-Z0-9_]{0,62}$/` },
+          });
+        }
+      }
     } catch (err) {
       if ((err as any)?.statusCode) throw err;
       return reply.status(422).send({
@@ -119,7 +127,7 @@ export function registerProgramRoutes(
 
           // Parse IDL for decoder
           const { parseIDL } = await import('../core/idl-parser.js');
-          const parsedIdl = parseIDL(body.idl as any);
+          const parsedIdl = applyColumnLayout(parseIDL(body.idl as any), body.config);
 
           // Start backfill in background (don't await)
           const rpcUrl = process.env.HELIUS_RPC_URL || process.env.RPC_URL || 'https://api.mainnet-beta.solana.com';
@@ -150,11 +158,8 @@ export function registerProgramRoutes(
         status: program.status,
         createdAt: program.createdAt.toISOString(),
         backfillJobId,
-        ...(backfillJobId && {
-          demoLimitation: {
-            maxSlots: DEMO_BACKFILL_SLOT_LIMIT,
-            message: `Demo mode: backfill is limited to the last ${DEMO_BACKFILL_SLOT_LIMIT} slots. Full historical backfill available in production.`,
-          },
+        ...(backfillJobId && backfillManager && {
+          demoLimitation: await backfillManager.getBackfillLimitation(auth.userId),
         }),
       });
     } catch (err) {
@@ -200,6 +205,9 @@ export function registerProgramRoutes(
       name?: string;
       events?: Array<{ name: string; type: string; enabled: boolean; fieldConfig?: Record<string, unknown> }>;
       config?: Record<string, unknown>;
+      idl?: Record<string, unknown>;
+      force?: boolean;
+      effectiveSlot?: number;
       retryBackfill?: boolean;
       cancelBackfill?: boolean;
     } | null;
@@ -225,7 +233,14 @@ export function registerProgramRoutes(
           // Get program details for retry config
           const programDetail = await programService.getProgram(auth.userId, id);
           const { parseIDL } = await import('../core/idl-parser.js');
-          const parsedIdl = parseIDL(programDetail.idl as any);
+          const parsedIdl = applyColumnLayout(parseIDL(programDetail.idl as any), programDetail.config);
+          // Decode each slot with the IDL version in effect then
+          const idlVersions = (await programService.listIdlVersions(auth.userId, id)).map((v) => ({
+            version: v.version,
+            effectiveSlot: v.effectiveSlot,
+            parsedIdl: parseIDL(v.idl as any),
+            rawIdl: v.idl,
+          }));
           const enabledEvents = programDetail.events
             .filter((e) => e.enabled && e.type === 'event')
             .map((e) => e.name);
@@ -239,6 +254,7 @@ export function registerProgramRoutes(
             schemaName: auth.schemaName,
             parsedIdl,
             rawIdl: programDetail.idl as any,
+            idlVersions: idlVersions.length > 0 ? idlVersions : undefined,
             startSlot: existingJob.currentSlot,
             enabledEvents,
             rpcUrl,
@@ -256,6 +272,32 @@ export function registerProgramRoutes(
         name: program.name,
         config: program.config,
         updatedAt: program.updatedAt.toISOString(),
+        ...(program.idlUpgrade && { idlUpgrade: program.idlUpgrade }),
+      };
+    } catch (err) {
+      if (err instanceof AppError) {
+        return reply.status(err.statusCode).send(err.toResponse());
+      }
+      throw err;
+    }
+  });
+
+  // -----------------------------------------------------------------------
+  // GET /api/v1/programs/:id/idl-versions — IDL version history
+  // -----------------------------------------------------------------------
+  app.get('/api/v1/programs/:id/idl-versions', { preHandler: authMiddleware }, async (request, reply) => {
+    const auth = request.authPayload!;
+    const { id } = request.params as { id: string };
+
+    try {
+      const versions = await programService.listIdlVersions(auth.userId, id);
+      return {
+        data: versions.map((v) => ({
+          version: v.version,
+          effectiveSlot: v.effectiveSlot,
+          createdAt: v.createdAt.toISOString(),
+          idl: v.idl,
+        })),
       };
     } catch (err) {
       if (err instanceof AppError) {
@@ -319,6 +361,24 @@ export function registerProgramRoutes(
     }
   });
 
+  // -----------------------------------------------------------------------
+  // POST /api/v1/programs/:id/ingest-secret — Issue a push ingestion secret
+  // -----------------------------------------------------------------------
+  app.post('/api/v1/programs/:id/ingest-secret', { preHandler: jwtOnlyMiddleware }, async (request, reply) => {
+    const auth = request.authPayload!;
+    const { id } = request.params as { id: string };
+
+    try {
+      const secret = await programService.rotateIngestSecret(auth.userId, id);
+      return reply.status(201).send({ secret });
+    } catch (err) {
+      if (err instanceof AppError) {
+        return reply.status(err.statusCode).send(err.toResponse());
+      }
+      throw err;
+    }
+  });
+
   // -----------------------------------------------------------------------
   // POST /api/v1/programs/discover-idl
   // -----------------------------------------------------------------------
@@ -7,14 +7,38 @@
 
 import type { FastifyInstance } from 'fastify';
 import type pg from 'pg';
-import type { UhoConfig, ParsedIDL, ParsedEvent, ParsedInstruction } from '../core/types.js';
-import { eventTableName, instructionTableName } from '../core/schema-generator.js';
+import type { UhoConfig, ParsedIDL, ParsedEvent, ParsedInstruction, ParsedAccount, ParsedField, GapRecord } from '../core/types.js';
+import {
+  eventTableName,
+  instructionTableName,
+  accountStateTableName,
+  accountHistoryTableName,
+  accountStateFields,
+} from '../core/schema-generator.js';
 import { toSnakeCase } from '../core/idl-parser.js';
+import { buildFilterClauses, type FilterFields } from '../core/filters.js';
+import { NUMERIC_SQL_TYPES } from '../core/table-resolver.js';
+import { serializeRow } from '../core/serialize.js';
+import { mapGapRow } from '../ingestion/writer.js';
 
 // =============================================================================
 // Health & Status Routes
 // =============================================================================
 
+/**
+ * Formats an unfilled ingestion gap for the status endpoints.
+ */
+export function formatGap(gap: GapRecord) {
+  return {
+    fromSlot: gap.fromSlot,
+    toSlot: gap.toSlot,
+    status: gap.status,
+    attempts: gap.attempts,
+    error: gap.error,
+    detectedAt: gap.detectedAt.toISOString(),
+  };
+}
+
 /**
  * Registers the /api/v1/health endpoint.
  */
@@ -110,6 +134,18 @@ export function registerStatusRoute(
           // API route names: events use snake_case name, instructions use name_ix
           const apiEventNames = [...events, ...instructions.map((ix) => ix + '_ix')];
 
+          // Signature ranges the poller skipped that are not yet backfilled
+          let gaps: ReturnType<typeof formatGap>[] = [];
+          try {
+            const gapResult = await pool.query(
+              `SELECT * FROM _uho_gaps WHERE program_id = $1 AND status <> 'filled' ORDER BY to_slot DESC`,
+              [row.program_id]
+            );
+            gaps = gapResult.rows.map((g) => formatGap(mapGapRow(g)));
+          } catch {
+            // _uho_gaps may not exist for schemas applied by older versions
+          }
+
           return {
             name: row.program_name,
             programId: row.program_id,
@@ -120,6 +156,7 @@ export function registerStatusRoute(
             eventsIndexed: Number(row.events_indexed),
             lastPollAt: row.last_poll_at ? new Date(row.last_poll_at).toISOString() : null,
             error: row.error ?? null,
+            gaps,
           };
         })
       );
@@ -178,9 +215,10 @@ export function registerEventRoutes(
 
   // Known field names for safe filtering (prevents SQL injection)
   const knownFields = new Set([
-    'slot', 'block_time', 'tx_signature', 'ix_index', 'inner_ix_index',
+    'slot', 'block_time', 'tx_signature', 'ix_index', 'inner_ix_index', 'invoking_program', 'commitment',
     ...event.fields.map((f) => f.name),
   ]);
+  const filterFields = withNumericFields(knownFields, ['slot', 'ix_index', 'inner_ix_index'], event.fields);
 
   // All valid column names for orderBy
   const validOrderColumns = new Set([
@@ -203,7 +241,7 @@ export function registerEventRoutes(
     const order = query.order === 'asc' ? 'ASC' : 'DESC';
 
     // Build WHERE clauses from query parameters
-    const { whereClauses, params } = buildWhereClause(query, knownFields);
+    const { whereClauses, params } = buildFilterClauses(query, filterFields);
 
     // Execute query
     const paramOffset = params.length;
@@ -240,7 +278,7 @@ export function registerEventRoutes(
   // -----------------------------------------------------------------------
   app.get(`${basePath}/count`, async (request) => {
     const query = request.query as Record<string, string>;
-    const { whereClauses, params } = buildWhereClause(query, knownFields);
+    const { whereClauses, params } = buildFilterClauses(query, filterFields);
 
     const sql = `
       SELECT COUNT(*) as total FROM ${tableName}
@@ -257,7 +295,7 @@ export function registerEventRoutes(
   app.get(`${basePath}/:txSignature`, async (request) => {
     const { txSignature } = request.params as { txSignature: string };
 
-    const sql = `SELECT * FROM ${tableName} WHERE tx_signature = $1 ORDER BY ix_index, inner_ix_index`;
+    const sql = `SELECT * FROM ${tableName} WHERE tx_signature = $1 ORDER BY ix_index, inner_ix_index NULLS FIRST, event_index`;
     const result = await pool.query(sql, [txSignature]);
 
     return {
@@ -288,10 +326,11 @@ export function registerInstructionRoutes(
 
   // Known field names for safe filtering
   const knownFields = new Set([
-    'slot', 'block_time', 'tx_signature', 'ix_index',
+    'slot', 'block_time', 'tx_signature', 'ix_index', 'commitment',
     ...instruction.args.map((f) => f.name),
     ...instruction.accounts.map((a) => toSnakeCase(a)),
   ]);
+  const filterFields = withNumericFields(knownFields, ['slot', 'ix_index'], instruction.args);
 
   const validOrderColumns = new Set([
     'id', 'slot', 'block_time', 'tx_signature', 'indexed_at',
@@ -307,7 +346,7 @@ export function registerInstructionRoutes(
     const orderBy = validOrderColumns.has(query.orderBy ?? '') ? query.orderBy : 'slot';
     const order = query.order === 'asc' ? 'ASC' : 'DESC';
 
-    const { whereClauses, params } = buildWhereClause(query, knownFields);
+    const { whereClauses, params } = buildFilterClauses(query, filterFields);
     const paramOffset = params.length;
 
     const sql = `
@@ -339,7 +378,7 @@ export function registerInstructionRoutes(
   // GET /api/v1/{program}/{instruction}_ix/count — Count instructions
   app.get(`${basePath}/count`, async (request) => {
     const query = request.query as Record<string, string>;
-    const { whereClauses, params } = buildWhereClause(query, knownFields);
+    const { whereClauses, params } = buildFilterClauses(query, filterFields);
 
     const sql = `
       SELECT COUNT(*) as total FROM ${tableName}
@@ -360,79 +399,109 @@ export function registerInstructionRoutes(
 }
 
 // =============================================================================
-// Query Building Helpers
+// Account State Routes (Auto-Generated)
 // =============================================================================
 
 /**
- * Builds parameterized WHERE clauses from query parameters.
- * Only includes filters for known field names (SQL injection prevention).
+ * Registers REST routes for a tracked account type:
+ * - GET /api/v1/{program}/{account}_state — list current account states (paginated, filterable)
+ * - GET /api/v1/{program}/{account}_state/:pubkey — current state of one account
+ * - GET /api/v1/{program}/{account}_state/:pubkey/history — prior versions (if history is enabled)
  */
-function buildWhereClause(
-  query: Record<string, string>,
-  knownFields: Set<string>
-): { whereClauses: string[]; params: unknown[] } {
-  const whereClauses: string[] = [];
-  const params: unknown[] = [];
-  let paramIdx = 1;
-
-  // Time range filters
-  if (query.from) {
-    whereClauses.push(`block_time >= $${paramIdx++}`);
-    params.push(query.from);
-  }
-  if (query.to) {
-    whereClauses.push(`block_time <= $${paramIdx++}`);
-    params.push(query.to);
-  }
+export function registerAccountRoutes(
+  app: FastifyInstance,
+  pool: pg.Pool,
+  programName: string,
+  account: ParsedAccount,
+  history: boolean
+): void {
+  const tableName = accountStateTableName(programName, account.name);
+  const basePath = `/api/v1/${programName}/${toSnakeCase(account.name)}_state`;
+  const fieldNames = accountStateFields(account).map((f) => f.name);
 
-  // Slot range filters
-  if (query.slotFrom) {
-    whereClauses.push(`slot >= $${paramIdx++}`);
-    params.push(parseInt(query.slotFrom, 10));
-  }
-  if (query.slotTo) {
-    whereClauses.push(`slot <= $${paramIdx++}`);
-    params.push(parseInt(query.slotTo, 10));
-  }
+  const knownFields = new Set(['pubkey', 'slot', 'block_time', 'tx_signature', 'lamports', ...fieldNames]);
+  const filterFields = withNumericFields(knownFields, ['slot', 'lamports'], accountStateFields(account));
+  const validOrderColumns = new Set(['id', 'pubkey', 'slot', 'block_time', 'lamports', 'updated_at', ...fieldNames]);
 
-  // Field-specific exact match filters
-  for (const [key, value] of Object.entries(query)) {
-    // Skip pagination/ordering/range params
-    if (['limit', 'offset', 'orderBy', 'order', 'from', 'to', 'slotFrom', 'slotTo'].includes(key)) {
-      continue;
-    }
+  // GET /api/v1/{program}/{account}_state — List current account states
+  app.get(basePath, async (request) => {
+    const query = request.query as Record<string, string>;
+    const limit = Math.min(Math.max(parseInt(query.limit || '50', 10), 1), 1000);
+    const offset = Math.max(parseInt(query.offset || '0', 10), 0);
+    const orderBy = validOrderColumns.has(query.orderBy ?? '') ? query.orderBy : 'slot';
+    const order = query.order === 'asc' ? 'ASC' : 'DESC';
+
+    const { whereClauses, params } = buildFilterClauses(query, filterFields);
+    const paramOffset = params.length;
 
-    // Only allow filtering on known fields
-    const snakeKey = toSnakeCase(key);
-    if (knownFields.has(snakeKey)) {
-      whereClauses.push(`${snakeKey} = $${paramIdx++}`);
-      params.push(value);
+    const sql = `
+      SELECT * FROM ${tableName}
+      ${whereClauses.length > 0 ? 'WHERE ' + whereClauses.join(' AND ') : ''}
+      ORDER BY "${orderBy}" ${order}
+      LIMIT $${paramOffset + 1} OFFSET $${paramOffset + 2}
+    `;
+    const countSql = `
+      SELECT COUNT(*) as total FROM ${tableName}
+      ${whereClauses.length > 0 ? 'WHERE ' + whereClauses.join(' AND ') : ''}
+    `;
+
+    const [dataResult, countResult] = await Promise.all([
+      pool.query(sql, [...params, limit, offset]),
+      pool.query(countSql, params),
+    ]);
+
+    return {
+      data: dataResult.rows.map(serializeRow),
+      pagination: {
+        limit,
+        offset,
+        total: parseInt(countResult.rows[0].total, 10),
+      },
+    };
+  });
+
+  // GET /api/v1/{program}/{account}_state/:pubkey — Current state of one account
+  app.get(`${basePath}/:pubkey`, async (request, reply) => {
+    const { pubkey } = request.params as { pubkey: string };
+    const result = await pool.query(`SELECT * FROM ${tableName} WHERE pubkey = $1`, [pubkey]);
+    if (result.rows.length === 0) {
+      return reply.status(404).send({
+        error: { code: 'NOT_FOUND', message: `No ${account.name} state for ${pubkey}` },
+      });
     }
-  }
+    return { data: serializeRow(result.rows[0]) };
+  });
 
-  return { whereClauses, params };
+  if (!history) return;
+
+  // GET /api/v1/{program}/{account}_state/:pubkey/history — Prior versions by slot
+  const historyTableName = accountHistoryTableName(programName, account.name);
+  app.get(`${basePath}/:pubkey/history`, async (request) => {
+    const { pubkey } = request.params as { pubkey: string };
+    const query = request.query as Record<string, string>;
+    const limit = Math.min(Math.max(parseInt(query.limit || '50', 10), 1), 1000);
+    const offset = Math.max(parseInt(query.offset || '0', 10), 0);
+    const order = query.order === 'asc' ? 'ASC' : 'DESC';
+
+    const result = await pool.query(
+      `SELECT * FROM ${historyTableName} WHERE pubkey = $1 ORDER BY slot ${order} LIMIT $2 OFFSET $3`,
+      [pubkey, limit, offset]
+    );
+    return { data: result.rows.map(serializeRow), pagination: { limit, offset } };
+  });
 }
 
 // =============================================================================
-// Response Serialization
+// Query Building Helpers
 // =============================================================================
 
 /**
- * Serializes a database row for JSON response.
- * Converts BigInt values to strings and formats timestamps.
+ * Pairs a table's known fields with the ones that support range operators:
+ * numeric metadata columns and IDL fields with numeric SQL types.
  */
-function serializeRow(row: Record<string, unknown>): Record<string, unknown> {
-  const serialized: Record<string, unknown> = {};
-
-  for (const [key, value] of Object.entries(row)) {
-    if (typeof value === 'bigint') {
-      serialized[key] = value.toString();
-    } else if (value instanceof Date) {
-      serialized[key] = value.toISOString();
-    } else {
-      serialized[key] = value;
-    }
-  }
-
-  return serialized;
+function withNumericFields(known: Set<string>, metadata: string[], fields: ParsedField[]): FilterFields {
+  return {
+    known,
+    numeric: new Set([...metadata, ...fields.filter((f) => NUMERIC_SQL_TYPES.has(f.sqlType)).map((f) => f.name)]),
+  };
 }
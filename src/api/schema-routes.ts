@@ -10,6 +10,8 @@ import type { FastifyInstance } from 'fastify';
 import type pg from 'pg';
 import { authMiddleware } from '../middleware/auth.js';
 import { parseIDL, toSnakeCase } from '../core/idl-parser.js';
+import { applyColumnLayout } from '../core/structured-columns.js';
+import { accountStateFields, isAddressField } from '../core/schema-generator.js';
 import type { AnchorIDL, ParsedField } from '../core/types.js';
 import { NotFoundError, AppError } from '../core/errors.js';
 
@@ -20,6 +22,7 @@ import { NotFoundError, AppError } from '../core/errors.js';
 const SQL_TO_JSON_TYPE: Record<string, string> = {
   'INTEGER': 'number',
   'BIGINT': 'string',          // BigInt serialized as string
+  'NUMERIC(20,0)': 'string',   // u64 serialized as string
   'NUMERIC(39,0)': 'string',   // u128/i128 serialized as string
   'DOUBLE PRECISION': 'number',
   'BOOLEAN': 'boolean',
@@ -50,9 +53,27 @@ const METADATA_FIELDS: Array<{
   { name: 'tx_signature', type: 'TEXT', jsonType: 'string', nullable: false, description: 'Transaction signature (base58)' },
   { name: 'ix_index', type: 'INTEGER', jsonType: 'number', nullable: false, description: 'Instruction index within the transaction' },
   { name: 'inner_ix_index', type: 'INTEGER', jsonType: 'number', nullable: true, description: 'Inner instruction index (null if top-level)' },
+  { name: 'event_index', type: 'INTEGER', jsonType: 'number', nullable: false, description: 'Order among events emitted by the same instruction' },
+  { name: 'invoking_program', type: 'TEXT', jsonType: 'string', nullable: true, description: 'Program that invoked the emitting instruction via CPI (null if top-level)' },
+  { name: 'cpi_path', type: 'TEXT[]', jsonType: 'array', nullable: true, description: 'Program IDs from the top-level instruction down to the emitter' },
+  { name: 'commitment', type: 'TEXT', jsonType: 'string', nullable: false, description: "'confirmed' until the slot is finalized, then 'finalized'" },
   { name: 'indexed_at', type: 'TIMESTAMPTZ', jsonType: 'string', nullable: true, description: 'When this record was indexed by Uho' },
 ];
 
+/** Metadata fields only event tables carry */
+const EVENT_ONLY_FIELDS = new Set(['inner_ix_index', 'event_index', 'invoking_program', 'cpi_path']);
+
+/** Metadata fields on account state tables (one row per account pubkey) */
+const ACCOUNT_METADATA_FIELDS: typeof METADATA_FIELDS = [
+  { name: 'id', type: 'BIGSERIAL', jsonType: 'number', nullable: false, description: 'Auto-incrementing row ID' },
+  { name: 'pubkey', type: 'TEXT', jsonType: 'string', nullable: false, description: 'Account address (base58)' },
+  { name: 'slot', type: 'BIGINT', jsonType: 'string', nullable: false, description: 'Slot the account state was observed at' },
+  { name: 'block_time', type: 'TIMESTAMPTZ', jsonType: 'string', nullable: true, description: 'Block timestamp of the last write (ISO 8601)' },
+  { name: 'tx_signature', type: 'TEXT', jsonType: 'string', nullable: true, description: 'Last indexed transaction that wrote the account' },
+  { name: 'lamports', type: 'BIGINT', jsonType: 'string', nullable: true, description: 'Account balance in lamports' },
+  { name: 'updated_at', type: 'TIMESTAMPTZ', jsonType: 'string', nullable: true, description: 'When this state was last updated by Uho' },
+];
+
 // =============================================================================
 // Route Registration
 // =============================================================================
@@ -70,7 +91,7 @@ export function registerSchemaRoutes(app: FastifyInstance, pool: pg.Pool): void
 
     try {
       const result = await pool.query(
-        `SELECT idl, name FROM user_programs WHERE user_id = $1 AND name = $2 AND status != 'archived'`,
+        `SELECT idl, name, config FROM user_programs WHERE user_id = $1 AND name = $2 AND status != 'archived'`,
         [auth.userId, program]
       );
 
@@ -79,7 +100,7 @@ export function registerSchemaRoutes(app: FastifyInstance, pool: pg.Pool): void
       }
 
       const storedIdl = result.rows[0].idl as Record<string, unknown>;
-      const parsedIdl = parseIDL(storedIdl as unknown as AnchorIDL);
+      const parsedIdl = applyColumnLayout(parseIDL(storedIdl as unknown as AnchorIDL), result.rows[0].config);
 
       const events = parsedIdl.events.map((event) => ({
         name: toSnakeCase(event.name),
@@ -100,6 +121,7 @@ export function registerSchemaRoutes(app: FastifyInstance, pool: pg.Pool): void
             nullable: f.nullable,
             description: `IDL field: ${f.type}`,
             source: 'idl' as const,
+            ...(isAddressField(f) ? { address: true } : {}),
           })),
         ],
       }));
@@ -118,11 +140,36 @@ export function registerSchemaRoutes(app: FastifyInstance, pool: pg.Pool): void
         accounts: ix.accounts.map((a) => toSnakeCase(a)),
       }));
 
+      const accounts = parsedIdl.accounts.map((acc) => ({
+        name: `${toSnakeCase(acc.name)}_state`,
+        originalName: acc.name,
+        type: 'account',
+        fields: [
+          ...ACCOUNT_METADATA_FIELDS.map((m) => ({
+            name: m.name,
+            type: m.jsonType,
+            sqlType: m.type,
+            nullable: m.nullable,
+            description: m.description,
+            source: 'metadata' as const,
+          })),
+          ...accountStateFields(acc).map((f) => ({
+            name: f.name,
+            type: sqlTypeToJsonType(f.sqlType),
+            sqlType: f.sqlType,
+            nullable: f.nullable,
+            description: `IDL field: ${f.type}`,
+            source: 'idl' as const,
+          })),
+        ],
+      }));
+
       return {
         program: program,
         programId: parsedIdl.programId,
         events,
         instructions,
+        accounts,
       };
     } catch (err) {
       if (err instanceof AppError) {
@@ -141,7 +188,7 @@ export function registerSchemaRoutes(app: FastifyInstance, pool: pg.Pool): void
 
     try {
       const result = await pool.query(
-        `SELECT idl, name FROM user_programs WHERE user_id = $1 AND name = $2 AND status != 'archived'`,
+        `SELECT idl, name, config FROM user_programs WHERE user_id = $1 AND name = $2 AND status != 'archived'`,
         [auth.userId, program]
       );
 
@@ -150,7 +197,7 @@ export function registerSchemaRoutes(app: FastifyInstance, pool: pg.Pool): void
       }
 
       const storedIdl = result.rows[0].idl as Record<string, unknown>;
-      const parsedIdl = parseIDL(storedIdl as unknown as AnchorIDL);
+      const parsedIdl = applyColumnLayout(parseIDL(storedIdl as unknown as AnchorIDL), result.rows[0].config);
 
       // Check if this is an instruction (ends with _ix)
       const isInstruction = eventName.endsWith('_ix');
@@ -169,7 +216,7 @@ export function registerSchemaRoutes(app: FastifyInstance, pool: pg.Pool): void
           event: eventName,
           type: 'instruction',
           fields: [
-            ...METADATA_FIELDS.filter((m) => m.name !== 'inner_ix_index').map((m) => ({
+            ...METADATA_FIELDS.filter((m) => !EVENT_ONLY_FIELDS.has(m.name)).map((m) => ({
               name: m.name,
               type: m.jsonType,
               sqlType: m.type,
@@ -184,6 +231,7 @@ export function registerSchemaRoutes(app: FastifyInstance, pool: pg.Pool): void
               nullable: f.nullable,
               description: `IDL arg: ${f.type}`,
               source: 'idl' as const,
+              ...(isAddressField(f) ? { address: true } : {}),
             })),
             ...instruction.accounts.map((a) => ({
               name: toSnakeCase(a),
@@ -192,6 +240,7 @@ export function registerSchemaRoutes(app: FastifyInstance, pool: pg.Pool): void
               nullable: false,
               description: `Account: ${a}`,
               source: 'idl' as const,
+              address: true,
             })),
           ],
         };
@@ -225,6 +274,7 @@ export function registerSchemaRoutes(app: FastifyInstance, pool: pg.Pool): void
             nullable: f.nullable,
             description: `IDL field: ${f.type}`,
             source: 'idl' as const,
+            ...(isAddressField(f) ? { address: true } : {}),
           })),
         ],
       };
@@ -13,9 +13,17 @@ import swagger from '@fastify/swagger';
 import swaggerUi from '@fastify/swagger-ui';
 import type pg from 'pg';
 import { randomUUID } from 'crypto';
+import { Connection } from '@solana/web3.js';
 import type { UhoConfig, ParsedIDL } from '../core/types.js';
 import type { PlatformConfig } from '../core/platform-config.js';
-import { registerEventRoutes, registerInstructionRoutes, registerStatusRoute, registerHealthRoute } from './routes.js';
+import {
+  registerEventRoutes,
+  registerInstructionRoutes,
+  registerAccountRoutes,
+  registerStatusRoute,
+  registerHealthRoute,
+  formatGap,
+} from './routes.js';
 import { registerTokenTransferRoutes } from './token-transfer-routes.js';
 import { eventTableNameRaw, instructionTableNameRaw, quoteIdent } from '../core/schema-generator.js';
 import { registerAuthRoutes } from './auth-routes.js';
@@ -26,6 +34,12 @@ import { registerDataRoutes } from './data-routes.js';
 import { registerViewRoutes } from './view-routes.js';
 import { registerWebhookRoutes } from './webhook-routes.js';
 import { registerSchemaRoutes } from './schema-routes.js';
+import { registerIngestRoutes } from './ingest-routes.js';
+import { registerGraphqlRoutes } from './graphql-routes.js';
+import { registerExportRoutes } from './export-routes.js';
+import { registerTxRoutes } from './tx-routes.js';
+import { registerActivityRoutes } from './activity-routes.js';
+import { registerAdminRoutes } from './admin-routes.js';
 import { initAuthMiddleware, authMiddleware, optionalAuthMiddleware } from '../middleware/auth.js';
 import { initSchemaMiddleware, registerSchemaCleanup } from '../middleware/schema.js';
 import { registerRateLimiting } from '../middleware/rate-limit.js';
@@ -36,8 +50,13 @@ import { ViewService } from '../services/view-service.js';
 import { WebhookService } from '../services/webhook-service.js';
 import { IdlDiscoveryService } from '../services/idl-discovery.js';
 import { UsageService } from '../services/usage-service.js';
+import { PlanService } from '../services/plan-service.js';
+import { ExportService } from '../services/export-service.js';
+import { createExportStorage } from '../services/export-storage.js';
 import { AppError } from '../core/errors.js';
 import { getPlatformRpcUrl } from '../core/platform-config.js';
+import { mapGapRow } from '../ingestion/writer.js';
+import { EventQuota } from '../ingestion/event-quota.js';
 
 // =============================================================================
 // CLI Mode Server Creation (unchanged)
@@ -88,6 +107,13 @@ export async function createServer(
     for (const instruction of parsedIdl.instructions) {
       registerInstructionRoutes(app, pool, parsedIdl.programName, instruction);
     }
+    // Register account state routes for tracked accounts (parsedIdls is index-aligned with config.programs)
+    const programConfig = config.programs[parsedIdls.indexOf(parsedIdl)];
+    for (const account of parsedIdl.accounts) {
+      if (programConfig?.accounts?.includes(account.name)) {
+        registerAccountRoutes(app, pool, parsedIdl.programName, account, programConfig.accountHistory === true);
+      }
+    }
   }
 
   // Register token transfer routes if any program has tokenTransfers enabled
@@ -293,11 +319,22 @@ export async function createPlatformServer(
   // ---------------------------------------------------------------------------
   // Services
   // ---------------------------------------------------------------------------
-  const userService = new UserService(pool, config.jwtSecret, config.jwtRefreshSecret, config.resendApiKey);
-  const programService = new ProgramService(pool);
-  const viewService = new ViewService(pool);
-  const webhookService = new WebhookService(pool);
-  const usageService = new UsageService(pool);
+  const planService = new PlanService(pool);
+  const userService = new UserService(pool, config.jwtSecret, config.jwtRefreshSecret, config.resendApiKey, planService);
+  const programService = new ProgramService(pool, planService);
+  const viewService = new ViewService(pool, planService);
+  const webhookService = new WebhookService(pool, planService);
+  const usageService = new UsageService(pool, planService, config.resendApiKey);
+  const exportService = new ExportService(
+    pool,
+    createExportStorage(config.exportStorage),
+    usageService,
+    config.exportTtlHours
+  );
+  exportService.startSweeper();
+  app.addHook('onClose', async () => exportService.stopSweeper());
+  usageService.startThresholdSweeper();
+  app.addHook('onClose', async () => usageService.stopThresholdSweeper());
 
   const rpcUrl = getPlatformRpcUrl();
   let idlDiscoveryService: IdlDiscoveryService | null = null;
@@ -356,11 +393,14 @@ export async function createPlatformServer(
   registerOAuthRoutes(app, userService, config);
 
   // User routes (JWT only for writes, JWT or API Key for reads)
-  registerUserRoutes(app, userService, pool);
+  registerUserRoutes(app, userService, pool, planService, usageService);
+
+  // Events quota, enforced on backfilled and pushed events
+  const quota = new EventQuota(pool, config.resendApiKey, planService, usageService);
 
   // Backfill manager
   const { BackfillManager } = await import('../ingestion/backfill-manager.js');
-  const backfillManager = new BackfillManager(pool);
+  const backfillManager = new BackfillManager(pool, planService, quota);
 
   // Program routes
   registerProgramRoutes(app, programService, idlDiscoveryService, backfillManager);
@@ -368,15 +408,33 @@ export async function createPlatformServer(
   // Data routes (auth + schema middleware)
   registerDataRoutes(app, pool);
 
+  // Composed transaction documents (auth + schema middleware)
+  registerTxRoutes(app, pool);
+
+  // Address activity feed (auth + schema middleware)
+  registerActivityRoutes(app, pool);
+
   // S2.2 — Schema introspection routes
   registerSchemaRoutes(app, pool);
 
+  // GraphQL over the user's programs (auth + schema middleware)
+  registerGraphqlRoutes(app, pool);
+
+  // Bulk data exports (auth; jobs read through their own schema client)
+  registerExportRoutes(app, exportService, config.baseUrl);
+
   // View routes
   registerViewRoutes(app, viewService, pool);
 
   // Webhook routes
   registerWebhookRoutes(app, webhookService);
 
+  // Plan management (admins only)
+  registerAdminRoutes(app, planService, usageService);
+
+  // Push ingestion (authenticated by per-program ingest secrets)
+  await registerIngestRoutes(app, pool, new Connection(getPlatformRpcUrl(), 'confirmed'), quota);
+
   // ---------------------------------------------------------------------------
   // S2.5 — Chain head slot cache (10s TTL) for indexer lag calculation
   // ---------------------------------------------------------------------------
@@ -415,6 +473,23 @@ export async function createPlatformServer(
 
     const programs = await programService.listPrograms(auth.userId);
 
+    // Unfilled ingestion gaps in the user's schema, grouped by program
+    const gapsByProgram = new Map<string, ReturnType<typeof formatGap>[]>();
+    try {
+      const gapResult = await pool.query(
+        `SELECT * FROM ${quoteIdent(auth.schemaName)}._uho_gaps
+         WHERE status <> 'filled' ORDER BY to_slot DESC`
+      );
+      for (const row of gapResult.rows) {
+        const gap = mapGapRow(row);
+        const list = gapsByProgram.get(gap.programId) ?? [];
+        list.push(formatGap(gap));
+        gapsByProgram.set(gap.programId, list);
+      }
+    } catch {
+      // _uho_gaps is created on first provisioning — none yet
+    }
+
     // Build eventCounts from listPrograms data (which already has correct counts for both events and instructions)
     const programsWithCounts = programs.map((p) => {
       const eventCounts: Record<string, number> = {};
@@ -432,6 +507,7 @@ export async function createPlatformServer(
         eventCounts,
         eventsIndexed: Object.values(eventCounts).reduce((a, b) => a + b, 0),
         lastSlot: p.lastSlot ?? 0,
+        gaps: gapsByProgram.get(p.programId) ?? [],
       };
     });
 
@@ -13,6 +13,8 @@
 import type { FastifyInstance } from 'fastify';
 import type pg from 'pg';
 import { toSnakeCase } from '../core/idl-parser.js';
+import { buildFilterClauses, RESERVED_PARAMS, type FilterQuery } from '../core/filters.js';
+import { serializeRow } from '../core/serialize.js';
 
 // =============================================================================
 // Token Transfer Routes (CLI Mode)
@@ -22,7 +24,7 @@ import { toSnakeCase } from '../core/idl-parser.js';
 const KNOWN_FIELDS = new Set([
   'program_id', 'instruction_type', 'source', 'destination',
   'authority', 'mint', 'amount', 'decimals', 'slot',
-  'block_time', 'tx_signature', 'ix_index', 'inner_ix_index',
+  'block_time', 'tx_signature', 'ix_index', 'inner_ix_index', 'commitment',
 ]);
 
 const VALID_ORDER_COLUMNS = new Set([
@@ -154,77 +156,34 @@ export function registerTokenTransferRoutes(
 // Query Building
 // =============================================================================
 
+/** Columns of _token_transfers that support range operators */
+const NUMERIC_FIELDS = new Set(['amount', 'decimals', 'slot', 'ix_index', 'inner_ix_index']);
+
+/** Shorthand aliases for columns */
+const ALIASES: Record<string, string> = {
+  type: 'instruction_type',
+};
+
+/**
+ * Builds WHERE clauses with the shared filter grammar (see filters.ts), plus
+ * `account`, which matches either side of a transfer.
+ */
 function buildTransferWhereClause(
   query: Record<string, string>
 ): { whereClauses: string[]; params: unknown[] } {
-  const whereClauses: string[] = [];
-  const params: unknown[] = [];
-  let paramIdx = 1;
-
-  // Time range filters
-  if (query.from) {
-    whereClauses.push(`block_time >= $${paramIdx++}`);
-    params.push(query.from);
-  }
-  if (query.to) {
-    whereClauses.push(`block_time <= $${paramIdx++}`);
-    params.push(query.to);
-  }
-
-  // Slot range filters
-  if (query.slotFrom) {
-    whereClauses.push(`slot >= $${paramIdx++}`);
-    params.push(parseInt(query.slotFrom, 10));
-  }
-  if (query.slotTo) {
-    whereClauses.push(`slot <= $${paramIdx++}`);
-    params.push(parseInt(query.slotTo, 10));
+  const filterQuery: FilterQuery = {};
+  for (const [key, value] of Object.entries(query)) {
+    if (key === 'account') continue;
+    filterQuery[RESERVED_PARAMS.has(key) ? key : ALIASES[key] ?? toSnakeCase(key)] = value;
   }
 
-  // Shorthand aliases
-  const ALIASES: Record<string, string> = {
-    type: 'instruction_type',
-    account: 'source', // also check destination below
-  };
+  const { whereClauses, params } = buildFilterClauses(filterQuery, { known: KNOWN_FIELDS, numeric: NUMERIC_FIELDS });
 
-  // Field-specific filters
-  for (const [key, value] of Object.entries(query)) {
-    if (['limit', 'offset', 'orderBy', 'order', 'from', 'to', 'slotFrom', 'slotTo'].includes(key)) {
-      continue;
-    }
-
-    // Special case: `account` matches source OR destination
-    if (key === 'account') {
-      whereClauses.push(`("source" = $${paramIdx} OR "destination" = $${paramIdx})`);
-      params.push(value);
-      paramIdx++;
-      continue;
-    }
-
-    const snakeKey = ALIASES[key] ?? toSnakeCase(key);
-    if (KNOWN_FIELDS.has(snakeKey)) {
-      whereClauses.push(`"${snakeKey}" = $${paramIdx++}`);
-      params.push(value);
-    }
+  // Special case: `account` matches source OR destination
+  if (query.account) {
+    params.push(query.account);
+    whereClauses.push(`("source" = $${params.length} OR "destination" = $${params.length})`);
   }
 
   return { whereClauses, params };
 }
-
-// =============================================================================
-// Response Serialization
-// =============================================================================
-
-function serializeRow(row: Record<string, unknown>): Record<string, unknown> {
-  const serialized: Record<string, unknown> = {};
-  for (const [key, value] of Object.entries(row)) {
-    if (typeof value === 'bigint') {
-      serialized[key] = value.toString();
-    } else if (value instanceof Date) {
-      serialized[key] = value.toISOString();
-    } else {
-      serialized[key] = value;
-    }
-  }
-  return serialized;
-}
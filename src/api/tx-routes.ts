@@ -0,0 +1,288 @@
+/**
+ * Uho — Transaction Routes (Platform Mode)
+ *
+ * GET /api/v1/tx/:signature composes everything indexed for one transaction
+ * into a single document: the decoded instructions and events of every
+ * program the user has enabled, token transfers (with the mint's decimals
+ * and a UI amount), the raw log messages, and the slot and block time.
+ * Entries are ordered by their position in the transaction.
+ */
+
+import type { FastifyInstance } from 'fastify';
+import type pg from 'pg';
+import { authMiddleware } from '../middleware/auth.js';
+import { schemaMiddleware } from '../middleware/schema.js';
+import { AppError, NotFoundError } from '../core/errors.js';
+import { parseIDL } from '../core/idl-parser.js';
+import { eventTableNameRaw, instructionTableNameRaw, quoteIdent } from '../core/schema-generator.js';
+import type { AnchorIDL } from '../core/types.js';
+import { serializeRow } from '../core/serialize.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type TxEntryKind = 'instruction' | 'event' | 'token_transfer';
+
+/** One decoded item of a transaction */
+export interface TxEntry {
+  kind: TxEntryKind;
+  /** User program name; null for token transfers */
+  program: string | null;
+  /** Event or instruction name, or the token instruction type */
+  name: string;
+  ixIndex: number;
+  innerIxIndex: number | null;
+  data: Record<string, unknown>;
+}
+
+/** The composed transaction document */
+export interface TxDocument {
+  signature: string;
+  slot: string | null;
+  blockTime: string | null;
+  /** 'confirmed' while any entry is not yet finalized */
+  commitment: string | null;
+  entries: TxEntry[];
+  logs: string[] | null;
+}
+
+/** An event or instruction table enabled on one of the user's programs */
+export interface EnabledTable {
+  kind: 'instruction' | 'event';
+  program: string;
+  name: string;
+  /** Raw (unquoted) table name */
+  table: string;
+}
+
+/** Rows of one enabled event or instruction table */
+export interface TxTableRows {
+  kind: 'instruction' | 'event';
+  program: string;
+  name: string;
+  rows: Array<Record<string, unknown>>;
+}
+
+/** Entries at the same position: the instruction, then its transfers, then its events */
+const KIND_RANK: Record<TxEntryKind, number> = { instruction: 0, token_transfer: 1, event: 2 };
+
+// =============================================================================
+// Route Registration
+// =============================================================================
+
+/**
+ * Registers the composed transaction route.
+ */
+export function registerTxRoutes(app: FastifyInstance, pool: pg.Pool): void {
+  const preHandlers = [authMiddleware, schemaMiddleware];
+
+  // -----------------------------------------------------------------------
+  // GET /api/v1/tx/:signature — Everything indexed for one transaction
+  // -----------------------------------------------------------------------
+  app.get('/api/v1/tx/:signature', { preHandler: preHandlers }, async (request, reply) => {
+    const auth = request.authPayload!;
+    const client = request.schemaClient!;
+    const { signature } = request.params as { signature: string };
+
+    try {
+      const tables = await enabledTables(pool, auth.userId);
+
+      // Skip tables never created (or dropped), plus the shared tables
+      const existing = await client.query(
+        `SELECT relname FROM pg_class
+         WHERE relnamespace = current_schema()::regnamespace AND relkind = 'r' AND relname = ANY($1)`,
+        [[...tables.map((t) => t.table), '_token_transfers', '_tx_logs']]
+      );
+      const present = new Set(existing.rows.map((r) => r.relname as string));
+
+      const tableRows = await fetchTableRows(client, tables.filter((t) => present.has(t.table)), signature);
+
+      // Transfers that didn't record decimals borrow them from the same mint
+      let transfers: Array<Record<string, unknown>> = [];
+      if (present.has('_token_transfers')) {
+        const result = await client.query(
+          `SELECT t.*, COALESCE(t.decimals, m.decimals) AS decimals
+           FROM _token_transfers t
+           LEFT JOIN LATERAL (
+             SELECT d.decimals FROM _token_transfers d
+             WHERE t.decimals IS NULL AND d.mint = t.mint AND d.decimals IS NOT NULL
+             LIMIT 1
+           ) m ON true
+           WHERE t.tx_signature = $1`,
+          [signature]
+        );
+        transfers = result.rows;
+      }
+
+      let logs: { slot: string; log_messages: string[] } | null = null;
+      if (present.has('_tx_logs')) {
+        const result = await client.query(
+          'SELECT slot, log_messages FROM _tx_logs WHERE tx_signature = $1',
+          [signature]
+        );
+        logs = result.rows[0] ?? null;
+      }
+
+      const document = composeTransaction(signature, tableRows, transfers, logs);
+      if (document.entries.length === 0 && document.logs === null) {
+        throw new NotFoundError(`Transaction '${signature}' not found`);
+      }
+      return { data: document };
+    } catch (err) {
+      if (err instanceof AppError) {
+        return reply.status(err.statusCode).send(err.toResponse());
+      }
+      throw err;
+    }
+  });
+}
+
+/**
+ * Lists the event and instruction tables enabled across the user's programs,
+ * with raw (unquoted) table names.
+ */
+export async function enabledTables(pool: pg.Pool, userId: string): Promise<EnabledTable[]> {
+  const result = await pool.query(
+    `SELECT up.name, up.idl, upe.event_name, upe.event_type
+     FROM user_programs up
+     JOIN user_program_events upe ON upe.user_program_id = up.id AND upe.enabled = true
+     WHERE up.user_id = $1 AND up.status != 'archived' AND upe.event_type IN ('event', 'instruction')
+     ORDER BY up.name, upe.event_type, upe.event_name`,
+    [userId]
+  );
+
+  const idlProgramNames = new Map<string, string>();
+  return result.rows.map((row) => {
+    let idlProgramName = idlProgramNames.get(row.name);
+    if (idlProgramName === undefined) {
+      idlProgramName = parseIDL(row.idl as AnchorIDL).programName;
+      idlProgramNames.set(row.name, idlProgramName);
+    }
+    const kind = row.event_type === 'instruction' ? 'instruction' as const : 'event' as const;
+    return {
+      kind,
+      program: row.name as string,
+      name: row.event_name as string,
+      table: kind === 'instruction'
+        ? instructionTableNameRaw(idlProgramName, row.event_name)
+        : eventTableNameRaw(idlProgramName, row.event_name),
+    };
+  });
+}
+
+/**
+ * Reads a transaction's rows from the given tables. One query finds the
+ * tables holding any, so only those are read.
+ */
+export async function fetchTableRows(
+  client: pg.ClientBase,
+  tables: EnabledTable[],
+  signature: string
+): Promise<TxTableRows[]> {
+  if (tables.length === 0) return [];
+
+  const probes = tables.map((table, i) =>
+    `SELECT ${i} AS idx WHERE EXISTS (SELECT 1 FROM ${quoteIdent(table.table)} WHERE tx_signature = $1)`
+  );
+  const hits = await client.query(probes.join('\nUNION ALL\n'), [signature]);
+
+  const tableRows: TxTableRows[] = [];
+  for (const idx of hits.rows.map((r) => Number(r.idx)).sort((a, b) => a - b)) {
+    const table = tables[idx];
+    const result = await client.query(
+      `SELECT * FROM ${quoteIdent(table.table)} WHERE tx_signature = $1`,
+      [signature]
+    );
+    if (result.rows.length > 0) {
+      tableRows.push({ kind: table.kind, program: table.program, name: table.name, rows: result.rows });
+    }
+  }
+  return tableRows;
+}
+
+// =============================================================================
+// Composition
+// =============================================================================
+
+/**
+ * Composes the rows found for a transaction into one document, ordered by
+ * (ix_index, inner_ix_index, kind, event_index). Top-level rows (no inner
+ * index) come before the inner instructions they invoked.
+ */
+export function composeTransaction(
+  signature: string,
+  tables: TxTableRows[],
+  transfers: Array<Record<string, unknown>>,
+  logs: { slot: unknown; log_messages: string[] } | null
+): TxDocument {
+  const entries: Array<TxEntry & { eventIndex: number }> = [];
+  const allRows: Array<Record<string, unknown>> = [];
+
+  for (const table of tables) {
+    for (const row of table.rows) {
+      allRows.push(row);
+      entries.push({
+        kind: table.kind,
+        program: table.program,
+        name: table.name,
+        ixIndex: Number(row.ix_index),
+        innerIxIndex: row.inner_ix_index == null ? null : Number(row.inner_ix_index),
+        eventIndex: row.event_index == null ? 0 : Number(row.event_index),
+        data: serializeRow(row),
+      });
+    }
+  }
+
+  for (const row of transfers) {
+    allRows.push(row);
+    const decimals = row.decimals == null ? null : Number(row.decimals);
+    entries.push({
+      kind: 'token_transfer',
+      program: null,
+      name: String(row.instruction_type),
+      ixIndex: Number(row.ix_index),
+      innerIxIndex: row.inner_ix_index == null ? null : Number(row.inner_ix_index),
+      eventIndex: 0,
+      data: {
+        ...serializeRow(row),
+        decimals,
+        ui_amount: decimals === null ? null : formatUiAmount(String(row.amount), decimals),
+      },
+    });
+  }
+
+  entries.sort((a, b) =>
+    a.ixIndex - b.ixIndex ||
+    (a.innerIxIndex ?? -1) - (b.innerIxIndex ?? -1) ||
+    KIND_RANK[a.kind] - KIND_RANK[b.kind] ||
+    a.eventIndex - b.eventIndex
+  );
+
+  const first = allRows[0];
+  const blockTime = allRows.find((r) => r.block_time != null)?.block_time;
+  const commitment = allRows.length === 0
+    ? null
+    : allRows.some((r) => r.commitment === 'confirmed') ? 'confirmed' : 'finalized';
+
+  return {
+    signature,
+    slot: first ? String(first.slot) : logs ? String(logs.slot) : null,
+    blockTime: blockTime instanceof Date ? blockTime.toISOString() : blockTime == null ? null : String(blockTime),
+    commitment,
+    entries: entries.map(({ eventIndex: _eventIndex, ...entry }) => entry),
+    logs: logs ? logs.log_messages : null,
+  };
+}
+
+/**
+ * Formats a raw integer token amount with the mint's decimals, e.g.
+ * ('1500000', 6) → '1.5'.
+ */
+export function formatUiAmount(amount: string, decimals: number): string {
+  if (decimals <= 0) return amount;
+  const padded = amount.padStart(decimals + 1, '0');
+  const whole = padded.slice(0, -decimals);
+  const fraction = padded.slice(-decimals).replace(/0+$/, '');
+  return fraction ? `${whole}.${fraction}` : whole;
+}
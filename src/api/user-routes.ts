@@ -1,18 +1,21 @@
 /**
  * Uho — User Routes
  *
- * User profile management and API key CRUD operations.
+ * User profile management, usage history and API key CRUD operations.
  * Routes are under /api/v1/user/*.
  */
 
 import type { FastifyInstance } from 'fastify';
 import type pg from 'pg';
 import type { UserService } from '../services/user-service.js';
+import type { PlanService } from '../services/plan-service.js';
+import { parseHistoryQuery, type UsageService } from '../services/usage-service.js';
+import { csvLine } from '../services/export-formats.js';
+import type { UsageHistoryPoint } from '../core/types.js';
 import { authMiddleware, jwtOnlyMiddleware } from '../middleware/auth.js';
 import { generateApiKey, hashApiKey } from '../auth/api-keys.js';
 import { hashPassword, verifyPassword, validatePasswordStrength } from '../auth/passwords.js';
 import { AppError, ValidationError, NotFoundError, ForbiddenError } from '../core/errors.js';
-import { FREE_TIER_LIMITS } from '../core/platform-config.js';
 
 // =============================================================================
 // Route Registration
@@ -24,7 +27,9 @@ import { FREE_TIER_LIMITS } from '../core/platform-config.js';
 export function registerUserRoutes(
   app: FastifyInstance,
   userService: UserService,
-  pool: pg.Pool
+  pool: pg.Pool,
+  planService: PlanService,
+  usageService: UsageService
 ): void {
   // -----------------------------------------------------------------------
   // GET /api/v1/user/me — Get user profile
@@ -113,6 +118,47 @@ export function registerUserRoutes(
     }
   });
 
+  // -----------------------------------------------------------------------
+  // GET /api/v1/user/usage/history — Usage per metric, program and bucket
+  // -----------------------------------------------------------------------
+  app.get('/api/v1/user/usage/history', { preHandler: authMiddleware }, async (request, reply) => {
+    const auth = request.authPayload!;
+    const query = request.query as {
+      metric?: string;
+      granularity?: string;
+      from?: string;
+      to?: string;
+      format?: string;
+    };
+
+    try {
+      if (query.format !== undefined && query.format !== 'json' && query.format !== 'csv') {
+        throw new ValidationError('format must be json or csv');
+      }
+      const historyQuery = parseHistoryQuery(query);
+      const points = await usageService.getHistory(auth.userId, historyQuery);
+
+      if (query.format === 'csv') {
+        return reply
+          .header('Content-Type', 'text/csv; charset=utf-8')
+          .header('Content-Disposition', 'attachment; filename="usage-history.csv"')
+          .send(formatHistoryCsv(points));
+      }
+      return {
+        metric: historyQuery.metric ?? null,
+        granularity: historyQuery.granularity,
+        from: historyQuery.from.toISOString(),
+        to: historyQuery.to.toISOString(),
+        data: points.map((point) => ({ ...point, period: point.period.toISOString() })),
+      };
+    } catch (err) {
+      if (err instanceof AppError) {
+        return reply.status(err.statusCode).send(err.toResponse());
+      }
+      throw err;
+    }
+  });
+
   // -----------------------------------------------------------------------
   // GET /api/v1/user/api-keys — List API keys (masked)
   // -----------------------------------------------------------------------
@@ -146,12 +192,13 @@ export function registerUserRoutes(
     const body = request.body as { label?: string } | null;
 
     try {
-      // Check limit
+      // Check plan limit
+      const { apiKeys } = await planService.getLimits(auth.userId);
       const countResult = await pool.query(
         `SELECT COUNT(*)::int as count FROM api_keys WHERE user_id = $1 AND revoked = false`,
         [auth.userId]
       );
-      if (countResult.rows[0].count >= FREE_TIER_LIMITS.apiKeys) {
+      if (countResult.rows[0].count >= apiKeys) {
         throw new ForbiddenError('API key limit reached for your tier');
       }
 
@@ -223,3 +270,21 @@ export function registerUserRoutes(
     return { message: 'API key revoked' };
   });
 }
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Formats usage history as CSV, one row per metric, program and bucket.
+ */
+function formatHistoryCsv(points: UsageHistoryPoint[]): string {
+  return csvLine(['period', 'metric', 'program_id', 'program_name', 'count']) +
+    points.map((point) => csvLine([
+      point.period.toISOString(),
+      point.metric,
+      point.programId ?? '',
+      point.programName ?? '',
+      String(point.count),
+    ])).join('');
+}
@@ -1,12 +1,16 @@
 /**
  * Uho — Webhook Routes
  *
- * CRUD routes for webhook subscriptions.
+ * CRUD routes for webhook subscriptions, plus the delivery log, manual
+ * redelivery, replays of indexed events and test events.
  * Routes are under /api/v1/webhooks/*.
  */
 
 import type { FastifyInstance } from 'fastify';
 import type { WebhookService } from '../services/webhook-service.js';
+import { redactSinkConfig } from '../services/webhook-sinks.js';
+import { redactHeaders } from '../services/webhook-payloads.js';
+import type { WebhookPayloadFormat } from '../core/types.js';
 import { authMiddleware, jwtOnlyMiddleware } from '../middleware/auth.js';
 import { AppError } from '../core/errors.js';
 
@@ -33,11 +37,18 @@ export function registerWebhookRoutes(
         id: w.id,
         userProgramId: w.userProgramId,
         url: w.url,
+        sink: redactSinkConfig(w.sink),
         events: w.events,
         filters: w.filters,
         active: w.active,
         lastTriggered: w.lastTriggered ? w.lastTriggered.toISOString() : null,
         failureCount: w.failureCount,
+        batchMaxEvents: w.batchMaxEvents,
+        batchMaxWaitMs: w.batchMaxWaitMs,
+        payloadFormat: w.payloadFormat,
+        payloadTemplate: w.payloadTemplate,
+        payloadFields: w.payloadFields,
+        customHeaders: redactHeaders(w.customHeaders),
         createdAt: w.createdAt.toISOString(),
       })),
     };
@@ -51,13 +62,20 @@ export function registerWebhookRoutes(
     const body = request.body as {
       userProgramId?: string;
       url?: string;
+      sink?: Record<string, unknown>;
       events?: string[];
-      filters?: Record<string, unknown>;
+      filters?: string | Record<string, unknown> | null;
+      batchMaxEvents?: number;
+      batchMaxWaitMs?: number;
+      payloadFormat?: WebhookPayloadFormat;
+      payloadTemplate?: unknown;
+      payloadFields?: string[] | null;
+      customHeaders?: Record<string, string> | null;
     } | null;
 
-    if (!body?.userProgramId || !body?.url) {
+    if (!body?.userProgramId || (!body?.url && !body?.sink)) {
       return reply.status(422).send({
-        error: { code: 'VALIDATION_ERROR', message: 'userProgramId and url are required' },
+        error: { code: 'VALIDATION_ERROR', message: 'userProgramId and url (or sink) are required' },
       });
     }
 
@@ -65,16 +83,31 @@ export function registerWebhookRoutes(
       const webhook = await webhookService.create(auth.userId, {
         userProgramId: body.userProgramId,
         url: body.url,
+        sink: body.sink,
         events: body.events,
         filters: body.filters,
+        batchMaxEvents: body.batchMaxEvents,
+        batchMaxWaitMs: body.batchMaxWaitMs,
+        payloadFormat: body.payloadFormat,
+        payloadTemplate: body.payloadTemplate,
+        payloadFields: body.payloadFields,
+        customHeaders: body.customHeaders,
       });
 
       return reply.status(201).send({
         id: webhook.id,
         url: webhook.url,
+        sink: redactSinkConfig(webhook.sink),
         secret: webhook.secret, // Shown only once
         events: webhook.events,
+        filters: webhook.filters,
         active: webhook.active,
+        batchMaxEvents: webhook.batchMaxEvents,
+        batchMaxWaitMs: webhook.batchMaxWaitMs,
+        payloadFormat: webhook.payloadFormat,
+        payloadTemplate: webhook.payloadTemplate,
+        payloadFields: webhook.payloadFields,
+        customHeaders: redactHeaders(webhook.customHeaders),
         createdAt: webhook.createdAt.toISOString(),
       });
     } catch (err) {
@@ -93,9 +126,16 @@ export function registerWebhookRoutes(
     const { id } = request.params as { id: string };
     const body = request.body as {
       url?: string;
+      sink?: Record<string, unknown>;
       events?: string[];
-      filters?: Record<string, unknown>;
+      filters?: string | Record<string, unknown> | null;
       active?: boolean;
+      batchMaxEvents?: number;
+      batchMaxWaitMs?: number;
+      payloadFormat?: WebhookPayloadFormat;
+      payloadTemplate?: unknown;
+      payloadFields?: string[] | null;
+      customHeaders?: Record<string, string> | null;
     } | null;
 
     try {
@@ -104,9 +144,16 @@ export function registerWebhookRoutes(
       return {
         id: webhook.id,
         url: webhook.url,
+        sink: redactSinkConfig(webhook.sink),
         events: webhook.events,
         filters: webhook.filters,
         active: webhook.active,
+        batchMaxEvents: webhook.batchMaxEvents,
+        batchMaxWaitMs: webhook.batchMaxWaitMs,
+        payloadFormat: webhook.payloadFormat,
+        payloadTemplate: webhook.payloadTemplate,
+        payloadFields: webhook.payloadFields,
+        customHeaders: redactHeaders(webhook.customHeaders),
         updatedAt: webhook.updatedAt.toISOString(),
       };
     } catch (err) {
@@ -117,6 +164,27 @@ export function registerWebhookRoutes(
     }
   });
 
+  // -----------------------------------------------------------------------
+  // POST /api/v1/webhooks/:id/test — Send a test event
+  // -----------------------------------------------------------------------
+  app.post('/api/v1/webhooks/:id/test', { preHandler: jwtOnlyMiddleware }, async (request, reply) => {
+    const auth = request.authPayload!;
+    const { id } = request.params as { id: string };
+    const body = request.body as { eventName?: string; data?: Record<string, unknown> } | null;
+
+    try {
+      return await webhookService.sendTest(auth.userId, id, {
+        eventName: body?.eventName,
+        data: body?.data,
+      });
+    } catch (err) {
+      if (err instanceof AppError) {
+        return reply.status(err.statusCode).send(err.toResponse());
+      }
+      throw err;
+    }
+  });
+
   // -----------------------------------------------------------------------
   // DELETE /api/v1/webhooks/:id — Delete a webhook
   // -----------------------------------------------------------------------
@@ -134,4 +202,86 @@ export function registerWebhookRoutes(
       throw err;
     }
   });
+
+  // -----------------------------------------------------------------------
+  // GET /api/v1/webhooks/deliveries — List delivery attempts, newest first
+  // -----------------------------------------------------------------------
+  app.get('/api/v1/webhooks/deliveries', { preHandler: authMiddleware }, async (request, reply) => {
+    const auth = request.authPayload!;
+    const query = request.query as { webhookId?: string; success?: string; limit?: string; offset?: string };
+    const limit = Math.min(Math.max(parseInt(query.limit || '50', 10), 1), 100);
+    const offset = Math.max(parseInt(query.offset || '0', 10), 0);
+
+    try {
+      const { deliveries, total } = await webhookService.listDeliveries(auth.userId, {
+        webhookId: query.webhookId,
+        success: query.success === undefined ? undefined : query.success === 'true',
+        limit,
+        offset,
+      });
+
+      return {
+        data: deliveries.map((d) => ({
+          id: d.id,
+          webhookId: d.webhookId,
+          eventType: d.eventType,
+          payload: d.payload,
+          responseStatus: d.responseStatus,
+          responseBody: d.responseBody,
+          attempt: d.attempt,
+          success: d.success,
+          deliveredAt: d.deliveredAt.toISOString(),
+        })),
+        pagination: { limit, offset, total },
+      };
+    } catch (err) {
+      if (err instanceof AppError) {
+        return reply.status(err.statusCode).send(err.toResponse());
+      }
+      throw err;
+    }
+  });
+
+  // -----------------------------------------------------------------------
+  // POST /api/v1/webhooks/deliveries/:id/redeliver — Send a delivery again
+  // -----------------------------------------------------------------------
+  app.post('/api/v1/webhooks/deliveries/:id/redeliver', { preHandler: jwtOnlyMiddleware }, async (request, reply) => {
+    const auth = request.authPayload!;
+    const { id } = request.params as { id: string };
+
+    try {
+      const enqueued = await webhookService.redeliver(auth.userId, id);
+      return reply.status(202).send({ enqueued });
+    } catch (err) {
+      if (err instanceof AppError) {
+        return reply.status(err.statusCode).send(err.toResponse());
+      }
+      throw err;
+    }
+  });
+
+  // -----------------------------------------------------------------------
+  // POST /api/v1/webhooks/:id/replay — Re-deliver indexed events in a slot range
+  // -----------------------------------------------------------------------
+  app.post('/api/v1/webhooks/:id/replay', { preHandler: jwtOnlyMiddleware }, async (request, reply) => {
+    const auth = request.authPayload!;
+    const { id } = request.params as { id: string };
+    const query = request.query as { fromSlot?: string; toSlot?: string };
+
+    try {
+      const result = await webhookService.replay(
+        auth.userId,
+        auth.schemaName,
+        id,
+        query.fromSlot ? Number(query.fromSlot) : NaN,
+        query.toSlot ? Number(query.toSlot) : NaN
+      );
+      return reply.status(202).send(result);
+    } catch (err) {
+      if (err instanceof AppError) {
+        return reply.status(err.statusCode).send(err.toResponse());
+      }
+      throw err;
+    }
+  });
 }
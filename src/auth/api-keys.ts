@@ -51,3 +51,19 @@ export function isValidApiKeyFormat(key: string): boolean {
   const randomPart = key.slice(API_KEY_PREFIX.length);
   return randomPart.length === KEY_HEX_LENGTH && /^[a-f0-9]+$/.test(randomPart);
 }
+
+// =============================================================================
+// Ingest Secrets
+// =============================================================================
+
+/** Ingest secret prefix, distinct from API keys so one can't stand in for the other */
+const INGEST_SECRET_PREFIX = 'uho_whsec_';
+
+/**
+ * Generates a push ingestion secret for one user program with its hash.
+ * The raw secret is returned for one-time display; only the hash is stored.
+ */
+export function generateIngestSecret(): { secret: string; hash: string } {
+  const secret = `${INGEST_SECRET_PREFIX}${crypto.randomBytes(24).toString('hex')}`;
+  return { secret, hash: hashApiKey(secret) };
+}
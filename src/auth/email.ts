@@ -1,7 +1,8 @@
 /**
  * Uho — Email Service
  *
- * Sends transactional emails (verification, password reset) via Resend.
+ * Sends transactional emails (verification, password reset, usage alerts)
+ * via Resend.
  * Generates verification codes and reset tokens.
  */
 
@@ -106,3 +107,72 @@ export async function sendPasswordResetEmail(
     `,
   });
 }
+
+/**
+ * Sends a usage alert when a user crosses a threshold of one of their limits.
+ */
+export async function sendUsageThresholdEmail(
+  apiKey: string,
+  email: string,
+  alert: { label: string; threshold: number; usage: number; limit: number; planName: string }
+): Promise<void> {
+  const resend = getResendClient(apiKey);
+  const dashboardUrl = process.env.DASHBOARD_URL || 'https://www.uhoindexing.com';
+  const reached = alert.threshold >= 100;
+
+  await resend.emails.send({
+    from: process.env.EMAIL_FROM || 'Uho <noreply@uhoindexing.com>',
+    to: email,
+    subject: reached
+      ? `You've reached your Uho ${alert.label} limit`
+      : `You've used ${alert.threshold}% of your Uho ${alert.label} limit`,
+    html: `
+      <div style="font-family: sans-serif; max-width: 400px; margin: 0 auto;">
+        <h2>${reached ? 'Limit reached' : 'Usage alert'}</h2>
+        <p>
+          You've used <strong>${alert.usage.toLocaleString('en-US')}</strong> of
+          <strong>${alert.limit.toLocaleString('en-US')}</strong> ${alert.label}
+          on the ${alert.planName} plan.
+        </p>
+        <a href="${dashboardUrl}/settings"
+           style="display: inline-block; padding: 12px 24px; background: #22D3EE; color: #000; font-weight: bold; border-radius: 8px; text-decoration: none;">
+          View Usage
+        </a>
+      </div>
+    `,
+  });
+}
+
+/**
+ * Tells a user their programs were paused because they used up their events
+ * quota.
+ */
+export async function sendQuotaPausedEmail(
+  apiKey: string,
+  email: string,
+  pause: { programs: string[]; used: number; limit: number; planName: string }
+): Promise<void> {
+  const resend = getResendClient(apiKey);
+  const dashboardUrl = process.env.DASHBOARD_URL || 'https://www.uhoindexing.com';
+
+  await resend.emails.send({
+    from: process.env.EMAIL_FROM || 'Uho <noreply@uhoindexing.com>',
+    to: email,
+    subject: 'Uho indexing paused: events quota reached',
+    html: `
+      <div style="font-family: sans-serif; max-width: 400px; margin: 0 auto;">
+        <h2>Indexing paused</h2>
+        <p>
+          You've indexed <strong>${pause.used.toLocaleString('en-US')}</strong> of
+          <strong>${pause.limit.toLocaleString('en-US')}</strong> events on the ${pause.planName} plan,
+          so indexing is paused for: ${pause.programs.join(', ')}.
+        </p>
+        <p>Indexing resumes automatically once your quota is raised or reset.</p>
+        <a href="${dashboardUrl}/settings"
+           style="display: inline-block; padding: 12px 24px; background: #22D3EE; color: #000; font-weight: bold; border-radius: 8px; text-decoration: none;">
+          View Usage
+        </a>
+      </div>
+    `,
+  });
+}
@@ -15,7 +15,8 @@ import { runMigrations } from '../migrations/runner.js';
 import { createPlatformServer } from '../api/server.js';
 import { createWsServer } from '../websocket/server.js';
 import { IndexerOrchestrator } from '../ingestion/orchestrator.js';
-import { getPlatformRpcUrl } from '../core/platform-config.js';
+import { getPlatformRpcUrl, getPlatformGeyserOptions } from '../core/platform-config.js';
+import { ProgramService } from '../services/program-service.js';
 
 // =============================================================================
 // Types
@@ -81,6 +82,7 @@ export async function platformStartCommand(options: PlatformStartOptions): Promi
   // Auto-run migrations on startup
   try {
     await runMigrations(pool);
+    await new ProgramService(pool).upgradeSchemas();
   } catch (migErr) {
     console.error(`⚠️ Migration warning: ${(migErr as Error).message}`);
   }
@@ -138,7 +140,12 @@ Services: ${servicesToStart.join(', ')}
   if (servicesToStart.includes('indexer')) {
     try {
       const rpcUrl = getPlatformRpcUrl();
-      const orchestrator = new IndexerOrchestrator(pool, rpcUrl);
+      const orchestrator = new IndexerOrchestrator(
+        pool,
+        rpcUrl,
+        getPlatformGeyserOptions(),
+        config.resendApiKey
+      );
       await orchestrator.start();
       console.log(`  ⚡ Indexer orchestrator started`);
       writePidFile('indexer');
@@ -212,7 +219,8 @@ export async function platformMigrateCommand(): Promise<void> {
 
   try {
     await runMigrations(pool);
-    console.log('✅ Migrations complete.');
+    const upgraded = await new ProgramService(pool).upgradeSchemas();
+    console.log(`✅ Migrations complete (${upgraded} program schema(s) checked).`);
   } catch (err) {
     console.error(`❌ Migration failed: ${(err as Error).message}`);
     process.exit(1);
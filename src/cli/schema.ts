@@ -9,6 +9,7 @@ import { readFileSync, existsSync } from 'fs';
 import { resolve } from 'path';
 import { loadConfig } from '../core/config.js';
 import { parseAnyIDL } from '../core/idl-parser.js';
+import { applyColumnLayout } from '../core/structured-columns.js';
 import { generateDDL, applySchema } from '../core/schema-generator.js';
 import { createPool, ensureDatabase } from '../core/db.js';
 import { resolveFromRegistry } from '../core/idl-registry.js';
@@ -52,7 +53,8 @@ export async function schemaCommand(options: {
       rawJson = JSON.parse(readFileSync(idlPath, 'utf-8'));
     }
 
-    const { parsed, format } = parseAnyIDL(rawJson);
+    const { parsed: parsedRaw, format } = parseAnyIDL(rawJson);
+    const parsed = applyColumnLayout(parsedRaw, programConfig);
 
     const ddl = generateDDL(parsed, programConfig);
     allDdl.push(...ddl);
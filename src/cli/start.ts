@@ -2,8 +2,8 @@
  * Uho — Start Command
  *
  * Starts the full indexer pipeline: loads config, parses IDLs, connects to
- * PostgreSQL, applies schema, starts pollers for each program, and launches
- * the REST API server.
+ * PostgreSQL, applies schema, starts an ingestion source for each program,
+ * and launches the REST API server.
  */
 
 import { readFileSync, writeFileSync, mkdirSync, existsSync } from 'fs';
@@ -11,17 +11,26 @@ import { resolve, join } from 'path';
 import { Connection, PublicKey } from '@solana/web3.js';
 import { loadConfig, getDefaultRpcUrl } from '../core/config.js';
 import { parseAnyIDL, type IdlFormat } from '../core/idl-parser.js';
+import { applyColumnLayout } from '../core/structured-columns.js';
 import { generateDDL, applySchema } from '../core/schema-generator.js';
 import { createPool, ensureDatabase } from '../core/db.js';
-import { TransactionPoller } from '../ingestion/poller.js';
+import { createIngestionSource, type IngestionSource } from '../ingestion/source.js';
 import { EventDecoder } from '../ingestion/decoder.js';
 import { InstructionDecoder } from '../ingestion/instruction-decoder.js';
 import { TokenTransferDecoder } from '../ingestion/token-transfer-decoder.js';
 import { EventWriter } from '../ingestion/writer.js';
+import { AccountDecoder } from '../ingestion/account-decoder.js';
+import { AccountTracker } from '../ingestion/account-tracker.js';
+import { CommitmentReconciler, reconcileTables } from '../ingestion/reconciler.js';
+import { FanoutWriter } from '../ingestion/fanout-writer.js';
+import { BackfillManager } from '../ingestion/backfill-manager.js';
 import { createServer, startServer } from '../api/server.js';
 import { resolveFromRegistry } from '../core/idl-registry.js';
 import type { AnchorIDL, ParsedIDL, UhoConfig } from '../core/types.js';
 
+/** Delay between passes that fill gaps recorded by the ingestion sources (ms) */
+const GAP_HEALING_INTERVAL_MS = 60_000;
+
 // =============================================================================
 // Start Command
 // =============================================================================
@@ -62,7 +71,8 @@ export async function startCommand(options: { config?: string }): Promise<void>
       rawJson = JSON.parse(readFileSync(idlPath, 'utf-8'));
     }
 
-    const { parsed, format } = parseAnyIDL(rawJson);
+    const { parsed: parsedRaw, format } = parseAnyIDL(rawJson);
+    const parsed = applyColumnLayout(parsedRaw, program);
     parsedIdls.push(parsed);
     idlFormats.set(program.programId, format);
 
@@ -113,7 +123,9 @@ export async function startCommand(options: { config?: string }): Promise<void>
     .map((p) => {
       const fmt = idlFormats.get(p.programId) ?? 'anchor';
       const transfers = p.tokenTransfers ? ' +transfers' : '';
-      return `  ${p.name} (${p.programId.slice(0, 8)}...${p.programId.slice(-4)}) [${fmt}${transfers}]`;
+      const accounts = p.accounts?.length ? ' +accounts' : '';
+      const geyser = p.source === 'geyser' ? ' +geyser' : '';
+      return `  ${p.name} (${p.programId.slice(0, 8)}...${p.programId.slice(-4)}) [${fmt}${transfers}${accounts}${geyser}]`;
     })
     .join('\n');
 
@@ -131,24 +143,26 @@ DB:       postgresql://${config.database.user}@${config.database.host}:${config.
 ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━`);
 
   // -------------------------------------------------------------------------
-  // 6. Start pollers for each program
+  // 6. Start an ingestion source (RPC poller or Geyser stream) per program
   // -------------------------------------------------------------------------
   const connection = new Connection(rpcUrl, 'confirmed');
-  const pollers: TransactionPoller[] = [];
+  const sources: IngestionSource[] = [];
 
   for (let i = 0; i < config.programs.length; i++) {
     const programConfig = config.programs[i];
     const parsedIdl = parsedIdls[i];
     const rawIdl = rawIdls.get(programConfig.programId)!;
 
-    const poller = new TransactionPoller(
+    const source = createIngestionSource(
+      programConfig.source,
       connection,
       new PublicKey(programConfig.programId),
       {
         pollIntervalMs: config.ingestion.pollIntervalMs,
         batchSize: config.ingestion.batchSize,
         startSlot: config.ingestion.startSlot,
-      }
+      },
+      config.ingestion.geyser
     );
 
     const format = idlFormats.get(programConfig.programId) ?? 'anchor';
@@ -156,12 +170,19 @@ DB:       postgresql://${config.database.user}@${config.database.host}:${config.
     const eventDecoder = isNonAnchor ? null : new EventDecoder(parsedIdl, rawIdls.get(programConfig.programId)!);
     const instructionDecoder = parsedIdl.instructions.length > 0 ? new InstructionDecoder(parsedIdl) : null;
     const tokenTransferDecoder = programConfig.tokenTransfers ? new TokenTransferDecoder() : null;
+    const accountTracker = programConfig.accounts?.length && rawIdl
+      ? new AccountTracker(
+          connection,
+          new PublicKey(programConfig.programId),
+          new AccountDecoder(parsedIdl, rawIdl, programConfig.accounts)
+        )
+      : null;
     const writer = new EventWriter(pool, parsedIdl);
 
     // Resume from last known state
     const state = await writer.getState(programConfig.programId);
     if (state?.lastSignature) {
-      poller.setLastSignature(state.lastSignature);
+      source.setLastSignature(state.lastSignature, state.lastSlot);
       console.log(`  📍 Resuming ${programConfig.name} from slot ${state.lastSlot}`);
     }
 
@@ -171,11 +192,17 @@ DB:       postgresql://${config.database.user}@${config.database.host}:${config.
       startedAt: new Date(),
     });
 
-    // Start polling
-    poller.start(async (txs) => {
+    // Start ingesting
+    source.start(async (txs) => {
       let totalIndexed = 0;
       console.log(`  🔍 ${programConfig.name}: processing ${txs.length} transactions`);
 
+      // Record ranges the source could not reach — filled by the gap healer below
+      for (const gap of source.drainGaps()) {
+        await writer.recordGap(programConfig.programId, gap);
+        console.warn(`  🕳️  ${programConfig.name}: recorded gap below slot ${gap.toSlot}`);
+      }
+
       for (const tx of txs) {
         const sig = tx.transaction.signatures[0];
 
@@ -216,12 +243,21 @@ DB:       postgresql://${config.database.user}@${config.database.host}:${config.
         }
       }
 
+      // Refresh state of tracked accounts written by this batch
+      if (accountTracker) {
+        const accountStates = await accountTracker.fetchTouchedAccounts(txs);
+        if (accountStates.length > 0) {
+          const updated = await writer.writeAccountStates(accountStates, programConfig.accountHistory === true);
+          console.log(`  🧾 ${programConfig.name}: updated ${updated} account state(s)`);
+        }
+      }
+
       // Update state after each batch
-      const pollerState = poller.getState();
+      const sourceState = source.getState();
       const currentState = await writer.getState(programConfig.programId);
       await writer.updateState(programConfig.programId, {
-        lastSlot: txs[0]?.slot ?? currentState?.lastSlot ?? 0,
-        lastSignature: pollerState.lastSignature,
+        lastSlot: txs.length > 0 ? Math.max(...txs.map((tx) => tx.slot)) : currentState?.lastSlot ?? 0,
+        lastSignature: sourceState.lastSignature,
         eventsIndexed: (currentState?.eventsIndexed ?? 0) + totalIndexed,
         lastPollAt: new Date(),
       });
@@ -231,19 +267,102 @@ DB:       postgresql://${config.database.user}@${config.database.host}:${config.
       }
     });
 
-    pollers.push(poller);
-    console.log(`  🔄 Polling ${programConfig.name} every ${config.ingestion.pollIntervalMs}ms...`);
+    sources.push(source);
+    if (source.kind === 'geyser') {
+      console.log(`  📡 Streaming ${programConfig.name} from Geyser...`);
+    } else {
+      console.log(`  🔄 Polling ${programConfig.name} every ${config.ingestion.pollIntervalMs}ms...`);
+    }
   }
 
   // -------------------------------------------------------------------------
-  // 7. Start API server
+  // 7. Background maintenance: commitment reconciliation + gap healing
+  // -------------------------------------------------------------------------
+  const reconciler = new CommitmentReconciler(connection);
+  const fanoutWriter = new FanoutWriter(pool);
+  const reconcileIntervalMs = config.ingestion.reconcileIntervalMs ?? 30_000;
+  let reconciling = false;
+
+  const reconcileTimer = reconcileIntervalMs > 0
+    ? setInterval(async () => {
+        if (reconciling) return;
+        reconciling = true;
+        try {
+          const finalizedSlot = await reconciler.getFinalizedSlot();
+          for (let i = 0; i < config.programs.length; i++) {
+            const programConfig = config.programs[i];
+            const parsedIdl = parsedIdls[i];
+            const tables = reconcileTables(
+              parsedIdl,
+              programConfig.events ?? parsedIdl.events.map((e) => e.name),
+              parsedIdl.instructions.map((ix) => ix.name),
+              programConfig.tokenTransfers === true,
+              rawIdls.get(programConfig.programId) as unknown as Record<string, unknown> | undefined
+            );
+
+            const client = await pool.connect();
+            try {
+              const result = await reconciler.reconcile(client, tables, finalizedSlot);
+              if (result.retracted.length > 0) {
+                console.warn(`  ⚠️  ${programConfig.name}: retracted ${result.retracted.length} row(s) from skipped slots`);
+                // Single-user mode has no subscribers or webhooks — the NOTIFY
+                // reaches consumers listening on uho_events
+                await fanoutWriter.notifyRetracted(programConfig.programId, result.retracted, []);
+              }
+            } finally {
+              client.release();
+            }
+          }
+        } catch (err) {
+          console.error(`  ❌ Commitment reconciliation failed: ${(err as Error).message}`);
+        } finally {
+          reconciling = false;
+        }
+      }, reconcileIntervalMs)
+    : null;
+
+  const backfillManager = new BackfillManager(pool);
+  let healing = false;
+
+  const gapTimer = setInterval(async () => {
+    if (healing) return;
+    healing = true;
+    try {
+      for (let i = 0; i < config.programs.length; i++) {
+        const programConfig = config.programs[i];
+        const parsedIdl = parsedIdls[i];
+        // Mirror the live path: Anchor programs index events, Shank/Codama instructions
+        const format = idlFormats.get(programConfig.programId) ?? 'anchor';
+        const isNonAnchor = format === 'shank' || format === 'codama';
+        await backfillManager.fillGaps(connection, {
+          programId: programConfig.programId,
+          parsedIdl,
+          rawIdl: rawIdls.get(programConfig.programId) ?? null,
+          targets: [{
+            schemaName: null,
+            parsedIdl,
+            enabledEvents: isNonAnchor ? [] : programConfig.events ?? parsedIdl.events.map((e) => e.name),
+            enabledInstructions: isNonAnchor ? parsedIdl.instructions.map((ix) => ix.name) : [],
+            tokenTransfers: programConfig.tokenTransfers === true,
+          }],
+        });
+      }
+    } catch (err) {
+      console.error(`  ❌ Gap healing failed: ${(err as Error).message}`);
+    } finally {
+      healing = false;
+    }
+  }, GAP_HEALING_INTERVAL_MS);
+
+  // -------------------------------------------------------------------------
+  // 8. Start API server
   // -------------------------------------------------------------------------
   const app = await createServer(config, pool, parsedIdls);
   await startServer(app, config);
   console.log(`  🌐 API server listening on http://${config.api.host}:${config.api.port}`);
 
   // -------------------------------------------------------------------------
-  // 8. Write PID file and state
+  // 9. Write PID file and state
   // -------------------------------------------------------------------------
   const uhoDir = join(process.cwd(), '.uho');
   if (!existsSync(uhoDir)) mkdirSync(uhoDir, { recursive: true });
@@ -264,15 +383,17 @@ DB:       postgresql://${config.database.user}@${config.database.host}:${config.
   );
 
   // -------------------------------------------------------------------------
-  // 9. Graceful shutdown handler
+  // 10. Graceful shutdown handler
   // -------------------------------------------------------------------------
   const shutdown = async (signal: string) => {
     console.log(`\n⏹️  Received ${signal}, shutting down...`);
 
-    // Stop pollers
-    for (const poller of pollers) {
-      poller.stop();
+    // Stop ingestion sources
+    for (const source of sources) {
+      source.stop();
     }
+    if (reconcileTimer) clearInterval(reconcileTimer);
+    clearInterval(gapTimer);
 
     // Update state to stopped for each program
     for (const programConfig of config.programs) {
@@ -2,13 +2,16 @@
  * Uho — Status Command
  *
  * Shows the current indexer status including process info,
- * per-program state, and API availability.
+ * per-program state, unfilled ingestion gaps, and API availability.
  */
 
 import { existsSync, readFileSync } from 'fs';
 import { join } from 'path';
 import { loadConfig } from '../core/config.js';
+import type pg from 'pg';
 import { createPool } from '../core/db.js';
+import { mapGapRow } from '../ingestion/writer.js';
+import type { GapRecord } from '../core/types.js';
 
 // =============================================================================
 // Status Command
@@ -81,6 +84,17 @@ export async function statusCommand(options: { config?: string }): Promise<void>
           if (row.error) {
             console.log(`    Error:          ${row.error}`);
           }
+
+          const gaps = await getUnfilledGaps(pool, row.program_id);
+          if (gaps.length > 0) {
+            console.log(`    Open Gaps:      ${gaps.length}`);
+            for (const gap of gaps) {
+              const from = gap.fromSlot != null ? gap.fromSlot.toLocaleString() : '?';
+              const to = gap.toSlot.toLocaleString();
+              const detail = gap.error ? ` — ${gap.error}` : '';
+              console.log(`      slots ${to} → ${from} [${gap.status}, ${gap.attempts} attempt(s)]${detail}`);
+            }
+          }
         }
       } else {
         console.log('\nNo programs tracked yet. Run `uho start` first.');
@@ -102,6 +116,22 @@ export async function statusCommand(options: { config?: string }): Promise<void>
 // Helpers
 // =============================================================================
 
+/**
+ * Returns a program's unfilled gaps, or none if the _uho_gaps table doesn't
+ * exist yet (schema applied by an older version).
+ */
+async function getUnfilledGaps(pool: pg.Pool, programId: string): Promise<GapRecord[]> {
+  try {
+    const result = await pool.query(
+      `SELECT * FROM _uho_gaps WHERE program_id = $1 AND status <> 'filled' ORDER BY to_slot DESC`,
+      [programId]
+    );
+    return result.rows.map(mapGapRow);
+  } catch {
+    return [];
+  }
+}
+
 /**
  * Formats a duration in milliseconds to a human-readable string.
  * Examples: "2h 15m", "45s", "3d 2h"
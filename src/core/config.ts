@@ -55,6 +55,10 @@ const configSchema = z.object({
     idl: z.string().min(1, 'IDL path or registry name is required'),
     events: z.array(z.string()).optional(),
     tokenTransfers: z.boolean().optional(),
+    accounts: z.array(z.string()).optional(),
+    accountHistory: z.boolean().optional(),
+    structuredColumns: z.boolean().optional(),
+    source: z.enum(['rpc', 'geyser']).optional(),
   })).min(1, 'At least one program must be configured'),
   api: z.object({
     port: z.number().int().min(1).max(65535).default(3000),
@@ -64,7 +68,22 @@ const configSchema = z.object({
     pollIntervalMs: z.number().int().min(100).default(2000),
     batchSize: z.number().int().min(1).max(1000).default(25),
     startSlot: z.number().int().optional(),
+    reconcileIntervalMs: z.number().int().min(0).default(30_000),
+    geyser: z.object({
+      endpoint: z.string().url(),
+      xToken: z.string().optional(),
+    }).optional(),
   }).default({}),
+}).superRefine((config, ctx) => {
+  config.programs.forEach((program, i) => {
+    if (program.source === 'geyser' && !config.ingestion.geyser) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['programs', i, 'source'],
+        message: 'source "geyser" requires ingestion.geyser.endpoint to be configured',
+      });
+    }
+  });
 });
 
 // =============================================================================
@@ -135,6 +154,12 @@ export async function loadConfig(configPath?: string): Promise<UhoConfig> {
 
   const config = validateConfig(parsed);
 
+  // Keep the Geyser token out of uho.yaml if it's set in the environment
+  const geyser = config.ingestion.geyser;
+  if (geyser && !geyser.xToken && process.env.GEYSER_X_TOKEN) {
+    geyser.xToken = process.env.GEYSER_X_TOKEN;
+  }
+
   // Resolve IDL paths: check registry first, then resolve as file path
   const { lookupRegistry } = await import('./idl-registry.js');
   const configDir = dirname(filePath);
@@ -168,6 +168,26 @@ export async function inUserSchema<T>(
   }
 }
 
+/**
+ * Opens a connection outside the pool with the search_path set to the user's
+ * schema, for long-running work that shouldn't hold one of the pool's clients.
+ * The caller MUST end the client when done.
+ */
+export async function connectUserSchema(pool: pg.Pool, schemaName: string): Promise<pg.Client> {
+  if (!validateSchemaName(schemaName)) {
+    throw new Error(`Invalid schema name: ${schemaName}`);
+  }
+  const client = new pg.Client(pool.options);
+  await client.connect();
+  try {
+    await client.query(`SET search_path TO ${schemaName}, public`);
+  } catch (err) {
+    await client.end();
+    throw err;
+  }
+  return client;
+}
+
 /**
  * Creates a new PostgreSQL schema for a user.
  * Validates the name to prevent injection.
@@ -0,0 +1,629 @@
+/**
+ * Uho — Filter Expressions
+ *
+ * The filter language webhooks and WebSocket subscriptions use to pick events
+ * by their data. An expression is written as a string:
+ *
+ *   amount_in > 1e9 and mint in ("A", "B") and not (side = "sell")
+ *
+ * or as the JSON tree it parses to, which is how it is stored and evaluated:
+ *
+ *   { "and": [
+ *       { "field": "amount_in", "op": "gt", "value": 1000000000 },
+ *       { "field": "mint", "op": "in", "value": ["A", "B"] },
+ *       { "not": { "field": "side", "op": "eq", "value": "sell" } } ] }
+ *
+ * Operators follow the data routes' filter suffixes: eq, ne, gt, gte, lt, lte,
+ * in, not_in, prefix and is_null. Fields are dotted paths into the event data
+ * (`params.amount_in`, `route.0`). Numbers compare exactly as decimals, so
+ * u64/u128 values — decimal strings in event data — compare correctly beyond
+ * 2^53. A condition on a field the event lacks is false, except `is_null`.
+ * The original `{ "field": value }` map is still accepted, as ANDed eq
+ * conditions.
+ */
+
+import type { ParsedEvent, ParsedField } from './types.js';
+import { ValidationError } from './errors.js';
+import { parseAnyIDL, toSnakeCase } from './idl-parser.js';
+import { columnForPath, findFieldValue } from './structured-columns.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type FilterOperator = 'eq' | 'ne' | 'gt' | 'gte' | 'lt' | 'lte' | 'in' | 'not_in' | 'prefix' | 'is_null';
+
+/** A literal in a condition; numbers too large for a double are decimal strings */
+export type FilterValue = string | number | boolean | null;
+
+/** A comparison of one field against a value */
+export interface FilterCondition {
+  field: string;
+  op: FilterOperator;
+  value?: FilterValue | FilterValue[];
+}
+
+export type FilterExpression =
+  | { and: FilterExpression[] }
+  | { or: FilterExpression[] }
+  | { not: FilterExpression }
+  | FilterCondition;
+
+/** An exact decimal: digits / 10^scale */
+interface Decimal {
+  digits: bigint;
+  scale: number;
+}
+
+type Token =
+  | { kind: 'word'; text: string; pos: number }
+  | { kind: 'number'; text: string; pos: number }
+  | { kind: 'string'; text: string; pos: number }
+  | { kind: 'punct'; text: string; pos: number }
+  | { kind: 'end'; text: ''; pos: number };
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const MAX_EXPRESSION_LENGTH = 4096;
+const MAX_NODES = 200;
+const MAX_DEPTH = 20;
+const MAX_LIST_VALUES = 500;
+
+/** Decimal exponents beyond this are rejected rather than expanded */
+const MAX_EXPONENT = 100;
+
+const OPERATORS = new Set<FilterOperator>(['eq', 'ne', 'gt', 'gte', 'lt', 'lte', 'in', 'not_in', 'prefix', 'is_null']);
+
+const RANGE_OPERATORS = new Set<FilterOperator>(['gt', 'gte', 'lt', 'lte']);
+
+/** Comparison symbols of the string syntax */
+const SYMBOLS: Record<string, FilterOperator> = {
+  '=': 'eq', '==': 'eq', '!=': 'ne', '<>': 'ne', '>': 'gt', '>=': 'gte', '<': 'lt', '<=': 'lte',
+};
+
+/** IDL types compared as numbers (optionally wrapped in option<>) */
+const NUMERIC_TYPE = /^(option<)?([ui](8|16|32|64|128|256)|f32|f64)>?$/;
+
+const PATH_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z0-9_]+)*$/;
+
+const DECIMAL_PATTERN = /^([+-]?)(\d+)(?:\.(\d+))?(?:[eE]([+-]?\d+))?$/;
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+/**
+ * Normalizes a filter as given by a user — an expression string, an
+ * expression tree or a `{ field: value }` map — into an expression tree.
+ * Returns null for an empty filter (match everything).
+ */
+export function parseFilterExpression(input: unknown): FilterExpression | null {
+  if (input === null || input === undefined) return null;
+
+  let expression: FilterExpression | null;
+  if (typeof input === 'string') {
+    if (input.trim() === '') return null;
+    if (input.length > MAX_EXPRESSION_LENGTH) {
+      throw new ValidationError(`Invalid filter: longer than ${MAX_EXPRESSION_LENGTH} characters`);
+    }
+    expression = new ExpressionParser(input).parse();
+  } else if (typeof input === 'object' && !Array.isArray(input)) {
+    const obj = input as Record<string, unknown>;
+    if (Object.keys(obj).length === 0) return null;
+    expression = isExpressionNode(obj) ? normalizeNode(obj, 0) : fromFieldMap(obj);
+  } else {
+    throw new ValidationError('Invalid filter: expected an expression string or object');
+  }
+
+  if (countNodes(expression) > MAX_NODES) {
+    throw new ValidationError(`Invalid filter: more than ${MAX_NODES} conditions and operators`);
+  }
+  return expression;
+}
+
+/**
+ * Reads a filter stored in the database. Filters saved before expressions
+ * were validated may not parse; those match nothing rather than failing the
+ * webhook's deliveries.
+ */
+export function parseStoredFilter(stored: unknown): FilterExpression | null {
+  try {
+    return parseFilterExpression(typeof stored === 'string' ? JSON.parse(stored) : stored);
+  } catch {
+    return { or: [] };
+  }
+}
+
+/**
+ * Recursive-descent parser for the string syntax. `or` binds loosest, then
+ * `and`, then `not`; keywords are case-insensitive.
+ */
+class ExpressionParser {
+  private tokens: Token[];
+  private index = 0;
+  private depth = 0;
+
+  constructor(private source: string) {
+    this.tokens = tokenize(source);
+  }
+
+  parse(): FilterExpression {
+    const expression = this.parseOr();
+    if (this.peek().kind !== 'end') this.fail(`unexpected '${this.peek().text}'`);
+    return expression;
+  }
+
+  private parseOr(): FilterExpression {
+    const terms = [this.parseAnd()];
+    while (this.acceptWord('or')) terms.push(this.parseAnd());
+    return terms.length === 1 ? terms[0] : { or: terms };
+  }
+
+  private parseAnd(): FilterExpression {
+    const terms = [this.parseUnary()];
+    while (this.acceptWord('and')) terms.push(this.parseUnary());
+    return terms.length === 1 ? terms[0] : { and: terms };
+  }
+
+  private parseUnary(): FilterExpression {
+    if (++this.depth > MAX_DEPTH) this.fail(`nested deeper than ${MAX_DEPTH} levels`);
+    try {
+      if (this.acceptWord('not')) return { not: this.parseUnary() };
+      if (this.acceptPunct('(')) {
+        const inner = this.parseOr();
+        this.expectPunct(')');
+        return inner;
+      }
+      return this.parseCondition();
+    } finally {
+      this.depth--;
+    }
+  }
+
+  private parseCondition(): FilterCondition {
+    const token = this.next();
+    if (token.kind !== 'word' || isKeyword(token.text)) this.fail(`expected a field name`, token);
+    const field = token.text;
+    if (!PATH_PATTERN.test(field)) this.fail(`invalid field path '${field}'`, token);
+
+    const op = this.peek();
+    if (op.kind === 'punct' && SYMBOLS[op.text]) {
+      this.index++;
+      const operator = SYMBOLS[op.text];
+      const value = this.parseLiteral();
+      return checkCondition({ field, op: operator, value });
+    }
+    if (this.acceptWord('in')) return checkCondition({ field, op: 'in', value: this.parseList() });
+    if (this.acceptWord('not')) {
+      if (!this.acceptWord('in')) this.fail(`expected 'in' after 'not'`);
+      return checkCondition({ field, op: 'not_in', value: this.parseList() });
+    }
+    if (this.acceptWord('prefix')) return checkCondition({ field, op: 'prefix', value: this.parseLiteral() });
+    if (this.acceptWord('is')) {
+      const negated = this.acceptWord('not');
+      if (!this.acceptWord('null')) this.fail(`expected 'null'`);
+      return { field, op: 'is_null', value: !negated };
+    }
+    return this.fail(`expected an operator after '${field}'`, op);
+  }
+
+  private parseList(): FilterValue[] {
+    const open = this.next();
+    const close = open.kind === 'punct' ? { '(': ')', '[': ']', '{': '}' }[open.text] : undefined;
+    if (!close) this.fail(`expected a list like ("a", "b")`, open);
+
+    const values: FilterValue[] = [];
+    if (!this.acceptPunct(close!)) {
+      do values.push(this.parseLiteral());
+      while (this.acceptPunct(','));
+      this.expectPunct(close!);
+    }
+    return values;
+  }
+
+  private parseLiteral(): FilterValue {
+    const token = this.next();
+    if (token.kind === 'string') return token.text;
+    if (token.kind === 'number') return numericLiteral(token.text);
+    if (token.kind === 'word') {
+      const word = token.text.toLowerCase();
+      if (word === 'true' || word === 'false') return word === 'true';
+      if (word === 'null') return null;
+    }
+    return this.fail(`expected a value`, token);
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index];
+    if (token.kind !== 'end') this.index++;
+    return token;
+  }
+
+  private acceptWord(word: string): boolean {
+    const token = this.peek();
+    if (token.kind === 'word' && token.text.toLowerCase() === word) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private acceptPunct(text: string): boolean {
+    const token = this.peek();
+    if (token.kind === 'punct' && token.text === text) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expectPunct(text: string): void {
+    if (!this.acceptPunct(text)) this.fail(`expected '${text}'`);
+  }
+
+  private fail(message: string, token: Token = this.peek()): never {
+    const where = token.kind === 'end' ? 'at end of filter' : `at position ${token.pos + 1}`;
+    throw new ValidationError(`Invalid filter: ${message} ${where}`, { filter: this.source });
+  }
+}
+
+/**
+ * Splits an expression string into tokens.
+ */
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i];
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    const rest = source.slice(i);
+    const number = /^-?\d+(\.\d+)?([eE][+-]?\d+)?/.exec(rest);
+    const word = /^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z0-9_]+)*/.exec(rest);
+    const symbol = /^(==|!=|<>|>=|<=|[=<>(),[\]{}])/.exec(rest);
+
+    if (ch === '"' || ch === "'") {
+      let text = '';
+      let j = i + 1;
+      for (; j < source.length && source[j] !== ch; j++) {
+        if (source[j] === '\\' && j + 1 < source.length) j++;
+        text += source[j];
+      }
+      if (j >= source.length) {
+        throw new ValidationError(`Invalid filter: unterminated string at position ${i + 1}`, { filter: source });
+      }
+      tokens.push({ kind: 'string', text, pos: i });
+      i = j + 1;
+    } else if (number) {
+      tokens.push({ kind: 'number', text: number[0], pos: i });
+      i += number[0].length;
+    } else if (word) {
+      tokens.push({ kind: 'word', text: word[0], pos: i });
+      i += word[0].length;
+    } else if (symbol) {
+      tokens.push({ kind: 'punct', text: symbol[0], pos: i });
+      i += symbol[0].length;
+    } else {
+      throw new ValidationError(`Invalid filter: unexpected '${ch}' at position ${i + 1}`, { filter: source });
+    }
+  }
+
+  tokens.push({ kind: 'end', text: '', pos: source.length });
+  return tokens;
+}
+
+function isKeyword(word: string): boolean {
+  return ['and', 'or', 'not', 'in', 'is', 'null', 'true', 'false', 'prefix'].includes(word.toLowerCase());
+}
+
+/**
+ * Whether an object is an expression node rather than a `{ field: value }`
+ * map: exactly one of `and`, `or`, `not`, or `field` and `op` (and `value`).
+ */
+function isExpressionNode(obj: Record<string, unknown>): boolean {
+  const keys = Object.keys(obj);
+  if (keys.length === 1 && ['and', 'or', 'not'].includes(keys[0])) return true;
+  return 'field' in obj && 'op' in obj && keys.every((k) => k === 'field' || k === 'op' || k === 'value');
+}
+
+/**
+ * Validates and normalizes an expression tree given as JSON.
+ */
+function normalizeNode(node: unknown, depth: number): FilterExpression {
+  if (depth > MAX_DEPTH) throw new ValidationError(`Invalid filter: nested deeper than ${MAX_DEPTH} levels`);
+  if (typeof node !== 'object' || node === null || Array.isArray(node) || !isExpressionNode(node as Record<string, unknown>)) {
+    throw new ValidationError('Invalid filter: each node needs one of and, or, not, or field and op');
+  }
+
+  const obj = node as Record<string, unknown>;
+  if ('and' in obj || 'or' in obj) {
+    const key = 'and' in obj ? 'and' : 'or';
+    const terms = obj[key];
+    if (!Array.isArray(terms) || terms.length === 0) {
+      throw new ValidationError(`Invalid filter: '${key}' needs a non-empty array`);
+    }
+    const normalized = terms.map((t) => normalizeNode(t, depth + 1));
+    return key === 'and' ? { and: normalized } : { or: normalized };
+  }
+  if ('not' in obj) return { not: normalizeNode(obj.not, depth + 1) };
+
+  const { field, op, value } = obj;
+  if (typeof field !== 'string' || !PATH_PATTERN.test(field)) {
+    throw new ValidationError(`Invalid filter: invalid field path '${String(field)}'`);
+  }
+  if (typeof op !== 'string' || !OPERATORS.has(op as FilterOperator)) {
+    throw new ValidationError(`Invalid filter: unknown operator '${String(op)}'`);
+  }
+
+  const literal = (v: unknown): FilterValue => {
+    if (v === null || typeof v === 'string' || typeof v === 'boolean') return v;
+    if (typeof v === 'number' && Number.isFinite(v)) return v;
+    throw new ValidationError(`Invalid filter: unsupported value for '${field}'`);
+  };
+
+  if (op === 'in' || op === 'not_in') {
+    if (!Array.isArray(value)) throw new ValidationError(`Invalid filter: '${field}' ${op} needs an array value`);
+    return checkCondition({ field, op, value: value.map(literal) });
+  }
+  if (op === 'is_null') {
+    if (value !== undefined && typeof value !== 'boolean') {
+      throw new ValidationError(`Invalid filter: '${field}' is_null takes true or false`);
+    }
+    return { field, op, value: value ?? true };
+  }
+  const scalar = literal(value);
+  return checkCondition({
+    field,
+    op: op as FilterOperator,
+    value: RANGE_OPERATORS.has(op as FilterOperator) && typeof scalar === 'string' ? numericLiteral(scalar) : scalar,
+  });
+}
+
+/**
+ * Converts a `{ field: value }` map into ANDed eq conditions.
+ */
+function fromFieldMap(map: Record<string, unknown>): FilterExpression {
+  const conditions = Object.entries(map).map(([field, value]) => normalizeNode({ field, op: 'eq', value }, 1));
+  return conditions.length === 1 ? conditions[0] : { and: conditions };
+}
+
+/**
+ * Checks a condition's value fits its operator.
+ */
+function checkCondition(condition: FilterCondition): FilterCondition {
+  const { field, op, value } = condition;
+  if (RANGE_OPERATORS.has(op) && (typeof value !== 'number' && (typeof value !== 'string' || !parseDecimal(value)))) {
+    throw new ValidationError(`Invalid filter: '${field}' ${op} needs a number`);
+  }
+  if ((op === 'in' || op === 'not_in') && Array.isArray(value)) {
+    if (value.length === 0) throw new ValidationError(`Invalid filter: '${field}' ${op} needs at least one value`);
+    if (value.length > MAX_LIST_VALUES) {
+      throw new ValidationError(`Invalid filter: '${field}' ${op} takes at most ${MAX_LIST_VALUES} values`);
+    }
+  }
+  if (op === 'prefix' && typeof value !== 'string') {
+    throw new ValidationError(`Invalid filter: '${field}' prefix needs a string`);
+  }
+  return condition;
+}
+
+/**
+ * Converts a numeric literal to a number when a double holds it exactly,
+ * and to its exact decimal string otherwise.
+ */
+function numericLiteral(text: string): number | string {
+  const decimal = parseDecimal(text);
+  if (!decimal) throw new ValidationError(`Invalid filter: invalid number '${text}'`);
+  const exact = formatDecimal(decimal);
+  return String(Number(exact)) === exact ? Number(exact) : exact;
+}
+
+function countNodes(expression: FilterExpression): number {
+  if ('and' in expression) return 1 + expression.and.reduce((n, e) => n + countNodes(e), 0);
+  if ('or' in expression) return 1 + expression.or.reduce((n, e) => n + countNodes(e), 0);
+  if ('not' in expression) return 1 + countNodes(expression.not);
+  return 1;
+}
+
+// =============================================================================
+// Evaluation
+// =============================================================================
+
+/**
+ * Checks whether event data matches an expression (null matches everything).
+ */
+export function matchesFilter(expression: FilterExpression | null, data: Record<string, unknown>): boolean {
+  if (!expression) return true;
+  if ('and' in expression) return expression.and.every((e) => matchesFilter(e, data));
+  if ('or' in expression) return expression.or.some((e) => matchesFilter(e, data));
+  if ('not' in expression) return !matchesFilter(expression.not, data);
+  return matchesCondition(expression, resolvePath(data, expression.field));
+}
+
+function matchesCondition({ op, value }: FilterCondition, actual: unknown): boolean {
+  if (op === 'is_null') return (actual === null || actual === undefined) === (value !== false);
+  if (actual === undefined) return false;
+
+  switch (op) {
+    case 'eq':
+      return valuesEqual(actual, value as FilterValue);
+    case 'ne':
+      return !valuesEqual(actual, value as FilterValue);
+    case 'in':
+      return (value as FilterValue[]).some((v) => valuesEqual(actual, v));
+    case 'not_in':
+      return !(value as FilterValue[]).some((v) => valuesEqual(actual, v));
+    case 'prefix':
+      return (typeof actual === 'string' || typeof actual === 'number' || typeof actual === 'bigint')
+        && String(actual).startsWith(value as string);
+    default: {
+      const cmp = compareNumeric(actual, value);
+      if (cmp === null) return false;
+      if (op === 'gt') return cmp > 0;
+      if (op === 'gte') return cmp >= 0;
+      if (op === 'lt') return cmp < 0;
+      return cmp <= 0;
+    }
+  }
+}
+
+/**
+ * Compares a data value with a literal: numerically when either is a number
+ * (decimal strings included), otherwise exactly.
+ */
+function valuesEqual(actual: unknown, expected: FilterValue): boolean {
+  if (expected === null) return actual === null;
+  if (typeof expected === 'boolean') return actual === expected;
+  if (typeof expected === 'number' || typeof actual === 'number' || typeof actual === 'bigint') {
+    return compareNumeric(actual, expected) === 0;
+  }
+  return actual === expected;
+}
+
+/**
+ * Compares two values as exact decimals. Returns null if either isn't a number.
+ */
+export function compareNumeric(a: unknown, b: unknown): number | null {
+  const x = toDecimal(a);
+  const y = toDecimal(b);
+  if (!x || !y) return null;
+
+  const scale = Math.max(x.scale, y.scale);
+  const left = x.digits * 10n ** BigInt(scale - x.scale);
+  const right = y.digits * 10n ** BigInt(scale - y.scale);
+  return left === right ? 0 : left > right ? 1 : -1;
+}
+
+/**
+ * Resolves a dotted path in event data. Keys match in snake_case or
+ * camelCase; numeric segments index arrays. Rows read back from tables
+ * (replays) hold expanded struct members as flat `a_b` columns instead.
+ */
+export function resolvePath(data: Record<string, unknown>, path: string): unknown {
+  const segments = path.split('.');
+  let current: unknown = data;
+
+  for (const segment of segments) {
+    if (Array.isArray(current) && /^\d+$/.test(segment)) {
+      current = current[Number(segment)];
+    } else if (typeof current === 'object' && current !== null) {
+      const obj = current as Record<string, unknown>;
+      current = segment in obj ? obj[segment] : findFieldValue(obj, toSnakeCase(segment));
+    } else {
+      current = undefined;
+    }
+    if (current === undefined) break;
+  }
+
+  if (current === undefined && segments.length > 1) return findFieldValue(data, columnForPath(path));
+  return current;
+}
+
+function toDecimal(value: unknown): Decimal | null {
+  if (typeof value === 'bigint') return { digits: value, scale: 0 };
+  if (typeof value === 'number') return Number.isFinite(value) ? parseDecimal(String(value)) : null;
+  if (typeof value === 'string') return parseDecimal(value.trim());
+  return null;
+}
+
+function parseDecimal(text: string): Decimal | null {
+  const match = DECIMAL_PATTERN.exec(text);
+  if (!match) return null;
+  const [, sign, whole, fraction = '', exponentText = '0'] = match;
+  const exponent = Number(exponentText);
+  if (Math.abs(exponent) > MAX_EXPONENT) return null;
+
+  let digits = BigInt(whole + fraction) * (sign === '-' ? -1n : 1n);
+  let scale = fraction.length - exponent;
+  if (scale < 0) {
+    digits *= 10n ** BigInt(-scale);
+    scale = 0;
+  }
+  return { digits, scale };
+}
+
+function formatDecimal({ digits, scale }: Decimal): string {
+  const negative = digits < 0n;
+  let text = (negative ? -digits : digits).toString();
+  if (scale > 0) {
+    text = text.padStart(scale + 1, '0');
+    text = `${text.slice(0, -scale)}.${text.slice(-scale)}`.replace(/\.?0+$/, '');
+  }
+  return negative && text !== '0' ? `-${text}` : text;
+}
+
+// =============================================================================
+// Field Validation
+// =============================================================================
+
+/**
+ * Checks that every field an expression references exists in at least one
+ * of the events it can apply to, and that range operators are only used on
+ * numeric fields. Paths past a field the IDL doesn't describe further
+ * (vectors, deeply nested structs) are accepted.
+ */
+export function validateFilterFields(expression: FilterExpression | null, events: ParsedEvent[]): void {
+  if (!expression || events.length === 0) return;
+  if ('and' in expression) return expression.and.forEach((e) => validateFilterFields(e, events));
+  if ('or' in expression) return expression.or.forEach((e) => validateFilterFields(e, events));
+  if ('not' in expression) return validateFilterFields(expression.not, events);
+
+  const { field, op } = expression;
+  const found = fieldsAtPath(field, events, 'Invalid filter');
+  if (RANGE_OPERATORS.has(op) && !found.some((r) => r.opaque || NUMERIC_TYPE.test(r.field.type))) {
+    throw new ValidationError(`Invalid filter: '${op}' is only supported on numeric fields, not '${field}'`, { field });
+  }
+}
+
+/**
+ * Checks that a dotted data path names a field of at least one of the
+ * events, prefixing the error with `context`. Any path passes when there
+ * are no events to check against.
+ */
+export function validateFieldPath(path: string, events: ParsedEvent[], context: string): void {
+  if (events.length > 0) fieldsAtPath(path, events, context);
+}
+
+/** Resolves a path in each event, throwing when no event has it */
+function fieldsAtPath(path: string, events: ParsedEvent[], context: string): Array<{ field: ParsedField; opaque: boolean }> {
+  const resolved = events.map((event) => resolveField(event.fields, path.split('.')));
+  const found = resolved.filter((r): r is { field: ParsedField; opaque: boolean } => r !== null);
+  if (found.length === 0) {
+    const names = events.map((e) => e.name).join(', ');
+    throw new ValidationError(`${context}: unknown field '${path}' for ${names}`, { field: path });
+  }
+  return found;
+}
+
+/**
+ * Collects the events of programs' IDLs a filter applies to: those named in
+ * eventNames, or all of them when it is empty.
+ */
+export function filterableEvents(rawIdls: Array<Record<string, unknown>>, eventNames: string[] = []): ParsedEvent[] {
+  return rawIdls
+    .flatMap((idl) => parseAnyIDL(idl).parsed.events)
+    .filter((event) => eventNames.length === 0 || eventNames.includes(event.name));
+}
+
+/**
+ * Walks a path through IDL fields. `opaque` means the path continues into a
+ * value whose shape the IDL doesn't describe.
+ */
+function resolveField(fields: ParsedField[], segments: string[]): { field: ParsedField; opaque: boolean } | null {
+  const [head, ...rest] = segments;
+  const field = fields.find((f) => f.name === toSnakeCase(head));
+  if (!field) return null;
+  if (rest.length === 0) return { field, opaque: false };
+  if (field.fields) return resolveField(field.fields, rest);
+  return { field, opaque: true };
+}
@@ -0,0 +1,228 @@
+/**
+ * Uho — Query Filters
+ *
+ * The filter grammar shared by the REST data routes (`/data/:program/:event`,
+ * `/count`, `/data/all`), the token transfer routes and exports. A query parameter is
+ * either a column name (exact match) or a column name plus an operator suffix:
+ *
+ * | Suffix      | SQL                              | Value                      |
+ * |-------------|----------------------------------|----------------------------|
+ * | (none)      | `col = v`                        | value                      |
+ * | `_ne`       | `col <> v`                       | value                      |
+ * | `_in`       | `col = ANY(v)`                   | comma-separated list       |
+ * | `_not_in`   | `col <> ALL(v)`                  | comma-separated list       |
+ * | `_prefix`   | `col::text LIKE 'v%'`            | prefix                     |
+ * | `_is_null`  | `col IS NULL` / `IS NOT NULL`    | `true` / `false`           |
+ * | `_gte` etc. | `col >= v` (`_lte`, `_gt`, `_lt`)| number (numeric columns)   |
+ *
+ * A key that is itself a column name is always an exact match, so a column
+ * named `amount_in` is matched as-is (`amount_in_in=1,2` is IN on it).
+ * Conditions are ANDed. Each `or` parameter is a group of conditions in the
+ * same syntax, separated by `;`, that are ORed together:
+ * `?or=trader=X;counterparty=X`. Repeating `or` ANDs the groups.
+ *
+ * Every column is validated against the table's known fields. Top-level
+ * parameters that name no known field are ignored (they may be auth or
+ * pagination params); unknown fields inside `or` groups and operators a
+ * column doesn't support are rejected.
+ */
+
+import { columnForPath } from './structured-columns.js';
+import { quoteIdent } from './schema-generator.js';
+import { ValidationError } from './errors.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Columns a table can be filtered on */
+export interface FilterFields {
+  known: Set<string>;
+  /** Columns that support range operators */
+  numeric: Set<string>;
+}
+
+/** A parsed query string (repeated keys arrive as arrays) */
+export type FilterQuery = Record<string, string | string[] | undefined>;
+
+/** Binds a value as the next query parameter, returning its placeholder */
+type Bind = (value: unknown) => string;
+
+type FilterOperator = 'eq' | 'ne' | 'in' | 'not_in' | 'prefix' | 'is_null' | 'gte' | 'lte' | 'gt' | 'lt';
+
+/** Parameters that are never field filters */
+export const RESERVED_PARAMS = new Set([
+  'limit', 'offset', 'order_by', 'orderBy', 'order',
+  'from', 'to', 'slotFrom', 'slotTo',
+  'after_id', 'afterId', 'cursor', 'or',
+]);
+
+/** Operator suffixes, longest first so `_not_in` wins over `_in` */
+const SUFFIXES: Array<[string, FilterOperator]> = [
+  ['_is_null', 'is_null'],
+  ['_not_in', 'not_in'],
+  ['_prefix', 'prefix'],
+  ['_gte', 'gte'],
+  ['_lte', 'lte'],
+  ['_ne', 'ne'],
+  ['_in', 'in'],
+  ['_gt', 'gt'],
+  ['_lt', 'lt'],
+];
+
+const RANGE_SQL: Partial<Record<FilterOperator, string>> = { gte: '>=', lte: '<=', gt: '>', lt: '<' };
+
+// =============================================================================
+// Where Clause
+// =============================================================================
+
+/**
+ * Builds parameterized WHERE clauses from query parameters: the built-in
+ * time and slot ranges, field filters and `or` groups.
+ *
+ * @param options.reserved - Extra route-specific params to skip
+ * @param options.paramOffset - Number of parameters bound before these
+ */
+export function buildFilterClauses(
+  query: FilterQuery,
+  fields: FilterFields,
+  options: { reserved?: Set<string>; paramOffset?: number } = {}
+): { whereClauses: string[]; params: unknown[] } {
+  const whereClauses: string[] = [];
+  const params: unknown[] = [];
+  const bind: Bind = (value) => {
+    params.push(value);
+    return `$${(options.paramOffset ?? 0) + params.length}`;
+  };
+
+  // Built-in time and slot ranges
+  if (typeof query.from === 'string' && query.from) {
+    whereClauses.push(`"block_time" >= ${bind(query.from)}`);
+  }
+  if (typeof query.to === 'string' && query.to) {
+    whereClauses.push(`"block_time" <= ${bind(query.to)}`);
+  }
+  if (typeof query.slotFrom === 'string' && query.slotFrom) {
+    whereClauses.push(`"slot" >= ${bind(parseInt(query.slotFrom, 10))}`);
+  }
+  if (typeof query.slotTo === 'string' && query.slotTo) {
+    whereClauses.push(`"slot" <= ${bind(parseInt(query.slotTo, 10))}`);
+  }
+
+  for (const [key, raw] of Object.entries(query)) {
+    if (raw === undefined || RESERVED_PARAMS.has(key) || options.reserved?.has(key)) continue;
+
+    const filter = parseFilterKey(key, fields);
+    if (!filter) continue;
+
+    for (const value of valuesOf(raw)) {
+      whereClauses.push(conditionSql(filter.column, filter.operator, value, fields, bind));
+    }
+  }
+
+  for (const group of valuesOf(query.or)) {
+    whereClauses.push(orGroupSql(group, fields, bind));
+  }
+
+  return { whereClauses, params };
+}
+
+/**
+ * Resolves a parameter key to a column and operator. Dotted keys address
+ * expanded struct members. Returns null for keys that name no known field.
+ */
+export function parseFilterKey(
+  key: string,
+  fields: FilterFields
+): { column: string; operator: FilterOperator } | null {
+  const normalized = columnForPath(key);
+  if (fields.known.has(normalized)) return { column: normalized, operator: 'eq' };
+
+  for (const [suffix, operator] of SUFFIXES) {
+    if (!normalized.endsWith(suffix)) continue;
+    const column = normalized.slice(0, -suffix.length);
+    if (fields.known.has(column)) return { column, operator };
+  }
+  return null;
+}
+
+/**
+ * Builds one condition, binding its parameter.
+ */
+function conditionSql(
+  column: string,
+  operator: FilterOperator,
+  value: string,
+  fields: FilterFields,
+  bind: Bind
+): string {
+  const col = quoteIdent(column);
+  const numeric = fields.numeric.has(column);
+
+  switch (operator) {
+    case 'eq':
+    case 'ne':
+      return `${col} ${operator === 'eq' ? '=' : '<>'} ${bind(numeric ? parseNumericValue(value) : parseScalar(value))}`;
+    case 'in':
+    case 'not_in': {
+      const list = value.split(',').map((v) => v.trim()).filter((v) => v !== '');
+      if (list.length === 0) throw new ValidationError(`${column}_${operator} needs at least one value`);
+      return operator === 'in' ? `${col} = ANY(${bind(list)})` : `${col} <> ALL(${bind(list)})`;
+    }
+    case 'prefix':
+      return `${col}::text LIKE (${bind(value.replace(/[\\%_]/g, '\\$&'))} || '%')`;
+    case 'is_null':
+      if (value !== 'true' && value !== 'false') {
+        throw new ValidationError(`${column}_is_null must be true or false`);
+      }
+      return `${col} IS ${value === 'true' ? '' : 'NOT '}NULL`;
+    default:
+      if (!numeric) {
+        throw new ValidationError(`Range operator _${operator} is only supported on numeric fields, not '${column}'`);
+      }
+      return `${col} ${RANGE_SQL[operator]} ${bind(parseNumericValue(value))}`;
+  }
+}
+
+/**
+ * Builds an `or` group: `field=value` conditions separated by `;`.
+ */
+function orGroupSql(group: string, fields: FilterFields, bind: Bind): string {
+  const conditions = group.split(';').filter((c) => c.trim() !== '');
+  if (conditions.length === 0) throw new ValidationError('or group is empty');
+
+  const parts = conditions.map((condition) => {
+    const eq = condition.indexOf('=');
+    if (eq <= 0) throw new ValidationError(`Invalid or condition '${condition}' — expected field=value`);
+
+    const key = condition.slice(0, eq).trim();
+    const filter = parseFilterKey(key, fields);
+    if (!filter) throw new ValidationError(`Unknown filter field '${key}'`);
+    return conditionSql(filter.column, filter.operator, condition.slice(eq + 1), fields, bind);
+  });
+
+  return parts.length === 1 ? parts[0] : `(${parts.join(' OR ')})`;
+}
+
+function valuesOf(raw: string | string[] | undefined): string[] {
+  if (raw === undefined) return [];
+  return Array.isArray(raw) ? raw : [raw];
+}
+
+/**
+ * Parses booleans; everything else stays a string for Postgres to cast.
+ */
+function parseScalar(value: string): string | boolean {
+  if (value === 'true' || value === 'false') return value === 'true';
+  return value;
+}
+
+/**
+ * Parses a numeric value from a query string, handling both integers and decimals.
+ */
+export function parseNumericValue(value: string): number | string {
+  // For very large numbers (u64, u128), keep as string for Postgres NUMERIC/BIGINT
+  if (value.length > 15) return value;
+  const num = Number(value);
+  return isNaN(num) ? value : num;
+}
@@ -0,0 +1,269 @@
+/**
+ * Uho — IDL Diff
+ *
+ * Compares two versions of a program's parsed IDL to upgrade its tables in
+ * place when the program is upgraded on-chain. New events, instructions and
+ * accounts get new tables; new fields become new nullable columns. Removed
+ * definitions and fields keep their tables and columns so earlier rows stay
+ * queryable. A field whose SQL type changed can't be altered without losing
+ * data, so it is reported as destructive and only applied when forced: the
+ * old column is renamed aside (`{column}_v{version}`) and a new one added.
+ */
+
+import type { ParsedIDL, ParsedEvent, ParsedField, ParsedInstruction, ParsedAccount } from './types.js';
+import { toSnakeCase } from './idl-parser.js';
+import {
+  accountStateFields,
+  eventTableNameRaw,
+  instructionTableNameRaw,
+  accountStateTableNameRaw,
+  accountHistoryTableNameRaw,
+  quoteIdent,
+} from './schema-generator.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type IdlDefinitionKind = 'event' | 'instruction' | 'account';
+
+/** A column added to an existing definition's table */
+export interface IdlAddedColumn {
+  kind: IdlDefinitionKind;
+  name: string;
+  column: string;
+  sqlType: string;
+}
+
+/** A column whose SQL type differs between the two versions */
+export interface IdlTypeChange {
+  kind: IdlDefinitionKind;
+  name: string;
+  column: string;
+  from: string;
+  to: string;
+}
+
+/** Differences between two parsed IDL versions */
+export interface IdlDiff {
+  addedEvents: string[];
+  addedInstructions: string[];
+  addedAccounts: string[];
+  removedEvents: string[];
+  removedInstructions: string[];
+  removedAccounts: string[];
+  addedColumns: IdlAddedColumn[];
+  removedColumns: Array<{ kind: IdlDefinitionKind; name: string; column: string }>;
+  typeChanges: IdlTypeChange[];
+}
+
+// =============================================================================
+// Diffing
+// =============================================================================
+
+/**
+ * Diffs two parsed IDLs of the same program. Both should have the same
+ * column layout applied (see structured-columns.ts).
+ */
+export function diffIdls(prev: ParsedIDL, next: ParsedIDL): IdlDiff {
+  const diff: IdlDiff = {
+    addedEvents: [],
+    addedInstructions: [],
+    addedAccounts: [],
+    removedEvents: [],
+    removedInstructions: [],
+    removedAccounts: [],
+    addedColumns: [],
+    removedColumns: [],
+    typeChanges: [],
+  };
+
+  const compare = <T extends { name: string }>(
+    kind: IdlDefinitionKind,
+    before: T[],
+    after: T[],
+    columns: (def: T) => ParsedField[],
+    added: string[],
+    removed: string[]
+  ) => {
+    const beforeByName = new Map(before.map((d) => [d.name, d]));
+    const afterNames = new Set(after.map((d) => d.name));
+
+    for (const def of after) {
+      const old = beforeByName.get(def.name);
+      if (!old) {
+        added.push(def.name);
+        continue;
+      }
+      const oldColumns = new Map(columns(old).map((c) => [c.name, c]));
+      const newColumns = columns(def);
+      for (const col of newColumns) {
+        const oldCol = oldColumns.get(col.name);
+        if (!oldCol) {
+          diff.addedColumns.push({ kind, name: def.name, column: col.name, sqlType: col.sqlType });
+        } else if (oldCol.sqlType !== col.sqlType) {
+          diff.typeChanges.push({ kind, name: def.name, column: col.name, from: oldCol.sqlType, to: col.sqlType });
+        }
+      }
+      const newNames = new Set(newColumns.map((c) => c.name));
+      for (const name of oldColumns.keys()) {
+        if (!newNames.has(name)) diff.removedColumns.push({ kind, name: def.name, column: name });
+      }
+    }
+
+    for (const def of before) {
+      if (!afterNames.has(def.name)) removed.push(def.name);
+    }
+  };
+
+  compare<ParsedEvent>('event', prev.events, next.events, (e) => e.fields, diff.addedEvents, diff.removedEvents);
+  compare<ParsedInstruction>(
+    'instruction', prev.instructions, next.instructions, instructionColumns,
+    diff.addedInstructions, diff.removedInstructions
+  );
+  compare<ParsedAccount>(
+    'account', prev.accounts, next.accounts, accountStateFields,
+    diff.addedAccounts, diff.removedAccounts
+  );
+
+  return diff;
+}
+
+/**
+ * Whether applying the diff would change the type of existing columns.
+ */
+export function isDestructive(diff: IdlDiff): boolean {
+  return diff.typeChanges.length > 0;
+}
+
+/**
+ * Columns an instruction table has for its args and accounts, mirroring
+ * generateInstructionTable (account columns are TEXT pubkeys).
+ */
+function instructionColumns(ix: ParsedInstruction): ParsedField[] {
+  const columns = ix.args.map((a) => ({ ...a, name: toSnakeCase(a.name) }));
+  const seen = new Set(columns.map((c) => c.name));
+  for (const account of ix.accounts) {
+    const name = toSnakeCase(account);
+    if (seen.has(name)) continue;
+    seen.add(name);
+    columns.push({ name, type: 'pubkey', sqlType: 'TEXT', nullable: false });
+  }
+  return columns;
+}
+
+// =============================================================================
+// Upgrade DDL
+// =============================================================================
+
+/**
+ * Generates the DDL that brings existing tables from the previous IDL version
+ * to the next: added columns, and — only when `force` is set — type changes.
+ * Tables for added definitions are created separately by the usual
+ * provisioning. Tables that were never created (disabled definitions) are
+ * skipped.
+ *
+ * @param prevVersion - Version number the renamed-aside columns are suffixed with
+ */
+export function generateIdlUpgrade(
+  programName: string,
+  diff: IdlDiff,
+  options: { force?: boolean; prevVersion: number }
+): string[] {
+  const ddl: string[] = [];
+
+  for (const col of diff.addedColumns) {
+    for (const table of tablesFor(programName, col.kind, col.name)) {
+      ddl.push(
+        `ALTER TABLE IF EXISTS ${quoteIdent(table)} ADD COLUMN IF NOT EXISTS ${quoteIdent(col.column)} ${col.sqlType};`
+      );
+    }
+  }
+
+  if (options.force) {
+    for (const change of diff.typeChanges) {
+      const aside = `${change.column}_v${options.prevVersion}`;
+      for (const table of tablesFor(programName, change.kind, change.name)) {
+        ddl.push(`DO $$ BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = current_schema() AND table_name = '${table}' AND column_name = '${change.column}'
+  ) THEN
+    ALTER TABLE ${quoteIdent(table)} RENAME COLUMN ${quoteIdent(change.column)} TO ${quoteIdent(aside)};
+  END IF;
+END $$;`);
+        ddl.push(
+          `ALTER TABLE IF EXISTS ${quoteIdent(table)} ADD COLUMN IF NOT EXISTS ${quoteIdent(change.column)} ${change.to};`
+        );
+      }
+    }
+  }
+
+  return ddl;
+}
+
+/**
+ * Raw table names backing a definition.
+ */
+function tablesFor(programName: string, kind: IdlDefinitionKind, name: string): string[] {
+  switch (kind) {
+    case 'event':
+      return [eventTableNameRaw(programName, name)];
+    case 'instruction':
+      return [instructionTableNameRaw(programName, name)];
+    case 'account':
+      return [accountStateTableNameRaw(programName, name), accountHistoryTableNameRaw(programName, name)];
+  }
+}
+
+// =============================================================================
+// Version Merging
+// =============================================================================
+
+/**
+ * Merges a program's IDL versions into the set of definitions its tables
+ * hold: the latest definitions, plus definitions and fields that only earlier
+ * versions had (their tables and columns are kept). Rows decoded with an
+ * older IDL can then be written through the merged IDL.
+ *
+ * @param older - Earlier versions, newest first
+ */
+export function mergeIdlVersions(latest: ParsedIDL, older: ParsedIDL[]): ParsedIDL {
+  const merged: ParsedIDL = {
+    ...latest,
+    events: latest.events.map((e) => ({ ...e, fields: [...e.fields] })),
+    instructions: latest.instructions.map((ix) => ({ ...ix, args: [...ix.args], accounts: [...ix.accounts] })),
+    accounts: latest.accounts.map((a) => ({ ...a, fields: [...a.fields] })),
+  };
+
+  const appendMissing = <T extends { name: string }>(target: T[], source: T[]) => {
+    const names = new Set(target.map((t) => t.name));
+    for (const item of source) {
+      if (!names.has(item.name)) target.push(item);
+    }
+  };
+
+  for (const version of older) {
+    for (const event of version.events) {
+      const current = merged.events.find((e) => e.name === event.name);
+      if (current) appendMissing(current.fields, event.fields);
+      else merged.events.push({ ...event, fields: [...event.fields] });
+    }
+    for (const ix of version.instructions) {
+      const current = merged.instructions.find((i) => i.name === ix.name);
+      if (current) {
+        appendMissing(current.args, ix.args);
+        current.accounts.push(...ix.accounts.filter((a) => !current.accounts.includes(a)));
+      } else {
+        merged.instructions.push({ ...ix, args: [...ix.args], accounts: [...ix.accounts] });
+      }
+    }
+    for (const account of version.accounts) {
+      const current = merged.accounts.find((a) => a.name === account.name);
+      if (current) appendMissing(current.fields, account.fields);
+      else merged.accounts.push({ ...account, fields: [...account.fields] });
+    }
+  }
+
+  return merged;
+}
@@ -30,12 +30,13 @@ import type {
 /**
  * Maps an Anchor primitive type string to a PostgreSQL column type.
  * Complex types (vec, option, defined, array) are handled in the Anchor parser.
+ * u64 overflows BIGINT's signed range, so it is stored as NUMERIC(20,0).
  */
 export const PRIMITIVE_TYPE_MAP: Record<string, { sqlType: string; nullable: boolean }> = {
   u8:         { sqlType: 'INTEGER',            nullable: false },
   u16:        { sqlType: 'INTEGER',            nullable: false },
   u32:        { sqlType: 'INTEGER',            nullable: false },
-  u64:        { sqlType: 'BIGINT',             nullable: false },
+  u64:        { sqlType: 'NUMERIC(20,0)',      nullable: false },
   u128:       { sqlType: 'NUMERIC(39,0)',      nullable: false },
   i8:         { sqlType: 'INTEGER',            nullable: false },
   i16:        { sqlType: 'INTEGER',            nullable: false },
@@ -81,6 +82,15 @@ export function computeInstructionDiscriminator(ixName: string): Buffer {
   return Buffer.from(hash.subarray(0, 8));
 }
 
+/**
+ * Computes the Anchor account discriminator for older IDLs that don't include it.
+ * Formula: sha256("account:{AccountName}")[0..8]
+ */
+export function computeAccountDiscriminator(accountName: string): Buffer {
+  const hash = createHash('sha256').update(`account:${accountName}`).digest();
+  return Buffer.from(hash.subarray(0, 8));
+}
+
 /**
  * Returns the byte size for a Shank/Codama discriminant type string.
  */
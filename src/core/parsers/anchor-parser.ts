@@ -10,6 +10,7 @@ import type {
   AnchorEvent,
   AnchorField,
   AnchorFieldType,
+  AnchorTypeDef,
   ParsedIDL,
   ParsedEvent,
   ParsedField,
@@ -20,6 +21,7 @@ import {
   toSnakeCase,
   computeInstructionDiscriminator,
   computeEventDiscriminator,
+  computeAccountDiscriminator,
   PRIMITIVE_TYPE_MAP,
 } from '../idl-parser.js';
 
@@ -73,25 +75,71 @@ function normalizeTypeName(type: AnchorFieldType): string {
   if ('option' in type) return `option<${normalizeTypeName(type.option)}>`;
   if ('vec' in type) return `vec<${normalizeTypeName(type.vec)}>`;
   if ('array' in type) return `array<${normalizeTypeName(type.array[0])}, ${type.array[1]}>`;
-  if ('defined' in type) return `defined<${type.defined.name}>`;
+  if ('defined' in type) return `defined<${definedName(type)}>`;
   return 'unknown';
 }
 
+/**
+ * Returns the referenced type name of a `defined` type. Pre-0.30 IDLs give
+ * the name as a bare string rather than `{ name }`.
+ */
+function definedName(type: { defined: { name: string } | string }): string {
+  return typeof type.defined === 'string' ? type.defined : type.defined.name;
+}
+
+/** Nested structs deeper than this are left undescribed (stored as JSONB) */
+const MAX_NESTING = 4;
+
+/**
+ * Describes the IDL-defined type a field refers to (looking through Option),
+ * so the column layout can expand structs and split enums.
+ */
+function describeDefinedType(
+  type: AnchorFieldType,
+  typeDefs: Map<string, AnchorTypeDef>,
+  depth: number
+): Pick<ParsedField, 'fields' | 'variants'> {
+  if (typeof type !== 'string' && 'option' in type) {
+    return describeDefinedType(type.option, typeDefs, depth);
+  }
+  if (typeof type === 'string' || !('defined' in type)) return {};
+
+  const def = typeDefs.get(definedName(type));
+  if (def?.type.kind === 'struct' && def.type.fields?.length && depth < MAX_NESTING) {
+    // Tuple structs have unnamed fields and stay as JSONB
+    if (def.type.fields.every((f) => typeof f === 'object' && typeof f.name === 'string')) {
+      return { fields: def.type.fields.map((f) => parseField(f, typeDefs, depth + 1)) };
+    }
+  }
+  if (def?.type.kind === 'enum' && def.type.variants?.length) {
+    return { variants: def.type.variants.map((v) => v.name) };
+  }
+  return {};
+}
+
 // =============================================================================
 // Field Parsing
 // =============================================================================
 
 /**
  * Parses a single Anchor field into a normalized ParsedField.
- * Converts field name to snake_case and resolves the SQL type.
+ * Converts field name to snake_case and resolves the SQL type. When the IDL's
+ * type definitions are given, fields of a defined struct or enum type also
+ * describe its members or variants.
  */
-export function parseField(field: AnchorField): ParsedField {
+export function parseField(
+  field: AnchorField,
+  typeDefs?: Map<string, AnchorTypeDef>,
+  depth = 0
+): ParsedField {
   const { sqlType, nullable } = anchorTypeToSql(field.type);
   return {
     name: toSnakeCase(field.name),
+    idlName: field.name,
     type: normalizeTypeName(field.type),
     sqlType,
     nullable,
+    ...(typeDefs ? describeDefinedType(field.type, typeDefs, depth) : {}),
   };
 }
 
@@ -104,16 +152,19 @@ export function parseField(field: AnchorField): ParsedField {
  * Uses the IDL discriminator if present, otherwise computes it from the event name.
  * In v0.30+ IDLs, event fields may be stored in the `types` array rather than on the event itself.
  */
-export function parseEvent(event: AnchorEvent, typesLookup?: Map<string, AnchorField[]>): ParsedEvent {
+export function parseEvent(
+  event: AnchorEvent,
+  typesLookup?: Map<string, AnchorField[]>,
+  typeDefs?: Map<string, AnchorTypeDef>
+): ParsedEvent {
   const discriminator =
     event.discriminator && event.discriminator.length === 8
       ? Buffer.from(event.discriminator)
       : computeEventDiscriminator(event.name);
 
   // v0.30+ format: fields might be on the event or in the types array
-  const fields = event.fields
-    ? event.fields.map(parseField)
-    : (typesLookup?.get(event.name) ?? []).map(parseField);
+  const fields = (event.fields ?? typesLookup?.get(event.name) ?? [])
+    .map((f) => parseField(f, typeDefs));
 
   return {
     name: event.name,
@@ -153,22 +204,25 @@ export function parseIDL(idlJson: AnchorIDL): ParsedIDL {
 
   // Build types lookup for v0.30+ IDLs where event fields are in the types array
   const typesLookup = new Map<string, AnchorField[]>();
+  const typeDefs = new Map<string, AnchorTypeDef>();
   for (const t of (idlJson.types ?? [])) {
     if (t.type?.kind === 'struct' && t.type.fields) {
       typesLookup.set(t.name, t.type.fields);
     }
+    if (t.type) typeDefs.set(t.name, t);
   }
 
   // Parse events (pass types lookup for v0.30+ format)
-  const events: ParsedEvent[] = (idlJson.events ?? []).map((e) => parseEvent(e, typesLookup));
+  const events: ParsedEvent[] = (idlJson.events ?? []).map((e) => parseEvent(e, typesLookup, typeDefs));
 
-  // Parse accounts
+  // Parse accounts (layout is inline on older IDLs, in the types array on v0.30+)
   const accounts: ParsedAccount[] = (idlJson.accounts ?? []).map((acc) => ({
     name: acc.name,
     discriminator:
       acc.discriminator && acc.discriminator.length === 8
         ? Buffer.from(acc.discriminator)
-        : Buffer.alloc(8),
+        : computeAccountDiscriminator(acc.name),
+    fields: (acc.type?.fields ?? typesLookup.get(acc.name) ?? []).map((f) => parseField(f, typeDefs)),
   }));
 
   // Parse instructions
@@ -182,7 +236,7 @@ export function parseIDL(idlJson: AnchorIDL): ParsedIDL {
       name: ix.name,
       discriminator,
       accounts: flattenAccounts(ix.accounts ?? []),
-      args: (ix.args ?? []).map(parseField),
+      args: (ix.args ?? []).map((f) => parseField(f)),
     };
   });
 
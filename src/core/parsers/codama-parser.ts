@@ -93,6 +93,7 @@ export function parseCodamaIDL(idl: CodamaIDL): ParsedIDL {
     discriminator: acc.discriminator?.length === 8
       ? Buffer.from(acc.discriminator)
       : Buffer.alloc(8),
+    fields: [],
   }));
 
   return {
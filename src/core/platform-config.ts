@@ -5,6 +5,8 @@
  * Used when UHO_MODE=platform for multi-tenant SaaS operation.
  */
 
+import type { GeyserOptions } from './types.js';
+
 // =============================================================================
 // Platform Config Interface
 // =============================================================================
@@ -28,13 +30,34 @@ export interface PlatformConfig {
   githubClientSecret: string | undefined;
   privyAppId: string | undefined;
   privyAppSecret: string | undefined;
+  /** Where bulk data exports are written */
+  exportStorage: ExportStorageConfig;
+  /** How long finished exports stay downloadable */
+  exportTtlHours: number;
 }
 
+/** Export file store: a local directory or an S3-compatible bucket */
+export type ExportStorageConfig =
+  | { kind: 'local'; directory: string }
+  | {
+      kind: 's3';
+      bucket: string;
+      region: string;
+      /** Custom endpoint for S3-compatible stores (MinIO, R2, …) */
+      endpoint: string | undefined;
+      accessKeyId: string | undefined;
+      secretAccessKey: string | undefined;
+    };
+
 // =============================================================================
 // Free Tier Limits
 // =============================================================================
 
-/** Free tier resource limits */
+/**
+ * Free tier resource limits. Limits are read from the plans table (see
+ * PlanService); these seed the 'free' plan and apply when no default plan
+ * exists.
+ */
 export const FREE_TIER_LIMITS = {
   programs: 3,
   eventsIndexed: 5000,
@@ -43,6 +66,7 @@ export const FREE_TIER_LIMITS = {
   customViews: 3,
   webhooks: 3,
   apiKeys: 2,
+  backfillSlots: 2_000,
   idlUploadBytes: 5 * 1024 * 1024, // 5 MB
 } as const;
 
@@ -76,6 +100,9 @@ export function loadPlatformConfig(): PlatformConfig {
   const privyAppId = process.env.PRIVY_APP_ID;
   const privyAppSecret = process.env.PRIVY_APP_SECRET;
 
+  const exportStorage = loadExportStorageConfig();
+  const exportTtlHours = parseInt(process.env.EXPORT_TTL_HOURS || '24', 10);
+
   return {
     databaseUrl,
     jwtSecret,
@@ -94,9 +121,28 @@ export function loadPlatformConfig(): PlatformConfig {
     githubClientSecret,
     privyAppId,
     privyAppSecret,
+    exportStorage,
+    exportTtlHours,
   };
 }
 
+/**
+ * Reads the export store from EXPORT_STORAGE (`local`, the default, or `s3`).
+ */
+function loadExportStorageConfig(): ExportStorageConfig {
+  if (process.env.EXPORT_STORAGE === 's3') {
+    return {
+      kind: 's3',
+      bucket: requireEnv('EXPORT_S3_BUCKET'),
+      region: process.env.EXPORT_S3_REGION || 'us-east-1',
+      endpoint: process.env.EXPORT_S3_ENDPOINT || undefined,
+      accessKeyId: process.env.EXPORT_S3_ACCESS_KEY_ID || undefined,
+      secretAccessKey: process.env.EXPORT_S3_SECRET_ACCESS_KEY || undefined,
+    };
+  }
+  return { kind: 'local', directory: process.env.EXPORT_DIR || './data/exports' };
+}
+
 /**
  * Returns true if the current process is running in platform mode.
  */
@@ -119,6 +165,16 @@ export function getPlatformRpcUrl(chain: string = 'solana-mainnet'): string {
     : 'https://api.devnet.solana.com';
 }
 
+/**
+ * Returns the Geyser gRPC endpoint for platform mode, or undefined when
+ * GEYSER_GRPC_URL is not set (programs asking for `source: geyser` then poll RPC).
+ */
+export function getPlatformGeyserOptions(): GeyserOptions | undefined {
+  const endpoint = process.env.GEYSER_GRPC_URL;
+  if (!endpoint) return undefined;
+  return { endpoint, xToken: process.env.GEYSER_X_TOKEN || undefined };
+}
+
 // =============================================================================
 // Helpers
 // =============================================================================
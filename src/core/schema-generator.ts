@@ -7,7 +7,7 @@
  */
 
 import type { Pool } from 'pg';
-import type { ParsedIDL, ParsedEvent, ParsedField, ParsedInstruction, ProgramConfig, UserProgramEvent } from './types.js';
+import type { ParsedIDL, ParsedEvent, ParsedField, ParsedInstruction, ParsedAccount, ProgramConfig, UserProgramEvent } from './types.js';
 import { toSnakeCase } from './idl-parser.js';
 
 // =============================================================================
@@ -62,6 +62,7 @@ export function eventTableName(programName: string, eventName: string): string {
 /**
  * Generates DDL for the _uho_state metadata table.
  * This table tracks indexer state per program (last slot, event count, status, etc.).
+ * The _uho_gaps and _address_activity bookkeeping tables are created alongside it.
  */
 export function generateMetadataTable(): string {
   return `
@@ -77,7 +78,9 @@ CREATE TABLE IF NOT EXISTS _uho_state (
     last_poll_at    TIMESTAMPTZ,
     error           TEXT,
     updated_at      TIMESTAMPTZ DEFAULT NOW()
-);`.trim();
+);
+${generateGapsTable()}
+${generateAddressActivityTable()}`.trim();
 }
 
 /**
@@ -95,6 +98,137 @@ CREATE TABLE IF NOT EXISTS _tx_logs (
 CREATE INDEX IF NOT EXISTS idx_tx_logs_slot ON _tx_logs (slot);`.trim();
 }
 
+/**
+ * Generates DDL for the _uho_gaps table.
+ * Records signature ranges the live poller could not cover, so they can be
+ * backfilled automatically.
+ */
+export function generateGapsTable(): string {
+  return `
+CREATE TABLE IF NOT EXISTS _uho_gaps (
+    id                  SERIAL PRIMARY KEY,
+    program_id          TEXT NOT NULL,
+    from_slot           BIGINT,
+    to_slot             BIGINT NOT NULL,
+    before_signature    TEXT NOT NULL,
+    until_signature     TEXT NOT NULL,
+    status              TEXT NOT NULL DEFAULT 'open',
+    attempts            INTEGER NOT NULL DEFAULT 0,
+    error               TEXT,
+    detected_at         TIMESTAMPTZ DEFAULT NOW(),
+    filled_at           TIMESTAMPTZ
+);
+CREATE INDEX IF NOT EXISTS idx_uho_gaps_unfilled ON _uho_gaps (program_id) WHERE status <> 'filled';`.trim();
+}
+
+// =============================================================================
+// Address Activity
+// =============================================================================
+
+/**
+ * Generates DDL for the _address_activity table.
+ * One row per address a written event, instruction or token transfer
+ * involves, pointing back at the source row, with the columns (`roles`) the
+ * address appeared in. Maintained by the writer; backs the activity feed.
+ */
+export function generateAddressActivityTable(): string {
+  return `
+CREATE TABLE IF NOT EXISTS _address_activity (
+    id                  BIGSERIAL PRIMARY KEY,
+    address             TEXT NOT NULL,
+    roles               TEXT[] NOT NULL,
+    kind                TEXT NOT NULL,
+    name                TEXT NOT NULL,
+    source_table        TEXT NOT NULL,
+    source_id           BIGINT NOT NULL,
+    slot                BIGINT NOT NULL,
+    block_time          TIMESTAMPTZ,
+    tx_signature        TEXT NOT NULL,
+    ix_index            INTEGER NOT NULL,
+    indexed_at          TIMESTAMPTZ DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS idx_address_activity_address ON _address_activity(address, slot, id);
+CREATE INDEX IF NOT EXISTS idx_address_activity_tx ON _address_activity(tx_signature);
+CREATE UNIQUE INDEX IF NOT EXISTS uq_address_activity_source ON _address_activity(source_table, source_id, address);`.trim();
+}
+
+/**
+ * Whether a field holds an address: a pubkey, or an optional pubkey.
+ */
+export function isAddressField(field: ParsedField): boolean {
+  return /^(option<)?(pubkey|publicKey)>?$/.test(field.type);
+}
+
+// =============================================================================
+// Commitment Tracking
+// =============================================================================
+
+/**
+ * Generates the DDL that adds the commitment column (plus a partial index over
+ * rows still awaiting finalization) to a table created before it existed.
+ * Existing rows are marked finalized, so the reconciler doesn't sweep (and,
+ * on pruned slots, retract) history; new rows start out confirmed.
+ * Idempotent, so it is emitted alongside every CREATE TABLE.
+ */
+export function generateCommitmentUpgrade(tableNameQuoted: string, tableNameRaw: string): string {
+  return [
+    `ALTER TABLE ${tableNameQuoted} ADD COLUMN IF NOT EXISTS "commitment" TEXT NOT NULL DEFAULT 'finalized';`,
+    `ALTER TABLE ${tableNameQuoted} ALTER COLUMN "commitment" SET DEFAULT 'confirmed';`,
+    `CREATE INDEX IF NOT EXISTS idx_${tableNameRaw.replace(/^_/, '')}_pending ON ${tableNameQuoted}("slot") WHERE "commitment" = 'confirmed';`,
+  ].join('\n');
+}
+
+/**
+ * Generates the DDL that widens u64 columns created as BIGINT (before u64
+ * mapped to NUMERIC(20,0)) in place. Returns no statements when the table has
+ * no u64 columns. Columns a view depends on can't change type; those are left
+ * as they are with a warning.
+ */
+export function generateU64Upgrade(tableNameRaw: string, fields: ParsedField[]): string[] {
+  const columns = fields
+    .filter((f) => f.sqlType === 'NUMERIC(20,0)')
+    .map((f) => `'${toSnakeCase(f.name).replace(/'/g, "''")}'`);
+  if (columns.length === 0) return [];
+
+  return [`DO $$
+DECLARE
+  alters TEXT;
+BEGIN
+  SELECT string_agg(format('ALTER COLUMN %I TYPE NUMERIC(20,0)', column_name), ', ') INTO alters
+  FROM information_schema.columns
+  WHERE table_schema = current_schema() AND table_name = '${tableNameRaw}'
+    AND data_type = 'bigint' AND column_name IN (${columns.join(', ')});
+  IF alters IS NOT NULL THEN
+    EXECUTE format('ALTER TABLE %I ', '${tableNameRaw}') || alters;
+  END IF;
+EXCEPTION WHEN feature_not_supported THEN
+  RAISE WARNING 'Could not widen u64 columns of ${tableNameRaw}: %', SQLERRM;
+END $$;`];
+}
+
+/**
+ * Generates the DDL for a table's structured columns (see structured-columns.ts):
+ * adds the columns that only exist under one of the two layouts, so structured
+ * columns can be switched on or off for an existing program, and GIN-indexes
+ * JSONB vector columns. Returns no statements for plain scalar fields.
+ */
+export function generateStructuredColumns(
+  tableNameQuoted: string,
+  tableNameRaw: string,
+  fields: ParsedField[]
+): string[] {
+  const ddl: string[] = [];
+  for (const field of fields) {
+    if (field.path || field.enumPart || field.fields || field.variants) {
+      ddl.push(`ALTER TABLE ${tableNameQuoted} ADD COLUMN IF NOT EXISTS ${quoteIdent(field.name)} ${field.sqlType};`);
+    }
+  }
+  for (const field of fields.filter((f) => f.gin)) {
+    ddl.push(`CREATE INDEX IF NOT EXISTS idx_${tableNameRaw}_${field.name}_gin ON ${tableNameQuoted} USING GIN (${quoteIdent(field.name)});`);
+  }
+  return ddl;
+}
+
 // =============================================================================
 // Token Transfers Table
 // =============================================================================
@@ -121,8 +255,10 @@ CREATE TABLE IF NOT EXISTS _token_transfers (
     tx_signature        TEXT NOT NULL,
     ix_index            INTEGER NOT NULL,
     inner_ix_index      INTEGER,
+    commitment          TEXT NOT NULL DEFAULT 'confirmed',
     indexed_at          TIMESTAMPTZ DEFAULT NOW()
 );
+${generateCommitmentUpgrade('_token_transfers', '_token_transfers')}
 CREATE INDEX IF NOT EXISTS idx_token_transfers_slot ON _token_transfers(slot);
 CREATE INDEX IF NOT EXISTS idx_token_transfers_tx ON _token_transfers(tx_signature);
 CREATE INDEX IF NOT EXISTS idx_token_transfers_source ON _token_transfers(source);
@@ -168,7 +304,11 @@ export function generateEventTable(programName: string, event: ParsedEvent): str
     '    tx_signature         TEXT NOT NULL',
     '    ix_index             INTEGER NOT NULL',
     '    inner_ix_index       INTEGER',
+    '    event_index          INTEGER NOT NULL DEFAULT 0',
+    '    invoking_program     TEXT',
+    '    cpi_path             TEXT[]',
     ...fieldColumns,
+    '    commitment           TEXT NOT NULL DEFAULT \'confirmed\'',
     '    indexed_at            TIMESTAMPTZ DEFAULT NOW()',
   ];
 
@@ -180,10 +320,41 @@ export function generateEventTable(programName: string, event: ParsedEvent): str
     `CREATE INDEX IF NOT EXISTS idx_${tableNameRaw}_tx ON ${tableNameQuoted}(tx_signature);`,
     `CREATE INDEX IF NOT EXISTS idx_${tableNameRaw}_block_time ON ${tableNameQuoted}(block_time);`,
     // Unique constraint to prevent duplicate event inserts
-    `CREATE UNIQUE INDEX IF NOT EXISTS uq_${tableNameRaw}_tx ON ${tableNameQuoted}(tx_signature, ix_index, COALESCE(inner_ix_index, -1));`,
+    `CREATE UNIQUE INDEX IF NOT EXISTS uq_${tableNameRaw}_tx ON ${tableNameQuoted}(tx_signature, ix_index, COALESCE(inner_ix_index, -1), event_index);`,
   ];
 
-  return [createTable, '', ...indexes].join('\n');
+  return [
+    createTable,
+    generateCommitmentUpgrade(tableNameQuoted, tableNameRaw),
+    generateEventAttributionUpgrade(tableNameQuoted, tableNameRaw),
+    ...generateU64Upgrade(tableNameRaw, event.fields),
+    '',
+    ...indexes,
+    ...generateStructuredColumns(tableNameQuoted, tableNameRaw, event.fields),
+  ].join('\n');
+}
+
+/**
+ * Generates the DDL that adds the attribution columns (event_index,
+ * invoking_program, cpi_path) to an event table created before them, and drops
+ * its old unique index — keyed without event_index — so it is recreated with
+ * it. Idempotent, so it is emitted alongside every CREATE TABLE.
+ */
+export function generateEventAttributionUpgrade(tableNameQuoted: string, tableNameRaw: string): string {
+  return [
+    `ALTER TABLE ${tableNameQuoted} ADD COLUMN IF NOT EXISTS "event_index" INTEGER NOT NULL DEFAULT 0;`,
+    `ALTER TABLE ${tableNameQuoted} ADD COLUMN IF NOT EXISTS "invoking_program" TEXT;`,
+    `ALTER TABLE ${tableNameQuoted} ADD COLUMN IF NOT EXISTS "cpi_path" TEXT[];`,
+    `DO $$ BEGIN
+  IF EXISTS (
+    SELECT 1 FROM pg_indexes
+    WHERE schemaname = current_schema() AND indexname = left('uq_${tableNameRaw}_tx', 63)
+      AND indexdef NOT LIKE '%event_index%'
+  ) THEN
+    DROP INDEX uq_${tableNameRaw}_tx;
+  END IF;
+END $$;`,
+  ].join('\n');
 }
 
 // =============================================================================
@@ -232,7 +403,7 @@ export function generateInstructionTable(programName: string, instruction: Parse
 
   // Build account columns (all TEXT for pubkeys, quoted) — deduplicate
   const seenColumns = new Set([
-    'id', 'slot', 'block_time', 'tx_signature', 'ix_index', 'indexed_at',
+    'id', 'slot', 'block_time', 'tx_signature', 'ix_index', 'commitment', 'indexed_at',
     ...instruction.args.map((f) => toSnakeCase(f.name)),
   ]);
   const accountColumns: string[] = [];
@@ -251,6 +422,7 @@ export function generateInstructionTable(programName: string, instruction: Parse
     '    "ix_index"             INTEGER NOT NULL',
     ...argColumns,
     ...accountColumns,
+    '    "commitment"           TEXT NOT NULL DEFAULT \'confirmed\'',
     '    "indexed_at"            TIMESTAMPTZ DEFAULT NOW()',
   ];
 
@@ -263,7 +435,147 @@ export function generateInstructionTable(programName: string, instruction: Parse
     `CREATE UNIQUE INDEX IF NOT EXISTS uq_${tableNameRaw}_tx ON ${tableNameQuoted}("tx_signature", "ix_index");`,
   ];
 
-  return [createTable, '', ...indexes].join('\n');
+  return [
+    createTable,
+    generateCommitmentUpgrade(tableNameQuoted, tableNameRaw),
+    ...generateU64Upgrade(tableNameRaw, instruction.args),
+    '',
+    ...indexes,
+  ].join('\n');
+}
+
+// =============================================================================
+// Account State Table Generation
+// =============================================================================
+
+/** Metadata columns on account state tables — IDL fields with these names are skipped */
+const ACCOUNT_METADATA_COLUMNS = new Set([
+  'id', 'pubkey', 'slot', 'block_time', 'tx_signature', 'lamports', 'updated_at', 'indexed_at',
+]);
+
+/**
+ * Generates the raw (unquoted) PostgreSQL table name for a program account's current state.
+ * Convention: {program_name}_{snake_case_account_name}_state
+ * Example: "sample_dex" + "Pool" → "sample_dex_pool_state"
+ */
+export function accountStateTableNameRaw(programName: string, accountName: string): string {
+  return `${programName}_${toSnakeCase(accountName)}_state`;
+}
+
+/**
+ * Generates the quoted PostgreSQL table name for a program account's current state.
+ */
+export function accountStateTableName(programName: string, accountName: string): string {
+  return quoteIdent(accountStateTableNameRaw(programName, accountName));
+}
+
+/**
+ * Generates the raw (unquoted) PostgreSQL table name for a program account's version history.
+ * Convention: {program_name}_{snake_case_account_name}_state_history
+ */
+export function accountHistoryTableNameRaw(programName: string, accountName: string): string {
+  return `${accountStateTableNameRaw(programName, accountName)}_history`;
+}
+
+/**
+ * Generates the quoted PostgreSQL table name for a program account's version history.
+ */
+export function accountHistoryTableName(programName: string, accountName: string): string {
+  return quoteIdent(accountHistoryTableNameRaw(programName, accountName));
+}
+
+/**
+ * Returns the IDL fields that become columns on an account's state tables,
+ * dropping any that collide with the metadata columns.
+ */
+export function accountStateFields(account: ParsedAccount): ParsedField[] {
+  return account.fields.filter((f) => !ACCOUNT_METADATA_COLUMNS.has(toSnakeCase(f.name)));
+}
+
+/**
+ * Generates the CREATE TABLE DDL for an account's current-state table.
+ * One row per account pubkey, upserted whenever a newer version is observed.
+ */
+export function generateAccountStateTable(programName: string, account: ParsedAccount): string {
+  const tableNameQuoted = accountStateTableName(programName, account.name);
+  const tableNameRaw = accountStateTableNameRaw(programName, account.name);
+
+  const columns = [
+    '    "id"                   BIGSERIAL PRIMARY KEY',
+    '    "pubkey"               TEXT NOT NULL UNIQUE',
+    '    "slot"                 BIGINT NOT NULL',
+    '    "block_time"           TIMESTAMPTZ',
+    '    "tx_signature"         TEXT',
+    '    "lamports"             BIGINT',
+    ...accountStateFields(account).map(fieldToColumn),
+    '    "updated_at"           TIMESTAMPTZ DEFAULT NOW()',
+  ];
+
+  const createTable = `CREATE TABLE IF NOT EXISTS ${tableNameQuoted} (\n${columns.join(',\n')}\n);`;
+
+  const indexes = [
+    `CREATE INDEX IF NOT EXISTS idx_${tableNameRaw}_slot ON ${tableNameQuoted}("slot");`,
+  ];
+
+  const fields = accountStateFields(account);
+  return [
+    createTable,
+    ...generateU64Upgrade(tableNameRaw, fields),
+    '',
+    ...indexes,
+    ...generateStructuredColumns(tableNameQuoted, tableNameRaw, fields),
+  ].join('\n');
+}
+
+/**
+ * Generates the CREATE TABLE DDL for an account's history table.
+ * Keeps every observed version of an account, one row per (pubkey, slot).
+ */
+export function generateAccountHistoryTable(programName: string, account: ParsedAccount): string {
+  const tableNameQuoted = accountHistoryTableName(programName, account.name);
+  const tableNameRaw = accountHistoryTableNameRaw(programName, account.name);
+
+  const columns = [
+    '    "id"                   BIGSERIAL PRIMARY KEY',
+    '    "pubkey"               TEXT NOT NULL',
+    '    "slot"                 BIGINT NOT NULL',
+    '    "block_time"           TIMESTAMPTZ',
+    '    "tx_signature"         TEXT',
+    '    "lamports"             BIGINT',
+    ...accountStateFields(account).map(fieldToColumn),
+    '    "indexed_at"           TIMESTAMPTZ DEFAULT NOW()',
+  ];
+
+  const createTable = `CREATE TABLE IF NOT EXISTS ${tableNameQuoted} (\n${columns.join(',\n')}\n);`;
+
+  const indexes = [
+    `CREATE INDEX IF NOT EXISTS idx_${tableNameRaw}_slot ON ${tableNameQuoted}("slot");`,
+    `CREATE UNIQUE INDEX IF NOT EXISTS uq_${tableNameRaw}_pubkey_slot ON ${tableNameQuoted}("pubkey", "slot");`,
+  ];
+
+  const fields = accountStateFields(account);
+  return [
+    createTable,
+    ...generateU64Upgrade(tableNameRaw, fields),
+    '',
+    ...indexes,
+    ...generateStructuredColumns(tableNameQuoted, tableNameRaw, fields),
+  ].join('\n');
+}
+
+/**
+ * Generates state (and optionally history) DDL for a single account type.
+ */
+export function generateAccountTables(
+  programName: string,
+  account: ParsedAccount,
+  history: boolean
+): string[] {
+  const ddl = [generateAccountStateTable(programName, account)];
+  if (history) {
+    ddl.push(generateAccountHistoryTable(programName, account));
+  }
+  return ddl;
 }
 
 // =============================================================================
@@ -299,6 +611,15 @@ export function generateDDL(parsed: ParsedIDL, config: ProgramConfig): string[]
     ddl.push(generateInstructionTable(parsed.programName, instruction));
   }
 
+  // Generate state tables for each tracked account type
+  if (config.accounts) {
+    for (const account of parsed.accounts) {
+      if (config.accounts.includes(account.name)) {
+        ddl.push(...generateAccountTables(parsed.programName, account, config.accountHistory === true));
+      }
+    }
+  }
+
   // Include token transfers table if enabled
   if (config.tokenTransfers) {
     ddl.push(generateTokenTransfersTable());
@@ -321,12 +642,14 @@ export function generateDDL(parsed: ParsedIDL, config: ProgramConfig): string[]
  *
  * @param schemaName - The PostgreSQL schema (e.g., 'u_a1b2c3d4')
  * @param parsed - The normalized parsed IDL
- * @param enabledEvents - Which events/instructions the user has enabled
+ * @param enabledEvents - Which events/instructions/accounts the user has enabled
+ * @param accountHistory - Whether tracked accounts also get a history table
  */
 export function generateUserSchemaDDL(
   schemaName: string,
   parsed: ParsedIDL,
-  enabledEvents: UserProgramEvent[]
+  enabledEvents: UserProgramEvent[],
+  accountHistory = false
 ): string[] {
   const ddl: string[] = [];
 
@@ -363,6 +686,19 @@ export function generateUserSchemaDDL(
     }
   }
 
+  // Filter tracked accounts by enabled status
+  const enabledAccountNames = new Set(
+    enabledEvents
+      .filter((e) => e.enabled && e.eventType === 'account')
+      .map((e) => e.eventName)
+  );
+
+  for (const account of parsed.accounts) {
+    if (enabledAccountNames.has(account.name)) {
+      ddl.push(...generateAccountTables(parsed.programName, account, accountHistory));
+    }
+  }
+
   // Reset search_path
   ddl.push('SET search_path TO public');
 
@@ -0,0 +1,25 @@
+/**
+ * Uho — Row Serialization
+ *
+ * Converts database rows into JSON-safe values for API responses: BIGINT
+ * values become strings, timestamps ISO 8601 strings and BYTEA values base64.
+ */
+
+/**
+ * Serializes a database row for a JSON (or GraphQL) response.
+ */
+export function serializeRow(row: Record<string, unknown>): Record<string, unknown> {
+  const serialized: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(row)) {
+    if (typeof value === 'bigint') {
+      serialized[key] = value.toString();
+    } else if (value instanceof Date) {
+      serialized[key] = value.toISOString();
+    } else if (Buffer.isBuffer(value)) {
+      serialized[key] = value.toString('base64');
+    } else {
+      serialized[key] = value;
+    }
+  }
+  return serialized;
+}
@@ -0,0 +1,183 @@
+/**
+ * Uho — Structured Columns
+ *
+ * Optional column layout for nested IDL types, enabled per program with
+ * `structuredColumns`. By default every struct, enum and vector field is a
+ * single JSONB column. With the layout applied:
+ *
+ * - struct fields expand into prefixed scalar columns (`params.amount_in` →
+ *   `params_amount_in`), recursively
+ * - enum fields keep their JSONB payload column and gain a `{name}_variant`
+ *   TEXT column holding the variant name
+ * - vector and array fields stay JSONB and get a GIN index
+ *
+ * Only event and account fields are laid out this way; instruction args are
+ * decoded as primitives only. Rows of either layout map back to decoded
+ * event data with rowToEventData.
+ */
+
+import type { ParsedField, ParsedIDL } from './types.js';
+import { toSnakeCase } from './idl-parser.js';
+
+// =============================================================================
+// Layout
+// =============================================================================
+
+/**
+ * Applies the program's column layout to a parsed IDL. Returns the IDL
+ * unchanged unless structured columns are enabled.
+ */
+export function applyColumnLayout(
+  parsed: ParsedIDL,
+  config?: { structuredColumns?: unknown } | null
+): ParsedIDL {
+  if (config?.structuredColumns !== true) return parsed;
+
+  return {
+    ...parsed,
+    events: parsed.events.map((event) => ({ ...event, fields: expandFields(event.fields) })),
+    accounts: parsed.accounts.map((account) => ({ ...account, fields: expandFields(account.fields) })),
+  };
+}
+
+/**
+ * Expands fields into their structured columns.
+ *
+ * @param prefix - Key path of the enclosing struct
+ * @param nullable - Whether the enclosing struct is optional
+ */
+export function expandFields(fields: ParsedField[], prefix: string[] = [], nullable = false): ParsedField[] {
+  const columns: ParsedField[] = [];
+
+  for (const field of fields) {
+    const path = [...prefix, field.name];
+    const name = path.join('_');
+    const isNullable = nullable || field.nullable;
+
+    if (field.fields) {
+      columns.push(...expandFields(field.fields, path, isNullable));
+      continue;
+    }
+
+    const column: ParsedField = { ...field, name, nullable: isNullable };
+    if (prefix.length > 0) column.path = path;
+    if (field.sqlType === 'JSONB' && /^(option<)?(vec|array)</.test(field.type)) column.gin = true;
+    columns.push(column);
+
+    if (field.variants) {
+      columns.push({
+        name: `${name}_variant`,
+        type: 'string',
+        sqlType: 'TEXT',
+        nullable: isNullable,
+        variants: field.variants,
+        path,
+        enumPart: 'variant',
+      });
+    }
+  }
+
+  return columns;
+}
+
+/**
+ * Maps a filter key to its column name. Dotted paths address expanded struct
+ * members: `params.amountIn` → `params_amount_in`.
+ */
+export function columnForPath(key: string): string {
+  return key.split('.').map(toSnakeCase).join('_');
+}
+
+// =============================================================================
+// Value Extraction
+// =============================================================================
+
+/**
+ * Finds a field value in decoded data.
+ * Tries the snake_case name first, then converts back to camelCase to search.
+ */
+export function findFieldValue(
+  data: Record<string, unknown>,
+  snakeCaseField: string
+): unknown {
+  // Direct match (if data already has snake_case keys)
+  if (snakeCaseField in data) return data[snakeCaseField];
+
+  // Convert snake_case back to camelCase for lookup
+  const camelCase = snakeCaseField.replace(/_([a-z])/g, (_, c) => c.toUpperCase());
+  if (camelCase in data) return data[camelCase];
+
+  return undefined;
+}
+
+/**
+ * Reads the value of a column from decoded data, following the column's key
+ * path for expanded struct members and resolving enum variant names.
+ */
+export function columnValue(data: Record<string, unknown>, field: ParsedField): unknown {
+  let value: unknown = data;
+  for (const key of field.path ?? [field.name]) {
+    if (typeof value !== 'object' || value === null) return undefined;
+    value = findFieldValue(value as Record<string, unknown>, key);
+  }
+
+  if (field.enumPart === 'variant') return enumVariant(value, field.variants ?? []);
+  return value;
+}
+
+/**
+ * Resolves a decoded enum (`{ variantName: {...} }`) to the IDL variant name.
+ * The decoder's key casing can differ from the IDL's, so names are compared
+ * ignoring case and underscores.
+ */
+function enumVariant(value: unknown, variants: string[]): string | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const [key] = Object.keys(value);
+  if (key === undefined) return null;
+
+  const normalize = (name: string) => name.replace(/_/g, '').toLowerCase();
+  return variants.find((v) => normalize(v) === normalize(key)) ?? key;
+}
+
+// =============================================================================
+// Row Reconstruction
+// =============================================================================
+
+/**
+ * Rebuilds an event's decoded data from a row of its table — the inverse of
+ * columnValue. Values are keyed by IDL field name again, and struct members
+ * expanded into their own columns are nested back; an optional struct whose
+ * members are all null was None. Columns of fields the IDL doesn't define
+ * are left out.
+ *
+ * @param fields - The event's fields, without the column layout applied
+ * @param prefix - Key path of the enclosing struct
+ */
+export function rowToEventData(
+  fields: ParsedField[],
+  row: Record<string, unknown>,
+  prefix: string[] = []
+): Record<string, unknown> {
+  const data: Record<string, unknown> = {};
+
+  for (const field of fields) {
+    const path = [...prefix, field.name];
+    const column = path.join('_');
+    let value: unknown;
+
+    if (column in row) {
+      value = row[column];
+      // BYTEA reads back as a Buffer; decoded data holds bytes as hex
+      if (Buffer.isBuffer(value)) value = '\\x' + value.toString('hex');
+    } else if (field.fields) {
+      const members = rowToEventData(field.fields, row, path);
+      value = field.nullable && Object.values(members).every((v) => v === null) ? null : members;
+    } else {
+      continue;
+    }
+
+    data[field.idlName ?? field.name] = value;
+  }
+
+  return data;
+}
@@ -0,0 +1,189 @@
+/**
+ * Uho — Table Resolver
+ *
+ * Resolves a user's program and event, instruction or account name to the
+ * table that stores it, with the field metadata queries need: which fields
+ * exist, which can order results and which support range operators.
+ */
+
+import type pg from 'pg';
+import { toSnakeCase, parseIDL } from './idl-parser.js';
+import { applyColumnLayout } from './structured-columns.js';
+import {
+  eventTableName,
+  instructionTableName,
+  accountStateTableName,
+  accountHistoryTableName,
+  accountStateFields,
+} from './schema-generator.js';
+import type { AnchorIDL, ParsedIDL, ParsedAccount, ParsedField } from './types.js';
+import { NotFoundError } from './errors.js';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** SQL column types that support range operators */
+export const NUMERIC_SQL_TYPES = new Set(['INTEGER', 'BIGINT', 'NUMERIC(20,0)', 'NUMERIC(39,0)', 'DOUBLE PRECISION']);
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Metadata about a resolved table's fields */
+export interface ResolvedTable {
+  tableName: string;
+  knownFields: Set<string>;
+  validOrderColumns: Set<string>;
+  /** Set of field names that are numeric (support range operators) */
+  numericFields: Set<string>;
+  /** Full parsed field details for schema introspection */
+  fieldDetails: ParsedField[];
+  /** What the table stores — account state tables have no ix_index and are keyed by pubkey */
+  kind: 'event' | 'instruction' | 'account';
+}
+
+// =============================================================================
+// Resolution
+// =============================================================================
+
+/**
+ * Matches `{account}_state` / `{account}_state_history` against the IDL's accounts.
+ * Events take precedence, so an event literally named e.g. `PoolState` still resolves as an event.
+ */
+function findAccountTable(
+  parsedIdl: ParsedIDL,
+  name: string
+): { account: ParsedAccount; history: boolean } | null {
+  if (parsedIdl.events.some((e) => toSnakeCase(e.name) === name || e.name === name)) return null;
+
+  const match = name.match(/^(.+)_state(_history)?$/);
+  if (!match) return null;
+
+  const account = parsedIdl.accounts.find(
+    (a) => toSnakeCase(a.name) === match[1] || a.name === match[1]
+  );
+  return account ? { account, history: match[2] !== undefined } : null;
+}
+
+/**
+ * Resolves a program + event name to a table name and field metadata.
+ * Looks up the user's program in the DB and parses the stored IDL.
+ */
+export async function resolveTable(
+  pool: pg.Pool,
+  userId: string,
+  programName: string,
+  eventName: string
+): Promise<ResolvedTable> {
+  // Find the user's program by name
+  const result = await pool.query(
+    `SELECT idl, name, config FROM user_programs WHERE user_id = $1 AND name = $2 AND status != 'archived'`,
+    [userId, programName]
+  );
+
+  if (result.rows.length === 0) {
+    throw new NotFoundError(`Program '${programName}' not found`);
+  }
+
+  const storedIdl = result.rows[0].idl as Record<string, unknown>;
+
+  // Check if this is an instruction (ends with _ix)
+  const isInstruction = eventName.endsWith('_ix');
+  const actualEventName = isInstruction ? eventName.slice(0, -3) : eventName;
+
+  // Parse the IDL to get field info — use the IDL's program name for table names
+  // because provisionTables() creates tables using parsedIdl.programName (from IDL metadata)
+  const parsedIdl = applyColumnLayout(parseIDL(storedIdl as unknown as AnchorIDL), result.rows[0].config);
+  const idlProgramName = parsedIdl.programName;
+
+  // Account state tables: {account}_state (current) and {account}_state_history
+  const accountTable = findAccountTable(parsedIdl, eventName);
+  if (accountTable) {
+    const { account, history } = accountTable;
+    const accountFields = accountStateFields(account);
+    const fieldNames = accountFields.map((f) => f.name);
+    return {
+      tableName: history
+        ? accountHistoryTableName(idlProgramName, account.name)
+        : accountStateTableName(idlProgramName, account.name),
+      knownFields: new Set(['pubkey', 'slot', 'block_time', 'tx_signature', 'lamports', ...fieldNames]),
+      validOrderColumns: new Set(['id', 'pubkey', 'slot', 'block_time', 'lamports', ...fieldNames]),
+      numericFields: new Set([
+        'id', 'slot', 'lamports',
+        ...accountFields.filter((f) => NUMERIC_SQL_TYPES.has(f.sqlType)).map((f) => f.name),
+      ]),
+      fieldDetails: accountFields,
+      kind: 'account',
+    };
+  }
+
+  let tableName: string;
+  let fields: string[];
+  let fieldDetails: ParsedField[];
+  let kind: 'event' | 'instruction';
+
+  if (isInstruction) {
+    // Accept both snake_case and original names
+    const instruction = parsedIdl.instructions.find(
+      (ix) => toSnakeCase(ix.name) === actualEventName || ix.name === actualEventName
+    );
+    if (!instruction) {
+      throw new NotFoundError(`Instruction '${eventName}' not found in program '${programName}'`);
+    }
+    tableName = instructionTableName(idlProgramName, instruction.name);
+    fields = [
+      ...instruction.args.map((f) => f.name),
+      ...instruction.accounts.map((a) => toSnakeCase(a)),
+    ];
+    fieldDetails = instruction.args;
+    kind = 'instruction';
+  } else {
+    // Accept both snake_case and original names — try events first, then instructions
+    const event = parsedIdl.events.find(
+      (e) => toSnakeCase(e.name) === eventName || e.name === eventName
+    );
+    if (event) {
+      tableName = eventTableName(idlProgramName, event.name);
+      fields = event.fields.map((f) => f.name);
+      fieldDetails = event.fields;
+      kind = 'event';
+    } else {
+      // Fall back to instruction lookup (frontend may omit _ix suffix)
+      const instruction = parsedIdl.instructions.find(
+        (ix) => toSnakeCase(ix.name) === eventName || ix.name === eventName
+      );
+      if (!instruction) {
+        throw new NotFoundError(`Event '${eventName}' not found in program '${programName}'`);
+      }
+      tableName = instructionTableName(idlProgramName, instruction.name);
+      fields = [
+        ...instruction.args.map((f) => f.name),
+        ...instruction.accounts.map((a) => toSnakeCase(a)),
+      ];
+      fieldDetails = instruction.args;
+      kind = 'instruction';
+    }
+  }
+
+  const knownFields = new Set([
+    'slot', 'block_time', 'tx_signature', 'ix_index', 'inner_ix_index', 'commitment',
+    ...(kind === 'event' ? ['invoking_program'] : []),
+    ...fields,
+  ]);
+
+  const validOrderColumns = new Set([
+    'id', 'slot', 'block_time', 'tx_signature', 'indexed_at',
+    ...fields,
+  ]);
+
+  // Determine which fields are numeric (support range operators _gte, _lte, _gt, _lt)
+  const numericFields = new Set<string>([
+    'id', 'slot', 'ix_index', 'inner_ix_index', // Built-in numeric metadata fields
+    ...fieldDetails
+      .filter((f) => NUMERIC_SQL_TYPES.has(f.sqlType))
+      .map((f) => f.name),
+  ]);
+
+  return { tableName, knownFields, validOrderColumns, numericFields, fieldDetails, kind };
+}
@@ -5,6 +5,8 @@
  * These types drive IDL parsing, schema generation, ingestion, and the API layer.
  */
 
+import type { FilterExpression } from './filter-expression.js';
+
 // =============================================================================
 // Anchor IDL Types (subset of the Anchor v0.30+ IDL specification)
 // =============================================================================
@@ -49,6 +51,8 @@ export interface AnchorInstructionAccount {
 export interface AnchorAccountDef {
   name: string;
   discriminator: number[];
+  /** Pre-v0.30 IDLs inline the account layout; v0.30+ keeps it in `types` */
+  type?: { kind: string; fields?: AnchorField[] };
 }
 
 export interface AnchorEvent {
@@ -100,15 +104,28 @@ export interface ParsedEvent {
 /** A single field with both its Anchor type and corresponding PostgreSQL type */
 export interface ParsedField {
   name: string;
+  /** Name in the IDL, which decoded data is keyed by (`name` is its snake_case column name) */
+  idlName?: string;
   type: string;
   sqlType: string;
   nullable: boolean;
-}
-
-/** Normalized account definition */
+  /** Member fields, when the type resolves to a struct defined in the IDL */
+  fields?: ParsedField[];
+  /** Variant names, when the type resolves to an enum defined in the IDL */
+  variants?: string[];
+  /** Key path into the decoded data, for columns expanded from a nested struct */
+  path?: string[];
+  /** Set on the column holding an enum's variant name */
+  enumPart?: 'variant';
+  /** Whether the column gets a GIN index (vectors and arrays stored as JSONB) */
+  gin?: boolean;
+}
+
+/** Normalized account definition with its Borsh layout as SQL-ready fields */
 export interface ParsedAccount {
   name: string;
   discriminator: Buffer;
+  fields: ParsedField[];
 }
 
 /** Normalized instruction definition */
@@ -261,6 +278,10 @@ export interface UhoConfig {
     pollIntervalMs: number;
     batchSize: number;
     startSlot?: number;
+    /** How often confirmed rows are reconciled against finalized slots (0 disables) */
+    reconcileIntervalMs?: number;
+    /** Geyser gRPC endpoint used by programs with `source: geyser` */
+    geyser?: GeyserOptions;
   };
 }
 
@@ -272,6 +293,14 @@ export interface ProgramConfig {
   events?: string[];
   /** Enable cross-cutting token transfer tracking for this program's transactions */
   tokenTransfers?: boolean;
+  /** IDL account types to track as current state (one row per pubkey) */
+  accounts?: string[];
+  /** Also keep prior versions of tracked accounts, keyed by slot */
+  accountHistory?: boolean;
+  /** Expand nested structs into prefixed columns and split enums into variant + payload */
+  structuredColumns?: boolean;
+  /** Where transactions come from: RPC polling (default) or a Geyser gRPC stream */
+  source?: IngestionSourceKind;
 }
 
 /** A decoded token transfer extracted from a Solana transaction */
@@ -304,6 +333,36 @@ export interface DecodedEvent {
   txSignature: string;
   ixIndex: number;
   innerIxIndex: number | null;
+  /** Order among events emitted by the same instruction */
+  eventIndex?: number;
+  /** Program that invoked the emitting instruction via CPI (null if top-level) */
+  invokingProgram?: string | null;
+  /** Program IDs from the top-level instruction down to the emitter (null if unknown) */
+  cpiPath?: string[] | null;
+  data: Record<string, unknown>;
+}
+
+/** A decoded program-owned account, as observed at a given slot */
+export interface DecodedAccount {
+  accountName: string;
+  programId: string;
+  pubkey: string;
+  slot: number;
+  blockTime: number | null;
+  txSignature: string | null;  // Last indexed tx that wrote to the account
+  lamports: number;
+  data: Record<string, unknown>;
+}
+
+/** Commitment status stored on every indexed event/instruction/transfer row */
+export type RowCommitment = 'confirmed' | 'finalized';
+
+/** An indexed row removed because its slot never finalized */
+export interface RetractedRow {
+  kind: 'event' | 'instruction' | 'token_transfer';
+  name: string;               // Event/instruction name, or instruction type for transfers
+  slot: number;
+  txSignature: string;
   data: Record<string, unknown>;
 }
 
@@ -324,6 +383,41 @@ export interface PollerOptions {
   batchSize: number;
   startSlot?: number;
   commitment?: 'confirmed' | 'finalized';
+  /** Pages of `batchSize` signatures walked back towards the cursor per poll */
+  maxPagesPerPoll?: number;
+}
+
+/** How a program's transactions are ingested */
+export type IngestionSourceKind = 'rpc' | 'geyser';
+
+/** Connection settings for a Yellowstone Geyser gRPC endpoint */
+export interface GeyserOptions {
+  /** gRPC endpoint URL, e.g. https://geyser.example.com:443 */
+  endpoint: string;
+  /** Sent as the x-token header when the endpoint requires authentication */
+  xToken?: string;
+}
+
+/**
+ * A range of signatures the live poller skipped. Covers every transaction
+ * older than `beforeSignature` and newer than `untilSignature`.
+ */
+export interface SlotGap {
+  fromSlot: number | null;    // Slot of the saved cursor, if known
+  toSlot: number;             // Slot of the oldest signature the poller reached
+  beforeSignature: string;
+  untilSignature: string;
+}
+
+/** A gap recorded in the _uho_gaps table */
+export interface GapRecord extends SlotGap {
+  id: number;
+  programId: string;
+  status: 'open' | 'filling' | 'filled' | 'failed';
+  attempts: number;
+  error: string | null;
+  detectedAt: Date;
+  filledAt: Date | null;
 }
 
 // =============================================================================
@@ -366,6 +460,10 @@ export interface UserProgram {
   idl: Record<string, unknown>;
   chain: string;
   status: 'provisioning' | 'running' | 'paused' | 'error' | 'archived';
+  /** 'quota' when the ingestion pipeline paused it for the events quota */
+  pauseReason: 'quota' | null;
+  /** Why the program is paused or failing, if it is */
+  error: string | null;
   config: Record<string, unknown>;
   createdAt: Date;
   updatedAt: Date;
@@ -376,7 +474,7 @@ export interface UserProgramEvent {
   id: string;
   userProgramId: string;
   eventName: string;
-  eventType: 'event' | 'instruction';
+  eventType: 'event' | 'instruction' | 'account';
   enabled: boolean;
   fieldConfig: Record<string, unknown>;
   createdAt: Date;
@@ -417,22 +515,138 @@ export interface ViewAggregate {
   $last?: string;
 }
 
+/** Where a webhook delivers its events */
+export type WebhookSinkType = 'http' | 'kafka' | 'nats' | 'redis-stream' | 'sqs';
+
+/** An HTTPS endpoint receiving a signed POST per delivery */
+export interface HttpSinkConfig {
+  type: 'http';
+  url: string;
+}
+
+/** A Kafka topic; messages are keyed by webhook id, keeping them in order */
+export interface KafkaSinkConfig {
+  type: 'kafka';
+  brokers: string[];
+  topic: string;
+  ssl?: boolean;
+  sasl?: { mechanism: 'plain' | 'scram-sha-256' | 'scram-sha-512'; username: string; password: string };
+}
+
+/** A NATS subject, published to directly or through JetStream */
+export interface NatsSinkConfig {
+  type: 'nats';
+  servers: string[];
+  subject: string;
+  /** Publish through JetStream, which acknowledges and dedupes messages */
+  jetstream?: boolean;
+  token?: string;
+  user?: string;
+  pass?: string;
+}
+
+/** A Redis stream, appended to with XADD */
+export interface RedisStreamSinkConfig {
+  type: 'redis-stream';
+  /** redis:// or rediss:// connection URL */
+  url: string;
+  stream: string;
+  /** Approximate cap on the stream's length */
+  maxLen?: number;
+}
+
+/** An SQS queue, or a queue of an SQS-compatible service at `endpoint` */
+export interface SqsSinkConfig {
+  type: 'sqs';
+  queueUrl: string;
+  region: string;
+  endpoint?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+}
+
+export type WebhookSinkConfig =
+  | HttpSinkConfig
+  | KafkaSinkConfig
+  | NatsSinkConfig
+  | RedisStreamSinkConfig
+  | SqsSinkConfig;
+
+/**
+ * How a webhook's payload is rendered: the standard event JSON, a JSON
+ * template, or a Discord or Slack message.
+ */
+export type WebhookPayloadFormat = 'default' | 'template' | 'discord' | 'slack';
+
 /** A webhook subscription record */
 export interface WebhookRecord {
   id: string;
   userId: string;
   userProgramId: string;
-  url: string;
+  /** Endpoint of an HTTP sink; null for broker sinks */
+  url: string | null;
+  sink: WebhookSinkConfig;
   secret: string;
   events: string[];
-  filters: Record<string, unknown>;
+  /** Filter expression events must match; null receives every event */
+  filters: FilterExpression | null;
   active: boolean;
   lastTriggered: Date | null;
   failureCount: number;
+  /** Events per request; 1 sends each event on its own */
+  batchMaxEvents: number;
+  /** How long the oldest event of an unfilled batch waits before it is sent */
+  batchMaxWaitMs: number;
+  payloadFormat: WebhookPayloadFormat;
+  /** JSON template the payload is rendered through; null unless the format is 'template' */
+  payloadTemplate: unknown;
+  /** Data fields sent; null sends all of them */
+  payloadFields: string[] | null;
+  /** Extra headers sent with each request (HTTP sinks) */
+  customHeaders: Record<string, string>;
   createdAt: Date;
   updatedAt: Date;
 }
 
+/** A logged webhook delivery attempt */
+export interface WebhookDeliveryRecord {
+  id: string;
+  webhookId: string;
+  eventType: string;
+  payload: Record<string, unknown>;
+  responseStatus: number | null;
+  responseBody: string | null;
+  attempt: number;
+  success: boolean;
+  deliveredAt: Date;
+}
+
+/** File formats a data export can be written in */
+export type ExportFormat = 'csv' | 'ndjson' | 'parquet';
+
+/** A bulk data export job */
+export interface ExportRecord {
+  id: string;
+  userId: string;
+  programName: string;
+  eventName: string;
+  format: ExportFormat;
+  /** Filter params in the data routes' query syntax */
+  filters: Record<string, string | string[]>;
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'expired';
+  rowsExported: number;
+  /** Matching rows counted when the job started */
+  totalRows: number | null;
+  sizeBytes: number | null;
+  /** Object key in the export store, once written */
+  storageKey: string | null;
+  error: string | null;
+  createdAt: Date;
+  startedAt: Date | null;
+  completedAt: Date | null;
+  expiresAt: Date | null;
+}
+
 /** Authenticated user payload attached to requests */
 export interface AuthPayload {
   userId: string;
@@ -444,11 +658,12 @@ export interface AuthPayload {
 export interface WsSubscription {
   programs?: string[];
   events?: string[];
-  filters?: Record<string, unknown>;
+  filters?: FilterExpression | null;
 }
 
 /** Usage statistics for a user */
 export interface UsageStats {
+  plan: { id: string; name: string };
   programs: number;
   programLimit: number;
   eventsIndexed: number;
@@ -457,8 +672,62 @@ export interface UsageStats {
   apiCallLimit: number;
 }
 
+/** Usage metrics recorded in hourly buckets */
+export type UsageMetricType = 'api_call' | 'event_indexed' | 'ws_message' | 'webhook_delivery';
+
+/** Bucket size of a usage history query */
+export type UsageGranularity = 'hour' | 'day' | 'month';
+
+/** Usage of one metric by one program in one history bucket */
+export interface UsageHistoryPoint {
+  /** Bucket start (UTC) */
+  period: Date;
+  metric: UsageMetricType;
+  /** Null for usage not tied to a program */
+  programId: string | null;
+  programName: string | null;
+  count: number;
+}
+
+/** Resource limits of a plan */
+export interface PlanLimits {
+  programs: number;
+  eventsIndexed: number;
+  apiCallsPerMonth: number;
+  wsConnections: number;
+  customViews: number;
+  webhooks: number;
+  apiKeys: number;
+  /** How many slots back from the tip a backfill may start */
+  backfillSlots: number;
+}
+
+/** A plan users can be assigned to */
+export interface PlanRecord {
+  id: string;
+  name: string;
+  limits: PlanLimits;
+  /** Plan of users without an assignment */
+  isDefault: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/** A user's plan with their overrides applied */
+export interface UserPlan {
+  userId: string;
+  plan: PlanRecord;
+  overrides: Partial<PlanLimits>;
+  /** The plan's limits with the overrides applied */
+  limits: PlanLimits;
+  /** When the plan was assigned (account creation for the default plan) */
+  assignedAt: Date;
+}
+
 /** PG NOTIFY payload for uho_events channel */
 export interface PgNotifyPayload {
+  /** 'retracted' marks previously delivered events whose slot never finalized */
+  type?: 'event' | 'retracted';
   programId: string;
   events: Array<{
     eventName: string;
@@ -469,6 +738,14 @@ export interface PgNotifyPayload {
   subscribers: string[];
 }
 
+/** An IDL a program has been indexed with, applying from effectiveSlot on */
+export interface IdlVersion {
+  version: number;
+  effectiveSlot: number;
+  parsedIdl: ParsedIDL;
+  rawIdl: Record<string, unknown>;
+}
+
 /** Information about a subscriber for the indexer fanout */
 export interface SubscriberInfo {
   userId: string;
@@ -477,8 +754,14 @@ export interface SubscriberInfo {
   parsedIdl: ParsedIDL;
   enabledEvents: string[];
   enabledInstructions: string[];
+  enabledAccounts: string[];
   rawIdl: Record<string, unknown>;
   tokenTransfers?: boolean;
+  accountHistory?: boolean;
+  /** Ingestion source requested in user_programs.config ('webhook' programs are only pushed) */
+  source?: IngestionSourceKind | 'webhook';
+  /** Every IDL version of the program, oldest first (parsedIdl merges them for writing) */
+  idlVersions?: IdlVersion[];
 }
 
 /** Result of writing events to multiple subscriber schemas */
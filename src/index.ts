@@ -13,9 +13,16 @@ export * from './core/db.js';
 
 // Ingestion
 export { TransactionPoller } from './ingestion/poller.js';
+export { GeyserSource, toParsedTransaction } from './ingestion/geyser-source.js';
+export { createIngestionSource, type IngestionSource } from './ingestion/source.js';
+export { ProgramPipeline, parseSubscribers, loadSubscribers } from './ingestion/pipeline.js';
+export { parseIngestPayload, involvesProgram } from './ingestion/ingest-payload.js';
 export { EventDecoder } from './ingestion/decoder.js';
 export { EventWriter } from './ingestion/writer.js';
+export { AccountDecoder } from './ingestion/account-decoder.js';
+export { AccountTracker } from './ingestion/account-tracker.js';
+export { CommitmentReconciler, reconcileTables } from './ingestion/reconciler.js';
 
 // API
 export { createServer, startServer } from './api/server.js';
-export { registerEventRoutes, registerStatusRoute, registerHealthRoute } from './api/routes.js';
+export { registerEventRoutes, registerAccountRoutes, registerStatusRoute, registerHealthRoute } from './api/routes.js';
@@ -0,0 +1,66 @@
+/**
+ * Uho — Account Decoder
+ *
+ * Decodes program-owned account data using the Borsh layouts declared in the
+ * IDL's `accounts` section. Matches the 8-byte Anchor account discriminator
+ * to find the account type, then deserializes via @coral-xyz/anchor's BorshCoder.
+ */
+
+import { BorshCoder } from '@coral-xyz/anchor';
+import type { AnchorIDL, ParsedIDL, ParsedAccount } from '../core/types.js';
+import { normalizeEventData } from './decoder.js';
+
+// =============================================================================
+// Account Decoder
+// =============================================================================
+
+export class AccountDecoder {
+  private coder: BorshCoder | null;
+  private accounts: ParsedAccount[];
+
+  /**
+   * Creates a decoder for the program's IDL account types.
+   *
+   * @param parsedIdl - The normalized parsed IDL
+   * @param rawIdl - The original Anchor IDL JSON (needed by BorshCoder)
+   * @param accountNames - Optional whitelist of account types to decode (default: all)
+   */
+  constructor(parsedIdl: ParsedIDL, rawIdl: AnchorIDL, accountNames?: string[]) {
+    this.accounts = accountNames
+      ? parsedIdl.accounts.filter((a) => accountNames.includes(a.name))
+      : parsedIdl.accounts;
+
+    let coder: BorshCoder | null = null;
+    try {
+      coder = new BorshCoder(rawIdl as any);
+    } catch (err) {
+      console.warn(`[AccountDecoder] BorshCoder failed for ${parsedIdl.programName}, account decoding disabled: ${(err as Error).message}`);
+    }
+    this.coder = coder;
+  }
+
+  /** Names of the account types this decoder handles */
+  get accountNames(): string[] {
+    return this.accounts.map((a) => a.name);
+  }
+
+  /**
+   * Decodes raw account data into its IDL account type and normalized fields.
+   * Returns null if the discriminator doesn't match a tracked account type
+   * or the data fails to deserialize.
+   */
+  decodeAccountData(data: Buffer): { accountName: string; data: Record<string, unknown> } | null {
+    if (!this.coder || data.length < 8) return null;
+
+    const account = this.accounts.find((a) => data.subarray(0, 8).equals(a.discriminator));
+    if (!account) return null;
+
+    try {
+      const decoded = this.coder.accounts.decode(account.name, data) as Record<string, unknown>;
+      return { accountName: account.name, data: normalizeEventData(decoded) };
+    } catch (err) {
+      console.warn(`[AccountDecoder] Failed to decode ${account.name}: ${(err as Error).message}`);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * Uho — Account State Tracker
+ *
+ * Keeps program account state current alongside transaction ingestion.
+ * After each polled batch, collects the writable accounts those transactions
+ * touched, fetches their latest data in bulk, and decodes the ones owned by
+ * the program into DecodedAccount records ready for upsert.
+ */
+
+import { PublicKey, type Connection, type ParsedTransactionWithMeta } from '@solana/web3.js';
+import type { DecodedAccount } from '../core/types.js';
+import type { AccountDecoder } from './account-decoder.js';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Max pubkeys per getMultipleAccountsInfo call (RPC limit) */
+const MAX_ACCOUNTS_PER_REQUEST = 100;
+
+// =============================================================================
+// Account Tracker
+// =============================================================================
+
+export class AccountTracker {
+  constructor(
+    private connection: Connection,
+    private programId: PublicKey,
+    private decoder: AccountDecoder
+  ) {}
+
+  /**
+   * Fetches and decodes the current state of every program-owned account
+   * written by the given transactions.
+   */
+  async fetchTouchedAccounts(txs: ParsedTransactionWithMeta[]): Promise<DecodedAccount[]> {
+    const touched = collectWritableAccounts(txs, this.programId);
+    if (touched.size === 0) return [];
+
+    const pubkeys = Array.from(touched.keys());
+    const results: DecodedAccount[] = [];
+
+    for (let i = 0; i < pubkeys.length; i += MAX_ACCOUNTS_PER_REQUEST) {
+      const chunk = pubkeys.slice(i, i + MAX_ACCOUNTS_PER_REQUEST);
+
+      try {
+        const { context, value } = await this.connection.getMultipleAccountsInfoAndContext(
+          chunk.map((k) => new PublicKey(k)),
+          'confirmed'
+        );
+
+        for (let j = 0; j < chunk.length; j++) {
+          const info = value[j];
+          if (!info || !info.owner.equals(this.programId)) continue;
+
+          const decoded = this.decoder.decodeAccountData(info.data);
+          if (!decoded) continue;
+
+          const source = touched.get(chunk[j])!;
+          results.push({
+            accountName: decoded.accountName,
+            programId: this.programId.toBase58(),
+            pubkey: chunk[j],
+            slot: context.slot,
+            blockTime: source.blockTime,
+            txSignature: source.txSignature,
+            lamports: info.lamports,
+            data: decoded.data,
+          });
+        }
+      } catch (err) {
+        console.warn(`[AccountTracker] Failed to fetch ${chunk.length} account(s): ${(err as Error).message}`);
+      }
+    }
+
+    return results;
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Collects writable, non-program account keys from a batch of transactions.
+ * When an account appears in several transactions, the latest one wins.
+ */
+function collectWritableAccounts(
+  txs: ParsedTransactionWithMeta[],
+  programId: PublicKey
+): Map<string, { slot: number; blockTime: number | null; txSignature: string }> {
+  const touched = new Map<string, { slot: number; blockTime: number | null; txSignature: string }>();
+  const programKey = programId.toBase58();
+
+  for (const tx of txs) {
+    if (tx.meta?.err) continue;
+    const txSignature = tx.transaction.signatures[0];
+
+    for (const key of tx.transaction.message.accountKeys ?? []) {
+      if (!key.writable) continue;
+      const pubkey = key.pubkey.toBase58();
+      if (pubkey === programKey) continue;
+
+      const existing = touched.get(pubkey);
+      if (!existing || tx.slot >= existing.slot) {
+        touched.set(pubkey, { slot: tx.slot, blockTime: tx.blockTime ?? null, txSignature });
+      }
+    }
+  }
+
+  return touched;
+}
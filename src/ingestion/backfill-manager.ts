@@ -3,32 +3,69 @@
  *
  * Manages historical data backfill jobs. Spawns the Rust sidecar as a subprocess,
  * reads NDJSON stream from stdout, pipes through EventDecoder → FanoutWriter → Postgres.
- * Tracks progress and handles errors gracefully.
+ * Tracks progress and handles errors gracefully. Also fills the gaps the live
+ * poller records in _uho_gaps. Filled gaps, and backfills of a range paused
+ * for the events quota, are delivered to webhooks like live events. Every
+ * backfilled event counts towards its owner's events quota.
  */
 
 import { spawn, type ChildProcess } from 'child_process';
 import { createInterface } from 'readline';
 import { Connection, PublicKey } from '@solana/web3.js';
 import type pg from 'pg';
-import type { ParsedIDL, AnchorIDL, DecodedEvent } from '../core/types.js';
-import { EventDecoder, type TxContext } from './decoder.js';
+import type { ParsedIDL, AnchorIDL, DecodedEvent, DecodedInstruction, DecodedTokenTransfer, IdlVersion } from '../core/types.js';
+import type { TxContext } from './decoder.js';
+import { VersionedDecoder, singleVersion } from './idl-versions.js';
+import { TokenTransferDecoder } from './token-transfer-decoder.js';
 import { EventWriter } from './writer.js';
+import { FanoutWriter } from './fanout-writer.js';
+import type { EventQuota } from './event-quota.js';
 import { TransactionPoller } from './poller.js';
 import { inUserSchema } from '../core/db.js';
+import { PlanService } from '../services/plan-service.js';
 import fs from 'fs';
 import path from 'path';
 
 // =============================================================================
-// Demo Backfill Limit
+// Gap Healing Limits
 // =============================================================================
 
-/** Maximum number of slots allowed for backfill in demo mode */
-export const DEMO_BACKFILL_SLOT_LIMIT = 2_000;
+/** Maximum gaps filled per program per healing pass */
+const MAX_GAPS_PER_PASS = 5;
+
+/** Fill attempts before a gap is marked failed */
+const MAX_GAP_ATTEMPTS = 3;
+
+/** Signatures fetched per page while filling a gap */
+const GAP_FILL_BATCH_SIZE = 100;
 
 // =============================================================================
 // Types
 // =============================================================================
 
+/** A schema that receives rows for a program's filled gaps */
+export interface GapFillTarget {
+  /** User schema to write to, or null for the default search_path (CLI mode) */
+  schemaName: string | null;
+  /** Owner of the schema, whose webhooks and WebSocket subscriptions receive filled events (unset in CLI mode) */
+  userId?: string;
+  parsedIdl: ParsedIDL;
+  enabledEvents: string[];
+  enabledInstructions: string[];
+  tokenTransfers: boolean;
+}
+
+/** Everything needed to fill one program's recorded gaps */
+export interface GapHealingConfig {
+  programId: string;
+  parsedIdl: ParsedIDL;
+  /** Raw Anchor IDL for event decoding — null for Shank/Codama IDLs */
+  rawIdl: AnchorIDL | null;
+  /** IDL versions to decode with by slot (defaults to parsedIdl/rawIdl alone) */
+  idlVersions?: IdlVersion[];
+  targets: GapFillTarget[];
+}
+
 export interface BackfillJobConfig {
   jobId: string;
   userId: string;
@@ -37,10 +74,16 @@ export interface BackfillJobConfig {
   schemaName: string;
   parsedIdl: ParsedIDL;
   rawIdl: AnchorIDL;
+  /** IDL versions to decode with by slot (defaults to parsedIdl/rawIdl alone) */
+  idlVersions?: IdlVersion[];
   startSlot?: number | null;
   endSlot?: number;
+  /** Move a startSlot older than the plan allows up to the limit instead of failing */
+  clampStartSlot?: boolean;
   enabledEvents: string[];
   rpcUrl: string;
+  /** Deliver written events to webhooks and WebSocket subscriptions like live ones (a range paused for the quota) */
+  deliver?: boolean;
 }
 
 export interface BackfillStatus {
@@ -66,38 +109,57 @@ export interface BackfillStatus {
 
 export class BackfillManager {
   private pool: pg.Pool;
+  private plans: PlanService;
+  private quota?: EventQuota;
+  private fanout: FanoutWriter;
   private activeJobs = new Map<string, ChildProcess>();
   private cancelledJobs = new Set<string>();
 
-  constructor(pool: pg.Pool) {
+  /**
+   * @param quota - Enforces users' events quota on backfilled events; without
+   *   one nothing is counted or limited
+   */
+  constructor(
+    pool: pg.Pool,
+    plans: PlanService = new PlanService(pool),
+    quota?: EventQuota,
+    fanout: FanoutWriter = new FanoutWriter(pool)
+  ) {
     this.pool = pool;
+    this.plans = plans;
+    this.quota = quota;
+    this.fanout = fanout;
   }
 
   /**
-   * Validates and clamps the requested slot range to the demo limit.
+   * Validates and clamps the requested slot range to the last `maxSlots`
+   * slots (the user's plan limit). With `clampStartSlot`, a start slot that is
+   * too far back is moved up to the limit rather than rejected.
    * Returns { startSlot, endSlot } or throws if the request is invalid.
    */
-  async validateDemoRange(
+  async validateBackfillRange(
     rpcUrl: string,
+    maxSlots: number,
     requestedStartSlot?: number | null,
-    requestedEndSlot?: number
+    requestedEndSlot?: number,
+    clampStartSlot = false
   ): Promise<{ startSlot: number; endSlot: number; currentSlot: number }> {
     const connection = new Connection(rpcUrl, 'confirmed');
     const currentSlot = await connection.getSlot();
-    const minAllowedSlot = currentSlot - DEMO_BACKFILL_SLOT_LIMIT;
+    const minAllowedSlot = currentSlot - maxSlots;
 
     let endSlot = requestedEndSlot ?? currentSlot;
     let startSlot: number;
 
     if (requestedStartSlot != null) {
-      if (requestedStartSlot < minAllowedSlot) {
+      if (requestedStartSlot < minAllowedSlot && !clampStartSlot) {
         throw new Error(
-          `Demo limitation: backfill can only cover the last ${DEMO_BACKFILL_SLOT_LIMIT} slots. ` +
+          `Plan limitation: backfill can only cover the last ${maxSlots} slots. ` +
           `Requested startSlot ${requestedStartSlot} is too far back. ` +
           `Minimum allowed startSlot is ${minAllowedSlot} (current slot: ${currentSlot}).`
         );
       }
-      startSlot = requestedStartSlot;
+      startSlot = Math.max(requestedStartSlot, minAllowedSlot);
     } else {
       startSlot = minAllowedSlot;
     }
@@ -109,7 +171,18 @@ export class BackfillManager {
   }
 
   /**
-   * Starts a backfill job. Enforces demo slot limit and uses RPC poller
+   * Describes the slot range the user's plan lets backfills cover.
+   */
+  async getBackfillLimitation(userId: string): Promise<{ maxSlots: number; message: string }> {
+    const { backfillSlots } = await this.plans.getLimits(userId);
+    return {
+      maxSlots: backfillSlots,
+      message: `Backfill is limited to the last ${backfillSlots.toLocaleString('en-US')} slots on your plan.`,
+    };
+  }
+
+  /**
+   * Starts a backfill job. Enforces the plan's slot limit and uses RPC poller
    * instead of the Rust sidecar for the limited range.
    */
   async startBackfill(config: BackfillJobConfig): Promise<void> {
@@ -122,21 +195,24 @@ export class BackfillManager {
     });
 
     try {
-      // Validate and clamp to demo limit
-      const { startSlot, endSlot } = await this.validateDemoRange(
+      // Validate and clamp to the plan's limit
+      const { backfillSlots } = await this.plans.getLimits(config.userId);
+      const { startSlot, endSlot } = await this.validateBackfillRange(
         config.rpcUrl,
+        backfillSlots,
         config.startSlot,
-        config.endSlot
+        config.endSlot,
+        config.clampStartSlot
       );
 
-      console.log(`[Backfill] Demo mode: polling slots ${startSlot} → ${endSlot} (${endSlot - startSlot} slots)`);
+      console.log(`[Backfill] Polling slots ${startSlot} → ${endSlot} (${endSlot - startSlot} slots)`);
 
       await this.updateJobStatus(jobId, {
         start_slot: startSlot,
         end_slot: endSlot,
       });
 
-      // Use RPC poller instead of Rust sidecar for demo range
+      // Use RPC poller instead of Rust sidecar for the limited range
       await this.runRpcBackfill(config, startSlot, endSlot);
     } catch (err) {
       const errorMsg = err instanceof Error ? err.message : String(err);
@@ -174,7 +250,7 @@ export class BackfillManager {
    */
   async getJobStatus(jobId: string): Promise<BackfillStatus | null> {
     const result = await this.pool.query(
-      `SELECT status, progress, start_slot, end_slot, current_slot,
+      `SELECT user_id, status, progress, start_slot, end_slot, current_slot,
               events_found, events_skipped, error, started_at, completed_at
        FROM backfill_jobs WHERE id = $1`,
       [jobId]
@@ -194,10 +270,7 @@ export class BackfillManager {
       error: row.error as string | null,
       startedAt: row.started_at ? new Date(row.started_at as string).toISOString() : null,
       completedAt: row.completed_at ? new Date(row.completed_at as string).toISOString() : null,
-      demoLimitation: {
-        maxSlots: DEMO_BACKFILL_SLOT_LIMIT,
-        message: `Demo mode: backfill is limited to the last ${DEMO_BACKFILL_SLOT_LIMIT} slots. Full historical backfill available in production.`,
-      },
+      demoLimitation: await this.getBackfillLimitation(row.user_id as string),
     };
   }
 
@@ -206,11 +279,11 @@ export class BackfillManager {
    */
   async getJobByUserProgram(userProgramId: string, userId?: string): Promise<(BackfillStatus & { id: string }) | null> {
     const query = userId
-      ? `SELECT id, status, progress, start_slot, end_slot, current_slot,
+      ? `SELECT id, user_id, status, progress, start_slot, end_slot, current_slot,
                 events_found, events_skipped, error, started_at, completed_at
          FROM backfill_jobs WHERE user_program_id = $1 AND user_id = $2
          ORDER BY created_at DESC LIMIT 1`
-      : `SELECT id, status, progress, start_slot, end_slot, current_slot,
+      : `SELECT id, user_id, status, progress, start_slot, end_slot, current_slot,
                 events_found, events_skipped, error, started_at, completed_at
          FROM backfill_jobs WHERE user_program_id = $1
          ORDER BY created_at DESC LIMIT 1`;
@@ -234,10 +307,7 @@ export class BackfillManager {
       error: row.error as string | null,
       startedAt: row.started_at ? new Date(row.started_at as string).toISOString() : null,
       completedAt: row.completed_at ? new Date(row.completed_at as string).toISOString() : null,
-      demoLimitation: {
-        maxSlots: DEMO_BACKFILL_SLOT_LIMIT,
-        message: `Demo mode: backfill is limited to the last ${DEMO_BACKFILL_SLOT_LIMIT} slots. Full historical backfill available in production.`,
-      },
+      demoLimitation: await this.getBackfillLimitation(row.user_id as string),
     };
   }
 
@@ -281,6 +351,142 @@ export class BackfillManager {
     await this.updateJobStatus(jobId, updates);
   }
 
+  // ===========================================================================
+  // Gap Healing
+  // ===========================================================================
+
+  /**
+   * Fills gaps the live poller recorded for one program. A gap recorded in
+   * several schemas (same signature range) is fetched once and written to each.
+   * Failed fills are retried on later passes, up to MAX_GAP_ATTEMPTS.
+   *
+   * @returns Number of gaps filled
+   */
+  async fillGaps(connection: Connection, config: GapHealingConfig): Promise<number> {
+    // 1. Collect fillable gaps per target, grouped by signature range
+    type Member = { target: GapFillTarget; gapId: number; attempts: number };
+    const groups = new Map<string, { fromSlot: number | null; toSlot: number; before: string; until: string; members: Member[] }>();
+
+    for (const target of config.targets) {
+      // Gaps of users over their events quota stay open until it allows indexing
+      if (target.userId && this.quota && await this.quota.isExhausted(target.userId)) continue;
+
+      const gaps = await this.withGapWriter(target, (writer) =>
+        writer.getUnfilledGaps(config.programId)
+      );
+      for (const gap of gaps) {
+        // 'filling' rows are leftovers from an interrupted pass — pick them up again
+        if (gap.status === 'failed') continue;
+
+        const key = `${gap.beforeSignature}:${gap.untilSignature}`;
+        const group = groups.get(key) ?? {
+          fromSlot: gap.fromSlot,
+          toSlot: gap.toSlot,
+          before: gap.beforeSignature,
+          until: gap.untilSignature,
+          members: [],
+        };
+        group.members.push({ target, gapId: gap.id, attempts: gap.attempts });
+        groups.set(key, group);
+      }
+    }
+    if (groups.size === 0) return 0;
+
+    // 2. Set up decoders once for all targets
+    const decoder = new VersionedDecoder(
+      config.programId,
+      config.idlVersions ?? singleVersion(config.parsedIdl, (config.rawIdl ?? {}) as Record<string, unknown>),
+      { events: config.rawIdl !== null }
+    );
+    const tokenTransferDecoder = config.targets.some((t) => t.tokenTransfers)
+      ? new TokenTransferDecoder()
+      : null;
+    const poller = new TransactionPoller(
+      connection,
+      new PublicKey(config.programId),
+      { pollIntervalMs: 0, batchSize: GAP_FILL_BATCH_SIZE }
+    );
+
+    // 3. Fill each gap range
+    let filled = 0;
+    for (const group of [...groups.values()].slice(0, MAX_GAPS_PER_PASS)) {
+      for (const m of group.members) {
+        await this.withGapWriter(m.target, (writer) =>
+          writer.updateGap(m.gapId, { status: 'filling', attempts: m.attempts + 1 })
+        );
+      }
+
+      try {
+        const written = new Map<GapFillTarget, number>();
+
+        await poller.fetchRange(group.before, group.until, async (txs) => {
+          const events: DecodedEvent[] = [];
+          const instructions: DecodedInstruction[] = [];
+          const transfers: DecodedTokenTransfer[] = [];
+          for (const tx of txs) {
+            events.push(...decoder.decodeEvents(tx));
+            instructions.push(...decoder.decodeInstructions(tx));
+            if (tokenTransferDecoder) transfers.push(...tokenTransferDecoder.decodeTransaction(tx));
+          }
+
+          for (const m of group.members) {
+            const targetEvents = events.filter((e) => m.target.enabledEvents.includes(e.eventName));
+            let inserted: DecodedEvent[] = [];
+            const count = await this.withGapWriter(m.target, async (writer) => {
+              inserted = await writer.insertEvents(targetEvents);
+              let n = inserted.length;
+              n += await writer.writeInstructions(
+                instructions.filter((ix) => m.target.enabledInstructions.includes(ix.instructionName))
+              );
+              if (m.target.tokenTransfers) n += await writer.writeTokenTransfers(transfers);
+              return n;
+            });
+            written.set(m.target, (written.get(m.target) ?? 0) + count);
+            if (m.target.userId) await this.quota?.record(m.target.userId, config.programId, count);
+
+            // Filled events are live data the poller missed. Only newly inserted
+            // rows are delivered — events the poller already indexed were
+            // delivered then. A failed enqueue leaves the gap open.
+            if (m.target.userId && inserted.length > 0) {
+              await this.fanout.deliver(config.programId, m.target.userId, inserted);
+            }
+          }
+        });
+
+        for (const m of group.members) {
+          await this.withGapWriter(m.target, async (writer) => {
+            await writer.updateGap(m.gapId, { status: 'filled', error: null, filledAt: new Date() });
+            const count = written.get(m.target) ?? 0;
+            if (count > 0) {
+              const state = await writer.getState(config.programId);
+              await writer.updateState(config.programId, {
+                eventsIndexed: (state?.eventsIndexed ?? 0) + count,
+              });
+            }
+          });
+        }
+
+        filled++;
+        console.log(
+          `[Backfill] Filled gap for ${config.programId} (slots ${group.toSlot} → ${group.fromSlot ?? '?'})`
+        );
+      } catch (err) {
+        const errorMsg = err instanceof Error ? err.message : String(err);
+        console.error(`[Backfill] Failed to fill gap for ${config.programId}: ${errorMsg}`);
+        for (const m of group.members) {
+          await this.withGapWriter(m.target, (writer) =>
+            writer.updateGap(m.gapId, {
+              status: m.attempts + 1 >= MAX_GAP_ATTEMPTS ? 'failed' : 'open',
+              error: errorMsg,
+            })
+          ).catch(() => {});
+        }
+      }
+    }
+
+    return filled;
+  }
+
   // ===========================================================================
   // Private — RPC Backfill (Demo Mode)
   // ===========================================================================
@@ -296,7 +502,7 @@ export class BackfillManager {
   ): Promise<void> {
     const connection = new Connection(config.rpcUrl, 'confirmed');
     const programPubkey = new PublicKey(config.programId);
-    const decoder = new EventDecoder(config.parsedIdl, config.rawIdl);
+    const decoder = new VersionedDecoder(config.programId, backfillVersions(config));
 
     let eventsFound = 0;
     let eventsSkipped = 0;
@@ -379,6 +585,12 @@ export class BackfillManager {
       const sig = allSignatures[i];
       if (sig.err) continue;
 
+      // Fails the job once the owner's events quota is used up
+      if (this.quota && await this.quota.isExhausted(config.userId)) {
+        throw new Error('Events quota exceeded');
+      }
+
+      let written: DecodedEvent[] = [];
       try {
         let tx: Awaited<ReturnType<typeof connection.getParsedTransaction>>;
         let txRetries = 0;
@@ -403,16 +615,9 @@ export class BackfillManager {
 
         if (!tx?.meta?.logMessages) continue;
 
-        const txContext: TxContext = {
-          txSignature: sig.signature,
-          slot: sig.slot,
-          blockTime: tx.blockTime ?? null,
-          programId: config.programId,
-        };
-
         let decodedEvents: DecodedEvent[];
         try {
-          decodedEvents = decoder.decodeLogMessages(tx.meta.logMessages, txContext);
+          decodedEvents = decoder.decodeEvents(tx);
         } catch {
           eventsSkipped++;
           continue;
@@ -426,18 +631,24 @@ export class BackfillManager {
 
         if (filteredEvents.length === 0) continue;
 
-        await inUserSchema(this.pool, config.schemaName, async (client) => {
+        written = await inUserSchema(this.pool, config.schemaName, async (client) => {
           const writer = new EventWriter(
             this.createSchemaPool(client),
             config.parsedIdl
           );
-          await writer.writeEvents(filteredEvents);
+          return writer.insertEvents(filteredEvents);
         });
         eventsFound += filteredEvents.length;
+        await this.quota?.record(config.userId, config.programId, written.length);
       } catch (err) {
         console.warn(`[Backfill] Error processing tx ${sig.signature}: ${(err as Error).message}`);
       }
 
+      // Outside the per-tx catch: events that can't be delivered fail the job
+      if (config.deliver && written.length > 0) {
+        await this.fanout.deliver(config.programId, config.userId, written);
+      }
+
       // Progress updates every 5 seconds
       const now = Date.now();
       if (now - lastProgressUpdate > 5000) {
@@ -515,11 +726,14 @@ export class BackfillManager {
       this.activeJobs.set(config.jobId, proc);
 
       // Create decoder and writer for this job
-      const decoder = new EventDecoder(config.parsedIdl, config.rawIdl);
+      const decoder = new VersionedDecoder(config.programId, backfillVersions(config));
 
       let eventsFound = 0;
       let eventsSkipped = 0;
       let lastProgressUpdate = Date.now();
+      let quotaExceeded = false;
+      let deliveryError: string | null = null;
+      const inFlight = new Set<Promise<void>>();
 
       // Backpressure: track pending writes and pause/resume the stream
       const MAX_PENDING_WRITES = 50;
@@ -561,7 +775,7 @@ export class BackfillManager {
 
           let decodedEvents: DecodedEvent[];
           try {
-            decodedEvents = decoder.decodeLogMessages(record.logs, txContext);
+            decodedEvents = decoder.eventDecoderAt(record.slot)?.decodeLogMessages(record.logs, txContext) ?? [];
           } catch {
             // IDL mismatch — skip gracefully (Edge Case #1)
             eventsSkipped++;
@@ -581,20 +795,48 @@ export class BackfillManager {
           pendingWrites++;
           checkBackpressure();
 
-          (async () => {
+          const write = (async () => {
             try {
-              await inUserSchema(this.pool, config.schemaName, async (client) => {
-                const writer = new EventWriter(
-                  this.createSchemaPool(client),
-                  config.parsedIdl
+              let written: DecodedEvent[] = [];
+              try {
+                // Stop the sidecar once the owner's events quota is used up
+                if (this.quota && await this.quota.isExhausted(config.userId)) {
+                  if (!quotaExceeded) {
+                    quotaExceeded = true;
+                    proc.kill();
+                  }
+                  return;
+                }
+
+                written = await inUserSchema(this.pool, config.schemaName, async (client) => {
+                  // Sidecar reads rooted block history — rows are final on write
+                  const writer = new EventWriter(
+                    this.createSchemaPool(client),
+                    config.parsedIdl,
+                    'finalized'
+                  );
+                  return writer.insertEvents(filteredEvents);
+                });
+                eventsFound += filteredEvents.length;
+                await this.quota?.record(config.userId, config.programId, written.length);
+              } catch (err) {
+                console.warn(
+                  `[Backfill] Write error for tx ${record.signature}: ${(err as Error).message}`
                 );
-                await writer.writeEvents(filteredEvents);
-              });
-              eventsFound += filteredEvents.length;
-            } catch (err) {
-              console.warn(
-                `[Backfill] Write error for tx ${record.signature}: ${(err as Error).message}`
-              );
+              }
+
+              // Outside the per-tx catch: as in the RPC path, events that
+              // can't be delivered stop the sidecar and fail the job
+              if (config.deliver && written.length > 0) {
+                try {
+                  await this.fanout.deliver(config.programId, config.userId, written);
+                } catch (err) {
+                  if (!deliveryError) {
+                    deliveryError = `Event delivery failed: ${(err as Error).message}`;
+                    proc.kill();
+                  }
+                }
+              }
             } finally {
               onWriteComplete();
             }
@@ -614,6 +856,8 @@ export class BackfillManager {
               });
             }
           })();
+          inFlight.add(write);
+          write.finally(() => inFlight.delete(write)).catch(() => {});
         } catch (err) {
           // Malformed JSON line — skip
           console.warn(`[Backfill] Failed to parse line: ${(err as Error).message}`);
@@ -640,8 +884,10 @@ export class BackfillManager {
       // Handle process exit
       proc.on('close', async (code) => {
         this.activeJobs.delete(config.jobId);
+        // Settle writes still in flight so their delivery errors count
+        await Promise.allSettled(inFlight);
 
-        if (code === 0) {
+        if (code === 0 && !deliveryError) {
           await this.updateJobStatus(config.jobId, {
             status: 'completed',
             progress: 1,
@@ -654,7 +900,8 @@ export class BackfillManager {
           );
           resolve();
         } else {
-          const errorMsg = `Sidecar exited with code ${code}`;
+          const errorMsg = deliveryError
+            ?? (quotaExceeded ? 'Events quota exceeded' : `Sidecar exited with code ${code}`);
           await this.updateJobStatus(config.jobId, {
             status: 'failed',
             error: errorMsg,
@@ -709,6 +956,21 @@ export class BackfillManager {
     );
   }
 
+  /**
+   * Runs fn with an EventWriter scoped to a gap fill target's schema.
+   */
+  private async withGapWriter<T>(
+    target: GapFillTarget,
+    fn: (writer: EventWriter) => Promise<T>
+  ): Promise<T> {
+    if (!target.schemaName) {
+      return fn(new EventWriter(this.pool, target.parsedIdl));
+    }
+    return inUserSchema(this.pool, target.schemaName, (client) =>
+      fn(new EventWriter(this.createSchemaPool(client), target.parsedIdl))
+    );
+  }
+
   /**
    * Creates a minimal pool-like wrapper around a PoolClient for use with EventWriter.
    */
@@ -723,3 +985,10 @@ export class BackfillManager {
     } as unknown as pg.Pool;
   }
 }
+
+/**
+ * IDL versions a backfill job decodes with.
+ */
+function backfillVersions(config: BackfillJobConfig): IdlVersion[] {
+  return config.idlVersions ?? singleVersion(config.parsedIdl, config.rawIdl as unknown as Record<string, unknown>);
+}
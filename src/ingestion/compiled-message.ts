@@ -0,0 +1,69 @@
+/**
+ * Uho — Compiled Message Helpers
+ *
+ * Turns compiled transaction messages (account key lists plus instructions
+ * that reference them by index) into the parsed account keys and partially
+ * decoded instructions getParsedTransaction returns. Used wherever Uho
+ * receives transactions that did not come from getParsedTransaction.
+ */
+
+import {
+  PublicKey,
+  type ParsedMessageAccount,
+  type PartiallyDecodedInstruction,
+} from '@solana/web3.js';
+
+/** Signer/readonly counts from a compiled message header */
+export interface MessageHeader {
+  numRequiredSignatures: number;
+  numReadonlySignedAccounts: number;
+  numReadonlyUnsignedAccounts: number;
+}
+
+/**
+ * Resolves the full account key list: static keys (with signer/writable flags
+ * derived from the header), then writable and readonly lookup-table keys.
+ */
+export function resolveAccountKeys(
+  staticKeys: PublicKey[],
+  header: MessageHeader,
+  loadedWritable: PublicKey[] = [],
+  loadedReadonly: PublicKey[] = []
+): ParsedMessageAccount[] {
+  const { numRequiredSignatures, numReadonlySignedAccounts, numReadonlyUnsignedAccounts } = header;
+
+  const accountKeys: ParsedMessageAccount[] = staticKeys.map((pubkey, i) => ({
+    pubkey,
+    signer: i < numRequiredSignatures,
+    writable: i < numRequiredSignatures
+      ? i < numRequiredSignatures - numReadonlySignedAccounts
+      : i < staticKeys.length - numReadonlyUnsignedAccounts,
+    source: 'transaction' as const,
+  }));
+  for (const pubkey of loadedWritable) {
+    accountKeys.push({ pubkey, signer: false, writable: true, source: 'lookupTable' });
+  }
+  for (const pubkey of loadedReadonly) {
+    accountKeys.push({ pubkey, signer: false, writable: false, source: 'lookupTable' });
+  }
+
+  return accountKeys;
+}
+
+/**
+ * Resolves a compiled instruction's key indexes against the account key list.
+ *
+ * @param data - Instruction data, base58-encoded
+ */
+export function decompileInstruction(
+  accountKeys: ParsedMessageAccount[],
+  programIdIndex: number,
+  accountIndexes: ArrayLike<number>,
+  data: string
+): PartiallyDecodedInstruction {
+  return {
+    programId: accountKeys[programIdIndex].pubkey,
+    accounts: Array.from(accountIndexes, (index) => accountKeys[index].pubkey),
+    data,
+  };
+}
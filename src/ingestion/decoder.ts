@@ -1,14 +1,24 @@
 /**
  * Uho — Event Decoder
  *
- * Decodes Anchor events from Solana transaction logs.
- * Uses @coral-xyz/anchor's BorshCoder and EventParser for battle-tested
- * discriminator matching and Borsh deserialization.
+ * Decodes Anchor events from Solana transaction logs (`emit!`) and from
+ * self-invoked event instructions (`emit_cpi!`).
+ * Uses @coral-xyz/anchor's BorshCoder for battle-tested discriminator matching
+ * and Borsh deserialization. Log events are attributed to the instruction that
+ * emitted them by walking the invoke/success frames in the logs.
  */
 
-import { BorshCoder, EventParser } from '@coral-xyz/anchor';
-import { PublicKey, type ParsedTransactionWithMeta } from '@solana/web3.js';
+import { BorshCoder } from '@coral-xyz/anchor';
+import type { ParsedInnerInstruction, ParsedTransactionWithMeta } from '@solana/web3.js';
+import bs58 from 'bs58';
 import type { AnchorIDL, ParsedIDL, DecodedEvent, ParsedEvent } from '../core/types.js';
+import { findFrame, parseLogFrames, type LogFrame } from './log-frames.js';
+
+/** Anchor's EVENT_IX_TAG (0x1d9acb512ea545e4) as it appears in instruction data (little-endian) */
+const EVENT_IX_TAG_LE = Buffer.from('e445a52e51cb9a1d', 'hex');
+
+/** Log prefixes Anchor events are emitted under (`Program log:` by pre-0.26 programs) */
+const EVENT_LOG_PREFIXES = ['Program data: ', 'Program log: '];
 
 // =============================================================================
 // Event Decoder
@@ -16,13 +26,13 @@ import type { AnchorIDL, ParsedIDL, DecodedEvent, ParsedEvent } from '../core/ty
 
 export class EventDecoder {
   private parsedIdl: ParsedIDL;
-  private eventParser: EventParser | null;
+  private coder: BorshCoder | null = null;
   private eventNames: Set<string>;
   private debugCount?: number;
 
   /**
    * Creates a decoder from a parsed IDL.
-   * Initializes the Anchor BorshCoder and EventParser for log parsing.
+   * Initializes the Anchor BorshCoder used to decode event payloads.
    *
    * @param parsedIdl - The normalized parsed IDL
    * @param rawIdl - The original Anchor IDL JSON (needed by BorshCoder)
@@ -33,9 +43,8 @@ export class EventDecoder {
     // Create the Anchor BorshCoder from the raw IDL
     // Some IDLs have format mismatches (e.g., old-style `defined: "TypeName"` vs
     // new-style `defined: {name: "TypeName"}`), or reference types not in the types array.
-    // We try to patch, but if BorshCoder still fails, create a no-op event parser
+    // We try to patch, but if BorshCoder still fails, leave event decoding disabled
     // so the program can still be added for instruction-only indexing.
-    let eventParser: EventParser | null = null;
     try {
       let patchedIdl = rawIdl;
       try {
@@ -70,14 +79,11 @@ export class EventDecoder {
           throw err;
         }
       }
-      const coder = new BorshCoder(patchedIdl as any);
-      eventParser = new EventParser(new PublicKey(parsedIdl.programId), coder);
+      this.coder = new BorshCoder(patchedIdl as any);
     } catch (err) {
       console.warn(`[EventDecoder] BorshCoder failed for ${parsedIdl.programName}, event decoding disabled: ${(err as Error).message}`);
     }
 
-    this.eventParser = eventParser;
-
     // Track known event names for quick lookup
     this.eventNames = new Set(parsedIdl.events.map((e) => e.name));
   }
@@ -88,73 +94,145 @@ export class EventDecoder {
    */
   decodeTransaction(tx: ParsedTransactionWithMeta): DecodedEvent[] {
     const logs = tx.meta?.logMessages;
-    if (!logs || logs.length === 0) return [];
+    const innerInstructions = tx.meta?.innerInstructions ?? [];
+    if ((!logs || logs.length === 0) && innerInstructions.length === 0) return [];
 
-    const txSignature = tx.transaction.signatures[0];
-    const slot = tx.slot;
-    const blockTime = tx.blockTime ?? null;
-
-    return this.decodeLogMessages(logs, {
-      txSignature,
-      slot,
-      blockTime,
+    const context: TxContext = {
+      txSignature: tx.transaction.signatures[0],
+      slot: tx.slot,
+      blockTime: tx.blockTime ?? null,
       programId: this.parsedIdl.programId,
-    });
+      topLevelProgramIds: (tx.transaction.message.instructions ?? []).map((ix) => ix.programId.toBase58()),
+    };
+    const frames = parseLogFrames(logs ?? [], context.topLevelProgramIds);
+
+    return [
+      ...this.decodeFrames(frames, context),
+      ...this.decodeCpiEvents(innerInstructions, context, frames),
+    ];
   }
 
   /**
    * Decodes events from raw log messages with transaction context.
-   * Uses Anchor's EventParser to handle discriminator matching and deserialization.
+   * Each event is attributed to the instruction whose frame printed it.
    */
   decodeLogMessages(
     logs: string[],
     context: TxContext
   ): DecodedEvent[] {
+    return this.decodeFrames(parseLogFrames(logs, context.topLevelProgramIds), context);
+  }
+
+  /**
+   * Decodes the event logs printed by this program's frames. Events emitted by
+   * the same instruction are numbered in order via eventIndex.
+   */
+  private decodeFrames(frames: LogFrame[], context: TxContext): DecodedEvent[] {
     const events: DecodedEvent[] = [];
-    let ixIndex = 0;
+    if (!this.coder) return events;
 
-    try {
-      // Use Anchor's EventParser to parse events from logs
-      if (!this.eventParser) return events;
-      const parsedEvents = this.eventParser.parseLogs(logs);
-
-      for (const event of parsedEvents) {
-        // Log decoded event for debugging
-        console.log(`  🎯 Decoded event: ${event.name}`);
-        
-        // Skip events not in our IDL (shouldn't happen but be safe)
-        if (!this.eventNames.has(event.name)) continue;
-
-        events.push({
-          eventName: event.name,
-          programId: context.programId,
-          slot: context.slot,
-          blockTime: context.blockTime,
-          txSignature: context.txSignature,
-          ixIndex: ixIndex,
-          innerIxIndex: null,
-          data: normalizeEventData(event.data as Record<string, unknown>),
-        });
-
-        ixIndex++;
-      }
-    } catch (err) {
-      // Log parsing failures are not fatal — some transactions may have
-      // events from other programs or malformed data
-      console.warn(
-        `[Decoder] Failed to parse logs for tx ${context.txSignature}: ${(err as Error).message}`
-      );
-      // Debug: show the error stack for the first few failures
-      if (this.debugCount === undefined) this.debugCount = 0;
-      if (this.debugCount < 3) {
-        console.warn(`[Decoder] Stack: ${(err as Error).stack?.split('\n').slice(0, 3).join('\n')}`);
-        this.debugCount++;
+    for (const frame of frames) {
+      if (frame.programId !== context.programId) continue;
+      let eventIndex = 0;
+
+      for (const log of frame.logs) {
+        const prefix = EVENT_LOG_PREFIXES.find((p) => log.startsWith(p));
+        if (!prefix) continue;
+
+        try {
+          const event = this.coder.events.decode(log.slice(prefix.length));
+          // Skip non-event logs and events not in our IDL
+          if (!event || !this.eventNames.has(event.name)) continue;
+
+          // Log decoded event for debugging
+          console.log(`  🎯 Decoded event: ${event.name}`);
+
+          events.push({
+            eventName: event.name,
+            programId: context.programId,
+            slot: context.slot,
+            blockTime: context.blockTime,
+            txSignature: context.txSignature,
+            ixIndex: frame.ixIndex,
+            innerIxIndex: frame.innerIxIndex,
+            eventIndex: eventIndex++,
+            invokingProgram: frame.invokingProgram,
+            cpiPath: frame.cpiPath,
+            data: normalizeEventData(event.data as Record<string, unknown>),
+          });
+        } catch (err) {
+          // Decode failures are not fatal — the IDL may not match older
+          // program versions or the log may only resemble an event
+          console.warn(
+            `[Decoder] Failed to parse logs for tx ${context.txSignature}: ${(err as Error).message}`
+          );
+          // Debug: show the error stack for the first few failures
+          if (this.debugCount === undefined) this.debugCount = 0;
+          if (this.debugCount < 3) {
+            console.warn(`[Decoder] Stack: ${(err as Error).stack?.split('\n').slice(0, 3).join('\n')}`);
+            this.debugCount++;
+          }
+        }
       }
     }
 
     return events;
   }
 
+  /**
+   * Decodes events emitted with `emit_cpi!`: inner instructions in which the
+   * program invokes itself with EVENT_IX_TAG followed by the event's
+   * discriminator and Borsh payload. Each event keeps the position of the
+   * instruction that carried it; when log frames are given, the call path is
+   * that of the instruction which emitted it.
+   */
+  decodeCpiEvents(
+    innerInstructions: ParsedInnerInstruction[],
+    context: TxContext,
+    frames: LogFrame[] = []
+  ): DecodedEvent[] {
+    const events: DecodedEvent[] = [];
+    if (!this.coder) return events;
+
+    for (const inner of innerInstructions) {
+      inner.instructions.forEach((ix, j) => {
+        if (!('data' in ix) || ix.programId.toBase58() !== context.programId) return;
+
+        try {
+          const data = Buffer.from(bs58.decode(ix.data));
+          if (data.length < 16 || !data.subarray(0, 8).equals(EVENT_IX_TAG_LE)) return;
+
+          const event = this.coder!.events.decode(data.subarray(8).toString('base64'));
+          if (!event || !this.eventNames.has(event.name)) return;
+
+          // The carrier is a self-invocation; attribute the call path to its parent
+          const carrier = findFrame(frames, inner.index, j);
+          const cpiPath = carrier?.cpiPath.slice(0, -1);
+
+          events.push({
+            eventName: event.name,
+            programId: context.programId,
+            slot: context.slot,
+            blockTime: context.blockTime,
+            txSignature: context.txSignature,
+            ixIndex: inner.index,
+            innerIxIndex: j,
+            eventIndex: 0,
+            invokingProgram: cpiPath ? cpiPath[cpiPath.length - 2] ?? null : null,
+            cpiPath: cpiPath ?? null,
+            data: normalizeEventData(event.data as Record<string, unknown>),
+          });
+        } catch (err) {
+          console.warn(
+            `[Decoder] Failed to decode CPI event in tx ${context.txSignature}: ${(err as Error).message}`
+          );
+        }
+      });
+    }
+
+    return events;
+  }
+
   /**
    * Returns the parsed event definition for a given event name, or null.
    */
@@ -173,6 +251,8 @@ export interface TxContext {
   slot: number;
   blockTime: number | null;
   programId: string;
+  /** Program ID of each top-level instruction, used to align log frames */
+  topLevelProgramIds?: string[];
 }
 
 // =============================================================================
@@ -181,12 +261,12 @@ export interface TxContext {
 
 /**
  * Normalizes decoded event data for storage:
- * - BN (big number) → string
+ * - BN (u64/i64/u128/i128) → decimal string, so JSON payloads stay lossless
  * - PublicKey → base58 string
  * - Buffer / Uint8Array → hex string
  * - Nested objects → recursively normalized
  */
-function normalizeEventData(data: Record<string, unknown>): Record<string, unknown> {
+export function normalizeEventData(data: Record<string, unknown>): Record<string, unknown> {
   const normalized: Record<string, unknown> = {};
 
   for (const [key, value] of Object.entries(data)) {
@@ -202,18 +282,10 @@ function normalizeEventData(data: Record<string, unknown>): Record<string, unkno
 function normalizeValue(value: unknown): unknown {
   if (value === null || value === undefined) return value;
 
-  // Handle BN (Anchor uses BN.js)
+  // Handle BN (Anchor uses BN.js) — always a string, even when it would fit
+  // in a JS number, so a field's JSON type doesn't depend on its value
   if (typeof value === 'object' && value !== null && 'toNumber' in value) {
-    const bn = value as { toString: () => string; toNumber: () => number };
-    // Use string for large numbers to preserve precision
-    try {
-      const num = bn.toNumber();
-      // Safe integer range
-      if (Number.isSafeInteger(num)) return num;
-      return bn.toString();
-    } catch {
-      return bn.toString();
-    }
+    return (value as { toString: () => string }).toString();
   }
 
   // Handle PublicKey
@@ -0,0 +1,181 @@
+/**
+ * Uho — Event Quota
+ *
+ * Enforces each user's eventsIndexed limit in the ingestion pipeline. The
+ * fanout writer skips subscribers whose quota is used up and records what it
+ * writes, and the backfill manager does the same for backfills and gap
+ * fills; once a user's quota runs out, all their running programs are
+ * paused (pause_reason 'quota', with an explanatory error) and they are
+ * emailed. Paused programs are resumed once the quota resets (a new plan
+ * assignment) or is raised.
+ */
+
+import type pg from 'pg';
+import { PlanService } from '../services/plan-service.js';
+import { UsageService } from '../services/usage-service.js';
+import { sendQuotaPausedEmail } from '../auth/email.js';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** How long a user's quota is trusted before it is re-read from the database */
+const QUOTA_CACHE_MS = 60_000;
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** A program resumed because its owner's quota allows indexing again */
+export interface QuotaResumedProgram {
+  userId: string;
+  userProgramId: string;
+  programId: string;
+  /** The program asked for the paused range to be backfilled (config.backfillOnResume) */
+  backfill: boolean;
+}
+
+// =============================================================================
+// Event Quota
+// =============================================================================
+
+export class EventQuota {
+  /** Events indexed and the limit per user, as of `fetchedAt` plus local writes */
+  private cache = new Map<string, { used: number; limit: number; fetchedAt: number }>();
+
+  constructor(
+    private pool: pg.Pool,
+    /** Pause emails are skipped without a Resend key */
+    private resendApiKey?: string,
+    private plans: PlanService = new PlanService(pool),
+    private usage: UsageService = new UsageService(pool, plans)
+  ) {}
+
+  /**
+   * Returns true once a user has indexed as many events as their plan allows.
+   */
+  async isExhausted(userId: string): Promise<boolean> {
+    const quota = await this.get(userId);
+    return quota.used >= quota.limit;
+  }
+
+  /**
+   * Records events written for a user's program, pausing their programs when
+   * this write used up the quota. The write that crosses the limit is kept
+   * whole, so usage can exceed the limit by up to one batch.
+   */
+  async record(userId: string, programId: string, count: number): Promise<void> {
+    if (count <= 0) return;
+    // Read before tracking so a fresh read doesn't already include this write
+    const quota = await this.get(userId);
+    await this.usage.trackEventIndexed(userId, count, programId);
+    quota.used += count;
+    if (quota.used >= quota.limit) {
+      await this.pause(userId, quota.used, quota.limit);
+    }
+  }
+
+  /**
+   * Resumes the quota-paused programs of every user whose quota allows
+   * indexing again. Returns the programs resumed.
+   */
+  async resumeWithinQuota(): Promise<QuotaResumedProgram[]> {
+    const paused = await this.pool.query(
+      `SELECT DISTINCT user_id FROM user_programs WHERE status = 'paused' AND pause_reason = 'quota'`
+    );
+
+    const resumed: QuotaResumedProgram[] = [];
+    for (const row of paused.rows) {
+      const userId = row.user_id as string;
+      this.cache.delete(userId);
+      if (await this.isExhausted(userId)) continue;
+
+      const result = await this.pool.query(
+        `UPDATE user_programs SET status = 'running', pause_reason = NULL, error = NULL, updated_at = now()
+         WHERE user_id = $1 AND status = 'paused' AND pause_reason = 'quota'
+         RETURNING id, program_id, config`,
+        [userId]
+      );
+      for (const program of result.rows) {
+        resumed.push({
+          userId,
+          userProgramId: program.id as string,
+          programId: program.program_id as string,
+          backfill: (program.config as Record<string, unknown> | null)?.backfillOnResume === true,
+        });
+      }
+      console.log(`[EventQuota] Resumed ${result.rows.length} program(s) for ${userId}`);
+    }
+
+    if (resumed.length > 0) {
+      await this.refreshActiveSubscriptions();
+    }
+    return resumed;
+  }
+
+  // ===========================================================================
+  // Private
+  // ===========================================================================
+
+  /**
+   * Gets a user's cached quota, re-reading it once stale.
+   */
+  private async get(userId: string): Promise<{ used: number; limit: number; fetchedAt: number }> {
+    const cached = this.cache.get(userId);
+    if (cached && Date.now() - cached.fetchedAt < QUOTA_CACHE_MS) return cached;
+
+    const { current, limit } = await this.usage.checkLimit(userId, 'event_indexed');
+    const quota = { used: current, limit, fetchedAt: Date.now() };
+    this.cache.set(userId, quota);
+    return quota;
+  }
+
+  /**
+   * Pauses all of a user's running programs for the events quota and emails
+   * them. Does nothing if no program was running (already paused).
+   */
+  private async pause(userId: string, used: number, limit: number): Promise<void> {
+    const { plan } = await this.plans.getUserPlan(userId);
+    const error =
+      `Events quota exceeded: ${used.toLocaleString('en-US')} of ${limit.toLocaleString('en-US')} ` +
+      `events indexed on the ${plan.name} plan. Indexing resumes automatically once the quota allows it.`;
+
+    const result = await this.pool.query(
+      `UPDATE user_programs SET status = 'paused', pause_reason = 'quota', error = $2, updated_at = now()
+       WHERE user_id = $1 AND status = 'running'
+       RETURNING name`,
+      [userId, error]
+    );
+    if (result.rows.length === 0) return;
+
+    console.warn(`[EventQuota] Paused ${result.rows.length} program(s) for ${userId}: events quota exceeded`);
+    await this.refreshActiveSubscriptions();
+
+    if (!this.resendApiKey) return;
+    try {
+      const user = await this.pool.query('SELECT email FROM users WHERE id = $1', [userId]);
+      await sendQuotaPausedEmail(this.resendApiKey, user.rows[0].email as string, {
+        programs: result.rows.map((r) => r.name as string),
+        used,
+        limit,
+        planName: plan.name,
+      });
+    } catch (err) {
+      console.error(`[EventQuota] Failed to send pause email to ${userId}: ${(err as Error).message}`);
+    }
+  }
+
+  /**
+   * Refreshes the active_program_subscriptions materialized view so the
+   * indexer picks up paused and resumed programs.
+   */
+  private async refreshActiveSubscriptions(): Promise<void> {
+    try {
+      await this.pool.query('SELECT refresh_active_subscriptions()');
+    } catch (err) {
+      // The function might not exist yet (first migration); safe to ignore
+      if ((err as { code?: string })?.code === '42883') return;
+      console.error(`[EventQuota] Failed to refresh active subscriptions: ${(err as Error).message}`);
+    }
+  }
+}
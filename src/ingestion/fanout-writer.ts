@@ -3,20 +3,32 @@
  *
  * Writes decoded events to multiple user schemas in a fan-out pattern.
  * Each subscriber gets their own copy of events in their schema, filtered
- * by their enabled events. Sends PG NOTIFY for WebSocket/webhook fanout.
+ * by their enabled events. Subscribers over their events quota are skipped
+ * (see EventQuota). Enqueues written events into the webhook outbox in the
+ * same transaction as the rows, and sends PG NOTIFY for WebSocket fanout,
+ * including retractions of rows whose slot never finalized.
  */
 
 import type pg from 'pg';
-import type { ParsedIDL, DecodedEvent, DecodedInstruction, DecodedTokenTransfer, SubscriberInfo, WriteResult } from '../core/types.js';
+import type { ParsedIDL, DecodedEvent, DecodedInstruction, DecodedTokenTransfer, DecodedAccount, SubscriberInfo, WriteResult, PgNotifyPayload, RetractedRow, SlotGap } from '../core/types.js';
 import { EventWriter } from './writer.js';
 import { inUserSchema } from '../core/db.js';
+import type { EventQuota } from './event-quota.js';
+import { WebhookOutbox, type OutboxEvent } from '../services/webhook-outbox.js';
 
 // =============================================================================
 // Fanout Writer
 // =============================================================================
 
 export class FanoutWriter {
-  constructor(private pool: pg.Pool) {}
+  /**
+   * @param quota - Enforces subscribers' events quota; without one nothing is
+   *   counted or limited
+   */
+  constructor(
+    private pool: pg.Pool,
+    private quota?: EventQuota
+  ) {}
 
   /**
    * Writes decoded events to ALL user schemas that subscribe to this program.
@@ -26,6 +38,9 @@ export class FanoutWriter {
    * @param events - Decoded events to write
    * @param instructions - Decoded instructions to write
    * @param subscribers - List of subscriber schemas to write to
+   * @param txLogs - Raw transaction logs for the txs in this batch
+   * @param tokenTransfers - Decoded SPL token transfers for subscribers with tracking enabled
+   * @param accountStates - Decoded account states for subscribers tracking those accounts
    * @returns Summary of how many events were written per subscriber
    */
   async writeToSubscribers(
@@ -34,12 +49,20 @@ export class FanoutWriter {
     instructions: DecodedInstruction[],
     subscribers: SubscriberInfo[],
     txLogs?: Array<{ txSignature: string; slot: number; logMessages: string[] }>,
-    tokenTransfers?: DecodedTokenTransfer[]
+    tokenTransfers?: DecodedTokenTransfer[],
+    accountStates?: DecodedAccount[]
   ): Promise<WriteResult> {
     const result: WriteResult = { totalWritten: 0, perSubscriber: {} };
+    const overQuota = new Set<string>();
 
     for (const sub of subscribers) {
       try {
+        // Paused for the quota — skipped until the registry drops them
+        if (this.quota && await this.quota.isExhausted(sub.userId)) {
+          overQuota.add(sub.userId);
+          continue;
+        }
+
         // Filter events and instructions to only those the subscriber has enabled
         const enabledEvents = events.filter((e) =>
           sub.enabledEvents.includes(e.eventName)
@@ -48,15 +71,22 @@ export class FanoutWriter {
           sub.enabledInstructions.includes(ix.instructionName)
         );
         const subTokenTransfers = sub.tokenTransfers ? (tokenTransfers ?? []) : [];
+        const subAccountStates = (accountStates ?? []).filter((a) =>
+          sub.enabledAccounts.includes(a.accountName)
+        );
 
-        if (enabledEvents.length === 0 && enabledInstructions.length === 0 && subTokenTransfers.length === 0) continue;
+        if (
+          enabledEvents.length === 0 &&
+          enabledInstructions.length === 0 &&
+          subTokenTransfers.length === 0 &&
+          subAccountStates.length === 0
+        ) continue;
 
-        // Write to subscriber's schema using a schema-scoped client
-        const written = await inUserSchema(this.pool, sub.schemaName, async (client) => {
-          const writer = new EventWriter(
-            this.createSchemaPool(client),
-            sub.parsedIdl
-          );
+        // Write to subscriber's schema using a schema-scoped client. Rows,
+        // outbox entries and _uho_state commit together, so a failed enqueue
+        // never leaves rows behind that no webhook receives.
+        const written = await inUserSchema(this.pool, sub.schemaName, (client) => this.inTransaction(client, async (db) => {
+          const writer = new EventWriter(db, sub.parsedIdl);
 
           let count = 0;
 
@@ -72,6 +102,11 @@ export class FanoutWriter {
             count += await writer.writeTokenTransfers(subTokenTransfers);
           }
 
+          // Account state upserts don't count towards events indexed
+          if (subAccountStates.length > 0) {
+            await writer.writeAccountStates(subAccountStates, sub.accountHistory === true);
+          }
+
           // Write transaction logs (only for txs that had events/instructions written)
           if (txLogs?.length) {
             const writtenTxSigs = new Set([
@@ -79,18 +114,28 @@ export class FanoutWriter {
               ...enabledInstructions.map((ix) => ix.txSignature),
             ]);
             const relevantLogs = txLogs.filter((l) => writtenTxSigs.has(l.txSignature));
-            for (const log of relevantLogs) {
+            if (relevantLogs.length > 0) {
+              await client.query('SAVEPOINT tx_logs');
               try {
-                await client.query(
-                  `INSERT INTO _tx_logs (tx_signature, slot, log_messages) VALUES ($1, $2, $3) ON CONFLICT (tx_signature) DO NOTHING`,
-                  [log.txSignature, log.slot, log.logMessages]
-                );
+                for (const log of relevantLogs) {
+                  await client.query(
+                    `INSERT INTO _tx_logs (tx_signature, slot, log_messages) VALUES ($1, $2, $3) ON CONFLICT (tx_signature) DO NOTHING`,
+                    [log.txSignature, log.slot, log.logMessages]
+                  );
+                }
+                await client.query('RELEASE SAVEPOINT tx_logs');
               } catch {
                 // _tx_logs table might not exist yet for older schemas — skip
+                await client.query('ROLLBACK TO SAVEPOINT tx_logs');
               }
             }
           }
 
+          // Enqueue webhook deliveries in the same transaction
+          if (enabledEvents.length > 0) {
+            await new WebhookOutbox(db).enqueue(sub.userId, programId, enabledEvents.map(toOutboxEvent));
+          }
+
           // Update _uho_state in subscriber's schema
           const allItems = [...enabledEvents, ...enabledInstructions];
           if (allItems.length > 0) {
@@ -108,10 +153,11 @@ export class FanoutWriter {
           }
 
           return count;
-        });
+        }));
 
         result.perSubscriber[sub.userId] = written;
         result.totalWritten += written;
+        await this.quota?.record(sub.userId, programId, written);
       } catch (err) {
         console.error(
           `[FanoutWriter] Error writing to ${sub.schemaName}: ${(err as Error).message}`
@@ -120,38 +166,138 @@ export class FanoutWriter {
       }
     }
 
-    // Send PG NOTIFY for WebSocket/webhook fanout
+    // Send PG NOTIFY for WebSocket fanout (and to wake the webhook worker)
     if (result.totalWritten > 0) {
-      await this.notifyNewEvents(programId, events, subscribers);
+      await this.notifyNewEvents(
+        programId,
+        events,
+        subscribers.filter((s) => !overQuota.has(s.userId))
+      );
     }
 
     return result;
   }
 
+  /**
+   * Delivers events written outside the live path (gap fills, the backfill
+   * of a range paused for the events quota) like live ones: enqueues them
+   * for the user's webhooks and notifies their WebSocket subscriptions.
+   * Throws when enqueueing fails, so the caller can retry the write.
+   */
+  async deliver(programId: string, userId: string, events: DecodedEvent[]): Promise<void> {
+    if (events.length === 0) return;
+
+    await new WebhookOutbox(this.pool).enqueue(userId, programId, events.map(toOutboxEvent));
+    await this.notify(
+      { programId, subscribers: [userId] },
+      events.map((e) => ({
+        eventName: e.eventName,
+        slot: e.slot,
+        txSignature: e.txSignature,
+        data: e.data,
+      }))
+    );
+  }
+
+  /**
+   * Records gaps the live poller could not cover in every subscriber's
+   * _uho_gaps table, for the backfill manager to fill.
+   */
+  async recordGaps(
+    programId: string,
+    gaps: SlotGap[],
+    subscribers: SubscriberInfo[]
+  ): Promise<void> {
+    if (gaps.length === 0) return;
+
+    for (const sub of subscribers) {
+      try {
+        await inUserSchema(this.pool, sub.schemaName, async (client) => {
+          const writer = new EventWriter(this.createSchemaPool(client), sub.parsedIdl);
+          for (const gap of gaps) {
+            await writer.recordGap(programId, gap);
+          }
+        });
+      } catch (err) {
+        console.error(
+          `[FanoutWriter] Error recording gaps in ${sub.schemaName}: ${(err as Error).message}`
+        );
+      }
+    }
+  }
+
+  /**
+   * Notifies WebSocket and webhook consumers that previously delivered rows
+   * were retracted because their slot never finalized.
+   *
+   * @param programId - The Solana program ID the rows came from
+   * @param retracted - Rows removed by the commitment reconciler
+   * @param userIds - Users whose schemas the rows were removed from
+   */
+  async notifyRetracted(
+    programId: string,
+    retracted: RetractedRow[],
+    userIds: string[]
+  ): Promise<void> {
+    if (retracted.length === 0) return;
+
+    for (const userId of userIds) {
+      try {
+        await new WebhookOutbox(this.pool).enqueue(
+          userId,
+          programId,
+          retracted.map((r) => ({ eventName: r.name, slot: r.slot, txSignature: r.txSignature, data: r.data })),
+          'retracted'
+        );
+      } catch (err) {
+        console.error(`[FanoutWriter] Failed to enqueue retractions for ${userId}: ${(err as Error).message}`);
+      }
+    }
+
+    await this.notify(
+      { type: 'retracted', programId, subscribers: userIds },
+      retracted.map((r) => ({
+        eventName: r.name,
+        slot: r.slot,
+        txSignature: r.txSignature,
+        data: r.data,
+      }))
+    );
+  }
+
   // ===========================================================================
   // Private — PG NOTIFY
   // ===========================================================================
 
   /**
-   * Sends PG NOTIFY on the uho_events channel for WebSocket and webhook delivery.
-   * Keeps payload small to fit within PG's ~8000 byte limit.
+   * Sends PG NOTIFY on the uho_events channel for WebSocket delivery.
    */
   private async notifyNewEvents(
     programId: string,
     events: DecodedEvent[],
     subscribers: SubscriberInfo[]
+  ): Promise<void> {
+    await this.notify(
+      { programId, subscribers: subscribers.map((s) => s.userId) },
+      events.map((e) => ({
+        eventName: e.eventName,
+        slot: e.slot,
+        txSignature: e.txSignature,
+        data: e.data,
+      }))
+    );
+  }
+
+  /**
+   * Sends payloads in PgNotifyPayload shape, splitting into one notification
+   * per event when the batch exceeds PG's ~8000 byte payload limit.
+   */
+  private async notify(
+    base: Omit<PgNotifyPayload, 'events'>,
+    events: PgNotifyPayload['events']
   ): Promise<void> {
     try {
-      const payload = JSON.stringify({
-        programId,
-        events: events.map((e) => ({
-          eventName: e.eventName,
-          slot: e.slot,
-          txSignature: e.txSignature,
-          data: e.data,
-        })),
-        subscribers: subscribers.map((s) => s.userId),
-      });
+      const payload = JSON.stringify({ ...base, events });
 
       // PG NOTIFY has a ~8000 byte payload limit
       if (payload.length < 7500) {
@@ -159,18 +305,7 @@ export class FanoutWriter {
       } else {
         // Split into individual event notifications
         for (const event of events) {
-          const smallPayload = JSON.stringify({
-            programId,
-            events: [
-              {
-                eventName: event.eventName,
-                slot: event.slot,
-                txSignature: event.txSignature,
-                data: event.data,
-              },
-            ],
-            subscribers: subscribers.map((s) => s.userId),
-          });
+          const smallPayload = JSON.stringify({ ...base, events: [event] });
           await this.pool.query("SELECT pg_notify('uho_events', $1)", [smallPayload]);
         }
       }
@@ -183,19 +318,62 @@ export class FanoutWriter {
   // Private — Pool Wrapper
   // ===========================================================================
 
+  /**
+   * Runs fn inside a transaction on client, passing a pool-like wrapper whose
+   * own transactions (EventWriter's per-batch ones) become savepoints.
+   */
+  private async inTransaction<T>(client: pg.PoolClient, fn: (db: pg.Pool) => Promise<T>): Promise<T> {
+    await client.query('BEGIN');
+    try {
+      const result = await fn(this.createSchemaPool(client, true));
+      await client.query('COMMIT');
+      return result;
+    } catch (err) {
+      await client.query('ROLLBACK').catch(() => {});
+      throw err;
+    }
+  }
+
   /**
    * Creates a minimal pool-like wrapper around a PoolClient for use with EventWriter.
    * EventWriter expects a Pool, but we need to use a specific client with search_path set.
+   * With `nested`, the client is already in a transaction and BEGIN/COMMIT/ROLLBACK
+   * issued through connect() map to a savepoint.
    */
-  private createSchemaPool(client: pg.PoolClient): pg.Pool {
+  private createSchemaPool(client: pg.PoolClient, nested = false): pg.Pool {
+    const savepoints: Record<string, string> = {
+      BEGIN: 'SAVEPOINT uho_writer',
+      COMMIT: 'RELEASE SAVEPOINT uho_writer',
+      ROLLBACK: 'ROLLBACK TO SAVEPOINT uho_writer',
+    };
+    const connected = (sql: string) => (nested ? savepoints[sql] ?? sql : sql);
+
     // Create a proxy that routes pool.connect() to return this client
     // and pool.query() to use this client
     return {
       query: (sql: string, params?: unknown[]) => client.query(sql, params),
       connect: () => Promise.resolve({
-        query: (sql: string, params?: unknown[]) => client.query(sql, params),
+        query: (sql: string, params?: unknown[]) => client.query(connected(sql), params),
         release: () => {}, // No-op since we manage the real client
       }),
     } as unknown as pg.Pool;
   }
 }
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * The outbox event of a decoded event; its position in the transaction is
+ * part of its idempotency key.
+ */
+function toOutboxEvent(e: DecodedEvent): OutboxEvent {
+  return {
+    eventName: e.eventName,
+    slot: e.slot,
+    txSignature: e.txSignature,
+    data: e.data,
+    position: `${e.ixIndex}:${e.innerIxIndex ?? '-'}:${e.eventIndex ?? 0}`,
+  };
+}
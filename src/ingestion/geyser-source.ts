@@ -0,0 +1,564 @@
+/**
+ * Uho — Geyser Streaming Source
+ *
+ * Streams a program's transactions from a Yellowstone Geyser gRPC endpoint
+ * instead of polling RPC. Updates arrive as compiled transactions, which are
+ * converted to the ParsedTransactionWithMeta shape the decoders expect and
+ * buffered until the consumer polls. Transaction updates carry no block time,
+ * so each is held until the block meta of its slot supplies one. After a
+ * (re)connect, the range between the saved cursor and the first streamed
+ * transaction is reported as a gap so the backfill manager can fill it over RPC.
+ */
+
+import { fileURLToPath } from 'url';
+import * as grpc from '@grpc/grpc-js';
+import * as protoLoader from '@grpc/proto-loader';
+import {
+  PublicKey,
+  type ParsedInstruction,
+  type ParsedTransactionWithMeta,
+  type PartiallyDecodedInstruction,
+} from '@solana/web3.js';
+import bs58 from 'bs58';
+import type { GeyserOptions, PollerOptions, SlotGap } from '../core/types.js';
+import type { IngestionSource } from './source.js';
+import { decompileInstruction, resolveAccountKeys } from './compiled-message.js';
+
+/** Directory holding geyser.proto and solana-storage.proto */
+const PROTO_DIR = fileURLToPath(new URL('./proto/', import.meta.url));
+
+/** Interval between client pings that keep idle streams open through proxies */
+const PING_INTERVAL_MS = 30_000;
+
+/** Base delay for reconnect backoff (ms) */
+const BASE_RECONNECT_MS = 1000;
+
+/** Upper bound for reconnect backoff (ms) */
+const MAX_RECONNECT_MS = 30_000;
+
+/** How long transactions wait for their slot's block meta before being delivered without a block time (ms) */
+const BLOCK_META_WAIT_MS = 10_000;
+
+/** Block times remembered for transactions that arrive after their block meta */
+const MAX_BLOCK_TIMES = 1000;
+
+/** Buffered transactions before the stream is paused until the next poll */
+const MAX_BUFFERED_TRANSACTIONS = 5000;
+
+/** Geyser frames carry full blocks of metadata — allow large messages */
+const MAX_MESSAGE_BYTES = 64 * 1024 * 1024;
+
+// =============================================================================
+// Geyser Source
+// =============================================================================
+
+export class GeyserSource implements IngestionSource {
+  readonly kind = 'geyser' as const;
+
+  private programId: PublicKey;
+  private options: PollerOptions;
+  private geyser: GeyserOptions;
+  private client: GeyserClient | null = null;
+  private stream: grpc.ClientDuplexStream<SubscribeRequest, GeyserUpdate> | null = null;
+  private buffer: ParsedTransactionWithMeta[] = [];
+  private blockTimes = new Map<number, number | null>();
+  private awaitingBlockMeta = new Map<number, { txs: ParsedTransactionWithMeta[]; timer: ReturnType<typeof setTimeout> }>();
+  private lastSignature: string | null = null;
+  private lastSlot: number | null = null;
+  private pollCount = 0;
+  private running = false;
+  private streaming = false;
+  private paused = false;
+  private awaitingFirstTx = false;
+  private reconnectAttempts = 0;
+  private pingId = 0;
+  private pingTimer: ReturnType<typeof setInterval> | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private wake: (() => void) | null = null;
+  private pendingGaps: SlotGap[] = [];
+
+  constructor(programId: PublicKey, options: PollerOptions, geyser: GeyserOptions) {
+    this.programId = programId;
+    this.options = options;
+    this.geyser = geyser;
+  }
+
+  /**
+   * Returns the current stream state for persistence/debugging.
+   */
+  getState(): { lastSignature: string | null; pollCount: number } {
+    return {
+      lastSignature: this.lastSignature,
+      pollCount: this.pollCount,
+    };
+  }
+
+  /**
+   * Sets the last known signature (for resuming from a saved cursor).
+   * Transactions between it and the first streamed one are recorded as a gap.
+   */
+  setLastSignature(sig: string | null, slot?: number | null): void {
+    this.lastSignature = sig;
+    this.lastSlot = slot ?? null;
+  }
+
+  /**
+   * Returns and clears the gaps detected since the last call.
+   */
+  drainGaps(): SlotGap[] {
+    const gaps = this.pendingGaps;
+    this.pendingGaps = [];
+    return gaps;
+  }
+
+  /**
+   * Opens the stream on first use and returns the transactions buffered
+   * since the previous call.
+   */
+  async poll(): Promise<ParsedTransactionWithMeta[]> {
+    this.pollCount++;
+    this.open();
+
+    const transactions = this.buffer;
+    this.buffer = [];
+
+    if (this.paused && this.stream) {
+      this.paused = false;
+      this.stream.resume();
+    }
+
+    return transactions;
+  }
+
+  /**
+   * Streams continuously, calling the callback as soon as transactions arrive.
+   */
+  async start(
+    callback: (txs: ParsedTransactionWithMeta[]) => Promise<void>
+  ): Promise<void> {
+    this.running = true;
+    this.open();
+
+    while (this.running) {
+      if (this.buffer.length === 0) {
+        await new Promise<void>((resolve) => { this.wake = resolve; });
+        this.wake = null;
+        if (!this.running) break;
+      }
+
+      try {
+        const transactions = await this.poll();
+        if (transactions.length > 0) {
+          await callback(transactions);
+        }
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        console.error(`[Geyser] Error handling stream batch: ${message}`);
+        // Don't crash — log and continue
+      }
+    }
+  }
+
+  /**
+   * Closes the stream and stops the delivery loop.
+   */
+  stop(): void {
+    this.running = false;
+    this.streaming = false;
+
+    if (this.pingTimer) clearInterval(this.pingTimer);
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.pingTimer = null;
+    this.reconnectTimer = null;
+    for (const held of this.awaitingBlockMeta.values()) clearTimeout(held.timer);
+    this.awaitingBlockMeta.clear();
+
+    this.stream?.cancel();
+    this.stream = null;
+    this.client?.close();
+    this.client = null;
+
+    this.wake?.();
+  }
+
+  /**
+   * Whether the delivery loop is currently running.
+   */
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  // ===========================================================================
+  // Private — Stream Lifecycle
+  // ===========================================================================
+
+  /**
+   * Opens the subscription if it isn't already open.
+   */
+  private open(): void {
+    if (this.streaming) return;
+    this.streaming = true;
+    this.connect();
+  }
+
+  /**
+   * Subscribes to confirmed, successful transactions that touch the program,
+   * and to block metas for their block times.
+   */
+  private connect(): void {
+    const programKey = this.programId.toBase58();
+    const { target, credentials } = parseEndpoint(this.geyser.endpoint);
+
+    if (!this.client) {
+      const { Geyser } = loadGeyserProto().geyser;
+      this.client = new Geyser(target, credentials, {
+        'grpc.max_receive_message_length': MAX_MESSAGE_BYTES,
+        'grpc.keepalive_time_ms': PING_INTERVAL_MS,
+      });
+    }
+
+    const metadata = new grpc.Metadata();
+    if (this.geyser.xToken) metadata.set('x-token', this.geyser.xToken);
+
+    const stream = this.client.Subscribe(metadata);
+    this.stream = stream;
+    this.awaitingFirstTx = true;
+    this.paused = false;
+
+    stream.on('data', (update: GeyserUpdate) => this.handleUpdate(update));
+    stream.on('error', (err: grpc.ServiceError) => {
+      if (err.code === grpc.status.CANCELLED && !this.streaming) return;
+      console.error(`[Geyser] Stream error for ${programKey}: ${err.message}`);
+      this.scheduleReconnect(stream);
+    });
+    stream.on('end', () => this.scheduleReconnect(stream));
+
+    stream.write({
+      transactions: {
+        [programKey]: {
+          vote: false,
+          failed: false,
+          accountInclude: [programKey],
+          accountExclude: [],
+          accountRequired: [],
+        },
+      },
+      blocksMeta: { [programKey]: {} },
+      commitment: this.options.commitment === 'finalized' ? 'FINALIZED' : 'CONFIRMED',
+    });
+
+    if (!this.pingTimer) {
+      this.pingTimer = setInterval(() => this.ping(), PING_INTERVAL_MS);
+    }
+  }
+
+  /**
+   * Reopens the stream with exponential backoff after it ends or fails.
+   */
+  private scheduleReconnect(stream: grpc.ClientDuplexStream<SubscribeRequest, GeyserUpdate>): void {
+    if (!this.streaming || stream !== this.stream || this.reconnectTimer) return;
+    this.stream = null;
+
+    const delay = Math.min(BASE_RECONNECT_MS * Math.pow(2, this.reconnectAttempts), MAX_RECONNECT_MS);
+    this.reconnectAttempts++;
+    console.warn(`[Geyser] Stream closed, reconnecting in ${delay}ms`);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (this.streaming) this.connect();
+    }, delay);
+  }
+
+  /**
+   * Sends a ping request; Yellowstone servers and proxies close silent streams.
+   */
+  private ping(): void {
+    this.stream?.write({ ping: { id: ++this.pingId } });
+  }
+
+  /**
+   * Holds transaction updates until their block time is known, and answers
+   * server pings.
+   */
+  private handleUpdate(update: GeyserUpdate): void {
+    if (update.ping) {
+      this.ping();
+      return;
+    }
+    if (update.blockMeta) {
+      this.handleBlockMeta(update.blockMeta);
+      return;
+    }
+    if (!update.transaction?.transaction) return;
+
+    const slot = Number(update.transaction.slot);
+    const tx = toParsedTransaction(update.transaction, this.blockTimes.get(slot) ?? null);
+    if (tx.meta?.err) return;
+    const signature = tx.transaction.signatures[0];
+
+    if (this.awaitingFirstTx) {
+      this.awaitingFirstTx = false;
+      this.reconnectAttempts = 0;
+
+      // Anything between the saved cursor and this tx was never streamed
+      if (this.lastSignature && this.lastSignature !== signature) {
+        this.pendingGaps.push({
+          fromSlot: this.lastSlot,
+          toSlot: tx.slot,
+          beforeSignature: signature,
+          untilSignature: this.lastSignature,
+        });
+      }
+    }
+
+    if (this.blockTimes.has(slot)) {
+      this.deliver([tx]);
+      return;
+    }
+
+    const held = this.awaitingBlockMeta.get(slot);
+    if (held) {
+      held.txs.push(tx);
+    } else {
+      // Block metas can be missed across reconnects — don't hold a slot forever
+      const timer = setTimeout(() => this.releaseSlot(slot, null), BLOCK_META_WAIT_MS);
+      this.awaitingBlockMeta.set(slot, { txs: [tx], timer });
+    }
+  }
+
+  /**
+   * Records a block's time and delivers the transactions waiting for it.
+   */
+  private handleBlockMeta(meta: GeyserBlockMetaUpdate): void {
+    const slot = Number(meta.slot);
+    const blockTime = meta.blockTime ? Number(meta.blockTime.timestamp) : null;
+
+    this.blockTimes.set(slot, blockTime);
+    if (this.blockTimes.size > MAX_BLOCK_TIMES) {
+      this.blockTimes.delete(this.blockTimes.keys().next().value!);
+    }
+    this.releaseSlot(slot, blockTime);
+  }
+
+  /**
+   * Delivers the transactions held for a slot with its block time.
+   */
+  private releaseSlot(slot: number, blockTime: number | null): void {
+    const held = this.awaitingBlockMeta.get(slot);
+    if (!held) return;
+    clearTimeout(held.timer);
+    this.awaitingBlockMeta.delete(slot);
+
+    if (blockTime === null) {
+      console.warn(`[Geyser] No block time for slot ${slot}, delivering ${held.txs.length} transaction(s) without one`);
+    }
+    this.deliver(held.txs.map((tx) => ({ ...tx, blockTime })));
+  }
+
+  /**
+   * Buffers transactions for the consumer and advances the cursor past them.
+   */
+  private deliver(txs: ParsedTransactionWithMeta[]): void {
+    if (txs.length === 0) return;
+    this.buffer.push(...txs);
+    const last = txs[txs.length - 1];
+    this.lastSignature = last.transaction.signatures[0];
+    this.lastSlot = last.slot;
+
+    if (this.buffer.length >= MAX_BUFFERED_TRANSACTIONS && !this.paused && this.stream) {
+      this.paused = true;
+      this.stream.pause();
+    }
+
+    this.wake?.();
+  }
+}
+
+// =============================================================================
+// Proto Loading
+// =============================================================================
+
+/** A Geyser client: one bidirectional Subscribe stream per call */
+interface GeyserClient extends grpc.Client {
+  Subscribe(metadata: grpc.Metadata): grpc.ClientDuplexStream<SubscribeRequest, GeyserUpdate>;
+}
+
+/** The loaded geyser package: its client constructor and service definition */
+export interface GeyserProto {
+  geyser: {
+    Geyser: {
+      new (address: string, credentials: grpc.ChannelCredentials, options?: grpc.ClientOptions): GeyserClient;
+      service: grpc.ServiceDefinition;
+    };
+  };
+}
+
+let geyserProto: GeyserProto | null = null;
+
+/**
+ * Loads the bundled Geyser service definition (cached after the first call).
+ * Fields are camelCased, 64-bit integers become strings and bytes stay Buffers.
+ */
+export function loadGeyserProto(): GeyserProto {
+  if (!geyserProto) {
+    const definition = protoLoader.loadSync('geyser.proto', {
+      includeDirs: [PROTO_DIR],
+      longs: String,
+      enums: String,
+      defaults: true,
+      oneofs: true,
+    });
+    geyserProto = grpc.loadPackageDefinition(definition) as unknown as GeyserProto;
+  }
+  return geyserProto;
+}
+
+// =============================================================================
+// Transaction Conversion
+// =============================================================================
+
+/** A SubscribeRequest as Uho sends it */
+export interface SubscribeRequest {
+  transactions?: Record<string, {
+    vote: boolean;
+    failed: boolean;
+    accountInclude: string[];
+    accountExclude: string[];
+    accountRequired: string[];
+  }>;
+  blocksMeta?: Record<string, Record<string, never>>;
+  commitment?: 'CONFIRMED' | 'FINALIZED';
+  ping?: { id: number };
+}
+
+/** A SubscribeUpdate as decoded by proto-loader (only the fields Uho reads) */
+interface GeyserUpdate {
+  transaction?: GeyserTransactionUpdate | null;
+  blockMeta?: GeyserBlockMetaUpdate | null;
+  ping?: Record<string, never> | null;
+}
+
+/** A SubscribeUpdateBlockMeta as decoded by proto-loader */
+interface GeyserBlockMetaUpdate {
+  slot: string | number;
+  blockTime: { timestamp: string | number } | null;
+}
+
+/** A SubscribeUpdateTransaction as decoded by proto-loader */
+export interface GeyserTransactionUpdate {
+  slot: string | number;
+  transaction: {
+    signature: Uint8Array;
+    transaction: {
+      signatures: Uint8Array[];
+      message: {
+        header: {
+          numRequiredSignatures: number;
+          numReadonlySignedAccounts: number;
+          numReadonlyUnsignedAccounts: number;
+        };
+        accountKeys: Uint8Array[];
+        recentBlockhash: Uint8Array;
+        instructions: CompiledInstruction[];
+        versioned: boolean;
+      };
+    };
+    meta: {
+      err: { err: Uint8Array } | null;
+      fee: string | number;
+      preBalances: Array<string | number>;
+      postBalances: Array<string | number>;
+      innerInstructions: Array<{ index: number; instructions: CompiledInstruction[] }>;
+      logMessages: string[];
+      logMessagesNone?: boolean;
+      loadedWritableAddresses: Uint8Array[];
+      loadedReadonlyAddresses: Uint8Array[];
+      computeUnitsConsumed?: string | number | null;
+    } | null;
+  } | null;
+}
+
+interface CompiledInstruction {
+  programIdIndex: number;
+  accounts: Uint8Array;
+  data: Uint8Array;
+}
+
+/**
+ * Converts a Geyser transaction update into the ParsedTransactionWithMeta
+ * shape returned by getParsedTransaction. Instructions are left undecoded
+ * (programId/accounts/data), which every Uho decoder accepts.
+ *
+ * Transaction updates carry no block time; pass the one from the slot's
+ * block meta when it is known.
+ */
+export function toParsedTransaction(
+  update: GeyserTransactionUpdate,
+  blockTime: number | null = null
+): ParsedTransactionWithMeta {
+  const info = update.transaction!;
+  const message = info.transaction.message;
+  const meta = info.meta;
+
+  // Static keys, then keys loaded from address lookup tables (writable first)
+  const accountKeys = resolveAccountKeys(
+    message.accountKeys.map((key) => new PublicKey(key)),
+    message.header,
+    (meta?.loadedWritableAddresses ?? []).map((key) => new PublicKey(key)),
+    (meta?.loadedReadonlyAddresses ?? []).map((key) => new PublicKey(key))
+  );
+
+  const decompile = (ix: CompiledInstruction): PartiallyDecodedInstruction =>
+    decompileInstruction(accountKeys, ix.programIdIndex, ix.accounts, bs58.encode(ix.data));
+
+  return {
+    slot: Number(update.slot),
+    blockTime,
+    version: message.versioned ? 0 : 'legacy',
+    transaction: {
+      signatures: info.transaction.signatures.map((sig) => bs58.encode(sig)),
+      message: {
+        accountKeys,
+        instructions: message.instructions.map(decompile) as Array<ParsedInstruction | PartiallyDecodedInstruction>,
+        recentBlockhash: bs58.encode(message.recentBlockhash),
+      },
+    },
+    meta: meta
+      ? {
+          err: meta.err ? { err: Buffer.from(meta.err.err).toString('base64') } : null,
+          fee: Number(meta.fee),
+          preBalances: meta.preBalances.map(Number),
+          postBalances: meta.postBalances.map(Number),
+          innerInstructions: meta.innerInstructions.map((inner) => ({
+            index: inner.index,
+            instructions: inner.instructions.map(decompile),
+          })),
+          logMessages: meta.logMessagesNone ? null : meta.logMessages,
+          loadedAddresses: {
+            writable: meta.loadedWritableAddresses.map((key) => new PublicKey(key)),
+            readonly: meta.loadedReadonlyAddresses.map((key) => new PublicKey(key)),
+          },
+          computeUnitsConsumed: meta.computeUnitsConsumed != null ? Number(meta.computeUnitsConsumed) : undefined,
+        }
+      : null,
+  };
+}
+
+// =============================================================================
+// Utility
+// =============================================================================
+
+/**
+ * Splits an endpoint URL into a gRPC target and channel credentials.
+ * https:// endpoints use TLS; http:// endpoints connect in plaintext.
+ */
+function parseEndpoint(endpoint: string): { target: string; credentials: grpc.ChannelCredentials } {
+  const url = new URL(endpoint);
+  const secure = url.protocol === 'https:';
+  const port = url.port || (secure ? '443' : '80');
+
+  return {
+    target: `${url.hostname}:${port}`,
+    credentials: secure ? grpc.credentials.createSsl() : grpc.credentials.createInsecure(),
+  };
+}
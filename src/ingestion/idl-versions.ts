@@ -0,0 +1,92 @@
+/**
+ * Uho — IDL Versions
+ *
+ * Decodes transactions with the IDL that was in effect at their slot, so a
+ * program's events and instructions stay decodable across IDL upgrades —
+ * whether they arrive live, from a backfill or from a gap fill.
+ */
+
+import type { ParsedTransactionWithMeta } from '@solana/web3.js';
+import type { AnchorIDL, DecodedEvent, DecodedInstruction, IdlVersion, ParsedIDL } from '../core/types.js';
+import { EventDecoder } from './decoder.js';
+import { InstructionDecoder } from './instruction-decoder.js';
+
+// =============================================================================
+// Version Selection
+// =============================================================================
+
+/**
+ * Picks the version in effect at a slot: the latest one whose effective slot
+ * is at or before it, or the earliest version for slots before all of them.
+ *
+ * @param versions - Versions ordered by effective slot, oldest first
+ */
+export function versionAtSlot<T extends { effectiveSlot: number }>(versions: T[], slot: number): T {
+  let selected = versions[0];
+  for (const version of versions) {
+    if (version.effectiveSlot <= slot) selected = version;
+  }
+  return selected;
+}
+
+/**
+ * Wraps a single IDL as a version history, for programs without one.
+ */
+export function singleVersion(parsedIdl: ParsedIDL, rawIdl: Record<string, unknown>): IdlVersion[] {
+  return [{ version: 1, effectiveSlot: 0, parsedIdl, rawIdl }];
+}
+
+// =============================================================================
+// Versioned Decoder
+// =============================================================================
+
+interface VersionDecoders {
+  effectiveSlot: number;
+  events: EventDecoder | null;
+  instructions: InstructionDecoder | null;
+}
+
+export class VersionedDecoder {
+  private versions: VersionDecoders[];
+
+  /**
+   * @param programId - Used for IDLs that lack an `address`
+   * @param versions - IDL versions, oldest first
+   * @param options.events - Build event decoders (false for non-Anchor IDLs)
+   */
+  constructor(programId: string, versions: IdlVersion[], options: { events?: boolean } = {}) {
+    this.versions = [...versions]
+      .sort((a, b) => a.effectiveSlot - b.effectiveSlot)
+      .map((v) => {
+        const parsedIdl = v.parsedIdl.programId ? v.parsedIdl : { ...v.parsedIdl, programId };
+        return {
+          effectiveSlot: v.effectiveSlot,
+          events: options.events === false || parsedIdl.events.length === 0
+            ? null
+            : new EventDecoder(parsedIdl, v.rawIdl as unknown as AnchorIDL),
+          instructions: parsedIdl.instructions.length > 0 ? new InstructionDecoder(parsedIdl) : null,
+        };
+      });
+  }
+
+  /**
+   * The event decoder for the IDL in effect at a slot, if it has events.
+   */
+  eventDecoderAt(slot: number): EventDecoder | null {
+    return versionAtSlot(this.versions, slot).events;
+  }
+
+  /**
+   * Decodes a transaction's events with the IDL in effect at its slot.
+   */
+  decodeEvents(tx: ParsedTransactionWithMeta): DecodedEvent[] {
+    return versionAtSlot(this.versions, tx.slot).events?.decodeTransaction(tx) ?? [];
+  }
+
+  /**
+   * Decodes a transaction's instructions with the IDL in effect at its slot.
+   */
+  decodeInstructions(tx: ParsedTransactionWithMeta): DecodedInstruction[] {
+    return versionAtSlot(this.versions, tx.slot).instructions?.decodeTransaction(tx) ?? [];
+  }
+}
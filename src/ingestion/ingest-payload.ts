@@ -0,0 +1,247 @@
+/**
+ * Uho — Push Ingestion Payloads
+ *
+ * Normalizes transactions pushed to POST /api/v1/ingest/:programId into the
+ * ParsedTransactionWithMeta shape the decoders expect. Three shapes are
+ * accepted, alone or in an array:
+ *
+ * - raw: getTransaction JSON (string account keys + header, compiled instructions),
+ *   as sent by Helius "raw" webhooks
+ * - parsed: getParsedTransaction JSON (account key objects, jsonParsed instructions)
+ * - enhanced: Helius "enhanced" webhooks (top-level signature/instructions, no logs,
+ *   so only instructions and token transfers can be decoded from them)
+ *
+ * JSON-RPC envelopes (`{ result: {...} }`) are unwrapped.
+ */
+
+import {
+  PublicKey,
+  type ParsedInstruction,
+  type ParsedInnerInstruction,
+  type ParsedMessageAccount,
+  type ParsedTransactionWithMeta,
+  type PartiallyDecodedInstruction,
+} from '@solana/web3.js';
+import { decompileInstruction, resolveAccountKeys, type MessageHeader } from './compiled-message.js';
+
+type AnyInstruction = ParsedInstruction | PartiallyDecodedInstruction;
+
+/** Outcome of normalizing a pushed payload */
+export interface IngestPayload {
+  transactions: ParsedTransactionWithMeta[];
+  /** Items that were not recognizable transactions */
+  invalid: number;
+}
+
+// =============================================================================
+// Payload Parsing
+// =============================================================================
+
+/**
+ * Normalizes a pushed body (one transaction or an array of them).
+ * Returns null when the body is neither an object nor an array.
+ */
+export function parseIngestPayload(body: unknown): IngestPayload | null {
+  if (!body || typeof body !== 'object') return null;
+
+  const items = Array.isArray(body) ? body : [body];
+  const result: IngestPayload = { transactions: [], invalid: 0 };
+
+  for (const item of items) {
+    const tx = toParsedTransaction(item);
+    if (tx) result.transactions.push(tx);
+    else result.invalid++;
+  }
+
+  return result;
+}
+
+/**
+ * Whether a transaction references the program (as an account key or as the
+ * program of any top-level or inner instruction).
+ */
+export function involvesProgram(tx: ParsedTransactionWithMeta, programId: string): boolean {
+  if (tx.transaction.message.accountKeys.some((key) => key.pubkey.toBase58() === programId)) {
+    return true;
+  }
+  const instructions = [
+    ...tx.transaction.message.instructions,
+    ...(tx.meta?.innerInstructions ?? []).flatMap((inner) => inner.instructions),
+  ];
+  return instructions.some((ix) => ix.programId.toBase58() === programId);
+}
+
+/**
+ * Converts one pushed item, or returns null if its shape isn't recognized.
+ */
+function toParsedTransaction(item: unknown): ParsedTransactionWithMeta | null {
+  if (!item || typeof item !== 'object') return null;
+  let obj = item as Record<string, any>;
+  if (obj.result && typeof obj.result === 'object') obj = obj.result;
+
+  try {
+    if (obj.transaction?.message && Array.isArray(obj.transaction.signatures)) {
+      const keys = obj.transaction.message.accountKeys;
+      return typeof keys?.[0] === 'string' ? fromRawTransaction(obj) : fromParsedTransaction(obj);
+    }
+    if (typeof obj.signature === 'string' && Array.isArray(obj.instructions)) {
+      return fromEnhancedTransaction(obj);
+    }
+  } catch {
+    // Malformed keys or indexes — counted as invalid
+  }
+  return null;
+}
+
+// =============================================================================
+// Shape Converters
+// =============================================================================
+
+/**
+ * getTransaction JSON: string keys, compiled instructions with base58 data.
+ */
+function fromRawTransaction(obj: Record<string, any>): ParsedTransactionWithMeta {
+  const message = obj.transaction.message;
+  const meta = obj.meta ?? null;
+
+  const accountKeys = resolveAccountKeys(
+    (message.accountKeys as string[]).map((key) => new PublicKey(key)),
+    message.header as MessageHeader,
+    (meta?.loadedAddresses?.writable ?? []).map((key: string) => new PublicKey(key)),
+    (meta?.loadedAddresses?.readonly ?? []).map((key: string) => new PublicKey(key))
+  );
+
+  const decompile = (ix: { programIdIndex: number; accounts: number[]; data: string }) =>
+    decompileInstruction(accountKeys, ix.programIdIndex, ix.accounts, ix.data);
+
+  return buildTransaction(obj, accountKeys, message.instructions.map(decompile), meta && {
+    ...meta,
+    innerInstructions: (meta.innerInstructions ?? []).map((inner: any) => ({
+      index: inner.index,
+      instructions: inner.instructions.map(decompile),
+    })),
+  });
+}
+
+/**
+ * getParsedTransaction JSON: key objects and jsonParsed instructions, with
+ * base58 strings in place of PublicKeys.
+ */
+function fromParsedTransaction(obj: Record<string, any>): ParsedTransactionWithMeta {
+  const message = obj.transaction.message;
+  const meta = obj.meta ?? null;
+
+  const accountKeys: ParsedMessageAccount[] = message.accountKeys.map((key: any) => ({
+    pubkey: new PublicKey(key.pubkey),
+    signer: key.signer === true,
+    writable: key.writable === true,
+    source: key.source,
+  }));
+
+  return buildTransaction(obj, accountKeys, message.instructions.map(reviveInstruction), meta && {
+    ...meta,
+    innerInstructions: (meta.innerInstructions ?? []).map((inner: any) => ({
+      index: inner.index,
+      instructions: inner.instructions.map(reviveInstruction),
+    })),
+  });
+}
+
+/**
+ * Helius enhanced transaction: top-level instructions carry their own inner
+ * instructions; there are no log messages or message header.
+ */
+function fromEnhancedTransaction(obj: Record<string, any>): ParsedTransactionWithMeta {
+  const feePayer = obj.feePayer as string | undefined;
+  const accounts: string[] = (obj.accountData ?? []).map((a: { account: string }) => a.account);
+
+  // Without a header the flags are approximate: every listed account may have changed
+  const accountKeys: ParsedMessageAccount[] = accounts.map((account) => ({
+    pubkey: new PublicKey(account),
+    signer: account === feePayer,
+    writable: true,
+    source: 'transaction',
+  }));
+
+  const innerInstructions: ParsedInnerInstruction[] = [];
+  const instructions = (obj.instructions as any[]).map((ix, index) => {
+    if (ix.innerInstructions?.length) {
+      innerInstructions.push({ index, instructions: ix.innerInstructions.map(reviveInstruction) });
+    }
+    return reviveInstruction(ix);
+  });
+
+  return {
+    slot: Number(obj.slot),
+    blockTime: typeof obj.timestamp === 'number' ? obj.timestamp : null,
+    transaction: {
+      signatures: [obj.signature],
+      message: { accountKeys, instructions, recentBlockhash: '' },
+    },
+    meta: {
+      err: obj.transactionError ?? null,
+      fee: Number(obj.fee ?? 0),
+      preBalances: [],
+      postBalances: [],
+      innerInstructions,
+      logMessages: null,
+    },
+  };
+}
+
+// =============================================================================
+// Utility
+// =============================================================================
+
+/**
+ * Assembles the ParsedTransactionWithMeta from converted pieces.
+ */
+function buildTransaction(
+  obj: Record<string, any>,
+  accountKeys: ParsedMessageAccount[],
+  instructions: AnyInstruction[],
+  meta: Record<string, any> | null
+): ParsedTransactionWithMeta {
+  return {
+    slot: Number(obj.slot),
+    blockTime: obj.blockTime ?? null,
+    version: obj.version,
+    transaction: {
+      signatures: obj.transaction.signatures,
+      message: {
+        accountKeys,
+        instructions,
+        recentBlockhash: obj.transaction.message.recentBlockhash ?? '',
+      },
+    },
+    meta: meta
+      ? {
+          err: meta.err ?? null,
+          fee: Number(meta.fee ?? 0),
+          preBalances: meta.preBalances ?? [],
+          postBalances: meta.postBalances ?? [],
+          innerInstructions: meta.innerInstructions,
+          logMessages: meta.logMessages ?? null,
+          preTokenBalances: meta.preTokenBalances,
+          postTokenBalances: meta.postTokenBalances,
+          computeUnitsConsumed: meta.computeUnitsConsumed,
+        }
+      : null,
+  };
+}
+
+/**
+ * Turns the base58 strings of a JSON instruction back into PublicKeys.
+ * jsonParsed instructions (with `parsed`) keep their parsed payload.
+ */
+function reviveInstruction(ix: any): AnyInstruction {
+  const programId = new PublicKey(ix.programId);
+  if (ix.parsed !== undefined) {
+    return { program: ix.program, programId, parsed: ix.parsed };
+  }
+  return {
+    programId,
+    accounts: (ix.accounts ?? []).map((account: string) => new PublicKey(account)),
+    data: ix.data ?? '',
+  };
+}
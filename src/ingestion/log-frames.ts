@@ -0,0 +1,116 @@
+/**
+ * Uho — Log Frames
+ *
+ * Reconstructs the instruction call tree from a transaction's log messages by
+ * following `Program X invoke [n]` / `Program X success|failed` lines. Each
+ * invocation becomes a frame carrying its real top-level and inner instruction
+ * index (matching meta.innerInstructions), the program that invoked it and the
+ * full CPI path, plus the log lines it printed itself.
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** One program invocation reconstructed from the logs */
+export interface LogFrame {
+  programId: string;
+  /** Index of the top-level instruction this invocation belongs to */
+  ixIndex: number;
+  /** Position among the top-level instruction's inner instructions (null if top-level) */
+  innerIxIndex: number | null;
+  /** Program that invoked this one via CPI (null if top-level) */
+  invokingProgram: string | null;
+  /** Program IDs from the top-level program down to this one */
+  cpiPath: string[];
+  /** Log lines printed while this frame was executing, excluding nested frames */
+  logs: string[];
+}
+
+const INVOKE_RE = /^Program (\w+) invoke \[(\d+)\]$/;
+const EXIT_RE = /^Program (\w+) (?:success|failed)/;
+
+// =============================================================================
+// Frame Parsing
+// =============================================================================
+
+/**
+ * Parses log messages into invocation frames, in execution order.
+ *
+ * Precompiled programs (ed25519, secp256k1) never log an invoke line, so when
+ * the transaction's top-level program IDs are known they are used to skip
+ * over those instructions; otherwise top-level invokes are counted in order.
+ *
+ * @param topLevelProgramIds - Program ID of each top-level instruction, if known
+ */
+export function parseLogFrames(logs: string[], topLevelProgramIds?: string[]): LogFrame[] {
+  const frames: LogFrame[] = [];
+  const stack: LogFrame[] = [];
+  let ixIndex = -1;
+  let innerCount = -1;
+
+  for (const log of logs) {
+    const invoke = INVOKE_RE.exec(log);
+    if (invoke) {
+      const [, programId, depthStr] = invoke;
+      const depth = Number(depthStr);
+
+      // Truncated or malformed logs can skip exits — resync on the stated depth
+      stack.length = Math.min(stack.length, depth - 1);
+
+      if (depth === 1) {
+        ixIndex = nextTopLevelIndex(ixIndex, programId, topLevelProgramIds);
+        innerCount = -1;
+      } else {
+        innerCount++;
+      }
+
+      const parent = stack[stack.length - 1];
+      const frame: LogFrame = {
+        programId,
+        ixIndex,
+        innerIxIndex: depth === 1 ? null : innerCount,
+        invokingProgram: depth === 1 ? null : parent?.programId ?? null,
+        cpiPath: [...(depth === 1 ? [] : parent?.cpiPath ?? []), programId],
+        logs: [],
+      };
+      frames.push(frame);
+      stack.push(frame);
+      continue;
+    }
+
+    const exit = EXIT_RE.exec(log);
+    if (exit && stack[stack.length - 1]?.programId === exit[1]) {
+      stack.pop();
+      continue;
+    }
+
+    stack[stack.length - 1]?.logs.push(log);
+  }
+
+  return frames;
+}
+
+/**
+ * Finds the frame for an instruction position, if the logs recorded it.
+ */
+export function findFrame(
+  frames: LogFrame[],
+  ixIndex: number,
+  innerIxIndex: number | null
+): LogFrame | null {
+  return frames.find((f) => f.ixIndex === ixIndex && f.innerIxIndex === innerIxIndex) ?? null;
+}
+
+/**
+ * Advances to the next top-level instruction run by `programId`, skipping
+ * instructions that don't log (precompiles). Falls back to the next index.
+ */
+function nextTopLevelIndex(current: number, programId: string, topLevelProgramIds?: string[]): number {
+  if (topLevelProgramIds) {
+    for (let i = current + 1; i < topLevelProgramIds.length; i++) {
+      if (topLevelProgramIds[i] === programId) return i;
+    }
+  }
+  return current + 1;
+}
@@ -2,20 +2,26 @@
  * Uho — Indexer Orchestrator
  *
  * Round-robin multi-program poller for platform mode.
- * Polls all active programs from the materialized view, decodes transactions,
- * and fans out events to subscriber schemas. Listens for PG NOTIFY to
- * dynamically pick up new programs.
+ * Polls all active programs from the materialized view (or streams them from
+ * Geyser when a subscriber asks for it), decodes transactions,
+ * and fans out events to subscriber schemas. Programs whose subscribers all
+ * push through the ingest route are registered but never fetched. Listens for PG NOTIFY to
+ * dynamically pick up new programs, periodically reconciles confirmed
+ * rows against the finalized root, and hands poller gaps to the backfill manager.
+ * Subscribers over their events quota are paused during fan-out and resumed
+ * here once their quota allows it.
  */
 
-import { Connection, PublicKey } from '@solana/web3.js';
+import { Connection, PublicKey, type ParsedTransactionWithMeta } from '@solana/web3.js';
 import type pg from 'pg';
-import type { ParsedIDL, AnchorIDL, SubscriberInfo, DecodedEvent, DecodedInstruction, DecodedTokenTransfer } from '../core/types.js';
-import { parseAnyIDL } from '../core/idl-parser.js';
-import { TransactionPoller } from './poller.js';
-import { EventDecoder } from './decoder.js';
-import { InstructionDecoder } from './instruction-decoder.js';
-import { TokenTransferDecoder } from './token-transfer-decoder.js';
-import { FanoutWriter } from './fanout-writer.js';
+import type { AnchorIDL, SubscriberInfo, GeyserOptions, IngestionSourceKind } from '../core/types.js';
+import { inUserSchema } from '../core/db.js';
+import { createIngestionSource, type IngestionSource } from './source.js';
+import { ProgramPipeline, parseSubscribers, type SubscriberRow } from './pipeline.js';
+import { CommitmentReconciler, reconcileTables } from './reconciler.js';
+import { BackfillManager } from './backfill-manager.js';
+import { EventQuota, type QuotaResumedProgram } from './event-quota.js';
+import { PlanService } from '../services/plan-service.js';
 
 // =============================================================================
 // Types
@@ -24,28 +30,9 @@ import { FanoutWriter } from './fanout-writer.js';
 /** An active program in the orchestrator's registry */
 interface ActiveProgram {
   programId: string;
-  poller: TransactionPoller;
-  decoder: EventDecoder;
-  instructionDecoder: InstructionDecoder | null;
-  tokenTransferDecoder: TokenTransferDecoder | null;
-  fanoutWriter: FanoutWriter;
-  parsedIdl: ParsedIDL;
-  subscribers: SubscriberInfo[];
-}
-
-/** Subscriber row from the active_program_subscriptions materialized view */
-interface SubscriberRow {
-  user_id: string;
-  user_program_id: string;
-  schema_name: string;
-  program_name: string;
-  idl: Record<string, unknown>;
-  config: Record<string, unknown>;
-  enabled_events: Array<{
-    event_name: string;
-    event_type: string;
-    field_config: Record<string, unknown>;
-  }> | null;
+  /** Null for programs that are only pushed through POST /api/v1/ingest/:programId */
+  source: IngestionSource | null;
+  pipeline: ProgramPipeline;
 }
 
 // =============================================================================
@@ -54,6 +41,7 @@ interface SubscriberRow {
 
 export class IndexerOrchestrator {
   private pool: pg.Pool;
+  private rpcUrl: string;
   private connection: Connection;
   private running = false;
 
@@ -66,12 +54,46 @@ export class IndexerOrchestrator {
   /** Delay between individual program polls within a cycle (ms) */
   private interProgramDelayMs = 100;
 
+  /** Delay between commitment reconciliation passes (ms) */
+  private reconcileIntervalMs = 30_000;
+
+  /** When the last reconciliation pass started (epoch ms) */
+  private lastReconcileAt = 0;
+
   /** PG LISTEN client for program change notifications */
   private listenerClient: pg.PoolClient | null = null;
 
-  constructor(pool: pg.Pool, rpcUrl: string) {
+  /** Promotes confirmed rows to finalized and retracts rows from skipped slots */
+  private reconciler: CommitmentReconciler;
+
+  /** Delay between gap healing passes (ms) */
+  private gapHealingIntervalMs = 60_000;
+
+  /** Fills signature ranges the pollers recorded as gaps */
+  private backfillManager: BackfillManager;
+
+  /** Geyser endpoint for programs streamed instead of polled */
+  private geyser: GeyserOptions | undefined;
+
+  /** Enforces subscribers' events quota during fan-out */
+  private quota: EventQuota;
+
+  /** Delay between passes resuming programs paused for the events quota (ms) */
+  private quotaResumeIntervalMs = 60_000;
+
+  /**
+   * @param resendApiKey - Used to email users whose programs are paused for
+   *   their events quota
+   */
+  constructor(pool: pg.Pool, rpcUrl: string, geyser?: GeyserOptions, resendApiKey?: string) {
     this.pool = pool;
+    this.rpcUrl = rpcUrl;
     this.connection = new Connection(rpcUrl, 'confirmed');
+    this.geyser = geyser;
+    this.reconciler = new CommitmentReconciler(this.connection);
+    const plans = new PlanService(pool);
+    this.quota = new EventQuota(pool, resendApiKey, plans);
+    this.backfillManager = new BackfillManager(pool, plans, this.quota);
   }
 
   // ===========================================================================
@@ -99,6 +121,16 @@ export class IndexerOrchestrator {
     this.runLoop().catch((err) => {
       console.error(`[Orchestrator] Loop crashed: ${(err as Error).message}`);
     });
+
+    // 4. Fill recorded gaps in the background
+    this.runGapHealingLoop().catch((err) => {
+      console.error(`[Orchestrator] Gap healing loop crashed: ${(err as Error).message}`);
+    });
+
+    // 5. Resume programs paused for the events quota once it allows indexing
+    this.runQuotaResumeLoop().catch((err) => {
+      console.error(`[Orchestrator] Quota resume loop crashed: ${(err as Error).message}`);
+    });
   }
 
   /**
@@ -118,6 +150,9 @@ export class IndexerOrchestrator {
       this.listenerClient = null;
     }
 
+    for (const program of this.programs.values()) {
+      program.source?.stop();
+    }
     this.programs.clear();
     console.log('[Orchestrator] Stopped');
   }
@@ -152,6 +187,7 @@ export class IndexerOrchestrator {
       // Remove programs no longer in the active set
       for (const [pid] of this.programs) {
         if (!activeProgramIds.has(pid)) {
+          this.programs.get(pid)!.source?.stop();
           this.programs.delete(pid);
           console.log(`[Orchestrator] Removed program ${pid}`);
         }
@@ -168,60 +204,59 @@ export class IndexerOrchestrator {
     programId: string,
     subscribersJson: SubscriberRow[]
   ): Promise<void> {
-    const subscribers = this.parseSubscribers(subscribersJson);
+    const subscribers = parseSubscribers(subscribersJson);
 
     if (subscribers.length === 0) return;
 
+    const sourceKind = this.resolveSourceKind(subscribers);
+    const current = this.programs.get(programId);
+    if (current && (current.source?.kind ?? 'webhook') !== sourceKind) {
+      // Source changed — rebuild the program, resuming from the saved cursors
+      current.source?.stop();
+      this.programs.delete(programId);
+      console.log(`[Orchestrator] Switching ${programId} to ${sourceKind} ingestion`);
+    }
+
     if (this.programs.has(programId)) {
-      // Update subscribers list
-      this.programs.get(programId)!.subscribers = subscribers;
+      // Update subscribers list (and start decoding what they newly enabled)
+      this.programs.get(programId)!.pipeline.updateSubscribers(subscribers);
       return;
     }
 
-    // Create new poller, decoder, and fanout writer
+    // Create new source and ingest pipeline
     try {
-      const canonicalSub = subscribers[0];
-      const parsedIdl = canonicalSub.parsedIdl;
-
-      const poller = new TransactionPoller(
-        this.connection,
-        new PublicKey(programId),
-        { pollIntervalMs: 0, batchSize: 25 } // Interval managed by orchestrator
-      );
+      const pipeline = new ProgramPipeline(this.pool, this.connection, programId, subscribers, this.quota);
+
+      let source: IngestionSource | null = null;
+      if (sourceKind !== 'webhook') {
+        source = createIngestionSource(
+          sourceKind,
+          this.connection,
+          new PublicKey(programId),
+          { pollIntervalMs: 0, batchSize: 25 }, // Interval managed by orchestrator
+          this.geyser
+        );
 
-      // Resume from the most advanced cursor
-      const maxState = await this.getMostAdvancedState(subscribers);
-      if (maxState) {
-        poller.setLastSignature(maxState);
+        // Resume from the most advanced cursor
+        const maxState = await this.getMostAdvancedState(subscribers);
+        if (maxState) {
+          source.setLastSignature(maxState.signature, maxState.slot);
+        }
       }
 
-      // Ensure parsedIdl has the correct programId (some IDLs lack `address`)
-      if (!parsedIdl.programId) {
-        parsedIdl.programId = programId;
-      }
+      const program: ActiveProgram = { programId, source, pipeline };
+      this.programs.set(programId, program);
 
-      const decoder = new EventDecoder(parsedIdl, canonicalSub.rawIdl as unknown as AnchorIDL);
-      // Create instruction decoder if the IDL has instructions
-      const instructionDecoder = parsedIdl.instructions.length > 0
-        ? new InstructionDecoder(parsedIdl)
-        : null;
-      // Create token transfer decoder if any subscriber has tokenTransfers enabled
-      const hasTokenTransfers = subscribers.some((s) => s.tokenTransfers);
-      const tokenTransferDecoder = hasTokenTransfers ? new TokenTransferDecoder() : null;
-      const fanoutWriter = new FanoutWriter(this.pool);
-
-      this.programs.set(programId, {
-        programId,
-        poller,
-        decoder,
-        instructionDecoder,
-        tokenTransferDecoder,
-        fanoutWriter,
-        parsedIdl,
-        subscribers,
-      });
+      // Streamed programs deliver on their own; the round-robin loop skips them
+      if (source?.kind === 'geyser' && this.running) {
+        source.start((txs) => this.ingest(program, txs)).catch((err) => {
+          console.error(`[Orchestrator] Stream for ${programId} crashed: ${(err as Error).message}`);
+        });
+      }
 
-      console.log(`[Orchestrator] Added program ${programId} with ${subscribers.length} subscriber(s)`);
+      console.log(
+        `[Orchestrator] Added program ${programId} (${sourceKind}) with ${subscribers.length} subscriber(s)`
+      );
     } catch (err) {
       console.error(`[Orchestrator] Failed to add program ${programId}: ${(err as Error).message}`);
     }
@@ -233,55 +268,20 @@ export class IndexerOrchestrator {
 
   /**
    * Runs the main round-robin polling loop.
-   * Iterates over all active programs, polls each one, decodes events,
+   * Iterates over all RPC-polled programs, polls each one, decodes events,
    * and fans them out to subscriber schemas.
    */
   private async runLoop(): Promise<void> {
     while (this.running) {
-      const programList = Array.from(this.programs.values());
+      const programList = Array.from(this.programs.values())
+        .filter((program) => program.source?.kind === 'rpc');
 
       for (const program of programList) {
         if (!this.running) break;
 
         try {
-          const txs = await program.poller.poll();
-          if (txs.length > 0) {
-            const events: DecodedEvent[] = [];
-            const instructions: DecodedInstruction[] = [];
-            const tokenTransfers: DecodedTokenTransfer[] = [];
-            const txLogs: Array<{ txSignature: string; slot: number; logMessages: string[] }> = [];
-            for (const tx of txs) {
-              events.push(...program.decoder.decodeTransaction(tx));
-              if (program.instructionDecoder) {
-                instructions.push(...program.instructionDecoder.decodeTransaction(tx));
-              }
-              if (program.tokenTransferDecoder) {
-                tokenTransfers.push(...program.tokenTransferDecoder.decodeTransaction(tx));
-              }
-              // Collect transaction logs
-              if (tx.meta?.logMessages?.length) {
-                const sig = tx.transaction.signatures[0];
-                if (sig) {
-                  txLogs.push({
-                    txSignature: sig,
-                    slot: tx.slot,
-                    logMessages: tx.meta.logMessages,
-                  });
-                }
-              }
-            }
-
-            if (events.length > 0 || instructions.length > 0 || tokenTransfers.length > 0) {
-              await program.fanoutWriter.writeToSubscribers(
-                program.programId,
-                events,
-                instructions,
-                program.subscribers,
-                txLogs,
-                tokenTransfers
-              );
-            }
-          }
+          const txs = await program.source!.poll();
+          await this.ingest(program, txs);
         } catch (err) {
           console.error(
             `[Orchestrator] Error polling ${program.programId}: ${(err as Error).message}`
@@ -292,6 +292,10 @@ export class IndexerOrchestrator {
         await sleep(this.interProgramDelayMs);
       }
 
+      if (this.running && Date.now() - this.lastReconcileAt >= this.reconcileIntervalMs) {
+        await this.reconcileCommitments();
+      }
+
       // Wait before next full cycle
       if (this.running) {
         await sleep(this.cycleIntervalMs);
@@ -299,6 +303,188 @@ export class IndexerOrchestrator {
     }
   }
 
+  /**
+   * Records gaps reported by a program's source, then decodes and fans out
+   * the batch. Shared by polled and streamed programs.
+   */
+  private async ingest(program: ActiveProgram, txs: ParsedTransactionWithMeta[]): Promise<void> {
+    // Record ranges the source could not reach for the gap healer
+    if (program.source) {
+      await program.pipeline.fanoutWriter.recordGaps(
+        program.programId,
+        program.source.drainGaps(),
+        program.pipeline.subscribers
+      );
+    }
+
+    if (txs.length > 0) {
+      await program.pipeline.ingest(txs);
+    }
+  }
+
+  // ===========================================================================
+  // Gap Healing
+  // ===========================================================================
+
+  /**
+   * Periodically asks the backfill manager to fill gaps recorded in subscriber
+   * schemas. Runs beside the polling loop so long fills don't stall live data.
+   */
+  private async runGapHealingLoop(): Promise<void> {
+    while (this.running) {
+      await sleep(this.gapHealingIntervalMs);
+
+      for (const { programId, source, pipeline } of Array.from(this.programs.values())) {
+        if (!this.running) break;
+        if (!source) continue; // Pushed programs never record gaps
+
+        try {
+          await this.backfillManager.fillGaps(this.connection, {
+            programId,
+            parsedIdl: pipeline.parsedIdl,
+            rawIdl: pipeline.subscribers[0].rawIdl as unknown as AnchorIDL,
+            idlVersions: pipeline.idlVersions,
+            targets: pipeline.subscribers.map((sub) => ({
+              schemaName: sub.schemaName,
+              userId: sub.userId,
+              parsedIdl: sub.parsedIdl,
+              enabledEvents: sub.enabledEvents,
+              enabledInstructions: sub.enabledInstructions,
+              tokenTransfers: sub.tokenTransfers === true,
+            })),
+          });
+        } catch (err) {
+          console.error(
+            `[Orchestrator] Error healing gaps for ${programId}: ${(err as Error).message}`
+          );
+        }
+      }
+    }
+  }
+
+  // ===========================================================================
+  // Quota Resume
+  // ===========================================================================
+
+  /**
+   * Periodically resumes programs paused for the events quota whose owner's
+   * quota has reset or been raised, backfilling the paused range for those
+   * that ask for it (config.backfillOnResume).
+   */
+  private async runQuotaResumeLoop(): Promise<void> {
+    while (this.running) {
+      await sleep(this.quotaResumeIntervalMs);
+      if (!this.running) break;
+
+      try {
+        const resumed = await this.quota.resumeWithinQuota();
+        const toBackfill = resumed.filter((program) => program.backfill);
+        if (toBackfill.length === 0) continue;
+
+        // Register the resumed subscribers before looking them up
+        await this.loadActivePrograms();
+        for (const program of toBackfill) {
+          await this.backfillPausedRange(program);
+        }
+      } catch (err) {
+        console.error(`[Orchestrator] Error resuming quota-paused programs: ${(err as Error).message}`);
+      }
+    }
+  }
+
+  /**
+   * Starts a backfill from the last slot a resumed subscriber indexed,
+   * clamped to the range the user's plan allows.
+   */
+  private async backfillPausedRange(program: QuotaResumedProgram): Promise<void> {
+    const sub = this.programs.get(program.programId)?.pipeline.subscribers
+      .find((s) => s.userId === program.userId);
+    if (!sub || !sub.rawIdl) return;
+
+    const state = await inUserSchema(this.pool, sub.schemaName, (client) =>
+      client.query('SELECT last_slot FROM _uho_state WHERE program_id = $1', [program.programId])
+    );
+    const lastSlot = state.rows.length > 0 ? Number(state.rows[0].last_slot) : null;
+
+    const jobId = await this.backfillManager.createJob({
+      userId: program.userId,
+      userProgramId: program.userProgramId,
+      programId: program.programId,
+      schemaName: sub.schemaName,
+    });
+    this.backfillManager.startBackfill({
+      jobId,
+      userId: program.userId,
+      userProgramId: program.userProgramId,
+      programId: program.programId,
+      schemaName: sub.schemaName,
+      parsedIdl: sub.parsedIdl,
+      rawIdl: sub.rawIdl as unknown as AnchorIDL,
+      idlVersions: sub.idlVersions,
+      startSlot: lastSlot != null ? lastSlot + 1 : null,
+      clampStartSlot: true,
+      enabledEvents: sub.enabledEvents,
+      rpcUrl: this.rpcUrl,
+      // Webhooks and WebSocket subscriptions missed the paused range
+      deliver: true,
+    }).catch((err) => {
+      console.error(`[Orchestrator] Backfill after quota resume failed: ${(err as Error).message}`);
+    });
+    console.log(`[Orchestrator] Backfilling paused range for ${program.userProgramId} (job ${jobId})`);
+  }
+
+  // ===========================================================================
+  // Commitment Reconciliation
+  // ===========================================================================
+
+  /**
+   * Reconciles confirmed rows in every subscriber schema against the finalized
+   * root, and notifies subscribers about rows retracted from skipped slots.
+   */
+  private async reconcileCommitments(): Promise<void> {
+    this.lastReconcileAt = Date.now();
+
+    let finalizedSlot: number;
+    try {
+      finalizedSlot = await this.reconciler.getFinalizedSlot();
+    } catch (err) {
+      console.error(`[Orchestrator] Failed to fetch finalized slot: ${(err as Error).message}`);
+      return;
+    }
+
+    for (const program of this.programs.values()) {
+      for (const sub of program.pipeline.subscribers) {
+        if (!this.running) return;
+
+        try {
+          const tables = reconcileTables(
+            sub.parsedIdl,
+            sub.enabledEvents,
+            sub.enabledInstructions,
+            sub.tokenTransfers === true,
+            sub.rawIdl
+          );
+          if (tables.length === 0) continue;
+
+          const result = await inUserSchema(this.pool, sub.schemaName, (client) =>
+            this.reconciler.reconcile(client, tables, finalizedSlot)
+          );
+
+          if (result.retracted.length > 0) {
+            console.warn(
+              `[Orchestrator] Retracted ${result.retracted.length} row(s) from skipped slots in ${sub.schemaName}`
+            );
+            await program.pipeline.fanoutWriter.notifyRetracted(program.programId, result.retracted, [sub.userId]);
+          }
+        } catch (err) {
+          console.error(
+            `[Orchestrator] Error reconciling ${program.programId} for ${sub.schemaName}: ${(err as Error).message}`
+          );
+        }
+      }
+    }
+  }
+
   // ===========================================================================
   // PG LISTEN — Dynamic Program Updates
   // ===========================================================================
@@ -346,48 +532,23 @@ export class IndexerOrchestrator {
   // ===========================================================================
 
   /**
-   * Parses subscriber JSON from the materialized view into SubscriberInfo objects.
+   * Streams a program from Geyser when any subscriber asks for it and an
+   * endpoint is configured. Programs every subscriber pushes through the
+   * ingest webhook are not fetched at all; everything else is polled over RPC.
    */
-  private parseSubscribers(subscribersJson: SubscriberRow[]): SubscriberInfo[] {
-    const subscribers: SubscriberInfo[] = [];
-
-    for (const sub of subscribersJson) {
-      try {
-        const rawIdl = sub.idl;
-        const { parsed: parsedIdl } = parseAnyIDL(rawIdl);
-
-        const enabledEvents = (sub.enabled_events ?? [])
-          .filter((e) => e.event_type === 'event')
-          .map((e) => e.event_name);
-        const enabledInstructions = (sub.enabled_events ?? [])
-          .filter((e) => e.event_type === 'instruction')
-          .map((e) => e.event_name);
-
-        subscribers.push({
-          userId: sub.user_id,
-          schemaName: sub.schema_name,
-          programName: sub.program_name,
-          parsedIdl,
-          enabledEvents,
-          enabledInstructions,
-          rawIdl,
-          tokenTransfers: sub.config?.tokenTransfers === true,
-        });
-      } catch (err) {
-        console.error(
-          `[Orchestrator] Failed to parse subscriber ${sub.user_id}: ${(err as Error).message}`
-        );
-      }
-    }
-
-    return subscribers;
+  private resolveSourceKind(subscribers: SubscriberInfo[]): IngestionSourceKind | 'webhook' {
+    if (this.geyser && subscribers.some((s) => s.source === 'geyser')) return 'geyser';
+    if (subscribers.every((s) => s.source === 'webhook')) return 'webhook';
+    return 'rpc';
   }
 
   /**
-   * Gets the most advanced last_signature across all subscribers for a program.
-   * Used to resume polling from the furthest point.
+   * Gets the most advanced last_signature (and its slot) across all subscribers
+   * for a program. Used to resume polling from the furthest point.
    */
-  private async getMostAdvancedState(subscribers: SubscriberInfo[]): Promise<string | null> {
+  private async getMostAdvancedState(
+    subscribers: SubscriberInfo[]
+  ): Promise<{ signature: string; slot: number } | null> {
     let maxSlot = 0;
     let maxSignature: string | null = null;
 
@@ -411,7 +572,7 @@ export class IndexerOrchestrator {
       }
     }
 
-    return maxSignature;
+    return maxSignature ? { signature: maxSignature, slot: maxSlot } : null;
   }
 }
 
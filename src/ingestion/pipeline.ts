@@ -0,0 +1,303 @@
+/**
+ * Uho — Program Ingest Pipeline
+ *
+ * Decodes batches of transactions for one program (events, instructions,
+ * token transfers, touched account state) and fans the results out to every
+ * subscriber schema. Shared by the orchestrator's polled and streamed programs
+ * and by push-based ingestion through POST /api/v1/ingest/:programId.
+ */
+
+import { PublicKey, type Connection, type ParsedTransactionWithMeta } from '@solana/web3.js';
+import type pg from 'pg';
+import type {
+  AnchorIDL,
+  DecodedEvent,
+  DecodedInstruction,
+  DecodedTokenTransfer,
+  IdlVersion,
+  ParsedIDL,
+  SubscriberInfo,
+} from '../core/types.js';
+import { parseAnyIDL } from '../core/idl-parser.js';
+import { mergeIdlVersions } from '../core/idl-diff.js';
+import { applyColumnLayout } from '../core/structured-columns.js';
+import { VersionedDecoder, singleVersion } from './idl-versions.js';
+import { TokenTransferDecoder } from './token-transfer-decoder.js';
+import { FanoutWriter } from './fanout-writer.js';
+import type { EventQuota } from './event-quota.js';
+import { AccountDecoder } from './account-decoder.js';
+import { AccountTracker } from './account-tracker.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Subscriber row from the active_program_subscriptions materialized view */
+export interface SubscriberRow {
+  user_id: string;
+  user_program_id: string;
+  schema_name: string;
+  program_name: string;
+  idl: Record<string, unknown>;
+  config: Record<string, unknown>;
+  enabled_events: Array<{
+    event_name: string;
+    event_type: string;
+    field_config: Record<string, unknown>;
+  }> | null;
+  idl_versions?: Array<{
+    version: number;
+    effective_slot: number | string;
+    idl: Record<string, unknown>;
+  }> | null;
+}
+
+/** What a pipeline decoded from (and wrote for) one batch */
+export interface IngestResult {
+  transactions: number;
+  events: number;
+  instructions: number;
+  tokenTransfers: number;
+  written: number;
+}
+
+// =============================================================================
+// Program Pipeline
+// =============================================================================
+
+export class ProgramPipeline {
+  readonly programId: string;
+  /** The first subscriber's IDL, merged across its versions */
+  parsedIdl: ParsedIDL;
+  /** IDL versions the decoders were built from, oldest first */
+  idlVersions: IdlVersion[];
+  readonly fanoutWriter: FanoutWriter;
+  subscribers: SubscriberInfo[];
+
+  private connection: Connection;
+  private decoder: VersionedDecoder;
+  private idlKey: string;
+  private tokenTransferDecoder: TokenTransferDecoder | null = null;
+  private accountTracker: AccountTracker | null = null;
+
+  /**
+   * Builds decoders from the first subscriber's IDL versions.
+   *
+   * @param connection - RPC connection used to fetch touched account state
+   * @param quota - Enforces subscribers' events quota during fan-out
+   */
+  constructor(
+    pool: pg.Pool,
+    connection: Connection,
+    programId: string,
+    subscribers: SubscriberInfo[],
+    quota?: EventQuota
+  ) {
+    this.programId = programId;
+    this.connection = connection;
+    this.fanoutWriter = new FanoutWriter(pool, quota);
+    this.subscribers = [];
+
+    const canonicalSub = subscribers[0];
+    this.parsedIdl = canonicalSub.parsedIdl;
+    this.idlVersions = [];
+    this.decoder = this.buildDecoder(canonicalSub);
+    this.idlKey = versionKey(canonicalSub.idlVersions);
+
+    this.updateSubscribers(subscribers);
+  }
+
+  /**
+   * Replaces the subscriber list, adding token transfer decoding or account
+   * tracking once a subscriber enables them. Decoders are rebuilt when the
+   * first subscriber's IDL was upgraded.
+   */
+  updateSubscribers(subscribers: SubscriberInfo[]): void {
+    this.subscribers = subscribers;
+
+    const canonicalSub = subscribers[0];
+    if (canonicalSub && versionKey(canonicalSub.idlVersions) !== this.idlKey) {
+      this.parsedIdl = canonicalSub.parsedIdl;
+      this.decoder = this.buildDecoder(canonicalSub);
+      this.idlKey = versionKey(canonicalSub.idlVersions);
+      this.accountTracker = null;
+    }
+
+    if (!this.tokenTransferDecoder && subscribers.some((s) => s.tokenTransfers)) {
+      this.tokenTransferDecoder = new TokenTransferDecoder();
+    }
+
+    // Decodes every IDL account type — per-subscriber filtering happens in the fanout
+    const tracking = subscribers.find((s) => s.enabledAccounts.length > 0);
+    if (!this.accountTracker && tracking) {
+      const decoder = new AccountDecoder(this.parsedIdl, tracking.rawIdl as unknown as AnchorIDL);
+      this.accountTracker = new AccountTracker(this.connection, new PublicKey(this.programId), decoder);
+    }
+  }
+
+  /**
+   * Builds the decoder for a subscriber's IDL versions and records them.
+   */
+  private buildDecoder(sub: SubscriberInfo): VersionedDecoder {
+    // Ensure parsedIdl has the correct programId (some IDLs lack `address`)
+    if (!sub.parsedIdl.programId) {
+      sub.parsedIdl.programId = this.programId;
+    }
+    this.idlVersions = sub.idlVersions ?? singleVersion(sub.parsedIdl, sub.rawIdl);
+    return new VersionedDecoder(this.programId, this.idlVersions);
+  }
+
+  /**
+   * Decodes a batch of transactions and writes the results to every
+   * subscriber that enabled them.
+   */
+  async ingest(txs: ParsedTransactionWithMeta[]): Promise<IngestResult> {
+    const events: DecodedEvent[] = [];
+    const instructions: DecodedInstruction[] = [];
+    const tokenTransfers: DecodedTokenTransfer[] = [];
+    const txLogs: Array<{ txSignature: string; slot: number; logMessages: string[] }> = [];
+
+    for (const tx of txs) {
+      events.push(...this.decoder.decodeEvents(tx));
+      instructions.push(...this.decoder.decodeInstructions(tx));
+      if (this.tokenTransferDecoder) {
+        tokenTransfers.push(...this.tokenTransferDecoder.decodeTransaction(tx));
+      }
+      // Collect transaction logs
+      if (tx.meta?.logMessages?.length) {
+        const sig = tx.transaction.signatures[0];
+        if (sig) {
+          txLogs.push({
+            txSignature: sig,
+            slot: tx.slot,
+            logMessages: tx.meta.logMessages,
+          });
+        }
+      }
+    }
+
+    const accountStates = this.accountTracker && txs.length > 0
+      ? await this.accountTracker.fetchTouchedAccounts(txs)
+      : [];
+
+    let written = 0;
+    if (
+      events.length > 0 ||
+      instructions.length > 0 ||
+      tokenTransfers.length > 0 ||
+      accountStates.length > 0
+    ) {
+      const result = await this.fanoutWriter.writeToSubscribers(
+        this.programId,
+        events,
+        instructions,
+        this.subscribers,
+        txLogs,
+        tokenTransfers,
+        accountStates
+      );
+      written = result.totalWritten;
+    }
+
+    return {
+      transactions: txs.length,
+      events: events.length,
+      instructions: instructions.length,
+      tokenTransfers: tokenTransfers.length,
+      written,
+    };
+  }
+}
+
+// =============================================================================
+// Subscribers
+// =============================================================================
+
+/**
+ * Parses subscriber JSON from the materialized view into SubscriberInfo objects.
+ * Subscribers whose IDL fails to parse are logged and skipped.
+ */
+export function parseSubscribers(subscribersJson: SubscriberRow[]): SubscriberInfo[] {
+  const subscribers: SubscriberInfo[] = [];
+
+  for (const sub of subscribersJson) {
+    try {
+      const rawIdl = sub.idl;
+      const idlVersions = parseIdlVersions(sub.idl_versions);
+      const older = (idlVersions ?? []).slice(0, -1).reverse().map((v) => v.parsedIdl);
+      const parsedIdl = applyColumnLayout(
+        mergeIdlVersions(parseAnyIDL(rawIdl).parsed, older),
+        sub.config
+      );
+
+      const enabledEvents = (sub.enabled_events ?? [])
+        .filter((e) => e.event_type === 'event')
+        .map((e) => e.event_name);
+      const enabledInstructions = (sub.enabled_events ?? [])
+        .filter((e) => e.event_type === 'instruction')
+        .map((e) => e.event_name);
+      const enabledAccounts = (sub.enabled_events ?? [])
+        .filter((e) => e.event_type === 'account')
+        .map((e) => e.event_name);
+
+      subscribers.push({
+        userId: sub.user_id,
+        schemaName: sub.schema_name,
+        programName: sub.program_name,
+        parsedIdl,
+        enabledEvents,
+        enabledInstructions,
+        enabledAccounts,
+        rawIdl,
+        tokenTransfers: sub.config?.tokenTransfers === true,
+        accountHistory: sub.config?.accountHistory === true,
+        source: sub.config?.source === 'geyser' || sub.config?.source === 'webhook'
+          ? sub.config.source
+          : 'rpc',
+        idlVersions,
+      });
+    } catch (err) {
+      console.error(
+        `[Pipeline] Failed to parse subscriber ${sub.user_id}: ${(err as Error).message}`
+      );
+    }
+  }
+
+  return subscribers;
+}
+
+/**
+ * Parses the IDL versions of a subscriber row, oldest first. Returns
+ * undefined when the row predates version tracking.
+ */
+function parseIdlVersions(rows: SubscriberRow['idl_versions']): IdlVersion[] | undefined {
+  if (!rows?.length) return undefined;
+  return [...rows]
+    .sort((a, b) => a.version - b.version)
+    .map((row) => ({
+      version: row.version,
+      effectiveSlot: Number(row.effective_slot),
+      parsedIdl: parseAnyIDL(row.idl).parsed,
+      rawIdl: row.idl,
+    }));
+}
+
+/**
+ * Identifies a set of IDL versions, to detect upgrades.
+ */
+function versionKey(versions: IdlVersion[] | undefined): string {
+  return (versions ?? []).map((v) => `${v.version}@${v.effectiveSlot}`).join(',');
+}
+
+/**
+ * Loads the current subscribers of a program from the
+ * active_program_subscriptions materialized view.
+ */
+export async function loadSubscribers(pool: pg.Pool, programId: string): Promise<SubscriberInfo[]> {
+  const result = await pool.query(
+    'SELECT subscribers FROM active_program_subscriptions WHERE program_id = $1',
+    [programId]
+  );
+  if (result.rows.length === 0) return [];
+  return parseSubscribers(result.rows[0].subscribers as SubscriberRow[]);
+}
@@ -3,7 +3,8 @@
  *
  * Polls Solana RPC for recent transactions matching a program ID.
  * Uses getSignaturesForAddress for cursor-based pagination and
- * getParsedTransaction for full transaction data.
+ * getParsedTransaction for full transaction data. When more signatures arrived
+ * than it can page through in one poll, the uncovered range is reported as a gap.
  */
 
 import {
@@ -13,7 +14,8 @@ import {
   type ConfirmedSignatureInfo,
   type Commitment,
 } from '@solana/web3.js';
-import type { PollerOptions } from '../core/types.js';
+import type { PollerOptions, SlotGap } from '../core/types.js';
+import type { IngestionSource } from './source.js';
 
 /** Delay between individual RPC calls to avoid rate limiting */
 const RPC_CALL_DELAY_MS = 100;
@@ -24,17 +26,24 @@ const MAX_RETRIES = 5;
 /** Base delay for exponential backoff (ms) */
 const BASE_BACKOFF_MS = 500;
 
+/** Default pages walked back towards the cursor per poll before recording a gap */
+const DEFAULT_MAX_PAGES_PER_POLL = 10;
+
 // =============================================================================
 // Transaction Poller
 // =============================================================================
 
-export class TransactionPoller {
+export class TransactionPoller implements IngestionSource {
+  readonly kind = 'rpc' as const;
+
   private connection: Connection;
   private programId: PublicKey;
   private options: PollerOptions;
   private lastSignature: string | null = null;
+  private lastSlot: number | null = null;
   private pollCount = 0;
   private running = false;
+  private pendingGaps: SlotGap[] = [];
 
   constructor(connection: Connection, programId: PublicKey, options: PollerOptions) {
     this.connection = connection;
@@ -54,9 +63,20 @@ export class TransactionPoller {
 
   /**
    * Sets the last known signature (for resuming from a saved cursor).
+   * The cursor's slot, when known, is recorded on any gap detected behind it.
    */
-  setLastSignature(sig: string | null): void {
+  setLastSignature(sig: string | null, slot?: number | null): void {
     this.lastSignature = sig;
+    this.lastSlot = slot ?? null;
+  }
+
+  /**
+   * Returns and clears the gaps detected since the last call.
+   */
+  drainGaps(): SlotGap[] {
+    const gaps = this.pendingGaps;
+    this.pendingGaps = [];
+    return gaps;
   }
 
   /**
@@ -77,11 +97,51 @@ export class TransactionPoller {
     // Signatures come in reverse chronological order, so [0] is the newest
     if (signatures.length > 0) {
       this.lastSignature = signatures[0].signature;
+      this.lastSlot = signatures[0].slot;
     }
 
     return transactions;
   }
 
+  /**
+   * Fetches every transaction older than `beforeSignature` and newer than
+   * `untilSignature`, one page of `batchSize` signatures at a time.
+   * Used to fill gaps recorded by the live poller.
+   *
+   * @returns Number of signatures covered
+   */
+  async fetchRange(
+    beforeSignature: string,
+    untilSignature: string,
+    callback: (txs: ParsedTransactionWithMeta[]) => Promise<void>
+  ): Promise<number> {
+    const commitment: Commitment = this.options.commitment ?? 'confirmed';
+    let before = beforeSignature;
+    let covered = 0;
+
+    while (true) {
+      const signatures = await this.retryWithBackoff(async () => {
+        return this.connection.getSignaturesForAddress(
+          this.programId,
+          { limit: this.options.batchSize, before, until: untilSignature },
+          commitment
+        );
+      });
+      if (signatures.length === 0) break;
+
+      const transactions = await this.fetchTransactions(signatures);
+      if (transactions.length > 0) {
+        await callback(transactions);
+      }
+
+      covered += signatures.length;
+      before = signatures[signatures.length - 1].signature;
+      if (signatures.length < this.options.batchSize) break;
+    }
+
+    return covered;
+  }
+
   /**
    * Starts continuous polling with the configured interval.
    * Calls the callback with each batch of transactions.
@@ -130,31 +190,66 @@ export class TransactionPoller {
 
   /**
    * Fetches transaction signatures for the program ID.
-   * Uses `until` for forward pagination (only new transactions since last poll).
+   * Uses `until` for forward pagination (only new transactions since last poll),
+   * paging backwards with `before` until the cursor is reached. If the page
+   * budget runs out first, the remaining range is queued as a gap.
    */
   private async fetchSignatures(): Promise<ConfirmedSignatureInfo[]> {
     const commitment: Commitment = this.options.commitment ?? 'confirmed';
+    const maxPages = this.options.maxPagesPerPoll ?? DEFAULT_MAX_PAGES_PER_POLL;
+    const signatures: ConfirmedSignatureInfo[] = [];
+    let before: string | undefined;
+
+    for (let page = 0; page < maxPages; page++) {
+      const opts: {
+        limit: number;
+        before?: string;
+        until?: string;
+      } = {
+        limit: this.options.batchSize,
+      };
+
+      // If we have a cursor, only fetch newer transactions
+      if (this.lastSignature) {
+        opts.until = this.lastSignature;
+      }
+      if (before) {
+        opts.before = before;
+      }
 
-    const opts: {
-      limit: number;
-      before?: string;
-      until?: string;
-    } = {
-      limit: this.options.batchSize,
-    };
+      const pageSigs = await this.retryWithBackoff(async () => {
+        return this.connection.getSignaturesForAddress(
+          this.programId,
+          opts,
+          commitment
+        );
+      });
+      signatures.push(...pageSigs);
+
+      // Without a cursor there is nothing to catch up to — start from the tip.
+      // A short page means the cursor has been reached.
+      if (!this.lastSignature || pageSigs.length < this.options.batchSize) {
+        return signatures;
+      }
 
-    // If we have a cursor, only fetch newer transactions
-    if (this.lastSignature) {
-      opts.until = this.lastSignature;
+      before = pageSigs[pageSigs.length - 1].signature;
     }
 
-    return this.retryWithBackoff(async () => {
-      return this.connection.getSignaturesForAddress(
-        this.programId,
-        opts,
-        commitment
+    // Page budget exhausted before reaching the cursor
+    const oldest = signatures[signatures.length - 1];
+    if (oldest && this.lastSignature) {
+      this.pendingGaps.push({
+        fromSlot: this.lastSlot,
+        toSlot: oldest.slot,
+        beforeSignature: oldest.signature,
+        untilSignature: this.lastSignature,
+      });
+      console.warn(
+        `[Poller] Could not reach cursor within ${maxPages} page(s); recorded gap below slot ${oldest.slot}`
       );
-    });
+    }
+
+    return signatures;
   }
 
   /**
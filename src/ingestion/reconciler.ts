@@ -0,0 +1,361 @@
+/**
+ * Uho — Commitment Reconciler
+ *
+ * Live ingestion writes rows at `confirmed` commitment, which the cluster can
+ * still roll back if the slot ends up skipped. Once the finalized root has
+ * passed a row's slot, the reconciler revisits it: rows in rooted slots are
+ * promoted to `finalized`, transactions that re-landed in a different slot are
+ * moved there, and rows whose transaction never finalized are deleted and
+ * returned as retractions so callers can notify downstream consumers.
+ */
+
+import type { Connection, SignatureStatus } from '@solana/web3.js';
+import type pg from 'pg';
+import type { ParsedIDL, ParsedField, RetractedRow } from '../core/types.js';
+import { eventTableName, instructionTableName } from '../core/schema-generator.js';
+import { parseAnyIDL, toSnakeCase } from '../core/idl-parser.js';
+import { rowToEventData } from '../core/structured-columns.js';
+
+/** Maximum distinct pending slots examined per table per pass */
+const MAX_PENDING_SLOTS = 1000;
+
+/** getBlocks accepts at most this many slots per call */
+const MAX_SLOT_RANGE = 500_000;
+
+/** getSignatureStatuses accepts at most this many signatures per call */
+const SIGNATURE_STATUS_CHUNK = 256;
+
+/** Cap on cached terminal signature statuses before the cache is reset */
+const MAX_STATUS_CACHE = 10_000;
+
+/** Metadata columns stripped from indexed rows to recover their payload (retractions, webhook replays) */
+export const METADATA_COLUMNS = new Set([
+  'id', 'slot', 'block_time', 'tx_signature', 'ix_index', 'inner_ix_index', 'event_index',
+  'invoking_program', 'cpi_path', 'commitment', 'indexed_at',
+]);
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** A table holding commitment-tracked rows */
+export interface ReconcileTable {
+  kind: RetractedRow['kind'];
+  name: string;
+  /** Quoted table name, resolved against the current search_path */
+  tableName: string;
+  /**
+   * Payload fields without the column layout applied. Retracted rows are
+   * keyed by their IDL names like live payloads; without them the raw
+   * payload columns are kept.
+   */
+  fields?: ParsedField[];
+}
+
+/** Outcome of a reconciliation pass over one schema */
+export interface ReconcileResult {
+  finalized: number;
+  retracted: RetractedRow[];
+}
+
+// =============================================================================
+// Commitment Reconciler
+// =============================================================================
+
+export class CommitmentReconciler {
+  private connection: Connection;
+
+  /** Rooted slots for the last requested range — stable once below the root */
+  private rootedCache: { from: number; to: number; slots: Set<number> } | null = null;
+
+  /** Terminal signature statuses (finalized or not found), shared across schemas */
+  private statusCache = new Map<string, SignatureStatus | null>();
+
+  constructor(connection: Connection) {
+    this.connection = connection;
+  }
+
+  /**
+   * Returns the current finalized (rooted) slot.
+   */
+  async getFinalizedSlot(): Promise<number> {
+    return this.connection.getSlot('finalized');
+  }
+
+  /**
+   * Reconciles confirmed rows at or below `finalizedSlot` in the given tables.
+   * RPC lookups happen before the write transaction is opened.
+   *
+   * @param client - Client whose search_path resolves the table names
+   * @param tables - Commitment-tracked tables to reconcile
+   * @param finalizedSlot - Current finalized slot from getFinalizedSlot()
+   */
+  async reconcile(
+    client: pg.PoolClient,
+    tables: ReconcileTable[],
+    finalizedSlot: number
+  ): Promise<ReconcileResult> {
+    const result: ReconcileResult = { finalized: 0, retracted: [] };
+
+    // 1. Collect pending slots per table
+    const pending = new Map<ReconcileTable, number[]>();
+    for (const table of tables) {
+      try {
+        const rows = await client.query(
+          `SELECT DISTINCT slot FROM ${table.tableName}
+           WHERE commitment = 'confirmed' AND slot <= $1
+           ORDER BY slot LIMIT $2`,
+          [finalizedSlot, MAX_PENDING_SLOTS]
+        );
+        if (rows.rows.length > 0) {
+          pending.set(table, rows.rows.map((r) => Number(r.slot)));
+        }
+      } catch (err) {
+        // Table might not exist yet (or predate the commitment column) — skip
+        const code = (err as { code?: string })?.code;
+        if (code !== '42P01' && code !== '42703') throw err;
+      }
+    }
+    if (pending.size === 0) return result;
+
+    // 2. Split pending slots into rooted and skipped
+    const allSlots = [...pending.values()].flat();
+    const from = Math.min(...allSlots);
+    const to = Math.min(Math.max(...allSlots), from + MAX_SLOT_RANGE - 1);
+    const rooted = await this.getRootedSlots(from, to);
+
+    const promotions = new Map<ReconcileTable, number[]>();
+    const orphans = new Map<ReconcileTable, Array<{ txSignature: string; slot: number }>>();
+
+    for (const [table, slots] of pending) {
+      const inRange = slots.filter((s) => s <= to);
+      const rootedSlots = inRange.filter((s) => rooted.has(s));
+      const skippedSlots = inRange.filter((s) => !rooted.has(s));
+
+      if (rootedSlots.length > 0) promotions.set(table, rootedSlots);
+      if (skippedSlots.length > 0) {
+        const rows = await client.query(
+          `SELECT DISTINCT tx_signature, slot FROM ${table.tableName}
+           WHERE commitment = 'confirmed' AND slot = ANY($1::bigint[])`,
+          [skippedSlots]
+        );
+        orphans.set(table, rows.rows.map((r) => ({
+          txSignature: r.tx_signature as string,
+          slot: Number(r.slot),
+        })));
+      }
+    }
+
+    // 3. Look up where (if anywhere) orphaned transactions finalized
+    const orphanSignatures = [...new Set(
+      [...orphans.values()].flat().map((o) => o.txSignature)
+    )];
+    const statuses = await this.getSignatureStatuses(orphanSignatures);
+
+    // 4. Apply promotions, relocations and retractions atomically
+    const retractedSignatures: string[] = [];
+    const relocated = new Map<string, number>();
+    await client.query('BEGIN');
+    try {
+      for (const [table, slots] of promotions) {
+        const updated = await client.query(
+          `UPDATE ${table.tableName} SET commitment = 'finalized'
+           WHERE commitment = 'confirmed' AND slot = ANY($1::bigint[])`,
+          [slots]
+        );
+        result.finalized += updated.rowCount ?? 0;
+      }
+
+      for (const [table, rows] of orphans) {
+        for (const orphan of rows) {
+          const status = statuses.get(orphan.txSignature);
+
+          if (status && !status.err && status.confirmationStatus === 'finalized') {
+            // Re-landed in a different slot — keep the row, fix its slot
+            const moved = await client.query(
+              `UPDATE ${table.tableName} SET slot = $2, commitment = 'finalized'
+               WHERE tx_signature = $1 AND commitment = 'confirmed'`,
+              [orphan.txSignature, status.slot]
+            );
+            result.finalized += moved.rowCount ?? 0;
+            relocated.set(orphan.txSignature, status.slot);
+          } else if (status === null || status?.err) {
+            // Never finalized (or finalized as a failed tx) — the rows are phantoms
+            const deleted = await client.query(
+              `DELETE FROM ${table.tableName}
+               WHERE tx_signature = $1 AND commitment = 'confirmed'
+               RETURNING *`,
+              [orphan.txSignature]
+            );
+            for (const row of deleted.rows) {
+              result.retracted.push(toRetractedRow(table, row));
+            }
+            retractedSignatures.push(orphan.txSignature);
+          }
+          // Otherwise the tx is still only confirmed elsewhere — retry next pass
+        }
+      }
+
+      if (retractedSignatures.length > 0) {
+        const txLogs = await client.query(`SELECT to_regclass('_tx_logs') AS reg`);
+        if (txLogs.rows[0]?.reg) {
+          await client.query('DELETE FROM _tx_logs WHERE tx_signature = ANY($1)', [retractedSignatures]);
+        }
+      }
+
+      // Keep the address activity index in step with the rows it points at
+      if (retractedSignatures.length > 0 || relocated.size > 0) {
+        const activity = await client.query(`SELECT to_regclass('_address_activity') AS reg`);
+        if (activity.rows[0]?.reg) {
+          if (retractedSignatures.length > 0) {
+            await client.query('DELETE FROM _address_activity WHERE tx_signature = ANY($1)', [retractedSignatures]);
+          }
+          for (const [txSignature, slot] of relocated) {
+            await client.query('UPDATE _address_activity SET slot = $2 WHERE tx_signature = $1', [txSignature, slot]);
+          }
+        }
+      }
+
+      await client.query('COMMIT');
+    } catch (err) {
+      await client.query('ROLLBACK');
+      throw new Error(`Failed to reconcile commitments: ${(err as Error).message}`);
+    }
+
+    return result;
+  }
+
+  // ===========================================================================
+  // Private — RPC Lookups
+  // ===========================================================================
+
+  /**
+   * Returns the set of slots in [from, to] that produced a finalized block.
+   */
+  private async getRootedSlots(from: number, to: number): Promise<Set<number>> {
+    const cached = this.rootedCache;
+    if (cached && from >= cached.from && to <= cached.to) return cached.slots;
+
+    const blocks = await this.connection.getBlocks(from, to, 'finalized');
+    const slots = new Set(blocks);
+    this.rootedCache = { from, to, slots };
+    return slots;
+  }
+
+  /**
+   * Fetches signature statuses (searching full history), reusing terminal
+   * results from earlier lookups. Missing signatures map to null.
+   */
+  private async getSignatureStatuses(
+    signatures: string[]
+  ): Promise<Map<string, SignatureStatus | null>> {
+    const statuses = new Map<string, SignatureStatus | null>();
+    const toFetch = signatures.filter((sig) => {
+      if (!this.statusCache.has(sig)) return true;
+      statuses.set(sig, this.statusCache.get(sig)!);
+      return false;
+    });
+
+    if (this.statusCache.size > MAX_STATUS_CACHE) this.statusCache.clear();
+
+    for (let i = 0; i < toFetch.length; i += SIGNATURE_STATUS_CHUNK) {
+      const chunk = toFetch.slice(i, i + SIGNATURE_STATUS_CHUNK);
+      const response = await this.connection.getSignatureStatuses(chunk, {
+        searchTransactionHistory: true,
+      });
+
+      chunk.forEach((sig, j) => {
+        const status = response.value[j] ?? null;
+        statuses.set(sig, status);
+        if (status === null || status.confirmationStatus === 'finalized') {
+          this.statusCache.set(sig, status);
+        }
+      });
+    }
+
+    return statuses;
+  }
+}
+
+// =============================================================================
+// Table Selection
+// =============================================================================
+
+/**
+ * Lists the commitment-tracked tables for a program: its enabled event and
+ * instruction tables, plus _token_transfers when transfer tracking is on.
+ *
+ * @param rawIdl - The program's IDL, whose event fields rebuild retracted
+ *   rows when parsedIdl has structured columns applied
+ */
+export function reconcileTables(
+  parsedIdl: ParsedIDL,
+  events: string[],
+  instructions: string[],
+  tokenTransfers: boolean,
+  rawIdl?: Record<string, unknown>
+): ReconcileTable[] {
+  const tables: ReconcileTable[] = [];
+  const idlEvents = rawIdl ? parseAnyIDL(rawIdl).parsed.events : [];
+
+  for (const event of parsedIdl.events) {
+    if (!events.includes(event.name)) continue;
+    tables.push({
+      kind: 'event',
+      name: event.name,
+      tableName: eventTableName(parsedIdl.programName, event.name),
+      fields: idlEvents.find((e) => e.name === event.name)?.fields ?? event.fields,
+    });
+  }
+
+  for (const ix of parsedIdl.instructions) {
+    if (!instructions.includes(ix.name)) continue;
+    tables.push({
+      kind: 'instruction',
+      name: ix.name,
+      tableName: instructionTableName(parsedIdl.programName, ix.name),
+      fields: [
+        ...ix.args,
+        ...ix.accounts.map((account): ParsedField => ({
+          name: toSnakeCase(account),
+          idlName: account,
+          type: 'publicKey',
+          sqlType: 'TEXT',
+          nullable: false,
+        })),
+      ],
+    });
+  }
+
+  if (tokenTransfers) {
+    tables.push({ kind: 'token_transfer', name: 'token_transfers', tableName: '_token_transfers' });
+  }
+
+  return tables;
+}
+
+// =============================================================================
+// Utility
+// =============================================================================
+
+/**
+ * Converts a deleted row into a retraction, keeping only its payload.
+ */
+function toRetractedRow(table: ReconcileTable, row: Record<string, unknown>): RetractedRow {
+  let data: Record<string, unknown> = {};
+  if (table.fields) {
+    data = rowToEventData(table.fields, row);
+  } else {
+    for (const [key, value] of Object.entries(row)) {
+      if (!METADATA_COLUMNS.has(key)) data[key] = value;
+    }
+  }
+
+  return {
+    kind: table.kind,
+    name: table.name,
+    slot: Number(row.slot),
+    txSignature: row.tx_signature as string,
+    data,
+  };
+}
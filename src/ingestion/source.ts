@@ -0,0 +1,64 @@
+/**
+ * Uho — Ingestion Sources
+ *
+ * Common interface for the ways Uho receives a program's transactions.
+ * TransactionPoller pulls them from RPC with getSignaturesForAddress;
+ * GeyserSource has them pushed over a Yellowstone gRPC stream. Consumers can
+ * pull batches with poll() or hand a callback to start().
+ */
+
+import type { Connection, ParsedTransactionWithMeta, PublicKey } from '@solana/web3.js';
+import type { GeyserOptions, IngestionSourceKind, PollerOptions, SlotGap } from '../core/types.js';
+import { TransactionPoller } from './poller.js';
+import { GeyserSource } from './geyser-source.js';
+
+// =============================================================================
+// Ingestion Source Interface
+// =============================================================================
+
+export interface IngestionSource {
+  readonly kind: IngestionSourceKind;
+
+  /** Returns the transactions received since the previous call */
+  poll(): Promise<ParsedTransactionWithMeta[]>;
+
+  /** Delivers transaction batches to the callback until stop() is called */
+  start(callback: (txs: ParsedTransactionWithMeta[]) => Promise<void>): Promise<void>;
+
+  stop(): void;
+
+  isRunning(): boolean;
+
+  /** Cursor state for persistence/debugging */
+  getState(): { lastSignature: string | null; pollCount: number };
+
+  /** Resumes from a saved cursor; ranges missed behind it are reported as gaps */
+  setLastSignature(sig: string | null, slot?: number | null): void;
+
+  /** Returns and clears the gaps detected since the last call */
+  drainGaps(): SlotGap[];
+}
+
+// =============================================================================
+// Factory
+// =============================================================================
+
+/**
+ * Creates the ingestion source for a program. Falls back to RPC polling when
+ * `geyser` is requested but no endpoint is configured.
+ */
+export function createIngestionSource(
+  kind: IngestionSourceKind | undefined,
+  connection: Connection,
+  programId: PublicKey,
+  options: PollerOptions,
+  geyser?: GeyserOptions
+): IngestionSource {
+  if (kind === 'geyser') {
+    if (geyser) return new GeyserSource(programId, options, geyser);
+    console.warn(
+      `[Source] No Geyser endpoint configured — polling RPC for ${programId.toBase58()}`
+    );
+  }
+  return new TransactionPoller(connection, programId, options);
+}
@@ -6,9 +6,36 @@
  */
 
 import type pg from 'pg';
-import type { ParsedIDL, DecodedEvent, DecodedInstruction, DecodedTokenTransfer, IndexerState, ParsedEvent, ParsedInstruction } from '../core/types.js';
-import { eventTableName, instructionTableName } from '../core/schema-generator.js';
+import type { ParsedIDL, DecodedEvent, DecodedInstruction, DecodedTokenTransfer, DecodedAccount, IndexerState, ParsedEvent, ParsedInstruction, ParsedField, RowCommitment, SlotGap, GapRecord } from '../core/types.js';
+import {
+  eventTableName,
+  instructionTableName,
+  accountStateTableName,
+  accountHistoryTableName,
+  accountStateFields,
+  eventTableNameRaw,
+  instructionTableNameRaw,
+  isAddressField,
+} from '../core/schema-generator.js';
 import { toSnakeCase } from '../core/idl-parser.js';
+import { columnValue, findFieldValue } from '../core/structured-columns.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** A newly written row whose addresses are recorded in _address_activity */
+interface ActivitySource {
+  kind: 'event' | 'instruction' | 'token_transfer';
+  name: string;
+  /** Raw (unquoted) name of the table the row was written to */
+  table: string;
+  id: unknown;
+  slot: number;
+  blockTime: string | null;
+  txSignature: string;
+  ixIndex: number;
+}
 
 // =============================================================================
 // Event Writer
@@ -17,20 +44,27 @@ import { toSnakeCase } from '../core/idl-parser.js';
 export class EventWriter {
   private pool: pg.Pool;
   private parsedIdl: ParsedIDL;
-  private eventFieldMap: Map<string, string[]>;
+  private eventFieldMap: Map<string, ParsedField[]>;
   private instructionDefMap: Map<string, ParsedInstruction>;
+  private accountFieldMap: Map<string, ParsedField[]>;
+  private commitment: RowCommitment;
 
-  constructor(pool: pg.Pool, parsedIdl: ParsedIDL) {
+  /**
+   * @param pool - Database pool (or schema-scoped wrapper)
+   * @param parsedIdl - The normalized parsed IDL
+   * @param commitment - Commitment recorded on written rows. Live ingestion writes
+   *   'confirmed' rows that the reconciler later promotes; backfills of rooted
+   *   history can write 'finalized' directly.
+   */
+  constructor(pool: pg.Pool, parsedIdl: ParsedIDL, commitment: RowCommitment = 'confirmed') {
     this.pool = pool;
     this.parsedIdl = parsedIdl;
+    this.commitment = commitment;
 
-    // Build a lookup map: eventName → ordered list of snake_case field names
+    // Build a lookup map: eventName → ordered list of column fields (snake_case names)
     this.eventFieldMap = new Map();
     for (const event of parsedIdl.events) {
-      this.eventFieldMap.set(
-        event.name,
-        event.fields.map((f) => f.name) // already snake_case from parser
-      );
+      this.eventFieldMap.set(event.name, event.fields);
     }
 
     // Build a lookup map: instructionName → ParsedInstruction
@@ -38,6 +72,12 @@ export class EventWriter {
     for (const ix of parsedIdl.instructions) {
       this.instructionDefMap.set(ix.name, ix);
     }
+
+    // Build a lookup map: accountName → state table columns
+    this.accountFieldMap = new Map();
+    for (const account of parsedIdl.accounts) {
+      this.accountFieldMap.set(account.name, accountStateFields(account));
+    }
   }
 
   /**
@@ -46,17 +86,26 @@ export class EventWriter {
    * Returns the number of events successfully written.
    */
   async writeEvents(events: DecodedEvent[]): Promise<number> {
-    if (events.length === 0) return 0;
+    return (await this.insertEvents(events)).length;
+  }
+
+  /**
+   * Writes a batch of decoded events like writeEvents, returning the events
+   * that were inserted. Events already indexed are skipped by ON CONFLICT and
+   * left out, so callers can deliver only rows that are new.
+   */
+  async insertEvents(events: DecodedEvent[]): Promise<DecodedEvent[]> {
+    if (events.length === 0) return [];
 
     const client = await this.pool.connect();
-    let written = 0;
+    const written: DecodedEvent[] = [];
 
     try {
       await client.query('BEGIN');
 
       for (const event of events) {
         const inserted = await this.insertEvent(client, event);
-        if (inserted) written++;
+        if (inserted) written.push(event);
       }
 
       await client.query('COMMIT');
@@ -128,9 +177,10 @@ export class EventWriter {
           INSERT INTO _token_transfers
             (program_id, instruction_type, source, destination, authority,
              mint, amount, decimals, slot, block_time, tx_signature,
-             ix_index, inner_ix_index)
-          VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+             ix_index, inner_ix_index, commitment)
+          VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
           ON CONFLICT DO NOTHING
+          RETURNING id
         `;
 
         const result = await client.query(sql, [
@@ -147,9 +197,26 @@ export class EventWriter {
           transfer.txSignature,
           transfer.ixIndex,
           transfer.innerIxIndex,
+          this.commitment,
         ]);
 
-        if ((result.rowCount ?? 0) > 0) written++;
+        if (result.rows.length === 0) continue;
+        written++;
+
+        await this.recordActivity(client, {
+          kind: 'token_transfer',
+          name: transfer.instructionType,
+          table: '_token_transfers',
+          id: result.rows[0].id,
+          slot: transfer.slot,
+          blockTime: blockTimeValue,
+          txSignature: transfer.txSignature,
+          ixIndex: transfer.ixIndex,
+        }, [
+          ['source', transfer.source],
+          ['destination', transfer.destination],
+          ['authority', transfer.authority],
+        ]);
       }
 
       await client.query('COMMIT');
@@ -163,6 +230,81 @@ export class EventWriter {
     return written;
   }
 
+  /**
+   * Upserts decoded account states into their {program}_{account}_state tables.
+   * A row is only replaced by a version observed at the same or a later slot.
+   * When history is enabled, every version is also appended to the _history table.
+   * Returns the number of state rows actually changed.
+   */
+  async writeAccountStates(accounts: DecodedAccount[], history = false): Promise<number> {
+    if (accounts.length === 0) return 0;
+
+    const client = await this.pool.connect();
+    let written = 0;
+
+    try {
+      await client.query('BEGIN');
+
+      for (const account of accounts) {
+        const fields = this.accountFieldMap.get(account.accountName);
+        if (!fields) {
+          console.warn(`[Writer] Unknown account type: ${account.accountName}, skipping`);
+          continue;
+        }
+
+        const columns = [
+          '"pubkey"',
+          '"slot"',
+          '"block_time"',
+          '"tx_signature"',
+          '"lamports"',
+          ...fields.map((f) => `"${f.name}"`),
+        ];
+
+        const values: unknown[] = [
+          account.pubkey,
+          account.slot,
+          account.blockTime ? new Date(account.blockTime * 1000).toISOString() : null,
+          account.txSignature,
+          account.lamports,
+          ...fields.map((f) => toColumnValue(columnValue(account.data, f))),
+        ];
+
+        const placeholders = values.map((_, i) => `$${i + 1}`).join(', ');
+        const stateTable = accountStateTableName(this.parsedIdl.programName, account.accountName);
+        const updates = columns
+          .filter((c) => c !== '"pubkey"')
+          .map((c) => `${c} = EXCLUDED.${c}`);
+        updates.push('"updated_at" = NOW()');
+
+        const result = await client.query(
+          `INSERT INTO ${stateTable} AS t (${columns.join(', ')}) VALUES (${placeholders})
+           ON CONFLICT ("pubkey") DO UPDATE SET ${updates.join(', ')}
+           WHERE t."slot" <= EXCLUDED."slot"`,
+          values
+        );
+        if ((result.rowCount ?? 0) > 0) written++;
+
+        if (history) {
+          const historyTable = accountHistoryTableName(this.parsedIdl.programName, account.accountName);
+          await client.query(
+            `INSERT INTO ${historyTable} (${columns.join(', ')}) VALUES (${placeholders}) ON CONFLICT DO NOTHING`,
+            values
+          );
+        }
+      }
+
+      await client.query('COMMIT');
+    } catch (err) {
+      await client.query('ROLLBACK');
+      throw new Error(`Failed to write account states: ${(err as Error).message}`);
+    } finally {
+      client.release();
+    }
+
+    return written;
+  }
+
   /**
    * Inserts a single decoded instruction into its corresponding table.
    */
@@ -187,6 +329,7 @@ export class EventWriter {
       '"block_time"',
       '"tx_signature"',
       '"ix_index"',
+      '"commitment"',
       ...argFieldNames.map((n) => `"${n}"`),
       ...accountColNames.map((n) => `"${n}"`),
     ];
@@ -200,6 +343,7 @@ export class EventWriter {
       blockTimeValue,
       ix.txSignature,
       ix.ixIndex,
+      this.commitment,
     ];
 
     // Add arg values
@@ -223,10 +367,70 @@ export class EventWriter {
     }
 
     const placeholders = values.map((_, i) => `$${i + 1}`).join(', ');
-    const sql = `INSERT INTO ${tableName} (${columns.join(', ')}) VALUES (${placeholders}) ON CONFLICT DO NOTHING`;
+    const sql = `INSERT INTO ${tableName} (${columns.join(', ')}) VALUES (${placeholders}) ON CONFLICT DO NOTHING RETURNING id`;
 
     const result = await client.query(sql, values);
-    return (result.rowCount ?? 0) > 0;
+    if (result.rows.length === 0) return false;
+
+    // Accounts first, then pubkey args
+    const addresses: Array<[string, unknown]> = [
+      ...ixDef.accounts.map((accName): [string, unknown] => [toSnakeCase(accName), ix.accounts[accName]]),
+      ...ixDef.args
+        .filter(isAddressField)
+        .map((arg): [string, unknown] => [arg.name, ix.args[arg.name] ?? findFieldValue(ix.args, arg.name)]),
+    ];
+    await this.recordActivity(client, {
+      kind: 'instruction',
+      name: ix.instructionName,
+      table: instructionTableNameRaw(this.parsedIdl.programName, ix.instructionName),
+      id: result.rows[0].id,
+      slot: ix.slot,
+      blockTime: blockTimeValue,
+      txSignature: ix.txSignature,
+      ixIndex: ix.ixIndex,
+    }, addresses);
+    return true;
+  }
+
+  /**
+   * Records the addresses a newly written row involves in _address_activity:
+   * one row per distinct address, listing the columns it appeared in.
+   *
+   * @param addresses - (column, value) pairs; empty and unknown values are skipped
+   */
+  private async recordActivity(
+    client: pg.PoolClient,
+    source: ActivitySource,
+    addresses: Array<[string, unknown]>
+  ): Promise<void> {
+    const roles = new Map<string, string[]>();
+    for (const [role, value] of addresses) {
+      if (typeof value !== 'string' || value === '' || value === 'unknown') continue;
+      const existing = roles.get(value);
+      if (existing) existing.push(role);
+      else roles.set(value, [role]);
+    }
+    if (roles.size === 0) return;
+
+    // The feed resolves the user's program from source_table, so renames carry over
+    const params: unknown[] = [
+      source.kind, source.name, source.table, source.id,
+      source.slot, source.blockTime, source.txSignature, source.ixIndex,
+    ];
+    const rows: string[] = [];
+    for (const [address, addressRoles] of roles) {
+      params.push(address, addressRoles);
+      rows.push(`($${params.length - 1}, $${params.length}, $1, $2, $3, $4, $5, $6, $7, $8)`);
+    }
+
+    await client.query(
+      `INSERT INTO _address_activity
+         (address, roles, kind, name, source_table, source_id,
+          slot, block_time, tx_signature, ix_index)
+       VALUES ${rows.join(', ')}
+       ON CONFLICT DO NOTHING`,
+      params
+    );
   }
 
   /**
@@ -297,6 +501,54 @@ export class EventWriter {
     };
   }
 
+  // ===========================================================================
+  // Gap Tracking
+  // ===========================================================================
+
+  /**
+   * Records a signature range the live poller could not cover in _uho_gaps.
+   */
+  async recordGap(programId: string, gap: SlotGap): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO _uho_gaps (program_id, from_slot, to_slot, before_signature, until_signature)
+       VALUES ($1, $2, $3, $4, $5)`,
+      [programId, gap.fromSlot, gap.toSlot, gap.beforeSignature, gap.untilSignature]
+    );
+  }
+
+  /**
+   * Lists gaps for a program that have not been filled yet, newest first.
+   */
+  async getUnfilledGaps(programId: string): Promise<GapRecord[]> {
+    const result = await this.pool.query(
+      `SELECT * FROM _uho_gaps WHERE program_id = $1 AND status <> 'filled' ORDER BY to_slot DESC`,
+      [programId]
+    );
+    return result.rows.map(mapGapRow);
+  }
+
+  /**
+   * Updates the fill status of a recorded gap.
+   */
+  async updateGap(
+    id: number,
+    updates: Partial<Pick<GapRecord, 'status' | 'attempts' | 'error' | 'filledAt'>>
+  ): Promise<void> {
+    const fields: { column: string; value: unknown }[] = [];
+
+    if (updates.status !== undefined) fields.push({ column: 'status', value: updates.status });
+    if (updates.attempts !== undefined) fields.push({ column: 'attempts', value: updates.attempts });
+    if (updates.error !== undefined) fields.push({ column: 'error', value: updates.error });
+    if (updates.filledAt !== undefined) fields.push({ column: 'filled_at', value: updates.filledAt });
+    if (fields.length === 0) return;
+
+    const setClauses = fields.map((f, i) => `${f.column} = $${i + 2}`);
+    await this.pool.query(
+      `UPDATE _uho_gaps SET ${setClauses.join(', ')} WHERE id = $1`,
+      [id, ...fields.map((f) => f.value)]
+    );
+  }
+
   // ===========================================================================
   // Private Methods
   // ===========================================================================
@@ -310,8 +562,8 @@ export class EventWriter {
     client: pg.PoolClient,
     event: DecodedEvent
   ): Promise<boolean> {
-    const fieldNames = this.eventFieldMap.get(event.eventName);
-    if (!fieldNames) {
+    const fields = this.eventFieldMap.get(event.eventName);
+    if (!fields) {
       console.warn(`[Writer] Unknown event type: ${event.eventName}, skipping`);
       return false;
     }
@@ -325,7 +577,11 @@ export class EventWriter {
       '"tx_signature"',
       '"ix_index"',
       '"inner_ix_index"',
-      ...fieldNames.map((n) => `"${n}"`),
+      '"event_index"',
+      '"invoking_program"',
+      '"cpi_path"',
+      '"commitment"',
+      ...fields.map((f) => `"${f.name}"`),
     ];
 
     // Build values: convert block_time from unix timestamp to ISO string
@@ -339,12 +595,16 @@ export class EventWriter {
       event.txSignature,
       event.ixIndex,
       event.innerIxIndex,
+      event.eventIndex ?? 0,
+      event.invokingProgram ?? null,
+      event.cpiPath ?? null,
+      this.commitment,
     ];
 
     // Add IDL field values, mapping from camelCase event data keys to snake_case
-    for (const fieldName of fieldNames) {
-      // Find the original camelCase key in event.data
-      const value = findFieldValue(event.data, fieldName);
+    for (const field of fields) {
+      // Find the original camelCase key (or nested path) in event.data
+      const value = columnValue(event.data, field);
       // Serialize objects/arrays to JSON for JSONB columns
       if (typeof value === 'object' && value !== null && !Buffer.isBuffer(value)) {
         values.push(JSON.stringify(value));
@@ -355,11 +615,23 @@ export class EventWriter {
 
     // Build parameterized INSERT with ON CONFLICT DO NOTHING for dedup
     const placeholders = values.map((_, i) => `$${i + 1}`).join(', ');
-    const sql = `INSERT INTO ${tableName} (${columns.join(', ')}) VALUES (${placeholders}) ON CONFLICT DO NOTHING`;
+    const sql = `INSERT INTO ${tableName} (${columns.join(', ')}) VALUES (${placeholders}) ON CONFLICT DO NOTHING RETURNING id`;
 
     const result = await client.query(sql, values);
-    // rowCount is 0 when the insert was skipped due to ON CONFLICT DO NOTHING
-    return (result.rowCount ?? 0) > 0;
+    // No row comes back when the insert was skipped due to ON CONFLICT DO NOTHING
+    if (result.rows.length === 0) return false;
+
+    await this.recordActivity(client, {
+      kind: 'event',
+      name: event.eventName,
+      table: eventTableNameRaw(this.parsedIdl.programName, event.eventName),
+      id: result.rows[0].id,
+      slot: event.slot,
+      blockTime: blockTimeValue,
+      txSignature: event.txSignature,
+      ixIndex: event.ixIndex,
+    }, fields.filter(isAddressField).map((f) => [f.name, columnValue(event.data, f)]));
+    return true;
   }
 }
 
@@ -368,19 +640,31 @@ export class EventWriter {
 // =============================================================================
 
 /**
- * Finds a field value in the event data object.
- * Tries the snake_case name first, then converts back to camelCase to search.
+ * Maps a _uho_gaps row to a GapRecord.
  */
-function findFieldValue(
-  data: Record<string, unknown>,
-  snakeCaseField: string
-): unknown {
-  // Direct match (if data already has snake_case keys)
-  if (snakeCaseField in data) return data[snakeCaseField];
-
-  // Convert snake_case back to camelCase for lookup
-  const camelCase = snakeCaseField.replace(/_([a-z])/g, (_, c) => c.toUpperCase());
-  if (camelCase in data) return data[camelCase];
-
-  return undefined;
+export function mapGapRow(row: Record<string, unknown>): GapRecord {
+  return {
+    id: Number(row.id),
+    programId: row.program_id as string,
+    fromSlot: row.from_slot != null ? Number(row.from_slot) : null,
+    toSlot: Number(row.to_slot),
+    beforeSignature: row.before_signature as string,
+    untilSignature: row.until_signature as string,
+    status: row.status as GapRecord['status'],
+    attempts: Number(row.attempts),
+    error: (row.error as string | null) ?? null,
+    detectedAt: new Date(row.detected_at as string),
+    filledAt: row.filled_at ? new Date(row.filled_at as string) : null,
+  };
+}
+
+/**
+ * Converts a decoded value into a query parameter.
+ * Objects and arrays are serialized to JSON for JSONB columns.
+ */
+function toColumnValue(value: unknown): unknown {
+  if (typeof value === 'object' && value !== null && !Buffer.isBuffer(value)) {
+    return JSON.stringify(value);
+  }
+  return value ?? null;
 }
@@ -11,7 +11,7 @@ import type pg from 'pg';
 import type { AuthPayload } from '../core/types.js';
 import { verifyAccessToken } from '../auth/jwt.js';
 import { hashApiKey, isValidApiKeyFormat } from '../auth/api-keys.js';
-import { UnauthorizedError } from '../core/errors.js';
+import { UnauthorizedError, ForbiddenError } from '../core/errors.js';
 
 // =============================================================================
 // Module State
@@ -66,6 +66,28 @@ export async function jwtOnlyMiddleware(
   request.authPayload = authPayload;
 }
 
+/**
+ * Admin middleware: JWT only, from a user flagged `is_admin`.
+ * Used for plan management under /api/v1/admin/*.
+ */
+export async function adminMiddleware(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<void> {
+  const authPayload = extractJwt(request);
+  if (!authPayload) {
+    const error = new UnauthorizedError('JWT authentication required');
+    return reply.status(401).send(error.toResponse());
+  }
+
+  const result = await _pool.query('SELECT is_admin FROM users WHERE id = $1', [authPayload.userId]);
+  if (result.rows[0]?.is_admin !== true) {
+    const error = new ForbiddenError('Admin access required');
+    return reply.status(403).send(error.toResponse());
+  }
+  request.authPayload = authPayload;
+}
+
 /**
  * Optional auth: sets request.authPayload if a token is present,
  * but does not reject if absent.
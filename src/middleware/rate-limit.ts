@@ -73,3 +73,19 @@ export const verifyRateLimit: RouteShorthandOptions['config'] = {
     keyGenerator: (request: { ip: string }) => `verify:${request.ip}`,
   },
 };
+
+// =============================================================================
+// Ingest Route Rate Limits
+// =============================================================================
+
+/**
+ * Rate limit config for push ingestion: 1200 requests per minute per IP.
+ * Providers deliver webhooks far faster than the default user limit allows.
+ */
+export const ingestRateLimit: RouteShorthandOptions['config'] = {
+  rateLimit: {
+    max: 1200,
+    timeWindow: 60_000,
+    keyGenerator: (request: { ip: string }) => `ingest:${request.ip}`,
+  },
+};
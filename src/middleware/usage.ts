@@ -28,7 +28,10 @@ export function registerUsageTracking(
     if (request.url.startsWith('/api/v1/auth/')) return;
     if (request.url === '/api/v1/health') return;
 
+    // Data routes (/data/:program/...) are attributed to their program
+    const { program } = (request.params ?? {}) as { program?: string };
+
     // Fire-and-forget usage tracking (don't slow down the request)
-    usageService.trackApiCall(auth.userId).catch(() => {});
+    usageService.trackApiCall(auth.userId, 1, program).catch(() => {});
   });
 }
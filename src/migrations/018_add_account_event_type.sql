@@ -0,0 +1,7 @@
+-- 018: Allow IDL account types to be enabled per program
+-- Account rows in user_program_events turn on {program}_{account}_state
+-- tracking in the user's schema (history is controlled by config.accountHistory).
+
+ALTER TABLE user_program_events DROP CONSTRAINT IF EXISTS user_program_events_event_type_check;
+ALTER TABLE user_program_events ADD CONSTRAINT user_program_events_event_type_check
+    CHECK (event_type IN ('event', 'instruction', 'account'));
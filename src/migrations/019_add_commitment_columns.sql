@@ -0,0 +1,34 @@
+-- 019: Track commitment status on indexed rows
+-- Every event, instruction and token transfer table in a user schema gets a
+-- commitment column ('confirmed' until the reconciler sees its slot finalize).
+-- Tables created from now on include the column; this upgrades existing ones.
+-- Rows indexed before the upgrade are marked 'finalized': the reconciler only
+-- checks rows indexed from now on, as history on pruned slots can't be checked
+-- and would be retracted.
+
+DO $$
+DECLARE
+    t RECORD;
+BEGIN
+    FOR t IN
+        SELECT c.table_schema, c.table_name
+        FROM information_schema.columns c
+        JOIN users u ON u.schema_name = c.table_schema
+        WHERE c.column_name IN ('tx_signature', 'ix_index')
+        GROUP BY c.table_schema, c.table_name
+        HAVING COUNT(*) = 2
+    LOOP
+        EXECUTE format(
+            'ALTER TABLE %I.%I ADD COLUMN IF NOT EXISTS commitment TEXT NOT NULL DEFAULT ''finalized''',
+            t.table_schema, t.table_name
+        );
+        EXECUTE format(
+            'ALTER TABLE %I.%I ALTER COLUMN commitment SET DEFAULT ''confirmed''',
+            t.table_schema, t.table_name
+        );
+        EXECUTE format(
+            'CREATE INDEX IF NOT EXISTS %I ON %I.%I (slot) WHERE commitment = ''confirmed''',
+            'idx_' || ltrim(t.table_name, '_') || '_pending', t.table_schema, t.table_name
+        );
+    END LOOP;
+END $$;
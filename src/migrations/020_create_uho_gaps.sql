@@ -0,0 +1,36 @@
+-- 020: Gap tracking for the live poller
+-- Each user schema gets a _uho_gaps table listing signature ranges the poller
+-- could not cover; the backfill manager fills them and marks them 'filled'.
+-- New schemas get the table from generateMetadataTable(); this covers existing ones.
+
+DO $$
+DECLARE
+    s RECORD;
+BEGIN
+    FOR s IN
+        SELECT u.schema_name
+        FROM users u
+        JOIN information_schema.schemata sc ON sc.schema_name = u.schema_name
+    LOOP
+        EXECUTE format(
+            'CREATE TABLE IF NOT EXISTS %I._uho_gaps (
+                id                  SERIAL PRIMARY KEY,
+                program_id          TEXT NOT NULL,
+                from_slot           BIGINT,
+                to_slot             BIGINT NOT NULL,
+                before_signature    TEXT NOT NULL,
+                until_signature     TEXT NOT NULL,
+                status              TEXT NOT NULL DEFAULT ''open'',
+                attempts            INTEGER NOT NULL DEFAULT 0,
+                error               TEXT,
+                detected_at         TIMESTAMPTZ DEFAULT NOW(),
+                filled_at           TIMESTAMPTZ
+            )',
+            s.schema_name
+        );
+        EXECUTE format(
+            'CREATE INDEX IF NOT EXISTS idx_uho_gaps_unfilled ON %I._uho_gaps (program_id) WHERE status <> ''filled''',
+            s.schema_name
+        );
+    END LOOP;
+END $$;
@@ -0,0 +1,35 @@
+-- 021: Attribute events to the instruction that emitted them
+-- Event tables in user schemas get event_index (order among events from the
+-- same instruction), invoking_program and cpi_path, and their unique index is
+-- rebuilt to include event_index. Tables created from now on include these;
+-- this upgrades existing ones.
+
+DO $$
+DECLARE
+    t RECORD;
+    uq TEXT;
+BEGIN
+    FOR t IN
+        SELECT c.table_schema, c.table_name
+        FROM information_schema.columns c
+        JOIN users u ON u.schema_name = c.table_schema
+        WHERE c.column_name IN ('tx_signature', 'inner_ix_index')
+          AND c.table_name NOT LIKE '\_%'
+        GROUP BY c.table_schema, c.table_name
+        HAVING COUNT(*) = 2
+    LOOP
+        EXECUTE format(
+            'ALTER TABLE %I.%I ADD COLUMN IF NOT EXISTS event_index INTEGER NOT NULL DEFAULT 0',
+            t.table_schema, t.table_name
+        );
+        EXECUTE format('ALTER TABLE %I.%I ADD COLUMN IF NOT EXISTS invoking_program TEXT', t.table_schema, t.table_name);
+        EXECUTE format('ALTER TABLE %I.%I ADD COLUMN IF NOT EXISTS cpi_path TEXT[]', t.table_schema, t.table_name);
+
+        uq := left('uq_' || t.table_name || '_tx', 63);
+        EXECUTE format('DROP INDEX IF EXISTS %I.%I', t.table_schema, uq);
+        EXECUTE format(
+            'CREATE UNIQUE INDEX %I ON %I.%I (tx_signature, ix_index, COALESCE(inner_ix_index, -1), event_index)',
+            uq, t.table_schema, t.table_name
+        );
+    END LOOP;
+END $$;
@@ -0,0 +1,59 @@
+-- 022: IDL version history
+-- Every IDL a program has been indexed with, and the slot from which it
+-- applies. user_programs.idl stays the latest version; older ones are kept so
+-- transactions from before an upgrade are decoded with the IDL of their time.
+-- Existing programs get their current IDL as version 1, effective from slot 0.
+
+CREATE TABLE IF NOT EXISTS user_program_idl_versions (
+    id              UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_program_id UUID NOT NULL REFERENCES user_programs(id) ON DELETE CASCADE,
+    version         INTEGER NOT NULL,
+    idl             JSONB NOT NULL,
+    effective_slot  BIGINT NOT NULL DEFAULT 0,
+    created_at      TIMESTAMPTZ DEFAULT now(),
+    UNIQUE(user_program_id, version)
+);
+
+INSERT INTO user_program_idl_versions (user_program_id, version, idl, effective_slot)
+SELECT id, 1, idl, 0 FROM user_programs
+ON CONFLICT DO NOTHING;
+
+-- The indexer reads versions from the subscriptions view
+DROP MATERIALIZED VIEW IF EXISTS active_program_subscriptions;
+
+CREATE MATERIALIZED VIEW active_program_subscriptions AS
+SELECT
+    up.program_id,
+    up.chain,
+    jsonb_agg(jsonb_build_object(
+        'user_id', up.user_id,
+        'user_program_id', up.id,
+        'schema_name', u.schema_name,
+        'program_name', up.name,
+        'idl', up.idl,
+        'config', up.config,
+        'enabled_events', (
+            SELECT jsonb_agg(jsonb_build_object(
+                'event_name', upe.event_name,
+                'event_type', upe.event_type,
+                'field_config', upe.field_config
+            ))
+            FROM user_program_events upe
+            WHERE upe.user_program_id = up.id AND upe.enabled = true
+        ),
+        'idl_versions', (
+            SELECT jsonb_agg(jsonb_build_object(
+                'version', v.version,
+                'effective_slot', v.effective_slot,
+                'idl', v.idl
+            ) ORDER BY v.version)
+            FROM user_program_idl_versions v
+            WHERE v.user_program_id = up.id
+        )
+    )) AS subscribers
+FROM user_programs up
+JOIN users u ON u.id = up.user_id
+WHERE up.status IN ('running', 'provisioning')
+GROUP BY up.program_id, up.chain;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_aps_program ON active_program_subscriptions(program_id);
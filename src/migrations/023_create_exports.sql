@@ -0,0 +1,28 @@
+-- ============================================================================
+-- DATA EXPORTS
+-- Bulk export jobs: a filtered event table streamed to a file in the export
+-- store, downloadable until expires_at.
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS data_exports (
+    id              UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id         UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    program_name    TEXT NOT NULL,
+    event_name      TEXT NOT NULL,
+    format          TEXT NOT NULL CHECK (format IN ('csv', 'ndjson', 'parquet')),
+    filters         JSONB NOT NULL DEFAULT '{}',
+    status          TEXT NOT NULL DEFAULT 'pending'
+                        CHECK (status IN ('pending', 'running', 'completed', 'failed', 'expired')),
+    rows_exported   BIGINT NOT NULL DEFAULT 0,
+    total_rows      BIGINT,
+    size_bytes      BIGINT,
+    storage_key     TEXT,
+    error           TEXT,
+    created_at      TIMESTAMPTZ DEFAULT now(),
+    updated_at      TIMESTAMPTZ DEFAULT now(),
+    started_at      TIMESTAMPTZ,
+    completed_at    TIMESTAMPTZ,
+    expires_at      TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_data_exports_user ON data_exports(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_data_exports_expiry ON data_exports(expires_at) WHERE status = 'completed';
@@ -0,0 +1,48 @@
+-- 024: Address activity index
+-- Each user schema gets an _address_activity table recording which addresses
+-- every written event, instruction and token transfer involves, for the
+-- per-address activity feed. New schemas get the table from
+-- generateMetadataTable(); this covers existing ones. Rows indexed before
+-- this migration are not backfilled.
+
+DO $$
+DECLARE
+    s RECORD;
+BEGIN
+    FOR s IN
+        SELECT u.schema_name
+        FROM users u
+        JOIN information_schema.schemata sc ON sc.schema_name = u.schema_name
+    LOOP
+        EXECUTE format(
+            'CREATE TABLE IF NOT EXISTS %I._address_activity (
+                id                  BIGSERIAL PRIMARY KEY,
+                address             TEXT NOT NULL,
+                roles               TEXT[] NOT NULL,
+                kind                TEXT NOT NULL,
+                program_name        TEXT,
+                name                TEXT NOT NULL,
+                source_table        TEXT NOT NULL,
+                source_id           BIGINT NOT NULL,
+                slot                BIGINT NOT NULL,
+                block_time          TIMESTAMPTZ,
+                tx_signature        TEXT NOT NULL,
+                ix_index            INTEGER NOT NULL,
+                indexed_at          TIMESTAMPTZ DEFAULT NOW()
+            )',
+            s.schema_name
+        );
+        EXECUTE format(
+            'CREATE INDEX IF NOT EXISTS idx_address_activity_address ON %I._address_activity (address, slot, id)',
+            s.schema_name
+        );
+        EXECUTE format(
+            'CREATE INDEX IF NOT EXISTS idx_address_activity_tx ON %I._address_activity (tx_signature)',
+            s.schema_name
+        );
+        EXECUTE format(
+            'CREATE UNIQUE INDEX IF NOT EXISTS uq_address_activity_source ON %I._address_activity (source_table, source_id, address)',
+            s.schema_name
+        );
+    END LOOP;
+END $$;
@@ -0,0 +1,59 @@
+-- ============================================================================
+-- PLANS
+-- Resource limits per plan. Users without an assignment are on the default
+-- plan; 'free' carries the limits that used to be hard-coded.
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS plans (
+    id                  TEXT PRIMARY KEY CHECK (id ~ '^[a-z][a-z0-9_-]{0,31}$'),
+    name                TEXT NOT NULL,
+    programs            INTEGER NOT NULL CHECK (programs >= 0),
+    events_indexed      BIGINT NOT NULL CHECK (events_indexed >= 0),
+    api_calls_per_month BIGINT NOT NULL CHECK (api_calls_per_month >= 0),
+    ws_connections      INTEGER NOT NULL CHECK (ws_connections >= 0),
+    custom_views        INTEGER NOT NULL CHECK (custom_views >= 0),
+    webhooks            INTEGER NOT NULL CHECK (webhooks >= 0),
+    api_keys            INTEGER NOT NULL CHECK (api_keys >= 0),
+    backfill_slots      BIGINT NOT NULL CHECK (backfill_slots >= 0),
+    is_default          BOOLEAN NOT NULL DEFAULT false,
+    created_at          TIMESTAMPTZ DEFAULT now(),
+    updated_at          TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS uq_plans_default ON plans(is_default) WHERE is_default;
+
+INSERT INTO plans (id, name, programs, events_indexed, api_calls_per_month, ws_connections,
+                   custom_views, webhooks, api_keys, backfill_slots, is_default)
+VALUES ('free', 'Free', 3, 5000, 50000, 5, 3, 3, 2, 2000, true)
+ON CONFLICT (id) DO NOTHING;
+
+-- ============================================================================
+-- USER PLANS
+-- A user's plan plus per-user limit overrides ({"programs": 10, ...}).
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS user_plans (
+    user_id         UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+    plan_id         TEXT NOT NULL REFERENCES plans(id),
+    overrides       JSONB NOT NULL DEFAULT '{}',
+    assigned_by     UUID REFERENCES users(id) ON DELETE SET NULL,
+    updated_at      TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_plans_plan ON user_plans(plan_id);
+
+-- Admins manage plans and assignments through /api/v1/admin/*
+ALTER TABLE users ADD COLUMN IF NOT EXISTS is_admin BOOLEAN NOT NULL DEFAULT false;
+
+-- ============================================================================
+-- USAGE NOTIFICATIONS
+-- One row per threshold email sent, so each is sent once per period.
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS usage_notifications (
+    user_id         UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    metric          TEXT NOT NULL,
+    threshold       INTEGER NOT NULL,
+    period_start    TIMESTAMPTZ NOT NULL,
+    usage           BIGINT NOT NULL,
+    usage_limit     BIGINT NOT NULL,
+    sent_at         TIMESTAMPTZ DEFAULT now(),
+    PRIMARY KEY (user_id, metric, threshold, period_start)
+);
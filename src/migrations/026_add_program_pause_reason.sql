@@ -0,0 +1,11 @@
+-- ============================================================================
+-- PROGRAM PAUSE REASON
+-- Programs paused by the ingestion pipeline because their owner exceeded the
+-- events quota carry pause_reason 'quota' and an explanatory error; they are
+-- resumed automatically once the quota allows it. User pauses leave
+-- pause_reason NULL.
+-- ============================================================================
+ALTER TABLE user_programs ADD COLUMN IF NOT EXISTS pause_reason TEXT CHECK (pause_reason IN ('quota'));
+ALTER TABLE user_programs ADD COLUMN IF NOT EXISTS error TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_user_programs_quota_paused ON user_programs(user_id) WHERE pause_reason = 'quota';
@@ -0,0 +1,10 @@
+-- ============================================================================
+-- USAGE METRICS PROGRAM DIMENSION
+-- Buckets are kept per program so usage can be broken down by program.
+-- program_id is the Solana program ID, or '' for usage not tied to a program
+-- (API calls outside /data/:program, older buckets).
+-- ============================================================================
+ALTER TABLE usage_metrics ADD COLUMN IF NOT EXISTS program_id TEXT NOT NULL DEFAULT '';
+
+DROP INDEX IF EXISTS uq_usage_metrics;
+CREATE UNIQUE INDEX IF NOT EXISTS uq_usage_metrics ON usage_metrics(user_id, metric_type, program_id, period_start);
@@ -0,0 +1,27 @@
+-- ============================================================================
+-- WEBHOOK OUTBOX
+-- Every event matching a webhook is enqueued here when it is indexed; the
+-- delivery worker sends each webhook's rows in id order. idempotency_key
+-- identifies the event, so re-indexing a batch never enqueues it twice.
+-- Rows failing every retry become 'failed' so later rows can proceed.
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS webhook_outbox (
+    id              BIGSERIAL PRIMARY KEY,
+    webhook_id      UUID NOT NULL REFERENCES webhooks(id) ON DELETE CASCADE,
+    idempotency_key TEXT NOT NULL,
+    event_type      TEXT NOT NULL,
+    payload         JSONB NOT NULL,
+    status          TEXT NOT NULL DEFAULT 'pending'
+                        CHECK (status IN ('pending', 'delivered', 'failed')),
+    attempts        INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    -- Set while a worker is delivering the row; expired leases are retried
+    locked_until    TIMESTAMPTZ,
+    last_error      TEXT,
+    created_at      TIMESTAMPTZ DEFAULT now(),
+    delivered_at    TIMESTAMPTZ,
+    UNIQUE (webhook_id, idempotency_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_outbox_pending ON webhook_outbox(webhook_id, id) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_webhook_outbox_delivered ON webhook_outbox(delivered_at) WHERE status = 'delivered';
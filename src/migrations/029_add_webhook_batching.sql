@@ -0,0 +1,15 @@
+-- ============================================================================
+-- WEBHOOK BATCHING
+-- A webhook with batch_max_events > 1 receives its events in batches of up
+-- to that many, sent once a batch fills or its oldest event has waited
+-- batch_max_wait_ms. The default (1) sends one request per event.
+-- ============================================================================
+ALTER TABLE webhooks
+    ADD COLUMN IF NOT EXISTS batch_max_events INTEGER NOT NULL DEFAULT 1
+        CHECK (batch_max_events BETWEEN 1 AND 1000),
+    ADD COLUMN IF NOT EXISTS batch_max_wait_ms INTEGER NOT NULL DEFAULT 0
+        CHECK (batch_max_wait_ms BETWEEN 0 AND 300000);
+
+-- Delivery log pages, newest first
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook_time
+    ON webhook_deliveries(webhook_id, delivered_at DESC, id DESC);
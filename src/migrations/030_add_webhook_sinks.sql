@@ -0,0 +1,15 @@
+-- ============================================================================
+-- WEBHOOK SINKS
+-- A webhook delivers to an HTTPS url (sink_type 'http') or to a message
+-- broker described by sink_config: a Kafka topic, a NATS subject, a Redis
+-- stream or an SQS(-compatible) queue. Broker sinks have no url.
+-- ============================================================================
+ALTER TABLE webhooks
+    ADD COLUMN IF NOT EXISTS sink_type TEXT NOT NULL DEFAULT 'http'
+        CHECK (sink_type IN ('http', 'kafka', 'nats', 'redis-stream', 'sqs')),
+    ADD COLUMN IF NOT EXISTS sink_config JSONB NOT NULL DEFAULT '{}'::jsonb,
+    ALTER COLUMN url DROP NOT NULL;
+
+ALTER TABLE webhooks DROP CONSTRAINT IF EXISTS webhooks_http_sink_url_check;
+ALTER TABLE webhooks ADD CONSTRAINT webhooks_http_sink_url_check
+    CHECK (sink_type <> 'http' OR url IS NOT NULL);
@@ -0,0 +1,17 @@
+-- ============================================================================
+-- WEBHOOK PAYLOAD TEMPLATES
+-- How a webhook's payload is rendered: the standard event JSON ('default'),
+-- a JSON template ('template', kept in payload_template) or a Discord or
+-- Slack message. payload_fields limits the event data sent (NULL sends all
+-- of it); custom_headers are added to each HTTP request.
+-- ============================================================================
+ALTER TABLE webhooks
+    ADD COLUMN IF NOT EXISTS payload_format TEXT NOT NULL DEFAULT 'default'
+        CHECK (payload_format IN ('default', 'template', 'discord', 'slack')),
+    ADD COLUMN IF NOT EXISTS payload_template JSONB,
+    ADD COLUMN IF NOT EXISTS payload_fields TEXT[],
+    ADD COLUMN IF NOT EXISTS custom_headers JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+ALTER TABLE webhooks DROP CONSTRAINT IF EXISTS webhooks_payload_template_check;
+ALTER TABLE webhooks ADD CONSTRAINT webhooks_payload_template_check
+    CHECK (payload_format <> 'template' OR payload_template IS NOT NULL);
@@ -0,0 +1,12 @@
+-- ============================================================================
+-- PLAN ASSIGNMENT TIME
+-- The events quota counts from when a user's plan was assigned. updated_at
+-- also moves when only the overrides change, so the assignment time is kept
+-- separately and changes only with plan_id.
+-- ============================================================================
+ALTER TABLE user_plans ADD COLUMN IF NOT EXISTS assigned_at TIMESTAMPTZ;
+
+UPDATE user_plans SET assigned_at = updated_at WHERE assigned_at IS NULL;
+
+ALTER TABLE user_plans ALTER COLUMN assigned_at SET DEFAULT now();
+ALTER TABLE user_plans ALTER COLUMN assigned_at SET NOT NULL;
@@ -0,0 +1,18 @@
+-- 033: Drop _address_activity.program_name
+-- The column held the IDL's program name, not the user's, and went stale
+-- when a program was renamed. The activity feed resolves the user's program
+-- from source_table, so the column is dropped rather than kept in step.
+
+DO $$
+DECLARE
+    t RECORD;
+BEGIN
+    FOR t IN
+        SELECT c.table_schema
+        FROM information_schema.columns c
+        JOIN users u ON u.schema_name = c.table_schema
+        WHERE c.table_name = '_address_activity' AND c.column_name = 'program_name'
+    LOOP
+        EXECUTE format('ALTER TABLE %I._address_activity DROP COLUMN IF EXISTS program_name', t.table_schema);
+    END LOOP;
+END $$;
@@ -0,0 +1,9 @@
+-- 034: Per-program ingest secrets
+-- Push ingestion was authenticated with one deployment-wide secret, so
+-- anyone holding it could push transactions into every user's tables. Each
+-- user program now has its own secret; only its SHA-256 hash is stored.
+
+ALTER TABLE user_programs ADD COLUMN IF NOT EXISTS ingest_secret_hash TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_programs_ingest_secret
+    ON user_programs (ingest_secret_hash) WHERE ingest_secret_hash IS NOT NULL;
@@ -0,0 +1,175 @@
+/**
+ * Uho — Export File Formats
+ *
+ * Writes batches of table rows to a local file as CSV, NDJSON or Parquet.
+ * Columns come from the first query's result fields, so every format keeps
+ * the table's column order; Parquet also maps Postgres types to Parquet
+ * types. Big integers (NUMERIC) stay decimal strings, as in the API.
+ */
+
+import fs from 'fs';
+import { ParquetWriter, schemaFromColumnData, fileWriter, type BasicType } from 'hyparquet-writer';
+import type { ExportFormat } from '../core/types.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** A result column: its name and Postgres type OID */
+export interface ExportColumn {
+  name: string;
+  dataTypeID: number;
+}
+
+/** An export file being written */
+export interface ExportFileWriter {
+  write(rows: Record<string, unknown>[]): Promise<void>;
+  /** Flushes and closes the file */
+  finish(): Promise<void>;
+}
+
+/** File extension and Content-Type per format */
+export const EXPORT_FORMATS: Record<ExportFormat, { extension: string; contentType: string }> = {
+  csv: { extension: 'csv', contentType: 'text/csv; charset=utf-8' },
+  ndjson: { extension: 'ndjson', contentType: 'application/x-ndjson' },
+  parquet: { extension: 'parquet', contentType: 'application/vnd.apache.parquet' },
+};
+
+/** Postgres type OIDs with a native Parquet type; everything else is a string */
+const PARQUET_TYPES: Record<number, BasicType> = {
+  16: 'BOOLEAN',    // bool
+  20: 'INT64',      // int8
+  21: 'INT32',      // int2
+  23: 'INT32',      // int4
+  700: 'DOUBLE',    // float4
+  701: 'DOUBLE',    // float8
+  1114: 'TIMESTAMP', // timestamp
+  1184: 'TIMESTAMP', // timestamptz
+};
+
+// =============================================================================
+// Writers
+// =============================================================================
+
+/**
+ * Opens an export file for writing in the given format.
+ */
+export function openExportFile(
+  format: ExportFormat,
+  filePath: string,
+  columns: ExportColumn[]
+): ExportFileWriter {
+  switch (format) {
+    case 'csv':
+      return textWriter(filePath, csvLine(columns.map((c) => c.name)), (row) =>
+        csvLine(columns.map((c) => csvValue(row[c.name])))
+      );
+    case 'ndjson':
+      return textWriter(filePath, '', (row) => JSON.stringify(row) + '\n');
+    case 'parquet':
+      return parquetWriter(filePath, columns);
+  }
+}
+
+/**
+ * Writes one line (or record) per row to a text file, honouring backpressure.
+ */
+function textWriter(
+  filePath: string,
+  header: string,
+  formatRow: (row: Record<string, unknown>) => string
+): ExportFileWriter {
+  const stream = fs.createWriteStream(filePath);
+  const append = (chunk: string) =>
+    new Promise<void>((resolve, reject) => {
+      stream.write(chunk, (err) => (err ? reject(err) : resolve()));
+    });
+
+  // The header goes out with the first write, or on finish for an empty export
+  let headerWritten = false;
+  const takeHeader = () => {
+    const chunk = headerWritten ? '' : header;
+    headerWritten = true;
+    return chunk;
+  };
+
+  return {
+    async write(rows) {
+      if (rows.length > 0) await append(takeHeader() + rows.map(formatRow).join(''));
+    },
+    async finish() {
+      const rest = takeHeader();
+      if (rest) await append(rest);
+      await new Promise<void>((resolve, reject) => {
+        stream.once('error', reject);
+        stream.end(resolve);
+      });
+    },
+  };
+}
+
+/**
+ * Writes one Parquet row group per batch.
+ */
+function parquetWriter(filePath: string, columns: ExportColumn[]): ExportFileWriter {
+  const types = columns.map((c) => PARQUET_TYPES[c.dataTypeID] ?? 'STRING');
+  const schema = schemaFromColumnData({
+    columnData: columns.map((c, i) => ({ name: c.name, type: types[i], nullable: true, data: [] })),
+  });
+  const writer = new ParquetWriter({ writer: fileWriter(filePath), schema });
+
+  return {
+    async write(rows) {
+      if (rows.length === 0) return;
+      await writer.write({
+        columnData: columns.map((c, i) => ({
+          name: c.name,
+          type: types[i],
+          nullable: true,
+          data: rows.map((row) => parquetValue(row[c.name], types[i])),
+        })),
+        rowGroupSize: rows.length,
+      });
+    },
+    async finish() {
+      await writer.finish();
+    },
+  };
+}
+
+// =============================================================================
+// Value Conversion
+// =============================================================================
+
+/**
+ * Formats a CSV line, quoting fields that contain delimiters, quotes or newlines.
+ */
+export function csvLine(fields: string[]): string {
+  return fields.map((f) => (/[",\r\n]/.test(f) ? `"${f.replace(/"/g, '""')}"` : f)).join(',') + '\n';
+}
+
+/**
+ * Formats a value for CSV: null is empty, JSON columns are serialized.
+ */
+function csvValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function parquetValue(value: unknown, type: BasicType): unknown {
+  if (value === null || value === undefined) return null;
+  switch (type) {
+    case 'INT64':
+      return BigInt(value as string | number);
+    case 'INT32':
+    case 'DOUBLE':
+      return Number(value);
+    case 'BOOLEAN':
+    case 'TIMESTAMP':
+      return value;
+    default:
+      return typeof value === 'object' && !(value instanceof Date) ? JSON.stringify(value) : csvValue(value);
+  }
+}
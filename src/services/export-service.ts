@@ -0,0 +1,418 @@
+/**
+ * Uho — Export Service
+ *
+ * Bulk exports of indexed data. An export job streams a filtered event,
+ * instruction or account table to a CSV, NDJSON or Parquet file in id order,
+ * reporting progress as it goes, then moves the file into the export store
+ * where it can be downloaded until it expires. Jobs run in the API process,
+ * each reading over its own connection rather than one of the pool's; filters
+ * use the data routes' syntax and exported rows count against the user's API
+ * usage like the pages it would take to read them.
+ */
+
+import type pg from 'pg';
+import os from 'os';
+import path from 'path';
+import fs from 'fs';
+import type { ExportFormat, ExportRecord } from '../core/types.js';
+import { connectUserSchema } from '../core/db.js';
+import { ForbiddenError, NotFoundError, RateLimitError, ValidationError } from '../core/errors.js';
+import { resolveTable } from '../core/table-resolver.js';
+import { buildFilterClauses } from '../core/filters.js';
+import { EXPORT_FORMATS, openExportFile, type ExportFileWriter } from './export-formats.js';
+import type { ExportStorage } from './export-storage.js';
+import type { UsageService } from './usage-service.js';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Rows read per batch (and per Parquet row group) */
+const EXPORT_BATCH_SIZE = 5000;
+
+/** Rows one export may contain */
+export const MAX_EXPORT_ROWS = 10_000_000;
+
+/** Exports a user may have pending or running at once */
+const MAX_ACTIVE_EXPORTS = 2;
+
+/** Rows that count as one API call, matching the data routes' max page size */
+const ROWS_PER_API_CALL = 1000;
+
+/** How often expired files are removed */
+const SWEEP_INTERVAL_MS = 10 * 60 * 1000;
+
+/** Running jobs with no progress for this long were lost (e.g. a restart) */
+const STALE_JOB_MS = 15 * 60 * 1000;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface CreateExportInput {
+  program: string;
+  event: string;
+  format: string;
+  filters?: unknown;
+}
+
+class ExportCancelledError extends Error {}
+
+// =============================================================================
+// Export Service
+// =============================================================================
+
+export class ExportService {
+  /** Jobs running in this process, and those asked to stop */
+  private activeJobs = new Set<string>();
+  private cancelledJobs = new Set<string>();
+  private sweepTimer: ReturnType<typeof setInterval> | null = null;
+
+  /**
+   * @param connect - Opens the connection a job reads the user's schema over
+   */
+  constructor(
+    private pool: pg.Pool,
+    private storage: ExportStorage,
+    private usageService: UsageService,
+    private ttlHours: number,
+    private connect: (schemaName: string) => Promise<pg.ClientBase & { end(): Promise<void> }> =
+      (schemaName) => connectUserSchema(pool, schemaName)
+  ) {}
+
+  /**
+   * Validates an export request and starts its job.
+   */
+  async create(userId: string, schemaName: string, input: CreateExportInput): Promise<ExportRecord> {
+    if (!(input.format in EXPORT_FORMATS)) {
+      throw new ValidationError(`format must be one of: ${Object.keys(EXPORT_FORMATS).join(', ')}`);
+    }
+    const filters = parseFilters(input.filters);
+
+    // Fail fast on unknown tables and invalid filters
+    const { knownFields, numericFields } = await resolveTable(this.pool, userId, input.program, input.event);
+    buildFilterClauses(filters, { known: knownFields, numeric: numericFields });
+
+    const usage = await this.usageService.checkLimit(userId, 'api_call');
+    if (!usage.allowed) {
+      throw new ForbiddenError('Monthly API call limit reached for your tier', {
+        current: usage.current,
+        limit: usage.limit,
+      });
+    }
+
+    let record: ExportRecord;
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      // Lock the user's row so concurrent requests count active exports in turn
+      await client.query('SELECT id FROM users WHERE id = $1 FOR UPDATE', [userId]);
+      const active = await client.query(
+        `SELECT COUNT(*)::int AS count FROM data_exports WHERE user_id = $1 AND status IN ('pending', 'running')`,
+        [userId]
+      );
+      if (active.rows[0].count >= MAX_ACTIVE_EXPORTS) {
+        throw new RateLimitError(`At most ${MAX_ACTIVE_EXPORTS} exports can run at once — wait for one to finish`);
+      }
+
+      const result = await client.query(
+        `INSERT INTO data_exports (user_id, program_name, event_name, format, filters)
+         VALUES ($1, $2, $3, $4, $5)
+         RETURNING *`,
+        [userId, input.program, input.event, input.format, JSON.stringify(filters)]
+      );
+      await client.query('COMMIT');
+      record = this.mapExportRow(result.rows[0]);
+    } catch (err) {
+      await client.query('ROLLBACK').catch(() => {});
+      throw err;
+    } finally {
+      client.release();
+    }
+
+    this.run(record, schemaName).catch((err) => {
+      console.error(`[Export] Job ${record.id} crashed:`, (err as Error).message);
+    });
+    return record;
+  }
+
+  /**
+   * Gets one of a user's exports.
+   */
+  async get(userId: string, exportId: string): Promise<ExportRecord> {
+    if (!UUID_PATTERN.test(exportId)) {
+      throw new NotFoundError('Export not found');
+    }
+    const result = await this.pool.query(
+      'SELECT * FROM data_exports WHERE id = $1 AND user_id = $2',
+      [exportId, userId]
+    );
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Export not found');
+    }
+    return this.mapExportRow(result.rows[0]);
+  }
+
+  /**
+   * Lists a user's most recent exports.
+   */
+  async list(userId: string, limit: number = 50): Promise<ExportRecord[]> {
+    const result = await this.pool.query(
+      'SELECT * FROM data_exports WHERE user_id = $1 ORDER BY created_at DESC LIMIT $2',
+      [userId, limit]
+    );
+    return result.rows.map((row) => this.mapExportRow(row));
+  }
+
+  /**
+   * Cancels a running export or deletes a finished one with its file.
+   */
+  async delete(userId: string, exportId: string): Promise<void> {
+    const record = await this.get(userId, exportId);
+    this.cancelledJobs.add(record.id);
+    await this.pool.query('DELETE FROM data_exports WHERE id = $1', [record.id]);
+    if (record.storageKey) await this.storage.delete(record.storageKey);
+  }
+
+  /**
+   * Opens a completed export's file for download.
+   */
+  async download(userId: string, exportId: string) {
+    const record = await this.get(userId, exportId);
+    if (record.status === 'expired') {
+      throw new NotFoundError('Export has expired');
+    }
+    if (record.status !== 'completed' || !record.storageKey) {
+      throw new ValidationError(`Export is ${record.status}, not ready for download`);
+    }
+
+    const { extension, contentType } = EXPORT_FORMATS[record.format];
+    const filename = `${record.programName}_${record.eventName}_${record.id.slice(0, 8)}.${extension}`;
+    return { filename, contentType, ...(await this.storage.download(record.storageKey, filename)) };
+  }
+
+  /**
+   * Starts periodically removing expired files.
+   */
+  startSweeper(): void {
+    if (this.sweepTimer) return;
+    this.sweepTimer = setInterval(() => {
+      this.sweep().catch((err) => console.error('[Export] Sweep failed:', (err as Error).message));
+    }, SWEEP_INTERVAL_MS);
+    this.sweepTimer.unref();
+  }
+
+  stopSweeper(): void {
+    if (this.sweepTimer) clearInterval(this.sweepTimer);
+    this.sweepTimer = null;
+  }
+
+  /**
+   * Deletes files of expired exports and fails jobs that stopped making
+   * progress without finishing.
+   */
+  async sweep(): Promise<void> {
+    const expired = await this.pool.query(
+      `WITH due AS (
+         SELECT id, storage_key FROM data_exports
+         WHERE status = 'completed' AND expires_at < now()
+         FOR UPDATE SKIP LOCKED
+       )
+       UPDATE data_exports d SET status = 'expired', storage_key = NULL, updated_at = now()
+       FROM due WHERE d.id = due.id
+       RETURNING due.storage_key`
+    );
+    for (const row of expired.rows) {
+      if (row.storage_key) await this.storage.delete(row.storage_key as string);
+    }
+
+    await this.pool.query(
+      `UPDATE data_exports SET status = 'failed', error = 'Export was interrupted', updated_at = now()
+       WHERE status IN ('pending', 'running')
+         AND updated_at < now() - make_interval(secs => $1)
+         AND NOT (id = ANY($2::uuid[]))`,
+      [STALE_JOB_MS / 1000, [...this.activeJobs]]
+    );
+  }
+
+  // ===========================================================================
+  // Private
+  // ===========================================================================
+
+  /**
+   * Runs an export job: writes the filtered table to a temp file in batches,
+   * then moves the file into the store.
+   */
+  private async run(record: ExportRecord, schemaName: string): Promise<void> {
+    const { extension, contentType } = EXPORT_FORMATS[record.format];
+    const tempPath = path.join(os.tmpdir(), `uho-export-${record.id}.${extension}`);
+    const storageKey = `${record.userId}/${record.id}.${extension}`;
+    this.activeJobs.add(record.id);
+
+    try {
+      await this.pool.query(
+        `UPDATE data_exports SET status = 'running', started_at = now(), updated_at = now() WHERE id = $1`,
+        [record.id]
+      );
+
+      const client = await this.connect(schemaName);
+      let rowsExported: number;
+      try {
+        rowsExported = await this.writeFile(client, record, tempPath);
+      } finally {
+        await client.end();
+      }
+      const { size } = await fs.promises.stat(tempPath);
+
+      if (this.cancelledJobs.has(record.id)) throw new ExportCancelledError();
+      await this.storage.put(storageKey, tempPath, contentType);
+
+      const completed = await this.pool.query(
+        `UPDATE data_exports
+         SET status = 'completed', rows_exported = $2, size_bytes = $3, storage_key = $4,
+             completed_at = now(), expires_at = now() + make_interval(hours => $5), updated_at = now()
+         WHERE id = $1`,
+        [record.id, rowsExported, size, storageKey, this.ttlHours]
+      );
+      // Deleted while the file was being stored
+      if (completed.rowCount === 0) await this.storage.delete(storageKey);
+    } catch (err) {
+      await fs.promises.rm(tempPath, { force: true });
+      if (!(err instanceof ExportCancelledError)) {
+        await this.pool.query(
+          `UPDATE data_exports SET status = 'failed', error = $2, updated_at = now() WHERE id = $1`,
+          [record.id, (err as Error).message]
+        );
+      }
+    } finally {
+      this.activeJobs.delete(record.id);
+      this.cancelledJobs.delete(record.id);
+    }
+  }
+
+  /**
+   * Streams the matching rows to a file in id order, returning the row count.
+   */
+  private async writeFile(client: pg.ClientBase, record: ExportRecord, filePath: string): Promise<number> {
+    const { tableName, knownFields, numericFields } = await resolveTable(
+      this.pool, record.userId, record.programName, record.eventName
+    );
+    const { whereClauses, params } = buildFilterClauses(record.filters, { known: knownFields, numeric: numericFields });
+    const where = whereClauses.length > 0 ? `WHERE ${whereClauses.join(' AND ')}` : '';
+
+    const count = await client.query(`SELECT COUNT(*)::bigint AS total FROM ${tableName} ${where}`, params);
+    const totalRows = Number(count.rows[0].total);
+    if (totalRows > MAX_EXPORT_ROWS) {
+      throw new Error(`Export matches ${totalRows} rows; the maximum is ${MAX_EXPORT_ROWS} — narrow the filters`);
+    }
+    await this.checkApiCalls(record.userId, Math.ceil(totalRows / ROWS_PER_API_CALL));
+    await this.pool.query(
+      'UPDATE data_exports SET total_rows = $2, updated_at = now() WHERE id = $1',
+      [record.id, totalRows]
+    );
+
+    const cursorParam = `$${params.length + 1}`;
+    const batchSql = `SELECT * FROM ${tableName}
+      WHERE ${[...whereClauses, `"id" > ${cursorParam}`].join(' AND ')}
+      ORDER BY "id" ASC
+      LIMIT ${EXPORT_BATCH_SIZE}`;
+
+    let writer: ExportFileWriter | null = null;
+    let rowsExported = 0;
+    let lastId = '0';
+    try {
+      for (;;) {
+        if (this.cancelledJobs.has(record.id)) throw new ExportCancelledError();
+        // Other API use counts against the same allowance while the job runs
+        if (rowsExported > 0) {
+          const remaining = Math.max(totalRows - rowsExported, 1);
+          await this.checkApiCalls(record.userId, Math.ceil(Math.min(remaining, EXPORT_BATCH_SIZE) / ROWS_PER_API_CALL));
+        }
+
+        const batch = await client.query(batchSql, [...params, lastId]);
+        writer ??= openExportFile(record.format, filePath, batch.fields);
+        await writer.write(batch.rows);
+        if (batch.rows.length === 0) break;
+
+        rowsExported += batch.rows.length;
+        lastId = String(batch.rows[batch.rows.length - 1].id);
+        await this.pool.query(
+          'UPDATE data_exports SET rows_exported = $2, updated_at = now() WHERE id = $1',
+          [record.id, rowsExported]
+        );
+        await this.usageService.trackApiCall(
+          record.userId,
+          Math.ceil(batch.rows.length / ROWS_PER_API_CALL),
+          record.programName
+        );
+        if (batch.rows.length < EXPORT_BATCH_SIZE) break;
+      }
+    } finally {
+      await writer?.finish();
+    }
+    return rowsExported;
+  }
+
+  /**
+   * Fails the job unless `calls` more API calls fit in the user's monthly limit.
+   */
+  private async checkApiCalls(userId: string, calls: number): Promise<void> {
+    const usage = await this.usageService.checkLimit(userId, 'api_call');
+    if (usage.current + calls > usage.limit) {
+      throw new Error(
+        `Export needs ${calls} API call(s) but only ${Math.max(usage.limit - usage.current, 0)} remain this month`
+      );
+    }
+  }
+
+  private mapExportRow(row: Record<string, unknown>): ExportRecord {
+    const toDate = (value: unknown) => (value ? new Date(value as string) : null);
+    return {
+      id: row.id as string,
+      userId: row.user_id as string,
+      programName: row.program_name as string,
+      eventName: row.event_name as string,
+      format: row.format as ExportFormat,
+      filters: (row.filters ?? {}) as ExportRecord['filters'],
+      status: row.status as ExportRecord['status'],
+      rowsExported: Number(row.rows_exported ?? 0),
+      totalRows: row.total_rows === null || row.total_rows === undefined ? null : Number(row.total_rows),
+      sizeBytes: row.size_bytes === null || row.size_bytes === undefined ? null : Number(row.size_bytes),
+      storageKey: (row.storage_key ?? null) as string | null,
+      error: (row.error ?? null) as string | null,
+      createdAt: new Date(row.created_at as string),
+      startedAt: toDate(row.started_at),
+      completedAt: toDate(row.completed_at),
+      expiresAt: toDate(row.expires_at),
+    };
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Validates export filters: an object of param → string (or string list,
+ * for repeated params like `or`).
+ */
+function parseFilters(raw: unknown): Record<string, string | string[]> {
+  if (raw === undefined || raw === null) return {};
+  if (typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new ValidationError('filters must be an object of query parameters');
+  }
+
+  const filters: Record<string, string | string[]> = {};
+  for (const [key, value] of Object.entries(raw)) {
+    if (Array.isArray(value) && value.every((v) => typeof v === 'string')) {
+      filters[key] = value as string[];
+    } else if (['string', 'number', 'boolean'].includes(typeof value)) {
+      filters[key] = String(value);
+    } else {
+      throw new ValidationError(`Filter '${key}' must be a string, number, boolean or list of strings`);
+    }
+  }
+  return filters;
+}
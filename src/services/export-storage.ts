@@ -0,0 +1,121 @@
+/**
+ * Uho — Export Storage
+ *
+ * Where finished export files live until they expire: a local directory
+ * (served by the download route) or an S3-compatible bucket (downloaded
+ * through short-lived presigned URLs).
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { Readable } from 'stream';
+import { S3Client, PutObjectCommand, GetObjectCommand, DeleteObjectCommand } from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import type { ExportStorageConfig } from '../core/platform-config.js';
+
+/** Lifetime of presigned S3 download URLs */
+const PRESIGNED_URL_TTL_SECONDS = 300;
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** How to deliver a stored file: stream it, or redirect to a URL */
+export type ExportDownload = { stream: Readable } | { url: string };
+
+export interface ExportStorage {
+  /** Moves a finished local file into the store under `key` */
+  put(key: string, filePath: string, contentType: string): Promise<void>;
+  download(key: string, filename: string): Promise<ExportDownload>;
+  /** Removes a stored file; missing files are ignored */
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Creates the export store described by the platform config.
+ */
+export function createExportStorage(config: ExportStorageConfig): ExportStorage {
+  return config.kind === 's3' ? new S3ExportStorage(config) : new LocalExportStorage(config.directory);
+}
+
+// =============================================================================
+// Local Directory
+// =============================================================================
+
+export class LocalExportStorage implements ExportStorage {
+  constructor(private directory: string) {}
+
+  async put(key: string, filePath: string): Promise<void> {
+    const target = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(target), { recursive: true });
+    try {
+      await fs.promises.rename(filePath, target);
+    } catch (err) {
+      // Temp dir on another filesystem
+      if ((err as NodeJS.ErrnoException).code !== 'EXDEV') throw err;
+      await fs.promises.copyFile(filePath, target);
+      await fs.promises.unlink(filePath);
+    }
+  }
+
+  async download(key: string): Promise<ExportDownload> {
+    const target = this.resolve(key);
+    await fs.promises.access(target);
+    return { stream: fs.createReadStream(target) };
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.resolve(key), { force: true });
+  }
+
+  private resolve(key: string): string {
+    return path.join(path.resolve(this.directory), ...key.split('/'));
+  }
+}
+
+// =============================================================================
+// S3-Compatible Bucket
+// =============================================================================
+
+export class S3ExportStorage implements ExportStorage {
+  private client: S3Client;
+  private bucket: string;
+
+  constructor(config: Extract<ExportStorageConfig, { kind: 's3' }>) {
+    this.bucket = config.bucket;
+    this.client = new S3Client({
+      region: config.region,
+      endpoint: config.endpoint,
+      // Most S3-compatible stores only support path-style addressing
+      forcePathStyle: config.endpoint !== undefined,
+      credentials: config.accessKeyId && config.secretAccessKey
+        ? { accessKeyId: config.accessKeyId, secretAccessKey: config.secretAccessKey }
+        : undefined,
+    });
+  }
+
+  async put(key: string, filePath: string, contentType: string): Promise<void> {
+    const { size } = await fs.promises.stat(filePath);
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      Body: fs.createReadStream(filePath),
+      ContentLength: size,
+      ContentType: contentType,
+    }));
+    await fs.promises.unlink(filePath);
+  }
+
+  async download(key: string, filename: string): Promise<ExportDownload> {
+    const url = await getSignedUrl(this.client, new GetObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      ResponseContentDisposition: `attachment; filename="${filename}"`,
+    }), { expiresIn: PRESIGNED_URL_TTL_SECONDS });
+    return { url };
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+  }
+}
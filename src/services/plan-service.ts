@@ -0,0 +1,326 @@
+/**
+ * Uho — Plan Service
+ *
+ * Manages plans and per-user plan assignments. Every limit check reads a
+ * user's limits from here: their plan's limits with any per-user overrides
+ * applied, or the default plan's when they have no assignment.
+ */
+
+import type pg from 'pg';
+import type { PlanLimits, PlanRecord, UserPlan } from '../core/types.js';
+import { NotFoundError, ValidationError, ConflictError } from '../core/errors.js';
+import { FREE_TIER_LIMITS } from '../core/platform-config.js';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** plans table column of each limit */
+const LIMIT_COLUMNS: Record<keyof PlanLimits, string> = {
+  programs: 'programs',
+  eventsIndexed: 'events_indexed',
+  apiCallsPerMonth: 'api_calls_per_month',
+  wsConnections: 'ws_connections',
+  customViews: 'custom_views',
+  webhooks: 'webhooks',
+  apiKeys: 'api_keys',
+  backfillSlots: 'backfill_slots',
+};
+
+export const PLAN_LIMIT_KEYS = Object.keys(LIMIT_COLUMNS) as Array<keyof PlanLimits>;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** Used when the plans table has no default plan */
+const FALLBACK_PLAN: PlanRecord = {
+  id: 'free',
+  name: 'Free',
+  limits: {
+    programs: FREE_TIER_LIMITS.programs,
+    eventsIndexed: FREE_TIER_LIMITS.eventsIndexed,
+    apiCallsPerMonth: FREE_TIER_LIMITS.apiCallsPerMonth,
+    wsConnections: FREE_TIER_LIMITS.wsConnections,
+    customViews: FREE_TIER_LIMITS.customViews,
+    webhooks: FREE_TIER_LIMITS.webhooks,
+    apiKeys: FREE_TIER_LIMITS.apiKeys,
+    backfillSlots: FREE_TIER_LIMITS.backfillSlots,
+  },
+  isDefault: true,
+  createdAt: new Date(0),
+  updatedAt: new Date(0),
+};
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface CreatePlanInput {
+  id: string;
+  name: string;
+  limits: PlanLimits;
+  isDefault?: boolean;
+}
+
+interface UpdatePlanInput {
+  name?: string;
+  limits?: Partial<PlanLimits>;
+  isDefault?: boolean;
+}
+
+// =============================================================================
+// Plan Service
+// =============================================================================
+
+export class PlanService {
+  constructor(private pool: pg.Pool) {}
+
+  // ===========================================================================
+  // Plans
+  // ===========================================================================
+
+  /**
+   * Lists all plans, the default first.
+   */
+  async listPlans(): Promise<PlanRecord[]> {
+    const result = await this.pool.query('SELECT * FROM plans ORDER BY is_default DESC, id');
+    return result.rows.map(mapPlanRow);
+  }
+
+  /**
+   * Gets a plan by ID.
+   */
+  async getPlan(planId: string): Promise<PlanRecord> {
+    const result = await this.pool.query('SELECT * FROM plans WHERE id = $1', [planId]);
+    if (result.rows.length === 0) {
+      throw new NotFoundError(`Plan '${planId}' not found`);
+    }
+    return mapPlanRow(result.rows[0]);
+  }
+
+  /**
+   * Creates a plan. Making it the default unsets the previous default.
+   */
+  async createPlan(input: CreatePlanInput): Promise<PlanRecord> {
+    if (!/^[a-z][a-z0-9_-]{0,31}$/.test(input.id)) {
+      throw new ValidationError('Plan id must be lowercase alphanumeric with dashes or underscores, starting with a letter');
+    }
+    if (!input.name?.trim()) {
+      throw new ValidationError('Plan name is required');
+    }
+    const limits = parseLimits(input.limits, false) as PlanLimits;
+
+    const existing = await this.pool.query('SELECT id FROM plans WHERE id = $1', [input.id]);
+    if (existing.rows.length > 0) {
+      throw new ConflictError(`Plan '${input.id}' already exists`);
+    }
+
+    const columns = PLAN_LIMIT_KEYS.map((key) => LIMIT_COLUMNS[key]);
+    const values = [input.id, input.name.trim(), ...PLAN_LIMIT_KEYS.map((key) => limits[key])];
+
+    return this.inTransaction(async (client) => {
+      if (input.isDefault) {
+        await client.query('UPDATE plans SET is_default = false WHERE is_default');
+      }
+      const result = await client.query(
+        `INSERT INTO plans (id, name, ${columns.join(', ')}, is_default)
+         VALUES (${values.map((_, i) => `$${i + 1}`).join(', ')}, $${values.length + 1})
+         RETURNING *`,
+        [...values, input.isDefault === true]
+      );
+      return mapPlanRow(result.rows[0]);
+    });
+  }
+
+  /**
+   * Updates a plan's name, limits or default flag. The default plan can only
+   * change by making another plan the default.
+   */
+  async updatePlan(planId: string, input: UpdatePlanInput): Promise<PlanRecord> {
+    const plan = await this.getPlan(planId);
+    if (input.isDefault === false && plan.isDefault) {
+      throw new ValidationError('Make another plan the default instead');
+    }
+
+    const setClauses: string[] = ['updated_at = now()'];
+    const values: unknown[] = [];
+    if (input.name !== undefined) {
+      if (!input.name.trim()) throw new ValidationError('Plan name is required');
+      values.push(input.name.trim());
+      setClauses.push(`name = $${values.length}`);
+    }
+    if (input.limits !== undefined) {
+      const limits = parseLimits(input.limits, true);
+      for (const key of PLAN_LIMIT_KEYS) {
+        if (limits[key] === undefined) continue;
+        values.push(limits[key]);
+        setClauses.push(`${LIMIT_COLUMNS[key]} = $${values.length}`);
+      }
+    }
+
+    return this.inTransaction(async (client) => {
+      if (input.isDefault && !plan.isDefault) {
+        await client.query('UPDATE plans SET is_default = false WHERE is_default');
+        setClauses.push('is_default = true');
+      }
+      values.push(planId);
+      const result = await client.query(
+        `UPDATE plans SET ${setClauses.join(', ')} WHERE id = $${values.length} RETURNING *`,
+        values
+      );
+      return mapPlanRow(result.rows[0]);
+    });
+  }
+
+  // ===========================================================================
+  // Assignments
+  // ===========================================================================
+
+  /**
+   * Gets a user's plan, overrides and effective limits.
+   */
+  async getUserPlan(userId: string): Promise<UserPlan> {
+    if (!UUID_PATTERN.test(userId)) {
+      throw new NotFoundError('User not found');
+    }
+    const result = await this.pool.query(
+      `SELECT u.created_at AS user_created_at, up.overrides, up.assigned_at,
+              p.id, p.name, p.programs, p.events_indexed, p.api_calls_per_month, p.ws_connections,
+              p.custom_views, p.webhooks, p.api_keys, p.backfill_slots, p.is_default,
+              p.created_at, p.updated_at
+       FROM users u
+       LEFT JOIN user_plans up ON up.user_id = u.id
+       LEFT JOIN plans p ON p.id = COALESCE(up.plan_id, (SELECT id FROM plans WHERE is_default))
+       WHERE u.id = $1`,
+      [userId]
+    );
+    if (result.rows.length === 0) {
+      throw new NotFoundError('User not found');
+    }
+
+    const row = result.rows[0];
+    const plan = row.id ? mapPlanRow(row) : FALLBACK_PLAN;
+    const overrides = (row.overrides ?? {}) as Partial<PlanLimits>;
+    return {
+      userId,
+      plan,
+      overrides,
+      limits: applyOverrides(plan.limits, overrides),
+      assignedAt: new Date((row.assigned_at ?? row.user_created_at) as string),
+    };
+  }
+
+  /**
+   * Gets a user's effective limits.
+   */
+  async getLimits(userId: string): Promise<PlanLimits> {
+    return (await this.getUserPlan(userId)).limits;
+  }
+
+  /**
+   * Assigns a plan to a user, replacing their overrides. Reassigning the
+   * same plan keeps its assignment time, so only a change of plan starts a
+   * new events quota.
+   */
+  async assignPlan(
+    userId: string,
+    planId: string,
+    overrides: unknown,
+    assignedBy: string | null
+  ): Promise<UserPlan> {
+    const parsed = parseLimits(overrides ?? {}, true);
+    await this.getUserPlan(userId);
+    await this.getPlan(planId);
+
+    await this.pool.query(
+      `INSERT INTO user_plans (user_id, plan_id, overrides, assigned_by, assigned_at, updated_at)
+       VALUES ($1, $2, $3, $4, now(), now())
+       ON CONFLICT (user_id) DO UPDATE
+       SET plan_id = $2, overrides = $3, assigned_by = $4, updated_at = now(),
+           assigned_at = CASE WHEN user_plans.plan_id = $2 THEN user_plans.assigned_at ELSE now() END`,
+      [userId, planId, JSON.stringify(parsed), assignedBy]
+    );
+    return this.getUserPlan(userId);
+  }
+
+  // ===========================================================================
+  // Private
+  // ===========================================================================
+
+  private async inTransaction<T>(fn: (client: pg.PoolClient) => Promise<T>): Promise<T> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      const result = await fn(client);
+      await client.query('COMMIT');
+      return result;
+    } catch (err) {
+      await client.query('ROLLBACK');
+      throw err;
+    } finally {
+      client.release();
+    }
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Applies per-user overrides to a plan's limits.
+ */
+export function applyOverrides(limits: PlanLimits, overrides: Partial<PlanLimits>): PlanLimits {
+  const merged = { ...limits };
+  for (const key of PLAN_LIMIT_KEYS) {
+    const value = overrides[key];
+    if (typeof value === 'number') merged[key] = value;
+  }
+  return merged;
+}
+
+/**
+ * Validates a limits object: known keys, non-negative integer values. With
+ * `partial`, keys may be omitted (plan updates and overrides).
+ */
+export function parseLimits(raw: unknown, partial: boolean): Partial<PlanLimits> {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new ValidationError('limits must be an object');
+  }
+
+  const limits: Partial<PlanLimits> = {};
+  for (const [key, value] of Object.entries(raw)) {
+    if (!PLAN_LIMIT_KEYS.includes(key as keyof PlanLimits)) {
+      throw new ValidationError(`Unknown limit '${key}' — expected ${PLAN_LIMIT_KEYS.join(', ')}`);
+    }
+    if (!Number.isSafeInteger(value) || (value as number) < 0) {
+      throw new ValidationError(`Limit '${key}' must be a non-negative integer`);
+    }
+    limits[key as keyof PlanLimits] = value as number;
+  }
+
+  if (!partial) {
+    const missing = PLAN_LIMIT_KEYS.filter((key) => limits[key] === undefined);
+    if (missing.length > 0) {
+      throw new ValidationError(`Missing limits: ${missing.join(', ')}`);
+    }
+  }
+  return limits;
+}
+
+/**
+ * Maps a plans row to a PlanRecord.
+ */
+function mapPlanRow(row: Record<string, unknown>): PlanRecord {
+  const limits = {} as PlanLimits;
+  for (const key of PLAN_LIMIT_KEYS) {
+    limits[key] = Number(row[LIMIT_COLUMNS[key]]);
+  }
+  return {
+    id: row.id as string,
+    name: row.name as string,
+    limits,
+    isDefault: row.is_default as boolean,
+    createdAt: new Date(row.created_at as string),
+    updatedAt: new Date(row.updated_at as string),
+  };
+}
@@ -6,12 +6,23 @@
  */
 
 import type pg from 'pg';
-import type { UserProgram, UserProgramEvent, AnchorIDL } from '../core/types.js';
+import type { UserProgram, UserProgramEvent, AnchorIDL, IngestionSourceKind } from '../core/types.js';
 import { parseIDL, toSnakeCase } from '../core/idl-parser.js';
-import { generateEventTable, generateInstructionTable, generateMetadataTable, applySchema } from '../core/schema-generator.js';
-import { inUserSchema } from '../core/db.js';
+import { applyColumnLayout } from '../core/structured-columns.js';
+import { diffIdls, generateIdlUpgrade, isDestructive, type IdlDiff } from '../core/idl-diff.js';
+import {
+  validateIdlName,
+  generateEventTable,
+  generateInstructionTable,
+  generateMetadataTable,
+  generateAccountTables,
+  accountStateTableNameRaw,
+  applySchema,
+} from '../core/schema-generator.js';
+import { inUserSchema, withUserSchema } from '../core/db.js';
 import { NotFoundError, ConflictError, ForbiddenError, ValidationError } from '../core/errors.js';
-import { FREE_TIER_LIMITS } from '../core/platform-config.js';
+import { PlanService } from './plan-service.js';
+import { generateIngestSecret } from '../auth/api-keys.js';
 
 // =============================================================================
 // Types
@@ -22,14 +33,45 @@ interface AddProgramInput {
   name?: string;
   idl: Record<string, unknown>;
   chain?: string;
-  events?: Array<{ name: string; type: 'event' | 'instruction'; enabled: boolean }>;
+  events?: Array<{ name: string; type: 'event' | 'instruction' | 'account'; enabled: boolean }>;
   config?: {
     pollIntervalMs?: number;
     batchSize?: number;
     startSlot?: number;
+    accountHistory?: boolean;
+    structuredColumns?: boolean;
+    source?: IngestionSourceKind | 'webhook';
   };
 }
 
+/** Outcome of upgrading a program's IDL */
+interface IdlUpgradeResult {
+  version: number;
+  effectiveSlot: number;
+  diff: IdlDiff;
+}
+
+/** An IDL upgrade that has been checked and is ready to apply */
+interface IdlUpgradePlan {
+  idl: Record<string, unknown>;
+  next: ReturnType<typeof parseIDL>;
+  diff: IdlDiff;
+  schemaName: string | undefined;
+  ddl: string[];
+  /** The program's original IDL, when it still has to be recorded as version 1 */
+  firstVersionIdl: Record<string, unknown> | null;
+  version: number;
+  effectiveSlot: number;
+}
+
+/** A recorded IDL version of a program */
+interface IdlVersionRecord {
+  version: number;
+  effectiveSlot: number;
+  idl: Record<string, unknown>;
+  createdAt: Date;
+}
+
 interface UserProgramWithEvents extends UserProgram {
   events: Array<{
     name: string;
@@ -44,7 +86,10 @@ interface UserProgramWithEvents extends UserProgram {
 // =============================================================================
 
 export class ProgramService {
-  constructor(private pool: pg.Pool) {}
+  constructor(
+    private pool: pg.Pool,
+    private plans: PlanService = new PlanService(pool)
+  ) {}
 
   /**
    * Adds a new program for a user to index.
@@ -75,13 +120,14 @@ export class ProgramService {
       }
     }
 
-    // Check free tier limit
+    // Check plan limit
+    const { programs } = await this.plans.getLimits(userId);
     const countResult = await this.pool.query(
       `SELECT COUNT(*)::int as count FROM user_programs
        WHERE user_id = $1 AND status != 'archived'`,
       [userId]
     );
-    if (countResult.rows[0].count >= FREE_TIER_LIMITS.programs) {
+    if (countResult.rows[0].count >= programs) {
       throw new ForbiddenError('Program limit reached for your tier');
     }
 
@@ -97,6 +143,8 @@ export class ProgramService {
     const programName = input.name || parsedIdl.programName;
     const chain = input.chain || 'solana-mainnet';
     const config = input.config || {};
+    validateSource(config);
+    parsedIdl = applyColumnLayout(parsedIdl, config);
 
     // Insert user_programs record
     const result = await this.pool.query<Record<string, unknown>>(
@@ -107,10 +155,18 @@ export class ProgramService {
     );
     const program = this.mapProgramRow(result.rows[0]);
 
-    // Create user_program_events records
+    await this.pool.query(
+      `INSERT INTO user_program_idl_versions (user_program_id, version, idl, effective_slot)
+       VALUES ($1, 1, $2, 0)`,
+      [program.id, JSON.stringify(input.idl)]
+    );
+
+    // Create user_program_events records — account state tracking costs extra RPC
+    // calls per batch, so account types are opt-in
     const eventEntries = input.events || [
       ...parsedIdl.events.map((e) => ({ name: e.name, type: 'event' as const, enabled: true })),
       ...parsedIdl.instructions.map((ix) => ({ name: ix.name, type: 'instruction' as const, enabled: true })),
+      ...parsedIdl.accounts.map((acc) => ({ name: acc.name, type: 'account' as const, enabled: false })),
     ];
 
     for (const entry of eventEntries) {
@@ -228,7 +284,11 @@ export class ProgramService {
   }
 
   /**
-   * Updates a program's configuration.
+   * Updates a program's configuration. A new `idl` upgrades the program's
+   * tables in place (see planIdlUpgrade) before events are toggled, so events
+   * the new IDL adds can be enabled in the same update. Everything is checked
+   * before anything is written, and the name, config, IDL upgrade and event
+   * toggles are applied in one transaction, so a rejected update changes nothing.
    */
   async updateProgram(
     userId: string,
@@ -237,8 +297,13 @@ export class ProgramService {
       name?: string;
       events?: Array<{ name: string; type: string; enabled: boolean; fieldConfig?: Record<string, unknown> }>;
       config?: Record<string, unknown>;
+      idl?: Record<string, unknown>;
+      /** Apply column type changes, renaming the old columns aside */
+      force?: boolean;
+      /** Slot the new IDL applies from (defaults to just after the last indexed slot) */
+      effectiveSlot?: number;
     }
-  ): Promise<UserProgram> {
+  ): Promise<UserProgram & { idlUpgrade?: IdlUpgradeResult }> {
     // Verify ownership
     const existing = await this.pool.query(
       'SELECT * FROM user_programs WHERE id = $1 AND user_id = $2',
@@ -248,6 +313,32 @@ export class ProgramService {
       throw new NotFoundError('Program not found');
     }
 
+    const current = this.mapProgramRow(existing.rows[0]);
+    if (updates.config !== undefined) validateSource(updates.config);
+    let updatedProgram: UserProgram = {
+      ...current,
+      ...(updates.name !== undefined && { name: updates.name }),
+      ...(updates.config !== undefined && { config: updates.config as UserProgram['config'] }),
+    };
+
+    const plan = updates.idl !== undefined
+      ? await this.planIdlUpgrade(userId, updatedProgram, updates.idl, {
+          force: updates.force === true,
+          effectiveSlot: updates.effectiveSlot,
+        })
+      : undefined;
+    if (plan) updatedProgram = { ...updatedProgram, idl: plan.idl };
+
+    // Accounts toggled below must exist in the (new) IDL
+    const accountNames = new Set(
+      (plan?.next ?? parseIDL(updatedProgram.idl as unknown as AnchorIDL)).accounts.map((acc) => acc.name)
+    );
+    for (const event of updates.events ?? []) {
+      if (event.type === 'account' && !accountNames.has(event.name)) {
+        throw new ValidationError(`Account '${event.name}' not found in program IDL`);
+      }
+    }
+
     const setClauses: string[] = [];
     const values: unknown[] = [];
     let idx = 1;
@@ -263,41 +354,117 @@ export class ProgramService {
     setClauses.push('updated_at = now()');
     values.push(programId);
 
-    const result = await this.pool.query(
-      `UPDATE user_programs SET ${setClauses.join(', ')} WHERE id = $${idx} RETURNING *`,
-      values
-    );
+    // Tables of enabled events are created in the user's schema
+    let schemaName = plan?.schemaName;
+    if (!plan && updates.events) {
+      const userResult = await this.pool.query('SELECT schema_name FROM users WHERE id = $1', [userId]);
+      schemaName = userResult.rows[0]?.schema_name as string | undefined;
+    }
 
-    // Update events if provided
-    if (updates.events) {
-      const row = existing.rows[0];
-      const idl = typeof row.idl === 'string' ? JSON.parse(row.idl) : row.idl;
-      const parsedIdl = parseIDL(idl as unknown as AnchorIDL);
-      
-      // Get user's schema name
-      const userResult = await this.pool.query(
-        'SELECT schema_name FROM users WHERE id = $1',
-        [userId]
+    const client = schemaName ? await withUserSchema(this.pool, schemaName) : await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      const result = await client.query(
+        `UPDATE user_programs SET ${setClauses.join(', ')} WHERE id = $${idx} RETURNING *`,
+        values
       );
-      const schemaName = userResult.rows[0]?.schema_name as string;
+      updatedProgram = { ...this.mapProgramRow(result.rows[0]), ...(plan && { idl: plan.idl }) };
+      if (plan) await this.applyIdlUpgrade(client, updatedProgram, plan);
+      if (updates.events) await this.toggleEvents(client, updatedProgram, updates.events, schemaName !== undefined);
+      await client.query('COMMIT');
+    } catch (err) {
+      await client.query('ROLLBACK').catch(() => {});
+      throw err;
+    } finally {
+      client.release();
+    }
+
+    const idlUpgrade: IdlUpgradeResult | undefined = plan
+      ? { version: plan.version, effectiveSlot: plan.effectiveSlot, diff: plan.diff }
+      : undefined;
+
+    // Config changes can add tables or columns (account history tables,
+    // structured columns), so re-provision the enabled tables
+    if (updates.config !== undefined) {
+      const idl = updatedProgram.idl;
+      const parsedIdl = applyColumnLayout(parseIDL(idl as unknown as AnchorIDL), updatedProgram.config);
+      const userResult = await this.pool.query('SELECT schema_name FROM users WHERE id = $1', [userId]);
+      const schemaName = userResult.rows[0]?.schema_name as string | undefined;
+      const events = await this.pool.query<{ name: string; type: string; enabled: boolean }>(
+        `SELECT event_name AS name, event_type AS type, enabled
+         FROM user_program_events WHERE user_program_id = $1`,
+        [programId]
+      );
+      if (schemaName) {
+        await this.provisionTables(schemaName, updatedProgram, parsedIdl, events.rows);
+      }
+    }
+
+    await this.refreshActiveSubscriptions();
+    return idlUpgrade ? { ...updatedProgram, idlUpgrade } : updatedProgram;
+  }
 
-      for (const event of updates.events) {
-        // Update the enabled flag
-        await this.pool.query(
+  /**
+   * Enables or disables a program's events within the caller's transaction,
+   * creating the tables of enabled ones when the client is in the user's schema.
+   */
+  private async toggleEvents(
+    client: pg.PoolClient,
+    program: UserProgram,
+    events: Array<{ name: string; type: string; enabled: boolean; fieldConfig?: Record<string, unknown> }>,
+    createTables: boolean
+  ): Promise<void> {
+    const parsedIdl = applyColumnLayout(parseIDL(program.idl as unknown as AnchorIDL), program.config);
+
+    for (const event of events) {
+      if (event.type === 'account') {
+        // Programs added before account tracking existed have no account rows yet
+        await client.query(
+          `INSERT INTO user_program_events (user_program_id, event_name, event_type, enabled, field_config)
+           VALUES ($1, $2, 'account', $3, $4)
+           ON CONFLICT (user_program_id, event_name, event_type)
+           DO UPDATE SET enabled = EXCLUDED.enabled, field_config = EXCLUDED.field_config`,
+          [program.id, event.name, event.enabled, JSON.stringify(event.fieldConfig || {})]
+        );
+      } else {
+        await client.query(
           `UPDATE user_program_events SET enabled = $1, field_config = $2
            WHERE user_program_id = $3 AND event_name = $4 AND event_type = $5`,
-          [event.enabled, JSON.stringify(event.fieldConfig || {}), programId, event.name, event.type]
+          [event.enabled, JSON.stringify(event.fieldConfig || {}), program.id, event.name, event.type]
         );
-
-        // If enabling, ensure table exists
-        if (event.enabled && schemaName) {
-          await this.ensureEventTable(schemaName, parsedIdl, event.name, event.type);
-        }
       }
+
+      // If enabling, ensure the table exists
+      const ddl = event.enabled && createTables
+        ? this.eventTableDdl(parsedIdl, event.name, event.type, program.config.accountHistory === true)
+        : null;
+      if (ddl) await client.query(ddl);
     }
+  }
 
-    await this.refreshActiveSubscriptions();
-    return this.mapProgramRow(result.rows[0]);
+  /**
+   * Lists the IDL versions a program has been indexed with, oldest first.
+   */
+  async listIdlVersions(userId: string, programId: string): Promise<IdlVersionRecord[]> {
+    const owned = await this.pool.query(
+      'SELECT id FROM user_programs WHERE id = $1 AND user_id = $2',
+      [programId, userId]
+    );
+    if (owned.rows.length === 0) {
+      throw new NotFoundError('Program not found');
+    }
+
+    const result = await this.pool.query(
+      `SELECT version, idl, effective_slot, created_at FROM user_program_idl_versions
+       WHERE user_program_id = $1 ORDER BY version`,
+      [programId]
+    );
+    return result.rows.map((row) => ({
+      version: Number(row.version),
+      effectiveSlot: Number(row.effective_slot),
+      idl: row.idl as Record<string, unknown>,
+      createdAt: new Date(row.created_at as string),
+    }));
   }
 
   /**
@@ -362,20 +529,46 @@ export class ProgramService {
   }
 
   /**
-   * Resumes indexing for a paused program.
+   * Resumes indexing for a paused program. Programs paused for the events
+   * quota resume on their own once the quota allows it.
    */
   async resumeProgram(userId: string, programId: string): Promise<void> {
     const result = await this.pool.query(
       `UPDATE user_programs SET status = 'running', updated_at = now()
-       WHERE id = $1 AND user_id = $2 AND status = 'paused' RETURNING id`,
+       WHERE id = $1 AND user_id = $2 AND status = 'paused' AND pause_reason IS NULL RETURNING id`,
       [programId, userId]
     );
     if (result.rows.length === 0) {
+      const paused = await this.pool.query(
+        `SELECT error FROM user_programs
+         WHERE id = $1 AND user_id = $2 AND status = 'paused' AND pause_reason = 'quota'`,
+        [programId, userId]
+      );
+      if (paused.rows.length > 0) {
+        throw new ForbiddenError(paused.rows[0].error as string, { reason: 'quota' });
+      }
       throw new NotFoundError('Program not found or not paused');
     }
     await this.refreshActiveSubscriptions();
   }
 
+  /**
+   * Issues a new push ingestion secret for a program, replacing any previous
+   * one. The secret is returned once; only its hash is kept.
+   */
+  async rotateIngestSecret(userId: string, programId: string): Promise<string> {
+    const { secret, hash } = generateIngestSecret();
+    const result = await this.pool.query(
+      `UPDATE user_programs SET ingest_secret_hash = $3, updated_at = now()
+       WHERE id = $1 AND user_id = $2 AND status != 'archived' RETURNING id`,
+      [programId, userId, hash]
+    );
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Program not found');
+    }
+    return secret;
+  }
+
   /**
    * Refreshes the active_program_subscriptions materialized view.
    */
@@ -387,10 +580,188 @@ export class ProgramService {
     }
   }
 
+  /**
+   * Re-provisions the tables of every non-archived program. Table DDL is
+   * idempotent and carries its own in-place upgrades (e.g. widening u64
+   * columns), so this brings schemas created by older versions up to date.
+   * Returns the number of programs upgraded.
+   */
+  async upgradeSchemas(): Promise<number> {
+    const result = await this.pool.query<Record<string, unknown>>(
+      `SELECT up.*, u.schema_name FROM user_programs up
+       JOIN users u ON u.id = up.user_id
+       WHERE up.status != 'archived'`
+    );
+
+    let upgraded = 0;
+    for (const row of result.rows) {
+      const program = this.mapProgramRow(row);
+      try {
+        const events = await this.pool.query<{ name: string; type: string; enabled: boolean }>(
+          `SELECT event_name AS name, event_type AS type, enabled
+           FROM user_program_events WHERE user_program_id = $1`,
+          [program.id]
+        );
+        const parsedIdl = applyColumnLayout(parseIDL(program.idl as unknown as AnchorIDL), program.config);
+        await this.provisionTables(row.schema_name as string, program, parsedIdl, events.rows);
+        upgraded++;
+      } catch (err) {
+        console.warn(`[ProgramService] Schema upgrade failed for ${program.programId}: ${(err as Error).message}`);
+      }
+    }
+
+    return upgraded;
+  }
+
   // ===========================================================================
   // Private Helpers
   // ===========================================================================
 
+  /**
+   * Plans the upgrade of a program to a new IDL version: diffs it against the
+   * current one, refuses column type changes unless forced, and works out the
+   * new version, the slot it takes effect from and the DDL adding tables and
+   * columns for what it introduces. Writes nothing, so every check runs
+   * before the update changes anything.
+   */
+  private async planIdlUpgrade(
+    userId: string,
+    program: UserProgram,
+    idl: Record<string, unknown>,
+    options: { force: boolean; effectiveSlot?: number }
+  ): Promise<IdlUpgradePlan> {
+    let next;
+    try {
+      next = applyColumnLayout(parseIDL(idl as unknown as AnchorIDL), program.config);
+      validateIdlName(next.programName, 'program');
+      for (const event of next.events) validateIdlName(event.name, 'event');
+      for (const ix of next.instructions) validateIdlName(ix.name, 'instruction');
+      for (const account of next.accounts) validateIdlName(account.name, 'account');
+    } catch (err) {
+      throw new ValidationError(`Invalid IDL: ${(err as Error).message}`);
+    }
+
+    const prev = applyColumnLayout(parseIDL(program.idl as unknown as AnchorIDL), program.config);
+    if (next.programName !== prev.programName) {
+      throw new ValidationError(
+        `IDL program name changed from '${prev.programName}' to '${next.programName}'; add it as a new program instead`
+      );
+    }
+    if (next.programId && next.programId !== program.programId) {
+      throw new ValidationError(`IDL address ${next.programId} does not match program ${program.programId}`);
+    }
+
+    const diff = diffIdls(prev, next);
+    if (isDestructive(diff) && !options.force) {
+      throw new ConflictError('New IDL changes the type of existing columns; set force to apply', {
+        typeChanges: diff.typeChanges,
+      });
+    }
+
+    const userResult = await this.pool.query('SELECT schema_name FROM users WHERE id = $1', [userId]);
+    const schemaName = userResult.rows[0]?.schema_name as string | undefined;
+
+    const latest = await this.pool.query(
+      `SELECT version, effective_slot FROM user_program_idl_versions
+       WHERE user_program_id = $1 ORDER BY version DESC LIMIT 1`,
+      [program.id]
+    );
+    const prevVersion = latest.rows.length > 0 ? Number(latest.rows[0].version) : 1;
+    const prevEffectiveSlot = latest.rows.length > 0 ? Number(latest.rows[0].effective_slot) : 0;
+
+    const effectiveSlot = options.effectiveSlot ?? (schemaName ? await this.nextSlot(schemaName, program.programId) : 0);
+    if (!Number.isInteger(effectiveSlot) || effectiveSlot < prevEffectiveSlot) {
+      throw new ValidationError(
+        `effectiveSlot must be an integer no earlier than the current version's (${prevEffectiveSlot})`
+      );
+    }
+
+    return {
+      idl,
+      next,
+      diff,
+      schemaName,
+      ddl: schemaName ? generateIdlUpgrade(next.programName, diff, { force: options.force, prevVersion }) : [],
+      // Programs added before versions were tracked
+      firstVersionIdl: latest.rows.length === 0 ? program.idl : null,
+      version: prevVersion + 1,
+      effectiveSlot,
+    };
+  }
+
+  /**
+   * Applies a planned IDL upgrade within the caller's transaction: alters
+   * the tables, registers the new events and instructions, records the
+   * version and switches the program to the new IDL. Earlier versions are
+   * kept so older transactions are still decoded with their own IDL.
+   */
+  private async applyIdlUpgrade(client: pg.PoolClient, program: UserProgram, plan: IdlUpgradePlan): Promise<void> {
+    const { diff } = plan;
+
+    if (plan.firstVersionIdl) {
+      await client.query(
+        `INSERT INTO user_program_idl_versions (user_program_id, version, idl, effective_slot)
+         VALUES ($1, 1, $2, 0)`,
+        [program.id, JSON.stringify(plan.firstVersionIdl)]
+      );
+    }
+    for (const sql of plan.ddl) {
+      await client.query(sql);
+    }
+
+    // New events and instructions are indexed by default, accounts are opt-in
+    const added = [
+      ...diff.addedEvents.map((name) => ({ name, type: 'event', enabled: true })),
+      ...diff.addedInstructions.map((name) => ({ name, type: 'instruction', enabled: true })),
+      ...diff.addedAccounts.map((name) => ({ name, type: 'account', enabled: false })),
+    ];
+    for (const entry of added) {
+      await client.query(
+        `INSERT INTO user_program_events (user_program_id, event_name, event_type, enabled)
+         VALUES ($1, $2, $3, $4)
+         ON CONFLICT (user_program_id, event_name, event_type) DO NOTHING`,
+        [program.id, entry.name, entry.type, entry.enabled]
+      );
+    }
+
+    await client.query(
+      `INSERT INTO user_program_idl_versions (user_program_id, version, idl, effective_slot)
+       VALUES ($1, $2, $3, $4)`,
+      [program.id, plan.version, JSON.stringify(plan.idl), plan.effectiveSlot]
+    );
+    await client.query(
+      `UPDATE user_programs SET idl = $1, updated_at = now() WHERE id = $2`,
+      [JSON.stringify(plan.idl), program.id]
+    );
+
+    if (plan.schemaName && added.length > 0) {
+      const events = await client.query<{ name: string; type: string; enabled: boolean }>(
+        `SELECT event_name AS name, event_type AS type, enabled
+         FROM user_program_events WHERE user_program_id = $1`,
+        [program.id]
+      );
+      for (const sql of this.tableDdl(program, plan.next, events.rows)) {
+        await client.query(sql);
+      }
+    }
+  }
+
+  /**
+   * The slot after the last one indexed for a program, or 0 if none was.
+   */
+  private async nextSlot(schemaName: string, programId: string): Promise<number> {
+    try {
+      const lastSlot = await inUserSchema(this.pool, schemaName, async (client) => {
+        const res = await client.query('SELECT last_slot FROM _uho_state WHERE program_id = $1', [programId]);
+        return Number(res.rows[0]?.last_slot ?? 0);
+      });
+      return lastSlot > 0 ? lastSlot + 1 : 0;
+    } catch {
+      // Schema might not have _uho_state yet
+      return 0;
+    }
+  }
+
   /**
    * Provisions tables in a user's schema for a new program.
    */
@@ -400,6 +771,25 @@ export class ProgramService {
     parsedIdl: ReturnType<typeof parseIDL>,
     events: Array<{ name: string; type: string; enabled: boolean }>
   ): Promise<void> {
+    const ddl = this.tableDdl(program, parsedIdl, events);
+
+    // Apply DDL within the user's schema
+    await inUserSchema(this.pool, schemaName, async (client) => {
+      for (const sql of ddl) {
+        await client.query(sql);
+      }
+    });
+  }
+
+  /**
+   * The DDL creating (or upgrading) a program's metadata table and the
+   * tables of its enabled events, instructions and accounts.
+   */
+  private tableDdl(
+    program: UserProgram,
+    parsedIdl: ReturnType<typeof parseIDL>,
+    events: Array<{ name: string; type: string; enabled: boolean }>
+  ): string[] {
     const ddl: string[] = [];
 
     // Always create _uho_state
@@ -421,43 +811,40 @@ export class ProgramService {
       }
     }
 
-    // Apply DDL within the user's schema
-    await inUserSchema(this.pool, schemaName, async (client) => {
-      for (const sql of ddl) {
-        await client.query(sql);
+    // Create state (and optionally history) tables for tracked accounts
+    const enabledAccounts = new Set(events.filter((e) => e.enabled && e.type === 'account').map((e) => e.name));
+    for (const account of parsedIdl.accounts) {
+      if (enabledAccounts.has(account.name)) {
+        ddl.push(...generateAccountTables(parsedIdl.programName, account, program.config.accountHistory === true));
       }
-    });
+    }
+
+    return ddl;
   }
 
   /**
-   * Ensures a single event/instruction table exists in the user's schema.
-   * Called when enabling a previously disabled event.
+   * The DDL creating a single event/instruction/account table, or null if
+   * the IDL doesn't define it.
    */
-  private async ensureEventTable(
-    schemaName: string,
+  private eventTableDdl(
     parsedIdl: ReturnType<typeof parseIDL>,
     eventName: string,
-    eventType: string
-  ): Promise<void> {
-    let ddl: string | null = null;
-
+    eventType: string,
+    accountHistory = false
+  ): string | null {
     if (eventType === 'event') {
       const eventDef = parsedIdl.events.find((e) => e.name === eventName);
-      if (eventDef) {
-        ddl = generateEventTable(parsedIdl.programName, eventDef);
-      }
-    } else if (eventType === 'instruction') {
+      return eventDef ? generateEventTable(parsedIdl.programName, eventDef) : null;
+    }
+    if (eventType === 'instruction') {
       const ixDef = parsedIdl.instructions.find((ix) => ix.name === eventName);
-      if (ixDef) {
-        ddl = generateInstructionTable(parsedIdl.programName, ixDef);
-      }
+      return ixDef ? generateInstructionTable(parsedIdl.programName, ixDef) : null;
     }
-
-    if (ddl) {
-      await inUserSchema(this.pool, schemaName, async (client) => {
-        await client.query(ddl as string);
-      });
+    if (eventType === 'account') {
+      const accountDef = parsedIdl.accounts.find((acc) => acc.name === eventName);
+      return accountDef ? generateAccountTables(parsedIdl.programName, accountDef, accountHistory).join('\n') : null;
     }
+    return null;
   }
 
   /**
@@ -488,7 +875,9 @@ export class ProgramService {
           try {
             const tableName = evt.type === 'event'
               ? `${programName}_${toSnakeCase(evt.name)}`
-              : `${programName}_${toSnakeCase(evt.name)}_ix`;
+              : evt.type === 'account'
+                ? accountStateTableNameRaw(programName, evt.name)
+                : `${programName}_${toSnakeCase(evt.name)}_ix`;
             
             const countResult = await inUserSchema(this.pool, schemaName, async (client) => {
               const res = await client.query(`SELECT COUNT(*) as cnt FROM "${tableName}"`);
@@ -517,6 +906,8 @@ export class ProgramService {
       idl: (typeof row.idl === 'string' ? JSON.parse(row.idl as string) : row.idl) as Record<string, unknown>,
       chain: row.chain as string,
       status: row.status as UserProgram['status'],
+      pauseReason: (row.pause_reason ?? null) as UserProgram['pauseReason'],
+      error: (row.error ?? null) as string | null,
       config: (typeof row.config === 'string' ? JSON.parse(row.config as string) : row.config ?? {}) as Record<string, unknown>,
       createdAt: new Date(row.created_at as string),
       updatedAt: new Date(row.updated_at as string),
@@ -534,3 +925,13 @@ export class ProgramService {
 function isValidProgramId(id: string): boolean {
   return /^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(id);
 }
+
+/**
+ * Rejects program configs whose ingestion source isn't 'rpc', 'geyser' or 'webhook'.
+ */
+function validateSource(config: { source?: unknown }): void {
+  const sources: unknown[] = ['rpc', 'geyser', 'webhook'];
+  if (config.source !== undefined && !sources.includes(config.source)) {
+    throw new ValidationError("config.source must be 'rpc', 'geyser' or 'webhook'");
+  }
+}
@@ -1,56 +1,109 @@
 /**
  * Uho — Usage Service
  *
- * Tracks API calls, events indexed, WebSocket messages, and webhook deliveries.
- * Provides usage statistics and limit checking.
+ * Tracks API calls, events indexed, WebSocket messages, and webhook deliveries,
+ * per program where known. Provides usage statistics and history, limit
+ * checking against the user's plan, and emails users as they approach their
+ * limits.
  */
 
 import type pg from 'pg';
-import { FREE_TIER_LIMITS } from '../core/platform-config.js';
+import type { PlanService } from './plan-service.js';
+import type { UsageGranularity, UsageHistoryPoint, UsageMetricType } from '../core/types.js';
+import { ValidationError } from '../core/errors.js';
+import { sendUsageThresholdEmail } from '../auth/email.js';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Percentages of a limit at which users are emailed, once per period each */
+export const USAGE_THRESHOLDS = [80, 100];
+
+/** How often recently active users are checked against the thresholds */
+const THRESHOLD_SWEEP_INTERVAL_MS = 15 * 60 * 1000;
+
+export const USAGE_METRICS: UsageMetricType[] = ['api_call', 'event_indexed', 'ws_message', 'webhook_delivery'];
+
+export const USAGE_GRANULARITIES: UsageGranularity[] = ['hour', 'day', 'month'];
+
+/** Most buckets a usage history query may span */
+const MAX_HISTORY_BUCKETS = 1000;
+
+/** Approximate bucket length, for bounding history ranges */
+const GRANULARITY_MS: Record<UsageGranularity, number> = {
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+  month: 30 * 24 * 60 * 60 * 1000,
+};
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** A validated usage history query */
+export interface UsageHistoryQuery {
+  /** Every metric when omitted */
+  metric?: UsageMetricType;
+  granularity: UsageGranularity;
+  from: Date;
+  to: Date;
+}
 
 // =============================================================================
 // Usage Service
 // =============================================================================
 
 export class UsageService {
-  constructor(private pool: pg.Pool) {}
+  private sweepTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    private pool: pg.Pool,
+    private plans: PlanService,
+    /** Usage alerts are only recorded, not emailed, without a Resend key */
+    private resendApiKey?: string
+  ) {}
 
   /**
-   * Tracks an API call for a user in the current hour bucket.
+   * Tracks API calls for a user in the current hour bucket, attributed to
+   * their program named `programName` when given.
    */
-  async trackApiCall(userId: string): Promise<void> {
-    await this.increment(userId, 'api_call');
+  async trackApiCall(userId: string, count: number = 1, programName?: string): Promise<void> {
+    await this.increment(userId, 'api_call', count, { programName });
   }
 
   /**
-   * Tracks events indexed for a user.
+   * Tracks events indexed for a user's program.
    */
-  async trackEventIndexed(userId: string, count: number): Promise<void> {
-    await this.increment(userId, 'event_indexed', count);
+  async trackEventIndexed(userId: string, count: number, programId?: string): Promise<void> {
+    await this.increment(userId, 'event_indexed', count, { programId });
   }
 
   /**
    * Tracks a WebSocket message for a user.
    */
-  async trackWsMessage(userId: string): Promise<void> {
-    await this.increment(userId, 'ws_message');
+  async trackWsMessage(userId: string, programId?: string): Promise<void> {
+    await this.increment(userId, 'ws_message', 1, { programId });
   }
 
   /**
    * Tracks a webhook delivery for a user.
    */
-  async trackWebhookDelivery(userId: string): Promise<void> {
-    await this.increment(userId, 'webhook_delivery');
+  async trackWebhookDelivery(userId: string, programId?: string): Promise<void> {
+    await this.increment(userId, 'webhook_delivery', 1, { programId });
   }
 
   /**
-   * Gets usage statistics for a user.
+   * Gets usage statistics for a user. Events indexed count from the user's
+   * plan assignment, so assigning a plan starts a new events quota.
    */
   async getUsage(userId: string): Promise<{
     apiCalls: number;
     eventsIndexed: number;
     programs: number;
   }> {
+    const { assignedAt } = await this.plans.getUserPlan(userId);
+
     const apiResult = await this.pool.query(
       `SELECT COALESCE(SUM(count), 0)::bigint as total FROM usage_metrics
        WHERE user_id = $1 AND metric_type = 'api_call'
@@ -60,8 +113,8 @@ export class UsageService {
 
     const eventResult = await this.pool.query(
       `SELECT COALESCE(SUM(count), 0)::bigint as total FROM usage_metrics
-       WHERE user_id = $1 AND metric_type = 'event_indexed'`,
-      [userId]
+       WHERE user_id = $1 AND metric_type = 'event_indexed' AND period_end > $2`,
+      [userId, assignedAt]
     );
 
     const programResult = await this.pool.query(
@@ -78,12 +131,14 @@ export class UsageService {
   }
 
   /**
-   * Checks if a user has exceeded a specific limit.
+   * Checks if a user has exceeded a specific limit of their plan.
    */
   async checkLimit(
     userId: string,
     metric: 'api_call' | 'event_indexed' | 'programs'
   ): Promise<{ allowed: boolean; current: number; limit: number }> {
+    const { limits, assignedAt } = await this.plans.getUserPlan(userId);
+
     if (metric === 'programs') {
       const result = await this.pool.query(
         `SELECT COUNT(*)::int as count FROM user_programs
@@ -91,11 +146,7 @@ export class UsageService {
         [userId]
       );
       const current = result.rows[0].count as number;
-      return {
-        allowed: current < FREE_TIER_LIMITS.programs,
-        current,
-        limit: FREE_TIER_LIMITS.programs,
-      };
+      return { allowed: current < limits.programs, current, limit: limits.programs };
     }
 
     if (metric === 'api_call') {
@@ -106,25 +157,163 @@ export class UsageService {
         [userId]
       );
       const current = Number(result.rows[0].total);
-      return {
-        allowed: current < FREE_TIER_LIMITS.apiCallsPerMonth,
-        current,
-        limit: FREE_TIER_LIMITS.apiCallsPerMonth,
-      };
+      return { allowed: current < limits.apiCallsPerMonth, current, limit: limits.apiCallsPerMonth };
     }
 
-    // event_indexed
+    // event_indexed, since the plan was assigned
     const result = await this.pool.query(
       `SELECT COALESCE(SUM(count), 0)::bigint as total FROM usage_metrics
-       WHERE user_id = $1 AND metric_type = 'event_indexed'`,
-      [userId]
+       WHERE user_id = $1 AND metric_type = 'event_indexed' AND period_end > $2`,
+      [userId, assignedAt]
     );
     const current = Number(result.rows[0].total);
-    return {
-      allowed: current < FREE_TIER_LIMITS.eventsIndexed,
-      current,
-      limit: FREE_TIER_LIMITS.eventsIndexed,
-    };
+    return { allowed: current < limits.eventsIndexed, current, limit: limits.eventsIndexed };
+  }
+
+  // ===========================================================================
+  // History
+  // ===========================================================================
+
+  /**
+   * Gets a user's usage per metric, program and bucket over a time range,
+   * oldest bucket first. Buckets are UTC.
+   */
+  async getHistory(userId: string, query: UsageHistoryQuery): Promise<UsageHistoryPoint[]> {
+    const params: unknown[] = [userId, query.granularity, query.from, query.to];
+    let metricClause = '';
+    if (query.metric) {
+      params.push(query.metric);
+      metricClause = `AND m.metric_type = $${params.length}`;
+    }
+
+    const result = await this.pool.query(
+      `SELECT to_char(date_trunc($2, m.period_start AT TIME ZONE 'UTC'), 'YYYY-MM-DD"T"HH24:MI:SS"Z"') AS period,
+              m.metric_type, m.program_id, up.name AS program_name,
+              SUM(m.count)::bigint AS total
+       FROM usage_metrics m
+       LEFT JOIN user_programs up ON up.user_id = m.user_id AND up.program_id = m.program_id
+       WHERE m.user_id = $1 AND m.period_start >= $3 AND m.period_start < $4 ${metricClause}
+       GROUP BY 1, 2, 3, 4
+       ORDER BY 1, 2, 3`,
+      params
+    );
+
+    return result.rows.map((row) => ({
+      period: new Date(row.period as string),
+      metric: row.metric_type as UsageMetricType,
+      programId: (row.program_id as string) || null,
+      programName: (row.program_name as string | null) ?? null,
+      count: Number(row.total),
+    }));
+  }
+
+  // ===========================================================================
+  // Threshold Notifications
+  // ===========================================================================
+
+  /**
+   * Emails a user for each usage threshold of their monthly API calls and
+   * events indexed they have newly crossed. Each threshold is sent once per
+   * period: the calendar month for API calls, the plan assignment for
+   * events. Returns the notifications recorded.
+   */
+  async notifyThresholds(userId: string): Promise<Array<{ metric: string; threshold: number }>> {
+    const userPlan = await this.plans.getUserPlan(userId);
+    const usage = await this.getUsage(userId);
+
+    const checks = [
+      {
+        metric: 'api_call',
+        label: 'API calls this month',
+        usage: usage.apiCalls,
+        limit: userPlan.limits.apiCallsPerMonth,
+        periodStart: "date_trunc('month', now())",
+      },
+      {
+        metric: 'event_indexed',
+        label: 'events indexed',
+        usage: usage.eventsIndexed,
+        limit: userPlan.limits.eventsIndexed,
+        periodStart: '$6::timestamptz',
+      },
+    ];
+
+    const recorded: Array<{ metric: string; threshold: number }> = [];
+    for (const check of checks) {
+      const crossed = crossedThresholds(check.usage, check.limit);
+      if (crossed.length === 0) continue;
+
+      const newlyCrossed: number[] = [];
+      for (const threshold of crossed) {
+        const result = await this.pool.query(
+          `INSERT INTO usage_notifications (user_id, metric, threshold, period_start, usage, usage_limit)
+           VALUES ($1, $2, $3, ${check.periodStart}, $4, $5)
+           ON CONFLICT DO NOTHING
+           RETURNING threshold`,
+          check.metric === 'event_indexed'
+            ? [userId, check.metric, threshold, check.usage, check.limit, userPlan.assignedAt]
+            : [userId, check.metric, threshold, check.usage, check.limit]
+        );
+        if (result.rows.length > 0) newlyCrossed.push(threshold);
+      }
+      if (newlyCrossed.length === 0) continue;
+
+      // Users jumping past several thresholds at once get one email, for the highest
+      const threshold = Math.max(...newlyCrossed);
+      recorded.push(...newlyCrossed.map((t) => ({ metric: check.metric, threshold: t })));
+      if (!this.resendApiKey) continue;
+
+      const user = await this.pool.query('SELECT email FROM users WHERE id = $1', [userId]);
+      try {
+        await sendUsageThresholdEmail(this.resendApiKey, user.rows[0].email as string, {
+          label: check.label,
+          threshold,
+          usage: check.usage,
+          limit: check.limit,
+          planName: userPlan.plan.name,
+        });
+      } catch (err) {
+        console.error(`[Usage] Failed to send usage alert to ${userId}: ${(err as Error).message}`);
+      }
+    }
+    return recorded;
+  }
+
+  /**
+   * Starts checking recently active users against the usage thresholds.
+   */
+  startThresholdSweeper(): void {
+    if (this.sweepTimer) return;
+    this.sweepTimer = setInterval(() => {
+      this.sweepThresholds().catch((err) =>
+        console.error('[Usage] Threshold sweep failed:', (err as Error).message)
+      );
+    }, THRESHOLD_SWEEP_INTERVAL_MS);
+    this.sweepTimer.unref();
+  }
+
+  stopThresholdSweeper(): void {
+    if (this.sweepTimer) clearInterval(this.sweepTimer);
+    this.sweepTimer = null;
+  }
+
+  /**
+   * Checks every user with API calls or indexed events in the last hour
+   * bucket or two against the usage thresholds.
+   */
+  async sweepThresholds(): Promise<void> {
+    const active = await this.pool.query(
+      `SELECT DISTINCT user_id FROM usage_metrics
+       WHERE metric_type IN ('api_call', 'event_indexed')
+       AND period_start >= date_trunc('hour', now()) - interval '1 hour'`
+    );
+    for (const row of active.rows) {
+      try {
+        await this.notifyThresholds(row.user_id as string);
+      } catch (err) {
+        console.error(`[Usage] Threshold check failed for ${row.user_id}: ${(err as Error).message}`);
+      }
+    }
   }
 
   // ===========================================================================
@@ -132,24 +321,83 @@ export class UsageService {
   // ===========================================================================
 
   /**
-   * Increments a usage metric for the current hour bucket.
+   * Increments a usage metric for the current hour bucket of a program: the
+   * given program ID, or the user's program with the given name. Usage
+   * matching no program goes to the '' bucket.
    * Uses UPSERT for atomic increment.
    */
   private async increment(
     userId: string,
-    metricType: string,
-    count: number = 1
+    metricType: UsageMetricType,
+    count: number = 1,
+    program: { programId?: string; programName?: string } = {}
   ): Promise<void> {
     const periodStart = new Date();
     periodStart.setMinutes(0, 0, 0); // Truncate to hour
     const periodEnd = new Date(periodStart.getTime() + 60 * 60 * 1000);
 
     await this.pool.query(
-      `INSERT INTO usage_metrics (user_id, metric_type, count, period_start, period_end)
-       VALUES ($1, $2, $3, $4, $5)
-       ON CONFLICT (user_id, metric_type, period_start)
+      `INSERT INTO usage_metrics (user_id, metric_type, count, period_start, period_end, program_id)
+       VALUES ($1, $2, $3, $4, $5, COALESCE(
+         $6::text,
+         (SELECT program_id FROM user_programs WHERE user_id = $1 AND name = $7::text AND status != 'archived'),
+         ''
+       ))
+       ON CONFLICT (user_id, metric_type, program_id, period_start)
        DO UPDATE SET count = usage_metrics.count + $3`,
-      [userId, metricType, count, periodStart, periodEnd]
+      [userId, metricType, count, periodStart, periodEnd, program.programId ?? null, program.programName ?? null]
+    );
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Returns the usage thresholds (percent) that `usage` has reached of `limit`.
+ */
+export function crossedThresholds(usage: number, limit: number): number[] {
+  if (limit <= 0) return [];
+  return USAGE_THRESHOLDS.filter((threshold) => usage * 100 >= limit * threshold);
+}
+
+/**
+ * Validates usage history query params. Defaults to daily buckets over the
+ * last 30 days; the range is limited to MAX_HISTORY_BUCKETS buckets.
+ */
+export function parseHistoryQuery(
+  raw: { metric?: string; granularity?: string; from?: string; to?: string },
+  now: Date = new Date()
+): UsageHistoryQuery {
+  if (raw.metric !== undefined && !USAGE_METRICS.includes(raw.metric as UsageMetricType)) {
+    throw new ValidationError(`metric must be one of: ${USAGE_METRICS.join(', ')}`);
+  }
+  const granularity = (raw.granularity ?? 'day') as UsageGranularity;
+  if (!USAGE_GRANULARITIES.includes(granularity)) {
+    throw new ValidationError(`granularity must be one of: ${USAGE_GRANULARITIES.join(', ')}`);
+  }
+
+  const to = raw.to !== undefined ? parseDate(raw.to, 'to') : now;
+  const from = raw.from !== undefined
+    ? parseDate(raw.from, 'from')
+    : new Date(to.getTime() - 30 * GRANULARITY_MS.day);
+  if (from >= to) {
+    throw new ValidationError('from must be before to');
+  }
+  if ((to.getTime() - from.getTime()) / GRANULARITY_MS[granularity] > MAX_HISTORY_BUCKETS) {
+    throw new ValidationError(
+      `Range too long for ${granularity} granularity: at most ${MAX_HISTORY_BUCKETS} buckets`
     );
   }
+
+  return { metric: raw.metric as UsageMetricType | undefined, granularity, from, to };
+}
+
+function parseDate(value: string, name: string): Date {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new ValidationError(`${name} must be an ISO 8601 date`);
+  }
+  return date;
 }
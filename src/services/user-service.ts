@@ -12,7 +12,7 @@ import { hashPassword, verifyPassword, validatePasswordStrength } from '../auth/
 import { generateVerificationCode, generateResetToken, sendVerificationEmail, sendPasswordResetEmail } from '../auth/email.js';
 import { signAccessToken, generateRefreshToken, hashRefreshToken, REFRESH_TOKEN_EXPIRY_SECONDS } from '../auth/jwt.js';
 import { ConflictError, ValidationError, UnauthorizedError, NotFoundError } from '../core/errors.js';
-import { FREE_TIER_LIMITS } from '../core/platform-config.js';
+import { PlanService } from './plan-service.js';
 import crypto from 'crypto';
 
 // =============================================================================
@@ -24,7 +24,8 @@ export class UserService {
     private pool: pg.Pool,
     private jwtSecret: string,
     private jwtRefreshSecret: string,
-    private resendApiKey: string
+    private resendApiKey: string,
+    private plans: PlanService = new PlanService(pool)
   ) {}
 
   // ===========================================================================
@@ -498,6 +499,8 @@ export class UserService {
    * Gets usage statistics for a user.
    */
   async getUsageStats(userId: string): Promise<UsageStats> {
+    const { plan, limits, assignedAt } = await this.plans.getUserPlan(userId);
+
     const programCount = await this.pool.query(
       `SELECT COUNT(*)::int as count FROM user_programs WHERE user_id = $1 AND status != 'archived'`,
       [userId]
@@ -505,8 +508,8 @@ export class UserService {
 
     const eventCount = await this.pool.query(
       `SELECT COALESCE(SUM(count), 0)::bigint as total FROM usage_metrics
-       WHERE user_id = $1 AND metric_type = 'event_indexed'`,
-      [userId]
+       WHERE user_id = $1 AND metric_type = 'event_indexed' AND period_end > $2`,
+      [userId, assignedAt]
     );
 
     const apiCallCount = await this.pool.query(
@@ -517,12 +520,13 @@ export class UserService {
     );
 
     return {
+      plan: { id: plan.id, name: plan.name },
       programs: programCount.rows[0].count,
-      programLimit: FREE_TIER_LIMITS.programs,
+      programLimit: limits.programs,
       eventsIndexed: Number(eventCount.rows[0].total),
-      eventLimit: FREE_TIER_LIMITS.eventsIndexed,
+      eventLimit: limits.eventsIndexed,
       apiCalls: Number(apiCallCount.rows[0].total),
-      apiCallLimit: FREE_TIER_LIMITS.apiCallsPerMonth,
+      apiCallLimit: limits.apiCallsPerMonth,
     };
   }
 
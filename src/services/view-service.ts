@@ -8,10 +8,11 @@
 import type pg from 'pg';
 import type { UserView, ViewDefinition, ViewAggregate, AnchorIDL } from '../core/types.js';
 import { parseIDL, toSnakeCase } from '../core/idl-parser.js';
+import { applyColumnLayout } from '../core/structured-columns.js';
 import { eventTableName, instructionTableName, quoteIdent } from '../core/schema-generator.js';
 import { inUserSchema } from '../core/db.js';
 import { NotFoundError, ValidationError, ForbiddenError } from '../core/errors.js';
-import { FREE_TIER_LIMITS } from '../core/platform-config.js';
+import { PlanService } from './plan-service.js';
 
 // =============================================================================
 // Types
@@ -35,7 +36,10 @@ interface CreateViewInput {
 // =============================================================================
 
 export class ViewService {
-  constructor(private pool: pg.Pool) {}
+  constructor(
+    private pool: pg.Pool,
+    private plans: PlanService = new PlanService(pool)
+  ) {}
 
   /**
    * Creates a new custom view in the user's schema.
@@ -45,12 +49,13 @@ export class ViewService {
     schemaName: string,
     input: CreateViewInput
   ): Promise<UserView> {
-    // Check free tier limit
+    // Check plan limit
+    const { customViews } = await this.plans.getLimits(userId);
     const countResult = await this.pool.query(
       `SELECT COUNT(*)::int as count FROM user_views WHERE user_id = $1 AND status != 'disabled'`,
       [userId]
     );
-    if (countResult.rows[0].count >= FREE_TIER_LIMITS.customViews) {
+    if (countResult.rows[0].count >= customViews) {
       throw new ForbiddenError('Custom view limit reached for your tier');
     }
 
@@ -70,7 +75,7 @@ export class ViewService {
 
     // Load program info and IDL
     const programResult = await this.pool.query(
-      'SELECT idl, name FROM user_programs WHERE id = $1 AND user_id = $2',
+      'SELECT idl, name, config FROM user_programs WHERE id = $1 AND user_id = $2',
       [input.userProgramId, userId]
     );
     if (programResult.rows.length === 0) {
@@ -78,7 +83,7 @@ export class ViewService {
     }
 
     const storedIdl = programResult.rows[0].idl as Record<string, unknown>;
-    const parsedIdl = parseIDL(storedIdl as unknown as AnchorIDL);
+    const parsedIdl = applyColumnLayout(parseIDL(storedIdl as unknown as AnchorIDL), programResult.rows[0].config);
     // Use the IDL's program name for table references (tables are created using IDL name)
     const idlProgramName = parsedIdl.programName;
 
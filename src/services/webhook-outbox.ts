@@ -0,0 +1,175 @@
+/**
+ * Uho — Webhook Outbox
+ *
+ * Enqueues indexed events for every matching webhook into the webhook_outbox
+ * table at write time. Each row carries an idempotency key derived from the
+ * event, so enqueueing the same event twice (a batch re-indexed after a
+ * crash) is a no-op. Replays and manual redeliveries enqueue events again
+ * under keys scoped to the replay, keeping each event's payload id.
+ * WebhookService delivers the rows.
+ */
+
+import type pg from 'pg';
+import crypto from 'crypto';
+import { matchesFilter, parseStoredFilter, type FilterExpression } from '../core/filter-expression.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** An indexed (or retracted) event to deliver to webhooks */
+export interface OutboxEvent {
+  eventName: string;
+  slot: number;
+  txSignature: string;
+  data: Record<string, unknown>;
+  /** Where the event sits in its transaction (instruction/event index); part of its identity */
+  position?: string;
+}
+
+/** The parts of a webhook that decide which events it receives */
+interface WebhookMatch {
+  events: string[];
+  filters: FilterExpression | null;
+}
+
+/** A row to insert into the outbox */
+export interface OutboxEntry {
+  key: string;
+  eventType: string;
+  payload: Record<string, unknown>;
+}
+
+// =============================================================================
+// Webhook Outbox
+// =============================================================================
+
+export class WebhookOutbox {
+  constructor(private pool: pg.Pool) {}
+
+  /**
+   * Enqueues events a user indexed for a program to each of their active
+   * webhooks on it that match. Returns the number of rows enqueued.
+   */
+  async enqueue(
+    userId: string,
+    programId: string,
+    events: OutboxEvent[],
+    type: 'event' | 'retracted' = 'event'
+  ): Promise<number> {
+    if (events.length === 0) return 0;
+
+    const webhooks = await this.pool.query(
+      `SELECT w.id, w.events, w.filters FROM webhooks w
+       JOIN user_programs up ON up.id = w.user_program_id
+       WHERE w.user_id = $1 AND up.program_id = $2 AND w.active = true`,
+      [userId, programId]
+    );
+
+    let enqueued = 0;
+    for (const webhook of webhooks.rows) {
+      const match: WebhookMatch = {
+        events: (webhook.events ?? []) as string[],
+        filters: parseStoredFilter(webhook.filters),
+      };
+      const matching = events.filter((e) => matchesWebhook(match, e.eventName, e.data));
+      if (matching.length === 0) continue;
+
+      enqueued += await this.insert(webhook.id as string, matching.map((e) => outboxEntry(type, programId, e)));
+    }
+    return enqueued;
+  }
+
+  /**
+   * Enqueues entries for one webhook again, e.g. for a replay or a manual
+   * redelivery. Keys are scoped to replayId, so the entries are delivered
+   * again even though their events were delivered before; payloads (and
+   * their ids) are unchanged. Returns the number of rows enqueued.
+   */
+  async enqueueReplay(webhookId: string, entries: OutboxEntry[], replayId: string): Promise<number> {
+    return this.insert(webhookId, entries.map((entry) => ({ ...entry, key: replayKey(replayId, entry.key) })));
+  }
+
+  /**
+   * Inserts entries for a webhook, skipping keys it already has.
+   */
+  private async insert(webhookId: string, entries: OutboxEntry[]): Promise<number> {
+    if (entries.length === 0) return 0;
+
+    // unnest keeps the batch's order, so ids follow event order
+    const result = await this.pool.query(
+      `INSERT INTO webhook_outbox (webhook_id, idempotency_key, event_type, payload)
+       SELECT $1, k, t, p::jsonb FROM unnest($2::text[], $3::text[], $4::text[]) AS u(k, t, p)
+       ON CONFLICT (webhook_id, idempotency_key) DO NOTHING`,
+      [
+        webhookId,
+        entries.map((e) => e.key),
+        entries.map((e) => e.eventType),
+        entries.map((e) => JSON.stringify(e.payload)),
+      ]
+    );
+    return result.rowCount ?? 0;
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Checks whether an event passes a webhook's event-name list (empty = all)
+ * and filter expression.
+ */
+export function matchesWebhook(
+  webhook: WebhookMatch,
+  eventName: string,
+  data: Record<string, unknown>
+): boolean {
+  if (webhook.events.length > 0 && !webhook.events.includes(eventName)) return false;
+  return matchesFilter(webhook.filters, data);
+}
+
+/**
+ * Builds the outbox entry of an event: its idempotency key and the payload
+ * webhooks receive, whose id is derived from the key.
+ */
+export function outboxEntry(type: 'event' | 'retracted', programId: string, event: OutboxEvent): OutboxEntry {
+  const key = outboxKey(type, programId, event);
+  return {
+    key,
+    eventType: event.eventName,
+    payload: {
+      id: `evt_${key}`,
+      type,
+      event: event.eventName,
+      programId,
+      data: event.data,
+      slot: event.slot,
+      txSignature: event.txSignature,
+      timestamp: new Date().toISOString(),
+    },
+  };
+}
+
+/**
+ * Derives an event's idempotency key: the same event (and kind of
+ * notification) always gets the same key.
+ */
+export function outboxKey(type: string, programId: string, event: OutboxEvent): string {
+  const identity = [
+    type,
+    programId,
+    event.txSignature,
+    event.slot,
+    event.eventName,
+    event.position ?? JSON.stringify(event.data),
+  ].join(':');
+  return crypto.createHash('sha256').update(identity).digest('hex').slice(0, 32);
+}
+
+/**
+ * Scopes an idempotency key to a replay.
+ */
+function replayKey(replayId: string, key: string): string {
+  return crypto.createHash('sha256').update(`${replayId}:${key}`).digest('hex').slice(0, 32);
+}
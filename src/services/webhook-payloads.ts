@@ -0,0 +1,420 @@
+/**
+ * Uho — Webhook Payloads
+ *
+ * Shapes what a webhook receives. The outbox holds each event's standard
+ * payload ({ id, type, event, programId, data, slot, txSignature, timestamp });
+ * at delivery its data is cut down to the webhook's selected fields and the
+ * payload rendered in the webhook's format: as is, through a JSON template,
+ * or as a Discord or Slack message.
+ *
+ * A template is JSON whose strings may hold `{{ path }}` placeholders. A
+ * string that is a single placeholder is replaced by the value, keeping its
+ * type; placeholders inside longer strings are interpolated as text:
+ *
+ *   { "chat_id": "-100123", "amount": "{{ data.amount_in }}",
+ *     "text": "{{ event }} at slot {{ slot }}" }
+ *
+ * Paths are dotted lookups into the payload (`data.params.min_out`,
+ * `data.route.0`, optionally written `$.data…`); there are no expressions,
+ * so rendering a template cannot run code.
+ */
+
+import { ValidationError } from '../core/errors.js';
+import { resolvePath, validateFieldPath } from '../core/filter-expression.js';
+import type { ParsedEvent, ParsedField, WebhookPayloadFormat, WebhookSinkType } from '../core/types.js';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const PAYLOAD_FORMATS: WebhookPayloadFormat[] = ['default', 'template', 'discord', 'slack'];
+
+/** Top-level keys of the standard payload a template path can start at */
+const PAYLOAD_KEYS = ['id', 'type', 'event', 'programId', 'data', 'slot', 'txSignature', 'timestamp'];
+
+/** Most events one Discord or Slack message holds, which caps batch sizes */
+export const PRESET_BATCH_LIMITS: Partial<Record<WebhookPayloadFormat, number>> = { discord: 10, slack: 25 };
+
+const MAX_TEMPLATE_LENGTH = 16 * 1024;
+const MAX_TEMPLATE_DEPTH = 10;
+const MAX_FIELDS = 100;
+const MAX_HEADERS = 20;
+const MAX_HEADER_VALUE_LENGTH = 1024;
+
+/** Headers the delivery sets itself; X-Uho-* is reserved as a prefix */
+const RESERVED_HEADERS = new Set(['host', 'content-length', 'content-type', 'transfer-encoding', 'connection']);
+
+/** Header names whose values are masked when a webhook is returned */
+const SECRET_HEADER_PATTERN = /auth|token|key|secret|password|cookie|signature/i;
+
+/** Shown in place of secret header values */
+const REDACTED = '********';
+
+const HEADER_NAME_PATTERN = /^[A-Za-z0-9-]{1,64}$/;
+const PLACEHOLDER_PATTERN = /\{\{\s*([^{}]*?)\s*\}\}/g;
+const WHOLE_PLACEHOLDER_PATTERN = /^\{\{\s*([^{}]*?)\s*\}\}$/;
+const TEMPLATE_PATH_PATTERN = /^(\$\.)?[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z0-9_]+)*$/;
+const FIELD_PATH_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z_][A-Za-z0-9_]*)*$/;
+
+/** Discord's limit on the text of all embeds in one message */
+const DISCORD_TEXT_LIMIT = 6000;
+const DISCORD_MAX_FIELDS = 25;
+const DISCORD_EVENT_COLOR = 0x22d3ee;
+const DISCORD_RETRACTED_COLOR = 0xf87171;
+
+const SLACK_MAX_FIELDS = 10;
+const SLACK_FIELD_LIMIT = 2000;
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** A webhook's payload settings, as stored */
+export interface PayloadSettings {
+  format: WebhookPayloadFormat;
+  /** Set when the format is 'template' */
+  template: unknown;
+  fields: string[] | null;
+  headers: Record<string, string>;
+}
+
+/** Payload settings as given on create or update; omitted keys keep their value */
+export interface PayloadSettingsInput {
+  payloadFormat?: unknown;
+  payloadTemplate?: unknown;
+  payloadFields?: unknown;
+  customHeaders?: unknown;
+}
+
+/** What the settings are checked against */
+export interface PayloadContext {
+  sinkType: WebhookSinkType;
+  batchMaxEvents: number;
+  /** The events the webhook receives; empty skips field checks */
+  events: ParsedEvent[];
+}
+
+type EventPayload = Record<string, unknown>;
+
+export const DEFAULT_PAYLOAD_SETTINGS: PayloadSettings = { format: 'default', template: null, fields: null, headers: {} };
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+/**
+ * Validates payload settings and merges them over the current ones. Giving
+ * a template implies the 'template' format; switching to another format
+ * drops the template.
+ */
+export function parsePayloadSettings(
+  input: PayloadSettingsInput,
+  current: PayloadSettings = DEFAULT_PAYLOAD_SETTINGS
+): PayloadSettings {
+  const templateGiven = input.payloadTemplate !== undefined && input.payloadTemplate !== null;
+  const format = input.payloadFormat ?? (templateGiven ? 'template' : current.format);
+  if (!PAYLOAD_FORMATS.includes(format as WebhookPayloadFormat)) {
+    throw new ValidationError(`payloadFormat must be one of ${PAYLOAD_FORMATS.join(', ')}`);
+  }
+
+  let template: unknown = null;
+  if (format === 'template') {
+    template = input.payloadTemplate !== undefined ? input.payloadTemplate : current.template;
+    if (template === null || template === undefined) {
+      throw new ValidationError("payloadTemplate is required when payloadFormat is 'template'");
+    }
+    validateTemplate(template);
+  } else if (templateGiven) {
+    throw new ValidationError("payloadTemplate is only used when payloadFormat is 'template'");
+  }
+
+  return {
+    format: format as WebhookPayloadFormat,
+    template,
+    fields: input.payloadFields === undefined ? current.fields : parseFields(input.payloadFields),
+    headers: input.customHeaders === undefined ? current.headers : parseHeaders(input.customHeaders),
+  };
+}
+
+/**
+ * Checks payload settings against the rest of the webhook: custom headers
+ * need an HTTP sink, presets cap the batch size, and selected fields and
+ * template `data` paths must exist in the webhook's events.
+ */
+export function checkPayloadSettings(settings: PayloadSettings, context: PayloadContext): void {
+  if (Object.keys(settings.headers).length > 0 && context.sinkType !== 'http') {
+    throw new ValidationError('customHeaders are only sent by HTTP sinks');
+  }
+
+  const batchLimit = PRESET_BATCH_LIMITS[settings.format];
+  if (batchLimit && context.batchMaxEvents > batchLimit) {
+    throw new ValidationError(`batchMaxEvents can be at most ${batchLimit} with the ${settings.format} format`);
+  }
+
+  for (const field of settings.fields ?? []) {
+    validateFieldPath(field, context.events, 'Invalid payloadFields');
+  }
+  if (settings.format === 'template') {
+    for (const path of templatePaths(settings.template)) {
+      const [root, ...rest] = path.split('.');
+      if (root === 'data' && rest.length > 0) validateFieldPath(rest.join('.'), context.events, 'Invalid payloadTemplate');
+    }
+  }
+}
+
+function validateTemplate(template: unknown): void {
+  if (typeof template !== 'object' || template === null) {
+    throw new ValidationError('payloadTemplate must be a JSON object or array');
+  }
+  if (JSON.stringify(template).length > MAX_TEMPLATE_LENGTH) {
+    throw new ValidationError(`payloadTemplate must be at most ${MAX_TEMPLATE_LENGTH} characters`);
+  }
+  if (templateDepth(template) > MAX_TEMPLATE_DEPTH) {
+    throw new ValidationError(`payloadTemplate can nest at most ${MAX_TEMPLATE_DEPTH} levels deep`);
+  }
+
+  for (const path of templatePaths(template)) {
+    if (!TEMPLATE_PATH_PATTERN.test(path)) {
+      throw new ValidationError(`Invalid payloadTemplate: '{{ ${path} }}' is not a field path`, { path });
+    }
+    if (!PAYLOAD_KEYS.includes(stripRoot(path).split('.')[0])) {
+      throw new ValidationError(
+        `Invalid payloadTemplate: '${path}' must start at one of ${PAYLOAD_KEYS.join(', ')}`,
+        { path }
+      );
+    }
+  }
+}
+
+function templateDepth(node: unknown): number {
+  if (typeof node !== 'object' || node === null) return 0;
+  const children = Array.isArray(node) ? node : Object.values(node);
+  return 1 + Math.max(0, ...children.map(templateDepth));
+}
+
+/** Collects the placeholder paths of a template, without the `$.` prefix */
+function templatePaths(node: unknown): string[] {
+  if (typeof node === 'string') return [...node.matchAll(PLACEHOLDER_PATTERN)].map((m) => stripRoot(m[1]));
+  if (typeof node !== 'object' || node === null) return [];
+  return (Array.isArray(node) ? node : Object.values(node)).flatMap(templatePaths);
+}
+
+function stripRoot(path: string): string {
+  return path.startsWith('$.') ? path.slice(2) : path;
+}
+
+function parseFields(input: unknown): string[] | null {
+  if (input === null) return null;
+  if (!Array.isArray(input) || !input.every((f) => typeof f === 'string' && FIELD_PATH_PATTERN.test(f))) {
+    throw new ValidationError('payloadFields must be an array of field paths');
+  }
+  if (input.length > MAX_FIELDS) throw new ValidationError(`payloadFields can list at most ${MAX_FIELDS} fields`);
+  return input.length > 0 ? [...new Set(input as string[])] : null;
+}
+
+function parseHeaders(input: unknown): Record<string, string> {
+  if (input === null) return {};
+  if (typeof input !== 'object' || Array.isArray(input)) throw new ValidationError('customHeaders must be an object');
+
+  const entries = Object.entries(input as Record<string, unknown>);
+  if (entries.length > MAX_HEADERS) throw new ValidationError(`customHeaders can hold at most ${MAX_HEADERS} headers`);
+  for (const [name, value] of entries) {
+    if (!HEADER_NAME_PATTERN.test(name)) {
+      throw new ValidationError(`customHeaders: '${name}' is not a valid header name`);
+    }
+    const lower = name.toLowerCase();
+    if (RESERVED_HEADERS.has(lower) || lower.startsWith('x-uho-')) {
+      throw new ValidationError(`customHeaders: '${name}' is set by Uho and cannot be overridden`);
+    }
+    if (typeof value !== 'string' || value.length > MAX_HEADER_VALUE_LENGTH || /[\r\n]/.test(value)) {
+      throw new ValidationError(
+        `customHeaders: '${name}' must be a single-line string of at most ${MAX_HEADER_VALUE_LENGTH} characters`
+      );
+    }
+  }
+  return Object.fromEntries(entries) as Record<string, string>;
+}
+
+/**
+ * Masks the values of custom headers that look like credentials, for
+ * returning a webhook.
+ */
+export function redactHeaders(headers: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(headers).map(([name, value]) => [name, SECRET_HEADER_PATTERN.test(name) ? REDACTED : value])
+  );
+}
+
+// =============================================================================
+// Rendering
+// =============================================================================
+
+/**
+ * Renders a delivery's payload — a single event's, or a batch envelope with
+ * its events — in the webhook's format.
+ */
+export function shapePayload(settings: PayloadSettings, payload: EventPayload, batched: boolean): unknown {
+  const events = (batched ? (payload.events as EventPayload[]) : [payload]).map((e) => selectFields(e, settings.fields));
+
+  switch (settings.format) {
+    case 'template': {
+      const rendered = events.map((e) => renderTemplate(settings.template, e));
+      return batched ? { ...payload, events: rendered } : rendered[0];
+    }
+    case 'discord':
+      return discordMessage(events);
+    case 'slack':
+      return slackMessage(events);
+    default:
+      return batched ? { ...payload, events } : events[0];
+  }
+}
+
+/** Keeps only the selected fields of an event's data, at the paths selected */
+function selectFields(event: EventPayload, fields: string[] | null): EventPayload {
+  const data = event.data as Record<string, unknown> | undefined;
+  if (!fields || !data) return event;
+
+  const selected: Record<string, unknown> = {};
+  for (const path of fields) {
+    const value = resolvePath(data, path);
+    if (value === undefined) continue;
+    const segments = path.split('.');
+    let target = selected;
+    for (const segment of segments.slice(0, -1)) {
+      if (typeof target[segment] !== 'object' || target[segment] === null) target[segment] = {};
+      target = target[segment] as Record<string, unknown>;
+    }
+    target[segments[segments.length - 1]] = value;
+  }
+  return { ...event, data: selected };
+}
+
+function renderTemplate(node: unknown, event: EventPayload): unknown {
+  if (typeof node === 'string') {
+    const whole = WHOLE_PLACEHOLDER_PATTERN.exec(node);
+    if (whole) return resolvePath(event, stripRoot(whole[1])) ?? null;
+    return node.replace(PLACEHOLDER_PATTERN, (_, path: string) => formatValue(resolvePath(event, stripRoot(path))));
+  }
+  if (Array.isArray(node)) return node.map((child) => renderTemplate(child, event));
+  if (typeof node === 'object' && node !== null) {
+    return Object.fromEntries(Object.entries(node).map(([key, child]) => [key, renderTemplate(child, event)]));
+  }
+  return node;
+}
+
+/**
+ * A Discord message with an embed per event. Discord limits the text of all
+ * embeds together, so each embed gets an equal share and lists as many data
+ * fields as fit.
+ */
+function discordMessage(events: EventPayload[]): Record<string, unknown> {
+  const budget = Math.floor(DISCORD_TEXT_LIMIT / Math.max(events.length, 1));
+
+  return {
+    username: 'Uho',
+    embeds: events.map((event) => {
+      const title = truncate(eventTitle(event), 256);
+      const description = truncate(`Slot ${event.slot} · tx ${event.txSignature}`, 200);
+      const footer = truncate(String(event.programId ?? ''), 100);
+      let used = title.length + description.length + footer.length;
+
+      const fields: Array<{ name: string; value: string; inline: boolean }> = [];
+      for (const [key, value] of dataEntries(event.data)) {
+        const field = { name: truncate(key, 256), value: truncate(value || '—', 1024), inline: value.length <= 40 };
+        used += field.name.length + field.value.length;
+        if (fields.length === DISCORD_MAX_FIELDS || used > budget) break;
+        fields.push(field);
+      }
+
+      return {
+        title,
+        description,
+        color: event.type === 'retracted' ? DISCORD_RETRACTED_COLOR : DISCORD_EVENT_COLOR,
+        fields,
+        footer: { text: footer },
+        timestamp: event.timestamp,
+      };
+    }),
+  };
+}
+
+/** A Slack message with a section (and context line) per event */
+function slackMessage(events: EventPayload[]): Record<string, unknown> {
+  const text = events.length === 1 ? `${eventTitle(events[0])} at slot ${events[0].slot}` : `${events.length} events`;
+
+  return {
+    text,
+    blocks: events.flatMap((event) => {
+      const fields = dataEntries(event.data)
+        .slice(0, SLACK_MAX_FIELDS)
+        .map(([key, value]) => ({ type: 'mrkdwn', text: truncate(`*${escapeSlack(key)}*\n${escapeSlack(value)}`, SLACK_FIELD_LIMIT) }));
+      return [
+        {
+          type: 'section',
+          text: { type: 'mrkdwn', text: `*${escapeSlack(eventTitle(event))}* · slot ${event.slot}` },
+          ...(fields.length > 0 && { fields }),
+        },
+        {
+          type: 'context',
+          elements: [{ type: 'mrkdwn', text: `tx \`${event.txSignature}\` · program \`${event.programId}\`` }],
+        },
+      ];
+    }),
+  };
+}
+
+/** The event name, marked when the notification isn't a new event */
+function eventTitle(event: EventPayload): string {
+  return event.type === 'event' ? String(event.event) : `${event.event} (${event.type})`;
+}
+
+function dataEntries(data: unknown): Array<[string, string]> {
+  if (typeof data !== 'object' || data === null) return [];
+  return Object.entries(data).map(([key, value]) => [key, formatValue(value)]);
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function truncate(text: string, limit: number): string {
+  return text.length > limit ? `${text.slice(0, limit - 1)}…` : text;
+}
+
+function escapeSlack(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+// =============================================================================
+// Test Events
+// =============================================================================
+
+/**
+ * Builds example data for an event from its IDL fields, shaped like decoded
+ * data: 64-bit and wider integers as decimal strings, keys as base58.
+ */
+export function sampleEventData(fields: ParsedField[]): Record<string, unknown> {
+  return Object.fromEntries(fields.map((field) => [field.name, sampleValue(field.type, field)]));
+}
+
+function sampleValue(type: string, field: ParsedField): unknown {
+  const option = /^option<(.+)>$/.exec(type);
+  if (option) return sampleValue(option[1], field);
+  if (type.startsWith('vec<') || type.startsWith('array<')) return [];
+  if (type.startsWith('defined<')) {
+    if (field.fields) return sampleEventData(field.fields);
+    if (field.variants?.length) return { [field.variants[0]]: {} };
+    return null;
+  }
+  if (/^[ui](8|16|32)$/.test(type)) return 1;
+  if (/^[ui](64|128|256)$/.test(type)) return '1000000';
+  if (type === 'f32' || type === 'f64') return 1.5;
+  if (type === 'bool') return true;
+  if (type === 'string') return 'example';
+  if (type === 'pubkey' || type === 'publicKey') return '11111111111111111111111111111111';
+  if (type === 'bytes') return '\\x00';
+  return null;
+}
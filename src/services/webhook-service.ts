@@ -1,55 +1,161 @@
 /**
  * Uho — Webhook Service
  *
- * Manages webhook CRUD operations, event delivery with HMAC signing,
- * and exponential-backoff retry logic.
+ * Manages webhook CRUD operations and delivers the webhook outbox: events
+ * are sent in order per webhook, one per request or in batches, with HMAC
+ * signing, an idempotency key and exponential-backoff retries, rendered in
+ * the webhook's payload format. Also lists the delivery log, redelivers
+ * logged deliveries, replays indexed rows and sends test events.
  */
 
 import type pg from 'pg';
 import crypto from 'crypto';
-import type { WebhookRecord, PgNotifyPayload } from '../core/types.js';
+import type {
+  ParsedEvent,
+  ParsedField,
+  WebhookDeliveryRecord,
+  WebhookPayloadFormat,
+  WebhookRecord,
+  WebhookSinkConfig,
+  WebhookSinkType,
+} from '../core/types.js';
+import { inUserSchema } from '../core/db.js';
 import { NotFoundError, ValidationError, ForbiddenError } from '../core/errors.js';
-import { FREE_TIER_LIMITS } from '../core/platform-config.js';
+import {
+  filterableEvents,
+  parseFilterExpression,
+  parseStoredFilter,
+  validateFilterFields,
+  type FilterExpression,
+} from '../core/filter-expression.js';
+import { resolveTable } from '../core/table-resolver.js';
+import { rowToEventData } from '../core/structured-columns.js';
+import { PlanService } from './plan-service.js';
+import { WebhookOutbox, matchesWebhook, outboxEntry, type OutboxEntry, type OutboxEvent } from './webhook-outbox.js';
+import { WebhookSinkPool, parseSinkConfig, type SinkResult } from './webhook-sinks.js';
+import {
+  checkPayloadSettings,
+  parsePayloadSettings,
+  sampleEventData,
+  shapePayload,
+  type PayloadSettings,
+} from './webhook-payloads.js';
 
 // =============================================================================
 // Constants
 // =============================================================================
 
-/** Retry delays in milliseconds: immediate, 30s, 2min, 10min, 1hr */
-const RETRY_DELAYS = [0, 30_000, 120_000, 600_000, 3_600_000];
+/** Delay before each retry in milliseconds: 30s, 2min, 10min, 1hr (5 attempts in all) */
+const RETRY_DELAYS = [30_000, 120_000, 600_000, 3_600_000];
 
-/** HTTP timeout for webhook delivery attempts */
-const DELIVERY_TIMEOUT_MS = 10_000;
+/** Webhooks sent to per delivery pass (one request each) */
+const WEBHOOKS_PER_PASS = 50;
+
+/** Bounds of a webhook's batch settings */
+const MAX_BATCH_EVENTS = 1000;
+const MAX_BATCH_WAIT_MS = 300_000;
+
+/** How long claimed rows are reserved; rows of a crashed worker are retried after it */
+const DELIVERY_LEASE_MS = 60_000;
+
+/** Delay between delivery passes when idle (new events also wake the worker) */
+const DELIVERY_POLL_INTERVAL_MS = 2_000;
+
+/** Delivered outbox rows are kept this long */
+const OUTBOX_RETENTION_DAYS = 7;
+
+const OUTBOX_PRUNE_INTERVAL_MS = 60 * 60 * 1000;
 
 /** Auto-disable webhook after this many consecutive failures */
 const MAX_FAILURE_COUNT = 10;
 
+/** Rows one replay may enqueue */
+export const REPLAY_MAX_EVENTS = 50_000;
+
+/** Rows read per replay query */
+const REPLAY_BATCH_SIZE = 5000;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
 // =============================================================================
 // Types
 // =============================================================================
 
 interface CreateWebhookInput {
   userProgramId: string;
-  url: string;
+  /** Endpoint of an HTTP sink */
+  url?: string;
+  /** Where to deliver; an HTTP sink at `url` when omitted */
+  sink?: Record<string, unknown>;
   events?: string[];
-  filters?: Record<string, unknown>;
+  /** A filter expression string or tree, or a `{ field: value }` map */
+  filters?: string | Record<string, unknown> | null;
+  batchMaxEvents?: number;
+  batchMaxWaitMs?: number;
+  payloadFormat?: WebhookPayloadFormat;
+  /** JSON template with `{{ path }}` placeholders */
+  payloadTemplate?: unknown;
+  /** Data fields to send; null or omitted sends all of them */
+  payloadFields?: string[] | null;
+  customHeaders?: Record<string, string> | null;
 }
 
 interface UpdateWebhookInput {
   url?: string;
+  sink?: Record<string, unknown>;
   events?: string[];
-  filters?: Record<string, unknown>;
+  filters?: string | Record<string, unknown> | null;
   active?: boolean;
+  batchMaxEvents?: number;
+  batchMaxWaitMs?: number;
+  payloadFormat?: WebhookPayloadFormat;
+  payloadTemplate?: unknown;
+  payloadFields?: string[] | null;
+  customHeaders?: Record<string, string> | null;
+}
+
+interface TestEventInput {
+  /** Defaults to the first event the webhook receives */
+  eventName?: string;
+  /** Defaults to example data built from the event's IDL fields */
+  data?: Record<string, unknown>;
 }
 
-/** An indexed event ready for webhook delivery */
-export interface IndexedEventForDelivery {
-  programId: string;
-  eventName: string;
-  slot: number;
-  txSignature: string;
-  data: Record<string, unknown>;
-  subscribers: string[];
+/** The outcome of a test event */
+export interface TestDeliveryResult {
+  success: boolean;
+  responseStatus: number | null;
+  responseBody: string | null;
+  /** The payload as sent */
+  payload: unknown;
+}
+
+interface DeliveryListQuery {
+  webhookId?: string;
+  success?: boolean;
+  limit: number;
+  offset: number;
+}
+
+/** Where and how a webhook's deliveries are sent */
+interface DeliveryTarget {
+  webhookId: string;
+  sink: WebhookSinkConfig;
+  secret: string;
+  batched: boolean;
+  shape: PayloadSettings;
+}
+
+/** Outbox rows claimed for one request to a webhook */
+interface ClaimedBatch extends DeliveryTarget {
+  rows: Array<{ id: string; eventType: string; payload: Record<string, unknown>; attempts: number }>;
+}
+
+/** What is sent for a claimed batch */
+export interface DeliveryPayload {
+  eventType: string;
+  payload: Record<string, unknown>;
+  idempotencyKey: string;
 }
 
 // =============================================================================
@@ -57,7 +163,18 @@ export interface IndexedEventForDelivery {
 // =============================================================================
 
 export class WebhookService {
-  constructor(private pool: pg.Pool) {}
+  private workerRunning = false;
+  private workerTimer: ReturnType<typeof setTimeout> | null = null;
+  /** A delivery pass is in progress */
+  private delivering = false;
+  private lastPruneAt = 0;
+
+  constructor(
+    private pool: pg.Pool,
+    private plans: PlanService = new PlanService(pool),
+    private outbox: WebhookOutbox = new WebhookOutbox(pool),
+    private sinks: WebhookSinkPool = new WebhookSinkPool()
+  ) {}
 
   // ===========================================================================
   // CRUD Operations
@@ -68,43 +185,52 @@ export class WebhookService {
    * Returns the full record including the HMAC signing secret (shown once).
    */
   async create(userId: string, input: CreateWebhookInput): Promise<WebhookRecord> {
-    // Check free tier limit
+    // Check plan limit
+    const { webhooks } = await this.plans.getLimits(userId);
     const countResult = await this.pool.query(
       `SELECT COUNT(*)::int as count FROM webhooks WHERE user_id = $1 AND active = true`,
       [userId]
     );
-    if (countResult.rows[0].count >= FREE_TIER_LIMITS.webhooks) {
+    if (countResult.rows[0].count >= webhooks) {
       throw new ForbiddenError('Webhook limit reached for your tier');
     }
 
-    // Validate URL
-    if (!this.isValidWebhookUrl(input.url)) {
-      throw new ValidationError('Webhook URL must be a valid HTTPS URL');
-    }
+    const sink = parseSinkConfig(input.sink, input.url);
+    validateBatchSettings(input);
 
     // Validate program ownership
     const programResult = await this.pool.query(
-      'SELECT id FROM user_programs WHERE id = $1 AND user_id = $2',
+      'SELECT id, idl FROM user_programs WHERE id = $1 AND user_id = $2',
       [input.userProgramId, userId]
     );
     if (programResult.rows.length === 0) {
       throw new NotFoundError('Program not found');
     }
 
+    const idlEvents = filterableEvents([programResult.rows[0].idl], input.events ?? []);
+    const filters = parseWebhookFilter(input.filters, idlEvents);
+    const shape = parsePayloadSettings(input);
+    checkPayloadSettings(shape, { sinkType: sink.type, batchMaxEvents: input.batchMaxEvents ?? 1, events: idlEvents });
+
     // Generate HMAC signing secret
     const secret = crypto.randomBytes(32).toString('hex');
 
     const result = await this.pool.query<Record<string, unknown>>(
-      `INSERT INTO webhooks (user_id, user_program_id, url, secret, events, filters, active)
-       VALUES ($1, $2, $3, $4, $5, $6, true)
+      `INSERT INTO webhooks (user_id, user_program_id, url, sink_type, sink_config, secret, events, filters, active,
+                             batch_max_events, batch_max_wait_ms, payload_format, payload_template, payload_fields,
+                             custom_headers)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, true, $9, $10, $11, $12, $13, $14)
        RETURNING *`,
       [
         userId,
         input.userProgramId,
-        input.url,
+        ...sinkColumns(sink),
         secret,
         input.events ?? [],
-        JSON.stringify(input.filters ?? {}),
+        JSON.stringify(filters ?? {}),
+        input.batchMaxEvents ?? 1,
+        input.batchMaxWaitMs ?? 0,
+        ...payloadColumns(shape),
       ]
     );
 
@@ -128,23 +254,57 @@ export class WebhookService {
   async update(userId: string, webhookId: string, updates: UpdateWebhookInput): Promise<WebhookRecord> {
     // Verify ownership
     const existing = await this.pool.query(
-      'SELECT id FROM webhooks WHERE id = $1 AND user_id = $2',
+      `SELECT w.events, w.filters, w.sink_type, w.batch_max_events, w.payload_format, w.payload_template,
+              w.payload_fields, w.custom_headers, up.idl
+       FROM webhooks w
+       JOIN user_programs up ON up.id = w.user_program_id
+       WHERE w.id = $1 AND w.user_id = $2`,
       [webhookId, userId]
     );
     if (existing.rows.length === 0) {
       throw new NotFoundError('Webhook not found');
     }
 
+    validateBatchSettings(updates);
+    const row = existing.rows[0];
+    const idlEvents = (): ParsedEvent[] =>
+      filterableEvents([row.idl], updates.events ?? (row.events as string[] | null) ?? []);
+
+    let sink: WebhookSinkConfig | null = null;
+    if (updates.sink !== undefined || updates.url !== undefined) {
+      // A URL alone changes the endpoint of an HTTP sink
+      if (updates.sink === undefined && row.sink_type !== 'http') {
+        throw new ValidationError('url only applies to HTTP sinks; set sink to change a broker sink');
+      }
+      sink = parseSinkConfig(updates.sink ?? { type: 'http' }, updates.url);
+    }
+
+    // A new filter, or a new event list, must fit the events' fields
+    let filters: FilterExpression | null = null;
+    if (updates.filters !== undefined || updates.events !== undefined) {
+      filters = parseWebhookFilter(updates.filters !== undefined ? updates.filters : row.filters, idlEvents());
+    }
+
+    // Payload settings are merged over the current ones and checked again
+    // whenever something they depend on changes
+    const payloadChanged = [updates.payloadFormat, updates.payloadTemplate, updates.payloadFields, updates.customHeaders]
+      .some((value) => value !== undefined);
+    const shape = parsePayloadSettings(updates, payloadFromRow(row));
+    if (payloadChanged || sink || updates.events !== undefined || updates.batchMaxEvents !== undefined) {
+      checkPayloadSettings(shape, {
+        sinkType: sink?.type ?? (row.sink_type as WebhookSinkType),
+        batchMaxEvents: updates.batchMaxEvents ?? (row.batch_max_events as number),
+        events: idlEvents(),
+      });
+    }
+
     const setClauses: string[] = [];
     const values: unknown[] = [];
     let idx = 1;
 
-    if (updates.url !== undefined) {
-      if (!this.isValidWebhookUrl(updates.url)) {
-        throw new ValidationError('Webhook URL must be a valid HTTPS URL');
-      }
-      setClauses.push(`url = $${idx++}`);
-      values.push(updates.url);
+    if (sink) {
+      setClauses.push(`url = $${idx++}`, `sink_type = $${idx++}`, `sink_config = $${idx++}`);
+      values.push(...sinkColumns(sink));
     }
     if (updates.events !== undefined) {
       setClauses.push(`events = $${idx++}`);
@@ -152,7 +312,24 @@ export class WebhookService {
     }
     if (updates.filters !== undefined) {
       setClauses.push(`filters = $${idx++}`);
-      values.push(JSON.stringify(updates.filters));
+      values.push(JSON.stringify(filters ?? {}));
+    }
+    if (updates.batchMaxEvents !== undefined) {
+      setClauses.push(`batch_max_events = $${idx++}`);
+      values.push(updates.batchMaxEvents);
+    }
+    if (updates.batchMaxWaitMs !== undefined) {
+      setClauses.push(`batch_max_wait_ms = $${idx++}`);
+      values.push(updates.batchMaxWaitMs);
+    }
+    if (payloadChanged) {
+      setClauses.push(
+        `payload_format = $${idx++}`,
+        `payload_template = $${idx++}`,
+        `payload_fields = $${idx++}`,
+        `custom_headers = $${idx++}`
+      );
+      values.push(...payloadColumns(shape));
     }
     if (updates.active !== undefined) {
       setClauses.push(`active = $${idx++}`);
@@ -187,169 +364,508 @@ export class WebhookService {
   }
 
   // ===========================================================================
-  // Event Delivery
+  // Outbox Delivery
   // ===========================================================================
 
   /**
-   * Delivers an indexed event to all matching webhooks.
-   * Called from the PG LISTEN handler.
+   * Starts the outbox delivery worker. Pending rows left by a previous
+   * process (including ones it was delivering) are picked up on start.
    */
-  async deliverEvent(event: IndexedEventForDelivery): Promise<void> {
-    // Load all active webhooks for subscribers of this program
-    const result = await this.pool.query<Record<string, unknown>>(
-      `SELECT w.* FROM webhooks w
-       JOIN user_programs up ON up.id = w.user_program_id
-       WHERE up.program_id = $1
-         AND w.active = true
-         AND w.user_id = ANY($2)`,
-      [event.programId, event.subscribers]
-    );
+  startDeliveryWorker(): void {
+    if (this.workerRunning) return;
+    this.workerRunning = true;
+    this.scheduleDelivery(0);
+  }
 
-    for (const row of result.rows) {
-      const webhook = this.mapWebhookRow(row);
+  stopDeliveryWorker(): void {
+    this.workerRunning = false;
+    if (this.workerTimer) clearTimeout(this.workerTimer);
+    this.workerTimer = null;
+    void this.sinks.closeAll();
+  }
 
-      // Check event name filter
-      if (webhook.events.length > 0 && !webhook.events.includes(event.eventName)) {
-        continue;
-      }
+  /**
+   * Runs a delivery pass soon, e.g. when new events were indexed.
+   */
+  wakeDeliveryWorker(): void {
+    if (this.workerRunning && !this.delivering) this.scheduleDelivery(0);
+  }
 
-      // Check field filters
-      if (!this.matchesFilters(event.data, webhook.filters)) {
-        continue;
-      }
+  /**
+   * Sends each due webhook its oldest pending rows: one row, or up to
+   * batch_max_events for batching webhooks. A webhook has one request in
+   * flight at a time so it receives its events in order, and a failing
+   * request holds back its later rows until it is delivered or gives up.
+   * Returns the number of requests made.
+   */
+  async deliverPending(limit: number = WEBHOOKS_PER_PASS): Promise<number> {
+    const batches = await this.claimDue(limit);
+    await Promise.all(batches.map((batch) => this.deliverBatch(batch)));
+    return batches.length;
+  }
 
-      // Deliver asynchronously (don't block other deliveries)
-      this.deliverToWebhook(webhook, event).catch((err) => {
-        console.error(`[WebhookService] Delivery error for webhook ${webhook.id}: ${(err as Error).message}`);
-      });
+  /**
+   * Deletes delivered outbox rows past the retention period.
+   */
+  async pruneOutbox(): Promise<number> {
+    const result = await this.pool.query(
+      `DELETE FROM webhook_outbox
+       WHERE status = 'delivered' AND delivered_at < now() - $1::interval`,
+      [`${OUTBOX_RETENTION_DAYS} days`]
+    );
+    return result.rowCount ?? 0;
+  }
+
+  // ===========================================================================
+  // Delivery Log, Redelivery & Replay
+  // ===========================================================================
+
+  /**
+   * Lists a user's logged delivery attempts, newest first.
+   */
+  async listDeliveries(
+    userId: string,
+    query: DeliveryListQuery
+  ): Promise<{ deliveries: WebhookDeliveryRecord[]; total: number }> {
+    const conditions = ['w.user_id = $1'];
+    const params: unknown[] = [userId];
+    if (query.webhookId !== undefined) {
+      if (!UUID_PATTERN.test(query.webhookId)) throw new NotFoundError('Webhook not found');
+      params.push(query.webhookId);
+      conditions.push(`d.webhook_id = $${params.length}`);
+    }
+    if (query.success !== undefined) {
+      params.push(query.success);
+      conditions.push(`d.success = $${params.length}`);
     }
+    const from = `FROM webhook_deliveries d JOIN webhooks w ON w.id = d.webhook_id WHERE ${conditions.join(' AND ')}`;
+
+    const [rows, count] = await Promise.all([
+      this.pool.query(
+        `SELECT d.* ${from}
+         ORDER BY d.delivered_at DESC, d.id DESC
+         LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+        [...params, query.limit, query.offset]
+      ),
+      this.pool.query(`SELECT COUNT(*)::int AS total ${from}`, params),
+    ]);
+
+    return { deliveries: rows.rows.map((row) => this.mapDeliveryRow(row)), total: count.rows[0].total as number };
   }
 
   /**
-   * Retries failed webhook deliveries.
-   * Called periodically by the background job.
+   * Sends the events of a logged delivery again, after the webhook's
+   * pending rows. The events keep their payload ids, so receivers can tell
+   * a redelivery from a new event. Returns the number of events enqueued.
    */
-  async retryFailedDeliveries(): Promise<void> {
-    // Find deliveries that failed and are eligible for retry
-    const result = await this.pool.query<Record<string, unknown>>(
-      `SELECT wd.*, w.url, w.secret, w.active
-       FROM webhook_deliveries wd
-       JOIN webhooks w ON w.id = wd.webhook_id
-       WHERE wd.success = false
-         AND wd.attempt < $1
-         AND w.active = true
-       ORDER BY wd.delivered_at ASC
-       LIMIT 100`,
-      [RETRY_DELAYS.length]
+  async redeliver(userId: string, deliveryId: string): Promise<number> {
+    if (!UUID_PATTERN.test(deliveryId)) throw new NotFoundError('Delivery not found');
+
+    const result = await this.pool.query(
+      `SELECT d.webhook_id, d.event_type, d.payload FROM webhook_deliveries d
+       JOIN webhooks w ON w.id = d.webhook_id
+       WHERE d.id = $1 AND w.user_id = $2`,
+      [deliveryId, userId]
     );
+    if (result.rows.length === 0) throw new NotFoundError('Delivery not found');
 
-    for (const row of result.rows) {
-      const attempt = row.attempt as number;
-      const deliveredAt = new Date(row.delivered_at as string);
-      const retryDelay = RETRY_DELAYS[attempt] ?? RETRY_DELAYS[RETRY_DELAYS.length - 1];
-      const retryAfter = new Date(deliveredAt.getTime() + retryDelay);
+    const { webhook_id: webhookId, event_type: eventType } = result.rows[0];
+    const payload = result.rows[0].payload as Record<string, unknown>;
+
+    // Batches are split into their events, which are batched again on delivery
+    const payloads = eventType === 'batch'
+      ? (payload.events ?? []) as Array<Record<string, unknown>>
+      : [payload];
+    const entries: OutboxEntry[] = payloads.map((p) => ({
+      key: String(p.id),
+      eventType: String(p.event ?? eventType),
+      payload: p,
+    }));
+
+    return this.outbox.enqueueReplay(webhookId as string, entries, crypto.randomUUID());
+  }
+
+  /**
+   * Re-delivers the events a webhook matches from the user's event tables
+   * within a slot range, oldest first. Returns the replay id and the number
+   * of events enqueued.
+   */
+  async replay(
+    userId: string,
+    schemaName: string,
+    webhookId: string,
+    fromSlot: number,
+    toSlot: number
+  ): Promise<{ replayId: string; enqueued: number }> {
+    if (!Number.isSafeInteger(fromSlot) || !Number.isSafeInteger(toSlot) || fromSlot < 0 || toSlot < 0) {
+      throw new ValidationError('fromSlot and toSlot must be non-negative integers');
+    }
+    if (fromSlot > toSlot) {
+      throw new ValidationError('fromSlot must not be after toSlot');
+    }
+    if (!UUID_PATTERN.test(webhookId)) throw new NotFoundError('Webhook not found');
+
+    const webhookResult = await this.pool.query(
+      `SELECT w.events, w.filters, up.id AS user_program_id, up.program_id, up.name, up.idl
+       FROM webhooks w JOIN user_programs up ON up.id = w.user_program_id
+       WHERE w.id = $1 AND w.user_id = $2`,
+      [webhookId, userId]
+    );
+    if (webhookResult.rows.length === 0) throw new NotFoundError('Webhook not found');
+    const webhook = webhookResult.rows[0];
+    const match = {
+      events: (webhook.events ?? []) as string[],
+      filters: parseStoredFilter(webhook.filters),
+    };
 
-      if (new Date() < retryAfter) continue;
+    const enabled = await this.pool.query(
+      `SELECT event_name FROM user_program_events
+       WHERE user_program_id = $1 AND event_type = 'event' AND enabled = true
+       ORDER BY event_name`,
+      [webhook.user_program_id]
+    );
+    const eventNames = (enabled.rows.map((r) => r.event_name) as string[])
+      .filter((name) => match.events.length === 0 || match.events.includes(name));
+    const idlEvents = filterableEvents([webhook.idl as Record<string, unknown>], eventNames);
+    const tables = await Promise.all(eventNames.map(async (name) => ({
+      name,
+      tableName: (await resolveTable(this.pool, userId, webhook.name as string, name)).tableName,
+      fields: idlEvents.find((e) => e.name === name)?.fields ?? [],
+    })));
 
-      const payload = row.payload as Record<string, unknown>;
-      const url = row.url as string;
-      const secret = row.secret as string;
-      const webhookId = row.webhook_id as string;
+    const events = await inUserSchema(this.pool, schemaName, async (client) => {
+      const counts = await Promise.all(tables.map((t) => client.query(
+        `SELECT COUNT(*)::bigint AS total FROM ${t.tableName} WHERE slot BETWEEN $1 AND $2`,
+        [fromSlot, toSlot]
+      )));
+      const total = counts.reduce((sum, c) => sum + Number(c.rows[0].total), 0);
+      if (total > REPLAY_MAX_EVENTS) {
+        throw new ValidationError(
+          `Replay matches ${total} events; the maximum is ${REPLAY_MAX_EVENTS} — narrow the slot range`
+        );
+      }
 
-      try {
-        const success = await this.sendWebhook(url, secret, payload, row.event_type as string);
-        await this.logDelivery(webhookId, row.event_type as string, payload, success ? 200 : 0, attempt + 1, success);
-        if (success) {
-          await this.pool.query('UPDATE webhooks SET failure_count = 0, last_triggered = now() WHERE id = $1', [webhookId]);
+      const found: Array<{ event: OutboxEvent; row: Record<string, unknown> }> = [];
+      for (const table of tables) {
+        let lastId = '0';
+        for (;;) {
+          const batch = await client.query(
+            `SELECT * FROM ${table.tableName}
+             WHERE slot BETWEEN $1 AND $2 AND id > $3
+             ORDER BY id ASC
+             LIMIT ${REPLAY_BATCH_SIZE}`,
+            [fromSlot, toSlot, lastId]
+          );
+          for (const row of batch.rows) found.push({ event: rowToOutboxEvent(table.name, table.fields, row), row });
+          if (batch.rows.length < REPLAY_BATCH_SIZE) break;
+          lastId = String(batch.rows[batch.rows.length - 1].id);
         }
-      } catch {
-        await this.logDelivery(webhookId, row.event_type as string, payload, 0, attempt + 1, false);
       }
+
+      // Tables are read one at a time; put their events back in chain order
+      found.sort((a, b) =>
+        a.event.slot - b.event.slot
+        || a.event.txSignature.localeCompare(b.event.txSignature)
+        || (a.row.ix_index as number) - (b.row.ix_index as number)
+        || ((a.row.inner_ix_index ?? -1) as number) - ((b.row.inner_ix_index ?? -1) as number)
+        || ((a.row.event_index ?? 0) as number) - ((b.row.event_index ?? 0) as number)
+      );
+      return found.map((f) => f.event);
+    });
+
+    const entries = events
+      .filter((e) => matchesWebhook(match, e.eventName, e.data))
+      .map((e) => outboxEntry('event', webhook.program_id as string, e));
+
+    const replayId = crypto.randomUUID();
+    let enqueued = 0;
+    for (let i = 0; i < entries.length; i += REPLAY_BATCH_SIZE) {
+      enqueued += await this.outbox.enqueueReplay(webhookId, entries.slice(i, i + REPLAY_BATCH_SIZE), replayId);
     }
+    return { replayId, enqueued };
+  }
+
+  /**
+   * Sends a webhook a test event — of type 'test', with example data unless
+   * given — the way its deliveries are sent: batched, rendered and signed
+   * alike. It bypasses the outbox, so it is sent even while the webhook is
+   * disabled, isn't logged and doesn't count as a failure.
+   */
+  async sendTest(userId: string, webhookId: string, input: TestEventInput = {}): Promise<TestDeliveryResult> {
+    if (!UUID_PATTERN.test(webhookId)) throw new NotFoundError('Webhook not found');
+
+    const result = await this.pool.query(
+      `SELECT w.*, up.program_id, up.idl FROM webhooks w
+       JOIN user_programs up ON up.id = w.user_program_id
+       WHERE w.id = $1 AND w.user_id = $2`,
+      [webhookId, userId]
+    );
+    if (result.rows.length === 0) throw new NotFoundError('Webhook not found');
+    const row = result.rows[0];
+    const webhook = this.mapWebhookRow(row);
+
+    const events = filterableEvents([row.idl], webhook.events);
+    const eventName = input.eventName ?? events[0]?.name;
+    const event = events.find((e) => e.name === eventName);
+    if (!event) {
+      throw new ValidationError(
+        eventName ? `The webhook does not receive '${eventName}'` : "The program's IDL has no events to test with"
+      );
+    }
+    if (input.data !== undefined && (typeof input.data !== 'object' || input.data === null || Array.isArray(input.data))) {
+      throw new ValidationError('data must be an object');
+    }
+
+    const payload = {
+      id: `evt_test_${crypto.randomBytes(16).toString('hex')}`,
+      type: 'test',
+      event: event.name,
+      programId: row.program_id as string,
+      data: input.data ?? sampleEventData(event.fields),
+      slot: 0,
+      txSignature: 'test',
+      timestamp: new Date().toISOString(),
+    };
+    const target: DeliveryTarget = {
+      webhookId,
+      sink: webhook.sink,
+      secret: webhook.secret,
+      batched: webhook.batchMaxEvents > 1,
+      shape: payloadFromRow(row),
+    };
+    const sent = await this.sendDelivery(target, buildDeliveryPayload([{ eventType: event.name, payload }], target.batched));
+
+    return {
+      success: sent.result.success,
+      responseStatus: sent.result.status,
+      responseBody: sent.result.body,
+      payload: sent.payload,
+    };
   }
 
   // ===========================================================================
   // Private — Delivery
   // ===========================================================================
 
+  private scheduleDelivery(delayMs: number): void {
+    if (this.workerTimer) clearTimeout(this.workerTimer);
+    this.workerTimer = setTimeout(() => {
+      this.workerTimer = null;
+      this.runDeliveryPass().catch((err) =>
+        console.error(`[WebhookService] Delivery pass failed: ${(err as Error).message}`)
+      );
+    }, delayMs);
+    this.workerTimer.unref();
+  }
+
   /**
-   * Delivers a single event to a webhook with retry logic.
+   * Delivers until nothing is due, prunes the outbox now and then, and
+   * schedules the next pass.
    */
-  private async deliverToWebhook(
-    webhook: WebhookRecord,
-    event: IndexedEventForDelivery
-  ): Promise<void> {
-    const payload: Record<string, unknown> = {
-      id: `del_${crypto.randomUUID().slice(0, 12)}`,
-      event: event.eventName,
-      programId: event.programId,
-      data: event.data,
-      slot: event.slot,
-      txSignature: event.txSignature,
-      timestamp: new Date().toISOString(),
-    };
+  private async runDeliveryPass(): Promise<void> {
+    if (!this.workerRunning || this.delivering) return;
+    this.delivering = true;
+    try {
+      while (this.workerRunning && (await this.deliverPending()) > 0) {
+        // Drain: each pass moves every due webhook one request forward
+      }
+      if (Date.now() - this.lastPruneAt >= OUTBOX_PRUNE_INTERVAL_MS) {
+        this.lastPruneAt = Date.now();
+        await this.pruneOutbox();
+      }
+      await this.sinks.closeIdle();
+    } finally {
+      this.delivering = false;
+      if (this.workerRunning) this.scheduleDelivery(DELIVERY_POLL_INTERVAL_MS);
+    }
+  }
 
-    const success = await this.sendWebhook(webhook.url, webhook.secret, payload, event.eventName);
+  /**
+   * Claims the rows of up to `limit` due webhooks. A batching webhook is due
+   * once its batch is full, its oldest row has waited batch_max_wait_ms, or
+   * the batch is being retried. Locking the webhook rows keeps concurrent
+   * workers from claiming rows of the same webhook.
+   */
+  private async claimDue(limit: number): Promise<ClaimedBatch[]> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      const due = await client.query(
+        `SELECT w.id, w.url, w.sink_type, w.sink_config, w.secret, w.batch_max_events,
+                w.payload_format, w.payload_template, w.payload_fields, w.custom_headers
+         FROM webhooks w
+         JOIN (
+           SELECT DISTINCT ON (ob.webhook_id) ob.webhook_id, ob.attempts, ob.next_attempt_at, ob.locked_until, ob.created_at
+           FROM webhook_outbox ob
+           WHERE ob.status = 'pending'
+           ORDER BY ob.webhook_id, ob.id
+         ) head ON head.webhook_id = w.id
+         WHERE w.active = true
+           AND head.next_attempt_at <= now()
+           AND (head.locked_until IS NULL OR head.locked_until < now())
+           AND (
+             w.batch_max_events = 1
+             OR head.attempts > 0
+             OR head.created_at <= now() - make_interval(secs => w.batch_max_wait_ms / 1000.0)
+             OR (SELECT COUNT(*) FROM (
+                   SELECT 1 FROM webhook_outbox c
+                   WHERE c.webhook_id = w.id AND c.status = 'pending'
+                   LIMIT w.batch_max_events
+                 ) full_batch) >= w.batch_max_events
+           )
+         LIMIT $1
+         FOR UPDATE OF w SKIP LOCKED`,
+        [limit]
+      );
+      if (due.rows.length === 0) {
+        await client.query('COMMIT');
+        return [];
+      }
+
+      // A new statement sees leases taken by workers that held these webhooks before
+      const claimed = await client.query(
+        `UPDATE webhook_outbox o
+         SET attempts = o.attempts + 1, locked_until = now() + $3::interval
+         FROM (
+           SELECT p.id FROM unnest($1::uuid[], $2::int[]) AS d(webhook_id, max_events)
+           CROSS JOIN LATERAL (
+             SELECT ob.id FROM webhook_outbox ob
+             WHERE ob.webhook_id = d.webhook_id AND ob.status = 'pending'
+             ORDER BY ob.id
+             LIMIT d.max_events
+           ) p
+           WHERE NOT EXISTS (
+             SELECT 1 FROM webhook_outbox l
+             WHERE l.webhook_id = d.webhook_id AND l.status = 'pending' AND l.locked_until >= now()
+           )
+         ) picked
+         WHERE o.id = picked.id
+         RETURNING o.id, o.webhook_id, o.event_type, o.payload, o.attempts`,
+        [
+          due.rows.map((w) => w.id),
+          due.rows.map((w) => w.batch_max_events),
+          `${DELIVERY_LEASE_MS} milliseconds`,
+        ]
+      );
+      await client.query('COMMIT');
+
+      const batches = new Map<string, ClaimedBatch>();
+      for (const webhook of due.rows) {
+        batches.set(webhook.id as string, {
+          webhookId: webhook.id as string,
+          sink: sinkFromRow(webhook),
+          secret: webhook.secret as string,
+          batched: (webhook.batch_max_events as number) > 1,
+          shape: payloadFromRow(webhook),
+          rows: [],
+        });
+      }
+      for (const row of claimed.rows) {
+        batches.get(row.webhook_id as string)!.rows.push({
+          id: String(row.id),
+          eventType: row.event_type as string,
+          payload: row.payload as Record<string, unknown>,
+          attempts: row.attempts as number,
+        });
+      }
+
+      // bigserial ids arrive as strings; order them numerically
+      const result = Array.from(batches.values()).filter((batch) => batch.rows.length > 0);
+      for (const batch of result) batch.rows.sort((x, y) => Number(x.id) - Number(y.id));
+      return result;
+    } catch (err) {
+      await client.query('ROLLBACK').catch(() => {});
+      throw err;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Sends one claimed batch and records the outcome for all its rows:
+   * delivered, retried after a backoff, or failed once every retry is used.
+   * A batch is retried as a whole, counting the attempts of its oldest row.
+   * The log keeps the standard payload, so the delivery can be sent again.
+   */
+  private async deliverBatch(batch: ClaimedBatch): Promise<void> {
+    const { webhookId, rows } = batch;
+    const ids = rows.map((row) => row.id);
+    const attempt = Math.max(...rows.map((row) => row.attempts));
+    const delivery = buildDeliveryPayload(rows, batch.batched);
 
-    await this.logDelivery(webhook.id, event.eventName, payload, success ? 200 : 0, 1, success);
+    const { result } = await this.sendDelivery(batch, delivery);
+    await this.logDelivery(webhookId, delivery.eventType, delivery.payload, result.status, result.body, attempt, result.success);
 
-    if (success) {
+    if (result.success) {
       await this.pool.query(
-        'UPDATE webhooks SET failure_count = 0, last_triggered = now(), updated_at = now() WHERE id = $1',
-        [webhook.id]
+        `UPDATE webhook_outbox SET status = 'delivered', delivered_at = now(), locked_until = NULL, last_error = NULL
+         WHERE id = ANY($1::bigint[])`,
+        [ids]
       );
-    } else {
       await this.pool.query(
-        `UPDATE webhooks SET failure_count = failure_count + 1, updated_at = now() WHERE id = $1`,
-        [webhook.id]
+        'UPDATE webhooks SET failure_count = 0, last_triggered = now(), updated_at = now() WHERE id = $1',
+        [webhookId]
       );
+      return;
+    }
 
-      // Auto-disable after too many failures
-      const updated = await this.pool.query(
-        'SELECT failure_count FROM webhooks WHERE id = $1',
-        [webhook.id]
+    const error = result.status ? `HTTP ${result.status}` : result.body ?? 'Request failed or timed out';
+    if (attempt > RETRY_DELAYS.length) {
+      await this.pool.query(
+        `UPDATE webhook_outbox SET status = 'failed', locked_until = NULL, last_error = $2 WHERE id = ANY($1::bigint[])`,
+        [ids, error]
+      );
+    } else {
+      await this.pool.query(
+        `UPDATE webhook_outbox
+         SET next_attempt_at = now() + $2::interval, locked_until = NULL, last_error = $3
+         WHERE id = ANY($1::bigint[])`,
+        [ids, `${RETRY_DELAYS[attempt - 1]} milliseconds`, error]
       );
-      if (updated.rows.length > 0 && (updated.rows[0].failure_count as number) >= MAX_FAILURE_COUNT) {
-        await this.pool.query(
-          'UPDATE webhooks SET active = false, updated_at = now() WHERE id = $1',
-          [webhook.id]
-        );
-        console.warn(`[WebhookService] Auto-disabled webhook ${webhook.id} after ${MAX_FAILURE_COUNT} failures`);
-      }
     }
+    await this.recordFailure(webhookId);
   }
 
   /**
-   * Sends an HTTP POST to a webhook URL with HMAC signature.
+   * Renders a delivery in the webhook's payload format, signs it and sends
+   * it to the webhook's sink. Returns the outcome and the payload as sent.
    */
-  private async sendWebhook(
-    url: string,
-    secret: string,
-    payload: Record<string, unknown>,
-    eventType: string
-  ): Promise<boolean> {
+  private async sendDelivery(
+    target: DeliveryTarget,
+    delivery: DeliveryPayload
+  ): Promise<{ result: SinkResult; payload: unknown }> {
+    const payload = shapePayload(target.shape, delivery.payload, target.batched);
     const body = JSON.stringify(payload);
-    const signature = this.signPayload(body, secret);
-    const deliveryId = crypto.randomUUID();
-
-    try {
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'X-Uho-Signature': `sha256=${signature}`,
-          'X-Uho-Event': eventType,
-          'X-Uho-Delivery-Id': deliveryId,
-          'X-Uho-Timestamp': String(Math.floor(Date.now() / 1000)),
-          'User-Agent': 'Uho-Webhook/1.0',
-        },
-        body,
-        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
-      });
+    const result = await this.sinks.send(target.sink, {
+      webhookId: target.webhookId,
+      eventType: delivery.eventType,
+      body,
+      idempotencyKey: delivery.idempotencyKey,
+      signature: this.signPayload(body, target.secret),
+      deliveryId: crypto.randomUUID(),
+      timestamp: Math.floor(Date.now() / 1000),
+      headers: target.shape.headers,
+    });
+    return { result, payload };
+  }
 
-      return response.ok;
-    } catch {
-      return false;
+  /**
+   * Counts a failed attempt against a webhook, disabling it after
+   * MAX_FAILURE_COUNT consecutive failures. Its pending rows wait until it
+   * is re-enabled.
+   */
+  private async recordFailure(webhookId: string): Promise<void> {
+    const updated = await this.pool.query(
+      `UPDATE webhooks SET failure_count = failure_count + 1, updated_at = now()
+       WHERE id = $1 RETURNING failure_count`,
+      [webhookId]
+    );
+    if (updated.rows.length > 0 && (updated.rows[0].failure_count as number) >= MAX_FAILURE_COUNT) {
+      await this.pool.query(
+        'UPDATE webhooks SET active = false, updated_at = now() WHERE id = $1',
+        [webhookId]
+      );
+      console.warn(`[WebhookService] Auto-disabled webhook ${webhookId} after ${MAX_FAILURE_COUNT} failures`);
     }
   }
 
@@ -371,15 +887,16 @@ export class WebhookService {
     webhookId: string,
     eventType: string,
     payload: Record<string, unknown>,
-    responseStatus: number,
+    responseStatus: number | null,
+    responseBody: string | null,
     attempt: number,
     success: boolean
   ): Promise<void> {
     try {
       await this.pool.query(
-        `INSERT INTO webhook_deliveries (webhook_id, event_type, payload, response_status, attempt, success)
-         VALUES ($1, $2, $3, $4, $5, $6)`,
-        [webhookId, eventType, JSON.stringify(payload), responseStatus, attempt, success]
+        `INSERT INTO webhook_deliveries (webhook_id, event_type, payload, response_status, response_body, attempt, success)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+        [webhookId, eventType, JSON.stringify(payload), responseStatus, responseBody, attempt, success]
       );
     } catch (err) {
       console.error(`[WebhookService] Failed to log delivery: ${(err as Error).message}`);
@@ -390,52 +907,162 @@ export class WebhookService {
   // Private — Helpers
   // ===========================================================================
 
-  /**
-   * Checks if event data matches a webhook's field-level filters.
-   */
-  private matchesFilters(data: Record<string, unknown>, filters: Record<string, unknown>): boolean {
-    if (!filters || Object.keys(filters).length === 0) return true;
-
-    for (const [key, value] of Object.entries(filters)) {
-      if (data[key] !== value) return false;
-    }
-    return true;
-  }
-
-  /**
-   * Validates a webhook URL.
-   * In production, only HTTPS is allowed.
-   * In development, HTTP is also permitted for local testing.
-   */
-  private isValidWebhookUrl(url: string): boolean {
-    try {
-      const parsed = new URL(url);
-      if (parsed.protocol === 'https:') return true;
-      // Allow HTTP only in non-production environments
-      if (parsed.protocol === 'http:' && process.env.NODE_ENV !== 'production') return true;
-      return false;
-    } catch {
-      return false;
-    }
-  }
-
   /**
    * Maps a database row to a WebhookRecord object.
    */
   private mapWebhookRow(row: Record<string, unknown>): WebhookRecord {
+    const shape = payloadFromRow(row);
     return {
       id: row.id as string,
       userId: row.user_id as string,
       userProgramId: row.user_program_id as string,
-      url: row.url as string,
+      url: (row.url ?? null) as string | null,
+      sink: sinkFromRow(row),
       secret: row.secret as string,
       events: (row.events ?? []) as string[],
-      filters: (typeof row.filters === 'string' ? JSON.parse(row.filters as string) : row.filters ?? {}) as Record<string, unknown>,
+      filters: parseStoredFilter(row.filters),
       active: row.active as boolean,
       lastTriggered: row.last_triggered ? new Date(row.last_triggered as string) : null,
       failureCount: (row.failure_count ?? 0) as number,
+      batchMaxEvents: (row.batch_max_events ?? 1) as number,
+      batchMaxWaitMs: (row.batch_max_wait_ms ?? 0) as number,
+      payloadFormat: shape.format,
+      payloadTemplate: shape.template,
+      payloadFields: shape.fields,
+      customHeaders: shape.headers,
       createdAt: new Date(row.created_at as string),
       updatedAt: new Date(row.updated_at as string),
     };
   }
+
+  /**
+   * Maps a database row to a WebhookDeliveryRecord object.
+   */
+  private mapDeliveryRow(row: Record<string, unknown>): WebhookDeliveryRecord {
+    return {
+      id: row.id as string,
+      webhookId: row.webhook_id as string,
+      eventType: row.event_type as string,
+      payload: row.payload as Record<string, unknown>,
+      responseStatus: (row.response_status ?? null) as number | null,
+      responseBody: (row.response_body ?? null) as string | null,
+      attempt: row.attempt as number,
+      success: row.success === true,
+      deliveredAt: new Date(row.delivered_at as string),
+    };
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Builds the request for claimed outbox rows. A batching webhook always gets
+ * a batch envelope — even for a single event — whose id is derived from the
+ * event ids it holds; other webhooks get the event payload itself.
+ */
+export function buildDeliveryPayload(
+  rows: Array<{ eventType: string; payload: Record<string, unknown> }>,
+  batched: boolean
+): DeliveryPayload {
+  if (!batched) {
+    const [row] = rows;
+    return { eventType: row.eventType, payload: row.payload, idempotencyKey: row.payload.id as string };
+  }
+
+  const eventIds = rows.map((row) => row.payload.id as string);
+  const id = `bat_${crypto.createHash('sha256').update(eventIds.join(',')).digest('hex').slice(0, 32)}`;
+  return {
+    eventType: 'batch',
+    payload: { id, type: 'batch', events: rows.map((row) => row.payload), timestamp: new Date().toISOString() },
+    idempotencyKey: id,
+  };
+}
+
+/**
+ * Builds a webhook's sink config from its url, sink_type and sink_config
+ * columns.
+ */
+function sinkFromRow(row: Record<string, unknown>): WebhookSinkConfig {
+  const type = (row.sink_type ?? 'http') as WebhookSinkType;
+  if (type === 'http') return { type, url: row.url as string };
+  const config = typeof row.sink_config === 'string' ? JSON.parse(row.sink_config) : row.sink_config ?? {};
+  return { ...config, type } as WebhookSinkConfig;
+}
+
+/**
+ * The url, sink_type and sink_config column values of a sink. An HTTP
+ * sink's config is its url.
+ */
+function sinkColumns(sink: WebhookSinkConfig): [string | null, WebhookSinkType, string] {
+  if (sink.type === 'http') return [sink.url, 'http', '{}'];
+  const { type, ...config } = sink;
+  return [null, type, JSON.stringify(config)];
+}
+
+/**
+ * Builds a webhook's payload settings from its payload_* and custom_headers
+ * columns.
+ */
+function payloadFromRow(row: Record<string, unknown>): PayloadSettings {
+  const headers = typeof row.custom_headers === 'string' ? JSON.parse(row.custom_headers) : row.custom_headers;
+  return {
+    format: (row.payload_format ?? 'default') as WebhookPayloadFormat,
+    template: (typeof row.payload_template === 'string' ? JSON.parse(row.payload_template) : row.payload_template) ?? null,
+    fields: (row.payload_fields ?? null) as string[] | null,
+    headers: (headers ?? {}) as Record<string, string>,
+  };
+}
+
+/**
+ * The payload_format, payload_template, payload_fields and custom_headers
+ * column values of payload settings.
+ */
+function payloadColumns(shape: PayloadSettings): [WebhookPayloadFormat, string | null, string[] | null, string] {
+  return [
+    shape.format,
+    shape.template === null ? null : JSON.stringify(shape.template),
+    shape.fields,
+    JSON.stringify(shape.headers),
+  ];
+}
+
+/**
+ * Parses a webhook's filter and checks the fields it uses against the
+ * program's IDL events the webhook receives.
+ */
+function parseWebhookFilter(filters: unknown, events: ParsedEvent[]): FilterExpression | null {
+  const expression = parseFilterExpression(filters);
+  validateFilterFields(expression, events);
+  return expression;
+}
+
+/**
+ * Validates the batch settings of a webhook being created or updated.
+ */
+function validateBatchSettings(input: { batchMaxEvents?: number; batchMaxWaitMs?: number }): void {
+  const { batchMaxEvents, batchMaxWaitMs } = input;
+  if (batchMaxEvents !== undefined && (!Number.isInteger(batchMaxEvents) || batchMaxEvents < 1 || batchMaxEvents > MAX_BATCH_EVENTS)) {
+    throw new ValidationError(`batchMaxEvents must be an integer between 1 and ${MAX_BATCH_EVENTS}`);
+  }
+  if (batchMaxWaitMs !== undefined && (!Number.isInteger(batchMaxWaitMs) || batchMaxWaitMs < 0 || batchMaxWaitMs > MAX_BATCH_WAIT_MS)) {
+    throw new ValidationError(`batchMaxWaitMs must be an integer between 0 and ${MAX_BATCH_WAIT_MS}`);
+  }
+}
+
+/**
+ * Converts a row of an event table into the event it was indexed from, with
+ * its data shaped as decoded (and delivered live).
+ *
+ * @param fields - The event's IDL fields, without the column layout applied
+ */
+function rowToOutboxEvent(eventName: string, fields: ParsedField[], row: Record<string, unknown>): OutboxEvent {
+  return {
+    eventName,
+    slot: Number(row.slot),
+    txSignature: row.tx_signature as string,
+    data: rowToEventData(fields, row),
+    position: `${row.ix_index}:${row.inner_ix_index ?? '-'}:${row.event_index ?? 0}`,
+  };
 }
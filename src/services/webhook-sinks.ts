@@ -0,0 +1,593 @@
+/**
+ * Uho — Webhook Sinks
+ *
+ * Where webhook deliveries go: an HTTPS endpoint, a Kafka topic, a NATS
+ * subject, a Redis stream or an SQS(-compatible) queue. Every sink sends the
+ * same JSON body with the same X-Uho-* metadata — as HTTP headers, message
+ * headers, stream fields or message attributes — so consumers verify and
+ * dedupe deliveries alike. WebhookSinkPool keeps broker connections open
+ * between deliveries and shares them between webhooks with the same config.
+ */
+
+import crypto from 'crypto';
+import { Kafka, logLevel, type Producer, type SASLOptions } from 'kafkajs';
+import { connect, headers as natsHeaders, type NatsConnection } from 'nats';
+import { Redis } from 'ioredis';
+import { SQSClient, SendMessageCommand, type MessageAttributeValue } from '@aws-sdk/client-sqs';
+import { ValidationError } from '../core/errors.js';
+import type {
+  HttpSinkConfig,
+  KafkaSinkConfig,
+  NatsSinkConfig,
+  RedisStreamSinkConfig,
+  SqsSinkConfig,
+  WebhookSinkConfig,
+  WebhookSinkType,
+} from '../core/types.js';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Time limit of one delivery, connecting included */
+const DELIVERY_TIMEOUT_MS = 10_000;
+
+/** Broker connections unused this long are closed */
+const SINK_IDLE_MS = 5 * 60 * 1000;
+
+/** Response bodies (and broker errors) are logged up to this many characters */
+const RESPONSE_BODY_LIMIT = 2048;
+
+const SINK_TYPES: WebhookSinkType[] = ['http', 'kafka', 'nats', 'redis-stream', 'sqs'];
+
+const SASL_MECHANISMS = ['plain', 'scram-sha-256', 'scram-sha-512'];
+
+/** Shown in place of credentials when a sink config is returned */
+const REDACTED = '********';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** One delivery to a sink */
+export interface SinkMessage {
+  webhookId: string;
+  eventType: string;
+  /** The JSON payload */
+  body: string;
+  idempotencyKey: string;
+  /** Hex HMAC-SHA256 of the body with the webhook's secret */
+  signature: string;
+  deliveryId: string;
+  /** Unix seconds */
+  timestamp: number;
+  /** The webhook's custom headers (HTTP sinks only) */
+  headers?: Record<string, string>;
+}
+
+/** The outcome of a delivery, as logged */
+export interface SinkResult {
+  success: boolean;
+  /** HTTP status (0 when the request failed or timed out); null for brokers */
+  status: number | null;
+  /** Start of the response body, the broker's acknowledgement or the error */
+  body: string | null;
+}
+
+export interface WebhookSink {
+  readonly type: WebhookSinkType;
+  send(message: SinkMessage): Promise<SinkResult>;
+  /** Closes the sink's connection, if it holds one */
+  close(): Promise<void>;
+}
+
+// =============================================================================
+// Config Validation
+// =============================================================================
+
+/**
+ * Validates a sink config given when creating or updating a webhook. An
+ * HTTP sink may give its URL as `url` on the webhook instead of on the sink.
+ */
+export function parseSinkConfig(input: unknown, url?: string | null): WebhookSinkConfig {
+  const sink = (input ?? { type: 'http' }) as Record<string, unknown>;
+  if (typeof sink !== 'object' || Array.isArray(sink)) throw new ValidationError('sink must be an object');
+  if (!SINK_TYPES.includes(sink.type as WebhookSinkType)) {
+    throw new ValidationError(`sink.type must be one of ${SINK_TYPES.join(', ')}`);
+  }
+
+  switch (sink.type as WebhookSinkType) {
+    case 'http': {
+      const target = sink.url ?? url;
+      if (typeof target !== 'string' || !isValidWebhookUrl(target)) {
+        throw new ValidationError('Webhook URL must be a valid HTTPS URL');
+      }
+      return { type: 'http', url: target };
+    }
+
+    case 'kafka': {
+      const config: KafkaSinkConfig = {
+        type: 'kafka',
+        brokers: stringList(sink.brokers, 'sink.brokers'),
+        topic: requiredString(sink.topic, 'sink.topic'),
+      };
+      if (!/^[A-Za-z0-9._-]{1,249}$/.test(config.topic)) throw new ValidationError('sink.topic is not a valid Kafka topic name');
+      if (sink.ssl !== undefined) config.ssl = requiredBoolean(sink.ssl, 'sink.ssl');
+      if (sink.sasl !== undefined) {
+        const sasl = (sink.sasl ?? {}) as Record<string, unknown>;
+        if (!SASL_MECHANISMS.includes(sasl.mechanism as string)) {
+          throw new ValidationError(`sink.sasl.mechanism must be one of ${SASL_MECHANISMS.join(', ')}`);
+        }
+        config.sasl = {
+          mechanism: sasl.mechanism as NonNullable<KafkaSinkConfig['sasl']>['mechanism'],
+          username: requiredString(sasl.username, 'sink.sasl.username'),
+          password: requiredString(sasl.password, 'sink.sasl.password'),
+        };
+      }
+      return config;
+    }
+
+    case 'nats': {
+      const config: NatsSinkConfig = {
+        type: 'nats',
+        servers: stringList(sink.servers, 'sink.servers'),
+        subject: requiredString(sink.subject, 'sink.subject'),
+      };
+      if (!/^[^\s*>]+$/.test(config.subject)) throw new ValidationError('sink.subject must not contain spaces or wildcards');
+      if (sink.jetstream !== undefined) config.jetstream = requiredBoolean(sink.jetstream, 'sink.jetstream');
+      if (sink.token !== undefined) config.token = requiredString(sink.token, 'sink.token');
+      if (sink.user !== undefined) config.user = requiredString(sink.user, 'sink.user');
+      if (sink.pass !== undefined) config.pass = requiredString(sink.pass, 'sink.pass');
+      return config;
+    }
+
+    case 'redis-stream': {
+      const config: RedisStreamSinkConfig = {
+        type: 'redis-stream',
+        url: requiredString(sink.url, 'sink.url'),
+        stream: requiredString(sink.stream, 'sink.stream'),
+      };
+      if (!/^rediss?:\/\//.test(config.url) || !URL.canParse(config.url)) {
+        throw new ValidationError('sink.url must be a redis:// or rediss:// URL');
+      }
+      if (sink.maxLen !== undefined) {
+        if (!Number.isInteger(sink.maxLen) || (sink.maxLen as number) < 1) {
+          throw new ValidationError('sink.maxLen must be a positive integer');
+        }
+        config.maxLen = sink.maxLen as number;
+      }
+      return config;
+    }
+
+    case 'sqs': {
+      const config: SqsSinkConfig = {
+        type: 'sqs',
+        queueUrl: requiredString(sink.queueUrl, 'sink.queueUrl'),
+        region: requiredString(sink.region, 'sink.region'),
+      };
+      if (!/^https?:\/\//.test(config.queueUrl) || !URL.canParse(config.queueUrl)) {
+        throw new ValidationError('sink.queueUrl must be an http(s) URL');
+      }
+      if (sink.endpoint !== undefined) {
+        config.endpoint = requiredString(sink.endpoint, 'sink.endpoint');
+        if (!URL.canParse(config.endpoint)) throw new ValidationError('sink.endpoint must be a URL');
+      }
+      if ((sink.accessKeyId === undefined) !== (sink.secretAccessKey === undefined)) {
+        throw new ValidationError('sink.accessKeyId and sink.secretAccessKey go together');
+      }
+      if (sink.accessKeyId !== undefined) {
+        config.accessKeyId = requiredString(sink.accessKeyId, 'sink.accessKeyId');
+        config.secretAccessKey = requiredString(sink.secretAccessKey, 'sink.secretAccessKey');
+      }
+      return config;
+    }
+  }
+}
+
+/**
+ * Returns a sink config with its credentials masked, for API responses.
+ */
+export function redactSinkConfig(config: WebhookSinkConfig): WebhookSinkConfig {
+  switch (config.type) {
+    case 'kafka':
+      return config.sasl ? { ...config, sasl: { ...config.sasl, password: REDACTED } } : config;
+    case 'nats':
+      return {
+        ...config,
+        ...(config.token !== undefined && { token: REDACTED }),
+        ...(config.pass !== undefined && { pass: REDACTED }),
+      };
+    case 'redis-stream': {
+      const url = new URL(config.url);
+      if (url.password) url.password = REDACTED;
+      return { ...config, url: url.toString() };
+    }
+    case 'sqs':
+      return config.secretAccessKey !== undefined ? { ...config, secretAccessKey: REDACTED } : config;
+    default:
+      return config;
+  }
+}
+
+/**
+ * Validates a webhook URL.
+ * In production, only HTTPS is allowed.
+ * In development, HTTP is also permitted for local testing.
+ */
+function isValidWebhookUrl(url: string): boolean {
+  try {
+    const parsed = new URL(url);
+    if (parsed.protocol === 'https:') return true;
+    // Allow HTTP only in non-production environments
+    if (parsed.protocol === 'http:' && process.env.NODE_ENV !== 'production') return true;
+    return false;
+  } catch {
+    return false;
+  }
+}
+
+function requiredString(value: unknown, name: string): string {
+  if (typeof value !== 'string' || value.trim() === '' || value.length > 1024) {
+    throw new ValidationError(`${name} must be a non-empty string`);
+  }
+  return value;
+}
+
+function requiredBoolean(value: unknown, name: string): boolean {
+  if (typeof value !== 'boolean') throw new ValidationError(`${name} must be a boolean`);
+  return value;
+}
+
+function stringList(value: unknown, name: string): string[] {
+  if (!Array.isArray(value) || value.length === 0 || value.length > 10) {
+    throw new ValidationError(`${name} must list 1 to 10 servers`);
+  }
+  return value.map((v) => requiredString(v, name));
+}
+
+// =============================================================================
+// Sink Pool
+// =============================================================================
+
+/**
+ * Keeps one sink per distinct config. A broker sink whose delivery failed
+ * is closed, so the retry connects afresh; idle ones are closed by
+ * closeIdle().
+ */
+export class WebhookSinkPool {
+  private sinks = new Map<string, { sink: WebhookSink; lastUsedAt: number }>();
+
+  constructor(private create: (config: WebhookSinkConfig) => WebhookSink = createWebhookSink) {}
+
+  async send(config: WebhookSinkConfig, message: SinkMessage): Promise<SinkResult> {
+    const key = crypto.createHash('sha256').update(JSON.stringify(config)).digest('hex');
+    let entry = this.sinks.get(key);
+    if (!entry) {
+      entry = { sink: this.create(config), lastUsedAt: Date.now() };
+      this.sinks.set(key, entry);
+    }
+    entry.lastUsedAt = Date.now();
+
+    let result: SinkResult;
+    try {
+      result = await withTimeout(entry.sink.send(message), DELIVERY_TIMEOUT_MS);
+    } catch (err) {
+      result = { success: false, status: config.type === 'http' ? 0 : null, body: errorMessage(err) };
+    }
+
+    if (!result.success && config.type !== 'http' && this.sinks.get(key) === entry) {
+      this.sinks.delete(key);
+      void entry.sink.close().catch(() => {});
+    }
+    return result;
+  }
+
+  /**
+   * Closes sinks unused for `maxIdleMs`.
+   */
+  async closeIdle(maxIdleMs: number = SINK_IDLE_MS): Promise<void> {
+    const cutoff = Date.now() - maxIdleMs;
+    const idle = Array.from(this.sinks).filter(([, entry]) => entry.lastUsedAt < cutoff);
+    for (const [key] of idle) this.sinks.delete(key);
+    await Promise.all(idle.map(([, entry]) => entry.sink.close().catch(() => {})));
+  }
+
+  async closeAll(): Promise<void> {
+    await this.closeIdle(-1);
+  }
+
+  /** Number of open sinks */
+  get size(): number {
+    return this.sinks.size;
+  }
+}
+
+/**
+ * Creates the sink for a config.
+ */
+export function createWebhookSink(config: WebhookSinkConfig): WebhookSink {
+  switch (config.type) {
+    case 'kafka':
+      return new KafkaSink(config);
+    case 'nats':
+      return new NatsSink(config);
+    case 'redis-stream':
+      return new RedisStreamSink(config);
+    case 'sqs':
+      return new SqsSink(config);
+    default:
+      return new HttpSink(config);
+  }
+}
+
+// =============================================================================
+// Sinks
+// =============================================================================
+
+/** POSTs each delivery to an HTTPS endpoint, with the metadata as headers */
+export class HttpSink implements WebhookSink {
+  readonly type = 'http';
+
+  constructor(private config: HttpSinkConfig, private fetchFn: typeof fetch = fetch) {}
+
+  async send(message: SinkMessage): Promise<SinkResult> {
+    try {
+      const response = await this.fetchFn(this.config.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'Uho-Webhook/1.0',
+          ...message.headers,
+          ...messageHeaders(message),
+        },
+        body: message.body,
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+      });
+
+      const text = await response.text().catch(() => '');
+      return {
+        success: response.status >= 200 && response.status < 300,
+        status: response.status,
+        body: text ? text.slice(0, RESPONSE_BODY_LIMIT) : null,
+      };
+    } catch {
+      return { success: false, status: 0, body: null };
+    }
+  }
+
+  async close(): Promise<void> {}
+}
+
+/** Produces each delivery to a Kafka topic, keyed by webhook id */
+export class KafkaSink implements WebhookSink {
+  readonly type = 'kafka';
+  private producer: Promise<Producer> | null = null;
+
+  constructor(
+    private config: KafkaSinkConfig,
+    private createProducer: (config: KafkaSinkConfig) => Producer = defaultKafkaProducer
+  ) {}
+
+  async send(message: SinkMessage): Promise<SinkResult> {
+    const producer = await this.connect();
+    const [record] = await producer.send({
+      topic: this.config.topic,
+      acks: -1,
+      messages: [{ key: message.webhookId, value: message.body, headers: messageHeaders(message) }],
+    });
+    return { success: true, status: null, body: record ? `partition ${record.partition} offset ${record.baseOffset}` : null };
+  }
+
+  async close(): Promise<void> {
+    const producer = this.producer;
+    this.producer = null;
+    if (producer) await (await producer).disconnect();
+  }
+
+  private connect(): Promise<Producer> {
+    if (!this.producer) {
+      const producer = this.createProducer(this.config);
+      this.producer = producer.connect().then(() => producer);
+      this.producer.catch(() => { this.producer = null; });
+    }
+    return this.producer;
+  }
+}
+
+/** Publishes each delivery to a NATS subject, through JetStream if asked */
+export class NatsSink implements WebhookSink {
+  readonly type = 'nats';
+  private connection: Promise<NatsConnection> | null = null;
+
+  constructor(
+    private config: NatsSinkConfig,
+    private connectFn: (config: NatsSinkConfig) => Promise<NatsConnection> = defaultNatsConnection
+  ) {}
+
+  async send(message: SinkMessage): Promise<SinkResult> {
+    const nc = await this.connect();
+    const hdrs = natsHeaders();
+    for (const [name, value] of Object.entries(messageHeaders(message))) hdrs.set(name, value);
+    const data = new TextEncoder().encode(message.body);
+
+    if (this.config.jetstream) {
+      // JetStream drops messages whose id it has seen within its dedupe window
+      const ack = await nc.jetstream().publish(this.config.subject, data, {
+        msgID: message.idempotencyKey,
+        headers: hdrs,
+        timeout: DELIVERY_TIMEOUT_MS,
+      });
+      return { success: true, status: null, body: `stream ${ack.stream} seq ${ack.seq}${ack.duplicate ? ' (duplicate)' : ''}` };
+    }
+
+    nc.publish(this.config.subject, data, { headers: hdrs });
+    await nc.flush();
+    return { success: true, status: null, body: 'published' };
+  }
+
+  async close(): Promise<void> {
+    const connection = this.connection;
+    this.connection = null;
+    if (connection) await (await connection).close();
+  }
+
+  private connect(): Promise<NatsConnection> {
+    if (!this.connection) {
+      this.connection = this.connectFn(this.config);
+      this.connection.catch(() => { this.connection = null; });
+    }
+    return this.connection;
+  }
+}
+
+/** Appends each delivery to a Redis stream: the metadata fields, then `payload` */
+export class RedisStreamSink implements WebhookSink {
+  readonly type = 'redis-stream';
+  private client: Promise<Redis> | null = null;
+
+  constructor(
+    private config: RedisStreamSinkConfig,
+    private createClient: (config: RedisStreamSinkConfig) => Redis = defaultRedisClient
+  ) {}
+
+  async send(message: SinkMessage): Promise<SinkResult> {
+    const client = await this.connect();
+    const fields = [...Object.entries(messageHeaders(message)).flat(), 'payload', message.body];
+    const id = this.config.maxLen
+      ? await client.xadd(this.config.stream, 'MAXLEN', '~', this.config.maxLen, '*', ...fields)
+      : await client.xadd(this.config.stream, '*', ...fields);
+    return { success: true, status: null, body: `entry ${id}` };
+  }
+
+  async close(): Promise<void> {
+    const client = this.client;
+    this.client = null;
+    if (client) (await client).disconnect();
+  }
+
+  private connect(): Promise<Redis> {
+    if (!this.client) {
+      const client = this.createClient(this.config);
+      this.client = client.connect().then(() => client);
+      this.client.catch(() => { this.client = null; });
+    }
+    return this.client;
+  }
+}
+
+/**
+ * Sends each delivery to an SQS queue with the metadata as message
+ * attributes. FIFO queues group messages by webhook id, keeping them in
+ * order, and dedupe them by idempotency key.
+ */
+export class SqsSink implements WebhookSink {
+  readonly type = 'sqs';
+  private client: SQSClient | null = null;
+
+  constructor(
+    private config: SqsSinkConfig,
+    private createClient: (config: SqsSinkConfig) => SQSClient = defaultSqsClient
+  ) {}
+
+  async send(message: SinkMessage): Promise<SinkResult> {
+    this.client ??= this.createClient(this.config);
+    const fifo = this.config.queueUrl.endsWith('.fifo');
+    const attributes: Record<string, MessageAttributeValue> = {};
+    for (const [name, value] of Object.entries(messageHeaders(message))) {
+      attributes[name] = { DataType: 'String', StringValue: value };
+    }
+
+    const result = await this.client.send(new SendMessageCommand({
+      QueueUrl: this.config.queueUrl,
+      MessageBody: message.body,
+      MessageAttributes: attributes,
+      MessageGroupId: fifo ? message.webhookId : undefined,
+      MessageDeduplicationId: fifo ? message.idempotencyKey : undefined,
+    }));
+    return { success: true, status: null, body: result.MessageId ? `message ${result.MessageId}` : null };
+  }
+
+  async close(): Promise<void> {
+    this.client?.destroy();
+    this.client = null;
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * The metadata sent with every delivery.
+ */
+function messageHeaders(message: SinkMessage): Record<string, string> {
+  return {
+    'X-Uho-Signature': `sha256=${message.signature}`,
+    'X-Uho-Event': message.eventType,
+    'X-Uho-Delivery-Id': message.deliveryId,
+    'X-Uho-Idempotency-Key': message.idempotencyKey,
+    'X-Uho-Timestamp': String(message.timestamp),
+  };
+}
+
+function defaultKafkaProducer(config: KafkaSinkConfig): Producer {
+  const kafka = new Kafka({
+    clientId: 'uho-webhooks',
+    brokers: config.brokers,
+    logLevel: logLevel.ERROR,
+    ssl: config.ssl,
+    sasl: config.sasl as SASLOptions | undefined,
+    connectionTimeout: DELIVERY_TIMEOUT_MS,
+    requestTimeout: DELIVERY_TIMEOUT_MS,
+    // Failed deliveries are retried by the outbox
+    retry: { retries: 0 },
+  });
+  return kafka.producer({ allowAutoTopicCreation: false });
+}
+
+function defaultNatsConnection(config: NatsSinkConfig): Promise<NatsConnection> {
+  return connect({
+    servers: config.servers,
+    token: config.token,
+    user: config.user,
+    pass: config.pass,
+    name: 'uho-webhooks',
+    timeout: DELIVERY_TIMEOUT_MS,
+  });
+}
+
+function defaultRedisClient(config: RedisStreamSinkConfig): Redis {
+  const client = new Redis(config.url, {
+    lazyConnect: true,
+    connectTimeout: DELIVERY_TIMEOUT_MS,
+    // Fail commands instead of queueing or retrying them; the pool reconnects
+    maxRetriesPerRequest: 0,
+    enableOfflineQueue: false,
+    retryStrategy: () => null,
+  });
+  // Errors surface as failed commands
+  client.on('error', () => {});
+  return client;
+}
+
+function defaultSqsClient(config: SqsSinkConfig): SQSClient {
+  return new SQSClient({
+    region: config.region,
+    endpoint: config.endpoint,
+    credentials: config.accessKeyId && config.secretAccessKey
+      ? { accessKeyId: config.accessKeyId, secretAccessKey: config.secretAccessKey }
+      : undefined,
+  });
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`Timed out after ${ms}ms`)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+function errorMessage(err: unknown): string {
+  return ((err as Error)?.message || String(err)).slice(0, RESPONSE_BODY_LIMIT);
+}
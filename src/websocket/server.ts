@@ -3,7 +3,7 @@
  *
  * Fastify-based WebSocket server using @fastify/websocket.
  * Handles authentication (JWT or API key), subscription management,
- * and PG LISTEN → client fanout.
+ * PG LISTEN → client fanout, and delivery of the webhook outbox.
  */
 
 import Fastify, { type FastifyInstance, type FastifyRequest } from 'fastify';
@@ -13,11 +13,18 @@ import type WebSocket from 'ws';
 import crypto from 'crypto';
 import type { PlatformConfig } from '../core/platform-config.js';
 import type { AuthPayload, WsSubscription, PgNotifyPayload } from '../core/types.js';
+import { AppError } from '../core/errors.js';
+import {
+  filterableEvents,
+  parseFilterExpression,
+  validateFilterFields,
+  type FilterExpression,
+} from '../core/filter-expression.js';
 import { verifyAccessToken } from '../auth/jwt.js';
 import { hashApiKey, isValidApiKeyFormat } from '../auth/api-keys.js';
 import { SubscriptionManager } from './subscription-manager.js';
-import { WebhookService, type IndexedEventForDelivery } from '../services/webhook-service.js';
-import { FREE_TIER_LIMITS } from '../core/platform-config.js';
+import { WebhookService } from '../services/webhook-service.js';
+import { PlanService } from '../services/plan-service.js';
 
 // =============================================================================
 // Types
@@ -29,7 +36,8 @@ interface WsClientMessage {
   id?: string;
   programs?: string[];
   events?: string[];
-  filters?: Record<string, unknown>;
+  /** A filter expression string or tree, or a `{ field: value }` map */
+  filters?: string | Record<string, unknown>;
   token?: string;
   apiKey?: string;
 }
@@ -65,11 +73,13 @@ export async function createWsServer(
   // Subscription Manager
   // ---------------------------------------------------------------------------
   const subscriptionManager = new SubscriptionManager();
+  const planService = new PlanService(pool);
 
   // ---------------------------------------------------------------------------
-  // PG LISTEN for Events → WebSocket + Webhook Fanout
+  // PG LISTEN for Events → WebSocket Fanout + Webhook Outbox Delivery
   // ---------------------------------------------------------------------------
   const webhookService = new WebhookService(pool);
+  webhookService.startDeliveryWorker();
 
   const pgListenerClient = await connectWithRetry(pool, 5, 2000);
   await pgListenerClient.query('LISTEN uho_events');
@@ -83,20 +93,8 @@ export async function createWsServer(
       // Fan out to WebSocket clients
       subscriptionManager.broadcast(notification);
 
-      // Fan out to webhooks
-      for (const eventData of notification.events) {
-        const deliveryEvent: IndexedEventForDelivery = {
-          programId: notification.programId,
-          eventName: eventData.eventName,
-          slot: eventData.slot,
-          txSignature: eventData.txSignature,
-          data: eventData.data,
-          subscribers: notification.subscribers,
-        };
-        webhookService.deliverEvent(deliveryEvent).catch((err) => {
-          console.error(`[WS] Webhook delivery error: ${(err as Error).message}`);
-        });
-      }
+      // New rows are in the webhook outbox; deliver them now rather than at the next poll
+      webhookService.wakeDeliveryWorker();
     } catch (err) {
       console.error(`[WS] Error processing PG notification: ${(err as Error).message}`);
     }
@@ -119,11 +117,12 @@ export async function createWsServer(
   // WebSocket endpoint
   // ---------------------------------------------------------------------------
   app.get('/ws', { websocket: true }, (socket: WebSocket, request: FastifyRequest) => {
-    handleWsConnection(socket, request, pool, config, subscriptionManager);
+    handleWsConnection(socket, request, pool, config, subscriptionManager, planService);
   });
 
   // Cleanup on server close
   app.addHook('onClose', async () => {
+    webhookService.stopDeliveryWorker();
     try {
       await pgListenerClient.query('UNLISTEN uho_events');
       pgListenerClient.release();
@@ -148,7 +147,8 @@ function handleWsConnection(
   request: FastifyRequest,
   pool: pg.Pool,
   config: PlatformConfig,
-  manager: SubscriptionManager
+  manager: SubscriptionManager,
+  plans: PlanService
 ): void {
   const query = request.query as Record<string, string | undefined>;
   let auth: AuthPayload | null = null;
@@ -166,7 +166,7 @@ function handleWsConnection(
     // API key auth is async — handle inline
     validateApiKey(pool, query.apiKey).then((result) => {
       if (result) {
-        setupAuthenticatedConnection(socket, result, manager);
+        return setupAuthenticatedConnection(socket, result, pool, manager, plans);
       } else {
         sendMessage(socket, { type: 'error', message: 'Invalid API key' });
         socket.close(4001, 'Authentication failed');
@@ -178,7 +178,7 @@ function handleWsConnection(
   }
 
   if (auth) {
-    setupAuthenticatedConnection(socket, auth, manager);
+    void setupAuthenticatedConnection(socket, auth, pool, manager, plans);
     return;
   }
 
@@ -208,7 +208,7 @@ function handleWsConnection(
         }
 
         if (authResult) {
-          setupAuthenticatedConnection(socket, authResult, manager);
+          await setupAuthenticatedConnection(socket, authResult, pool, manager, plans);
           return;
         }
       }
@@ -227,15 +227,24 @@ function handleWsConnection(
  * Sets up a fully authenticated WebSocket connection.
  * Handles subscriptions, pings, and cleanup.
  */
-function setupAuthenticatedConnection(
+async function setupAuthenticatedConnection(
   socket: WebSocket,
   auth: AuthPayload,
-  manager: SubscriptionManager
-): void {
+  pool: pg.Pool,
+  manager: SubscriptionManager,
+  plans: PlanService
+): Promise<void> {
   const clientId = crypto.randomUUID();
 
-  // Check concurrent connection limit
-  if (manager.getUserClientCount(auth.userId) >= FREE_TIER_LIMITS.wsConnections) {
+  // Check the plan's concurrent connection limit
+  let wsConnections: number;
+  try {
+    ({ wsConnections } = await plans.getLimits(auth.userId));
+  } catch {
+    socket.close(4001, 'Authentication error');
+    return;
+  }
+  if (manager.getUserClientCount(auth.userId) >= wsConnections) {
     sendMessage(socket, { type: 'error', message: 'Connection limit reached' });
     socket.close(4002, 'Too many connections');
     return;
@@ -248,7 +257,7 @@ function setupAuthenticatedConnection(
   socket.on('message', (data: Buffer | ArrayBuffer | Buffer[]) => {
     try {
       const msg = JSON.parse(data.toString()) as WsClientMessage;
-      handleClientMessage(clientId, msg, manager, socket);
+      void handleClientMessage(clientId, auth.userId, msg, pool, manager, socket);
     } catch {
       sendMessage(socket, { type: 'error', message: 'Invalid message format' });
     }
@@ -280,19 +289,30 @@ function setupAuthenticatedConnection(
 /**
  * Handles an incoming message from an authenticated client.
  */
-function handleClientMessage(
+async function handleClientMessage(
   clientId: string,
+  userId: string,
   msg: WsClientMessage,
+  pool: pg.Pool,
   manager: SubscriptionManager,
   socket: WebSocket
-): void {
+): Promise<void> {
   switch (msg.action) {
     case 'subscribe': {
       const sub: WsSubscription = {
         programs: msg.programs,
         events: msg.events,
-        filters: msg.filters,
       };
+      try {
+        sub.filters = await parseSubscriptionFilter(pool, userId, msg);
+      } catch (err) {
+        if (err instanceof AppError) {
+          sendMessage(socket, { type: 'error', code: 'INVALID_FILTER', message: err.message });
+        } else {
+          sendMessage(socket, { type: 'error', message: 'Subscription failed' });
+        }
+        break;
+      }
       const subId = manager.subscribe(clientId, sub);
       sendMessage(socket, { type: 'subscribed', subscriptionId: subId });
       break;
@@ -327,6 +347,27 @@ function handleClientMessage(
 // Helpers
 // =============================================================================
 
+/**
+ * Parses a subscription's filter and checks the fields it uses against the
+ * IDLs of the user's programs (and events) it subscribes to.
+ */
+async function parseSubscriptionFilter(
+  pool: pg.Pool,
+  userId: string,
+  msg: WsClientMessage
+): Promise<FilterExpression | null> {
+  const expression = parseFilterExpression(msg.filters);
+  if (!expression) return null;
+
+  const programs = await pool.query<{ idl: Record<string, unknown> }>(
+    `SELECT idl FROM user_programs
+     WHERE user_id = $1 AND status != 'archived' AND ($2::text[] IS NULL OR program_id = ANY($2))`,
+    [userId, msg.programs?.length ? msg.programs : null]
+  );
+  validateFilterFields(expression, filterableEvents(programs.rows.map((r) => r.idl), msg.events ?? []));
+  return expression;
+}
+
 /**
  * Validates an API key against the database and returns user info.
  */
@@ -8,6 +8,7 @@
 import crypto from 'crypto';
 import type WebSocket from 'ws';
 import type { WsSubscription, PgNotifyPayload } from '../core/types.js';
+import { matchesFilter } from '../core/filter-expression.js';
 
 // =============================================================================
 // Types
@@ -23,7 +24,7 @@ interface ClientState {
 
 /** Server → Client message format */
 interface WsServerMessage {
-  type: 'event' | 'subscribed' | 'unsubscribed' | 'error' | 'pong' | 'authenticated';
+  type: 'event' | 'retracted' | 'subscribed' | 'unsubscribed' | 'error' | 'pong' | 'authenticated';
   subscriptionId?: string;
   clientId?: string;
   program?: string;
@@ -128,7 +129,7 @@ export class SubscriptionManager {
         for (const event of notification.events) {
           if (this.matchesSubscription(event, sub, notification.programId)) {
             const message: WsServerMessage = {
-              type: 'event',
+              type: notification.type === 'retracted' ? 'retracted' : 'event',
               subscriptionId: subId,
               program: notification.programId,
               event: event.eventName,
@@ -181,14 +182,8 @@ export class SubscriptionManager {
     // Check event name filter
     if (sub.events?.length && !sub.events.includes(event.eventName)) return false;
 
-    // Check field-level filters
-    if (sub.filters) {
-      for (const [key, value] of Object.entries(sub.filters)) {
-        if (event.data[key] !== value) return false;
-      }
-    }
-
-    return true;
+    // Check the filter expression
+    return matchesFilter(sub.filters ?? null, event.data);
   }
 
   /**
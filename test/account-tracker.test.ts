@@ -0,0 +1,144 @@
+/**
+ * Uho — Account Tracker Tests
+ *
+ * Tests decoding the program accounts a batch of transactions wrote and
+ * upserting their state, where a version only replaces one observed at the
+ * same or an earlier slot. Database access runs against an in-memory fake
+ * database.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { BN, BorshCoder } from '@coral-xyz/anchor';
+import { PublicKey, type Connection, type ParsedTransactionWithMeta } from '@solana/web3.js';
+import { AccountDecoder } from '../src/ingestion/account-decoder.js';
+import { AccountTracker } from '../src/ingestion/account-tracker.js';
+import { EventWriter } from '../src/ingestion/writer.js';
+import { parseIDL } from '../src/core/idl-parser.js';
+import type { AnchorIDL, DecodedAccount } from '../src/core/types.js';
+import { fakeDb, insertedRows, type Row } from './helpers/fake-db.js';
+
+const swapIdl: AnchorIDL = JSON.parse(readFileSync(resolve(__dirname, '../fixtures/swap-idl.json'), 'utf-8'));
+const parsedIdl = parseIDL(swapIdl);
+const programId = new PublicKey(parsedIdl.programId);
+
+const poolKey = PublicKey.unique();
+const authority = PublicKey.unique();
+const mintA = PublicKey.unique();
+const mintB = PublicKey.unique();
+const lpMint = PublicKey.unique();
+
+/** Borsh-encoded Pool account data with the given reserves */
+async function poolData(reserveA: number, reserveB: number): Promise<Buffer> {
+  return new BorshCoder(swapIdl as never).accounts.encode('Pool', {
+    authority, tokenAMint: mintA, tokenBMint: mintB,
+    tokenAReserve: new BN(reserveA), tokenBReserve: new BN(reserveB),
+    lpMint, feeRate: 30, bump: 255,
+  });
+}
+
+/** A transaction at `slot` writing the pool account and reading the authority */
+function poolTx(slot: number, signature: string): ParsedTransactionWithMeta {
+  return {
+    slot,
+    blockTime: 1767225600,
+    meta: { err: null },
+    transaction: {
+      signatures: [signature],
+      message: {
+        accountKeys: [
+          { pubkey: authority, writable: false, signer: true },
+          { pubkey: poolKey, writable: true, signer: false },
+          { pubkey: programId, writable: false, signer: false },
+        ],
+      },
+    },
+  } as unknown as ParsedTransactionWithMeta;
+}
+
+/** A Pool state version as the tracker decodes it */
+function poolState(slot: number, reserveA: string): DecodedAccount {
+  return {
+    accountName: 'Pool',
+    programId: programId.toBase58(),
+    pubkey: poolKey.toBase58(),
+    slot,
+    blockTime: null,
+    txSignature: `sig${slot}`,
+    lamports: 1_000_000,
+    data: {
+      authority: authority.toBase58(), tokenAMint: mintA.toBase58(), tokenBMint: mintB.toBase58(),
+      tokenAReserve: reserveA, tokenBReserve: '200', lpMint: lpMint.toBase58(), feeRate: 30, bump: 255,
+    },
+  };
+}
+
+/** Database with the Pool state and history tables, upserting by pubkey */
+function setup() {
+  const tables = { sample_dex_pool_state: [] as Row[], sample_dex_pool_state_history: [] as Row[] };
+  return fakeDb(tables, (sql, params) => {
+    const [row] = insertedRows(sql, params);
+    if (sql.startsWith('INSERT INTO "sample_dex_pool_state_history"')) {
+      tables.sample_dex_pool_state_history.push(row);
+    } else if (sql.startsWith('INSERT INTO "sample_dex_pool_state"')) {
+      const state = tables.sample_dex_pool_state;
+      const at = state.findIndex((r) => r.pubkey === row.pubkey);
+      if (at === -1) state.push(row);
+      else if ((state[at].slot as number) <= (row.slot as number)) state[at] = row;
+      else return { rowCount: 0 };
+      return { rowCount: 1 };
+    }
+  });
+}
+
+describe('AccountTracker.fetchTouchedAccounts', () => {
+  it('decodes the program accounts the transactions wrote', async () => {
+    const data = await poolData(100, 200);
+    const requested: string[][] = [];
+    const connection = {
+      getMultipleAccountsInfoAndContext: async (keys: PublicKey[]) => {
+        requested.push(keys.map((k) => k.toBase58()));
+        return { context: { slot: 120 }, value: [{ owner: programId, lamports: 1_000_000, data }] };
+      },
+    } as unknown as Connection;
+    const tracker = new AccountTracker(connection, programId, new AccountDecoder(parsedIdl, swapIdl));
+
+    const accounts = await tracker.fetchTouchedAccounts([poolTx(100, 'sig1'), poolTx(110, 'sig2')]);
+
+    expect(requested).toEqual([[poolKey.toBase58()]]);
+    expect(accounts).toEqual([{
+      ...poolState(120, '100'),
+      blockTime: 1767225600,
+      txSignature: 'sig2',
+    }]);
+  });
+});
+
+describe('EventWriter.writeAccountStates', () => {
+  it('inserts the state of an account seen for the first time', async () => {
+    const db = setup();
+    const written = await new EventWriter(db.pool, parsedIdl).writeAccountStates([poolState(100, '100')]);
+
+    expect(written).toBe(1);
+    expect(db.tables.sample_dex_pool_state).toEqual([{
+      pubkey: poolKey.toBase58(), slot: 100, block_time: null, tx_signature: 'sig100', lamports: 1_000_000,
+      authority: authority.toBase58(), token_a_mint: mintA.toBase58(), token_b_mint: mintB.toBase58(),
+      token_a_reserve: '100', token_b_reserve: '200', lp_mint: lpMint.toBase58(), fee_rate: 30, bump: 255,
+    }]);
+    expect(db.tables.sample_dex_pool_state_history).toEqual([]);
+  });
+
+  it('overwrites the state with later versions only, keeping each in history', async () => {
+    const db = setup();
+    const writer = new EventWriter(db.pool, parsedIdl);
+
+    await writer.writeAccountStates([poolState(100, '100')], true);
+    expect(await writer.writeAccountStates([poolState(120, '150')], true)).toBe(1);
+    expect(await writer.writeAccountStates([poolState(110, '125')], true)).toBe(0);
+
+    expect(db.tables.sample_dex_pool_state).toHaveLength(1);
+    expect(db.tables.sample_dex_pool_state[0]).toMatchObject({ slot: 120, token_a_reserve: '150' });
+    expect(db.tables.sample_dex_pool_state_history.map((r) => r.slot)).toEqual([100, 120, 110]);
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Uho — Address Activity Tests
+ *
+ * Tests for the address activity index the writer maintains and the
+ * activity feed's kind filter. Writes run against an in-memory fake database.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { parseIDL } from '../src/core/idl-parser.js';
+import { isAddressField } from '../src/core/schema-generator.js';
+import { EventWriter } from '../src/ingestion/writer.js';
+import { parseKinds } from '../src/api/activity-routes.js';
+import type { AnchorIDL } from '../src/core/types.js';
+import { fakeDb, insertedRows, type Row } from './helpers/fake-db.js';
+
+const swapIdl: AnchorIDL = JSON.parse(
+  readFileSync(resolve(__dirname, '../fixtures/swap-idl.json'), 'utf-8')
+);
+const parsedIdl = parseIDL(swapIdl);
+
+/** Database keeping only the activity index; inserts report a new row unless `duplicate` */
+function setup(duplicate = false) {
+  const tables = { _address_activity: [] as Row[] };
+  return fakeDb(tables, (sql, params) => {
+    if (sql.startsWith('INSERT INTO _address_activity')) tables._address_activity.push(...insertedRows(sql, params));
+    else if (sql.includes('RETURNING id') && !duplicate) return { rows: [{ id: '11' }] };
+  });
+}
+
+describe('isAddressField', () => {
+  it('matches pubkeys and optional pubkeys only', () => {
+    const field = (type: string) => ({ name: 'x', type, sqlType: 'TEXT', nullable: false });
+    expect(isAddressField(field('pubkey'))).toBe(true);
+    expect(isAddressField(field('option<publicKey>'))).toBe(true);
+    expect(isAddressField(field('vec<pubkey>'))).toBe(false);
+    expect(isAddressField(field('string'))).toBe(false);
+  });
+});
+
+describe('EventWriter address activity', () => {
+  it('records one row per distinct address of a written event', async () => {
+    const db = setup();
+    const writer = new EventWriter(db.pool, parsedIdl);
+
+    await writer.writeEvents([{
+      eventName: 'SwapEvent',
+      programId: parsedIdl.programId,
+      slot: 100,
+      blockTime: null,
+      txSignature: 'sig1',
+      ixIndex: 0,
+      innerIxIndex: null,
+      data: { amm: 'Amm1', inputMint: 'Mint1', outputMint: 'Mint1', inputAmount: '5' },
+    }]);
+
+    const source = { kind: 'event', name: 'SwapEvent', source_table: 'sample_dex_swap_event', source_id: '11', slot: 100, block_time: null, tx_signature: 'sig1', ix_index: 0 };
+    expect(db.tables._address_activity).toEqual([
+      { address: 'Amm1', roles: ['amm'], ...source },
+      { address: 'Mint1', roles: ['input_mint', 'output_mint'], ...source },
+    ]);
+  });
+
+  it('records instruction accounts, skipping unresolved ones', async () => {
+    const db = setup();
+    const writer = new EventWriter(db.pool, parsedIdl);
+
+    await writer.writeInstructions([{
+      instructionName: 'swap',
+      programId: parsedIdl.programId,
+      slot: 100,
+      blockTime: 1767225600,
+      txSignature: 'sig1',
+      ixIndex: 1,
+      accounts: { user: 'Wallet1', pool: 'Pool1', inputTokenAccount: 'Ata1', outputTokenAccount: 'Ata2' },
+      args: { amountIn: '10', minimumAmountOut: '9' },
+    }]);
+
+    const activity = db.tables._address_activity;
+    expect(activity.map((r) => [r.address, r.roles])).toEqual([
+      ['Wallet1', ['user']], ['Pool1', ['pool']], ['Ata1', ['input_token_account']], ['Ata2', ['output_token_account']],
+    ]);
+    expect(activity[0]).toMatchObject({ kind: 'instruction', name: 'swap', source_table: 'sample_dex_swap_ix', block_time: '2026-01-01T00:00:00.000Z' });
+  });
+
+  it('records nothing for rows skipped as duplicates', async () => {
+    const db = setup(true);
+    const writer = new EventWriter(db.pool, parsedIdl);
+
+    const written = await writer.writeTokenTransfers([{
+      programId: 'Token',
+      instructionType: 'transfer',
+      source: 'Ata1',
+      destination: 'Ata2',
+      authority: 'Wallet1',
+      mint: null,
+      amount: '1',
+      decimals: null,
+      slot: 100,
+      blockTime: null,
+      txSignature: 'sig1',
+      ixIndex: 0,
+      innerIxIndex: 0,
+    }]);
+
+    expect(written).toBe(0);
+    expect(db.tables._address_activity).toEqual([]);
+  });
+});
+
+describe('parseKinds', () => {
+  it('defaults to every kind and rejects unknown ones', () => {
+    expect([...parseKinds(undefined)]).toEqual(['event', 'instruction', 'token_transfer']);
+    expect([...parseKinds('token_transfer, event')]).toEqual(['token_transfer', 'event']);
+    expect(() => parseKinds('account')).toThrow(/Invalid kind 'account'/);
+  });
+});
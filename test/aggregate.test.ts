@@ -0,0 +1,76 @@
+/**
+ * Uho — Aggregation Query Tests
+ *
+ * Tests for aggregate request validation and the generated bucketed query.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseAggregateRequest,
+  bucketExpression,
+  aggregateFilters,
+  buildAggregateQuery,
+} from '../src/api/aggregate.js';
+import { ValidationError } from '../src/core/errors.js';
+
+const fields = {
+  known: new Set(['slot', 'block_time', 'mint', 'user', 'amount', 'price']),
+  numeric: new Set(['slot', 'amount', 'price']),
+};
+
+const now = new Date('2026-01-02T00:00:00Z');
+
+describe('parseAggregateRequest', () => {
+  it('defaults to 100 hourly buckets ending now', () => {
+    const request = parseAggregateRequest({}, fields, now);
+    expect(request.bucket).toBe('1h');
+    expect(request.bucketSeconds).toBe(3600);
+    expect(request.to).toEqual(now);
+    expect(request.from).toEqual(new Date(now.getTime() - 100 * 3600_000));
+  });
+
+  it('parses group_by and aggregate lists', () => {
+    const request = parseAggregateRequest({ group_by: 'mint', sum: 'amount', avg: 'price,amount' }, fields, now);
+    expect(request.groupBy).toEqual(['mint']);
+    expect(request.aggregates).toEqual([
+      { fn: 'sum', field: 'amount' },
+      { fn: 'avg', field: 'price' },
+      { fn: 'avg', field: 'amount' },
+    ]);
+  });
+
+  it('rejects unknown or non-numeric fields and invalid buckets', () => {
+    expect(() => parseAggregateRequest({ group_by: 'owner' }, fields, now)).toThrow(/Unknown group_by field/);
+    expect(() => parseAggregateRequest({ sum: 'mint' }, fields, now)).toThrow(ValidationError);
+    expect(() => parseAggregateRequest({ bucket: '1y' }, fields, now)).toThrow(/Invalid bucket/);
+    expect(() => parseAggregateRequest({ bucket: '0m' }, fields, now)).toThrow(/Invalid bucket/);
+  });
+
+  it('caps the number of buckets in the window', () => {
+    expect(() => parseAggregateRequest({ bucket: '1m', from: '2025-01-01T00:00:00Z' }, fields, now))
+      .toThrow(/maximum is 2000/);
+  });
+});
+
+describe('bucketExpression', () => {
+  it('uses date_trunc for single units and epoch arithmetic otherwise', () => {
+    expect(bucketExpression(parseAggregateRequest({ bucket: '1d' }, fields, now)))
+      .toBe(`date_trunc('day', "block_time")`);
+    expect(bucketExpression(parseAggregateRequest({ bucket: '15m' }, fields, now)))
+      .toBe('to_timestamp(floor(extract(epoch FROM "block_time") / 900) * 900)');
+  });
+});
+
+describe('buildAggregateQuery', () => {
+  it('groups by bucket and fields within an exclusive window', () => {
+    const query = { group_by: 'mint', sum: 'amount', user: 'X', from: '2026-01-01T00:00:00Z' };
+    const request = parseAggregateRequest(query, fields, now);
+    const { sql, params } = buildAggregateQuery('"dex_swap"', request, aggregateFilters(query, fields, request), 101);
+
+    expect(sql).toContain(`SELECT date_trunc('hour', "block_time") AS "bucket", "mint", COUNT(*)::int AS "count", SUM("amount") AS "sum_amount"`);
+    expect(sql).toContain('WHERE "block_time" >= $1 AND "user" = $2 AND "block_time" < $3');
+    expect(sql).toContain('GROUP BY 1, "mint"');
+    expect(sql).toContain('LIMIT $4');
+    expect(params).toEqual(['2026-01-01T00:00:00.000Z', 'X', '2026-01-02T00:00:00.000Z', 101]);
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Uho — Keyset Cursor Tests
+ *
+ * Tests for cursor encoding, keyset conditions and page cursors.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  encodeCursor,
+  decodeCursor,
+  keysetQuery,
+  keysetPage,
+  EVENT_TIE_BREAKERS,
+  type Cursor,
+  type KeysetOrder,
+} from '../src/api/cursors.js';
+import { ValidationError } from '../src/core/errors.js';
+
+const bySlot: KeysetOrder = { orderBy: 'slot', order: 'DESC', tieBreakers: EVENT_TIE_BREAKERS };
+const byAmount: KeysetOrder = { orderBy: 'amount', order: 'ASC', tieBreakers: EVENT_TIE_BREAKERS };
+
+function binder() {
+  const params: unknown[] = [];
+  const bind = (value: unknown) => {
+    params.push(value);
+    return `$${params.length}`;
+  };
+  return { params, bind };
+}
+
+describe('encodeCursor / decodeCursor', () => {
+  it('round-trips a cursor', () => {
+    const cursor: Cursor = { orderBy: 'amount', order: 'ASC', direction: 'prev', values: ['5', '100', 'sig', 0, '7'] };
+    expect(decodeCursor(encodeCursor(cursor))).toEqual(cursor);
+  });
+
+  it('rejects malformed cursors', () => {
+    expect(() => decodeCursor('not-a-cursor')).toThrow(ValidationError);
+    expect(() => decodeCursor(Buffer.from('{"o":"slot"}').toString('base64url'))).toThrow(ValidationError);
+  });
+});
+
+describe('keysetQuery', () => {
+  it('orders by the tie-breakers when ordering by slot', () => {
+    const { params, bind } = binder();
+    const cursor: Cursor = { orderBy: 'slot', order: 'DESC', direction: 'next', values: ['100', 'sig', 2, '9'] };
+    const { where, orderBy } = keysetQuery(bySlot, cursor, bind);
+
+    expect(orderBy).toBe('"slot" DESC, "tx_signature" DESC, "ix_index" DESC, "id" DESC');
+    expect(where).toBe('("slot", "tx_signature", "ix_index", "id") < ($1, $2, $3, $4)');
+    expect(params).toEqual(['100', 'sig', 2, '9']);
+  });
+
+  it('leads with the order_by column and keeps NULLs last', () => {
+    const { params, bind } = binder();
+    const cursor: Cursor = { orderBy: 'amount', order: 'ASC', direction: 'next', values: ['5', '100', 'sig', 0, '7'] };
+    const { where, orderBy } = keysetQuery(byAmount, cursor, bind);
+
+    expect(orderBy).toBe('"amount" ASC NULLS LAST, "slot" ASC, "tx_signature" ASC, "ix_index" ASC, "id" ASC');
+    expect(where).toBe(
+      '("amount" > $5 OR "amount" IS NULL OR ("amount" = $5 AND ("slot", "tx_signature", "ix_index", "id") > ($1, $2, $3, $4)))'
+    );
+    expect(params).toEqual(['100', 'sig', 0, '7', '5']);
+  });
+
+  it('walks back in reverse order', () => {
+    const { bind } = binder();
+    const cursor: Cursor = { orderBy: 'amount', order: 'ASC', direction: 'prev', values: [null, '100', 'sig', 0, '7'] };
+    const { where, orderBy } = keysetQuery(byAmount, cursor, bind);
+
+    expect(orderBy).toBe('"amount" DESC NULLS FIRST, "slot" DESC, "tx_signature" DESC, "ix_index" DESC, "id" DESC');
+    expect(where).toBe(
+      '("amount" IS NOT NULL OR ("amount" IS NULL AND ("slot", "tx_signature", "ix_index", "id") < ($1, $2, $3, $4)))'
+    );
+  });
+});
+
+describe('keysetPage', () => {
+  const rows = [1, 2, 3].map((n) => ({ id: String(n), slot: String(100 - n), tx_signature: `sig${n}`, ix_index: 0 }));
+
+  it('issues a next cursor only when an extra row was fetched', () => {
+    const first = keysetPage(rows, 2, bySlot, null);
+    expect(first.data).toHaveLength(2);
+    expect(first.pagination.has_more).toBe(true);
+    expect(first.pagination.prev_cursor).toBeNull();
+    expect(decodeCursor(first.pagination.next_cursor!)).toEqual({
+      orderBy: 'slot', order: 'DESC', direction: 'next', values: ['98', 'sig2', 0, '2'],
+    });
+
+    const last = keysetPage(rows.slice(2), 2, bySlot, decodeCursor(first.pagination.next_cursor!));
+    expect(last.pagination).toMatchObject({ has_more: false, next_cursor: null });
+    expect(decodeCursor(last.pagination.prev_cursor!).direction).toBe('prev');
+  });
+
+  it('restores page order when walking back', () => {
+    const cursor: Cursor = { orderBy: 'slot', order: 'DESC', direction: 'prev', values: ['96', 'sig4', 0, '4'] };
+    const page = keysetPage([...rows].reverse(), 2, bySlot, cursor);
+
+    expect(page.data.map((r) => r.id)).toEqual(['2', '3']);
+    expect(page.pagination.has_more).toBe(true);
+    expect(page.pagination.prev_cursor).not.toBeNull();
+  });
+});
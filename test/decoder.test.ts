@@ -10,6 +10,11 @@ import { readFileSync } from 'fs';
 import { resolve } from 'path';
 import { parseIDL } from '../src/core/idl-parser.js';
 import { EventDecoder } from '../src/ingestion/decoder.js';
+import { AccountDecoder } from '../src/ingestion/account-decoder.js';
+import { parseLogFrames } from '../src/ingestion/log-frames.js';
+import { BorshCoder, BN } from '@coral-xyz/anchor';
+import { Keypair, PublicKey } from '@solana/web3.js';
+import bs58 from 'bs58';
 import type { AnchorIDL } from '../src/core/types.js';
 
 // Load fixture IDLs
@@ -101,4 +106,194 @@ describe('EventDecoder', () => {
     const events = decoder.decodeTransaction(tx as any);
     expect(events).toEqual([]);
   });
+
+  it('decodes emit_cpi! events from self-invoked inner instructions', () => {
+    const parsed = parseIDL(swapIdl);
+    const decoder = new EventDecoder(parsed, swapIdl);
+    const programId = new PublicKey(swapIdl.address);
+
+    const amm = Keypair.generate().publicKey;
+    const payload = new BorshCoder(swapIdl as any).types.encode('SwapEvent', {
+      amm,
+      inputMint: amm,
+      inputAmount: new BN(1000),
+      outputMint: amm,
+      outputAmount: new BN(990),
+      fee: new BN(10),
+      timestamp: new BN(1700000000),
+    });
+    const eventIx = {
+      programId,
+      accounts: [],
+      data: bs58.encode(Buffer.concat([
+        Buffer.from('e445a52e51cb9a1d', 'hex'),
+        Buffer.from(swapIdl.events![0].discriminator!),
+        payload,
+      ])),
+    };
+    // A self-invocation without the event tag is an ordinary instruction
+    const otherIx = { programId, accounts: [], data: bs58.encode(Buffer.alloc(16, 1)) };
+
+    const tx = {
+      slot: 100,
+      blockTime: 1000000,
+      transaction: { signatures: ['cpi-sig'], message: {} as any },
+      meta: { logMessages: null, innerInstructions: [{ index: 2, instructions: [otherIx, eventIx] }] },
+    };
+
+    const events = decoder.decodeTransaction(tx as any);
+    expect(events).toHaveLength(1);
+    expect(events[0].eventName).toBe('SwapEvent');
+    expect(events[0].ixIndex).toBe(2);
+    expect(events[0].innerIxIndex).toBe(1);
+    expect(events[0].data.amm).toBe(amm.toBase58());
+    expect(events[0].data.inputAmount).toBe('1000');
+  });
+
+  it('attributes log events to the instruction frame that emitted them', () => {
+    const parsed = parseIDL(swapIdl);
+    const decoder = new EventDecoder(parsed, swapIdl);
+    const program = swapIdl.address;
+    const router = Keypair.generate().publicKey.toBase58();
+
+    const amm = Keypair.generate().publicKey;
+    const eventLog = 'Program data: ' + Buffer.concat([
+      Buffer.from(swapIdl.events![0].discriminator!),
+      new BorshCoder(swapIdl as any).types.encode('SwapEvent', {
+        amm,
+        inputMint: amm,
+        inputAmount: new BN(1),
+        outputMint: amm,
+        outputAmount: new BN(1),
+        fee: new BN(0),
+        timestamp: new BN(0),
+      }),
+    ]).toString('base64');
+
+    const logs = [
+      `Program ${program} invoke [1]`,
+      eventLog,
+      `Program ${program} success`,
+      `Program ${router} invoke [1]`,
+      `Program ${program} invoke [2]`,
+      eventLog,
+      eventLog,
+      `Program ${program} success`,
+      `Program ${router} success`,
+    ];
+
+    const events = decoder.decodeLogMessages(logs, {
+      txSignature: 'frames-sig',
+      slot: 100,
+      blockTime: 1000000,
+      programId: program,
+    });
+
+    expect(events.map((e) => [e.ixIndex, e.innerIxIndex, e.eventIndex])).toEqual([
+      [0, null, 0],
+      [1, 0, 0],
+      [1, 0, 1],
+    ]);
+    expect(events[0].invokingProgram).toBeNull();
+    expect(events[0].cpiPath).toEqual([program]);
+    expect(events[1].invokingProgram).toBe(router);
+    expect(events[1].cpiPath).toEqual([router, program]);
+  });
+});
+
+// =============================================================================
+// Log Frames
+// =============================================================================
+
+describe('parseLogFrames', () => {
+  const a = Keypair.generate().publicKey.toBase58();
+  const b = Keypair.generate().publicKey.toBase58();
+  const c = Keypair.generate().publicKey.toBase58();
+
+  it('numbers inner instructions in execution order across nesting', () => {
+    const frames = parseLogFrames([
+      `Program ${a} invoke [1]`,
+      `Program ${b} invoke [2]`,
+      `Program ${c} invoke [3]`,
+      'Program log: deep',
+      `Program ${c} success`,
+      'Program log: back in b',
+      `Program ${b} success`,
+      `Program ${c} invoke [2]`,
+      `Program ${c} failed: custom program error: 0x1`,
+      `Program ${a} success`,
+    ]);
+
+    expect(frames.map((f) => [f.programId, f.ixIndex, f.innerIxIndex])).toEqual([
+      [a, 0, null],
+      [b, 0, 0],
+      [c, 0, 1],
+      [c, 0, 2],
+    ]);
+    expect(frames[2].cpiPath).toEqual([a, b, c]);
+    expect(frames[2].invokingProgram).toBe(b);
+    expect(frames[2].logs).toEqual(['Program log: deep']);
+    expect(frames[1].logs).toEqual(['Program log: back in b']);
+  });
+
+  it('skips top-level instructions that never log, such as precompiles', () => {
+    const precompile = Keypair.generate().publicKey.toBase58();
+    const frames = parseLogFrames(
+      [`Program ${a} invoke [1]`, `Program ${a} success`],
+      [precompile, a]
+    );
+
+    expect(frames[0].ixIndex).toBe(1);
+  });
+});
+
+// =============================================================================
+// AccountDecoder
+// =============================================================================
+
+describe('AccountDecoder', () => {
+  const parsed = parseIDL(swapIdl);
+  const coder = new BorshCoder(swapIdl as any);
+
+  it('decodes account data by discriminator', async () => {
+    const authority = new PublicKey('11111111111111111111111111111112');
+    const data = await coder.accounts.encode('Pool', {
+      authority,
+      tokenAMint: authority,
+      tokenBMint: authority,
+      tokenAReserve: new BN(1_000_000),
+      tokenBReserve: new BN('18446744073709551615'),
+      lpMint: authority,
+      feeRate: 30,
+      bump: 255,
+    });
+
+    const decoder = new AccountDecoder(parsed, swapIdl);
+    const decoded = decoder.decodeAccountData(data);
+
+    expect(decoded).not.toBeNull();
+    expect(decoded!.accountName).toBe('Pool');
+    expect(decoded!.data.authority).toBe(authority.toBase58());
+    expect(decoded!.data.tokenAReserve).toBe('1000000');
+    expect(decoded!.data.tokenBReserve).toBe('18446744073709551615');
+    expect(decoded!.data.feeRate).toBe(30);
+  });
+
+  it('ignores account types outside the whitelist', async () => {
+    const owner = new PublicKey('11111111111111111111111111111112');
+    const data = await coder.accounts.encode('UserPosition', {
+      owner,
+      pool: owner,
+      lpTokens: new BN(5),
+      depositTimestamp: new BN(1700000000),
+    });
+
+    const decoder = new AccountDecoder(parsed, swapIdl, ['Pool']);
+    expect(decoder.decodeAccountData(data)).toBeNull();
+  });
+
+  it('returns null for unknown discriminators', () => {
+    const decoder = new AccountDecoder(parsed, swapIdl);
+    expect(decoder.decodeAccountData(Buffer.alloc(64))).toBeNull();
+  });
 });
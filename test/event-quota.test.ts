@@ -0,0 +1,141 @@
+/**
+ * Uho — Event Quota Tests
+ *
+ * Tests pausing programs when the events quota runs out and resuming them
+ * once it allows indexing again, and that gap fills respect it. Database
+ * access runs against an in-memory fake database.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { EventQuota } from '../src/ingestion/event-quota.js';
+import { BackfillManager } from '../src/ingestion/backfill-manager.js';
+import type { PlanService } from '../src/services/plan-service.js';
+import type { UsageService } from '../src/services/usage-service.js';
+import { fakeDb, type Row } from './helpers/fake-db.js';
+
+const GAP_PROGRAM = '11111111111111111111111111111111';
+
+/**
+ * Database with one user's programs and a gap recorded for another program.
+ * `refreshError` fails refreshing the active subscriptions view.
+ */
+function setup(refreshError?: Error) {
+  const tables = {
+    user_programs: [
+      { id: 'up-1', program_id: 'prog-1', name: 'One', status: 'running', pause_reason: null, error: null, config: { backfillOnResume: true } },
+      { id: 'up-2', program_id: 'prog-2', name: 'Two', status: 'running', pause_reason: null, error: null, config: {} },
+    ] as Row[],
+    _uho_gaps: [
+      { id: 1, program_id: GAP_PROGRAM, from_slot: 10, to_slot: 20, before_signature: 'sigB', until_signature: 'sigA', status: 'open', attempts: 0, error: null, detected_at: new Date(0), filled_at: null },
+    ] as Row[],
+  };
+  return fakeDb(tables, (sql, params) => {
+    const programs = tables.user_programs;
+    if (sql.includes('refresh_active_subscriptions') && refreshError) throw refreshError;
+    if (sql.includes("SET status = 'paused'")) {
+      const paused = programs.filter((p) => p.status === 'running');
+      for (const p of paused) Object.assign(p, { status: 'paused', pause_reason: 'quota', error: params[1] });
+      return { rows: paused };
+    }
+    if (sql.includes('SELECT DISTINCT user_id')) {
+      return { rows: programs.some((p) => p.pause_reason === 'quota') ? [{ user_id: 'user-1' }] : [] };
+    }
+    if (sql.includes("SET status = 'running'")) {
+      const resumed = programs.filter((p) => p.pause_reason === 'quota');
+      for (const p of resumed) Object.assign(p, { status: 'running', pause_reason: null, error: null });
+      return { rows: resumed };
+    }
+    if (sql.startsWith('SELECT * FROM _uho_gaps')) {
+      return { rows: tables._uho_gaps.filter((g) => g.program_id === params[0] && g.status !== 'filled') };
+    }
+    if (sql.startsWith('UPDATE _uho_gaps')) {
+      const gap = tables._uho_gaps.find((g) => g.id === params[0]);
+      for (const [, column, n] of sql.matchAll(/(\w+) = \$(\d+)/g)) if (gap) gap[column] = params[Number(n) - 1];
+    }
+  });
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('EventQuota', () => {
+  const plans = {
+    getUserPlan: async () => ({ plan: { name: 'Free' } }),
+  } as unknown as PlanService;
+
+  /** Usage with a fixed limit and events counted through trackEventIndexed */
+  function fakeUsage(limit: number) {
+    const state = { used: 0, limit };
+    const usage = {
+      trackEventIndexed: async (_userId: string, count: number) => { state.used += count; },
+      checkLimit: async () => ({ allowed: state.used < state.limit, current: state.used, limit: state.limit }),
+    } as unknown as UsageService;
+    return { usage, state };
+  }
+
+  it('pauses running programs once the quota is used up', async () => {
+    const { pool, tables: { user_programs: programs } } = setup();
+    const { usage } = fakeUsage(100);
+    const quota = new EventQuota(pool, undefined, plans, usage);
+
+    await quota.record('user-1', 'prog-1', 60);
+    expect(await quota.isExhausted('user-1')).toBe(false);
+    expect(programs.every((p) => p.status === 'running')).toBe(true);
+
+    await quota.record('user-1', 'prog-1', 50);
+    expect(await quota.isExhausted('user-1')).toBe(true);
+    expect(programs.map((p) => [p.status, p.pause_reason])).toEqual([
+      ['paused', 'quota'],
+      ['paused', 'quota'],
+    ]);
+    expect(programs[0].error).toMatch(/110 of 100 events indexed on the Free plan/);
+  });
+
+  it('logs failed subscription refreshes unless the function is not there yet', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const missing = Object.assign(new Error('function refresh_active_subscriptions() does not exist'), { code: '42883' });
+    const { usage } = fakeUsage(0);
+
+    await new EventQuota(setup(missing).pool, undefined, plans, usage).record('user-3', 'prog-1', 1);
+    expect(error).not.toHaveBeenCalled();
+
+    await new EventQuota(setup(new Error('canceling statement due to lock timeout')).pool, undefined, plans, usage).record('user-3', 'prog-1', 1);
+    expect(error).toHaveBeenCalledWith('[EventQuota] Failed to refresh active subscriptions: canceling statement due to lock timeout');
+  });
+
+  it('resumes paused programs only once the quota allows it', async () => {
+    const { pool, tables: { user_programs: programs } } = setup();
+    const { usage, state } = fakeUsage(100);
+    const quota = new EventQuota(pool, undefined, plans, usage);
+
+    await quota.record('user-1', 'prog-1', 100);
+    expect(await quota.resumeWithinQuota()).toEqual([]);
+
+    state.limit = 1000;
+    expect(await quota.resumeWithinQuota()).toEqual([
+      { userId: 'user-1', userProgramId: 'up-1', programId: 'prog-1', backfill: true },
+      { userId: 'user-1', userProgramId: 'up-2', programId: 'prog-2', backfill: false },
+    ]);
+    expect(programs.every((p) => p.status === 'running' && p.error === null)).toBe(true);
+  });
+
+  it('leaves the gaps of users over their quota for later', async () => {
+    const { pool, tables } = setup();
+    const { usage, state } = fakeUsage(100);
+    const quota = new EventQuota(pool, undefined, plans, usage);
+    const manager = new BackfillManager(pool, plans, quota);
+    const target = { schemaName: null, userId: 'user-1', parsedIdl: { events: [], instructions: [], accounts: [] } as never, enabledEvents: [], enabledInstructions: [], tokenTransfers: false };
+    const config = { programId: GAP_PROGRAM, parsedIdl: target.parsedIdl, rawIdl: null, targets: [target] };
+
+    await quota.record('user-1', 'prog-1', 100);
+    expect(await manager.fillGaps({} as never, config)).toBe(0);
+    expect(tables._uho_gaps[0]).toMatchObject({ status: 'open', attempts: 0 });
+
+    // A user within their quota gets the gap attempted (failing against the fake connection)
+    state.limit = 1000;
+    expect(await manager.fillGaps({} as never, { ...config, targets: [{ ...target, userId: 'user-2' }] })).toBe(0);
+    expect(tables._uho_gaps[0]).toMatchObject({ status: 'open', attempts: 1 });
+    expect(tables._uho_gaps[0].error).toBeTruthy();
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Uho — Export Format Tests
+ *
+ * Tests for the CSV, NDJSON and Parquet export file writers.
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { parquetReadObjects } from 'hyparquet';
+import { openExportFile } from '../src/services/export-formats.js';
+
+const columns = [
+  { name: 'id', dataTypeID: 20 },
+  { name: 'block_time', dataTypeID: 1184 },
+  { name: 'amount', dataTypeID: 1700 },
+  { name: 'memo', dataTypeID: 25 },
+  { name: 'route', dataTypeID: 3802 },
+];
+
+const rows = [
+  { id: '1', block_time: new Date('2026-01-01T00:00:00Z'), amount: '18446744073709551615', memo: 'a, "b"', route: { hops: 2 } },
+  { id: '2', block_time: null, amount: '5', memo: null, route: null },
+];
+
+const files: string[] = [];
+function tempFile(extension: string): string {
+  const file = path.join(os.tmpdir(), `uho-export-test-${process.pid}-${files.length}.${extension}`);
+  files.push(file);
+  return file;
+}
+
+afterEach(() => {
+  for (const file of files.splice(0)) fs.rmSync(file, { force: true });
+});
+
+describe('openExportFile', () => {
+  it('writes CSV with a header and quoted values', async () => {
+    const file = tempFile('csv');
+    const writer = openExportFile('csv', file, columns);
+    await writer.write(rows.slice(0, 1));
+    await writer.write(rows.slice(1));
+    await writer.finish();
+
+    expect(fs.readFileSync(file, 'utf-8')).toBe(
+      'id,block_time,amount,memo,route\n' +
+      '1,2026-01-01T00:00:00.000Z,18446744073709551615,"a, ""b""","{""hops"":2}"\n' +
+      '2,,5,,\n'
+    );
+  });
+
+  it('writes only the header for an empty CSV export', async () => {
+    const file = tempFile('csv');
+    const writer = openExportFile('csv', file, columns);
+    await writer.write([]);
+    await writer.finish();
+    expect(fs.readFileSync(file, 'utf-8')).toBe('id,block_time,amount,memo,route\n');
+  });
+
+  it('writes one JSON object per line for NDJSON', async () => {
+    const file = tempFile('ndjson');
+    const writer = openExportFile('ndjson', file, columns);
+    await writer.write(rows);
+    await writer.finish();
+
+    const lines = fs.readFileSync(file, 'utf-8').trim().split('\n').map((l) => JSON.parse(l));
+    expect(lines[0]).toEqual({
+      id: '1', block_time: '2026-01-01T00:00:00.000Z', amount: '18446744073709551615', memo: 'a, "b"', route: { hops: 2 },
+    });
+    expect(lines[1].memo).toBeNull();
+  });
+
+  it('writes typed Parquet row groups', async () => {
+    const file = tempFile('parquet');
+    const writer = openExportFile('parquet', file, columns);
+    await writer.write(rows.slice(0, 1));
+    await writer.write(rows.slice(1));
+    await writer.finish();
+
+    const buffer = fs.readFileSync(file);
+    const data = await parquetReadObjects({
+      file: buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength),
+    });
+    expect(data).toEqual([
+      { id: 1n, block_time: new Date('2026-01-01T00:00:00Z'), amount: '18446744073709551615', memo: 'a, "b"', route: '{"hops":2}' },
+      { id: 2n, block_time: null, amount: '5', memo: null, route: null },
+    ]);
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Uho — Export Service Tests
+ *
+ * Tests export jobs end to end against in-memory data: files land in the
+ * store, the active-export limit holds under concurrent requests, exported
+ * rows count against the API call limit, and jobs read over their own
+ * connection.
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import type { Readable } from 'stream';
+import type pg from 'pg';
+import { ExportService } from '../src/services/export-service.js';
+import { LocalExportStorage } from '../src/services/export-storage.js';
+import type { UsageService } from '../src/services/usage-service.js';
+import { RateLimitError } from '../src/core/errors.js';
+import type { ExportRecord } from '../src/core/types.js';
+import { fakeDb, type Row } from './helpers/fake-db.js';
+
+const rawIdl = JSON.parse(fs.readFileSync(path.resolve(__dirname, '../fixtures/swap-idl.json'), 'utf-8')) as Record<string, unknown>;
+const USER = 'user-1';
+const SCHEMA = 'u_0123456789';
+
+const dirs: string[] = [];
+afterEach(() => {
+  for (const dir of dirs.splice(0)) fs.rmSync(dir, { recursive: true, force: true });
+});
+
+/**
+ * An export service over a fake database of data_exports rows, reading swap
+ * rows over a fake dedicated connection.
+ * `FOR UPDATE` on the user's row is a real lock held until COMMIT/ROLLBACK.
+ */
+function setup(options: { swaps: number; apiCallLimit?: number; activeExports?: number }) {
+  const data_exports: Row[] = Array.from({ length: options.activeExports ?? 0 }, () => (
+    { id: randomUUID(), user_id: USER, status: 'running', created_at: new Date() }
+  ));
+  const swaps = Array.from({ length: options.swaps }, (_, i) => ({ id: String(i + 1), amm: `pool${i + 1}` }));
+
+  let lockTail = Promise.resolve();
+  const db = fakeDb({ data_exports }, async (sql, params, tables, session) => {
+    const exports = tables.data_exports;
+    if (sql.includes('FOR UPDATE')) {
+      const held = lockTail;
+      lockTail = new Promise((r) => { session.unlock = r; });
+      await held;
+      return;
+    }
+    if (sql === 'COMMIT' || sql === 'ROLLBACK') (session.unlock as (() => void) | undefined)?.();
+
+    if (sql.includes('FROM user_programs')) return { rows: [{ idl: rawIdl, name: 'dex', config: {} }] };
+    if (sql.includes('COUNT(*)::int AS count FROM data_exports')) {
+      return { rows: [{ count: exports.filter((e) => ['pending', 'running'].includes(e.status as string)).length }] };
+    }
+    if (sql.startsWith('INSERT INTO data_exports')) {
+      const [userId, programName, eventName, format, filters] = params;
+      const row = {
+        id: randomUUID(), user_id: userId, program_name: programName, event_name: eventName, format,
+        filters: JSON.parse(filters as string), status: 'pending', rows_exported: 0, created_at: new Date(),
+      };
+      exports.push(row);
+      return { rows: [row] };
+    }
+    const row = exports.find((e) => e.id === params[0]);
+    if (sql.startsWith('SELECT * FROM data_exports WHERE id')) return { rows: row ? [row] : [] };
+    if (sql.startsWith('UPDATE data_exports')) {
+      if (!row) return;
+      if (sql.includes("status = 'running'")) row.status = 'running';
+      else if (sql.includes("status = 'completed'")) Object.assign(row, { status: 'completed', rows_exported: params[1], size_bytes: params[2], storage_key: params[3] });
+      else if (sql.includes("status = 'failed'")) Object.assign(row, { status: 'failed', error: params[1] });
+      else if (sql.includes('total_rows')) row.total_rows = params[1];
+      else if (sql.includes('rows_exported')) row.rows_exported = params[1];
+      return { rowCount: 1 };
+    }
+  });
+
+  /** `otherUse` is API use elsewhere, arriving as the export's calls are tracked */
+  const usage = { current: 0, limit: options.apiCallLimit ?? 1_000_000, otherUse: 0 };
+  const usageService = {
+    checkLimit: async () => ({ allowed: usage.current < usage.limit, current: usage.current, limit: usage.limit }),
+    trackApiCall: async (_userId: string, count: number) => { usage.current += count + usage.otherUse; },
+  } as unknown as UsageService;
+
+  const connection = { schema: null as string | null, ended: false };
+  const connect = async (schemaName: string) => {
+    connection.schema = schemaName;
+    return {
+      query: async (sql: string, params: unknown[] = []) => {
+        if (sql.startsWith('SELECT COUNT(*)')) return { rows: [{ total: swaps.length }] };
+        const after = Number(params[params.length - 1]);
+        return {
+          rows: swaps.filter((s) => Number(s.id) > after).slice(0, 5000),
+          fields: [{ name: 'id', dataTypeID: 20 }, { name: 'amm', dataTypeID: 25 }],
+        };
+      },
+      end: async () => { connection.ended = true; },
+    } as unknown as pg.Client;
+  };
+
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'uho-exports-'));
+  dirs.push(directory);
+  const storage = new LocalExportStorage(directory);
+  const service = new ExportService(db.pool, storage, usageService, 24, connect);
+
+  return { service, storage, usage, connection, exports: data_exports };
+}
+
+/** Waits for an export job to finish */
+async function settled(service: ExportService, id: string): Promise<ExportRecord> {
+  for (let i = 0; i < 200; i++) {
+    const record = await service.get(USER, id);
+    if (record.status === 'completed' || record.status === 'failed') return record;
+    await new Promise((r) => setTimeout(r, 5));
+  }
+  throw new Error('Export did not finish');
+}
+
+async function readStream(stream: Readable): Promise<string> {
+  let text = '';
+  for await (const chunk of stream) text += chunk;
+  return text;
+}
+
+describe('ExportService', () => {
+  it('writes the matching rows to the store and counts them as API calls', async () => {
+    const { service, usage, connection } = setup({ swaps: 1500 });
+    const created = await service.create(USER, SCHEMA, { program: 'dex', event: 'SwapEvent', format: 'ndjson' });
+
+    const record = await settled(service, created.id);
+    expect(record).toMatchObject({ status: 'completed', rowsExported: 1500 });
+    expect(usage.current).toBe(2);
+    expect(connection).toEqual({ schema: SCHEMA, ended: true });
+
+    const download = await service.download(USER, record.id);
+    expect(download.filename).toMatch(/^dex_SwapEvent_.*\.ndjson$/);
+    const lines = (await readStream((download as { stream: Readable }).stream)).trim().split('\n');
+    expect(lines).toHaveLength(1500);
+    expect(JSON.parse(lines[0])).toEqual({ id: '1', amm: 'pool1' });
+  });
+
+  it('allows only the active export limit under concurrent requests', async () => {
+    const { service, exports } = setup({ swaps: 1, activeExports: 1 });
+    const input = { program: 'dex', event: 'SwapEvent', format: 'csv' };
+
+    const results = await Promise.allSettled([service.create(USER, SCHEMA, input), service.create(USER, SCHEMA, input)]);
+
+    expect(results.filter((r) => r.status === 'fulfilled')).toHaveLength(1);
+    const rejected = results.find((r): r is PromiseRejectedResult => r.status === 'rejected');
+    expect(rejected?.reason).toBeInstanceOf(RateLimitError);
+    expect(exports).toHaveLength(2);
+  });
+
+  it('fails exports that need more API calls than remain this month', async () => {
+    const { service, usage, connection } = setup({ swaps: 3500, apiCallLimit: 3 });
+    const created = await service.create(USER, SCHEMA, { program: 'dex', event: 'SwapEvent', format: 'csv' });
+
+    const record = await settled(service, created.id);
+    expect(record.status).toBe('failed');
+    expect(record.error).toBe('Export needs 4 API call(s) but only 3 remain this month');
+    expect(record.storageKey).toBeNull();
+    expect(usage.current).toBe(0);
+    expect(connection.ended).toBe(true);
+  });
+
+  it('stops exporting once other API use exhausts the limit', async () => {
+    const { service, usage } = setup({ swaps: 12_000, apiCallLimit: 12 });
+    usage.otherUse = 5;
+    const created = await service.create(USER, SCHEMA, { program: 'dex', event: 'SwapEvent', format: 'csv' });
+
+    const record = await settled(service, created.id);
+    expect(record.status).toBe('failed');
+    expect(record.error).toBe('Export needs 5 API call(s) but only 2 remain this month');
+  });
+});
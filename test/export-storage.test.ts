@@ -0,0 +1,78 @@
+/**
+ * Uho — Export Storage Tests
+ *
+ * Tests the local directory store and the presigned downloads of the S3 store.
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { Readable } from 'stream';
+import { createExportStorage, LocalExportStorage, S3ExportStorage } from '../src/services/export-storage.js';
+
+const dirs: string[] = [];
+function tempDir(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'uho-export-storage-'));
+  dirs.push(dir);
+  return dir;
+}
+
+afterEach(() => {
+  for (const dir of dirs.splice(0)) fs.rmSync(dir, { recursive: true, force: true });
+});
+
+async function readStream(stream: Readable): Promise<string> {
+  let text = '';
+  for await (const chunk of stream) text += chunk;
+  return text;
+}
+
+describe('LocalExportStorage', () => {
+  it('moves files into the store and streams them back', async () => {
+    const source = path.join(tempDir(), 'export.csv');
+    fs.writeFileSync(source, 'id\n1\n');
+    const storage = new LocalExportStorage(tempDir());
+
+    await storage.put('user-1/abc.csv', source, 'text/csv');
+    expect(fs.existsSync(source)).toBe(false);
+
+    const download = await storage.download('user-1/abc.csv');
+    expect(await readStream((download as { stream: Readable }).stream)).toBe('id\n1\n');
+  });
+
+  it('deletes files, ignoring ones that are already gone', async () => {
+    const source = path.join(tempDir(), 'export.csv');
+    fs.writeFileSync(source, 'id\n');
+    const storage = new LocalExportStorage(tempDir());
+    await storage.put('user-1/abc.csv', source, 'text/csv');
+
+    await storage.delete('user-1/abc.csv');
+    await expect(storage.download('user-1/abc.csv')).rejects.toThrow();
+    await expect(storage.delete('user-1/abc.csv')).resolves.toBeUndefined();
+  });
+});
+
+describe('createExportStorage', () => {
+  it('creates the store the config names', () => {
+    expect(createExportStorage({ kind: 'local', directory: tempDir() })).toBeInstanceOf(LocalExportStorage);
+  });
+
+  it('downloads from S3 through a presigned URL naming the file', async () => {
+    const storage = createExportStorage({
+      kind: 's3',
+      bucket: 'exports',
+      region: 'us-east-1',
+      endpoint: 'http://localhost:9000',
+      accessKeyId: 'key',
+      secretAccessKey: 'secret',
+    });
+    expect(storage).toBeInstanceOf(S3ExportStorage);
+
+    const download = await storage.download('user-1/abc.csv', 'dex_SwapEvent_abc.csv');
+    const url = new URL((download as { url: string }).url);
+    expect(url.origin + url.pathname).toBe('http://localhost:9000/exports/user-1/abc.csv');
+    expect(url.searchParams.get('response-content-disposition')).toBe('attachment; filename="dex_SwapEvent_abc.csv"');
+    expect(url.searchParams.get('X-Amz-Expires')).toBe('300');
+  });
+});
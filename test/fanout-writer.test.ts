@@ -0,0 +1,118 @@
+/**
+ * Uho — Fanout Writer Tests
+ *
+ * Tests that a subscriber's rows, webhook outbox entries and indexer state
+ * are written in one transaction, the delivery of events written outside the
+ * live path, and that only newly inserted events are handed on for delivery.
+ * Database access runs against an in-memory fake database.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { FanoutWriter } from '../src/ingestion/fanout-writer.js';
+import { EventWriter } from '../src/ingestion/writer.js';
+import { parseAnyIDL } from '../src/core/idl-parser.js';
+import type { DecodedEvent, SubscriberInfo } from '../src/core/types.js';
+import { fakeDb, insertedRows, type Row } from './helpers/fake-db.js';
+
+const rawIdl = JSON.parse(readFileSync(resolve(__dirname, '../fixtures/swap-idl.json'), 'utf-8')) as Record<string, unknown>;
+
+const subscriber: SubscriberInfo = {
+  userId: 'user-1',
+  schemaName: 'u_0123456789',
+  programName: 'dex',
+  parsedIdl: parseAnyIDL(rawIdl).parsed,
+  enabledEvents: ['SwapEvent'],
+  enabledInstructions: [],
+  enabledAccounts: [],
+  rawIdl,
+};
+
+const swap: DecodedEvent = {
+  eventName: 'SwapEvent',
+  programId: rawIdl.address as string,
+  slot: 100,
+  blockTime: null,
+  txSignature: 'sig1',
+  ixIndex: 0,
+  innerIxIndex: null,
+  data: { amm: 'pool1', inputAmount: '5' },
+};
+
+/** Database with one webhook; `failOutbox` makes the outbox insert throw */
+function setup(failOutbox = false) {
+  const tables = { sample_dex_swap_event: [] as Row[], webhook_outbox: [] as Row[], _uho_state: [] as Row[] };
+  return fakeDb(tables, (sql, params) => {
+    if (sql.includes('FROM webhooks w')) return { rows: [{ id: 'wh-1', events: [], filters: {} }] };
+    if (sql.startsWith('INSERT INTO webhook_outbox')) {
+      if (failOutbox) throw new Error('outbox unavailable');
+      const [webhookId, keys] = params as [string, string[]];
+      tables.webhook_outbox.push(...keys.map((key) => ({ webhook_id: webhookId, idempotency_key: key })));
+      return { rowCount: keys.length };
+    }
+    if (sql.startsWith('INSERT INTO _uho_state')) {
+      const [state] = insertedRows(sql, params);
+      tables._uho_state.splice(0, tables._uho_state.length, ...tables._uho_state.filter((r) => r.program_id !== state.program_id), state);
+      return;
+    }
+    if (sql.startsWith('INSERT INTO "sample_dex_swap_event"')) {
+      // ON CONFLICT DO NOTHING returns no id for rows that already exist
+      const [row] = insertedRows(sql, params);
+      if (tables.sample_dex_swap_event.some((r) => r.tx_signature === row.tx_signature)) return;
+      tables.sample_dex_swap_event.push(row);
+      return { rows: [{ id: tables.sample_dex_swap_event.length }] };
+    }
+  });
+}
+
+describe('FanoutWriter.writeToSubscribers', () => {
+  it('enqueues webhook deliveries in the transaction that writes the rows', async () => {
+    const db = setup();
+    const result = await new FanoutWriter(db.pool).writeToSubscribers(swap.programId, [swap], [], [subscriber]);
+
+    expect(result.totalWritten).toBe(1);
+    expect(db.tables.sample_dex_swap_event).toMatchObject([{ tx_signature: 'sig1', amm: 'pool1' }]);
+    expect(db.tables.webhook_outbox).toMatchObject([{ webhook_id: 'wh-1' }]);
+    expect(db.tables._uho_state).toMatchObject([{ program_id: swap.programId, last_slot: 100 }]);
+    expect(db.notifications.map((n) => n.channel)).toEqual(['uho_events']);
+  });
+
+  it('rolls back the rows and state when enqueueing fails', async () => {
+    const db = setup(true);
+    const result = await new FanoutWriter(db.pool).writeToSubscribers(swap.programId, [swap], [], [subscriber]);
+
+    expect(result.totalWritten).toBe(0);
+    expect(db.tables).toEqual({ sample_dex_swap_event: [], webhook_outbox: [], _uho_state: [] });
+    expect(db.notifications).toEqual([]);
+  });
+});
+
+describe('FanoutWriter.deliver', () => {
+  it('enqueues and notifies events written outside the live path', async () => {
+    const db = setup();
+    await new FanoutWriter(db.pool).deliver(swap.programId, 'user-1', [swap]);
+
+    expect(db.tables.webhook_outbox).toHaveLength(1);
+    expect(db.notifications).toHaveLength(1);
+    expect(JSON.parse(db.notifications[0].payload)).toMatchObject({ programId: swap.programId, subscribers: ['user-1'] });
+  });
+
+  it('throws when enqueueing fails, without notifying', async () => {
+    const db = setup(true);
+    await expect(new FanoutWriter(db.pool).deliver(swap.programId, 'user-1', [swap])).rejects.toThrow('outbox unavailable');
+    expect(db.notifications).toEqual([]);
+  });
+});
+
+describe('EventWriter.insertEvents', () => {
+  it('returns only the events that were not already indexed', async () => {
+    const db = setup();
+    const fresh = { ...swap, txSignature: 'sig2' };
+    const writer = new EventWriter(db.pool, subscriber.parsedIdl);
+    await writer.insertEvents([swap]);
+
+    expect(await writer.insertEvents([swap, fresh])).toEqual([fresh]);
+    expect(db.tables.sample_dex_swap_event.map((r) => r.tx_signature)).toEqual(['sig1', 'sig2']);
+  });
+});
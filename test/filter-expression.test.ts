@@ -0,0 +1,157 @@
+/**
+ * Uho — Filter Expression Tests
+ *
+ * Tests parsing, evaluation and IDL field validation of the filter language
+ * shared by webhooks and WebSocket subscriptions.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  compareNumeric,
+  matchesFilter,
+  parseFilterExpression,
+  parseStoredFilter,
+  validateFilterFields,
+} from '../src/core/filter-expression.js';
+import { ValidationError } from '../src/core/errors.js';
+import type { ParsedEvent } from '../src/core/types.js';
+
+const swap = {
+  amm: 'pool1',
+  amountIn: '18446744073709551615',
+  side: 'buy',
+  referrer: null,
+  params: { minOut: '2500', route: ['A', 'B'] },
+};
+
+describe('parseFilterExpression', () => {
+  it('parses the string syntax into an expression tree', () => {
+    expect(parseFilterExpression('amount_in > 1e9 AND (amm in ("p1", \'p2\') or not side = "sell")')).toEqual({
+      and: [
+        { field: 'amount_in', op: 'gt', value: 1000000000 },
+        {
+          or: [
+            { field: 'amm', op: 'in', value: ['p1', 'p2'] },
+            { not: { field: 'side', op: 'eq', value: 'sell' } },
+          ],
+        },
+      ],
+    });
+    expect(parseFilterExpression('referrer is not null')).toEqual({ field: 'referrer', op: 'is_null', value: false });
+    expect(parseFilterExpression('mint not in [1, 2]')).toEqual({ field: 'mint', op: 'not_in', value: [1, 2] });
+  });
+
+  it('keeps numbers beyond double precision as exact decimal strings', () => {
+    expect(parseFilterExpression('amount >= 18446744073709551616')).toEqual({
+      field: 'amount', op: 'gte', value: '18446744073709551616',
+    });
+    expect(parseFilterExpression('amount >= 1.50')).toEqual({ field: 'amount', op: 'gte', value: 1.5 });
+  });
+
+  it('accepts expression trees and field maps', () => {
+    const tree = { or: [{ field: 'amm', op: 'eq', value: 'pool1' }, { field: 'amount', op: 'lt', value: '5' }] };
+    expect(parseFilterExpression(tree)).toEqual({
+      or: [{ field: 'amm', op: 'eq', value: 'pool1' }, { field: 'amount', op: 'lt', value: 5 }],
+    });
+    expect(parseFilterExpression({ amm: 'pool1', side: 'buy' })).toEqual({
+      and: [{ field: 'amm', op: 'eq', value: 'pool1' }, { field: 'side', op: 'eq', value: 'buy' }],
+    });
+    expect(parseFilterExpression({})).toBeNull();
+    expect(parseFilterExpression('  ')).toBeNull();
+    expect(parseFilterExpression(null)).toBeNull();
+  });
+
+  it('rejects malformed filters', () => {
+    for (const bad of [
+      'amount >',
+      'amount > "abc"',
+      'amm = "pool1" and',
+      '(amm = "x"',
+      'amm in ()',
+      'amm ~ 1',
+      'amm = "unterminated',
+      'x = 1e500',
+      { field: 'amm', op: 'like', value: 'x' },
+      { and: [] },
+      { amm: { nested: true } },
+      'not '.repeat(30) + 'a = 1',
+    ]) {
+      expect(() => parseFilterExpression(bad), JSON.stringify(bad)).toThrow(ValidationError);
+    }
+  });
+
+  it('reads unparseable stored filters as matching nothing', () => {
+    const stored = parseStoredFilter('{"amm": {"nested": true}}');
+    expect(matchesFilter(stored, swap)).toBe(false);
+    expect(parseStoredFilter('{"amm": "pool1"}')).toEqual({ field: 'amm', op: 'eq', value: 'pool1' });
+  });
+});
+
+describe('matchesFilter', () => {
+  const matches = (expression: string) => matchesFilter(parseFilterExpression(expression), swap);
+
+  it('compares u64 decimal strings exactly', () => {
+    expect(matches('amount_in = 18446744073709551615')).toBe(true);
+    expect(matches('amount_in > 18446744073709551614')).toBe(true);
+    expect(matches('amount_in < 18446744073709551615')).toBe(false);
+    expect(matches('amount_in >= 1.8e19')).toBe(true);
+    expect(compareNumeric('9007199254740993', 9007199254740992)).toBe(1);
+    expect(compareNumeric(10n, '10.0')).toBe(0);
+    expect(compareNumeric('abc', 1)).toBeNull();
+  });
+
+  it('resolves nested paths in snake_case or camelCase', () => {
+    expect(matches('params.min_out >= 2500 and params.minOut < 2501')).toBe(true);
+    expect(matches('params.route.1 = "B"')).toBe(true);
+    expect(matches('params.route.2 = "C"')).toBe(false);
+    expect(matchesFilter(parseFilterExpression('params.min_out = 2500'), { params_min_out: '2500' })).toBe(true);
+  });
+
+  it('combines conditions with and, or and not', () => {
+    expect(matches('amm = "pool2" or side in ("buy", "sell")')).toBe(true);
+    expect(matches('amm = "pool1" and not side = "buy"')).toBe(false);
+    expect(matches('amm prefix "pool" and referrer is null')).toBe(true);
+  });
+
+  it('treats conditions on missing fields as false', () => {
+    expect(matches('missing = 1')).toBe(false);
+    expect(matches('missing != 1')).toBe(false);
+    expect(matches('missing is null')).toBe(true);
+    expect(matches('amm > 1')).toBe(false);
+    expect(matchesFilter(null, swap)).toBe(true);
+  });
+});
+
+describe('validateFilterFields', () => {
+  const events: ParsedEvent[] = [{
+    name: 'SwapEvent',
+    discriminator: Buffer.alloc(8),
+    fields: [
+      { name: 'amm', type: 'pubkey', sqlType: 'TEXT', nullable: false },
+      { name: 'amount_in', type: 'u64', sqlType: 'NUMERIC(20,0)', nullable: false },
+      {
+        name: 'params',
+        type: 'defined<SwapParams>',
+        sqlType: 'JSONB',
+        nullable: false,
+        fields: [{ name: 'min_out', type: 'option<u64>', sqlType: 'NUMERIC(20,0)', nullable: true }],
+      },
+      { name: 'route', type: 'vec<pubkey>', sqlType: 'JSONB', nullable: false },
+    ],
+  }];
+  const validate = (expression: string) => validateFilterFields(parseFilterExpression(expression), events);
+
+  it('accepts known fields and nested paths', () => {
+    expect(() => validate('amountIn > 5 and params.min_out <= 10 and route.0 = "x"')).not.toThrow();
+  });
+
+  it('rejects unknown fields and range operators on non-numeric fields', () => {
+    expect(() => validate('amount_out > 5')).toThrow(/unknown field 'amount_out'/);
+    expect(() => validate('params.max_out = 5')).toThrow(/unknown field/);
+    expect(() => validate('amm > 5')).toThrow(/only supported on numeric fields/);
+  });
+
+  it('checks structure only when no IDL events apply', () => {
+    expect(() => validateFilterFields(parseFilterExpression('anything > 5'), [])).not.toThrow();
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Uho — Query Filter Tests
+ *
+ * Tests for the filter grammar shared by the REST data routes.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildFilterClauses, parseFilterKey } from '../src/core/filters.js';
+import { ValidationError } from '../src/core/errors.js';
+
+const fields = {
+  known: new Set(['slot', 'block_time', 'user', 'creator', 'mint', 'amount', 'amount_in', 'name', 'referrer']),
+  numeric: new Set(['slot', 'amount', 'amount_in']),
+};
+
+describe('parseFilterKey', () => {
+  it('prefers exact column names over operator suffixes', () => {
+    expect(parseFilterKey('amount_in', fields)).toEqual({ column: 'amount_in', operator: 'eq' });
+    expect(parseFilterKey('amount_in_in', fields)).toEqual({ column: 'amount_in', operator: 'in' });
+    expect(parseFilterKey('user_not_in', fields)).toEqual({ column: 'user', operator: 'not_in' });
+  });
+
+  it('ignores unknown fields', () => {
+    expect(parseFilterKey('apiKey', fields)).toBeNull();
+    expect(parseFilterKey('owner_in', fields)).toBeNull();
+  });
+});
+
+describe('buildFilterClauses', () => {
+  it('builds every operator', () => {
+    const { whereClauses, params } = buildFilterClauses({
+      user_in: 'a,b',
+      mint_not_in: 'c',
+      creator_ne: 'd',
+      name_prefix: '50%_off',
+      referrer_is_null: 'true',
+      amount_gte: '10',
+    }, fields);
+
+    expect(whereClauses).toEqual([
+      '"user" = ANY($1)',
+      '"mint" <> ALL($2)',
+      '"creator" <> $3',
+      `"name"::text LIKE ($4 || '%')`,
+      '"referrer" IS NULL',
+      '"amount" >= $5',
+    ]);
+    expect(params).toEqual([['a', 'b'], ['c'], 'd', '50\\%\\_off', 10]);
+  });
+
+  it('ORs the conditions of a group and ANDs repeated groups', () => {
+    const { whereClauses, params } = buildFilterClauses({
+      slotFrom: '100',
+      or: ['user=X;creator=X', 'amount_gt=5;mint_in=m1,m2'],
+    }, fields);
+
+    expect(whereClauses).toEqual([
+      '"slot" >= $1',
+      '("user" = $2 OR "creator" = $3)',
+      '("amount" > $4 OR "mint" = ANY($5))',
+    ]);
+    expect(params).toEqual([100, 'X', 'X', 5, ['m1', 'm2']]);
+  });
+
+  it('numbers placeholders after a parameter offset', () => {
+    const { whereClauses } = buildFilterClauses({ user: 'X' }, fields, { paramOffset: 4 });
+    expect(whereClauses).toEqual(['"user" = $5']);
+  });
+
+  it('rejects invalid operators and unknown fields in groups', () => {
+    expect(() => buildFilterClauses({ user_gte: '1' }, fields)).toThrow(ValidationError);
+    expect(() => buildFilterClauses({ referrer_is_null: 'yes' }, fields)).toThrow(ValidationError);
+    expect(() => buildFilterClauses({ or: 'user=X;owner=X' }, fields)).toThrow(/Unknown filter field 'owner'/);
+  });
+});
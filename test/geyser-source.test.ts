@@ -0,0 +1,205 @@
+/**
+ * Uho — Geyser Source Tests
+ *
+ * Runs GeyserSource against a local mock Yellowstone gRPC server that replays
+ * fixture transactions, checking the subscription filter, conversion to the
+ * parsed transaction shape, block times taken from block metas, and gap
+ * reporting when resuming from a cursor.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as grpc from '@grpc/grpc-js';
+import { Keypair, PublicKey, type PartiallyDecodedInstruction } from '@solana/web3.js';
+import bs58 from 'bs58';
+import { GeyserSource, loadGeyserProto, type SubscribeRequest } from '../src/ingestion/geyser-source.js';
+
+const PROGRAM_ID = Keypair.generate().publicKey;
+const PAYER = Keypair.generate().publicKey;
+const VAULT = Keypair.generate().publicKey;
+const LOOKUP = Keypair.generate().publicKey;
+
+// =============================================================================
+// Helpers — Fixture Transactions
+// =============================================================================
+
+/**
+ * Builds a SubscribeUpdate carrying one transaction that invokes PROGRAM_ID
+ * with [PAYER, VAULT] plus a lookup-table account.
+ */
+function fixtureUpdate(slot: number, seed: number): Record<string, unknown> {
+  const signature = Buffer.alloc(64, seed);
+  return {
+    filters: [PROGRAM_ID.toBase58()],
+    transaction: {
+      slot: String(slot),
+      transaction: {
+        signature,
+        isVote: false,
+        index: '0',
+        transaction: {
+          signatures: [signature],
+          message: {
+            header: { numRequiredSignatures: 1, numReadonlySignedAccounts: 0, numReadonlyUnsignedAccounts: 1 },
+            accountKeys: [PAYER.toBuffer(), VAULT.toBuffer(), PROGRAM_ID.toBuffer()],
+            recentBlockhash: Buffer.alloc(32, 7),
+            instructions: [{ programIdIndex: 2, accounts: Buffer.from([0, 1, 3]), data: Buffer.from([1, 2, 3, seed]) }],
+            versioned: true,
+          },
+        },
+        meta: {
+          fee: '5000',
+          preBalances: ['10', '20', '1'],
+          postBalances: ['5', '20', '1'],
+          innerInstructions: [],
+          logMessages: [`Program ${PROGRAM_ID.toBase58()} invoke [1]`, `Program ${PROGRAM_ID.toBase58()} success`],
+          loadedWritableAddresses: [LOOKUP.toBuffer()],
+          loadedReadonlyAddresses: [],
+        },
+      },
+    },
+  };
+}
+
+/** A SubscribeUpdate carrying the block meta of `slot` */
+function blockMetaUpdate(slot: number, blockTime: number): Record<string, unknown> {
+  return {
+    filters: [PROGRAM_ID.toBase58()],
+    blockMeta: { slot: String(slot), blockhash: 'hash', blockTime: { timestamp: String(blockTime) }, parentSlot: String(slot - 1) },
+  };
+}
+
+/** Signature of the fixture built with `seed` */
+function fixtureSignature(seed: number): string {
+  return bs58.encode(Buffer.alloc(64, seed));
+}
+
+// =============================================================================
+// Mock Geyser Server
+// =============================================================================
+
+const requests: SubscribeRequest[] = [];
+let replay: Array<Record<string, unknown>> = [];
+let server: grpc.Server;
+let endpoint: string;
+
+beforeAll(async () => {
+  const proto = loadGeyserProto();
+  server = new grpc.Server();
+  server.addService(proto.geyser.Geyser.service, {
+    Subscribe: (call: grpc.ServerDuplexStream<SubscribeRequest, Record<string, unknown>>) => {
+      call.on('data', (request: SubscribeRequest) => {
+        requests.push(request);
+        if (!request.transactions) return;
+        for (const update of replay) call.write(update);
+      });
+      call.on('end', () => call.end());
+      call.on('error', () => {});
+    },
+  });
+
+  const port = await new Promise<number>((resolve, reject) => {
+    server.bindAsync('127.0.0.1:0', grpc.ServerCredentials.createInsecure(), (err, boundPort) => {
+      if (err) reject(err);
+      else resolve(boundPort);
+    });
+  });
+  endpoint = `http://127.0.0.1:${port}`;
+});
+
+afterAll(() => {
+  server.forceShutdown();
+});
+
+/**
+ * Polls the source until it returns `count` transactions (or times out).
+ */
+async function pollUntil(source: GeyserSource, count: number) {
+  const txs = [];
+  const deadline = Date.now() + 5000;
+  while (txs.length < count && Date.now() < deadline) {
+    txs.push(...(await source.poll()));
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+  return txs;
+}
+
+// =============================================================================
+// Streaming
+// =============================================================================
+
+describe('GeyserSource', () => {
+  it('subscribes to the program and converts streamed transactions', async () => {
+    requests.length = 0;
+    replay = [fixtureUpdate(500, 1), blockMetaUpdate(500, 1767225600), blockMetaUpdate(501, 1767225601), fixtureUpdate(501, 2)];
+    const source = new GeyserSource(PROGRAM_ID, { pollIntervalMs: 0, batchSize: 25 }, { endpoint });
+
+    try {
+      const txs = await pollUntil(source, 2);
+
+      const filter = requests[0].transactions![PROGRAM_ID.toBase58()];
+      expect(filter.accountInclude).toEqual([PROGRAM_ID.toBase58()]);
+      expect(filter.failed).toBe(false);
+      expect(requests[0].blocksMeta).toEqual({ [PROGRAM_ID.toBase58()]: {} });
+      expect(requests[0].commitment).toBe('CONFIRMED');
+
+      // Block times come from block metas, whether they arrive before or after the transaction
+      expect(txs).toHaveLength(2);
+      expect(txs.map((t) => t.blockTime)).toEqual([1767225600, 1767225601]);
+      const [tx] = txs;
+      expect(tx.slot).toBe(500);
+      expect(tx.transaction.signatures).toEqual([fixtureSignature(1)]);
+      expect(tx.meta?.logMessages).toHaveLength(2);
+
+      const keys = tx.transaction.message.accountKeys;
+      expect(keys.map((k) => [k.pubkey.toBase58(), k.signer, k.writable])).toEqual([
+        [PAYER.toBase58(), true, true],
+        [VAULT.toBase58(), false, true],
+        [PROGRAM_ID.toBase58(), false, false],
+        [LOOKUP.toBase58(), false, true],
+      ]);
+
+      const ix = tx.transaction.message.instructions[0] as PartiallyDecodedInstruction;
+      expect(ix.programId.equals(PROGRAM_ID)).toBe(true);
+      expect(ix.accounts.map((a: PublicKey) => a.toBase58())).toEqual([
+        PAYER.toBase58(), VAULT.toBase58(), LOOKUP.toBase58(),
+      ]);
+      expect(ix.data).toBe(bs58.encode(Buffer.from([1, 2, 3, 1])));
+
+      expect(source.getState().lastSignature).toBe(fixtureSignature(2));
+      expect(source.drainGaps()).toEqual([]);
+    } finally {
+      source.stop();
+    }
+  });
+
+  it('reports the range behind a saved cursor as a gap', async () => {
+    replay = [fixtureUpdate(900, 9), blockMetaUpdate(900, 1767225600)];
+    const source = new GeyserSource(PROGRAM_ID, { pollIntervalMs: 0, batchSize: 25 }, { endpoint });
+    source.setLastSignature('cursor-sig', 700);
+
+    try {
+      await pollUntil(source, 1);
+
+      expect(source.drainGaps()).toEqual([
+        { fromSlot: 700, toSlot: 900, beforeSignature: fixtureSignature(9), untilSignature: 'cursor-sig' },
+      ]);
+    } finally {
+      source.stop();
+    }
+  });
+
+  it('delivers batches to the start() callback', async () => {
+    replay = [fixtureUpdate(1000, 3), blockMetaUpdate(1000, 1767225600)];
+    const source = new GeyserSource(PROGRAM_ID, { pollIntervalMs: 0, batchSize: 25 }, { endpoint });
+
+    const received = await new Promise<string[]>((resolve) => {
+      source.start(async (txs) => {
+        resolve(txs.map((tx) => tx.transaction.signatures[0]));
+      });
+    });
+    source.stop();
+
+    expect(received).toEqual([fixtureSignature(3)]);
+    expect(source.isRunning()).toBe(false);
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Uho — GraphQL Schema Tests
+ *
+ * Tests for the per-user GraphQL schema: generated types, filters, cursor
+ * pagination, relations and the depth limit. Queries run against a fake client.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { graphql, parse, validate, specifiedRules, printSchema } from 'graphql';
+import type pg from 'pg';
+import { parseIDL } from '../src/core/idl-parser.js';
+import {
+  buildGraphqlSchema,
+  buildFilter,
+  describeGraphqlTables,
+  depthLimit,
+  TxRowLoader,
+} from '../src/api/graphql-schema.js';
+import type { AnchorIDL } from '../src/core/types.js';
+
+const swapIdl: AnchorIDL = JSON.parse(
+  readFileSync(resolve(__dirname, '../fixtures/swap-idl.json'), 'utf-8')
+);
+
+const tables = describeGraphqlTables([{
+  name: 'dex',
+  parsedIdl: parseIDL(swapIdl),
+  enabled: [{ name: 'SwapEvent', type: 'event' }, { name: 'swap', type: 'instruction' }],
+}], true);
+const schema = buildGraphqlSchema(tables)!;
+
+/** Fake client recording queries and answering from canned rows */
+function fakeClient(respond: (sql: string, params: unknown[]) => Array<Record<string, unknown>>) {
+  const queries: Array<{ sql: string; params: unknown[] }> = [];
+  const client = {
+    query: async (sql: string, params: unknown[]) => {
+      queries.push({ sql, params });
+      return { rows: respond(sql, params) };
+    },
+  } as unknown as pg.PoolClient;
+  return { client, queries };
+}
+
+async function run(client: pg.PoolClient, query: string) {
+  return graphql({ schema, source: query, contextValue: { client, loader: new TxRowLoader(client) } });
+}
+
+describe('describeGraphqlTables', () => {
+  it('exposes enabled events, instructions and token transfers', () => {
+    expect(tables.map((t) => t.fieldName)).toEqual(['token_transfers', 'dex_swap_event', 'dex_swap_ix']);
+    expect(tables.map((t) => t.typeName)).toEqual(['TokenTransfer', 'DexSwapEvent', 'DexSwapIx']);
+  });
+
+  it('generates range filters for numeric columns only', () => {
+    const sdl = printSchema(schema);
+    expect(sdl).toContain('input_amount_gte: String');
+    expect(sdl).toContain('slot_lt: String');
+    expect(sdl).not.toContain('amm_gte');
+  });
+});
+
+describe('buildFilter', () => {
+  it('builds parameterized clauses for exact and range keys', () => {
+    const table = tables.find((t) => t.fieldName === 'dex_swap_event')!;
+    const { whereClauses, params } = buildFilter(table, { amm: 'Amm111', input_amount_gte: '1000', fee: null });
+
+    expect(whereClauses).toEqual(['"amm" = $1', '"input_amount" >= $2', '"fee" IS NULL']);
+    expect(params).toEqual(['Amm111', '1000']);
+  });
+});
+
+describe('query execution', () => {
+  it('paginates root connections by id', async () => {
+    const { client, queries } = fakeClient(() => [
+      { id: '9', tx_signature: 'sig1', slot: '100', input_amount: '5' },
+      { id: '8', tx_signature: 'sig2', slot: '99', input_amount: '6' },
+      { id: '7', tx_signature: 'sig3', slot: '98', input_amount: '7' },
+    ]);
+
+    const result = await run(client, `{
+      dex_swap_event(first: 2, after: "10", where: { slot_gte: "90" }) {
+        nodes { id input_amount }
+        pageInfo { hasNextPage endCursor }
+      }
+    }`);
+
+    expect(result.errors).toBeUndefined();
+    expect(result.data).toEqual({
+      dex_swap_event: {
+        nodes: [{ id: '9', input_amount: '5' }, { id: '8', input_amount: '6' }],
+        pageInfo: { hasNextPage: true, endCursor: '8' },
+      },
+    });
+    expect(queries[0].sql).toMatch(/"slot" >= \$1 AND "id" < \$2/);
+    expect(queries[0].params).toEqual(['90', '10', 3]);
+  });
+
+  it('resolves relations by tx_signature in one batched query per table', async () => {
+    const { client, queries } = fakeClient((sql) => sql.includes('_token_transfers')
+      ? [{ id: '1', tx_signature: 'sig1', amount: '42' }]
+      : [{ id: '2', tx_signature: 'sig1' }, { id: '3', tx_signature: 'sig2' }]);
+
+    const result = await run(client, `{
+      dex_swap_event { nodes { id token_transfers { amount } } }
+    }`);
+
+    expect(result.errors).toBeUndefined();
+    expect(result.data).toEqual({
+      dex_swap_event: {
+        nodes: [{ id: '2', token_transfers: [{ amount: '42' }] }, { id: '3', token_transfers: [] }],
+      },
+    });
+    expect(queries).toHaveLength(2);
+    expect(queries[1].params).toEqual([['sig1', 'sig2']]);
+  });
+});
+
+describe('depthLimit', () => {
+  it('rejects queries nested past the limit', () => {
+    const document = parse(`{
+      dex_swap_event { nodes { dex_swap_ix { dex_swap_event { id } } } }
+    }`);
+    expect(validate(schema, document, [...specifiedRules, depthLimit(4)])).toHaveLength(1);
+    expect(validate(schema, document, [...specifiedRules, depthLimit(5)])).toHaveLength(0);
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * Uho — Fake Database
+ *
+ * An in-memory stand-in for a pg pool in unit tests. A test keeps its data in
+ * plain tables and answers statements from them in a handler; the fake runs
+ * transactions and savepoints by snapshotting those tables, and collects
+ * pg_notify calls, so tests can assert on the data a call leaves behind.
+ *
+ * A rolled back transaction restores the tables as they were before its first
+ * write, so transactions that only read while others commit roll back
+ * cleanly. Concurrent writing transactions are not isolated from each other.
+ */
+
+import type pg from 'pg';
+
+export type Row = Record<string, unknown>;
+export type Tables = Record<string, Row[]>;
+
+export interface FakeResult {
+  rows?: Row[];
+  rowCount?: number;
+  fields?: Array<{ name: string; dataTypeID: number }>;
+}
+
+/** Per-connection state a handler may keep (e.g. locks it holds); pool queries get a fresh one */
+export type Session = Record<string, unknown>;
+
+/**
+ * Answers one statement against the tables. `sql` has its whitespace
+ * collapsed. Transaction statements reach the handler too, after the fake has
+ * applied them. Returning nothing answers with no rows; throwing fails the
+ * statement like a database error.
+ */
+export type FakeHandler<T extends Tables> = (
+  sql: string,
+  params: unknown[],
+  tables: T,
+  session: Session
+) => FakeResult | void | Promise<FakeResult | void>;
+
+export interface Notification {
+  channel: string;
+  payload: string;
+}
+
+export interface FakeDb<T extends Tables> {
+  pool: pg.Pool;
+  tables: T;
+  /** pg_notify calls, in the order they were delivered (on commit inside a transaction) */
+  notifications: Notification[];
+  /** Opens a standalone client, like a dedicated `pg.Client` */
+  client(): Promise<pg.Client>;
+}
+
+// =============================================================================
+// Fake
+// =============================================================================
+
+export function fakeDb<T extends Tables>(tables: T, handle: FakeHandler<T> = () => {}): FakeDb<T> {
+  const notifications: Notification[] = [];
+
+  const snapshot = (): Tables => structuredClone(tables);
+  const restore = (saved: Tables) => {
+    for (const [name, rows] of Object.entries(structuredClone(saved))) {
+      tables[name as keyof T].splice(0, tables[name as keyof T].length, ...rows);
+    }
+  };
+
+  /** One connection; pool queries each run on their own */
+  const open = () => {
+    const session: Session = {};
+    let savepoints: Array<{ name: string; saved: Tables | null }> = [];
+    let pending: Notification[] = [];
+    let inTransaction = false;
+
+    const query = async (text: string, params: unknown[] = []) => {
+      const sql = text.replace(/\s+/g, ' ').trim();
+      const savepoint = /^(SAVEPOINT|RELEASE SAVEPOINT|ROLLBACK TO SAVEPOINT) (\w+)$/.exec(sql);
+      const notify = /pg_notify\((?:'(\w+)'|\$(\d+)), \$(\d+)\)/.exec(sql);
+
+      if (sql === 'BEGIN') {
+        inTransaction = true;
+        savepoints = [{ name: '', saved: null }];
+      } else if (sql === 'COMMIT' || sql === 'ROLLBACK') {
+        const saved = savepoints[0]?.saved;
+        if (sql === 'ROLLBACK') {
+          if (saved) restore(saved);
+        } else {
+          notifications.push(...pending);
+        }
+        inTransaction = false;
+        savepoints = [];
+        pending = [];
+      } else if (savepoint) {
+        const [, statement, name] = savepoint;
+        const at = savepoints.findIndex((s) => s.name === name);
+        if (statement === 'SAVEPOINT') savepoints.push({ name, saved: snapshot() });
+        else if (statement === 'ROLLBACK TO SAVEPOINT') restore(savepoints[at].saved!);
+        else savepoints.splice(at);
+      } else if (notify) {
+        const [, channel, channelParam, payloadParam] = notify;
+        const notification = {
+          channel: channel ?? (params[Number(channelParam) - 1] as string),
+          payload: params[Number(payloadParam) - 1] as string,
+        };
+        if (inTransaction) pending.push(notification);
+        else notifications.push(notification);
+      } else if (inTransaction && !sql.startsWith('SELECT') && !savepoints[0].saved) {
+        savepoints[0].saved = snapshot();
+      }
+
+      const result = (await handle(sql, params, tables, session)) ?? {};
+      const rows = result.rows ?? [];
+      return { rows, rowCount: result.rowCount ?? rows.length, fields: result.fields ?? [] };
+    };
+
+    return { query, release: () => {}, end: async () => {} };
+  };
+
+  const pool = {
+    query: (text: string, params?: unknown[]) => open().query(text, params),
+    connect: async () => open(),
+  } as unknown as pg.Pool;
+
+  return {
+    pool,
+    tables,
+    notifications,
+    client: async () => open() as unknown as pg.Client,
+  };
+}
+
+/**
+ * Maps the `$n` placeholders of an `INSERT INTO t (cols) VALUES (...), ...`
+ * statement to rows keyed by column; other values are left out.
+ */
+export function insertedRows(sql: string, params: unknown[]): Row[] {
+  const match = /^INSERT INTO \S+ (?:AS \w+ )?\(([^)]*)\) VALUES (.*)$/.exec(sql);
+  if (!match) return [];
+  const columns = match[1].split(',').map((c) => c.trim().replace(/"/g, ''));
+
+  return groups(match[2]).map((tuple) => {
+    const values = splitTopLevel(tuple);
+    const row: Row = {};
+    columns.forEach((column, i) => {
+      const placeholder = /^\$(\d+)/.exec(values[i] ?? '');
+      if (placeholder) row[column] = params[Number(placeholder[1]) - 1];
+    });
+    return row;
+  });
+}
+
+/** Contents of the leading parenthesized groups of `text`, up to the first top-level word */
+function groups(text: string): string[] {
+  const found: string[] = [];
+  let depth = 0;
+  let start = 0;
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (c === "'") quoted = !quoted;
+    if (quoted) continue;
+    if (c === '(' && depth++ === 0) start = i + 1;
+    else if (c === ')' && --depth === 0) found.push(text.slice(start, i));
+    else if (depth === 0 && /\w/.test(c)) break;
+  }
+  return found;
+}
+
+/** Splits on commas outside parentheses and quotes */
+function splitTopLevel(text: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (c === "'") quoted = !quoted;
+    if (quoted) continue;
+    if (c === '(') depth++;
+    else if (c === ')') depth--;
+    else if (c === ',' && depth === 0) {
+      parts.push(text.slice(start, i).trim());
+      start = i + 1;
+    }
+  }
+  parts.push(text.slice(start).trim());
+  return parts;
+}
@@ -0,0 +1,117 @@
+/**
+ * Uho — IDL Diff Tests
+ *
+ * Tests for diffing IDL versions, the upgrade DDL and version selection.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { parseIDL } from '../src/core/idl-parser.js';
+import { diffIdls, generateIdlUpgrade, isDestructive, mergeIdlVersions } from '../src/core/idl-diff.js';
+import { versionAtSlot } from '../src/ingestion/idl-versions.js';
+import type { AnchorIDL, ParsedIDL } from '../src/core/types.js';
+
+const swapIdl: AnchorIDL = JSON.parse(
+  readFileSync(resolve(__dirname, '../fixtures/swap-idl.json'), 'utf-8')
+);
+const v1 = parseIDL(swapIdl);
+
+/** v1 with a new SwapEvent field, a new event and LiquidityEvent dropped */
+function upgraded(): ParsedIDL {
+  const swap = v1.events.find((e) => e.name === 'SwapEvent')!;
+  return {
+    ...v1,
+    events: [
+      { ...swap, fields: [...swap.fields, { name: 'referrer', type: 'pubkey', sqlType: 'TEXT', nullable: false }] },
+      { name: 'FeeEvent', discriminator: Buffer.alloc(8), fields: [] },
+    ],
+  };
+}
+
+describe('diffIdls', () => {
+  it('reports added and removed definitions and columns', () => {
+    const diff = diffIdls(v1, upgraded());
+
+    expect(diff.addedEvents).toEqual(['FeeEvent']);
+    expect(diff.removedEvents).toEqual(['LiquidityEvent']);
+    expect(diff.addedColumns).toEqual([
+      { kind: 'event', name: 'SwapEvent', column: 'referrer', sqlType: 'TEXT' },
+    ]);
+    expect(diff.typeChanges).toEqual([]);
+    expect(isDestructive(diff)).toBe(false);
+  });
+
+  it('reports column type changes as destructive', () => {
+    const next = {
+      ...v1,
+      events: v1.events.map((e) => e.name !== 'SwapEvent' ? e : {
+        ...e,
+        fields: e.fields.map((f) => f.name === 'fee' ? { ...f, type: 'u16', sqlType: 'INTEGER' } : f),
+      }),
+    };
+    const diff = diffIdls(v1, next);
+
+    expect(diff.typeChanges).toEqual([
+      { kind: 'event', name: 'SwapEvent', column: 'fee', from: 'NUMERIC(20,0)', to: 'INTEGER' },
+    ]);
+    expect(isDestructive(diff)).toBe(true);
+  });
+});
+
+describe('generateIdlUpgrade', () => {
+  it('adds new columns to existing tables', () => {
+    const ddl = generateIdlUpgrade('sample_dex', diffIdls(v1, upgraded()), { prevVersion: 1 });
+
+    expect(ddl).toEqual([
+      'ALTER TABLE IF EXISTS "sample_dex_swap_event" ADD COLUMN IF NOT EXISTS "referrer" TEXT;',
+    ]);
+  });
+
+  it('renames changed columns aside only when forced', () => {
+    const next = {
+      ...v1,
+      accounts: v1.accounts.map((a) => a.name !== 'Pool' ? a : {
+        ...a,
+        fields: a.fields.map((f) => f.name === 'fee_rate' ? { ...f, type: 'u64', sqlType: 'NUMERIC(20,0)' } : f),
+      }),
+    };
+    const diff = diffIdls(v1, next);
+
+    expect(generateIdlUpgrade('sample_dex', diff, { prevVersion: 2 })).toEqual([]);
+
+    const forced = generateIdlUpgrade('sample_dex', diff, { force: true, prevVersion: 2 }).join('\n');
+    expect(forced).toContain('ALTER TABLE "sample_dex_pool_state" RENAME COLUMN "fee_rate" TO "fee_rate_v2"');
+    expect(forced).toContain('ALTER TABLE "sample_dex_pool_state_history" RENAME COLUMN "fee_rate" TO "fee_rate_v2"');
+    expect(forced).toContain('ALTER TABLE IF EXISTS "sample_dex_pool_state" ADD COLUMN IF NOT EXISTS "fee_rate" NUMERIC(20,0);');
+  });
+});
+
+describe('mergeIdlVersions', () => {
+  it('keeps definitions and fields only earlier versions had', () => {
+    const latest = upgraded();
+    const merged = mergeIdlVersions(latest, [v1]);
+
+    expect(merged.events.map((e) => e.name)).toEqual(['SwapEvent', 'FeeEvent', 'LiquidityEvent']);
+    expect(merged.events[0].fields.map((f) => f.name)).toContain('referrer');
+    expect(latest.events).toHaveLength(2);
+  });
+});
+
+describe('versionAtSlot', () => {
+  const versions = [
+    { version: 1, effectiveSlot: 0 },
+    { version: 2, effectiveSlot: 1000 },
+    { version: 3, effectiveSlot: 2000 },
+  ];
+
+  it('picks the latest version effective at the slot', () => {
+    expect(versionAtSlot(versions, 999).version).toBe(1);
+    expect(versionAtSlot(versions, 1000).version).toBe(2);
+    expect(versionAtSlot(versions, 5000).version).toBe(3);
+  });
+
+  it('falls back to the earliest version', () => {
+    expect(versionAtSlot([{ version: 2, effectiveSlot: 500 }], 10).version).toBe(2);
+  });
+});
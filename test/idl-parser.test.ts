@@ -65,8 +65,8 @@ describe('anchorTypeToSql', () => {
     expect(anchorTypeToSql('i32')).toEqual({ sqlType: 'INTEGER', nullable: false });
   });
 
-  it('maps 64-bit integers to BIGINT', () => {
-    expect(anchorTypeToSql('u64')).toEqual({ sqlType: 'BIGINT', nullable: false });
+  it('maps u64 to NUMERIC(20,0) and i64 to BIGINT', () => {
+    expect(anchorTypeToSql('u64')).toEqual({ sqlType: 'NUMERIC(20,0)', nullable: false });
     expect(anchorTypeToSql('i64')).toEqual({ sqlType: 'BIGINT', nullable: false });
   });
 
@@ -98,7 +98,7 @@ describe('anchorTypeToSql', () => {
   });
 
   it('maps Option<T> to nullable', () => {
-    expect(anchorTypeToSql({ option: 'u64' })).toEqual({ sqlType: 'BIGINT', nullable: true });
+    expect(anchorTypeToSql({ option: 'u64' })).toEqual({ sqlType: 'NUMERIC(20,0)', nullable: true });
     expect(anchorTypeToSql({ option: 'pubkey' })).toEqual({ sqlType: 'TEXT', nullable: true });
   });
 
@@ -125,7 +125,7 @@ describe('parseField', () => {
     const parsed = parseField(field);
     expect(parsed.name).toBe('input_amount');
     expect(parsed.type).toBe('u64');
-    expect(parsed.sqlType).toBe('BIGINT');
+    expect(parsed.sqlType).toBe('NUMERIC(20,0)');
     expect(parsed.nullable).toBe(false);
   });
 
@@ -162,7 +162,7 @@ describe('parseEvent', () => {
     expect(parsed.fields[0].name).toBe('amm');
     expect(parsed.fields[0].sqlType).toBe('TEXT');
     expect(parsed.fields[2].name).toBe('input_amount');
-    expect(parsed.fields[2].sqlType).toBe('BIGINT');
+    expect(parsed.fields[2].sqlType).toBe('NUMERIC(20,0)');
   });
 
   it('uses discriminator from IDL when present', () => {
@@ -237,6 +237,17 @@ describe('parseIDL', () => {
     expect(actionField.sqlType).toBe('INTEGER');
   });
 
+  it('resolves account layouts from the types array', () => {
+    const parsed = parseIDL(swapIdl);
+    const pool = parsed.accounts[0];
+    expect(pool.name).toBe('Pool');
+    expect(pool.fields.map((f) => f.name)).toEqual([
+      'authority', 'token_a_mint', 'token_b_mint', 'token_a_reserve',
+      'token_b_reserve', 'lp_mint', 'fee_rate', 'bump',
+    ]);
+    expect(pool.fields[3].sqlType).toBe('NUMERIC(20,0)');
+  });
+
   it('handles IDL with no events gracefully', () => {
     const noEventsIdl: AnchorIDL = {
       ...swapIdl,
@@ -0,0 +1,139 @@
+/**
+ * Uho — Push Ingestion Payload Tests
+ *
+ * Tests normalization of raw, parsed and Helius enhanced transaction payloads
+ * pushed to the ingest route into the shape the decoders expect.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { Keypair, type PartiallyDecodedInstruction } from '@solana/web3.js';
+import { parseIngestPayload, involvesProgram } from '../src/ingestion/ingest-payload.js';
+import { TokenTransferDecoder } from '../src/ingestion/token-transfer-decoder.js';
+
+const PROGRAM_ID = Keypair.generate().publicKey.toBase58();
+const PAYER = Keypair.generate().publicKey.toBase58();
+const VAULT = Keypair.generate().publicKey.toBase58();
+const LOOKUP = Keypair.generate().publicKey.toBase58();
+
+// =============================================================================
+// Raw (getTransaction JSON)
+// =============================================================================
+
+describe('parseIngestPayload — raw', () => {
+  const raw = {
+    slot: 321,
+    blockTime: 1700000000,
+    version: 0,
+    transaction: {
+      signatures: ['raw-sig'],
+      message: {
+        accountKeys: [PAYER, VAULT, PROGRAM_ID],
+        header: { numRequiredSignatures: 1, numReadonlySignedAccounts: 0, numReadonlyUnsignedAccounts: 1 },
+        instructions: [{ programIdIndex: 2, accounts: [0, 1, 3], data: '3Bxs4h24hBtQy9rw' }],
+        recentBlockhash: '11111111111111111111111111111111',
+      },
+    },
+    meta: {
+      err: null,
+      fee: 5000,
+      preBalances: [10, 20, 1],
+      postBalances: [5, 20, 1],
+      innerInstructions: [{ index: 0, instructions: [{ programIdIndex: 2, accounts: [1], data: '2' }] }],
+      logMessages: [`Program ${PROGRAM_ID} invoke [1]`],
+      loadedAddresses: { writable: [LOOKUP], readonly: [] },
+    },
+  };
+
+  it('resolves compiled instructions against static and lookup-table keys', () => {
+    const payload = parseIngestPayload([raw])!;
+    expect(payload.invalid).toBe(0);
+
+    const [tx] = payload.transactions;
+    expect(tx.slot).toBe(321);
+    expect(tx.transaction.signatures).toEqual(['raw-sig']);
+    expect(tx.meta?.logMessages).toHaveLength(1);
+
+    const keys = tx.transaction.message.accountKeys;
+    expect(keys.map((k) => [k.pubkey.toBase58(), k.signer, k.writable])).toEqual([
+      [PAYER, true, true],
+      [VAULT, false, true],
+      [PROGRAM_ID, false, false],
+      [LOOKUP, false, true],
+    ]);
+
+    const ix = tx.transaction.message.instructions[0] as PartiallyDecodedInstruction;
+    expect(ix.programId.toBase58()).toBe(PROGRAM_ID);
+    expect(ix.accounts.map((a) => a.toBase58())).toEqual([PAYER, VAULT, LOOKUP]);
+    expect(ix.data).toBe('3Bxs4h24hBtQy9rw');
+
+    const inner = tx.meta!.innerInstructions![0].instructions[0] as PartiallyDecodedInstruction;
+    expect(inner.accounts.map((a) => a.toBase58())).toEqual([VAULT]);
+    expect(involvesProgram(tx, PROGRAM_ID)).toBe(true);
+  });
+
+  it('counts unrecognized items as invalid', () => {
+    const payload = parseIngestPayload([raw, { hello: 'world' }, 42])!;
+    expect(payload.transactions).toHaveLength(1);
+    expect(payload.invalid).toBe(2);
+    expect(parseIngestPayload('not a payload')).toBeNull();
+  });
+});
+
+// =============================================================================
+// Parsed (getParsedTransaction JSON)
+// =============================================================================
+
+describe('parseIngestPayload — parsed', () => {
+  it('unwraps JSON-RPC envelopes and keeps jsonParsed instructions decodable', () => {
+    const fixturePath = resolve(__dirname, 'fixtures/spl-token-transfer-tx.json');
+    const rpcResponse = JSON.parse(readFileSync(fixturePath, 'utf-8'));
+
+    const payload = parseIngestPayload(rpcResponse)!;
+    expect(payload.transactions).toHaveLength(1);
+
+    const [tx] = payload.transactions;
+    expect(tx.slot).toBe(rpcResponse.result.slot);
+    expect(tx.transaction.message.accountKeys[0].pubkey.toBase58())
+      .toBe(rpcResponse.result.transaction.message.accountKeys[0].pubkey);
+
+    const decoder = new TokenTransferDecoder();
+    expect(decoder.decodeTransaction(tx)).toEqual(decoder.decodeTransaction(rpcResponse.result));
+  });
+});
+
+// =============================================================================
+// Helius Enhanced
+// =============================================================================
+
+describe('parseIngestPayload — enhanced', () => {
+  it('maps top-level and inner instructions without logs', () => {
+    const payload = parseIngestPayload({
+      signature: 'enhanced-sig',
+      slot: 999,
+      timestamp: 1700000100,
+      feePayer: PAYER,
+      transactionError: null,
+      accountData: [{ account: PAYER }, { account: VAULT }],
+      instructions: [
+        {
+          programId: PROGRAM_ID,
+          accounts: [PAYER, VAULT],
+          data: '3Bxs4h24hBtQy9rw',
+          innerInstructions: [{ programId: PROGRAM_ID, accounts: [VAULT], data: '2' }],
+        },
+      ],
+    })!;
+
+    const [tx] = payload.transactions;
+    expect(tx.slot).toBe(999);
+    expect(tx.blockTime).toBe(1700000100);
+    expect(tx.meta?.logMessages).toBeNull();
+    expect(tx.transaction.message.accountKeys[0].signer).toBe(true);
+    expect(tx.meta!.innerInstructions).toHaveLength(1);
+    expect(tx.meta!.innerInstructions![0].index).toBe(0);
+    expect(involvesProgram(tx, PROGRAM_ID)).toBe(true);
+    expect(involvesProgram(tx, LOOKUP)).toBe(false);
+  });
+});
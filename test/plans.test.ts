@@ -0,0 +1,121 @@
+/**
+ * Uho — Plan Tests
+ *
+ * Tests for plan limit overrides and validation, usage threshold
+ * notifications and usage history queries. Database access runs against an
+ * in-memory fake database.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { applyOverrides, parseLimits, type PlanService } from '../src/services/plan-service.js';
+import { UsageService, crossedThresholds, parseHistoryQuery } from '../src/services/usage-service.js';
+import type { PlanLimits, UserPlan } from '../src/core/types.js';
+import { fakeDb, insertedRows, type Row } from './helpers/fake-db.js';
+
+const freeLimits: PlanLimits = {
+  programs: 3,
+  eventsIndexed: 5000,
+  apiCallsPerMonth: 50_000,
+  wsConnections: 5,
+  customViews: 3,
+  webhooks: 3,
+  apiKeys: 2,
+  backfillSlots: 2000,
+};
+
+describe('applyOverrides', () => {
+  it('replaces only the overridden limits', () => {
+    const limits = applyOverrides(freeLimits, { webhooks: 100, apiKeys: 0 });
+    expect(limits).toEqual({ ...freeLimits, webhooks: 100, apiKeys: 0 });
+  });
+});
+
+describe('parseLimits', () => {
+  it('accepts partial overrides', () => {
+    expect(parseLimits({ programs: 10 }, true)).toEqual({ programs: 10 });
+  });
+
+  it('rejects unknown keys, bad values and missing limits', () => {
+    expect(() => parseLimits({ seats: 1 }, true)).toThrow(/Unknown limit 'seats'/);
+    expect(() => parseLimits({ programs: -1 }, true)).toThrow(/non-negative integer/);
+    expect(() => parseLimits({ programs: 1.5 }, true)).toThrow(/non-negative integer/);
+    expect(() => parseLimits({ programs: 10 }, false)).toThrow(/Missing limits: eventsIndexed/);
+    expect(() => parseLimits([], true)).toThrow(/must be an object/);
+  });
+});
+
+describe('crossedThresholds', () => {
+  it('lists the thresholds reached', () => {
+    expect(crossedThresholds(39_999, 50_000)).toEqual([]);
+    expect(crossedThresholds(40_000, 50_000)).toEqual([80]);
+    expect(crossedThresholds(60_000, 50_000)).toEqual([80, 100]);
+    expect(crossedThresholds(10, 0)).toEqual([]);
+  });
+});
+
+describe('UsageService.notifyThresholds', () => {
+  /** Database with fixed usage and a usage_notifications table */
+  function setup(apiCalls: number, eventsIndexed: number) {
+    const tables = { usage_notifications: [] as Row[] };
+    return fakeDb(tables, (sql, params) => {
+      if (sql.startsWith('INSERT INTO usage_notifications')) {
+        const [row] = insertedRows(sql, params);
+        if (tables.usage_notifications.some((r) => r.metric === row.metric && r.threshold === row.threshold)) return;
+        tables.usage_notifications.push(row);
+        return { rows: [{ threshold: row.threshold }] };
+      }
+      if (sql.includes("'api_call'")) return { rows: [{ total: String(apiCalls) }] };
+      if (sql.includes("'event_indexed'")) return { rows: [{ total: String(eventsIndexed) }] };
+      return { rows: [{ count: 0 }] };
+    });
+  }
+
+  const plans = {
+    getUserPlan: async (userId: string): Promise<UserPlan> => ({
+      userId,
+      plan: { id: 'free', name: 'Free', limits: freeLimits, isDefault: true, createdAt: new Date(0), updatedAt: new Date(0) },
+      overrides: {},
+      limits: freeLimits,
+      assignedAt: new Date(0),
+    }),
+  } as unknown as PlanService;
+
+  it('records each crossed threshold once', async () => {
+    const db = setup(50_000, 4000);
+    const usage = new UsageService(db.pool, plans);
+
+    expect(await usage.notifyThresholds('user-1')).toEqual([
+      { metric: 'api_call', threshold: 80 },
+      { metric: 'api_call', threshold: 100 },
+      { metric: 'event_indexed', threshold: 80 },
+    ]);
+    expect(await usage.notifyThresholds('user-1')).toEqual([]);
+    expect(db.tables.usage_notifications).toEqual([
+      { user_id: 'user-1', metric: 'api_call', threshold: 80, usage: 50_000, usage_limit: 50_000 },
+      { user_id: 'user-1', metric: 'api_call', threshold: 100, usage: 50_000, usage_limit: 50_000 },
+      // The events quota runs from when the plan was assigned
+      { user_id: 'user-1', metric: 'event_indexed', threshold: 80, period_start: new Date(0), usage: 4000, usage_limit: 5000 },
+    ]);
+  });
+});
+
+describe('parseHistoryQuery', () => {
+  const now = new Date('2026-10-18T12:00:00Z');
+
+  it('defaults to daily buckets over the last 30 days', () => {
+    expect(parseHistoryQuery({}, now)).toEqual({
+      metric: undefined,
+      granularity: 'day',
+      from: new Date('2026-09-18T12:00:00Z'),
+      to: now,
+    });
+  });
+
+  it('rejects bad metrics, granularities, dates and ranges', () => {
+    expect(() => parseHistoryQuery({ metric: 'bytes' }, now)).toThrow(/metric must be one of/);
+    expect(() => parseHistoryQuery({ granularity: 'week' }, now)).toThrow(/granularity must be one of/);
+    expect(() => parseHistoryQuery({ from: 'yesterday' }, now)).toThrow(/from must be an ISO 8601 date/);
+    expect(() => parseHistoryQuery({ from: '2026-10-02', to: '2026-10-01' }, now)).toThrow(/before to/);
+    expect(() => parseHistoryQuery({ granularity: 'hour', from: '2026-01-01' }, now)).toThrow(/at most 1000 buckets/);
+  });
+});
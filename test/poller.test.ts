@@ -0,0 +1,99 @@
+/**
+ * Uho — Transaction Poller Tests
+ *
+ * Tests backwards paging towards the saved cursor and gap detection when the
+ * page budget runs out, using an in-memory mock connection.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { PublicKey } from '@solana/web3.js';
+import { TransactionPoller } from '../src/ingestion/poller.js';
+
+const PROGRAM_ID = new PublicKey('11111111111111111111111111111111');
+
+// =============================================================================
+// Helpers — Mock Connection
+// =============================================================================
+
+/**
+ * Creates a mock connection over `count` signatures, newest first
+ * (sig-{count} at slot 1000+count … sig-1 at slot 1001).
+ */
+function makeConnection(count: number): any {
+  const history = Array.from({ length: count }, (_, i) => ({
+    signature: `sig-${count - i}`,
+    slot: 1000 + count - i,
+    err: null,
+  }));
+
+  return {
+    async getSignaturesForAddress(
+      _address: PublicKey,
+      opts: { limit: number; before?: string; until?: string }
+    ) {
+      let start = opts.before ? history.findIndex((s) => s.signature === opts.before) + 1 : 0;
+      const untilIdx = opts.until ? history.findIndex((s) => s.signature === opts.until) : -1;
+      const end = untilIdx === -1 ? history.length : untilIdx;
+      if (start < 0) start = 0;
+      return history.slice(start, Math.min(end, start + opts.limit));
+    },
+    async getParsedTransaction(signature: string) {
+      const sig = history.find((s) => s.signature === signature)!;
+      return { slot: sig.slot, transaction: { signatures: [signature] }, meta: {} };
+    },
+  };
+}
+
+// =============================================================================
+// Gap Detection
+// =============================================================================
+
+describe('TransactionPoller gap detection', () => {
+  it('pages back until it reaches the saved cursor', async () => {
+    const poller = new TransactionPoller(makeConnection(30), PROGRAM_ID, {
+      pollIntervalMs: 0,
+      batchSize: 5,
+      maxPagesPerPoll: 10,
+    });
+    poller.setLastSignature('sig-10', 1010);
+
+    const txs = await poller.poll();
+
+    expect(txs).toHaveLength(20);
+    expect(poller.getState().lastSignature).toBe('sig-30');
+    expect(poller.drainGaps()).toEqual([]);
+  });
+
+  it('records the uncovered range as a gap when the page budget runs out', async () => {
+    const poller = new TransactionPoller(makeConnection(30), PROGRAM_ID, {
+      pollIntervalMs: 0,
+      batchSize: 5,
+      maxPagesPerPoll: 2,
+    });
+    poller.setLastSignature('sig-10', 1010);
+
+    const txs = await poller.poll();
+
+    expect(txs).toHaveLength(10);
+    expect(poller.drainGaps()).toEqual([
+      { fromSlot: 1010, toSlot: 1021, beforeSignature: 'sig-21', untilSignature: 'sig-10' },
+    ]);
+    expect(poller.drainGaps()).toEqual([]);
+  });
+
+  it('fills a recorded range with fetchRange', async () => {
+    const poller = new TransactionPoller(makeConnection(30), PROGRAM_ID, {
+      pollIntervalMs: 0,
+      batchSize: 4,
+    });
+
+    const seen: string[] = [];
+    const covered = await poller.fetchRange('sig-21', 'sig-10', async (txs) => {
+      seen.push(...txs.map((tx) => tx.transaction.signatures[0]));
+    });
+
+    expect(covered).toBe(10);
+    expect(seen[0]).toBe('sig-20');
+    expect(seen[seen.length - 1]).toBe('sig-11');
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Uho — Program Service Tests
+ *
+ * Tests that program updates carrying an IDL upgrade and event toggles are
+ * all-or-nothing.
+ * Database access runs against an in-memory fake database, with the columns
+ * DDL adds kept as rows.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { ProgramService } from '../src/services/program-service.js';
+import { ConflictError } from '../src/core/errors.js';
+import { fakeDb, insertedRows, type Row } from './helpers/fake-db.js';
+
+const swapIdl = JSON.parse(readFileSync(resolve(__dirname, '../fixtures/swap-idl.json'), 'utf-8')) as Record<string, unknown>;
+
+/** The swap IDL with SwapEvent's `fee` retyped, a field added to it, or its Pool account renamed */
+function swapIdlWith(change: 'retype' | 'add' | 'renameAccount'): Record<string, unknown> {
+  const idl = JSON.parse(JSON.stringify(swapIdl));
+  if (change === 'renameAccount') {
+    for (const def of [...idl.accounts, ...idl.types]) if (def.name === 'Pool') def.name = 'Pool-v2';
+    return idl;
+  }
+  for (const def of [...(idl.events ?? []), ...(idl.types ?? [])]) {
+    if (def.name !== 'SwapEvent') continue;
+    const fields = def.fields ?? def.type?.fields;
+    if (!fields) continue;
+    if (change === 'retype') fields.find((f: { name: string }) => f.name === 'fee').type = 'u16';
+    else fields.push({ name: 'referrer', type: 'pubkey' });
+  }
+  return idl;
+}
+
+/** Database holding one program; `failOn` makes matching statements throw */
+function setup(failOn?: RegExp) {
+  const tables = {
+    user_programs: [{
+      id: 'prog-1', user_id: 'user-1', program_id: swapIdl.address, name: 'dex', idl: swapIdl,
+      chain: 'solana-mainnet', status: 'running', config: {}, created_at: new Date(0), updated_at: new Date(0),
+    }] as Row[],
+    user_program_events: [{ user_program_id: 'prog-1', event_name: 'SwapEvent', event_type: 'event', enabled: false }] as Row[],
+    user_program_idl_versions: [] as Row[],
+    columns: [] as Row[],
+  };
+
+  return fakeDb(tables, (sql, params) => {
+    if (failOn?.test(sql)) throw new Error('statement failed');
+    const program = tables.user_programs[0];
+
+    if (sql.startsWith('SELECT * FROM user_programs WHERE id')) return { rows: params[0] === program.id ? [program] : [] };
+    if (sql.includes('SELECT schema_name FROM users')) return { rows: [{ schema_name: 'u_0123456789' }] };
+    if (sql.includes('last_slot')) return { rows: [{ last_slot: '100' }] };
+    if (sql.startsWith('SELECT version, idl, effective_slot')) return { rows: tables.user_program_idl_versions };
+    if (sql.startsWith('UPDATE user_programs SET')) {
+      for (const [, column, n] of sql.matchAll(/(\w+) = \$(\d+)/g)) {
+        if (column !== 'id') program[column] = column === 'idl' ? JSON.parse(params[Number(n) - 1] as string) : params[Number(n) - 1];
+      }
+      return { rows: [program] };
+    }
+    if (sql.startsWith('INSERT INTO user_program_idl_versions')) {
+      const [row] = insertedRows(sql, params);
+      tables.user_program_idl_versions.push({ ...row, version: row.version ?? tables.user_program_idl_versions.length + 1 });
+    } else if (sql.startsWith('INSERT INTO user_program_events')) {
+      tables.user_program_events.push(...insertedRows(sql, params));
+    } else if (sql.startsWith('UPDATE user_program_events SET enabled')) {
+      const [enabled, , userProgramId, name, type] = params;
+      for (const row of tables.user_program_events) {
+        if (row.user_program_id === userProgramId && row.event_name === name && row.event_type === type) row.enabled = enabled;
+      }
+    }
+    for (const [, table, column] of sql.matchAll(/ALTER TABLE (?:IF EXISTS )?"?(\w+)"? ADD COLUMN (?:IF NOT EXISTS )?"?(\w+)"?/g)) {
+      tables.columns.push({ table, column });
+    }
+  });
+}
+
+describe('ProgramService.updateProgram', () => {
+  it('writes nothing when the new IDL is rejected', async () => {
+    const db = setup();
+    const before = structuredClone(db.tables);
+    const service = new ProgramService(db.pool);
+
+    await expect(service.updateProgram('user-1', 'prog-1', { name: 'renamed', idl: swapIdlWith('retype') }))
+      .rejects.toThrow(ConflictError);
+    await expect(service.updateProgram('user-1', 'prog-1', { name: 'renamed', idl: swapIdl, effectiveSlot: -1 }))
+      .rejects.toThrow(/effectiveSlot/);
+    await expect(service.updateProgram('user-1', 'prog-1', { idl: swapIdlWith('renameAccount') }))
+      .rejects.toThrow(/Invalid account name: 'Pool-v2'/);
+    expect(db.tables).toEqual(before);
+  });
+
+  it('renames, upgrades the tables and toggles events together', async () => {
+    const db = setup();
+    const updated = await new ProgramService(db.pool).updateProgram('user-1', 'prog-1', {
+      name: 'renamed',
+      idl: swapIdlWith('add'),
+      events: [{ name: 'SwapEvent', type: 'event', enabled: true }],
+    });
+
+    expect(updated).toMatchObject({ name: 'renamed', idlUpgrade: { version: 2, effectiveSlot: 101 } });
+    expect(db.tables.user_programs[0]).toMatchObject({ name: 'renamed', idl: swapIdlWith('add') });
+    expect(db.tables.user_program_idl_versions.map((v) => v.version)).toEqual([1, 2]);
+    expect(db.tables.columns).toContainEqual(expect.objectContaining({ column: 'referrer' }));
+    expect(db.tables.user_program_events[0].enabled).toBe(true);
+  });
+
+  it('rolls back the rename and every upgrade step when one fails', async () => {
+    const db = setup(/^INSERT INTO user_program_idl_versions .* VALUES \(\$1, \$2/);
+    const before = structuredClone(db.tables);
+
+    await expect(new ProgramService(db.pool).updateProgram('user-1', 'prog-1', { name: 'renamed', idl: swapIdlWith('add') }))
+      .rejects.toThrow('statement failed');
+    expect(db.tables).toEqual(before);
+  });
+
+  it('rolls back the upgrade when toggling an event fails', async () => {
+    const db = setup(/^UPDATE user_program_events/);
+    const before = structuredClone(db.tables);
+
+    await expect(new ProgramService(db.pool).updateProgram('user-1', 'prog-1', {
+      idl: swapIdlWith('add'),
+      events: [{ name: 'SwapEvent', type: 'event', enabled: true }],
+    })).rejects.toThrow('statement failed');
+    expect(db.tables).toEqual(before);
+  });
+});
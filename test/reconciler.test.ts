@@ -0,0 +1,144 @@
+/**
+ * Uho — Commitment Reconciler Tests
+ *
+ * Tests promotion of confirmed rows in rooted slots, relocation and
+ * retraction of rows whose slot was skipped, and that history in upgraded
+ * tables is left alone. Tables are held in an in-memory fake database that
+ * understands the reconciler's statements; the RPC connection is faked too.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import type { Connection, SignatureStatus } from '@solana/web3.js';
+import { CommitmentReconciler, reconcileTables } from '../src/ingestion/reconciler.js';
+import { generateCommitmentUpgrade } from '../src/core/schema-generator.js';
+import { parseAnyIDL } from '../src/core/idl-parser.js';
+import { fakeDb, type Row, type Tables } from './helpers/fake-db.js';
+
+const rawIdl = JSON.parse(readFileSync(resolve(__dirname, '../fixtures/swap-idl.json'), 'utf-8')) as Record<string, unknown>;
+const parsedIdl = parseAnyIDL(rawIdl).parsed;
+const tables = reconcileTables(parsedIdl, ['SwapEvent'], [], false, rawIdl);
+const swapTable = tables[0].tableName;
+
+function swapRow(id: number, slot: number, txSignature: string, commitment = 'confirmed'): Row {
+  return {
+    id, slot, block_time: null, tx_signature: txSignature, ix_index: 0, inner_ix_index: null, event_index: 0,
+    invoking_program: null, cpi_path: null, commitment, indexed_at: null,
+    amm: 'pool1', input_mint: 'mintA', input_amount: '5', output_mint: 'mintB', output_amount: '7', fee: '1', timestamp: '1700000000',
+  };
+}
+
+/** Client over in-memory tables; statements on unknown tables fail like Postgres */
+function fakeClient(tables: Tables) {
+  return fakeDb(tables, (sql, params) => {
+    if (['BEGIN', 'COMMIT', 'ROLLBACK'].includes(sql)) return;
+    if (sql.includes('to_regclass')) return { rows: [{ reg: null }] };
+
+    const table = /(?:FROM|UPDATE) (\S+)/.exec(sql)![1];
+    const rows = tables[table];
+    if (!rows) throw Object.assign(new Error(`relation ${table} does not exist`), { code: '42P01' });
+    const confirmed = rows.filter((r) => r.commitment === 'confirmed');
+
+    if (sql.startsWith('SELECT DISTINCT slot')) {
+      const slots = [...new Set(confirmed.map((r) => r.slot as number))].filter((s) => s <= (params[0] as number));
+      return { rows: slots.sort((a, b) => a - b).map((slot) => ({ slot })) };
+    }
+    if (sql.startsWith('SELECT DISTINCT tx_signature')) {
+      const pairs = confirmed.filter((r) => (params[0] as number[]).includes(r.slot as number));
+      return { rows: [...new Map(pairs.map((r) => [r.tx_signature, r])).values()] };
+    }
+    if (sql.startsWith('UPDATE') && sql.includes('slot = $2')) {
+      const moved = confirmed.filter((r) => r.tx_signature === params[0]);
+      for (const r of moved) Object.assign(r, { slot: params[1], commitment: 'finalized' });
+      return { rowCount: moved.length };
+    }
+    if (sql.startsWith('UPDATE')) {
+      const promoted = confirmed.filter((r) => (params[0] as number[]).includes(r.slot as number));
+      for (const r of promoted) r.commitment = 'finalized';
+      return { rowCount: promoted.length };
+    }
+    if (sql.startsWith('DELETE')) {
+      const deleted = confirmed.filter((r) => r.tx_signature === params[0]);
+      rows.splice(0, rows.length, ...rows.filter((r) => !deleted.includes(r)));
+      return { rows: deleted };
+    }
+    throw new Error(`Unexpected statement: ${sql}`);
+  }).pool.connect();
+}
+
+/** Connection whose finalized blocks and signature statuses are fixed */
+function fakeConnection(rooted: number[], statuses: Record<string, Partial<SignatureStatus> | null> = {}) {
+  const calls: string[] = [];
+  const connection = {
+    getSlot: async () => Math.max(...rooted),
+    getBlocks: async (from: number, to: number) => {
+      calls.push('getBlocks');
+      return rooted.filter((s) => s >= from && s <= to);
+    },
+    getSignatureStatuses: async (signatures: string[]) => {
+      calls.push('getSignatureStatuses');
+      return { value: signatures.map((sig) => statuses[sig] ?? null) };
+    },
+  } as unknown as Connection;
+  return { connection, calls };
+}
+
+describe('CommitmentReconciler.reconcile', () => {
+  it('promotes confirmed rows in rooted slots to finalized', async () => {
+    const rows = [swapRow(1, 100, 'sig1'), swapRow(2, 102, 'sig2'), swapRow(3, 200, 'sig3')];
+    const { connection } = fakeConnection([100, 102]);
+
+    const result = await new CommitmentReconciler(connection).reconcile(await fakeClient({ [swapTable]: rows }), tables, 150);
+
+    expect(result).toEqual({ finalized: 2, retracted: [] });
+    expect(rows.map((r) => r.commitment)).toEqual(['finalized', 'finalized', 'confirmed']);
+  });
+
+  it('retracts rows from dropped forks, keyed by IDL field names', async () => {
+    const rows = [swapRow(1, 100, 'sig1'), swapRow(2, 101, 'sig2')];
+    const { connection } = fakeConnection([100, 102], { sig2: null });
+
+    const result = await new CommitmentReconciler(connection).reconcile(await fakeClient({ [swapTable]: rows }), tables, 102);
+
+    expect(result.finalized).toBe(1);
+    expect(result.retracted).toEqual([{
+      kind: 'event',
+      name: 'SwapEvent',
+      slot: 101,
+      txSignature: 'sig2',
+      data: { amm: 'pool1', inputMint: 'mintA', inputAmount: '5', outputMint: 'mintB', outputAmount: '7', fee: '1', timestamp: '1700000000' },
+    }]);
+    expect(rows.map((r) => r.tx_signature)).toEqual(['sig1']);
+  });
+
+  it('moves rows whose transaction re-landed in another slot', async () => {
+    const rows = [swapRow(1, 101, 'sig1')];
+    const { connection } = fakeConnection([102], { sig1: { slot: 102, err: null, confirmationStatus: 'finalized' } });
+
+    const result = await new CommitmentReconciler(connection).reconcile(await fakeClient({ [swapTable]: rows }), tables, 102);
+
+    expect(result).toEqual({ finalized: 1, retracted: [] });
+    expect(rows[0]).toMatchObject({ slot: 102, commitment: 'finalized' });
+  });
+
+  it('leaves history in upgraded tables alone', async () => {
+    // Rows present when the commitment column is added take its ADD COLUMN default
+    const upgrade = generateCommitmentUpgrade(swapTable, 'sample_dex_swap_event');
+    const historyCommitment = /ADD COLUMN .* DEFAULT '(\w+)'/.exec(upgrade)![1];
+    const rows = [swapRow(1, 50, 'old1', historyCommitment), swapRow(2, 60, 'old2', historyCommitment)];
+    const { connection, calls } = fakeConnection([100]);
+
+    const result = await new CommitmentReconciler(connection).reconcile(await fakeClient({ [swapTable]: rows }), tables, 100);
+
+    expect(result).toEqual({ finalized: 0, retracted: [] });
+    expect(rows).toHaveLength(2);
+    expect(calls).toEqual([]);
+  });
+
+  it('skips tables that do not exist yet', async () => {
+    const { connection } = fakeConnection([100]);
+    const result = await new CommitmentReconciler(connection).reconcile(await fakeClient({}), tables, 100);
+    expect(result).toEqual({ finalized: 0, retracted: [] });
+  });
+});
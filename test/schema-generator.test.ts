@@ -13,8 +13,13 @@ import {
   generateEventTable,
   generateMetadataTable,
   generateTokenTransfersTable,
+  generateAccountStateTable,
+  generateAccountHistoryTable,
+  generateCommitmentUpgrade,
   eventTableName,
+  accountStateTableName,
 } from '../src/core/schema-generator.js';
+import { applyColumnLayout, columnForPath, columnValue } from '../src/core/structured-columns.js';
 import type { AnchorIDL, ProgramConfig } from '../src/core/types.js';
 
 // Load fixture IDL
@@ -126,6 +131,46 @@ describe('generateEventTable', () => {
     expect(ddl).toContain('token_a_amount');
     expect(ddl).toContain('action');
   });
+
+  it('tracks commitment and upgrades tables created without it', () => {
+    const ddl = generateEventTable(parsed.programName, parsed.events[0]);
+
+    expect(ddl).toContain("commitment           TEXT NOT NULL DEFAULT 'confirmed'");
+    expect(ddl).toContain('ALTER TABLE "sample_dex_swap_event" ADD COLUMN IF NOT EXISTS "commitment"');
+    expect(ddl).toContain(`idx_sample_dex_swap_event_pending ON "sample_dex_swap_event"("slot") WHERE "commitment" = 'confirmed'`);
+  });
+
+  it('marks rows of upgraded tables finalized, and new rows confirmed', () => {
+    const ddl = generateCommitmentUpgrade('"swaps"', 'swaps');
+    const add = ddl.indexOf(`ALTER TABLE "swaps" ADD COLUMN IF NOT EXISTS "commitment" TEXT NOT NULL DEFAULT 'finalized';`);
+    const setDefault = ddl.indexOf(`ALTER TABLE "swaps" ALTER COLUMN "commitment" SET DEFAULT 'confirmed';`);
+    expect(add).toBeGreaterThanOrEqual(0);
+    expect(setDefault).toBeGreaterThan(add);
+
+    const migration = readFileSync(resolve(__dirname, '../src/migrations/019_add_commitment_columns.sql'), 'utf-8');
+    expect(migration).toContain("ADD COLUMN IF NOT EXISTS commitment TEXT NOT NULL DEFAULT ''finalized''");
+    expect(migration).toContain("ALTER COLUMN commitment SET DEFAULT ''confirmed''");
+  });
+
+  it('widens u64 columns created as BIGINT in place', () => {
+    const ddl = generateEventTable(parsed.programName, parsed.events[0]);
+
+    expect(ddl).toContain('"input_amount"         NUMERIC(20,0)');
+    expect(ddl).toContain("table_name = 'sample_dex_swap_event'");
+    expect(ddl).toContain("column_name IN ('input_amount', 'output_amount', 'fee')");
+    expect(ddl).toContain("format('ALTER COLUMN %I TYPE NUMERIC(20,0)', column_name)");
+  });
+
+  it('keys events by emitting instruction and upgrades the old unique index', () => {
+    const ddl = generateEventTable(parsed.programName, parsed.events[0]);
+
+    expect(ddl).toContain('cpi_path             TEXT[]');
+    expect(ddl).toContain('ADD COLUMN IF NOT EXISTS "invoking_program" TEXT');
+    expect(ddl).toContain('DROP INDEX uq_sample_dex_swap_event_tx');
+    expect(ddl).toContain(
+      'uq_sample_dex_swap_event_tx ON "sample_dex_swap_event"(tx_signature, ix_index, COALESCE(inner_ix_index, -1), event_index)'
+    );
+  });
 });
 
 // =============================================================================
@@ -210,6 +255,20 @@ describe('generateDDL', () => {
     expect(tokenDdl).toContain('NUMERIC(39,0)');
   });
 
+  it('includes account state tables for configured accounts', () => {
+    const accountConfig: ProgramConfig = {
+      ...programConfig,
+      accounts: ['Pool'],
+      accountHistory: true,
+    };
+    const ddl = generateDDL(parsed, accountConfig);
+
+    // metadata + tx_logs + 2 events + 2 instructions + Pool state + Pool history
+    expect(ddl.length).toBe(8);
+    expect(ddl[6]).toContain('"sample_dex_pool_state"');
+    expect(ddl[7]).toContain('"sample_dex_pool_state_history"');
+  });
+
   it('handles IF NOT EXISTS for idempotent schema application', () => {
     const ddl = generateDDL(parsed, programConfig);
     for (const sql of ddl) {
@@ -217,3 +276,123 @@ describe('generateDDL', () => {
     }
   });
 });
+
+// =============================================================================
+// Account State Tables
+// =============================================================================
+
+describe('account state tables', () => {
+  const poolAccount = parsed.accounts.find((a) => a.name === 'Pool')!;
+
+  it('generates correct quoted table names', () => {
+    expect(accountStateTableName('sample_dex', 'Pool')).toBe('"sample_dex_pool_state"');
+    expect(accountStateTableName('sample_dex', 'UserPosition')).toBe('"sample_dex_user_position_state"');
+  });
+
+  it('keys the state table by pubkey with IDL field columns', () => {
+    const ddl = generateAccountStateTable('sample_dex', poolAccount);
+    expect(ddl).toContain('CREATE TABLE IF NOT EXISTS "sample_dex_pool_state"');
+    expect(ddl).toContain('"pubkey"               TEXT NOT NULL UNIQUE');
+    expect(ddl).toContain('"lamports"');
+    expect(ddl).toContain('"token_a_reserve"');
+    expect(ddl).toContain('"fee_rate"');
+  });
+
+  it('keeps one history row per pubkey and slot', () => {
+    const ddl = generateAccountHistoryTable('sample_dex', poolAccount);
+    expect(ddl).toContain('CREATE TABLE IF NOT EXISTS "sample_dex_pool_state_history"');
+    expect(ddl).toContain('uq_sample_dex_pool_state_history_pubkey_slot');
+    expect(ddl).toContain('("pubkey", "slot")');
+  });
+
+  it('skips IDL fields that collide with metadata columns', () => {
+    const ddl = generateAccountStateTable('sample_dex', {
+      ...poolAccount,
+      fields: [
+        ...poolAccount.fields,
+        { name: 'slot', type: 'u64', sqlType: 'BIGINT', nullable: false },
+      ],
+    });
+    expect(ddl.match(/"slot"/g)?.length).toBe(2); // column + index
+  });
+});
+
+// =============================================================================
+// Structured Columns
+// =============================================================================
+
+describe('structured columns', () => {
+  const nestedIdl = {
+    address: 'Nest1111111111111111111111111111111111111111',
+    metadata: { name: 'nest', version: '0.1.0', spec: '0.1.0' },
+    instructions: [],
+    events: [{ name: 'OrderPlaced', discriminator: [1, 2, 3, 4, 5, 6, 7, 8] }],
+    types: [
+      {
+        name: 'OrderPlaced',
+        type: {
+          kind: 'struct',
+          fields: [
+            { name: 'params', type: { defined: { name: 'OrderParams' } } },
+            { name: 'side', type: { defined: { name: 'Side' } } },
+            { name: 'fills', type: { vec: 'u64' } },
+          ],
+        },
+      },
+      {
+        name: 'OrderParams',
+        type: {
+          kind: 'struct',
+          fields: [
+            { name: 'amountIn', type: 'u64' },
+            { name: 'limit', type: { option: { defined: { name: 'Limit' } } } },
+          ],
+        },
+      },
+      { name: 'Limit', type: { kind: 'struct', fields: [{ name: 'price', type: 'u64' }] } },
+      { name: 'Side', type: { kind: 'enum', variants: [{ name: 'Bid' }, { name: 'Ask' }] } },
+    ],
+  } as unknown as AnchorIDL;
+  const plain = parseIDL(nestedIdl);
+  const structured = applyColumnLayout(plain, { structuredColumns: true });
+
+  it('leaves the JSONB layout in place unless enabled', () => {
+    expect(applyColumnLayout(plain, {})).toBe(plain);
+    expect(plain.events[0].fields.map((f) => f.name)).toEqual(['params', 'side', 'fills']);
+  });
+
+  it('expands structs into prefixed columns and splits enums', () => {
+    const fields = structured.events[0].fields;
+    expect(fields.map((f) => [f.name, f.sqlType])).toEqual([
+      ['params_amount_in', 'NUMERIC(20,0)'],
+      ['params_limit_price', 'NUMERIC(20,0)'],
+      ['side', 'JSONB'],
+      ['side_variant', 'TEXT'],
+      ['fills', 'JSONB'],
+    ]);
+    expect(fields[1].nullable).toBe(true);
+    expect(fields[1].path).toEqual(['params', 'limit', 'price']);
+  });
+
+  it('generates the expanded columns with GIN indexes on vectors', () => {
+    const ddl = generateEventTable('nest', structured.events[0]);
+    expect(ddl).toContain('"params_amount_in"     NUMERIC(20,0)');
+    expect(ddl).toContain('ADD COLUMN IF NOT EXISTS "side_variant" TEXT');
+    expect(ddl).toContain('idx_nest_order_placed_fills_gin ON "nest_order_placed" USING GIN ("fills")');
+  });
+
+  it('reads column values through nested paths and enum variants', () => {
+    const data = { params: { amountIn: '5', limit: null }, side: { ask: {} }, fills: ['1'] };
+    const [amountIn, price, side, variant] = structured.events[0].fields;
+    expect(columnValue(data, amountIn)).toBe('5');
+    expect(columnValue(data, price)).toBeUndefined();
+    expect(columnValue(data, side)).toEqual({ ask: {} });
+    expect(columnValue(data, variant)).toBe('Ask');
+  });
+
+  it('maps dotted filter keys to expanded column names', () => {
+    expect(columnForPath('params.amountIn')).toBe('params_amount_in');
+    expect(columnForPath('params.amount_in')).toBe('params_amount_in');
+    expect(columnForPath('slot')).toBe('slot');
+  });
+});
@@ -86,7 +86,7 @@ describe('parseShankIDL', () => {
     expect(transfer!.accounts).toContain('authority');
     expect(transfer!.args.length).toBe(1);
     expect(transfer!.args[0].name).toBe('amount');
-    expect(transfer!.args[0].sqlType).toBe('BIGINT');
+    expect(transfer!.args[0].sqlType).toBe('NUMERIC(20,0)');
   });
 
   it('parses transferChecked instruction', () => {
@@ -174,7 +174,7 @@ describe('parseCodamaIDL', () => {
     expect(parsed.instructions[0].name).toBe('doSomething');
     expect(parsed.instructions[0].discriminator).toEqual(Buffer.from([42]));
     expect(parsed.instructions[0].args[0].name).toBe('value');
-    expect(parsed.instructions[0].args[0].sqlType).toBe('BIGINT');
+    expect(parsed.instructions[0].args[0].sqlType).toBe('NUMERIC(20,0)');
   });
 
   it('parses Codama IDL with "arguments" field (true Codama format)', () => {
@@ -196,7 +196,7 @@ describe('parseCodamaIDL', () => {
     const parsed = parseCodamaIDL(codamaIdl);
     expect(parsed.instructions[0].args.length).toBe(2);
     expect(parsed.instructions[0].args[0].name).toBe('amount');
-    expect(parsed.instructions[0].args[0].sqlType).toBe('BIGINT');
+    expect(parsed.instructions[0].args[0].sqlType).toBe('NUMERIC(20,0)');
     expect(parsed.instructions[0].args[1].name).toBe('decimals');
     expect(parsed.instructions[0].args[1].sqlType).toBe('INTEGER');
   });
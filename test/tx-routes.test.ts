@@ -0,0 +1,109 @@
+/**
+ * Uho — Transaction Document Tests
+ *
+ * Tests for reading a transaction's rows and composing them into one
+ * ordered document.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { composeTransaction, fetchTableRows, formatUiAmount, type EnabledTable } from '../src/api/tx-routes.js';
+import { fakeDb, type Tables } from './helpers/fake-db.js';
+
+const blockTime = new Date('2026-01-01T00:00:00.000Z');
+
+describe('composeTransaction', () => {
+  it('orders entries by instruction position', () => {
+    const doc = composeTransaction(
+      'sig1',
+      [
+        {
+          kind: 'event',
+          program: 'pump',
+          name: 'TradeEvent',
+          rows: [
+            { id: '2', slot: '100', block_time: blockTime, ix_index: 1, inner_ix_index: 3, event_index: 1, commitment: 'finalized' },
+            { id: '1', slot: '100', block_time: blockTime, ix_index: 1, inner_ix_index: 3, event_index: 0, commitment: 'finalized' },
+          ],
+        },
+        {
+          kind: 'instruction',
+          program: 'pump',
+          name: 'buy',
+          rows: [{ id: '7', slot: '100', block_time: blockTime, ix_index: 1, commitment: 'confirmed' }],
+        },
+      ],
+      [
+        { id: '5', slot: '100', ix_index: 1, inner_ix_index: 0, instruction_type: 'transferChecked', amount: '1500000', decimals: 6 },
+        { id: '4', slot: '100', ix_index: 0, inner_ix_index: null, instruction_type: 'transfer', amount: '42', decimals: null },
+      ],
+      { slot: '100', log_messages: ['Program log: hi'] }
+    );
+
+    expect(doc.entries.map((e) => [e.kind, e.name, e.ixIndex, e.innerIxIndex])).toEqual([
+      ['token_transfer', 'transfer', 0, null],
+      ['instruction', 'buy', 1, null],
+      ['token_transfer', 'transferChecked', 1, 0],
+      ['event', 'TradeEvent', 1, 3],
+      ['event', 'TradeEvent', 1, 3],
+    ]);
+    expect(doc.entries[3].data.id).toBe('1');
+    expect(doc.entries[2].data.ui_amount).toBe('1.5');
+    expect(doc.entries[0].data.ui_amount).toBeNull();
+    expect(doc).toMatchObject({
+      signature: 'sig1',
+      slot: '100',
+      blockTime: '2026-01-01T00:00:00.000Z',
+      commitment: 'confirmed',
+      logs: ['Program log: hi'],
+    });
+  });
+
+  it('falls back to the logs for the slot', () => {
+    const doc = composeTransaction('sig2', [], [], { slot: '55', log_messages: [] });
+    expect(doc).toEqual({ signature: 'sig2', slot: '55', blockTime: null, commitment: null, entries: [], logs: [] });
+  });
+});
+
+describe('formatUiAmount', () => {
+  it('places the decimal point and trims trailing zeros', () => {
+    expect(formatUiAmount('1500000', 6)).toBe('1.5');
+    expect(formatUiAmount('42', 6)).toBe('0.000042');
+    expect(formatUiAmount('1000000', 6)).toBe('1');
+    expect(formatUiAmount('340282366920938463463374607431768211455', 9)).toBe('340282366920938463463374607431.768211455');
+    expect(formatUiAmount('7', 0)).toBe('7');
+  });
+});
+
+describe('fetchTableRows', () => {
+  const tables: EnabledTable[] = ['deposit', 'swap', 'withdraw'].map((name) => ({
+    kind: 'event', program: 'dex', name, table: `dex_${name}`,
+  }));
+
+  /** Client over in-memory tables that counts the tables it reads rows from */
+  async function fakeClient(data: Tables) {
+    const reads: string[] = [];
+    const matching = (table: string, signature: unknown) => (data[table] ?? []).filter((r) => r.tx_signature === signature);
+    const client = await fakeDb(data, (sql, params) => {
+      const probes = [...sql.matchAll(/SELECT (\d+) AS idx WHERE EXISTS \(SELECT 1 FROM "(\w+)"/g)];
+      if (probes.length > 0) {
+        return { rows: probes.filter(([, , table]) => matching(table, params[0]).length > 0).map(([, idx]) => ({ idx })) };
+      }
+      const table = /FROM "(\w+)"/.exec(sql)![1];
+      reads.push(table);
+      return { rows: matching(table, params[0]) };
+    }).pool.connect();
+    return { client, reads };
+  }
+
+  it('reads only the tables holding rows of the transaction', async () => {
+    const { client, reads } = await fakeClient({
+      dex_deposit: [{ tx_signature: 'other' }],
+      dex_withdraw: [{ tx_signature: 'sig1', amount: '5' }],
+    });
+
+    expect(await fetchTableRows(client, tables, 'sig1')).toEqual([
+      { kind: 'event', program: 'dex', name: 'withdraw', rows: [{ tx_signature: 'sig1', amount: '5' }] },
+    ]);
+    expect(reads).toEqual(['dex_withdraw']);
+  });
+});
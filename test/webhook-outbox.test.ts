@@ -0,0 +1,211 @@
+/**
+ * Uho — Webhook Outbox Tests
+ *
+ * Tests idempotency keys, webhook matching, idempotent enqueueing, replays
+ * (whose payloads match live ones) and batch payloads. Database access runs
+ * against an in-memory fake database.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { WebhookOutbox, matchesWebhook, outboxEntry, outboxKey, type OutboxEntry, type OutboxEvent } from '../src/services/webhook-outbox.js';
+import { WebhookService, buildDeliveryPayload } from '../src/services/webhook-service.js';
+import { parseFilterExpression } from '../src/core/filter-expression.js';
+import { parseIDL } from '../src/core/idl-parser.js';
+import { applyColumnLayout, columnValue } from '../src/core/structured-columns.js';
+import type { AnchorIDL } from '../src/core/types.js';
+import { fakeDb, type Row } from './helpers/fake-db.js';
+
+const swap: OutboxEvent = {
+  eventName: 'SwapEvent',
+  slot: 100,
+  txSignature: 'sig1',
+  data: { amm: 'pool1', amount: '5' },
+  position: '0:-:0',
+};
+
+describe('outboxKey', () => {
+  it('is stable per event and kind of notification', () => {
+    expect(outboxKey('event', 'prog', swap)).toBe(outboxKey('event', 'prog', { ...swap }));
+    expect(outboxKey('event', 'prog', swap)).not.toBe(outboxKey('retracted', 'prog', swap));
+    expect(outboxKey('event', 'prog', swap)).not.toBe(outboxKey('event', 'prog', { ...swap, position: '0:-:1' }));
+  });
+});
+
+describe('matchesWebhook', () => {
+  it('applies the event list and filter expression', () => {
+    const filter = (input: unknown) => parseFilterExpression(input);
+    expect(matchesWebhook({ events: [], filters: null }, 'SwapEvent', swap.data)).toBe(true);
+    expect(matchesWebhook({ events: ['DepositEvent'], filters: null }, 'SwapEvent', swap.data)).toBe(false);
+    expect(matchesWebhook({ events: [], filters: filter({ amm: 'pool1' }) }, 'SwapEvent', swap.data)).toBe(true);
+    expect(matchesWebhook({ events: [], filters: filter({ amm: 'pool2' }) }, 'SwapEvent', swap.data)).toBe(false);
+    expect(matchesWebhook({ events: [], filters: filter('amount >= 5 and amm != "pool2"') }, 'SwapEvent', swap.data)).toBe(true);
+  });
+});
+
+describe('WebhookOutbox.enqueue', () => {
+  /** Database with two webhooks and an outbox */
+  function setup() {
+    const tables = { webhook_outbox: [] as Row[] };
+    return fakeDb(tables, (sql, params) => {
+      if (sql.includes('FROM webhooks w')) {
+        return {
+          rows: [
+            { id: 'wh-all', events: [], filters: {} },
+            { id: 'wh-deposits', events: ['DepositEvent'], filters: {} },
+          ],
+        };
+      }
+      if (sql.startsWith('INSERT INTO webhook_outbox')) {
+        const [webhookId, keys, types, payloads] = params as [string, string[], string[], string[]];
+        let rowCount = 0;
+        keys.forEach((key, i) => {
+          if (tables.webhook_outbox.some((r) => r.webhookId === webhookId && r.key === key)) return;
+          tables.webhook_outbox.push({ webhookId, key, eventType: types[i], payload: JSON.parse(payloads[i]) });
+          rowCount++;
+        });
+        return { rowCount };
+      }
+    });
+  }
+
+  it('enqueues matching events in order, once', async () => {
+    const { pool, tables: { webhook_outbox: outbox } } = setup();
+    const webhookOutbox = new WebhookOutbox(pool);
+    const deposit: OutboxEvent = { ...swap, eventName: 'DepositEvent', position: '1:-:0' };
+
+    expect(await webhookOutbox.enqueue('user-1', 'prog', [swap, deposit])).toBe(3);
+    expect(outbox.map((r) => [r.webhookId, r.eventType])).toEqual([
+      ['wh-all', 'SwapEvent'],
+      ['wh-all', 'DepositEvent'],
+      ['wh-deposits', 'DepositEvent'],
+    ]);
+    expect((outbox[0].payload as Row).id).toBe(`evt_${outbox[0].key}`);
+
+    // Re-indexing the same batch enqueues nothing new
+    expect(await webhookOutbox.enqueue('user-1', 'prog', [swap, deposit])).toBe(0);
+    expect(outbox).toHaveLength(3);
+  });
+
+  it('enqueues replays again under new keys, keeping payload ids', async () => {
+    const { pool, tables: { webhook_outbox: outbox } } = setup();
+    const webhookOutbox = new WebhookOutbox(pool);
+    await webhookOutbox.enqueue('user-1', 'prog', [swap]);
+
+    const entry = outboxEntry('event', 'prog', swap);
+    expect(await webhookOutbox.enqueueReplay('wh-all', [entry], 'replay-1')).toBe(1);
+    expect(await webhookOutbox.enqueueReplay('wh-all', [entry], 'replay-1')).toBe(0);
+    expect(await webhookOutbox.enqueueReplay('wh-all', [entry], 'replay-2')).toBe(1);
+
+    expect(outbox).toHaveLength(3);
+    expect(new Set(outbox.map((r) => r.key)).size).toBe(3);
+    expect(new Set(outbox.map((r) => (r.payload as Row).id)).size).toBe(1);
+  });
+});
+
+describe('WebhookService.replay', () => {
+  const idl = {
+    address: 'Nest1111111111111111111111111111111111111111',
+    metadata: { name: 'nest', version: '0.1.0', spec: '0.1.0' },
+    instructions: [],
+    events: [{ name: 'OrderPlaced', discriminator: [1, 2, 3, 4, 5, 6, 7, 8] }],
+    types: [
+      {
+        name: 'OrderPlaced',
+        type: {
+          kind: 'struct',
+          fields: [
+            { name: 'owner', type: 'pubkey' },
+            { name: 'params', type: { defined: { name: 'OrderParams' } } },
+            { name: 'side', type: { defined: { name: 'Side' } } },
+          ],
+        },
+      },
+      {
+        name: 'OrderParams',
+        type: {
+          kind: 'struct',
+          fields: [
+            { name: 'amountIn', type: 'u64' },
+            { name: 'limit', type: { option: { defined: { name: 'Limit' } } } },
+          ],
+        },
+      },
+      { name: 'Limit', type: { kind: 'struct', fields: [{ name: 'price_cap', type: 'u64' }] } },
+      { name: 'Side', type: { kind: 'enum', variants: [{ name: 'Bid' }, { name: 'Ask' }] } },
+    ],
+  };
+  const webhookId = '00000000-0000-4000-8000-000000000001';
+
+  /** A live event as decoded, and its row written with the program's column layout */
+  function indexed(config: Record<string, unknown>, data: Record<string, unknown>) {
+    const event: OutboxEvent = { eventName: 'OrderPlaced', slot: 100, txSignature: 'sig1', data, position: '0:-:0' };
+    const fields = applyColumnLayout(parseIDL(idl as unknown as AnchorIDL), config).events[0].fields;
+    const row: Record<string, unknown> = {
+      id: '1', slot: '100', block_time: null, tx_signature: 'sig1', ix_index: 0, inner_ix_index: null,
+      event_index: 0, invoking_program: null, cpi_path: null, commitment: 'confirmed', indexed_at: new Date(),
+    };
+    for (const field of fields) row[field.name] = columnValue(data, field) ?? null;
+    return { event, row };
+  }
+
+  /** Replays the row from a fake database, returning the enqueued payload */
+  async function replay(config: Record<string, unknown>, row: Record<string, unknown>) {
+    const enqueued: OutboxEntry[] = [];
+    const { pool } = fakeDb({}, (sql, params) => {
+      if (sql.includes('FROM webhooks w')) {
+        return { rows: [{ events: [], filters: {}, user_program_id: 'up-1', program_id: idl.address, name: 'nest', idl }] };
+      }
+      if (sql.includes('FROM user_program_events')) return { rows: [{ event_name: 'OrderPlaced' }] };
+      if (sql.includes('FROM user_programs')) return { rows: [{ idl, name: 'nest', config }] };
+      if (sql.includes('COUNT(*)')) return { rows: [{ total: '1' }] };
+      if (sql.startsWith('SELECT *')) return { rows: params[2] === '0' ? [row] : [] };
+    });
+    const outbox = {
+      enqueueReplay: async (_webhookId: string, entries: OutboxEntry[]) => {
+        enqueued.push(...entries);
+        return entries.length;
+      },
+    } as unknown as WebhookOutbox;
+
+    await new WebhookService(pool, undefined, outbox).replay('user-1', 'u_0123456789', webhookId, 0, 200);
+    expect(enqueued).toHaveLength(1);
+    return enqueued[0].payload;
+  }
+
+  it('replays events with the payload they were delivered with live', async () => {
+    const orders = [
+      { owner: 'Owner1', params: { amountIn: '5', limit: { price_cap: '7' } }, side: { ask: {} } },
+      { owner: 'Owner1', params: { amountIn: '5', limit: null }, side: { bid: {} } },
+    ];
+    for (const config of [{}, { structuredColumns: true }]) {
+      for (const data of orders) {
+        const { event, row } = indexed(config, data);
+        const live = outboxEntry('event', idl.address, event).payload;
+        const replayed = await replay(config, row);
+        expect({ ...replayed, timestamp: null }, JSON.stringify(config)).toEqual({ ...live, timestamp: null });
+      }
+    }
+  });
+});
+
+describe('buildDeliveryPayload', () => {
+  const rows = [swap, { ...swap, position: '0:-:1' }].map((e) => outboxEntry('event', 'prog', e));
+
+  it('sends single events as they are', () => {
+    const delivery = buildDeliveryPayload([rows[0]], false);
+    expect(delivery).toEqual({ eventType: 'SwapEvent', payload: rows[0].payload, idempotencyKey: rows[0].payload.id });
+  });
+
+  it('wraps events of batching webhooks in a batch envelope', () => {
+    const delivery = buildDeliveryPayload(rows, true);
+    expect(delivery.eventType).toBe('batch');
+    expect(delivery.payload.type).toBe('batch');
+    expect(delivery.payload.events).toEqual(rows.map((r) => r.payload));
+    expect(delivery.idempotencyKey).toBe(delivery.payload.id);
+    expect(delivery.idempotencyKey).toMatch(/^bat_[0-9a-f]{32}$/);
+
+    // The batch id follows the events it holds
+    expect(buildDeliveryPayload(rows, true).idempotencyKey).toBe(delivery.idempotencyKey);
+    expect(buildDeliveryPayload([rows[0]], true).idempotencyKey).not.toBe(delivery.idempotencyKey);
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * Uho — Webhook Payload Tests
+ *
+ * Tests payload settings validation, template rendering, field selection,
+ * the Discord and Slack presets and test event data.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_PAYLOAD_SETTINGS,
+  checkPayloadSettings,
+  parsePayloadSettings,
+  redactHeaders,
+  sampleEventData,
+  shapePayload,
+  type PayloadSettings,
+} from '../src/services/webhook-payloads.js';
+import { ValidationError } from '../src/core/errors.js';
+import type { ParsedEvent } from '../src/core/types.js';
+
+const swap = {
+  id: 'evt_1',
+  type: 'event',
+  event: 'SwapEvent',
+  programId: 'Prog111',
+  data: { amm: 'pool1', amountIn: '18446744073709551615', params: { minOut: '2500', route: ['A', 'B'] } },
+  slot: 100,
+  txSignature: 'sig1',
+  timestamp: '2026-01-01T00:00:00.000Z',
+};
+
+const events: ParsedEvent[] = [{
+  name: 'SwapEvent',
+  discriminator: Buffer.alloc(8),
+  fields: [
+    { name: 'amm', type: 'pubkey', sqlType: 'TEXT', nullable: false },
+    { name: 'amount_in', type: 'u64', sqlType: 'NUMERIC(20,0)', nullable: false },
+    {
+      name: 'params',
+      type: 'defined<SwapParams>',
+      sqlType: 'JSONB',
+      nullable: false,
+      fields: [
+        { name: 'min_out', type: 'option<u64>', sqlType: 'NUMERIC(20,0)', nullable: true },
+        { name: 'route', type: 'vec<pubkey>', sqlType: 'JSONB', nullable: false },
+      ],
+    },
+  ],
+}];
+
+const settings = (overrides: Partial<PayloadSettings>): PayloadSettings => ({ ...DEFAULT_PAYLOAD_SETTINGS, ...overrides });
+
+describe('parsePayloadSettings', () => {
+  it('infers the template format and merges over current settings', () => {
+    const parsed = parsePayloadSettings({ payloadTemplate: { text: '{{ event }}' }, customHeaders: { Authorization: 'Bearer t' } });
+    expect(parsed).toEqual({
+      format: 'template',
+      template: { text: '{{ event }}' },
+      fields: null,
+      headers: { Authorization: 'Bearer t' },
+    });
+
+    // Switching format drops the template; untouched settings are kept
+    expect(parsePayloadSettings({ payloadFormat: 'slack' }, parsed)).toEqual({ ...parsed, format: 'slack', template: null });
+    expect(parsePayloadSettings({ payloadFields: ['amm'] }, parsed).template).toEqual({ text: '{{ event }}' });
+  });
+
+  it('rejects invalid settings', () => {
+    for (const bad of [
+      { payloadFormat: 'telegram' },
+      { payloadFormat: 'template' },
+      { payloadFormat: 'slack', payloadTemplate: { text: 'x' } },
+      { payloadTemplate: 'just a string' },
+      { payloadTemplate: { text: '{{ data.amount; drop }}' } },
+      { payloadTemplate: { text: '{{ secret }}' } },
+      { payloadFields: ['params.route.0'] },
+      { customHeaders: { 'Content-Type': 'text/plain' } },
+      { customHeaders: { 'X-Uho-Event': 'x' } },
+      { customHeaders: { 'X-Token': 'a\r\nInjected: 1' } },
+      { customHeaders: { 'Bad Header': 'x' } },
+    ]) {
+      expect(() => parsePayloadSettings(bad), JSON.stringify(bad)).toThrow(ValidationError);
+    }
+  });
+});
+
+describe('checkPayloadSettings', () => {
+  const context = { sinkType: 'http' as const, batchMaxEvents: 1, events };
+
+  it('checks template and selected fields against the IDL', () => {
+    const template = parsePayloadSettings({ payloadTemplate: { a: '{{ data.params.min_out }}', b: '{{ $.data.amountIn }}' } });
+    expect(() => checkPayloadSettings(template, context)).not.toThrow();
+    expect(() => checkPayloadSettings(settings({ fields: ['amm', 'params.route'] }), context)).not.toThrow();
+
+    expect(() => checkPayloadSettings(parsePayloadSettings({ payloadTemplate: { a: '{{ data.amount_out }}' } }), context))
+      .toThrow(/Invalid payloadTemplate: unknown field 'amount_out'/);
+    expect(() => checkPayloadSettings(settings({ fields: ['params.max_out'] }), context)).toThrow(/unknown field/);
+  });
+
+  it('limits headers to HTTP sinks and preset batch sizes', () => {
+    expect(() => checkPayloadSettings(settings({ headers: { 'X-Team': 'a' } }), { ...context, sinkType: 'kafka' }))
+      .toThrow(/only sent by HTTP sinks/);
+    expect(() => checkPayloadSettings(settings({ format: 'discord' }), { ...context, batchMaxEvents: 11 }))
+      .toThrow(/at most 10/);
+    expect(() => checkPayloadSettings(settings({ format: 'slack' }), { ...context, batchMaxEvents: 25 })).not.toThrow();
+  });
+});
+
+describe('shapePayload', () => {
+  it('renders templates, keeping the type of whole-string placeholders', () => {
+    const template = settings({
+      format: 'template',
+      template: {
+        chat_id: '-100123',
+        amount: '{{ data.amount_in }}',
+        route: '{{ data.params.route }}',
+        missing: '{{ data.nope }}',
+        text: '{{ event }} in {{ $.data.params.route }} at slot {{ slot }}{{ data.nope }}',
+        slot: '{{slot}}',
+      },
+    });
+    expect(shapePayload(template, swap, false)).toEqual({
+      chat_id: '-100123',
+      amount: '18446744073709551615',
+      route: ['A', 'B'],
+      missing: null,
+      text: 'SwapEvent in ["A","B"] at slot 100',
+      slot: 100,
+    });
+  });
+
+  it('selects fields, and renders each event of a batch', () => {
+    const batch = { id: 'bat_1', type: 'batch', events: [swap, { ...swap, id: 'evt_2' }], timestamp: swap.timestamp };
+    const selected = shapePayload(settings({ fields: ['amm', 'params.min_out'] }), batch, true) as typeof batch;
+    expect(selected.id).toBe('bat_1');
+    expect(selected.events[1]).toEqual({ ...swap, id: 'evt_2', data: { amm: 'pool1', params: { min_out: '2500' } } });
+
+    const rendered = shapePayload(settings({ format: 'template', template: { id: '{{ id }}' } }), batch, true);
+    expect(rendered).toMatchObject({ id: 'bat_1', events: [{ id: 'evt_1' }, { id: 'evt_2' }] });
+    expect(shapePayload(DEFAULT_PAYLOAD_SETTINGS, swap, false)).toBe(swap);
+  });
+
+  it('formats Discord and Slack messages', () => {
+    const discord = shapePayload(settings({ format: 'discord' }), { ...swap, type: 'retracted' }, false) as {
+      embeds: Array<{ title: string; color: number; fields: Array<{ name: string; value: string }> }>;
+    };
+    expect(discord.embeds).toHaveLength(1);
+    expect(discord.embeds[0].title).toBe('SwapEvent (retracted)');
+    expect(discord.embeds[0].fields.map((f) => f.name)).toEqual(['amm', 'amountIn', 'params']);
+    expect(discord.embeds[0].fields[2].value).toBe('{"minOut":"2500","route":["A","B"]}');
+
+    const slack = shapePayload(settings({ format: 'slack' }), { ...swap, data: { note: '<b>&' } }, false) as {
+      text: string;
+      blocks: Array<{ type: string; fields?: Array<{ text: string }> }>;
+    };
+    expect(slack.text).toBe('SwapEvent at slot 100');
+    expect(slack.blocks.map((b) => b.type)).toEqual(['section', 'context']);
+    expect(slack.blocks[0].fields?.[0].text).toBe('*note*\n&lt;b&gt;&amp;');
+  });
+
+  it('keeps Discord embeds within the message text limit', () => {
+    const long = { ...swap, data: Object.fromEntries(Array.from({ length: 30 }, (_, i) => [`field_${i}`, 'x'.repeat(900)])) };
+    const message = shapePayload(settings({ format: 'discord' }), { type: 'batch', events: [long, long] }, true) as {
+      embeds: Array<{ title: string; description: string; fields: Array<{ name: string; value: string }> }>;
+    };
+    const length = message.embeds.reduce(
+      (sum, e) => sum + e.title.length + e.description.length + e.fields.reduce((s, f) => s + f.name.length + f.value.length, 0),
+      0
+    );
+    expect(message.embeds).toHaveLength(2);
+    expect(length).toBeLessThanOrEqual(6000);
+  });
+});
+
+describe('test events', () => {
+  it('builds example data shaped like decoded data', () => {
+    expect(sampleEventData(events[0].fields)).toEqual({
+      amm: '11111111111111111111111111111111',
+      amount_in: '1000000',
+      params: { min_out: '1000000', route: [] },
+    });
+  });
+
+  it('masks secret header values', () => {
+    expect(redactHeaders({ Authorization: 'Bearer t', 'X-Api-Key': 'k', 'X-Team': 'growth' })).toEqual({
+      Authorization: '********', 'X-Api-Key': '********', 'X-Team': 'growth',
+    });
+  });
+});
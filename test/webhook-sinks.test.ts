@@ -0,0 +1,256 @@
+/**
+ * Uho — Webhook Sink Tests
+ *
+ * Tests sink config validation and redaction, the message each sink sends
+ * and the sink pool's connection handling. The HTTP sink posts to an
+ * in-process server; broker sinks run against fake clients.
+ */
+
+import { describe, it, expect, afterAll } from 'vitest';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import type { Producer } from 'kafkajs';
+import type { NatsConnection } from 'nats';
+import type { Redis } from 'ioredis';
+import type { SQSClient } from '@aws-sdk/client-sqs';
+import {
+  HttpSink,
+  KafkaSink,
+  NatsSink,
+  RedisStreamSink,
+  SqsSink,
+  WebhookSinkPool,
+  parseSinkConfig,
+  redactSinkConfig,
+  type SinkMessage,
+  type WebhookSink,
+} from '../src/services/webhook-sinks.js';
+import { ValidationError } from '../src/core/errors.js';
+import type { WebhookSinkConfig } from '../src/core/types.js';
+
+const message: SinkMessage = {
+  webhookId: 'wh-1',
+  eventType: 'SwapEvent',
+  body: '{"id":"evt_1"}',
+  idempotencyKey: 'evt_1',
+  signature: 'abc123',
+  deliveryId: 'del-1',
+  timestamp: 1760000000,
+};
+
+const expectedHeaders = {
+  'X-Uho-Signature': 'sha256=abc123',
+  'X-Uho-Event': 'SwapEvent',
+  'X-Uho-Delivery-Id': 'del-1',
+  'X-Uho-Idempotency-Key': 'evt_1',
+  'X-Uho-Timestamp': '1760000000',
+};
+
+describe('parseSinkConfig', () => {
+  it('defaults to an HTTP sink at the webhook url', () => {
+    expect(parseSinkConfig(undefined, 'https://example.com/hook')).toEqual({ type: 'http', url: 'https://example.com/hook' });
+    expect(() => parseSinkConfig(undefined, 'ftp://example.com')).toThrow(ValidationError);
+  });
+
+  it('validates broker configs', () => {
+    expect(parseSinkConfig({ type: 'kafka', brokers: ['b1:9092'], topic: 'uho.events', extra: 1 })).toEqual({
+      type: 'kafka', brokers: ['b1:9092'], topic: 'uho.events',
+    });
+    expect(parseSinkConfig({ type: 'sqs', queueUrl: 'http://localhost:9324/000/q.fifo', region: 'us-east-1' }).type).toBe('sqs');
+
+    for (const bad of [
+      { type: 'smtp' },
+      { type: 'kafka', brokers: [], topic: 't' },
+      { type: 'kafka', brokers: ['b1:9092'], topic: 'bad topic' },
+      { type: 'kafka', brokers: ['b1:9092'], topic: 't', sasl: { mechanism: 'gssapi', username: 'u', password: 'p' } },
+      { type: 'nats', servers: ['nats://localhost:4222'], subject: 'uho.>' },
+      { type: 'redis-stream', url: 'http://localhost:6379', stream: 's' },
+      { type: 'redis-stream', url: 'redis://localhost:6379', stream: 's', maxLen: 0 },
+      { type: 'sqs', queueUrl: 'http://localhost:9324/000/q', region: 'us-east-1', accessKeyId: 'k' },
+    ]) {
+      expect(() => parseSinkConfig(bad), JSON.stringify(bad)).toThrow(ValidationError);
+    }
+  });
+
+  it('masks credentials when returned', () => {
+    const kafka = parseSinkConfig({
+      type: 'kafka', brokers: ['b1:9092'], topic: 't', sasl: { mechanism: 'plain', username: 'u', password: 'p' },
+    });
+    expect(redactSinkConfig(kafka)).toMatchObject({ sasl: { username: 'u', password: '********' } });
+    expect(redactSinkConfig(parseSinkConfig({ type: 'redis-stream', url: 'redis://:secret@localhost:6379/0', stream: 's' })))
+      .toMatchObject({ url: 'redis://:********@localhost:6379/0' });
+  });
+});
+
+describe('HttpSink', () => {
+  const received: Array<{ headers: http.IncomingHttpHeaders; body: string }> = [];
+  let status = 200;
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => { body += chunk; });
+    req.on('end', () => {
+      received.push({ headers: req.headers, body });
+      res.writeHead(status).end('ok');
+    });
+  });
+  const listening = new Promise<string>((resolve) => {
+    server.listen(0, '127.0.0.1', () => resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`));
+  });
+  afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+  it('posts the body with the metadata headers', async () => {
+    const sink = new HttpSink({ type: 'http', url: await listening });
+    expect(await sink.send(message)).toEqual({ success: true, status: 200, body: 'ok' });
+    expect(received[0].body).toBe(message.body);
+    expect(received[0].headers['x-uho-signature']).toBe('sha256=abc123');
+    expect(received[0].headers['x-uho-idempotency-key']).toBe('evt_1');
+
+    status = 500;
+    expect(await sink.send(message)).toMatchObject({ success: false, status: 500 });
+  });
+
+  it('adds the custom headers', async () => {
+    const sink = new HttpSink({ type: 'http', url: await listening });
+    await sink.send({ ...message, headers: { Authorization: 'Bearer t' } });
+    expect(received[received.length - 1].headers.authorization).toBe('Bearer t');
+    expect(received[received.length - 1].headers['x-uho-event']).toBe('SwapEvent');
+  });
+});
+
+describe('broker sinks', () => {
+  it('produces to Kafka keyed by webhook id', async () => {
+    const sent: unknown[] = [];
+    const producer = {
+      connect: async () => {},
+      disconnect: async () => {},
+      send: async (record: unknown) => {
+        sent.push(record);
+        return [{ topicName: 't', partition: 2, errorCode: 0, baseOffset: '41' }];
+      },
+    } as unknown as Producer;
+    const sink = new KafkaSink({ type: 'kafka', brokers: ['b1:9092'], topic: 't' }, () => producer);
+
+    expect(await sink.send(message)).toEqual({ success: true, status: null, body: 'partition 2 offset 41' });
+    expect(sent[0]).toMatchObject({
+      topic: 't',
+      messages: [{ key: 'wh-1', value: message.body, headers: expectedHeaders }],
+    });
+  });
+
+  it('publishes to NATS, deduping through JetStream', async () => {
+    const published: Array<{ subject: string; options: Record<string, unknown> }> = [];
+    const connection = {
+      publish: (subject: string) => published.push({ subject, options: {} }),
+      flush: async () => {},
+      close: async () => {},
+      jetstream: () => ({
+        publish: async (subject: string, _data: Uint8Array, options: Record<string, unknown>) => {
+          published.push({ subject, options });
+          return { stream: 'UHO', seq: 7, duplicate: false };
+        },
+      }),
+    } as unknown as NatsConnection;
+
+    const core = new NatsSink({ type: 'nats', servers: ['nats://n:4222'], subject: 'uho.swaps' }, async () => connection);
+    expect(await core.send(message)).toEqual({ success: true, status: null, body: 'published' });
+
+    const js = new NatsSink({ type: 'nats', servers: ['nats://n:4222'], subject: 'uho.swaps', jetstream: true }, async () => connection);
+    expect(await js.send(message)).toEqual({ success: true, status: null, body: 'stream UHO seq 7' });
+    expect(published[1].options.msgID).toBe('evt_1');
+  });
+
+  it('appends to a Redis stream', async () => {
+    const commands: unknown[][] = [];
+    const client = {
+      connect: async () => {},
+      disconnect: () => {},
+      xadd: async (...args: unknown[]) => {
+        commands.push(args);
+        return '1760000000000-0';
+      },
+    } as unknown as Redis;
+    const sink = new RedisStreamSink({ type: 'redis-stream', url: 'redis://r:6379', stream: 'uho', maxLen: 1000 }, () => client);
+
+    expect(await sink.send(message)).toEqual({ success: true, status: null, body: 'entry 1760000000000-0' });
+    expect(commands[0].slice(0, 5)).toEqual(['uho', 'MAXLEN', '~', 1000, '*']);
+    expect(commands[0].slice(-2)).toEqual(['payload', message.body]);
+    expect(commands[0]).toContain('X-Uho-Idempotency-Key');
+  });
+
+  it('sends to SQS, grouping and deduping on FIFO queues', async () => {
+    const inputs: Array<Record<string, unknown>> = [];
+    const client = {
+      send: async (command: { input: Record<string, unknown> }) => {
+        inputs.push(command.input);
+        return { MessageId: 'm-1' };
+      },
+      destroy: () => {},
+    } as unknown as SQSClient;
+
+    const standard = new SqsSink({ type: 'sqs', queueUrl: 'http://q:9324/000/events', region: 'us-east-1' }, () => client);
+    const fifo = new SqsSink({ type: 'sqs', queueUrl: 'http://q:9324/000/events.fifo', region: 'us-east-1' }, () => client);
+    expect(await standard.send(message)).toEqual({ success: true, status: null, body: 'message m-1' });
+    await fifo.send(message);
+
+    expect(inputs[0]).toMatchObject({ MessageBody: message.body, MessageGroupId: undefined });
+    expect(inputs[0].MessageAttributes).toMatchObject({ 'X-Uho-Event': { DataType: 'String', StringValue: 'SwapEvent' } });
+    expect(inputs[1]).toMatchObject({ MessageGroupId: 'wh-1', MessageDeduplicationId: 'evt_1' });
+  });
+});
+
+describe('WebhookSinkPool', () => {
+  /** Pool over fake sinks that fail while `failing` is set */
+  function fakeSinkPool() {
+    const created: WebhookSinkConfig[] = [];
+    const closed: WebhookSinkConfig[] = [];
+    const state = { failing: false };
+    const pool = new WebhookSinkPool((config) => {
+      created.push(config);
+      const sink: WebhookSink = {
+        type: config.type,
+        send: async () => {
+          if (state.failing) throw new Error('broker unavailable');
+          return { success: true, status: null, body: 'ok' };
+        },
+        close: async () => { closed.push(config); },
+      };
+      return sink;
+    });
+    return { pool, created, closed, state };
+  }
+
+  const nats: WebhookSinkConfig = { type: 'nats', servers: ['nats://n:4222'], subject: 'a' };
+
+  it('shares a sink between deliveries with the same config', async () => {
+    const { pool, created } = fakeSinkPool();
+    await pool.send(nats, message);
+    await pool.send({ ...nats }, message);
+    await pool.send({ ...nats, subject: 'b' }, message);
+    expect(created).toHaveLength(2);
+    expect(pool.size).toBe(2);
+  });
+
+  it('closes a broker sink whose delivery failed, and reconnects on retry', async () => {
+    const { pool, created, closed, state } = fakeSinkPool();
+    await pool.send(nats, message);
+
+    state.failing = true;
+    expect(await pool.send(nats, message)).toEqual({ success: false, status: null, body: 'broker unavailable' });
+    expect(closed).toHaveLength(1);
+    expect(pool.size).toBe(0);
+
+    state.failing = false;
+    expect((await pool.send(nats, message)).success).toBe(true);
+    expect(created).toHaveLength(2);
+  });
+
+  it('closes idle sinks', async () => {
+    const { pool, closed } = fakeSinkPool();
+    await pool.send(nats, message);
+    await pool.closeIdle(60_000);
+    expect(pool.size).toBe(1);
+    await pool.closeAll();
+    expect(pool.size).toBe(0);
+    expect(closed).toHaveLength(1);
+  });
+});